@@ -0,0 +1,3 @@
+-- File: drizzle/0015_wide_glorian.sql
+
+ALTER TABLE "hexmusic-stream_user_preferences" ADD COLUMN "crossfadeDuration" real DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+-- File: drizzle/0016_brief_vertigo.sql
+
+ALTER TABLE "hexmusic-stream_user_preferences" ADD COLUMN "gaplessPlayback" boolean DEFAULT true NOT NULL;
\ No newline at end of file
@@ -0,0 +1,8 @@
+-- File: drizzle/0017_parched_tempest.sql
+
+ALTER TABLE "hexmusic-stream_audio_features" ADD COLUMN "integratedLoudness" real;--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_audio_features" ADD COLUMN "albumId" bigint;--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_user_preferences" ADD COLUMN "normalizeVolume" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_user_preferences" ADD COLUMN "normalizationMode" varchar(10) DEFAULT 'track' NOT NULL;--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_user_preferences" ADD COLUMN "normalizationTarget" real DEFAULT -14 NOT NULL;--> statement-breakpoint
+CREATE INDEX "audio_features_album_idx" ON "hexmusic-stream_audio_features" USING btree ("albumId");
\ No newline at end of file
@@ -0,0 +1,15 @@
+-- File: drizzle/0018_flippant_hammerhead.sql
+
+CREATE TABLE "hexmusic-stream_equalizer_preset" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "hexmusic-stream_equalizer_preset_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"userId" varchar(255) NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"bands" jsonb NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updatedAt" timestamp with time zone,
+	CONSTRAINT "equalizer_preset_user_name_unique" UNIQUE("userId","name")
+);
+--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_user_preferences" ADD COLUMN "equalizerBandLayout" jsonb;--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_equalizer_preset" ADD CONSTRAINT "hexmusic-stream_equalizer_preset_userId_hexmusic-stream_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."hexmusic-stream_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "equalizer_preset_user_idx" ON "hexmusic-stream_equalizer_preset" USING btree ("userId");
\ No newline at end of file
@@ -0,0 +1,3 @@
+-- File: drizzle/0019_bent_juggernaut.sql
+
+ALTER TABLE "hexmusic-stream_user_preferences" ADD COLUMN "equalizerCorrection" jsonb;
\ No newline at end of file
@@ -0,0 +1,3 @@
+-- File: drizzle/0020_right_husk.sql
+
+ALTER TABLE "hexmusic-stream_user_preferences" ADD COLUMN "audioEffects" jsonb;
\ No newline at end of file
@@ -0,0 +1,17 @@
+-- File: drizzle/0021_rich_valkyrie.sql
+
+CREATE TABLE "hexmusic-stream_track_marker" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "hexmusic-stream_track_marker_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"userId" varchar(255) NOT NULL,
+	"trackId" bigint NOT NULL,
+	"cuePoints" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"loopStart" real,
+	"loopEnd" real,
+	"loopEnabled" boolean DEFAULT false NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updatedAt" timestamp with time zone,
+	CONSTRAINT "track_marker_user_track_unique" UNIQUE("userId","trackId")
+);
+--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_track_marker" ADD CONSTRAINT "hexmusic-stream_track_marker_userId_hexmusic-stream_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."hexmusic-stream_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "track_marker_user_idx" ON "hexmusic-stream_track_marker" USING btree ("userId");
\ No newline at end of file
@@ -0,0 +1,3 @@
+-- File: drizzle/0022_mute_next_avengers.sql
+
+ALTER TABLE "hexmusic-stream_user_preferences" ADD COLUMN "defaultQuality" varchar(10) DEFAULT 'high' NOT NULL;
\ No newline at end of file
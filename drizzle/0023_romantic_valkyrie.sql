@@ -0,0 +1,3 @@
+-- File: drizzle/0023_romantic_valkyrie.sql
+
+ALTER TABLE "hexmusic-stream_user_preferences" ADD COLUMN "downloadQuality" varchar(10) DEFAULT 'normal' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,15 @@
+-- File: drizzle/0024_absent_ricochet.sql
+
+CREATE TABLE "hexmusic-stream_queue_snapshot" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "hexmusic-stream_queue_snapshot_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"userId" varchar(255) NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"queueState" jsonb NOT NULL,
+	"trackCount" integer DEFAULT 0 NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updatedAt" timestamp with time zone,
+	CONSTRAINT "queue_snapshot_user_name_unique" UNIQUE("userId","name")
+);
+--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_queue_snapshot" ADD CONSTRAINT "hexmusic-stream_queue_snapshot_userId_hexmusic-stream_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."hexmusic-stream_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "queue_snapshot_user_idx" ON "hexmusic-stream_queue_snapshot" USING btree ("userId");
\ No newline at end of file
@@ -0,0 +1,33 @@
+-- File: drizzle/0025_colorful_jackpot.sql
+
+CREATE TABLE "hexmusic-stream_listening_room_message" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "hexmusic-stream_listening_room_message_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"roomId" integer NOT NULL,
+	"userId" varchar(255),
+	"authorName" varchar(255) NOT NULL,
+	"kind" varchar(20) NOT NULL,
+	"body" text NOT NULL,
+	"track" jsonb,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "hexmusic-stream_listening_room" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "hexmusic-stream_listening_room_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"code" varchar(16) NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"hostId" varchar(255) NOT NULL,
+	"hostSessionId" integer,
+	"playback" jsonb,
+	"isActive" boolean DEFAULT true NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"endedAt" timestamp with time zone,
+	CONSTRAINT "hexmusic-stream_listening_room_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_listening_room_message" ADD CONSTRAINT "hexmusic-stream_listening_room_message_roomId_hexmusic-stream_listening_room_id_fk" FOREIGN KEY ("roomId") REFERENCES "public"."hexmusic-stream_listening_room"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_listening_room_message" ADD CONSTRAINT "hexmusic-stream_listening_room_message_userId_hexmusic-stream_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."hexmusic-stream_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_listening_room" ADD CONSTRAINT "hexmusic-stream_listening_room_hostId_hexmusic-stream_user_id_fk" FOREIGN KEY ("hostId") REFERENCES "public"."hexmusic-stream_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_listening_room" ADD CONSTRAINT "hexmusic-stream_listening_room_hostSessionId_hexmusic-stream_player_session_id_fk" FOREIGN KEY ("hostSessionId") REFERENCES "public"."hexmusic-stream_player_session"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "listening_room_message_room_idx" ON "hexmusic-stream_listening_room_message" USING btree ("roomId","createdAt");--> statement-breakpoint
+CREATE INDEX "listening_room_host_idx" ON "hexmusic-stream_listening_room" USING btree ("hostId");--> statement-breakpoint
+CREATE INDEX "listening_room_active_idx" ON "hexmusic-stream_listening_room" USING btree ("isActive");
\ No newline at end of file
@@ -0,0 +1,45 @@
+-- File: drizzle/0026_medical_union_jack.sql
+
+CREATE TABLE "hexmusic-stream_jukebox_request" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "hexmusic-stream_jukebox_request_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"jukeboxId" integer NOT NULL,
+	"track" jsonb NOT NULL,
+	"artistId" integer NOT NULL,
+	"guestId" varchar(255) NOT NULL,
+	"guestName" varchar(255) NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"decidedAt" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "hexmusic-stream_jukebox_vote" (
+	"requestId" integer NOT NULL,
+	"guestId" varchar(255) NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	CONSTRAINT "hexmusic-stream_jukebox_vote_requestId_guestId_pk" PRIMARY KEY("requestId","guestId")
+);
+--> statement-breakpoint
+CREATE TABLE "hexmusic-stream_jukebox" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "hexmusic-stream_jukebox_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"code" varchar(16) NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"hostId" varchar(255) NOT NULL,
+	"requireApproval" boolean DEFAULT true NOT NULL,
+	"nowPlaying" jsonb,
+	"queue" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"bannedArtists" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"isActive" boolean DEFAULT true NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updatedAt" timestamp with time zone,
+	"endedAt" timestamp with time zone,
+	CONSTRAINT "hexmusic-stream_jukebox_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_jukebox_request" ADD CONSTRAINT "hexmusic-stream_jukebox_request_jukeboxId_hexmusic-stream_jukebox_id_fk" FOREIGN KEY ("jukeboxId") REFERENCES "public"."hexmusic-stream_jukebox"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_jukebox_vote" ADD CONSTRAINT "hexmusic-stream_jukebox_vote_requestId_hexmusic-stream_jukebox_request_id_fk" FOREIGN KEY ("requestId") REFERENCES "public"."hexmusic-stream_jukebox_request"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_jukebox" ADD CONSTRAINT "hexmusic-stream_jukebox_hostId_hexmusic-stream_user_id_fk" FOREIGN KEY ("hostId") REFERENCES "public"."hexmusic-stream_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "jukebox_request_status_idx" ON "hexmusic-stream_jukebox_request" USING btree ("jukeboxId","status");--> statement-breakpoint
+CREATE INDEX "jukebox_request_guest_idx" ON "hexmusic-stream_jukebox_request" USING btree ("jukeboxId","guestId","createdAt");--> statement-breakpoint
+CREATE INDEX "jukebox_vote_guest_idx" ON "hexmusic-stream_jukebox_vote" USING btree ("guestId","createdAt");--> statement-breakpoint
+CREATE INDEX "jukebox_host_idx" ON "hexmusic-stream_jukebox" USING btree ("hostId");--> statement-breakpoint
+CREATE INDEX "jukebox_active_idx" ON "hexmusic-stream_jukebox" USING btree ("isActive");
\ No newline at end of file
@@ -0,0 +1,4 @@
+-- File: drizzle/0027_swift_mole_man.sql
+
+ALTER TABLE "hexmusic-stream_playlist" ADD COLUMN "smartRules" jsonb;--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_playlist" ADD COLUMN "smartRefreshedAt" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,29 @@
+-- File: drizzle/0028_wealthy_imperial_guard.sql
+
+CREATE TABLE "hexmusic-stream_playlist_invite" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "hexmusic-stream_playlist_invite_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"playlistId" integer NOT NULL,
+	"code" varchar(16) NOT NULL,
+	"role" varchar(20) NOT NULL,
+	"createdBy" varchar(255) NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"expiresAt" timestamp with time zone NOT NULL,
+	CONSTRAINT "hexmusic-stream_playlist_invite_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+CREATE TABLE "hexmusic-stream_playlist_member" (
+	"playlistId" integer NOT NULL,
+	"userId" varchar(255) NOT NULL,
+	"role" varchar(20) NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	CONSTRAINT "hexmusic-stream_playlist_member_playlistId_userId_pk" PRIMARY KEY("playlistId","userId")
+);
+--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_playlist_track" ADD COLUMN "addedBy" varchar(255);--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_playlist_invite" ADD CONSTRAINT "hexmusic-stream_playlist_invite_playlistId_hexmusic-stream_playlist_id_fk" FOREIGN KEY ("playlistId") REFERENCES "public"."hexmusic-stream_playlist"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_playlist_invite" ADD CONSTRAINT "hexmusic-stream_playlist_invite_createdBy_hexmusic-stream_user_id_fk" FOREIGN KEY ("createdBy") REFERENCES "public"."hexmusic-stream_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_playlist_member" ADD CONSTRAINT "hexmusic-stream_playlist_member_playlistId_hexmusic-stream_playlist_id_fk" FOREIGN KEY ("playlistId") REFERENCES "public"."hexmusic-stream_playlist"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_playlist_member" ADD CONSTRAINT "hexmusic-stream_playlist_member_userId_hexmusic-stream_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."hexmusic-stream_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "playlist_invite_playlist_idx" ON "hexmusic-stream_playlist_invite" USING btree ("playlistId");--> statement-breakpoint
+CREATE INDEX "playlist_member_user_idx" ON "hexmusic-stream_playlist_member" USING btree ("userId");--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_playlist_track" ADD CONSTRAINT "hexmusic-stream_playlist_track_addedBy_hexmusic-stream_user_id_fk" FOREIGN KEY ("addedBy") REFERENCES "public"."hexmusic-stream_user"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
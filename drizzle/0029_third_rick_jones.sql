@@ -0,0 +1,20 @@
+-- File: drizzle/0029_third_rick_jones.sql
+
+CREATE TABLE "hexmusic-stream_playlist_folder" (
+	"id" integer PRIMARY KEY GENERATED BY DEFAULT AS IDENTITY (sequence name "hexmusic-stream_playlist_folder_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"userId" varchar(255) NOT NULL,
+	"parentId" integer,
+	"name" varchar(256) NOT NULL,
+	"isCollapsed" boolean DEFAULT false NOT NULL,
+	"createdAt" timestamp with time zone DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updatedAt" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_playlist_member" ADD COLUMN "folderId" integer;--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_playlist" ADD COLUMN "folderId" integer;--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_playlist_folder" ADD CONSTRAINT "hexmusic-stream_playlist_folder_userId_hexmusic-stream_user_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."hexmusic-stream_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_playlist_folder" ADD CONSTRAINT "hexmusic-stream_playlist_folder_parentId_hexmusic-stream_playlist_folder_id_fk" FOREIGN KEY ("parentId") REFERENCES "public"."hexmusic-stream_playlist_folder"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "playlist_folder_user_idx" ON "hexmusic-stream_playlist_folder" USING btree ("userId");--> statement-breakpoint
+CREATE INDEX "playlist_folder_parent_idx" ON "hexmusic-stream_playlist_folder" USING btree ("parentId");--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_playlist_member" ADD CONSTRAINT "hexmusic-stream_playlist_member_folderId_hexmusic-stream_playlist_folder_id_fk" FOREIGN KEY ("folderId") REFERENCES "public"."hexmusic-stream_playlist_folder"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "hexmusic-stream_playlist" ADD CONSTRAINT "hexmusic-stream_playlist_folderId_hexmusic-stream_playlist_folder_id_fk" FOREIGN KEY ("folderId") REFERENCES "public"."hexmusic-stream_playlist_folder"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
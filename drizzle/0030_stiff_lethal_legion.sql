@@ -0,0 +1,4 @@
+-- File: drizzle/0030_stiff_lethal_legion.sql
+
+ALTER TABLE "hexmusic-stream_listening_room_message" ADD COLUMN "senderId" varchar(255);--> statement-breakpoint
+CREATE INDEX "listening_room_message_sender_idx" ON "hexmusic-stream_listening_room_message" USING btree ("roomId","senderId","createdAt");
\ No newline at end of file
@@ -0,0 +1,199 @@
+// File: public/sw.js
+
+/**
+ * Service worker for offline listening
+ *
+ * - Downloads track audio through /api/stream into Cache Storage when the
+ *   app asks for it (see src/services/offline.ts)
+ * - Serves downloaded audio at /offline/audio/<trackId>, and for /api/stream
+ *   requests of downloaded tracks, with byte-range support for seeking
+ * - Keeps the app shell (pages and build assets) available without a
+ *   connection
+ *
+ * Cache names and paths are shared with src/config/offline.ts; keep them in
+ * sync.
+ */
+
+const OFFLINE_AUDIO_CACHE = "hexmusic-offline-audio-v1";
+const OFFLINE_AUDIO_PATH = "/offline/audio/";
+const STATIC_CACHE = "hexmusic-static-v1";
+const PAGE_CACHE = "hexmusic-pages-v1";
+const CACHES = [OFFLINE_AUDIO_CACHE, STATIC_CACHE, PAGE_CACHE];
+
+// Pages shown when navigating offline to one that was never visited
+const FALLBACK_PAGES = ["/library", "/"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(self.skipWaiting());
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter((name) => name.startsWith("hexmusic-") && !CACHES.includes(name))
+          .map((name) => caches.delete(name)),
+      );
+      await self.clients.claim();
+    })(),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith(OFFLINE_AUDIO_PATH)) {
+    const trackId = url.pathname.slice(OFFLINE_AUDIO_PATH.length);
+    event.respondWith(
+      serveDownloadedAudio(trackId, request).then(
+        (response) =>
+          response ?? new Response("Track not downloaded", { status: 404 }),
+      ),
+    );
+    return;
+  }
+
+  // Downloaded tracks play from the device even when a stream URL is used
+  if (url.pathname === "/api/stream" && url.searchParams.has("id")) {
+    event.respondWith(
+      serveDownloadedAudio(url.searchParams.get("id"), request).then(
+        (response) => response ?? fetch(request),
+      ),
+    );
+    return;
+  }
+
+  // Build assets are content-hashed and never change
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(STATIC_CACHE, request));
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirstPage(request));
+  }
+});
+
+self.addEventListener("message", (event) => {
+  const data = event.data;
+  const port = event.ports[0];
+  if (data?.type !== "download" || !port) return;
+
+  event.waitUntil(
+    downloadAudio(data.url, data.cacheName, data.cacheKey)
+      .then((size) => port.postMessage({ ok: true, size }))
+      .catch((error) =>
+        port.postMessage({
+          ok: false,
+          error: error instanceof Error ? error.message : String(error),
+        }),
+      ),
+  );
+});
+
+async function downloadAudio(url, cacheName, cacheKey) {
+  const response = await fetch(url);
+  if (response.status !== 200) {
+    throw new Error(`Stream request failed (${response.status})`);
+  }
+  const contentType = response.headers.get("content-type") ?? "audio/mpeg";
+  if (!contentType.startsWith("audio/") && contentType !== "application/octet-stream") {
+    throw new Error(`Unexpected content type ${contentType}`);
+  }
+
+  const blob = await response.blob();
+  if (!blob.size) throw new Error("Empty stream");
+
+  const cache = await caches.open(cacheName);
+  await cache.put(
+    cacheKey,
+    new Response(blob, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Length": String(blob.size),
+      },
+    }),
+  );
+  return blob.size;
+}
+
+async function serveDownloadedAudio(trackId, request) {
+  if (!trackId) return null;
+
+  const cache = await caches.open(OFFLINE_AUDIO_CACHE);
+  const cached = await cache.match(
+    new URL(`${OFFLINE_AUDIO_PATH}${trackId}`, self.location.origin).toString(),
+  );
+  if (!cached) return null;
+
+  const blob = await cached.blob();
+  const headers = {
+    "Content-Type": cached.headers.get("content-type") ?? "audio/mpeg",
+    "Accept-Ranges": "bytes",
+  };
+
+  const range = /^bytes=(\d*)-(\d*)$/.exec(request.headers.get("range") ?? "");
+  if (!range || (!range[1] && !range[2])) {
+    return new Response(blob, {
+      status: 200,
+      headers: { ...headers, "Content-Length": String(blob.size) },
+    });
+  }
+
+  // Suffix ranges ("bytes=-500") ask for the last N bytes
+  const start = range[1]
+    ? Number(range[1])
+    : Math.max(0, blob.size - Number(range[2]));
+  const end =
+    range[1] && range[2]
+      ? Math.min(Number(range[2]), blob.size - 1)
+      : blob.size - 1;
+  if (start >= blob.size || start > end) {
+    return new Response(null, {
+      status: 416,
+      headers: { ...headers, "Content-Range": `bytes */${blob.size}` },
+    });
+  }
+
+  return new Response(blob.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      ...headers,
+      "Content-Length": String(end - start + 1),
+      "Content-Range": `bytes ${start}-${end}/${blob.size}`,
+    },
+  });
+}
+
+async function cacheFirst(cacheName, request) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+async function networkFirstPage(request) {
+  const cache = await caches.open(PAGE_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    for (const path of FALLBACK_PAGES) {
+      const fallback = await cache.match(path);
+      if (fallback) return fallback;
+    }
+    throw error;
+  }
+}
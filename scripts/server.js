@@ -7,9 +7,12 @@
  */
 
 import chalk from "chalk";
-import { execSync, spawn } from "child_process";
+import { execSync } from "child_process";
+import { randomBytes } from "crypto";
 import dotenv from "dotenv";
 import { existsSync } from "fs";
+import { createServer } from "http";
+import next from "next";
 import os from "os";
 import path from "path";
 import { fileURLToPath } from "url";
@@ -271,10 +274,40 @@ function ensureProductionBuild() {
   return true;
 }
 
+// ============================================
+// CLIENT ADDRESS
+// ============================================
+// Proxies in front of this server whose x-forwarded-for entries are trusted
+const trustedProxyHops = Number(process.env.TRUSTED_PROXY_HOPS || 0);
+// Proves to the app that the client address headers were set here (see
+// src/server/services/clientAddress.ts); a new one on every start
+const clientAddressToken = randomBytes(32).toString("hex");
+process.env.CLIENT_ADDRESS_TOKEN = clientAddressToken;
+
+/**
+ * Records the client address for per-client limits. Every trusted proxy
+ * appends the address it received the request from to x-forwarded-for, so
+ * the client is that many entries before the socket address; entries further
+ * left were sent by the client and are never read.
+ * @param {import("http").IncomingMessage} req
+ */
+function recordClientAddress(req) {
+  const forwardedFor = String(req.headers["x-forwarded-for"] ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const chain = [...forwardedFor, req.socket.remoteAddress];
+  const address = chain[chain.length - 1 - trustedProxyHops];
+
+  delete req.headers["x-client-address"];
+  if (address) req.headers["x-client-address"] = address;
+  req.headers["x-client-address-token"] = clientAddressToken;
+}
+
 // ============================================
 // START SERVER
 // ============================================
-function startServer() {
+async function startServer() {
   // Ensure production build exists (builds automatically if missing)
   if (!ensureProductionBuild()) {
     logger.error("Cannot start production server without a valid build");
@@ -286,68 +319,52 @@ function startServer() {
 
   printStartupBanner();
 
-  const nextBin = path.resolve(__dirname, "../node_modules/next/dist/bin/next");
-  const command = isDev ? "dev" : "start";
-  const args = [
-    nextBin,
-    command,
-    "--port",
-    port.toString(),
-    "--hostname",
+  // Next.js runs in this process so the request handler can see the socket
+  process.env.NEXT_TELEMETRY_DISABLED = "1"; // Disable telemetry for cleaner logs
+  const app = next({
+    dev: isDev,
     hostname,
-  ];
-
-  // Add turbo flag only in development
-  if (isDev) {
-    args.push("--turbo");
-  }
+    port: Number(port),
+    turbopack: isDev,
+  });
+  const handle = app.getRequestHandler();
 
   logger.info(
     `Starting Next.js ${isDev ? "development" : "production"} server...`,
   );
-  logger.debug(`Command: node ${args.join(" ")}`);
   console.log("");
 
-  const serverProcess = spawn("node", args, {
-    env: {
-      ...process.env,
-      NODE_ENV: nodeEnv,
-      PORT: port.toString(),
-      HOSTNAME: hostname,
-      NEXT_TELEMETRY_DISABLED: "1", // Disable telemetry for cleaner logs
-    },
-    stdio: "inherit",
+  await app.prepare();
+
+  const server = createServer((req, res) => {
+    recordClientAddress(req);
+    void handle(req, res);
   });
 
-  serverProcess.on("error", (error) => {
+  server.on("error", (error) => {
     logger.error(`Server Error: ${error.message}`);
     process.exit(1);
   });
 
-  serverProcess.on("exit", (code, signal) => {
-    if (code !== 0) {
-      logger.error(
-        `Server exited with code ${code}${signal ? ` (Signal: ${signal})` : ""}`,
-      );
-      process.exit(code || 1);
-    } else {
-      logger.success("Server stopped gracefully");
-      process.exit(0);
-    }
-  });
-
   // Handle graceful shutdown
   /** @type {NodeJS.Signals[]} */
   const signals = ["SIGTERM", "SIGINT", "SIGUSR2"];
   signals.forEach((signal) => {
     process.on(signal, () => {
       logger.warn(`Received ${signal}, shutting down gracefully...`);
-      serverProcess.kill(signal);
+      server.close(() => {
+        logger.success("Server stopped gracefully");
+        process.exit(0);
+      });
+      // Event streams (/api/remote, /api/rooms) stay open until their client
+      // leaves, so connections still open after a short grace are dropped
+      server.closeIdleConnections();
+      setTimeout(() => server.closeAllConnections(), 2000).unref();
     });
   });
 
   // Log when server is ready
-  setTimeout(() => {
+  server.listen(Number(port), hostname, () => {
     logger.section("Server Ready", "🚀");
 
     const localUrl = `http://${hostname}:${port}`;
@@ -401,7 +418,7 @@ function startServer() {
     }
 
     console.log("");
-  }, 2000);
+  });
 }
 
 // ============================================
@@ -458,11 +475,9 @@ setInterval(() => {
 // ============================================
 // RUN
 // ============================================
-try {
-  startServer();
-} catch (error) {
+startServer().catch((error) => {
   const errorMessage = error instanceof Error ? error.message : String(error);
   logger.error(`Failed to start server: ${errorMessage}`);
   console.error(error);
   process.exit(1);
-}
+});
@@ -4,6 +4,7 @@
 
 import EnhancedTrackCard from "@/components/EnhancedTrackCard";
 import { LoadingState } from "@/components/LoadingSpinner";
+import { OfflineDownloadButton } from "@/components/OfflineDownloadButton";
 import { useGlobalPlayer } from "@/contexts/AudioPlayerContext";
 import { getAlbumTracks } from "@/utils/api";
 import type { Track } from "@/types";
@@ -197,6 +198,18 @@ export default function AlbumPage({
               <Shuffle className="h-5 w-5" />
               <span>Shuffle</span>
             </button>
+            {tracks.length > 0 && (
+              <OfflineDownloadButton
+                target={{
+                  kind: "album",
+                  id: album.id,
+                  name: album.title,
+                  coverImage: album.cover_medium ?? null,
+                  tracks,
+                }}
+                className="btn-secondary touch-target-lg flex items-center gap-2"
+              />
+            )}
           </div>
         </div>
       </div>
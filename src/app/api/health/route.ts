@@ -1,6 +1,7 @@
 // File: src/app/api/health/route.ts
 
 import { pool } from "@/server/db";
+import { getStreamCacheStats } from "@/server/services/streamCache";
 import { NextResponse } from "next/server";
 
 /**
@@ -21,6 +22,7 @@ export async function GET() {
     checks: {
       database: "unknown" as "ok" | "error" | "unknown",
     },
+    streamCache: getStreamCacheStats(),
   };
 
   try {
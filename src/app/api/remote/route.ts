@@ -0,0 +1,130 @@
+// File: src/app/api/remote/route.ts
+
+import { REMOTE_HEARTBEAT_MS } from "@/config/remote";
+import { auth } from "@/server/auth";
+import { db } from "@/server/db";
+import { playerSessions } from "@/server/db/schema";
+import {
+  publishRemoteEvent,
+  subscribeRemoteEvents,
+} from "@/server/services/realtime";
+import type { RemoteEvent } from "@/types";
+import { and, eq } from "drizzle-orm";
+import { NextResponse, type NextRequest } from "next/server";
+
+// Long-lived event stream
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Server-sent events for one of the user's devices (`?sessionId=`): commands
+ * and transfers addressed to it, and status and presence from all devices.
+ * EventSource reconnects on its own when the stream drops.
+ */
+export async function GET(req: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const userId = session.user.id;
+
+  const sessionId = Number(req.nextUrl.searchParams.get("sessionId"));
+  if (!Number.isInteger(sessionId)) {
+    return NextResponse.json(
+      { error: "Missing sessionId parameter" },
+      { status: 400 },
+    );
+  }
+
+  const [playerSession] = await db
+    .update(playerSessions)
+    .set({ lastActive: new Date(), isActive: true })
+    .where(
+      and(eq(playerSessions.id, sessionId), eq(playerSessions.userId, userId)),
+    )
+    .returning({ id: playerSessions.id });
+
+  if (!playerSession) {
+    return NextResponse.json({ error: "Device not found" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed
+          cleanup?.();
+        }
+      };
+
+      let unsubscribe: () => void;
+      try {
+        unsubscribe = await subscribeRemoteEvents(
+          userId,
+          (event: RemoteEvent) => {
+            if (
+              (event.kind === "command" || event.kind === "transfer") &&
+              event.targetSessionId !== sessionId
+            ) {
+              return;
+            }
+            write(`data: ${JSON.stringify(event)}\n\n`);
+          },
+        );
+      } catch (error) {
+        console.error("[Remote API] Failed to subscribe:", error);
+        controller.error(error);
+        return;
+      }
+
+      const heartbeat = setInterval(
+        () => write(": ping\n\n"),
+        REMOTE_HEARTBEAT_MS,
+      );
+      cleanup = () => {
+        cleanup = null;
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      const close = () => {
+        cleanup?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      };
+      if (req.signal.aborted) {
+        close();
+        return;
+      }
+      req.signal.addEventListener("abort", close);
+
+      // Open with a comment so proxies flush the headers right away
+      write(": connected\n\n");
+      // Other devices answer with their status
+      void publishRemoteEvent(userId, { kind: "presence", sessionId }).catch(
+        (error: unknown) => {
+          console.warn("[Remote API] Failed to announce device:", error);
+        },
+      );
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,110 @@
+// File: src/app/api/rooms/route.ts
+
+import { REMOTE_HEARTBEAT_MS } from "@/config/remote";
+import { db } from "@/server/db";
+import { listeningRooms } from "@/server/db/schema";
+import { subscribeRoomEvents } from "@/server/services/realtime";
+import type { ListeningRoomEvent } from "@/types";
+import { and, eq } from "drizzle-orm";
+import { NextResponse, type NextRequest } from "next/server";
+
+// Long-lived event stream
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Server-sent events for a listening room (`?code=`): the host's playback,
+ * chat messages and suggestions, and the room ending. Open to anyone with
+ * the room's link, signed in or not.
+ */
+export async function GET(req: NextRequest) {
+  const code = req.nextUrl.searchParams.get("code");
+  if (!code) {
+    return NextResponse.json(
+      { error: "Missing code parameter" },
+      { status: 400 },
+    );
+  }
+
+  const room = await db.query.listeningRooms.findFirst({
+    where: and(
+      eq(listeningRooms.code, code),
+      eq(listeningRooms.isActive, true),
+    ),
+    columns: { id: true },
+  });
+
+  if (!room) {
+    return NextResponse.json({ error: "Room not found" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const close = () => {
+        cleanup?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      };
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed
+          cleanup?.();
+        }
+      };
+
+      let unsubscribe: () => void;
+      try {
+        unsubscribe = await subscribeRoomEvents(
+          room.id,
+          (event: ListeningRoomEvent) => {
+            write(`data: ${JSON.stringify(event)}\n\n`);
+            // Nothing more will happen in this room
+            if (event.kind === "ended") close();
+          },
+        );
+      } catch (error) {
+        console.error("[Rooms API] Failed to subscribe:", error);
+        controller.error(error);
+        return;
+      }
+
+      const heartbeat = setInterval(
+        () => write(": ping\n\n"),
+        REMOTE_HEARTBEAT_MS,
+      );
+      cleanup = () => {
+        cleanup = null;
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      if (req.signal.aborted) {
+        close();
+        return;
+      }
+      req.signal.addEventListener("abort", close);
+
+      // Open with a comment so proxies flush the headers right away
+      write(": connected\n\n");
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -1,24 +1,76 @@
 // File: src/app/api/stream/route.ts
 
+import { AUDIO_QUALITIES } from "@/config/player";
 import { env } from "@/env";
+import {
+  acquireStreamSlot,
+  releaseWhenDone,
+  verifyStreamRequest,
+} from "@/server/services/streamAuth";
+import {
+  getStreamCacheKey,
+  prefetchIntoCache,
+  readCachedStream,
+  teeIntoCache,
+} from "@/server/services/streamCache";
 import { NextResponse, type NextRequest } from "next/server";
 
 // Force dynamic rendering for streaming route
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
 
+// Whether a backend response carries the whole file (so it can be cached)
+function isCompleteBody(status: number, contentRange: string | null): boolean {
+  if (status === 200) return true;
+  const match = contentRange && /^bytes 0-(\d+)\/(\d+)$/.exec(contentRange);
+  return status === 206 && !!match && Number(match[1]) + 1 === Number(match[2]);
+}
+
 export async function GET(req: NextRequest) {
   const searchParams = req.nextUrl.searchParams;
-  const query = searchParams.get("q");
   const id = searchParams.get("id");
+  const quality = searchParams.get("quality");
+
+  if (!id) {
+    return NextResponse.json(
+      { error: "Missing id parameter" },
+      { status: 400 },
+    );
+  }
 
-  if (!query && !id) {
+  if (quality && !(AUDIO_QUALITIES as readonly string[]).includes(quality)) {
     return NextResponse.json(
-      { error: "Missing query or id parameter" },
+      { error: `Invalid quality: ${quality}` },
       { status: 400 },
     );
   }
 
+  // Only URLs issued by stream.getStreamUrl are proxied
+  const verification = verifyStreamRequest(searchParams);
+  if ("error" in verification) {
+    console.warn("[Stream API] Rejected stream request:", verification.error);
+    return NextResponse.json(
+      { error: verification.error, type: "forbidden" },
+      { status: 403 },
+    );
+  }
+
+  const release = acquireStreamSlot(verification.grant);
+  if (!release) {
+    return NextResponse.json(
+      {
+        error: "Too many concurrent streams",
+        message: "Stop playback on another device to start this stream.",
+        type: "concurrency_limit",
+      },
+      { status: 429 },
+    );
+  }
+  // Freed when the response body is done, or on exit if nothing streams
+  let releaseOnExit = true;
+
+  const cacheKey = /^\d+$/.test(id) ? getStreamCacheKey(id, quality) : null;
+
   try {
     const apiUrl = env.NEXT_PUBLIC_API_URL as string | undefined;
     if (!apiUrl) {
@@ -43,14 +95,10 @@ export async function GET(req: NextRequest) {
     const url = new URL("music/stream", normalizedApiUrl);
     url.searchParams.set("key", streamingKey);
 
-    // Prioritize ID over query - ID is more specific and accurate
-    if (id) {
-      url.searchParams.set("id", id);
-      console.log("[Stream API] Streaming by ID:", id);
-    } else if (query) {
-      url.searchParams.set("q", query);
-      console.log("[Stream API] Streaming by query:", query);
-    }
+    if (quality) url.searchParams.set("quality", quality);
+
+    url.searchParams.set("id", id);
+    console.log("[Stream API] Streaming by ID:", id);
 
     const requestUrl = url.toString();
     console.log(
@@ -62,6 +110,25 @@ export async function GET(req: NextRequest) {
       requestUrl.replace(streamingKey, "***"),
     );
 
+    // Cached tracks are served (including seeks) without the backend
+    if (cacheKey) {
+      const cached = await readCachedStream(
+        cacheKey,
+        req.headers.get("Range"),
+      ).catch((error) => {
+        console.warn("[Stream API] Stream cache unavailable:", error);
+        return null;
+      });
+      if (cached) {
+        console.log("[Stream API] Serving from cache:", cacheKey);
+        releaseOnExit = false;
+        return new NextResponse(releaseWhenDone(cached.body, release), {
+          status: cached.status,
+          headers: cached.headers,
+        });
+      }
+    }
+
     const response = await fetch(requestUrl, {
       headers: {
         Range: req.headers.get("Range") ?? "",
@@ -129,8 +196,26 @@ export async function GET(req: NextRequest) {
     if (acceptRanges) headers["Accept-Ranges"] = acceptRanges;
     if (contentRange) headers["Content-Range"] = contentRange;
 
+    // Fill the cache from this response when it's the whole track; a seek
+    // into an uncached track downloads it separately in the background
+    let body: ReadableStream<Uint8Array> | null = response.body;
+    if (cacheKey && body) {
+      headers["X-Stream-Cache"] = "miss";
+      if (isCompleteBody(response.status, contentRange)) {
+        body = teeIntoCache(
+          cacheKey,
+          body,
+          contentType,
+          contentLength ? Number(contentLength) : null,
+        );
+      } else {
+        prefetchIntoCache(cacheKey, requestUrl);
+      }
+    }
+
     // Stream directly instead of buffering
-    return new NextResponse(response.body, {
+    releaseOnExit = false;
+    return new NextResponse(releaseWhenDone(body, release), {
       status: response.status,
       headers,
     });
@@ -181,5 +266,7 @@ export async function GET(req: NextRequest) {
       },
       { status: 500 },
     );
+  } finally {
+    if (releaseOnExit) release();
   }
 }
@@ -0,0 +1,69 @@
+// File: src/app/api/track/[id]/route.ts
+
+import { NextResponse, type NextRequest } from "next/server";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const trackId = parseInt(id, 10);
+
+  if (isNaN(trackId)) {
+    return NextResponse.json({ error: "Invalid track ID" }, { status: 400 });
+  }
+
+  try {
+    // Proxy the request to Deezer API
+    const deezerUrl = `https://api.deezer.com/track/${trackId}`;
+
+    const response = await fetch(deezerUrl, {
+      headers: {
+        Accept: "application/json",
+      },
+      signal: AbortSignal.timeout(10000), // 10 second timeout
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "Unknown error");
+      console.error(
+        `[Track API] Deezer API error: ${response.status} ${response.statusText}`,
+        errorText,
+      );
+      return NextResponse.json(
+        { error: `Deezer API error: ${response.status}`, details: errorText },
+        { status: response.status },
+      );
+    }
+
+    const data = (await response.json()) as {
+      id?: number;
+      error?: unknown;
+      [key: string]: unknown;
+    };
+
+    // Deezer answers unknown IDs with 200 and an error object
+    if (data.error || typeof data.id !== "number") {
+      return NextResponse.json({ error: "Track not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error("[Track API] Error fetching track:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    const isTimeout =
+      error instanceof Error &&
+      (error.name === "AbortError" || error.message.includes("timeout"));
+
+    return NextResponse.json(
+      {
+        error: "Failed to fetch track",
+        message: errorMessage,
+        type: isTimeout ? "timeout" : "fetch_error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,496 @@
+// File: src/app/jukebox/[code]/page.tsx
+
+"use client";
+
+import {
+  JUKEBOX_POLL_MS,
+  MAX_JUKEBOX_GUEST_NAME_LENGTH,
+} from "@/config/jukebox";
+import { STORAGE_KEYS } from "@/config/storage";
+import { useJukebox } from "@/contexts/JukeboxContext";
+import { useToast } from "@/contexts/ToastContext";
+import { localStorage } from "@/services/storage";
+import { api } from "@/trpc/react";
+import type { Track } from "@/types";
+import { getDeviceId, searchTracks } from "@/utils/api";
+import { formatTime } from "@/utils/time";
+import { Ban, Check, Disc3, Link2, Search, ThumbsUp, X } from "lucide-react";
+import { useSession } from "next-auth/react";
+import Image from "next/image";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useEffect, useState, type FormEvent, type ReactNode } from "react";
+
+function TrackSummary({
+  title,
+  artist,
+  cover,
+  action,
+}: {
+  title: string;
+  artist: string;
+  cover: string;
+  action?: ReactNode;
+}) {
+  return (
+    <div className="flex items-center gap-3">
+      <div className="relative h-10 w-10 flex-shrink-0 overflow-hidden rounded bg-[rgba(255,255,255,0.05)]">
+        {cover && (
+          <Image
+            src={cover}
+            alt={title}
+            fill
+            sizes="40px"
+            className="object-cover"
+          />
+        )}
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm text-[var(--color-text)]">{title}</p>
+        <p className="truncate text-xs text-[var(--color-subtext)]">{artist}</p>
+      </div>
+      {action}
+    </div>
+  );
+}
+
+const sectionClass =
+  "rounded-xl border border-[rgba(244,178,102,0.12)] bg-[rgba(12,18,27,0.6)] p-4";
+const headingClass =
+  "mb-3 text-xs font-semibold tracking-wide text-[var(--color-muted)] uppercase";
+const iconButtonClass =
+  "rounded p-1.5 text-[var(--color-subtext)] transition hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)]";
+
+export default function JukeboxPage() {
+  const params = useParams<{ code: string }>();
+  const code = params.code;
+  const { data: session } = useSession();
+  const { showToast } = useToast();
+  const { endJukebox } = useJukebox();
+  const utils = api.useUtils();
+
+  // Guests are told apart by device; signed-in users by account
+  const [guestId, setGuestId] = useState<string | null>(null);
+  const [guestName, setGuestName] = useState("");
+  useEffect(() => {
+    setGuestId(getDeviceId());
+    setGuestName(localStorage.getOrDefault(STORAGE_KEYS.GUEST_NAME, ""));
+  }, []);
+
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<Track[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const queryInput = {
+    code,
+    guestId: session ? undefined : (guestId ?? undefined),
+  };
+  const { data: jukebox, isLoading } = api.jukebox.getJukebox.useQuery(
+    queryInput,
+    {
+      enabled: !!session || guestId !== null,
+      refetchInterval: JUKEBOX_POLL_MS,
+      retry: false,
+    },
+  );
+
+  const refresh = () => utils.jukebox.getJukebox.invalidate({ code });
+  const onError = (error: { message: string }) =>
+    showToast(error.message, "error");
+
+  const requestTrack = api.jukebox.requestTrack.useMutation({
+    onSuccess: ({ merged }, { track }) => {
+      showToast(
+        merged
+          ? `"${track.title}" was already requested, so you voted for it`
+          : jukebox?.requireApproval && !jukebox.isHost
+            ? `Requested "${track.title}". Waiting for the host.`
+            : `Requested "${track.title}"`,
+        "success",
+      );
+      setSearchResults([]);
+      setSearchQuery("");
+      void refresh();
+    },
+    onError,
+  });
+  const toggleVote = api.jukebox.toggleVote.useMutation({
+    onSuccess: () => void refresh(),
+    onError,
+  });
+  const moderateRequest = api.jukebox.moderateRequest.useMutation({
+    onSuccess: () => void refresh(),
+    onError,
+  });
+  const banArtist = api.jukebox.banArtist.useMutation({
+    onSuccess: () => void refresh(),
+    onError,
+  });
+  const unbanArtist = api.jukebox.unbanArtist.useMutation({
+    onSuccess: () => void refresh(),
+    onError,
+  });
+  const updateSettings = api.jukebox.updateSettings.useMutation({
+    onSuccess: () => void refresh(),
+    onError,
+  });
+
+  const handleSearch = async (e: FormEvent) => {
+    e.preventDefault();
+    const query = searchQuery.trim();
+    if (!query) return;
+    setIsSearching(true);
+    try {
+      const results = await searchTracks(query);
+      setSearchResults(results.data.slice(0, 8));
+    } catch (error) {
+      console.error("Search failed:", error);
+      showToast("Search failed", "error");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleRequest = (track: Track) => {
+    const name = guestName.trim();
+    if (!session) {
+      if (!name) {
+        showToast("Enter your name to request tracks", "info");
+        return;
+      }
+      localStorage.set(STORAGE_KEYS.GUEST_NAME, name);
+    }
+    requestTrack.mutate({
+      code,
+      track,
+      guestId: guestId ?? undefined,
+      guestName: session ? undefined : name,
+    });
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      showToast("Jukebox link copied", "success");
+    } catch (error) {
+      console.error("Failed to copy:", error);
+      showToast("Failed to copy link to clipboard", "error");
+    }
+  };
+
+  if (isLoading || (!session && guestId === null)) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="border-accent inline-block h-8 w-8 animate-spin rounded-full border-b-2"></div>
+      </div>
+    );
+  }
+
+  if (!jukebox) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <p className="mb-4 text-[var(--color-subtext)]">
+            This jukebox doesn&apos;t exist or has ended
+          </p>
+          <Link href="/" className="text-accent hover:underline">
+            Back to Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const { isHost } = jukebox;
+  const requestedIds = new Set(jukebox.requests.map((r) => r.track.id));
+
+  return (
+    <div className="flex min-h-screen flex-col pb-32">
+      <main className="mx-auto w-full max-w-5xl flex-1 px-4 py-8">
+        {/* Jukebox Header */}
+        <div className="mb-6 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="flex items-center gap-2 text-3xl font-bold text-[var(--color-text)]">
+              <Disc3 className="h-7 w-7 text-[var(--color-accent)]" />
+              {jukebox.name}
+            </h1>
+            <p className="mt-1 text-sm text-[var(--color-subtext)]">
+              {isHost
+                ? "Share the link: guests can request tracks and vote on what plays next."
+                : `${jukebox.hostName}'s queue. Request a track or vote for one.`}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={handleCopyLink}
+              className="btn-secondary flex items-center gap-2 px-3 py-1.5 text-sm"
+            >
+              <Link2 className="h-4 w-4" />
+              Copy link
+            </button>
+            {isHost && (
+              <>
+                <label className="flex items-center gap-2 text-sm text-[var(--color-subtext)]">
+                  <input
+                    type="checkbox"
+                    checked={jukebox.requireApproval}
+                    onChange={(e) =>
+                      updateSettings.mutate({
+                        code,
+                        requireApproval: e.target.checked,
+                      })
+                    }
+                    className="accent-accent"
+                  />
+                  Approve requests
+                </label>
+                <button
+                  onClick={() => {
+                    if (
+                      confirm(
+                        "End the jukebox? Guests won't be able to request tracks anymore.",
+                      )
+                    ) {
+                      void endJukebox();
+                    }
+                  }}
+                  className="btn-secondary px-3 py-1.5 text-sm"
+                >
+                  End jukebox
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-6">
+            {/* Request a Track */}
+            <section className={sectionClass}>
+              <h2 className={headingClass}>Request a track</h2>
+              {!session && (
+                <input
+                  value={guestName}
+                  onChange={(e) => setGuestName(e.target.value)}
+                  placeholder="Your name"
+                  maxLength={MAX_JUKEBOX_GUEST_NAME_LENGTH}
+                  className="input-text mb-2 w-full"
+                />
+              )}
+              <form onSubmit={handleSearch} className="mb-3 flex gap-2">
+                <input
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search for a song"
+                  className="input-text flex-1"
+                />
+                <button
+                  type="submit"
+                  disabled={isSearching || !searchQuery.trim()}
+                  className="btn-secondary px-3"
+                  aria-label="Search"
+                >
+                  <Search className="h-4 w-4" />
+                </button>
+              </form>
+              <div className="space-y-2">
+                {searchResults.map((track) => (
+                  <TrackSummary
+                    key={track.id}
+                    title={track.title}
+                    artist={track.artist.name}
+                    cover={track.album.cover_small}
+                    action={
+                      <button
+                        onClick={() => handleRequest(track)}
+                        disabled={requestTrack.isPending}
+                        className="rounded px-2 py-1 text-xs text-[var(--color-accent)] transition hover:bg-[rgba(244,178,102,0.12)] disabled:opacity-50"
+                      >
+                        {requestedIds.has(track.id) ? "Vote" : "Request"}
+                      </button>
+                    }
+                  />
+                ))}
+              </div>
+            </section>
+
+            {/* Requests */}
+            <section className={sectionClass}>
+              <h2 className={headingClass}>Requests</h2>
+              {jukebox.requests.length === 0 && (
+                <p className="text-sm text-[var(--color-subtext)]">
+                  No requests yet.
+                </p>
+              )}
+              <div className="space-y-3">
+                {jukebox.requests.map((request) => (
+                  <div key={request.id}>
+                    <TrackSummary
+                      title={request.track.title}
+                      artist={request.track.artist.name}
+                      cover={request.track.album.cover_small}
+                      action={
+                        <div className="flex items-center gap-1">
+                          <button
+                            onClick={() =>
+                              toggleVote.mutate({
+                                code,
+                                requestId: request.id,
+                                guestId: guestId ?? undefined,
+                              })
+                            }
+                            className={`flex items-center gap-1 rounded px-2 py-1 text-xs tabular-nums transition hover:bg-[rgba(244,178,102,0.12)] ${
+                              request.hasVoted
+                                ? "text-[var(--color-accent)]"
+                                : "text-[var(--color-subtext)]"
+                            }`}
+                            aria-label={
+                              request.hasVoted ? "Remove vote" : "Vote"
+                            }
+                          >
+                            <ThumbsUp className="h-3.5 w-3.5" />
+                            {request.votes}
+                          </button>
+                          {isHost && request.status === "pending" && (
+                            <button
+                              onClick={() =>
+                                moderateRequest.mutate({
+                                  code,
+                                  requestId: request.id,
+                                  action: "approve",
+                                })
+                              }
+                              className={iconButtonClass}
+                              title="Approve"
+                              aria-label={`Approve ${request.track.title}`}
+                            >
+                              <Check className="h-4 w-4" />
+                            </button>
+                          )}
+                          {isHost && (
+                            <>
+                              <button
+                                onClick={() =>
+                                  moderateRequest.mutate({
+                                    code,
+                                    requestId: request.id,
+                                    action: "reject",
+                                  })
+                                }
+                                className={iconButtonClass}
+                                title="Reject"
+                                aria-label={`Reject ${request.track.title}`}
+                              >
+                                <X className="h-4 w-4" />
+                              </button>
+                              <button
+                                onClick={() => {
+                                  const artist = request.track.artist;
+                                  if (
+                                    confirm(
+                                      `Stop taking requests for ${artist.name}?`,
+                                    )
+                                  ) {
+                                    banArtist.mutate({
+                                      code,
+                                      artist: {
+                                        id: artist.id,
+                                        name: artist.name,
+                                      },
+                                    });
+                                  }
+                                }}
+                                className={iconButtonClass}
+                                title="Ban artist"
+                                aria-label={`Ban ${request.track.artist.name}`}
+                              >
+                                <Ban className="h-4 w-4" />
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      }
+                    />
+                    <p className="mt-0.5 pl-[52px] text-xs text-[var(--color-muted)]">
+                      {request.isMine ? "You" : request.guestName}
+                      {request.status === "pending" &&
+                        " · Waiting for the host"}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            {/* Banned Artists */}
+            {isHost && jukebox.bannedArtists.length > 0 && (
+              <section className={sectionClass}>
+                <h2 className={headingClass}>Not taking requests for</h2>
+                <div className="flex flex-wrap gap-2">
+                  {jukebox.bannedArtists.map((artist) => (
+                    <span
+                      key={artist.id}
+                      className="flex items-center gap-1 rounded-full bg-[rgba(255,255,255,0.06)] py-1 pr-1 pl-3 text-xs text-[var(--color-text)]"
+                    >
+                      {artist.name}
+                      <button
+                        onClick={() =>
+                          unbanArtist.mutate({ code, artistId: artist.id })
+                        }
+                        className="rounded-full p-0.5 text-[var(--color-subtext)] hover:text-[var(--color-text)]"
+                        aria-label={`Allow ${artist.name} again`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              </section>
+            )}
+          </div>
+
+          {/* Queue */}
+          <section className={sectionClass}>
+            <h2 className={headingClass}>Now playing</h2>
+            {jukebox.nowPlaying ? (
+              <TrackSummary
+                title={jukebox.nowPlaying.track.title}
+                artist={jukebox.nowPlaying.track.artist}
+                cover={jukebox.nowPlaying.track.cover}
+              />
+            ) : (
+              <p className="text-sm text-[var(--color-subtext)]">
+                Nothing is playing.
+              </p>
+            )}
+            <h2 className={`${headingClass} mt-6`}>Up next</h2>
+            {jukebox.queue.length === 0 && (
+              <p className="text-sm text-[var(--color-subtext)]">
+                The queue is empty. Request something!
+              </p>
+            )}
+            <div className="space-y-2">
+              {jukebox.queue.map((item) => (
+                <TrackSummary
+                  key={item.queueId}
+                  title={item.track.title}
+                  artist={item.track.artist}
+                  cover={item.track.cover}
+                  action={
+                    <span className="flex items-center gap-2 text-xs text-[var(--color-muted)] tabular-nums">
+                      {item.requestId !== null && (
+                        <span className="text-[var(--color-accent)]">
+                          Requested
+                        </span>
+                      )}
+                      {formatTime(item.track.duration)}
+                    </span>
+                  }
+                />
+              ))}
+            </div>
+          </section>
+        </div>
+      </main>
+    </div>
+  );
+}
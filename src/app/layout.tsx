@@ -18,7 +18,11 @@ import { SessionProvider } from "@/components/SessionProvider";
 import { UIWrapper } from "@/components/UIWrapper";
 import SuppressExtensionErrors from "@/components/SuppressExtensionErrors";
 import { AudioPlayerProvider } from "@/contexts/AudioPlayerContext";
+import { JukeboxProvider } from "@/contexts/JukeboxContext";
+import { ListeningRoomProvider } from "@/contexts/ListeningRoomContext";
 import { MenuProvider } from "@/contexts/MenuContext";
+import { OfflineDownloadsProvider } from "@/contexts/OfflineDownloadsContext";
+import { RemoteControlProvider } from "@/contexts/RemoteControlContext";
 import { ToastProvider } from "@/contexts/ToastContext";
 import { TrackContextMenuProvider } from "@/contexts/TrackContextMenuContext";
 import { PlaylistContextMenuProvider } from "@/contexts/PlaylistContextMenuContext";
@@ -93,38 +97,46 @@ export default function RootLayout({
           <SessionProvider>
             <TRPCReactProvider>
               <ToastProvider>
-                <AudioPlayerProvider>
-                  {/* Dynamic window title based on playback state */}
-                  <DynamicTitle />
-                  <MenuProvider>
-                    <TrackContextMenuProvider>
-                      <PlaylistContextMenuProvider>
-                        {/* UI elements that can be hidden on desktop */}
-                        <UIWrapper>
-                          {/* Desktop header (hidden on mobile) */}
-                          <Header />
-                          {/* Mobile header with hamburger and search (hidden on desktop) */}
-                          <MobileHeader />
-                          {/* Hamburger menu drawer */}
-                          <HamburgerMenu />
-                          {/* Mobile content wrapper */}
-                          <MobileContentWrapper>
-                            {/* Main content with padding for mobile header and player */}
-                            <div className="pt-16 pb-24 md:pt-0 md:pb-24">
-                              {children}
-                            </div>
-                          </MobileContentWrapper>
-                        </UIWrapper>
-                        {/* Persistent player - stays on all pages */}
-                        <PersistentPlayer />
-                        {/* Universal track context menu */}
-                        <TrackContextMenu />
-                        {/* Universal playlist context menu */}
-                        <PlaylistContextMenu />
-                      </PlaylistContextMenuProvider>
-                    </TrackContextMenuProvider>
-                  </MenuProvider>
-                </AudioPlayerProvider>
+                <OfflineDownloadsProvider>
+                  <AudioPlayerProvider>
+                    <RemoteControlProvider>
+                      <ListeningRoomProvider>
+                        <JukeboxProvider>
+                          {/* Dynamic window title based on playback state */}
+                          <DynamicTitle />
+                          <MenuProvider>
+                            <TrackContextMenuProvider>
+                              <PlaylistContextMenuProvider>
+                                {/* UI elements that can be hidden on desktop */}
+                                <UIWrapper>
+                                  {/* Desktop header (hidden on mobile) */}
+                                  <Header />
+                                  {/* Mobile header with hamburger and search (hidden on desktop) */}
+                                  <MobileHeader />
+                                  {/* Hamburger menu drawer */}
+                                  <HamburgerMenu />
+                                  {/* Mobile content wrapper */}
+                                  <MobileContentWrapper>
+                                    {/* Main content with padding for mobile header and player */}
+                                    <div className="pt-16 pb-24 md:pt-0 md:pb-24">
+                                      {children}
+                                    </div>
+                                  </MobileContentWrapper>
+                                </UIWrapper>
+                                {/* Persistent player - stays on all pages */}
+                                <PersistentPlayer />
+                                {/* Universal track context menu */}
+                                <TrackContextMenu />
+                                {/* Universal playlist context menu */}
+                                <PlaylistContextMenu />
+                              </PlaylistContextMenuProvider>
+                            </TrackContextMenuProvider>
+                          </MenuProvider>
+                        </JukeboxProvider>
+                      </ListeningRoomProvider>
+                    </RemoteControlProvider>
+                  </AudioPlayerProvider>
+                </OfflineDownloadsProvider>
               </ToastProvider>
             </TRPCReactProvider>
           </SessionProvider>
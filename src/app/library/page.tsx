@@ -5,20 +5,29 @@
 import { EmptyState } from "@/components/EmptyState";
 import EnhancedTrackCard from "@/components/EnhancedTrackCard";
 import { LoadingState } from "@/components/LoadingSpinner";
+import { OfflineDownloadButton } from "@/components/OfflineDownloadButton";
+import { OfflineDownloadsPanel } from "@/components/OfflineDownloadsPanel";
+import { PlaylistExportButton } from "@/components/PlaylistExportButton";
 import { useGlobalPlayer } from "@/contexts/AudioPlayerContext";
 import { api } from "@/trpc/react";
-import type { FavoriteItem, ListeningHistoryItem } from "@/types";
-import { Heart, Clock } from "lucide-react";
+import type { FavoriteItem, ListeningHistoryItem, Track } from "@/types";
+import { Heart, Clock, Download } from "lucide-react";
 import Link from "next/link";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 
-type TabType = "favorites" | "history";
+type TabType = "favorites" | "history" | "downloads";
 
 export default function LibraryPage() {
   const [activeTab, setActiveTab] = useState<TabType>("favorites");
 
   // Use global player instead of local state
   const player = useGlobalPlayer();
+  const utils = api.useUtils();
+
+  // Without a connection only downloads can be played
+  useEffect(() => {
+    if (!navigator.onLine) setActiveTab("downloads");
+  }, []);
 
   const { data: favorites, isLoading: favoritesLoading } =
     api.music.getFavorites.useQuery(
@@ -32,6 +41,16 @@ export default function LibraryPage() {
       { enabled: activeTab === "history" },
     );
 
+  // The list above only shows the latest favorites; exports include all
+  const getAllFavoriteTracks = async () => {
+    const tracks: Track[] = [];
+    for (let offset = 0; ; offset += 100) {
+      const page = await utils.music.getFavorites.fetch({ limit: 100, offset });
+      tracks.push(...page.map((item) => item.track));
+      if (page.length < 100) return tracks;
+    }
+  };
+
   return (
     <div className="container mx-auto flex min-h-screen flex-col px-3 py-4 md:px-6 md:py-8">
       {/* Page Title */}
@@ -69,6 +88,20 @@ export default function LibraryPage() {
             <div className="accent-gradient absolute right-0 bottom-0 left-0 h-0.5" />
           )}
         </button>
+        <button
+          onClick={() => setActiveTab("downloads")}
+          className={`touch-target relative flex flex-1 items-center justify-center gap-2 px-3 pb-3 font-medium transition md:flex-initial md:px-4 md:pb-4 ${
+            activeTab === "downloads"
+              ? "text-[var(--color-accent)]"
+              : "text-[var(--color-subtext)] hover:text-[var(--color-text)]"
+          }`}
+        >
+          <Download className="h-4 w-4 md:h-5 md:w-5" />
+          <span className="text-sm md:text-base">Downloads</span>
+          {activeTab === "downloads" && (
+            <div className="accent-gradient absolute right-0 bottom-0 left-0 h-0.5" />
+          )}
+        </button>
       </div>
 
       {/* Content */}
@@ -77,16 +110,25 @@ export default function LibraryPage() {
           {favoritesLoading ? (
             <LoadingState message="Loading your favorites..." />
           ) : favorites && favorites.length > 0 ? (
-            <div className="grid gap-2 md:gap-3">
-              {favorites.map((fav: FavoriteItem) => (
-                <EnhancedTrackCard
-                  key={fav.id}
-                  track={fav.track}
-                  onPlay={player.play}
-                  onAddToQueue={player.addToQueue}
+            <>
+              <div className="mb-4 flex justify-end gap-2">
+                <PlaylistExportButton
+                  name="Favorites"
+                  getTracks={getAllFavoriteTracks}
                 />
-              ))}
-            </div>
+                <OfflineDownloadButton target={{ kind: "favorites" }} />
+              </div>
+              <div className="grid gap-2 md:gap-3">
+                {favorites.map((fav: FavoriteItem) => (
+                  <EnhancedTrackCard
+                    key={fav.id}
+                    track={fav.track}
+                    onPlay={player.play}
+                    onAddToQueue={player.addToQueue}
+                  />
+                ))}
+              </div>
+            </>
           ) : (
             <EmptyState
               icon={<Heart className="h-12 w-12 md:h-16 md:w-16" />}
@@ -131,6 +173,12 @@ export default function LibraryPage() {
           )}
         </div>
       )}
+
+      {activeTab === "downloads" && (
+        <div className="fade-in">
+          <OfflineDownloadsPanel />
+        </div>
+      )}
     </div>
   );
 }
@@ -3,9 +3,15 @@
 "use client";
 
 import EnhancedTrackCard from "@/components/EnhancedTrackCard";
+import { OfflineDownloadButton } from "@/components/OfflineDownloadButton";
+import { PlaylistExportButton } from "@/components/PlaylistExportButton";
+import { PlaylistMembersPanel } from "@/components/PlaylistMembersPanel";
+import { SmartPlaylistEditor } from "@/components/SmartPlaylistEditor";
 import { useGlobalPlayer } from "@/contexts/AudioPlayerContext";
 import { useToast } from "@/contexts/ToastContext";
 import { api } from "@/trpc/react";
+import type { SmartPlaylistDefinition } from "@/types";
+import { FileUp, Sparkles, Users } from "lucide-react";
 import { useSession } from "next-auth/react";
 import Link from "next/link";
 import { useParams, useRouter } from "next/navigation";
@@ -26,6 +32,10 @@ export default function PlaylistDetailPage() {
   const [isEditingDescription, setIsEditingDescription] = useState(false);
   const [draftTitle, setDraftTitle] = useState("");
   const [draftDescription, setDraftDescription] = useState("");
+  const [draftRules, setDraftRules] = useState<SmartPlaylistDefinition | null>(
+    null,
+  );
+  const [showMembers, setShowMembers] = useState(false);
 
   // Try authenticated query first if user is logged in
   const { data: privatePlaylist, isLoading: isLoadingPrivate } =
@@ -45,8 +55,22 @@ export default function PlaylistDetailPage() {
   const playlist = privatePlaylist ?? publicPlaylist;
   const isLoading = isLoadingPrivate || isLoadingPublic;
 
-  // Check if the current user owns this playlist
-  const isOwner: boolean = !!session && !!privatePlaylist;
+  // The current user's role, when they own the playlist or it's shared
+  // with them
+  const role = session ? (privatePlaylist?.role ?? null) : null;
+  const isOwner = role === "owner";
+  const members = privatePlaylist?.members ?? [];
+  // Who added each track, once others can add tracks too
+  const addedBy = new Map(
+    members.length > 0
+      ? (privatePlaylist?.tracks ?? []).flatMap((t) =>
+          t.addedBy ? [[t.id, t.addedBy] as const] : [],
+        )
+      : [],
+  );
+  // Smart playlists take their tracks from their rules, not from edits
+  const isSmart = !!playlist?.smartRules;
+  const canEditTracks = (role === "owner" || role === "editor") && !isSmart;
 
   const utils = api.useUtils();
   const updateVisibilityMutation =
@@ -82,6 +106,11 @@ export default function PlaylistDetailPage() {
     },
   });
 
+  const updateSmartPlaylist =
+    api.smartPlaylists.updateSmartPlaylist.useMutation();
+  const refreshSmartPlaylist =
+    api.smartPlaylists.refreshSmartPlaylist.useMutation();
+
   const deletePlaylist = api.music.deletePlaylist.useMutation({
     onSuccess: () => {
       router.push("/playlists");
@@ -208,6 +237,42 @@ export default function PlaylistDetailPage() {
 
   const isSavingMetadata = updateMetadataMutation.isPending;
 
+  const handleSaveRules = async () => {
+    if (!draftRules) return;
+
+    try {
+      const { trackCount } = await updateSmartPlaylist.mutateAsync({
+        id: playlistId,
+        rules: draftRules,
+      });
+      await Promise.all([
+        utils.music.getPlaylist.invalidate({ id: playlistId }),
+        utils.music.getPlaylists.invalidate(),
+      ]);
+      setDraftRules(null);
+      showToast(`Rules saved, ${trackCount} tracks match`, "success");
+    } catch (error) {
+      console.error("Failed to update smart playlist:", error);
+      showToast("Failed to save the rules", "error");
+    }
+  };
+
+  const handleRefreshSmartPlaylist = async () => {
+    try {
+      const { trackCount } = await refreshSmartPlaylist.mutateAsync({
+        id: playlistId,
+      });
+      await Promise.all([
+        utils.music.getPlaylist.invalidate({ id: playlistId }),
+        utils.music.getPlaylists.invalidate(),
+      ]);
+      showToast(`Playlist refreshed, ${trackCount} tracks match`, "success");
+    } catch (error) {
+      console.error("Failed to refresh smart playlist:", error);
+      showToast("Failed to refresh the playlist", "error");
+    }
+  };
+
   const handleDragStart = (index: number): void => {
     setDraggedIndex(index);
   };
@@ -384,6 +449,12 @@ export default function PlaylistDetailPage() {
                 </>
               )}
               <div className="flex items-center gap-4 text-sm text-[var(--color-muted)]">
+                {isSmart && (
+                  <span className="flex items-center gap-1 text-[var(--color-accent)]">
+                    <Sparkles className="h-4 w-4" />
+                    Smart playlist
+                  </span>
+                )}
                 <span>{playlist.tracks.length} tracks</span>
                 <span
                   className={
@@ -397,6 +468,12 @@ export default function PlaylistDetailPage() {
                 <span>
                   Created {new Date(playlist.createdAt).toLocaleDateString()}
                 </span>
+                {isSmart && playlist.smartRefreshedAt && (
+                  <span>
+                    Refreshed{" "}
+                    {new Date(playlist.smartRefreshedAt).toLocaleString()}
+                  </span>
+                )}
               </div>
             </div>
           </div>
@@ -463,6 +540,65 @@ export default function PlaylistDetailPage() {
               </button>
             )}
 
+            {isOwner && playlist.smartRules && (
+              <>
+                <button
+                  onClick={handleRefreshSmartPlaylist}
+                  className="btn-secondary flex items-center gap-2 text-sm"
+                  disabled={refreshSmartPlaylist.isPending}
+                >
+                  {refreshSmartPlaylist.isPending ? "Refreshing..." : "Refresh"}
+                </button>
+                <button
+                  onClick={() =>
+                    setDraftRules((prev) =>
+                      prev ? null : (playlist.smartRules ?? null),
+                    )
+                  }
+                  className="btn-secondary flex items-center gap-2 text-sm"
+                >
+                  {draftRules ? "Cancel" : "Edit Rules"}
+                </button>
+              </>
+            )}
+
+            {role && (
+              <button
+                onClick={() => setShowMembers((prev) => !prev)}
+                className="btn-secondary flex items-center gap-2 text-sm"
+              >
+                <Users className="h-4 w-4" />
+                {members.length > 0
+                  ? `Collaborators (${members.length})`
+                  : "Invite"}
+              </button>
+            )}
+
+            {role && (
+              <OfflineDownloadButton
+                target={{ kind: "playlist", id: playlistId }}
+              />
+            )}
+
+            {canEditTracks && (
+              <Link
+                href={`/playlists/import?into=${playlistId}`}
+                className="btn-secondary flex items-center gap-2 text-sm"
+              >
+                <FileUp className="h-4 w-4" />
+                Import Tracks
+              </Link>
+            )}
+
+            <PlaylistExportButton
+              name={playlist.name}
+              getTracks={() =>
+                [...playlist.tracks]
+                  .sort((a, b) => a.position - b.position)
+                  .map((t) => t.track)
+              }
+            />
+
             {isOwner && (
               <button
                 onClick={() => {
@@ -478,8 +614,32 @@ export default function PlaylistDetailPage() {
           </div>
         </div>
 
+        {/* Collaborators */}
+        {role && session && showMembers && (
+          <PlaylistMembersPanel
+            playlistId={playlistId}
+            role={role}
+            members={members}
+            currentUserId={session.user.id}
+          />
+        )}
+
+        {/* Smart playlist rules */}
+        {isOwner && draftRules && (
+          <div className="surface-panel mb-6 p-4 md:p-6">
+            <SmartPlaylistEditor value={draftRules} onChange={setDraftRules} />
+            <button
+              onClick={handleSaveRules}
+              className="btn-primary mt-4 text-sm"
+              disabled={updateSmartPlaylist.isPending}
+            >
+              {updateSmartPlaylist.isPending ? "Saving..." : "Save Rules"}
+            </button>
+          </div>
+        )}
+
         {/* Drag-and-drop hint */}
-        {isOwner && playlist.tracks && playlist.tracks.length > 0 && (
+        {canEditTracks && playlist.tracks && playlist.tracks.length > 0 && (
           <div className="mb-4 rounded-lg bg-[rgba(16,22,31,0.65)] px-4 py-2 text-sm text-[var(--color-subtext)]">
             💡 Tip: Drag and drop tracks to reorder them
           </div>
@@ -493,22 +653,24 @@ export default function PlaylistDetailPage() {
               .map((item, index) => (
                 <div
                   key={item.id}
-                  draggable={isOwner}
+                  draggable={canEditTracks}
                   onDragStart={
-                    isOwner ? () => handleDragStart(index) : undefined
+                    canEditTracks ? () => handleDragStart(index) : undefined
                   }
                   onDragOver={
-                    isOwner ? (e) => handleDragOver(e, index) : undefined
+                    canEditTracks ? (e) => handleDragOver(e, index) : undefined
                   }
-                  onDrop={isOwner ? (e) => handleDrop(e, index) : undefined}
-                  onDragEnd={isOwner ? handleDragEnd : undefined}
+                  onDrop={
+                    canEditTracks ? (e) => handleDrop(e, index) : undefined
+                  }
+                  onDragEnd={canEditTracks ? handleDragEnd : undefined}
                   className={`relative transition-opacity ${
-                    isOwner ? "cursor-move" : ""
+                    canEditTracks ? "cursor-move" : ""
                   } ${draggedIndex === index ? "opacity-50" : "opacity-100"}`}
                 >
                   <div className="flex items-center gap-3">
                     {/* Drag handle or track number */}
-                    {isOwner ? (
+                    {canEditTracks ? (
                       <div className="flex flex-col items-center text-[var(--color-muted)]">
                         <svg
                           className="h-5 w-5"
@@ -534,10 +696,16 @@ export default function PlaylistDetailPage() {
                         showActions={true}
                         excludePlaylistId={playlistId}
                       />
+                      {addedBy.has(item.id) && (
+                        <p className="mt-1 pl-2 text-xs text-[var(--color-muted)]">
+                          Added by{" "}
+                          {addedBy.get(item.id)?.name ?? "a collaborator"}
+                        </p>
+                      )}
                     </div>
 
                     {/* Remove button (only for owners) */}
-                    {isOwner && (
+                    {canEditTracks && (
                       <button
                         onClick={() => handleRemoveTrack(item.id)}
                         className="rounded-full bg-[rgba(16,22,31,0.85)] p-2 text-[var(--color-subtext)] transition hover:text-[var(--color-danger)]"
@@ -570,11 +738,15 @@ export default function PlaylistDetailPage() {
               <path d="M18 3a1 1 0 00-1.196-.98l-10 2A1 1 0 006 5v9.114A4.369 4.369 0 005 14c-1.657 0-3 .895-3 2s1.343 2 3 2 3-.895 3-2V7.82l8-1.6v5.894A4.37 4.37 0 0015 12c-1.657 0-3 .895-3 2s1.343 2 3 2 3-.895 3-2V3z" />
             </svg>
             <p className="mb-2 text-[var(--color-subtext)]">
-              This playlist is empty
+              {isSmart
+                ? "No tracks match these rules yet"
+                : "This playlist is empty"}
             </p>
-            <Link href="/" className="text-accent hover:underline">
-              Search for music to add tracks
-            </Link>
+            {!isSmart && (
+              <Link href="/" className="text-accent hover:underline">
+                Search for music to add tracks
+              </Link>
+            )}
           </div>
         )}
       </main>
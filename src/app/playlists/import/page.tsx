@@ -0,0 +1,423 @@
+// File: src/app/playlists/import/page.tsx
+
+"use client";
+
+import { TracklistColumnMapper } from "@/components/TracklistColumnMapper";
+import {
+  TrackMatchReview,
+  type TrackMatchReviewItem,
+} from "@/components/TrackMatchReview";
+import { useToast } from "@/contexts/ToastContext";
+import { api } from "@/trpc/react";
+import type { Track } from "@/types";
+import { parsePlaylistFile } from "@/utils/playlistFormats";
+import {
+  resolveTrackQueries,
+  searchTrackCandidates,
+  type TrackQuery,
+} from "@/utils/trackMatching";
+import {
+  csvRowsToQueries,
+  guessColumnMapping,
+  looksLikeCsv,
+  parseCsv,
+  parseTracklistText,
+  type TracklistColumnMapping,
+  type TracklistCsv,
+} from "@/utils/tracklists";
+import { FileUp } from "lucide-react";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useState } from "react";
+
+// Force dynamic rendering to avoid build-time circular dependency issues
+export const dynamic = "force-dynamic";
+
+type ImportStep = "pick" | "map" | "resolving" | "review" | "saving";
+
+function describeQuery(query: TrackQuery) {
+  const title = query.version
+    ? `${query.title} (${query.version})`
+    : query.title;
+  return query.artist ? `${query.artist} - ${title}` : title;
+}
+
+/**
+ * Turn a playlist file, a pasted tracklist or a CSV export into a playlist:
+ * every entry is matched to a track, uncertain matches are reviewed, and the
+ * result goes into a new playlist or one the listener can edit.
+ */
+export default function ImportPlaylistPage() {
+  const { data: session } = useSession();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { showToast } = useToast();
+  const utils = api.useUtils();
+
+  const [step, setStep] = useState<ImportStep>("pick");
+  const [pastedText, setPastedText] = useState("");
+  const [csv, setCsv] = useState<TracklistCsv | null>(null);
+  const [mapping, setMapping] = useState<TracklistColumnMapping | null>(null);
+  const [queries, setQueries] = useState<TrackQuery[]>([]);
+  const [items, setItems] = useState<TrackMatchReviewItem[]>([]);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [playlistName, setPlaylistName] = useState("");
+  // "new", or the ID of the existing playlist to add to
+  const [target, setTarget] = useState<string>(
+    searchParams.get("into") ?? "new",
+  );
+
+  const { data: playlists } = api.music.getPlaylists.useQuery(undefined, {
+    enabled: !!session,
+  });
+  const editablePlaylists =
+    playlists?.filter((p) => p.role !== "viewer" && !p.smartRules) ?? [];
+
+  const createPlaylist = api.music.createPlaylist.useMutation();
+  const addToPlaylist = api.music.addToPlaylist.useMutation();
+
+  const resolve = async (nextQueries: TrackQuery[], name: string) => {
+    if (nextQueries.length === 0) {
+      showToast("No tracks were found to import", "info");
+      return;
+    }
+
+    setQueries(nextQueries);
+    setPlaylistName((prev) => prev || name);
+    setProgress({ done: 0, total: nextQueries.length });
+    setStep("resolving");
+
+    const matches = await resolveTrackQueries(nextQueries, (done) =>
+      setProgress({ done, total: nextQueries.length }),
+    );
+    setItems(
+      nextQueries.map((query, index) => {
+        const match = matches[index]!;
+        return {
+          key: String(index),
+          label: describeQuery(query),
+          match,
+          selectedTrackId:
+            match.status === "matched"
+              ? (match.candidates[0]?.track.id ?? null)
+              : null,
+        };
+      }),
+    );
+    setStep("review");
+  };
+
+  const startCsv = (content: string) => {
+    const parsed = parseCsv(content);
+    if (parsed.rows.length === 0) {
+      showToast("No rows were found in this file", "info");
+      return;
+    }
+    setCsv(parsed);
+    setMapping(guessColumnMapping(parsed.headers));
+    setStep("map");
+  };
+
+  const handleFile = async (file: File) => {
+    const content = await file.text();
+    const name = file.name.replace(/\.[^.]+$/, "");
+
+    if (/\.(csv|tsv)$/i.test(file.name)) {
+      setPlaylistName(name);
+      startCsv(content);
+      return;
+    }
+    if (/\.txt$/i.test(file.name)) {
+      await resolve(parseTracklistText(content), name);
+      return;
+    }
+
+    try {
+      const { entries, title } = parsePlaylistFile(content);
+      await resolve(entries, title ?? name);
+    } catch (error) {
+      console.error("Failed to read playlist file:", error);
+      showToast("This file isn't a playlist, CSV or text tracklist", "error");
+    }
+  };
+
+  const handlePaste = async () => {
+    const name = `Imported ${new Date().toLocaleDateString()}`;
+    if (looksLikeCsv(pastedText)) {
+      setPlaylistName(name);
+      startCsv(pastedText);
+    } else {
+      await resolve(parseTracklistText(pastedText), name);
+    }
+  };
+
+  const handleSelect = (key: string, trackId: number | null) => {
+    setItems((prev) =>
+      prev.map((item) =>
+        item.key === key ? { ...item, selectedTrackId: trackId } : item,
+      ),
+    );
+  };
+
+  const handleSearch = async (key: string, searchText: string) => {
+    const query = queries[Number(key)];
+    if (!query) return;
+
+    const candidates = await searchTrackCandidates(searchText, query);
+    if (candidates.length === 0) {
+      showToast(`Nothing found for "${searchText}"`, "info");
+      return;
+    }
+    setItems((prev) =>
+      prev.map((item) =>
+        item.key === key
+          ? {
+              ...item,
+              match: { ...item.match, candidates },
+              selectedTrackId: candidates[0]?.track.id ?? null,
+            }
+          : item,
+      ),
+    );
+  };
+
+  const selectedTracks = items.flatMap((item): Track[] => {
+    const candidate = item.match.candidates.find(
+      ({ track }) => track.id === item.selectedTrackId,
+    );
+    return candidate ? [candidate.track] : [];
+  });
+
+  const startOver = () => {
+    setCsv(null);
+    setMapping(null);
+    setQueries([]);
+    setItems([]);
+    setPlaylistName("");
+    setStep("pick");
+  };
+
+  const handleSave = async () => {
+    const name = playlistName.trim();
+    if ((target === "new" && !name) || selectedTracks.length === 0) return;
+
+    setStep("saving");
+    setProgress({ done: 0, total: selectedTracks.length });
+    try {
+      let playlistId = Number(target);
+      if (target === "new") {
+        const playlist = await createPlaylist.mutateAsync({ name });
+        if (!playlist) throw new Error("Playlist wasn't created");
+        playlistId = playlist.id;
+      }
+
+      // One at a time, so the tracks keep the imported order
+      let added = 0;
+      for (const [index, track] of selectedTracks.entries()) {
+        const result = await addToPlaylist.mutateAsync({ playlistId, track });
+        if (!("alreadyExists" in result)) added++;
+        setProgress({ done: index + 1, total: selectedTracks.length });
+      }
+
+      await utils.music.getPlaylists.invalidate();
+      await utils.music.getPlaylist.invalidate({ id: playlistId });
+      const skipped = selectedTracks.length - added;
+      showToast(
+        `Imported ${added} track${added === 1 ? "" : "s"}${
+          skipped > 0 ? ` (${skipped} already in the playlist)` : ""
+        }`,
+        "success",
+      );
+      router.push(`/playlists/${playlistId}`);
+    } catch (error) {
+      console.error("Failed to import playlist:", error);
+      showToast("Failed to import the playlist", "error");
+      setStep("review");
+    }
+  };
+
+  if (!session) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <p className="mb-4 text-[var(--color-subtext)]">
+            Please sign in to import playlists
+          </p>
+          <Link href="/api/auth/signin" className="btn-primary">
+            Sign In
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto flex min-h-screen max-w-3xl flex-col px-3 py-4 md:px-6 md:py-8">
+      <Link
+        href="/playlists"
+        className="mb-4 inline-block text-sm text-[var(--color-subtext)] hover:text-[var(--color-text)]"
+      >
+        ← Back to Playlists
+      </Link>
+      <h1 className="mb-6 text-2xl font-bold text-[var(--color-text)] md:text-3xl">
+        Import Tracks
+      </h1>
+
+      {step === "pick" && (
+        <div className="space-y-4">
+          <label className="surface-panel flex cursor-pointer flex-col items-center gap-3 p-8 text-center">
+            <FileUp className="h-10 w-10 text-[var(--color-accent)]" />
+            <span className="font-semibold text-[var(--color-text)]">
+              Choose a file
+            </span>
+            <span className="text-sm text-[var(--color-subtext)]">
+              M3U, M3U8, XSPF or JSPF playlists, CSV exports or text tracklists.
+              Tracks are found by their Deezer link when the file has one,
+              otherwise by artist and title.
+            </span>
+            <input
+              type="file"
+              accept=".m3u,.m3u8,.xspf,.jspf,.json,.csv,.tsv,.txt,audio/x-mpegurl,application/vnd.apple.mpegurl,application/xspf+xml,application/json,text/csv,text/plain"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) void handleFile(file);
+              }}
+            />
+          </label>
+
+          <div className="surface-panel space-y-3 p-4 md:p-6">
+            <label htmlFor="import-text" className="form-label">
+              Or paste a tracklist
+            </label>
+            <textarea
+              id="import-text"
+              value={pastedText}
+              onChange={(e) => setPastedText(e.target.value)}
+              className="input-text min-h-[12rem] font-mono text-sm"
+              placeholder={
+                "1. Daft Punk - One More Time\n[00:05:12] Justice - D.A.N.C.E.\nStrobe by deadmau5 (10:37)"
+              }
+            />
+            <p className="text-xs text-[var(--color-muted)]">
+              One track per line, as &quot;Artist - Title&quot;. Numbers,
+              timestamps and lengths are understood, and CSV with a header row
+              can be pasted too.
+            </p>
+            <div className="flex justify-end">
+              <button
+                onClick={handlePaste}
+                disabled={!pastedText.trim()}
+                className="btn-primary"
+              >
+                Find Tracks
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {step === "map" && csv && mapping && (
+        <div className="surface-panel space-y-4 p-4 md:p-6">
+          <h2 className="text-lg font-semibold text-[var(--color-text)]">
+            Match the columns
+          </h2>
+          <TracklistColumnMapper
+            csv={csv}
+            mapping={mapping}
+            onChange={setMapping}
+          />
+          <div className="flex flex-col gap-2 md:flex-row md:justify-end">
+            <button onClick={startOver} className="btn-secondary">
+              Start Over
+            </button>
+            <button
+              onClick={() =>
+                void resolve(csvRowsToQueries(csv.rows, mapping), playlistName)
+              }
+              disabled={mapping.title === null}
+              className="btn-primary"
+            >
+              Find Tracks
+            </button>
+          </div>
+        </div>
+      )}
+
+      {(step === "resolving" || step === "saving") && (
+        <div className="surface-panel flex flex-col items-center gap-4 p-8 text-center">
+          <div className="border-accent inline-block h-8 w-8 animate-spin rounded-full border-b-2"></div>
+          <p className="text-sm text-[var(--color-subtext)]">
+            {step === "resolving" ? "Finding tracks" : "Adding tracks"}{" "}
+            {progress.done}/{progress.total}
+          </p>
+        </div>
+      )}
+
+      {step === "review" && (
+        <div className="space-y-6">
+          <div className="surface-panel space-y-4 p-4 md:p-6">
+            <div>
+              <label htmlFor="import-target" className="form-label">
+                Add To
+              </label>
+              <select
+                id="import-target"
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                className="input-text"
+              >
+                <option value="new">A new playlist</option>
+                {editablePlaylists.map((playlist) => (
+                  <option key={playlist.id} value={playlist.id}>
+                    {playlist.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {target === "new" && (
+              <div>
+                <label htmlFor="import-name" className="form-label">
+                  Playlist Name
+                </label>
+                <input
+                  id="import-name"
+                  type="text"
+                  value={playlistName}
+                  onChange={(e) => setPlaylistName(e.target.value)}
+                  className="input-text"
+                  maxLength={256}
+                />
+              </div>
+            )}
+            <div className="flex flex-col gap-2 md:flex-row md:justify-end">
+              <button onClick={startOver} className="btn-secondary">
+                Start Over
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={
+                  (target === "new" && !playlistName.trim()) ||
+                  selectedTracks.length === 0
+                }
+                className="btn-primary"
+              >
+                {target === "new" ? "Create Playlist" : "Add Tracks"} (
+                {selectedTracks.length} track
+                {selectedTracks.length === 1 ? "" : "s"})
+              </button>
+            </div>
+          </div>
+
+          <TrackMatchReview
+            items={items}
+            onSelect={handleSelect}
+            onSearch={handleSearch}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
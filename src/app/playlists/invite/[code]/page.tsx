@@ -0,0 +1,101 @@
+// File: src/app/playlists/invite/[code]/page.tsx
+
+"use client";
+
+import { useToast } from "@/contexts/ToastContext";
+import { api } from "@/trpc/react";
+import { Music, Users } from "lucide-react";
+import { useSession } from "next-auth/react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+
+export default function PlaylistInvitePage() {
+  const params = useParams<{ code: string }>();
+  const router = useRouter();
+  const { data: session } = useSession();
+  const { showToast } = useToast();
+  const utils = api.useUtils();
+
+  const { data: invite, isLoading } = api.playlistSharing.getInvite.useQuery(
+    { code: params.code },
+    { retry: false },
+  );
+
+  const acceptInvite = api.playlistSharing.acceptInvite.useMutation({
+    onSuccess: async ({ playlistId }) => {
+      await utils.music.getPlaylists.invalidate();
+      showToast("You joined the playlist", "success");
+      router.push(`/playlists/${playlistId}`);
+    },
+    onError: (error) => {
+      showToast(`Failed to join playlist: ${error.message}`, "error");
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="border-accent inline-block h-8 w-8 animate-spin rounded-full border-b-2"></div>
+      </div>
+    );
+  }
+
+  if (!invite) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <p className="mb-4 text-[var(--color-subtext)]">
+            This invite link is invalid or has expired
+          </p>
+          <Link href="/playlists" className="text-accent hover:underline">
+            Back to Playlists
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center px-4">
+      <div className="surface-panel w-full max-w-md p-6 text-center">
+        <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-[rgba(244,178,102,0.15)] text-[var(--color-accent)]">
+          <Music className="h-8 w-8" />
+        </div>
+        <p className="mb-1 text-sm text-[var(--color-subtext)]">
+          {invite.ownerName ?? "Someone"} invited you to{" "}
+          {invite.role === "editor" ? "edit" : "listen to"}
+        </p>
+        <h1 className="mb-2 text-2xl font-bold text-[var(--color-text)]">
+          {invite.name}
+        </h1>
+        {invite.description && (
+          <p className="mb-2 text-sm text-[var(--color-subtext)]">
+            {invite.description}
+          </p>
+        )}
+        <p className="mb-6 text-xs text-[var(--color-muted)]">
+          {invite.trackCount} track{invite.trackCount !== 1 ? "s" : ""}
+        </p>
+
+        {session ? (
+          <button
+            onClick={() => acceptInvite.mutate({ code: params.code })}
+            disabled={acceptInvite.isPending}
+            className="btn-primary flex w-full items-center justify-center gap-2"
+          >
+            <Users className="h-5 w-5" />
+            {acceptInvite.isPending
+              ? "Joining..."
+              : invite.role === "editor"
+                ? "Join as editor"
+                : "Join as viewer"}
+          </button>
+        ) : (
+          <Link href="/api/auth/signin" className="btn-primary block w-full">
+            Sign in to join
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,53 +4,102 @@
 
 import { EmptyState } from "@/components/EmptyState";
 import { LoadingState } from "@/components/LoadingSpinner";
+import { SmartPlaylistEditor } from "@/components/SmartPlaylistEditor";
+import { MAX_PLAYLIST_FOLDER_DEPTH } from "@/config/playlists";
+import { DEFAULT_SMART_PLAYLIST } from "@/config/smartPlaylists";
+import { useGlobalPlayer } from "@/contexts/AudioPlayerContext";
 import { useToast } from "@/contexts/ToastContext";
 import { usePlaylistContextMenu } from "@/contexts/PlaylistContextMenuContext";
-import { api } from "@/trpc/react";
+import { api, type RouterOutputs } from "@/trpc/react";
+import type { PlaylistFolder } from "@/types";
 import { hapticLight } from "@/utils/haptics";
-import { Music, Plus } from "lucide-react";
+import {
+  buildPlaylistFolderTree,
+  canMoveFolderInto,
+  countFolderPlaylists,
+  type PlaylistFolderNode,
+} from "@/utils/playlistFolders";
+import {
+  ChevronDown,
+  ChevronRight,
+  FileUp,
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  Music,
+  Pencil,
+  Play,
+  Plus,
+  Sparkles,
+  Trash2,
+} from "lucide-react";
 import { useSession } from "next-auth/react";
 import Image from "next/image";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { useState } from "react";
+import { useMemo, useState } from "react";
 
 // Force dynamic rendering to avoid build-time circular dependency issues
 export const dynamic = "force-dynamic";
 
+type PlaylistListItem = RouterOutputs["music"]["getPlaylists"][number];
+
+const PLAYLIST_GRID_CLASS =
+  "grid gap-3 sm:grid-cols-2 md:gap-4 lg:grid-cols-3 xl:grid-cols-4";
+
 export default function PlaylistsPage() {
   const { data: session } = useSession();
   const router = useRouter();
   const { showToast } = useToast();
   const { openMenu } = usePlaylistContextMenu();
+  const player = useGlobalPlayer();
 
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [newPlaylistName, setNewPlaylistName] = useState("");
   const [newPlaylistDescription, setNewPlaylistDescription] = useState("");
   const [isPublic, setIsPublic] = useState(false);
+  const [isSmart, setIsSmart] = useState(false);
+  const [smartRules, setSmartRules] = useState(DEFAULT_SMART_PLAYLIST);
 
   const { data: playlists, isLoading } = api.music.getPlaylists.useQuery(
     undefined,
     { enabled: !!session },
   );
 
+  const closeCreateModal = () => {
+    setShowCreateModal(false);
+    setNewPlaylistName("");
+    setNewPlaylistDescription("");
+    setIsPublic(false);
+    setIsSmart(false);
+    setSmartRules(DEFAULT_SMART_PLAYLIST);
+  };
+
   const utils = api.useUtils();
+  const handleCreated = async (
+    playlist: { id: number; name: string } | undefined,
+  ) => {
+    await utils.music.getPlaylists.invalidate();
+    if (playlist) {
+      showToast(`Created playlist "${playlist.name}"`, "success");
+      closeCreateModal();
+      router.push(`/playlists/${playlist.id}`);
+    }
+  };
   const createPlaylist = api.music.createPlaylist.useMutation({
-    onSuccess: async (playlist) => {
-      await utils.music.getPlaylists.invalidate();
-      if (playlist) {
-        showToast(`Created playlist "${playlist.name}"`, "success");
-        setShowCreateModal(false);
-        setNewPlaylistName("");
-        setNewPlaylistDescription("");
-        setIsPublic(false);
-        router.push(`/playlists/${playlist.id}`);
-      }
-    },
+    onSuccess: handleCreated,
     onError: (error) => {
       showToast(`Failed to create playlist: ${error.message}`, "error");
     },
   });
+  const createSmartPlaylist =
+    api.smartPlaylists.createSmartPlaylist.useMutation({
+      onSuccess: handleCreated,
+      onError: (error) => {
+        showToast(`Failed to create playlist: ${error.message}`, "error");
+      },
+    });
+  const isCreating = createPlaylist.isPending || createSmartPlaylist.isPending;
 
   const handleCreatePlaylist = () => {
     if (!newPlaylistName.trim()) {
@@ -58,13 +107,414 @@ export default function PlaylistsPage() {
       return;
     }
 
-    createPlaylist.mutate({
+    const details = {
       name: newPlaylistName.trim(),
       description: newPlaylistDescription.trim() || undefined,
       isPublic,
-    });
+    };
+    if (isSmart) {
+      createSmartPlaylist.mutate({ ...details, rules: smartRules });
+    } else {
+      createPlaylist.mutate(details);
+    }
+  };
+
+  const { data: folders } = api.playlistFolders.getFolders.useQuery(undefined, {
+    enabled: !!session,
+  });
+  const libraryTree = useMemo(
+    () => buildPlaylistFolderTree(folders ?? [], playlists ?? []),
+    [folders, playlists],
+  );
+  const [dragged, setDragged] = useState<{
+    kind: "playlist" | "folder";
+    id: number;
+  } | null>(null);
+  const [dropTarget, setDropTarget] = useState<number | "root" | null>(null);
+
+  const refreshLibrary = async () => {
+    await Promise.all([
+      utils.music.getPlaylists.invalidate(),
+      utils.playlistFolders.getFolders.invalidate(),
+    ]);
+  };
+  const handleFolderError = (error: { message: string }) => {
+    showToast(error.message, "error");
+  };
+  const createFolder = api.playlistFolders.createFolder.useMutation({
+    onSuccess: refreshLibrary,
+    onError: handleFolderError,
+  });
+  const renameFolder = api.playlistFolders.renameFolder.useMutation({
+    onSuccess: refreshLibrary,
+    onError: handleFolderError,
+  });
+  const deleteFolder = api.playlistFolders.deleteFolder.useMutation({
+    onSuccess: refreshLibrary,
+    onError: handleFolderError,
+  });
+  const moveFolder = api.playlistFolders.moveFolder.useMutation({
+    onSuccess: refreshLibrary,
+    onError: handleFolderError,
+  });
+  const movePlaylist = api.playlistFolders.movePlaylist.useMutation({
+    onSuccess: refreshLibrary,
+    onError: handleFolderError,
+  });
+  const setFolderCollapsed = api.playlistFolders.setFolderCollapsed.useMutation(
+    {
+      onMutate: ({ id, isCollapsed }) => {
+        utils.playlistFolders.getFolders.setData(undefined, (prev) =>
+          prev?.map((folder) =>
+            folder.id === id ? { ...folder, isCollapsed } : folder,
+          ),
+        );
+      },
+      onError: () => void utils.playlistFolders.getFolders.invalidate(),
+    },
+  );
+
+  const handleNewFolder = (parentId: number | null = null) => {
+    const name = prompt("Folder name");
+    if (!name?.trim()) return;
+    createFolder.mutate({ name: name.trim(), parentId });
+  };
+
+  const handleRenameFolder = (folder: PlaylistFolder) => {
+    const name = prompt("Rename folder", folder.name);
+    if (!name?.trim() || name.trim() === folder.name) return;
+    renameFolder.mutate({ id: folder.id, name: name.trim() });
+  };
+
+  const handleDeleteFolder = (folder: PlaylistFolder) => {
+    if (
+      confirm(
+        `Delete the folder "${folder.name}"? Its playlists and folders move up a level.`,
+      )
+    ) {
+      deleteFolder.mutate({ id: folder.id });
+    }
+  };
+
+  const handlePlayFolder = async (folder: PlaylistFolder) => {
+    try {
+      const { tracks } = await utils.playlistFolders.getFolderTracks.fetch({
+        id: folder.id,
+      });
+      const [first, ...rest] = tracks;
+      if (!first) {
+        showToast(`"${folder.name}" has no tracks to play`, "info");
+        return;
+      }
+      player.clearQueue();
+      player.play(first);
+      if (rest.length > 0) {
+        player.addToQueue(rest);
+      }
+      showToast(
+        `Playing ${tracks.length} track${tracks.length === 1 ? "" : "s"} from "${folder.name}"`,
+        "success",
+      );
+    } catch (error) {
+      console.error("Failed to play folder:", error);
+      showToast("Failed to play the folder", "error");
+    }
+  };
+
+  const endDrag = () => {
+    setDragged(null);
+    setDropTarget(null);
+  };
+
+  const canDropInto = (folderId: number | null) => {
+    if (!dragged) return false;
+    if (dragged.kind === "folder") {
+      return canMoveFolderInto(folders ?? [], dragged.id, folderId);
+    }
+    const playlist = playlists?.find((p) => p.id === dragged.id);
+    return !!playlist && (playlist.folderId ?? null) !== folderId;
+  };
+
+  const handleDrop = (folderId: number | null) => {
+    if (!dragged || !canDropInto(folderId)) return;
+    hapticLight();
+    if (dragged.kind === "folder") {
+      moveFolder.mutate({ id: dragged.id, parentId: folderId });
+    } else {
+      movePlaylist.mutate({ playlistId: dragged.id, folderId });
+    }
+    endDrag();
+  };
+
+  // Folder headers and the top level accept dropped playlists and folders
+  const dropTargetProps = (folderId: number | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!canDropInto(folderId)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(folderId ?? "root");
+    },
+    onDragLeave: () => {
+      setDropTarget((prev) => (prev === (folderId ?? "root") ? null : prev));
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      handleDrop(folderId);
+    },
+  });
+
+  const renderFolder = (
+    node: PlaylistFolderNode<PlaylistListItem>,
+    depth: number,
+  ): React.ReactNode => {
+    const { folder } = node;
+    const isCollapsed = folder.isCollapsed;
+    const playlistCount = countFolderPlaylists(node);
+
+    return (
+      <div key={`folder-${folder.id}`} className="space-y-3">
+        <div
+          {...dropTargetProps(folder.id)}
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = "move";
+            e.dataTransfer.setData("text/plain", String(folder.id));
+            setDragged({ kind: "folder", id: folder.id });
+          }}
+          onDragEnd={endDrag}
+          className={`flex items-center gap-2 rounded-xl px-2 py-2 transition-colors ${
+            dropTarget === folder.id
+              ? "bg-[rgba(244,178,102,0.12)] ring-1 ring-[var(--color-accent)]"
+              : "hover:bg-[rgba(255,255,255,0.04)]"
+          } ${dragged?.kind === "folder" && dragged.id === folder.id ? "opacity-50" : ""}`}
+        >
+          <button
+            onClick={() =>
+              setFolderCollapsed.mutate({
+                id: folder.id,
+                isCollapsed: !isCollapsed,
+              })
+            }
+            className="flex min-w-0 flex-1 items-center gap-2 text-left"
+            aria-expanded={!isCollapsed}
+          >
+            {isCollapsed ? (
+              <ChevronRight className="h-4 w-4 flex-shrink-0 text-[var(--color-subtext)]" />
+            ) : (
+              <ChevronDown className="h-4 w-4 flex-shrink-0 text-[var(--color-subtext)]" />
+            )}
+            {isCollapsed ? (
+              <Folder className="h-5 w-5 flex-shrink-0 text-[var(--color-accent)]" />
+            ) : (
+              <FolderOpen className="h-5 w-5 flex-shrink-0 text-[var(--color-accent)]" />
+            )}
+            <span className="truncate font-semibold text-[var(--color-text)]">
+              {folder.name}
+            </span>
+            <span className="flex-shrink-0 text-xs text-[var(--color-muted)]">
+              {playlistCount} playlist{playlistCount !== 1 ? "s" : ""}
+            </span>
+          </button>
+          <button
+            onClick={() => handlePlayFolder(folder)}
+            disabled={playlistCount === 0}
+            className="rounded-full p-2 text-[var(--color-subtext)] transition-colors hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)] disabled:opacity-40"
+            title="Play folder"
+            aria-label="Play folder"
+          >
+            <Play className="h-4 w-4" />
+          </button>
+          {depth < MAX_PLAYLIST_FOLDER_DEPTH && (
+            <button
+              onClick={() => handleNewFolder(folder.id)}
+              className="rounded-full p-2 text-[var(--color-subtext)] transition-colors hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)]"
+              title="New folder inside"
+              aria-label="New folder inside"
+            >
+              <FolderPlus className="h-4 w-4" />
+            </button>
+          )}
+          <button
+            onClick={() => handleRenameFolder(folder)}
+            className="rounded-full p-2 text-[var(--color-subtext)] transition-colors hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)]"
+            title="Rename folder"
+            aria-label="Rename folder"
+          >
+            <Pencil className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => handleDeleteFolder(folder)}
+            className="rounded-full p-2 text-[var(--color-subtext)] transition-colors hover:bg-[rgba(242,139,130,0.12)] hover:text-[var(--color-danger)]"
+            title="Delete folder"
+            aria-label="Delete folder"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+
+        {!isCollapsed && (
+          <div className="ml-3 space-y-3 border-l border-[rgba(244,178,102,0.14)] pl-3 md:ml-4 md:pl-4">
+            {node.folders.map((child) => renderFolder(child, depth + 1))}
+            {node.playlists.length > 0 && (
+              <div className={PLAYLIST_GRID_CLASS}>
+                {node.playlists.map(renderPlaylistCard)}
+              </div>
+            )}
+            {node.folders.length === 0 && node.playlists.length === 0 && (
+              <p className="py-2 text-sm text-[var(--color-muted)]">
+                Drag playlists here to add them to this folder
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    );
   };
 
+  const renderPlaylistCard = (playlist: PlaylistListItem) => (
+    <Link
+      key={playlist.id}
+      href={`/playlists/${playlist.id}`}
+      className={`surface-panel touch-active group flex h-full flex-col overflow-hidden transition-all hover:-translate-y-1 ${
+        dragged?.kind === "playlist" && dragged.id === playlist.id
+          ? "opacity-50"
+          : ""
+      }`}
+      onContextMenu={(e) => {
+        e.preventDefault();
+        hapticLight();
+        openMenu(playlist, e.clientX, e.clientY);
+      }}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = "move";
+        e.dataTransfer.setData("text/plain", String(playlist.id));
+        setDragged({ kind: "playlist", id: playlist.id });
+      }}
+      onDragEnd={endDrag}
+    >
+      <div className="relative aspect-square overflow-hidden rounded-xl bg-[linear-gradient(135deg,rgba(244,178,102,0.28),rgba(88,198,177,0.22))]">
+        {playlist.tracks && playlist.tracks.length > 0 ? (
+          (() => {
+            // Get all album covers (with their frequency)
+            const covers = playlist.tracks
+              .map((t) => t.track?.album?.cover_medium)
+              .filter((cover): cover is string => !!cover);
+
+            // Get unique album covers
+            const uniqueCovers = Array.from(new Set(covers));
+
+            // If less than 4 tracks, show first song's cover
+            if (playlist.tracks.length < 4) {
+              return (
+                <div className="relative h-full w-full overflow-hidden rounded-xl bg-[rgba(12,18,27,0.9)]">
+                  <Image
+                    src={
+                      playlist.tracks[0]?.track?.album?.cover_medium ??
+                      "/placeholder.png"
+                    }
+                    alt=""
+                    fill
+                    className="object-cover"
+                  />
+                </div>
+              );
+            }
+
+            // If more than 3 songs with more than 3 unique covers, show 2x2 grid
+            if (playlist.tracks.length > 3 && uniqueCovers.length > 3) {
+              return (
+                <div className="grid h-full grid-cols-2 grid-rows-2 gap-0.5">
+                  {playlist.tracks.slice(0, 4).map((playlistTrack, idx) => (
+                    <div
+                      key={idx}
+                      className="relative h-full w-full overflow-hidden rounded-[0.65rem] bg-[rgba(12,18,27,0.9)]"
+                    >
+                      <Image
+                        src={
+                          playlistTrack.track?.album?.cover_medium ??
+                          "/placeholder.png"
+                        }
+                        alt=""
+                        fill
+                        className="object-cover"
+                      />
+                    </div>
+                  ))}
+                </div>
+              );
+            }
+
+            // If more than 3 songs but less than 4 unique covers, show dominant cover
+            // Find the most frequent album cover
+            const coverFrequency = new Map<string, number>();
+            covers.forEach((cover) => {
+              coverFrequency.set(cover, (coverFrequency.get(cover) ?? 0) + 1);
+            });
+
+            let dominantCover = covers[0] ?? "/placeholder.png";
+            let maxFrequency = 0;
+            coverFrequency.forEach((frequency, cover) => {
+              if (frequency > maxFrequency) {
+                maxFrequency = frequency;
+                dominantCover = cover;
+              }
+            });
+
+            return (
+              <div className="relative h-full w-full overflow-hidden rounded-xl bg-[rgba(12,18,27,0.9)]">
+                <Image
+                  src={dominantCover}
+                  alt=""
+                  fill
+                  className="object-cover"
+                />
+              </div>
+            );
+          })()
+        ) : (
+          <div className="flex h-full items-center justify-center text-[var(--color-text)]/60">
+            <Music className="h-12 w-12 md:h-16 md:w-16" />
+          </div>
+        )}
+        <div className="absolute inset-0 bg-black/35 opacity-0 transition group-hover:opacity-100" />
+      </div>
+      <div className="p-3 md:p-4">
+        <h3 className="mb-1 truncate text-base font-semibold text-[var(--color-text)] md:text-lg">
+          {playlist.name}
+        </h3>
+        {playlist.description && (
+          <p className="mb-2 line-clamp-2 text-xs text-[var(--color-subtext)] md:text-sm">
+            {playlist.description}
+          </p>
+        )}
+        <div className="flex items-center gap-2 text-xs text-[var(--color-muted)]">
+          {playlist.smartRules && (
+            <span className="flex items-center gap-1 text-[var(--color-accent)]">
+              <Sparkles className="h-3 w-3" />
+              Smart •
+            </span>
+          )}
+          <span>
+            {playlist.trackCount ?? 0} track
+            {(playlist.trackCount ?? 0) !== 1 ? "s" : ""}
+          </span>
+          <span
+            className={
+              playlist.isPublic
+                ? "text-[var(--color-accent)]"
+                : "text-[var(--color-subtext)]"
+            }
+          >
+            • {playlist.isPublic ? "Public" : "Private"}
+          </span>
+          {playlist.role !== "owner" && <span>• Shared with you</span>}
+        </div>
+      </div>
+    </Link>
+  );
+
   if (!session) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -87,144 +537,58 @@ export default function PlaylistsPage() {
         <h1 className="text-2xl font-bold text-[var(--color-text)] md:text-3xl">
           Your Playlists
         </h1>
-        <button
-          onClick={() => setShowCreateModal(true)}
-          className="btn-primary touch-target-lg flex w-full items-center justify-center gap-2 md:w-auto"
-        >
-          <Plus className="h-5 w-5" />
-          <span>Create Playlist</span>
-        </button>
+        <div className="flex flex-col gap-2 md:flex-row">
+          <button
+            onClick={() => handleNewFolder()}
+            className="btn-secondary touch-target-lg flex w-full items-center justify-center gap-2 md:w-auto"
+          >
+            <FolderPlus className="h-5 w-5" />
+            <span>New Folder</span>
+          </button>
+          <Link
+            href="/playlists/import"
+            className="btn-secondary touch-target-lg flex w-full items-center justify-center gap-2 md:w-auto"
+          >
+            <FileUp className="h-5 w-5" />
+            <span>Import</span>
+          </Link>
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="btn-primary touch-target-lg flex w-full items-center justify-center gap-2 md:w-auto"
+          >
+            <Plus className="h-5 w-5" />
+            <span>Create Playlist</span>
+          </button>
+        </div>
       </div>
 
       {/* Playlists Grid */}
       {isLoading ? (
         <LoadingState message="Loading your playlists..." />
-      ) : playlists && playlists.length > 0 ? (
-        <div className="fade-in grid gap-3 sm:grid-cols-2 md:gap-4 lg:grid-cols-3 xl:grid-cols-4">
-          {playlists.map((playlist) => (
-            <Link
-              key={playlist.id}
-              href={`/playlists/${playlist.id}`}
-              className="surface-panel touch-active group flex h-full flex-col overflow-hidden transition-all hover:-translate-y-1"
-              onContextMenu={(e) => {
-                e.preventDefault();
-                hapticLight();
-                openMenu(playlist, e.clientX, e.clientY);
-              }}
-            >
-              <div className="relative aspect-square overflow-hidden rounded-xl bg-[linear-gradient(135deg,rgba(244,178,102,0.28),rgba(88,198,177,0.22))]">
-                {playlist.tracks && playlist.tracks.length > 0 ? (
-                  (() => {
-                    // Get all album covers (with their frequency)
-                    const covers = playlist.tracks
-                      .map((t) => t.track?.album?.cover_medium)
-                      .filter((cover): cover is string => !!cover);
-
-                    // Get unique album covers
-                    const uniqueCovers = Array.from(new Set(covers));
-
-                    // If less than 4 tracks, show first song's cover
-                    if (playlist.tracks.length < 4) {
-                      return (
-                        <div className="relative h-full w-full overflow-hidden rounded-xl bg-[rgba(12,18,27,0.9)]">
-                          <Image
-                            src={
-                              playlist.tracks[0]?.track?.album?.cover_medium ??
-                              "/placeholder.png"
-                            }
-                            alt=""
-                            fill
-                            className="object-cover"
-                          />
-                        </div>
-                      );
-                    }
+      ) : (playlists?.length ?? 0) > 0 || (folders?.length ?? 0) > 0 ? (
+        <div className="fade-in space-y-4">
+          {libraryTree.folders.map((node) => renderFolder(node, 1))}
 
-                    // If more than 3 songs with more than 3 unique covers, show 2x2 grid
-                    if (playlist.tracks.length > 3 && uniqueCovers.length > 3) {
-                      return (
-                        <div className="grid h-full grid-cols-2 grid-rows-2 gap-0.5">
-                          {playlist.tracks.slice(0, 4).map((playlistTrack, idx) => (
-                            <div
-                              key={idx}
-                              className="relative h-full w-full overflow-hidden rounded-[0.65rem] bg-[rgba(12,18,27,0.9)]"
-                            >
-                              <Image
-                                src={
-                                  playlistTrack.track?.album?.cover_medium ??
-                                  "/placeholder.png"
-                                }
-                                alt=""
-                                fill
-                                className="object-cover"
-                              />
-                            </div>
-                          ))}
-                        </div>
-                      );
-                    }
-
-                    // If more than 3 songs but less than 4 unique covers, show dominant cover
-                    // Find the most frequent album cover
-                    const coverFrequency = new Map<string, number>();
-                    covers.forEach((cover) => {
-                      coverFrequency.set(cover, (coverFrequency.get(cover) ?? 0) + 1);
-                    });
-
-                    let dominantCover = covers[0] ?? "/placeholder.png";
-                    let maxFrequency = 0;
-                    coverFrequency.forEach((frequency, cover) => {
-                      if (frequency > maxFrequency) {
-                        maxFrequency = frequency;
-                        dominantCover = cover;
-                      }
-                    });
-
-                    return (
-                      <div className="relative h-full w-full overflow-hidden rounded-xl bg-[rgba(12,18,27,0.9)]">
-                        <Image
-                          src={dominantCover}
-                          alt=""
-                          fill
-                          className="object-cover"
-                        />
-                      </div>
-                    );
-                  })()
-                ) : (
-                  <div className="flex h-full items-center justify-center text-[var(--color-text)]/60">
-                    <Music className="h-12 w-12 md:h-16 md:w-16" />
-                  </div>
-                )}
-                <div className="absolute inset-0 bg-black/35 opacity-0 transition group-hover:opacity-100" />
-              </div>
-              <div className="p-3 md:p-4">
-                <h3 className="mb-1 truncate text-base font-semibold text-[var(--color-text)] md:text-lg">
-                  {playlist.name}
-                </h3>
-                {playlist.description && (
-                  <p className="mb-2 line-clamp-2 text-xs text-[var(--color-subtext)] md:text-sm">
-                    {playlist.description}
-                  </p>
-                )}
-                <div className="flex items-center gap-2 text-xs text-[var(--color-muted)]">
-                  <span>
-                    {playlist.trackCount ?? 0} track
-                    {(playlist.trackCount ?? 0) !== 1 ? "s" : ""}
-                  </span>
-                  <span
-                    className={
-                      playlist.isPublic
-                        ? "text-[var(--color-accent)]"
-                        : "text-[var(--color-subtext)]"
-                    }
-                  >
-                    • {playlist.isPublic ? "Public" : "Private"}
-                  </span>
+          {(libraryTree.unfiled.length > 0 || dragged) && (
+            <div {...dropTargetProps(null)} className="space-y-3">
+              {libraryTree.folders.length > 0 && (
+                <div
+                  className={`rounded-xl px-2 py-2 text-sm font-semibold transition-colors ${
+                    dropTarget === "root"
+                      ? "bg-[rgba(244,178,102,0.12)] text-[var(--color-accent)]"
+                      : "text-[var(--color-subtext)]"
+                  }`}
+                >
+                  {dragged
+                    ? "Drop here to take out of folders"
+                    : "Not in a folder"}
                 </div>
+              )}
+              <div className={PLAYLIST_GRID_CLASS}>
+                {libraryTree.unfiled.map(renderPlaylistCard)}
               </div>
-            </Link>
-          ))}
+            </div>
+          )}
         </div>
       ) : (
         <EmptyState
@@ -248,15 +612,14 @@ export default function PlaylistsPage() {
         <>
           <div
             className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm"
-            onClick={() => {
-              setShowCreateModal(false);
-              setNewPlaylistName("");
-              setNewPlaylistDescription("");
-              setIsPublic(false);
-            }}
+            onClick={closeCreateModal}
           />
           <div className="fixed inset-x-4 top-1/2 z-50 -translate-y-1/2 md:right-auto md:left-1/2 md:-translate-x-1/2">
-            <div className="surface-panel slide-in-up w-full max-w-md p-4 md:p-6">
+            <div
+              className={`surface-panel slide-in-up max-h-[85vh] w-full overflow-y-auto p-4 md:p-6 ${
+                isSmart ? "max-w-2xl" : "max-w-md"
+              }`}
+            >
               <h2 className="mb-4 text-xl font-bold text-[var(--color-text)] md:text-2xl">
                 Create Playlist
               </h2>
@@ -300,26 +663,44 @@ export default function PlaylistsPage() {
                     Make this playlist public
                   </label>
                 </div>
+
+                <div className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    id="isSmart"
+                    checked={isSmart}
+                    onChange={(e) => setIsSmart(e.target.checked)}
+                    className="touch-target h-5 w-5 rounded border-[rgba(244,178,102,0.25)] bg-[rgba(16,22,31,0.85)] text-[var(--color-accent)] focus:ring-2 focus:ring-[rgba(244,178,102,0.25)]"
+                  />
+                  <label
+                    htmlFor="isSmart"
+                    className="text-sm text-[var(--color-subtext)]"
+                  >
+                    Smart playlist: pick tracks by rules
+                  </label>
+                </div>
+
+                {isSmart && (
+                  <SmartPlaylistEditor
+                    value={smartRules}
+                    onChange={setSmartRules}
+                  />
+                )}
               </div>
 
               <div className="mt-6 flex flex-col gap-2 md:flex-row md:gap-3">
                 <button
-                  onClick={() => {
-                    setShowCreateModal(false);
-                    setNewPlaylistName("");
-                    setNewPlaylistDescription("");
-                    setIsPublic(false);
-                  }}
+                  onClick={closeCreateModal}
                   className="btn-secondary touch-target-lg flex-1"
                 >
                   Cancel
                 </button>
                 <button
                   onClick={handleCreatePlaylist}
-                  disabled={createPlaylist.isPending || !newPlaylistName.trim()}
+                  disabled={isCreating || !newPlaylistName.trim()}
                   className="btn-primary touch-target-lg flex-1"
                 >
-                  {createPlaylist.isPending ? "Creating..." : "Create"}
+                  {isCreating ? "Creating..." : "Create"}
                 </button>
               </div>
             </div>
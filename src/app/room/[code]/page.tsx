@@ -0,0 +1,463 @@
+// File: src/app/room/[code]/page.tsx
+
+"use client";
+
+import {
+  MAX_ROOM_GUEST_NAME_LENGTH,
+  MAX_ROOM_MESSAGE_LENGTH,
+} from "@/config/rooms";
+import { useGlobalPlayer } from "@/contexts/AudioPlayerContext";
+import {
+  useListeningRoom,
+  type RoomSyncStatus,
+} from "@/contexts/ListeningRoomContext";
+import { useToast } from "@/contexts/ToastContext";
+import { api } from "@/trpc/react";
+import type { ListeningRoomMessage, Track } from "@/types";
+import { searchTracks } from "@/utils/api";
+import { getExpectedPosition } from "@/utils/clockSync";
+import { getCoverImage } from "@/utils/images";
+import { formatTime } from "@/utils/time";
+import { Link2, ListPlus, LogOut, Send, Users } from "lucide-react";
+import { useSession } from "next-auth/react";
+import Image from "next/image";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import {
+  useEffect,
+  useRef,
+  useState,
+  type FormEvent,
+  type ReactNode,
+} from "react";
+
+const SYNC_LABELS: Record<RoomSyncStatus, string> = {
+  idle: "",
+  waiting: "Waiting for the host",
+  syncing: "Syncing with the host…",
+  synced: "In sync",
+};
+
+function TrackRow({ track, action }: { track: Track; action?: ReactNode }) {
+  return (
+    <div className="flex items-center gap-3">
+      <div className="relative h-10 w-10 flex-shrink-0 overflow-hidden rounded bg-[rgba(255,255,255,0.05)]">
+        <Image
+          src={getCoverImage(track, "small")}
+          alt={track.title}
+          fill
+          sizes="40px"
+          className="object-cover"
+        />
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm text-[var(--color-text)]">
+          {track.title}
+        </p>
+        <p className="truncate text-xs text-[var(--color-subtext)]">
+          {track.artist.name}
+        </p>
+      </div>
+      {action}
+    </div>
+  );
+}
+
+export default function ListeningRoomPage() {
+  const params = useParams<{ code: string }>();
+  const code = params.code;
+  const { data: session } = useSession();
+  const player = useGlobalPlayer();
+  const { showToast } = useToast();
+  const {
+    room,
+    isHost,
+    isConnected,
+    playback,
+    messages,
+    syncStatus,
+    guestName,
+    setGuestName,
+    joinRoom,
+    leaveRoom,
+    endRoom,
+    sendMessage,
+    suggestTrack,
+  } = useListeningRoom();
+
+  const isJoined = room?.code === code;
+  const { data: preview, isLoading } = api.rooms.getRoom.useQuery(
+    { code },
+    { enabled: !isJoined, retry: false },
+  );
+
+  const [draftName, setDraftName] = useState(guestName);
+  const [draftMessage, setDraftMessage] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<Track[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  // Keep the host's progress moving
+  useEffect(() => {
+    if (!isJoined) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isJoined]);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages.length]);
+
+  const needsName = !session && !guestName;
+
+  const handleJoin = () => {
+    if (!session) {
+      const name = draftName.trim();
+      if (!name) return;
+      setGuestName(name);
+    }
+    joinRoom(code);
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      showToast("Room link copied", "success");
+    } catch (error) {
+      console.error("Failed to copy:", error);
+      showToast("Failed to copy link to clipboard", "error");
+    }
+  };
+
+  const handleSend = async (e: FormEvent) => {
+    e.preventDefault();
+    const body = draftMessage.trim();
+    if (!body) return;
+    if (await sendMessage(body)) setDraftMessage("");
+  };
+
+  const handleSearch = async (e: FormEvent) => {
+    e.preventDefault();
+    const query = searchQuery.trim();
+    if (!query) return;
+    setIsSearching(true);
+    try {
+      const results = await searchTracks(query);
+      setSearchResults(results.data.slice(0, 8));
+    } catch (error) {
+      console.error("Search failed:", error);
+      showToast("Search failed", "error");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleSuggest = async (track: Track) => {
+    if (await suggestTrack(track)) {
+      setSearchResults([]);
+      setSearchQuery("");
+    }
+  };
+
+  const handleAddSuggestion = (track: Track) => {
+    player.addToQueue(track);
+    showToast(`Added "${track.title}" to the queue`, "success");
+  };
+
+  if (!isJoined) {
+    if (isLoading) {
+      return (
+        <div className="flex min-h-screen items-center justify-center">
+          <div className="border-accent inline-block h-8 w-8 animate-spin rounded-full border-b-2"></div>
+        </div>
+      );
+    }
+
+    if (!preview) {
+      return (
+        <div className="flex min-h-screen items-center justify-center">
+          <div className="text-center">
+            <p className="mb-4 text-[var(--color-subtext)]">
+              This listening room doesn&apos;t exist or has ended
+            </p>
+            <Link href="/" className="text-accent hover:underline">
+              Back to Home
+            </Link>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="flex min-h-screen items-center justify-center px-4 pb-32">
+        <div className="w-full max-w-md rounded-xl border border-[rgba(244,178,102,0.18)] bg-[rgba(12,18,27,0.85)] p-6 text-center">
+          <Users className="mx-auto mb-3 h-10 w-10 text-[var(--color-accent)]" />
+          <h1 className="mb-1 text-2xl font-bold text-[var(--color-text)]">
+            {preview.name}
+          </h1>
+          <p className="mb-4 text-sm text-[var(--color-subtext)]">
+            Hosted by {preview.hostName}
+          </p>
+          {preview.playback?.track && (
+            <div className="mb-4 text-left">
+              <TrackRow track={preview.playback.track} />
+            </div>
+          )}
+          {!session && (
+            <input
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleJoin()}
+              placeholder="Your name"
+              maxLength={MAX_ROOM_GUEST_NAME_LENGTH}
+              className="input-text mb-3 w-full"
+            />
+          )}
+          <button
+            onClick={handleJoin}
+            disabled={!session && !draftName.trim()}
+            className="btn-primary w-full"
+          >
+            {preview.isHost ? "Rejoin as host" : "Join and listen along"}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const position = playback ? getExpectedPosition(playback, now) : 0;
+
+  return (
+    <div className="flex min-h-screen flex-col pb-32">
+      <main className="mx-auto w-full max-w-5xl flex-1 px-4 py-8">
+        {/* Room Header */}
+        <div className="mb-6 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-[var(--color-text)]">
+              {room.name}
+            </h1>
+            <p className="mt-1 flex items-center gap-2 text-sm text-[var(--color-subtext)]">
+              <span
+                className={`h-2 w-2 rounded-full ${
+                  isConnected ? "bg-green-400" : "bg-[var(--color-muted)]"
+                }`}
+              />
+              {isHost
+                ? "You're hosting. Everyone follows what you play."
+                : `Hosted by ${room.hostName}`}
+              {SYNC_LABELS[syncStatus] && (
+                <span className="text-[var(--color-muted)]">
+                  · {SYNC_LABELS[syncStatus]}
+                </span>
+              )}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleCopyLink}
+              className="btn-secondary flex items-center gap-2 px-3 py-1.5 text-sm"
+            >
+              <Link2 className="h-4 w-4" />
+              Copy invite link
+            </button>
+            {isHost ? (
+              <button
+                onClick={() => {
+                  if (confirm("End the room for everyone?")) void endRoom();
+                }}
+                className="btn-secondary flex items-center gap-2 px-3 py-1.5 text-sm"
+              >
+                <LogOut className="h-4 w-4" />
+                End room
+              </button>
+            ) : (
+              <button
+                onClick={leaveRoom}
+                className="btn-secondary flex items-center gap-2 px-3 py-1.5 text-sm"
+              >
+                <LogOut className="h-4 w-4" />
+                Leave
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-[1fr_1.2fr]">
+          <div className="space-y-6">
+            {/* Now Playing */}
+            <section className="rounded-xl border border-[rgba(244,178,102,0.12)] bg-[rgba(12,18,27,0.6)] p-4">
+              <h2 className="mb-3 text-xs font-semibold tracking-wide text-[var(--color-muted)] uppercase">
+                Now playing
+              </h2>
+              {playback?.track ? (
+                <>
+                  <TrackRow track={playback.track} />
+                  <div className="mt-3 flex items-center gap-2 text-xs text-[var(--color-subtext)] tabular-nums">
+                    <span>{formatTime(position)}</span>
+                    <div className="h-1 flex-1 overflow-hidden rounded-full bg-[rgba(255,255,255,0.12)]">
+                      <div
+                        className="bg-accent h-full"
+                        style={{
+                          width: `${(position / (playback.track.duration || 1)) * 100}%`,
+                        }}
+                      />
+                    </div>
+                    <span>{formatTime(playback.track.duration)}</span>
+                  </div>
+                  {!playback.isPlaying && (
+                    <p className="mt-2 text-xs text-[var(--color-muted)]">
+                      Paused by the host
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p className="text-sm text-[var(--color-subtext)]">
+                  {isHost
+                    ? "Play something and everyone in the room will hear it."
+                    : "The host isn't playing anything yet."}
+                </p>
+              )}
+            </section>
+
+            {/* Suggest a Track */}
+            {!isHost && (
+              <section className="rounded-xl border border-[rgba(244,178,102,0.12)] bg-[rgba(12,18,27,0.6)] p-4">
+                <h2 className="mb-3 text-xs font-semibold tracking-wide text-[var(--color-muted)] uppercase">
+                  Suggest a track
+                </h2>
+                <form onSubmit={handleSearch} className="mb-3 flex gap-2">
+                  <input
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    placeholder="Search for a song"
+                    className="input-text flex-1"
+                  />
+                  <button
+                    type="submit"
+                    disabled={isSearching || !searchQuery.trim()}
+                    className="btn-secondary px-3 text-sm"
+                  >
+                    {isSearching ? "…" : "Search"}
+                  </button>
+                </form>
+                <div className="space-y-2">
+                  {searchResults.map((track) => (
+                    <TrackRow
+                      key={track.id}
+                      track={track}
+                      action={
+                        <button
+                          onClick={() => void handleSuggest(track)}
+                          disabled={needsName}
+                          className="rounded px-2 py-1 text-xs text-[var(--color-accent)] transition hover:bg-[rgba(244,178,102,0.12)]"
+                        >
+                          Suggest
+                        </button>
+                      }
+                    />
+                  ))}
+                </div>
+              </section>
+            )}
+          </div>
+
+          {/* Chat */}
+          <section className="flex h-[32rem] flex-col rounded-xl border border-[rgba(244,178,102,0.12)] bg-[rgba(12,18,27,0.6)]">
+            <h2 className="border-b border-[rgba(244,178,102,0.08)] p-4 text-xs font-semibold tracking-wide text-[var(--color-muted)] uppercase">
+              Chat
+            </h2>
+            <div className="flex-1 space-y-3 overflow-y-auto p-4">
+              {messages.length === 0 && (
+                <p className="text-sm text-[var(--color-subtext)]">
+                  No messages yet. Say hi!
+                </p>
+              )}
+              {messages.map(({ track, ...message }: ListeningRoomMessage) => (
+                <div key={message.id}>
+                  <p className="text-xs text-[var(--color-muted)]">
+                    <span className="font-medium text-[var(--color-subtext)]">
+                      {message.authorName}
+                    </span>
+                    {message.kind === "suggestion" && " suggested"} ·{" "}
+                    {new Date(message.createdAt).toLocaleTimeString([], {
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}
+                  </p>
+                  {message.body && (
+                    <p className="text-sm break-words text-[var(--color-text)]">
+                      {message.body}
+                    </p>
+                  )}
+                  {track && (
+                    <div className="mt-1 rounded-lg bg-[rgba(255,255,255,0.04)] p-2">
+                      <TrackRow
+                        track={track}
+                        action={
+                          isHost && (
+                            <button
+                              onClick={() => handleAddSuggestion(track)}
+                              className="rounded p-1.5 text-[var(--color-subtext)] transition hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-accent)]"
+                              title="Add to queue"
+                              aria-label={`Add ${track.title} to queue`}
+                            >
+                              <ListPlus className="h-4 w-4" />
+                            </button>
+                          )
+                        }
+                      />
+                    </div>
+                  )}
+                </div>
+              ))}
+              <div ref={messagesEndRef} />
+            </div>
+            {needsName ? (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (draftName.trim()) setGuestName(draftName.trim());
+                }}
+                className="flex gap-2 border-t border-[rgba(244,178,102,0.08)] p-3"
+              >
+                <input
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  placeholder="Your name, to chat"
+                  maxLength={MAX_ROOM_GUEST_NAME_LENGTH}
+                  className="input-text flex-1"
+                />
+                <button type="submit" className="btn-secondary px-3 text-sm">
+                  Save
+                </button>
+              </form>
+            ) : (
+              <form
+                onSubmit={handleSend}
+                className="flex gap-2 border-t border-[rgba(244,178,102,0.08)] p-3"
+              >
+                <input
+                  value={draftMessage}
+                  onChange={(e) => setDraftMessage(e.target.value)}
+                  placeholder="Say something"
+                  maxLength={MAX_ROOM_MESSAGE_LENGTH}
+                  className="input-text flex-1"
+                />
+                <button
+                  type="submit"
+                  disabled={!draftMessage.trim()}
+                  className="btn-primary px-3"
+                  aria-label="Send"
+                >
+                  <Send className="h-4 w-4" />
+                </button>
+              </form>
+            )}
+          </section>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -3,18 +3,29 @@
 "use client";
 
 import { AnimatePresence, motion } from "framer-motion";
-import { Check, Globe, Music, Plus, Search, X } from "lucide-react";
+import { Check, Folder, Globe, Music, Plus, Search, X } from "lucide-react";
 import Link from "next/link";
 import { useEffect, useMemo, useRef, useState } from "react";
 import { createPortal } from "react-dom";
 import { useSession } from "next-auth/react";
 
 import { useToast } from "@/contexts/ToastContext";
-import { api } from "@/trpc/react";
+import { api, type RouterOutputs } from "@/trpc/react";
 import type { PlaylistWithTrackStatus, Track } from "@/types";
 import { hapticLight, hapticSuccess } from "@/utils/haptics";
+import {
+  buildPlaylistFolderTree,
+  type PlaylistFolderNode,
+} from "@/utils/playlistFolders";
 import { springPresets } from "@/utils/spring-animations";
 
+type PlaylistOption =
+  RouterOutputs["music"]["getPlaylistsWithTrackStatus"][number];
+
+type PlaylistListRow =
+  | { kind: "folder"; id: number; name: string; depth: number }
+  | { kind: "playlist"; playlist: PlaylistOption; depth: number };
+
 interface AddToPlaylistModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -45,6 +56,9 @@ export function AddToPlaylistModal({
       { trackId: track.id, excludePlaylistId },
       { enabled: isOpen && isAuthenticated },
     );
+  const { data: folders } = api.playlistFolders.getFolders.useQuery(undefined, {
+    enabled: isOpen && isAuthenticated,
+  });
 
   // Add to playlist mutation
   const addToPlaylist = api.music.addToPlaylist.useMutation({
@@ -85,6 +99,37 @@ export function AddToPlaylistModal({
     );
   }, [playlists, searchQuery]);
 
+  // Show playlists under their folders, or as a flat list while searching
+  const playlistRows = useMemo((): PlaylistListRow[] => {
+    if (searchQuery.trim() || !folders?.length) {
+      return filteredPlaylists.map((playlist) => ({
+        kind: "playlist",
+        playlist,
+        depth: 0,
+      }));
+    }
+
+    const tree = buildPlaylistFolderTree(folders, filteredPlaylists);
+    const rows: PlaylistListRow[] = [];
+    const visit = (node: PlaylistFolderNode<PlaylistOption>, depth: number) => {
+      rows.push({
+        kind: "folder",
+        id: node.folder.id,
+        name: node.folder.name,
+        depth,
+      });
+      node.folders.forEach((child) => visit(child, depth + 1));
+      node.playlists.forEach((playlist) =>
+        rows.push({ kind: "playlist", playlist, depth: depth + 1 }),
+      );
+    };
+    tree.folders.forEach((node) => visit(node, 0));
+    tree.unfiled.forEach((playlist) =>
+      rows.push({ kind: "playlist", playlist, depth: 0 }),
+    );
+    return rows;
+  }, [filteredPlaylists, folders, searchQuery]);
+
   // Track mounted state for SSR safety
   useEffect(() => {
     setMounted(true);
@@ -239,17 +284,36 @@ export function AddToPlaylistModal({
                     animate="visible"
                     className="space-y-1"
                   >
-                    {filteredPlaylists.map((playlist, index) => (
-                      <PlaylistItem
-                        key={playlist.id}
-                        playlist={playlist}
-                        track={track}
-                        onAdd={() => handleAddToPlaylist(playlist.id)}
-                        isSubmitting={submittingPlaylistId === playlist.id}
-                        index={index}
-                        variants={listItemVariants}
-                      />
-                    ))}
+                    {playlistRows.map((row, index) =>
+                      row.kind === "folder" ? (
+                        <motion.div
+                          key={`folder-${row.id}`}
+                          custom={index}
+                          variants={listItemVariants}
+                          className="flex items-center gap-2 px-3 pt-3 pb-1 text-xs font-semibold tracking-wide text-[var(--color-subtext)] uppercase"
+                          style={{ paddingLeft: `${0.75 + row.depth}rem` }}
+                        >
+                          <Folder className="h-3.5 w-3.5 text-[var(--color-accent)]" />
+                          <span className="truncate">{row.name}</span>
+                        </motion.div>
+                      ) : (
+                        <div
+                          key={row.playlist.id}
+                          style={{ paddingLeft: `${row.depth}rem` }}
+                        >
+                          <PlaylistItem
+                            playlist={row.playlist}
+                            track={track}
+                            onAdd={() => handleAddToPlaylist(row.playlist.id)}
+                            isSubmitting={
+                              submittingPlaylistId === row.playlist.id
+                            }
+                            index={index}
+                            variants={listItemVariants}
+                          />
+                        </div>
+                      ),
+                    )}
                   </motion.div>
                 )}
               </div>
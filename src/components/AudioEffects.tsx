@@ -0,0 +1,226 @@
+// File: src/components/AudioEffects.tsx
+
+"use client";
+
+import { ChevronDown, ChevronUp, Power, RotateCcw } from "lucide-react";
+import { AUDIO_EFFECT_RANGES } from "@/config/audioEffects";
+import type { useAudioEffects } from "@/hooks/useAudioEffects";
+import type { AudioEffectParams, AudioEffectType } from "@/types";
+import { hapticLight } from "@/utils/haptics";
+
+interface AudioEffectsProps {
+  effects: ReturnType<typeof useAudioEffects>;
+}
+
+type NumericParam<K extends AudioEffectType> = {
+  [P in keyof AudioEffectParams[K]]: AudioEffectParams[K][P] extends number
+    ? P
+    : never;
+}[keyof AudioEffectParams[K]];
+
+interface SliderControl<K extends AudioEffectType> {
+  param: NumericParam<K>;
+  label: string;
+  format: (value: number) => string;
+}
+
+const formatDb = (value: number) => `${value > 0 ? "+" : ""}${value} dB`;
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const EFFECT_CONTROLS: {
+  [K in AudioEffectType]: { label: string; sliders: SliderControl<K>[] };
+} = {
+  preamp: {
+    label: "Preamp + limiter",
+    sliders: [{ param: "gainDb", label: "Gain", format: formatDb }],
+  },
+  compressor: {
+    label: "Compressor",
+    sliders: [
+      { param: "threshold", label: "Threshold", format: formatDb },
+      { param: "ratio", label: "Ratio", format: (value) => `${value}:1` },
+      { param: "knee", label: "Knee", format: formatDb },
+      {
+        param: "attack",
+        label: "Attack",
+        format: (value) => `${Math.round(value * 1000)} ms`,
+      },
+      {
+        param: "release",
+        label: "Release",
+        format: (value) => `${Math.round(value * 1000)} ms`,
+      },
+      { param: "makeupDb", label: "Makeup", format: formatDb },
+    ],
+  },
+  reverb: {
+    label: "Reverb",
+    sliders: [
+      { param: "mix", label: "Mix", format: formatPercent },
+      { param: "decay", label: "Decay", format: (value) => `${value}s` },
+    ],
+  },
+  widener: {
+    label: "Stereo widener",
+    sliders: [{ param: "width", label: "Width", format: formatPercent }],
+  },
+  balance: {
+    label: "Balance",
+    sliders: [
+      {
+        param: "pan",
+        label: "Pan",
+        format: (value) =>
+          value === 0
+            ? "C"
+            : `${Math.round(Math.abs(value) * 100)}${value < 0 ? "L" : "R"}`,
+      },
+    ],
+  },
+};
+
+function EffectSliders<K extends AudioEffectType>({
+  type,
+  effects,
+}: {
+  type: K;
+  effects: ReturnType<typeof useAudioEffects>;
+}) {
+  const state = effects.settings.effects[type];
+  const ranges = AUDIO_EFFECT_RANGES[type] as Record<
+    string,
+    { min: number; max: number; step: number }
+  >;
+
+  return (
+    <div className="mt-2 space-y-2">
+      {EFFECT_CONTROLS[type].sliders.map((slider) => {
+        const range = ranges[slider.param as string]!;
+        const value = state[slider.param] as number;
+
+        return (
+          <label
+            key={slider.param as string}
+            className="grid grid-cols-[5rem_1fr_3.5rem] items-center gap-2 text-xs text-[var(--color-subtext)]"
+          >
+            {slider.label}
+            <input
+              type="range"
+              min={range.min}
+              max={range.max}
+              step={range.step}
+              value={value}
+              onChange={(e) =>
+                effects.updateEffect(type, {
+                  [slider.param]: parseFloat(e.target.value),
+                } as Partial<AudioEffectParams[K]>)
+              }
+              className="accent-accent h-1 w-full cursor-pointer appearance-none rounded-full bg-[rgba(255,255,255,0.12)]"
+            />
+            <span className="text-right text-[var(--color-text)] tabular-nums">
+              {slider.format(value)}
+            </span>
+          </label>
+        );
+      })}
+    </div>
+  );
+}
+
+export function AudioEffects({ effects }: AudioEffectsProps) {
+  const { order } = effects.settings;
+
+  return (
+    <div className="border-t border-[rgba(244,178,102,0.12)] p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <label className="text-xs font-medium tracking-wider text-[var(--color-subtext)] uppercase">
+          Effects
+        </label>
+        <button
+          onClick={() => {
+            hapticLight();
+            effects.reset();
+          }}
+          className="rounded-lg p-1.5 text-[var(--color-subtext)] transition hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)]"
+          title="Reset effects"
+        >
+          <RotateCcw className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {order.map((type, index) => {
+          const state = effects.settings.effects[type];
+
+          return (
+            <div
+              key={type}
+              className="rounded-lg border border-[rgba(244,178,102,0.12)] bg-black/15 px-3 py-2"
+            >
+              <div className="flex items-center gap-2">
+                <span
+                  className={`flex-1 text-sm ${
+                    state.enabled
+                      ? "text-[var(--color-text)]"
+                      : "text-[var(--color-subtext)]"
+                  }`}
+                >
+                  {EFFECT_CONTROLS[type].label}
+                </span>
+                {type === "balance" && state.enabled && (
+                  <button
+                    onClick={() =>
+                      effects.updateEffect("balance", {
+                        mono: !effects.settings.effects.balance.mono,
+                      })
+                    }
+                    className={`rounded-md px-2 py-0.5 text-xs transition ${
+                      effects.settings.effects.balance.mono
+                        ? "bg-[rgba(244,178,102,0.2)] text-[var(--color-accent)]"
+                        : "text-[var(--color-subtext)] hover:bg-[rgba(244,178,102,0.12)]"
+                    }`}
+                    title="Fold to mono"
+                  >
+                    Mono
+                  </button>
+                )}
+                <button
+                  onClick={() => effects.moveEffect(type, -1)}
+                  disabled={index === 0}
+                  className="rounded-md p-1 text-[var(--color-subtext)] transition hover:text-[var(--color-text)] disabled:opacity-30"
+                  title="Move earlier in the chain"
+                >
+                  <ChevronUp className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  onClick={() => effects.moveEffect(type, 1)}
+                  disabled={index === order.length - 1}
+                  className="rounded-md p-1 text-[var(--color-subtext)] transition hover:text-[var(--color-text)] disabled:opacity-30"
+                  title="Move later in the chain"
+                >
+                  <ChevronDown className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  onClick={() => {
+                    hapticLight();
+                    effects.setEffectEnabled(type, !state.enabled);
+                  }}
+                  className={`rounded-lg p-1.5 transition-all active:scale-95 ${
+                    state.enabled
+                      ? "bg-[rgba(244,178,102,0.2)] text-[var(--color-accent)]"
+                      : "text-[var(--color-subtext)] hover:bg-[rgba(244,178,102,0.12)]"
+                  }`}
+                  title={`Toggle ${EFFECT_CONTROLS[type].label.toLowerCase()}`}
+                >
+                  <Power className="h-3.5 w-3.5" />
+                </button>
+              </div>
+
+              {state.enabled && <EffectSliders type={type} effects={effects} />}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+// File: src/components/DevicesMenu.tsx
+
+"use client";
+
+import { useGlobalPlayer } from "@/contexts/AudioPlayerContext";
+import { useListeningRoom } from "@/contexts/ListeningRoomContext";
+import {
+  useRemoteControl,
+  type RemoteDevice,
+} from "@/contexts/RemoteControlContext";
+import { hapticLight } from "@/utils/haptics";
+import { formatTime } from "@/utils/time";
+import {
+  Laptop,
+  MonitorSpeaker,
+  Pause,
+  Play,
+  SkipBack,
+  SkipForward,
+  Smartphone,
+  Users,
+  Volume2,
+} from "lucide-react";
+import { useSession } from "next-auth/react";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+
+const isPhoneName = (name: string) => /iPhone|Android/.test(name);
+
+// Where a device's track should be by now, from its last report
+function estimatePosition(device: RemoteDevice, now: number): number {
+  const status = device.status;
+  if (!status?.track) return 0;
+  const elapsed = status.isPlaying ? (now - status.reportedAt) / 1000 : 0;
+  return Math.min(status.position + elapsed, status.track.duration);
+}
+
+// Slider that only sends its value to the device once it's let go
+function RemoteSlider({
+  value,
+  max,
+  step,
+  onCommit,
+  label,
+  className,
+}: {
+  value: number;
+  max: number;
+  step: number;
+  onCommit: (value: number) => void;
+  label: string;
+  className: string;
+}) {
+  const [dragValue, setDragValue] = useState<number | null>(null);
+  const commit = () => {
+    if (dragValue === null) return;
+    onCommit(dragValue);
+    setDragValue(null);
+  };
+
+  return (
+    <input
+      type="range"
+      min={0}
+      max={max}
+      step={step}
+      value={dragValue ?? value}
+      onChange={(e) => setDragValue(Number(e.target.value))}
+      onPointerUp={commit}
+      onKeyUp={commit}
+      className={`accent-accent h-1 cursor-pointer appearance-none rounded-full bg-[rgba(255,255,255,0.12)] ${className}`}
+      aria-label={label}
+    />
+  );
+}
+
+/**
+ * Device picker: move playback to another of the user's devices, or control
+ * what one of them is playing
+ */
+export function DevicesMenu({
+  size = "compact",
+}: {
+  size?: "compact" | "touch"; // touch: larger target for the mobile player
+}) {
+  const { data: session } = useSession();
+  const { currentTrack } = useGlobalPlayer();
+  const { devices, sendCommand, transferPlayback, pullPlayback } =
+    useRemoteControl();
+  const { room, isHost, createRoom } = useListeningRoom();
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keep remote progress moving while the menu is open
+  useEffect(() => {
+    if (!isOpen) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isOpen]);
+
+  if (!session) return null;
+
+  const otherDevices = devices.filter((device) => !device.isCurrent);
+  const playingElsewhere = otherDevices.find(
+    (device) => device.status?.isPlaying,
+  );
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => {
+          setNow(Date.now());
+          setIsOpen(!isOpen);
+        }}
+        className={`flex items-center gap-1 font-medium transition ${
+          size === "touch"
+            ? "touch-target text-sm"
+            : "rounded px-2 py-1 text-xs hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)]"
+        } ${
+          playingElsewhere
+            ? "text-[var(--color-accent)]"
+            : "text-[var(--color-subtext)]"
+        }`}
+        title={
+          playingElsewhere
+            ? `Playing on ${playingElsewhere.name}`
+            : "Connect to a device"
+        }
+        aria-label="Devices"
+      >
+        <MonitorSpeaker
+          className={size === "touch" ? "h-5 w-5" : "h-3.5 w-3.5"}
+        />
+      </button>
+      {isOpen && (
+        <>
+          <div
+            className="fixed inset-0 z-10"
+            onClick={() => setIsOpen(false)}
+          />
+          <div className="absolute right-0 bottom-full z-20 mb-2 w-72 rounded-lg border border-[rgba(244,178,102,0.18)] bg-[rgba(12,18,27,0.95)] py-2 shadow-lg shadow-[rgba(5,10,18,0.6)] backdrop-blur-lg">
+            <p className="px-4 pb-1 text-xs text-[var(--color-muted)]">
+              Devices
+            </p>
+            {otherDevices.length === 0 && (
+              <p className="px-4 py-2 text-sm text-[var(--color-subtext)]">
+                Open the app on another device signed in to this account to
+                control it from here.
+              </p>
+            )}
+            {otherDevices.map((device) => {
+              const status = device.status;
+              const DeviceIcon = isPhoneName(device.name) ? Smartphone : Laptop;
+              return (
+                <div
+                  key={device.sessionId}
+                  className="border-t border-[rgba(244,178,102,0.08)] px-4 py-2 first-of-type:border-t-0"
+                >
+                  <div className="flex items-center gap-2">
+                    <DeviceIcon className="h-4 w-4 flex-shrink-0 text-[var(--color-subtext)]" />
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm text-[var(--color-text)]">
+                        {device.name}
+                      </p>
+                      {status?.track && (
+                        <p className="truncate text-xs text-[var(--color-subtext)]">
+                          {status.track.title} · {status.track.artist}
+                        </p>
+                      )}
+                    </div>
+                    {currentTrack && (
+                      <button
+                        onClick={() => {
+                          hapticLight();
+                          void transferPlayback(device.sessionId);
+                          setIsOpen(false);
+                        }}
+                        className="rounded px-2 py-1 text-xs whitespace-nowrap text-[var(--color-accent)] transition hover:bg-[rgba(244,178,102,0.12)]"
+                        title={`Move what's playing here to ${device.name}`}
+                      >
+                        Play there
+                      </button>
+                    )}
+                    {status?.track && (
+                      <button
+                        onClick={() => {
+                          hapticLight();
+                          pullPlayback(device.sessionId);
+                          setIsOpen(false);
+                        }}
+                        className="rounded px-2 py-1 text-xs whitespace-nowrap text-[var(--color-subtext)] transition hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)]"
+                        title={`Continue what ${device.name} is playing here`}
+                      >
+                        Play here
+                      </button>
+                    )}
+                  </div>
+
+                  {status?.track && (
+                    <div className="mt-2 space-y-2">
+                      <div className="flex items-center gap-2 text-xs text-[var(--color-subtext)] tabular-nums">
+                        <span>{formatTime(estimatePosition(device, now))}</span>
+                        <RemoteSlider
+                          value={estimatePosition(device, now)}
+                          max={status.track.duration}
+                          step={1}
+                          onCommit={(position) =>
+                            sendCommand(device.sessionId, {
+                              type: "seek",
+                              position,
+                            })
+                          }
+                          label={`Seek on ${device.name}`}
+                          className="flex-1"
+                        />
+                        <span>{formatTime(status.track.duration)}</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() =>
+                            sendCommand(device.sessionId, { type: "previous" })
+                          }
+                          className="rounded-full p-1.5 text-[var(--color-subtext)] transition hover:text-[var(--color-text)]"
+                          aria-label={`Previous track on ${device.name}`}
+                        >
+                          <SkipBack className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() =>
+                            sendCommand(device.sessionId, {
+                              type: status.isPlaying ? "pause" : "play",
+                            })
+                          }
+                          className="rounded-full bg-[rgba(244,178,102,0.16)] p-1.5 text-[var(--color-text)] transition hover:bg-[rgba(244,178,102,0.28)]"
+                          aria-label={
+                            status.isPlaying
+                              ? `Pause ${device.name}`
+                              : `Play on ${device.name}`
+                          }
+                        >
+                          {status.isPlaying ? (
+                            <Pause className="h-4 w-4" />
+                          ) : (
+                            <Play className="h-4 w-4" />
+                          )}
+                        </button>
+                        <button
+                          onClick={() =>
+                            sendCommand(device.sessionId, { type: "next" })
+                          }
+                          className="rounded-full p-1.5 text-[var(--color-subtext)] transition hover:text-[var(--color-text)]"
+                          aria-label={`Next track on ${device.name}`}
+                        >
+                          <SkipForward className="h-4 w-4" />
+                        </button>
+                        <Volume2 className="ml-auto h-4 w-4 text-[var(--color-subtext)]" />
+                        <RemoteSlider
+                          value={status.volume}
+                          max={1}
+                          step={0.05}
+                          onCommit={(volume) =>
+                            sendCommand(device.sessionId, {
+                              type: "volume",
+                              volume,
+                            })
+                          }
+                          label={`Volume on ${device.name}`}
+                          className="w-20"
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+            <div className="mt-1 border-t border-[rgba(244,178,102,0.12)] px-2 pt-2">
+              <button
+                onClick={() => {
+                  hapticLight();
+                  setIsOpen(false);
+                  if (room) {
+                    router.push(`/room/${room.code}`);
+                    return;
+                  }
+                  void createRoom().then((code) => {
+                    if (code) router.push(`/room/${code}`);
+                  });
+                }}
+                className="flex w-full items-center gap-2 rounded px-2 py-1.5 text-sm text-[var(--color-text)] transition hover:bg-[rgba(244,178,102,0.12)]"
+                title="Listen along with friends in sync"
+              >
+                <Users className="h-4 w-4 text-[var(--color-accent)]" />
+                {room
+                  ? isHost
+                    ? "Your listening room"
+                    : `Listening with ${room.hostName}`
+                  : "Start a listening room"}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
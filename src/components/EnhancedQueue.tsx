@@ -2,7 +2,9 @@
 
 "use client";
 
-import { useToast } from "@/contexts/ToastContext";
+import { PlaylistExportButton } from "@/components/PlaylistExportButton";
+import { QueueSnapshotsPanel } from "@/components/QueueSnapshotsPanel";
+import { useJukebox } from "@/contexts/JukeboxContext";
 import { api } from "@/trpc/react";
 import type { QueuedTrack, SmartQueueSettings, SmartQueueState, Track } from "@/types";
 import { getCoverImage } from "@/utils/images";
@@ -24,20 +26,25 @@ import {
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import {
+  Disc3,
   GripVertical,
+  Layers,
   Loader2,
   Play,
+  Redo2,
   RefreshCw,
   Save,
   Search,
   Settings,
   Sparkles,
   Trash2,
+  Undo2,
   X,
   Zap,
 } from "lucide-react";
 import { useSession } from "next-auth/react";
 import Image from "next/image";
+import { useRouter } from "next/navigation";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 interface QueueItemProps {
@@ -207,9 +214,13 @@ interface EnhancedQueueProps {
   smartQueueState: SmartQueueState;
   currentTrack: Track | null;
   onClose: () => void;
-  onRemove: (index: number) => void;
+  onRemove: (index: number | number[]) => void;
   onClear: () => void;
   onReorder: (oldIndex: number, newIndex: number) => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
   onPlayFrom: (index: number) => void;
   onSaveAsPlaylist?: () => void;
   onAddSmartTracks?: (count?: number) => Promise<Track[]>;
@@ -237,6 +248,10 @@ export function EnhancedQueue({
   onRemove,
   onClear,
   onReorder,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
   onPlayFrom,
   onSaveAsPlaylist,
   onAddSmartTracks,
@@ -249,6 +264,9 @@ export function EnhancedQueue({
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedIndices, setSelectedIndices] = useState<Set<number>>(new Set());
   const [lastSelectedIndex, setLastSelectedIndex] = useState<number | null>(null);
+  const [showSavedQueues, setShowSavedQueues] = useState(false);
+  const { jukebox, startJukebox } = useJukebox();
+  const router = useRouter();
   // COMMENTED OUT - Smart queue UI state disabled
   // const [showSettings, setShowSettings] = useState(false);
   // const [addingSimilar, setAddingSimilar] = useState(false);
@@ -260,7 +278,6 @@ export function EnhancedQueue({
 
   const { data: session } = useSession();
   const isAuthenticated = !!session?.user;
-  const { showToast } = useToast();
   const utils = api.useUtils();
   const queueListRef = useRef<HTMLDivElement>(null);
 
@@ -427,18 +444,12 @@ export function EnhancedQueue({
   const handleRemoveSelected = useCallback(() => {
     if (selectedIndices.size === 0) return;
 
-    // Sort indices in descending order to remove from end to beginning
-    // This prevents index shifting issues
-    const sortedIndices = Array.from(selectedIndices).sort((a, b) => b - a);
-
-    sortedIndices.forEach(index => {
-      onRemove(index);
-    });
+    // Removed together, so a single undo brings them all back
+    onRemove(Array.from(selectedIndices));
 
     setSelectedIndices(new Set());
     setLastSelectedIndex(null);
-    showToast(`Removed ${sortedIndices.length} track${sortedIndices.length === 1 ? '' : 's'} from queue`, 'success');
-  }, [selectedIndices, onRemove, showToast]);
+  }, [selectedIndices, onRemove]);
 
   const handleClearSelection = useCallback(() => {
     setSelectedIndices(new Set());
@@ -540,6 +551,65 @@ export function EnhancedQueue({
             >
               <Settings className="h-5 w-5" />
             </button> */}
+            {isAuthenticated && (
+              <button
+                onClick={() => setShowSavedQueues(!showSavedQueues)}
+                className={`rounded-full p-2 transition-colors hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)] ${
+                  showSavedQueues
+                    ? "text-[var(--color-accent)]"
+                    : "text-[var(--color-subtext)]"
+                }`}
+                aria-label="Saved queues"
+                title="Saved queues"
+              >
+                <Layers className="h-5 w-5" />
+              </button>
+            )}
+            {isAuthenticated && (
+              <button
+                onClick={async () => {
+                  const code = jukebox?.code ?? (await startJukebox());
+                  if (!code) return;
+                  router.push(`/jukebox/${code}`);
+                  onClose();
+                }}
+                className={`rounded-full p-2 transition-colors hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)] ${
+                  jukebox
+                    ? "text-[var(--color-accent)]"
+                    : "text-[var(--color-subtext)]"
+                }`}
+                aria-label="Jukebox"
+                title={
+                  jukebox
+                    ? "Jukebox is on: guests can request tracks"
+                    : "Start a jukebox: let guests request and vote on tracks"
+                }
+              >
+                <Disc3 className="h-5 w-5" />
+              </button>
+            )}
+            {onUndo && (
+              <button
+                onClick={onUndo}
+                disabled={!canUndo}
+                className="rounded-full p-2 text-[var(--color-subtext)] transition-colors hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)] disabled:opacity-40 disabled:hover:bg-transparent"
+                aria-label="Undo queue edit"
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo2 className="h-5 w-5" />
+              </button>
+            )}
+            {onRedo && (
+              <button
+                onClick={onRedo}
+                disabled={!canRedo}
+                className="rounded-full p-2 text-[var(--color-subtext)] transition-colors hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)] disabled:opacity-40 disabled:hover:bg-transparent"
+                aria-label="Redo queue edit"
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo2 className="h-5 w-5" />
+              </button>
+            )}
             {onSaveAsPlaylist && (queue.length > 0 || currentTrack) && (
               <button
                 onClick={onSaveAsPlaylist}
@@ -550,6 +620,14 @@ export function EnhancedQueue({
                 <Save className="h-5 w-5" />
               </button>
             )}
+            {queue.length > 0 && (
+              <PlaylistExportButton
+                name={`Queue ${new Date().toLocaleDateString()}`}
+                getTracks={() => queue}
+                label={null}
+                className="rounded-full p-2 text-[var(--color-subtext)] transition-colors hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)]"
+              />
+            )}
             {queue.length > 0 && (
               <button
                 onClick={onClear}
@@ -570,6 +648,10 @@ export function EnhancedQueue({
           </div>
         </div>
 
+        {showSavedQueues && isAuthenticated && (
+          <QueueSnapshotsPanel onClose={() => setShowSavedQueues(false)} />
+        )}
+
         {/* Mass Actions Bar */}
         {selectedIndices.size > 0 && (
           <div className="flex items-center gap-2 rounded-lg border border-[rgba(88,198,177,0.25)] bg-[rgba(88,198,177,0.12)] p-3">
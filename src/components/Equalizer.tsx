@@ -2,19 +2,139 @@
 
 "use client";
 
-import { Power, RotateCcw, X, Sparkles } from "lucide-react";
-import { useEffect, useState } from "react";
+import {
+  Download,
+  Plus,
+  Power,
+  RotateCcw,
+  Save,
+  Sparkles,
+  Trash2,
+  Upload,
+  X,
+} from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  EQ_FILTER_TYPES,
+  EQ_GAIN_FILTER_TYPES,
+  EQ_MAX_FREQUENCY,
+  EQ_MAX_Q,
+  EQ_MIN_FREQUENCY,
+  EQ_MIN_Q,
+} from "@/config/equalizer";
+import { NORMALIZATION_TARGET_OPTIONS } from "@/config/player";
+import { useGlobalPlayer } from "@/contexts/AudioPlayerContext";
+import type { useAudioEffects } from "@/hooks/useAudioEffects";
 import type { useEqualizer } from "@/hooks/useEqualizer";
+import type { EqualizerFilterType, NormalizationMode } from "@/types";
+import { createLogFrequencies } from "@/utils/equalizer";
 import { hapticLight, hapticMedium } from "@/utils/haptics";
+import { AudioEffects } from "./AudioEffects";
 
 interface EqualizerProps {
   equalizer: ReturnType<typeof useEqualizer>;
+  effects: ReturnType<typeof useAudioEffects>;
   onClose: () => void;
 }
 
-export function Equalizer({ equalizer, onClose }: EqualizerProps) {
+const CURVE_WIDTH = 300;
+const CURVE_HEIGHT = 72;
+const CURVE_RANGE_DB = 15;
+const CURVE_FREQUENCIES = createLogFrequencies(128);
+
+const FILTER_TYPE_LABELS: Record<EqualizerFilterType, string> = {
+  peaking: "Peak",
+  lowshelf: "Low shelf",
+  highshelf: "High shelf",
+  lowpass: "Low pass",
+  highpass: "High pass",
+  notch: "Notch",
+  bandpass: "Band pass",
+};
+
+const toCurvePath = (response: Float32Array): string =>
+  Array.from(response, (db, i) => {
+    const x = (i / (response.length - 1)) * CURVE_WIDTH;
+    const clamped = Math.max(-CURVE_RANGE_DB, Math.min(CURVE_RANGE_DB, db));
+    const y =
+      CURVE_HEIGHT / 2 - (clamped / CURVE_RANGE_DB) * (CURVE_HEIGHT / 2);
+    return `${i === 0 ? "M" : "L"}${x.toFixed(1)},${y.toFixed(1)}`;
+  }).join(" ");
+
+const downloadTextFile = (filename: string, text: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url));
+};
+
+function FrequencyResponseCurve({
+  equalizer,
+}: {
+  equalizer: ReturnType<typeof useEqualizer>;
+}) {
+  const { getFrequencyResponse, getCorrectionResponse, correction, isEnabled } =
+    equalizer;
+
+  // getFrequencyResponse changes identity whenever the bands change
+  const path = useMemo(
+    () => toCurvePath(getFrequencyResponse(CURVE_FREQUENCIES)),
+    [getFrequencyResponse],
+  );
+
+  const correctionPath = useMemo(() => {
+    const response = getCorrectionResponse(CURVE_FREQUENCIES);
+    return response ? toCurvePath(response) : null;
+  }, [getCorrectionResponse]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${CURVE_WIDTH} ${CURVE_HEIGHT}`}
+      className={`h-20 w-full transition-opacity ${isEnabled ? "" : "opacity-40"}`}
+      preserveAspectRatio="none"
+    >
+      <line
+        x1={0}
+        x2={CURVE_WIDTH}
+        y1={CURVE_HEIGHT / 2}
+        y2={CURVE_HEIGHT / 2}
+        stroke="rgba(255,255,255,0.15)"
+        strokeDasharray="4 4"
+      />
+      {correctionPath && (
+        <path
+          d={correctionPath}
+          fill="none"
+          stroke="rgba(255,255,255,0.35)"
+          strokeWidth={1.5}
+          strokeDasharray={correction?.enabled ? undefined : "3 3"}
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+      <path
+        d={path}
+        fill="none"
+        stroke="var(--color-accent)"
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+}
+
+export function Equalizer({ equalizer, effects, onClose }: EqualizerProps) {
   const [hoveredBand, setHoveredBand] = useState<number | null>(null);
   const [isAnimating, setIsAnimating] = useState(false);
+  const [selectedBand, setSelectedBand] = useState<number | null>(null);
+  const [presetName, setPresetName] = useState("");
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [showPasteForm, setShowPasteForm] = useState(false);
+  const [profileText, setProfileText] = useState("");
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { loudnessNormalization, setLoudnessNormalization } = useGlobalPlayer();
 
   useEffect(() => {
     if (!equalizer.isInitialized) {
@@ -32,9 +152,54 @@ export function Equalizer({ equalizer, onClose }: EqualizerProps) {
 
   const formatFrequency = (freq: number): string => {
     if (freq >= 1000) {
-      return `${freq / 1000}k`;
+      return `${Number((freq / 1000).toFixed(1))}k`;
+    }
+    return Math.round(freq).toString();
+  };
+
+  const activeCustomPreset = equalizer.customPresets.find(
+    (preset) => preset.name === equalizer.currentPreset,
+  );
+  const editingBand =
+    selectedBand !== null ? equalizer.bands[selectedBand] : undefined;
+
+  const handleSavePreset = async () => {
+    if (!presetName.trim()) return;
+    hapticMedium();
+    await equalizer.saveCustomPreset(presetName);
+    setPresetName("");
+    setShowSaveForm(false);
+  };
+
+  const handleImportProfile = async (name: string, text: string) => {
+    try {
+      setImportError(null);
+      await equalizer.importCorrectionProfile(name, text);
+      hapticMedium();
+      setProfileText("");
+      setShowPasteForm(false);
+    } catch (error) {
+      setImportError(
+        error instanceof Error ? error.message : "Failed to import profile",
+      );
     }
-    return freq.toString();
+  };
+
+  const handleProfileFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    await handleImportProfile(file.name.replace(/\.txt$/i, ""), text);
+  };
+
+  const handleExport = (includeCorrection: boolean) => {
+    hapticLight();
+    const name = includeCorrection
+      ? `${equalizer.correction?.name ?? "EQ"} + ${equalizer.currentPreset}`
+      : equalizer.currentPreset;
+    downloadTextFile(
+      `${name} ParametricEQ.txt`,
+      equalizer.exportProfile(includeCorrection),
+    );
   };
 
   const handlePresetChange = (preset: string) => {
@@ -157,6 +322,19 @@ export function Equalizer({ equalizer, onClose }: EqualizerProps) {
                           {preset.name}
                         </option>
                       ))}
+                      {equalizer.customPresets.length > 0 && (
+                        <optgroup label="My presets">
+                          {equalizer.customPresets.map((preset) => (
+                            <option
+                              key={preset.id}
+                              value={preset.name}
+                              className="bg-[var(--color-bg)] text-[var(--color-text)]"
+                            >
+                              {preset.name}
+                            </option>
+                          ))}
+                        </optgroup>
+                      )}
                       {equalizer.currentPreset === "Custom" && (
                         <option
                           value="Custom"
@@ -166,6 +344,62 @@ export function Equalizer({ equalizer, onClose }: EqualizerProps) {
                         </option>
                       )}
                     </select>
+                    {equalizer.canSavePresets && (
+                      <div className="mt-2 flex items-center gap-2">
+                        {showSaveForm ? (
+                          <>
+                            <input
+                              type="text"
+                              value={presetName}
+                              onChange={(e) => setPresetName(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") void handleSavePreset();
+                              }}
+                              placeholder="Preset name"
+                              maxLength={100}
+                              autoFocus
+                              className="min-w-0 flex-1 rounded-lg border border-[rgba(244,178,102,0.18)] bg-[rgba(18,26,38,0.92)] px-3 py-1.5 text-sm text-[var(--color-text)] focus:ring-2 focus:ring-[rgba(244,178,102,0.25)] focus:outline-none"
+                            />
+                            <button
+                              onClick={() => void handleSavePreset()}
+                              className="rounded-lg bg-[rgba(244,178,102,0.2)] px-3 py-1.5 text-xs font-medium text-[var(--color-accent)] transition hover:bg-[rgba(244,178,102,0.3)]"
+                            >
+                              Save
+                            </button>
+                          </>
+                        ) : (
+                          <button
+                            onClick={() => {
+                              setPresetName(activeCustomPreset?.name ?? "");
+                              setShowSaveForm(true);
+                            }}
+                            className="flex items-center gap-1.5 rounded-lg px-2 py-1 text-xs text-[var(--color-subtext)] transition hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)]"
+                          >
+                            <Save className="h-3.5 w-3.5" />
+                            Save as preset
+                          </button>
+                        )}
+                        {activeCustomPreset && !showSaveForm && (
+                          <button
+                            onClick={() => {
+                              hapticLight();
+                              equalizer.deleteCustomPreset(
+                                activeCustomPreset.id,
+                              );
+                            }}
+                            className="flex items-center gap-1.5 rounded-lg px-2 py-1 text-xs text-[var(--color-subtext)] transition hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)]"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                            Delete
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Combined frequency response */}
+                  <div className="border-b border-[rgba(244,178,102,0.12)] px-4 pt-3 pb-2">
+                    <FrequencyResponseCurve equalizer={equalizer} />
                   </div>
 
                   {/* Compact Frequency Bands */}
@@ -173,12 +407,16 @@ export function Equalizer({ equalizer, onClose }: EqualizerProps) {
                     <div className="flex items-end justify-between gap-1.5 sm:gap-2 md:gap-3">
                       {equalizer.bands.map((band, index) => {
                         const percentage = ((band.gain + 12) / 24) * 100;
-                        const isHovered = hoveredBand === index;
+                        const isHovered =
+                          hoveredBand === index || selectedBand === index;
                         const intensity = Math.abs(band.gain) / 12;
+                        const usesGain = EQ_GAIN_FILTER_TYPES.includes(
+                          band.type,
+                        );
 
                         return (
                           <div
-                            key={band.frequency}
+                            key={index}
                             className="group relative flex flex-1 flex-col items-center gap-2"
                             onMouseEnter={() => setHoveredBand(index)}
                             onMouseLeave={() => setHoveredBand(null)}
@@ -218,7 +456,7 @@ export function Equalizer({ equalizer, onClose }: EqualizerProps) {
                                     parseFloat(e.target.value),
                                   );
                                 }}
-                                disabled={!equalizer.isEnabled}
+                                disabled={!equalizer.isEnabled || !usesGain}
                                 className="vertical-slider absolute inset-0 h-full w-full cursor-pointer appearance-none bg-transparent transition-opacity"
                                 style={{
                                   writingMode: "vertical-lr" as const,
@@ -292,28 +530,321 @@ export function Equalizer({ equalizer, onClose }: EqualizerProps) {
                               </div>
                             </div>
 
-                            {/* Frequency label */}
-                            <span
+                            {/* Frequency label - click to edit the band */}
+                            <button
+                              onClick={() =>
+                                setSelectedBand(
+                                  selectedBand === index ? null : index,
+                                )
+                              }
                               className={`text-[10px] font-medium transition-all duration-200 sm:text-xs ${
                                 isHovered
                                   ? "scale-110 text-[var(--color-text)]"
                                   : "text-[var(--color-subtext)]"
                               }`}
+                              title="Edit band"
                             >
                               {formatFrequency(band.frequency)}
-                            </span>
+                            </button>
                           </div>
                         );
                       })}
                     </div>
 
+                    {/* Band editor */}
+                    {editingBand && selectedBand !== null && (
+                      <div className="mt-4 grid grid-cols-[1fr_1fr_1fr_auto] items-end gap-2 rounded-lg border border-[rgba(244,178,102,0.12)] bg-black/20 p-3">
+                        <label className="text-[10px] tracking-wider text-[var(--color-subtext)] uppercase">
+                          Freq (Hz)
+                          <input
+                            type="number"
+                            min={EQ_MIN_FREQUENCY}
+                            max={EQ_MAX_FREQUENCY}
+                            value={Math.round(editingBand.frequency)}
+                            onChange={(e) => {
+                              const frequency = Number(e.target.value);
+                              if (
+                                frequency >= EQ_MIN_FREQUENCY &&
+                                frequency <= EQ_MAX_FREQUENCY
+                              ) {
+                                equalizer.updateBandParams(selectedBand, {
+                                  frequency,
+                                });
+                              }
+                            }}
+                            className="mt-1 w-full rounded-md border border-[rgba(244,178,102,0.18)] bg-[rgba(18,26,38,0.92)] px-2 py-1 text-sm text-[var(--color-text)] normal-case focus:outline-none"
+                          />
+                        </label>
+                        <label className="text-[10px] tracking-wider text-[var(--color-subtext)] uppercase">
+                          Q
+                          <input
+                            type="number"
+                            min={EQ_MIN_Q}
+                            max={EQ_MAX_Q}
+                            step={0.1}
+                            value={editingBand.Q}
+                            onChange={(e) => {
+                              const Q = Number(e.target.value);
+                              if (Q >= EQ_MIN_Q && Q <= EQ_MAX_Q) {
+                                equalizer.updateBandParams(selectedBand, { Q });
+                              }
+                            }}
+                            className="mt-1 w-full rounded-md border border-[rgba(244,178,102,0.18)] bg-[rgba(18,26,38,0.92)] px-2 py-1 text-sm text-[var(--color-text)] normal-case focus:outline-none"
+                          />
+                        </label>
+                        <label className="text-[10px] tracking-wider text-[var(--color-subtext)] uppercase">
+                          Type
+                          <select
+                            value={editingBand.type}
+                            onChange={(e) =>
+                              equalizer.updateBandParams(selectedBand, {
+                                type: e.target.value as EqualizerFilterType,
+                              })
+                            }
+                            className="mt-1 w-full rounded-md border border-[rgba(244,178,102,0.18)] bg-[rgba(18,26,38,0.92)] px-2 py-1 text-sm text-[var(--color-text)] normal-case focus:outline-none"
+                          >
+                            {EQ_FILTER_TYPES.map((type) => (
+                              <option key={type} value={type}>
+                                {FILTER_TYPE_LABELS[type]}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                        <button
+                          onClick={() => {
+                            hapticLight();
+                            equalizer.removeBand(selectedBand);
+                            setSelectedBand(null);
+                          }}
+                          disabled={equalizer.bands.length <= 1}
+                          className="rounded-md p-1.5 text-[var(--color-subtext)] transition hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)] disabled:opacity-40"
+                          title="Remove band"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    )}
+
                     {/* Subtle instructions */}
-                    <div className="mt-6 text-center">
+                    <div className="mt-6 flex items-center justify-between gap-2">
                       <p className="text-xs text-[var(--color-muted)]">
-                        Drag sliders to adjust • Range: -12dB to +12dB
+                        Drag sliders to adjust • Click a frequency to edit
                       </p>
+                      <button
+                        onClick={() => {
+                          hapticLight();
+                          equalizer.addBand();
+                        }}
+                        disabled={equalizer.bands.length >= equalizer.maxBands}
+                        className="flex shrink-0 items-center gap-1 rounded-lg px-2 py-1 text-xs text-[var(--color-subtext)] transition hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)] disabled:opacity-40"
+                      >
+                        <Plus className="h-3.5 w-3.5" />
+                        Add band
+                      </button>
                     </div>
                   </div>
+
+                  {/* Device correction (AutoEQ / EqualizerAPO) */}
+                  <div className="border-t border-[rgba(244,178,102,0.12)] p-4">
+                    <div className="mb-3 flex items-center justify-between">
+                      <label className="text-xs font-medium tracking-wider text-[var(--color-subtext)] uppercase">
+                        Device Correction
+                      </label>
+                      {equalizer.correction && (
+                        <div className="flex items-center gap-1">
+                          <button
+                            onClick={() => {
+                              hapticLight();
+                              equalizer.toggleCorrection();
+                            }}
+                            className={`rounded-lg p-1.5 transition-all active:scale-95 ${
+                              equalizer.correction.enabled
+                                ? "bg-[rgba(244,178,102,0.2)] text-[var(--color-accent)]"
+                                : "text-[var(--color-subtext)] hover:bg-[rgba(244,178,102,0.12)]"
+                            }`}
+                            title="Toggle device correction"
+                          >
+                            <Power className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => {
+                              hapticLight();
+                              equalizer.clearCorrection();
+                            }}
+                            className="rounded-lg p-1.5 text-[var(--color-subtext)] transition hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)]"
+                            title="Remove correction profile"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+
+                    {equalizer.correction ? (
+                      <p
+                        className={`text-sm text-[var(--color-text)] transition-opacity ${
+                          equalizer.correction.enabled ? "" : "opacity-40"
+                        }`}
+                      >
+                        <span className="font-medium">
+                          {equalizer.correction.name}
+                        </span>
+                        <span className="ml-2 text-xs text-[var(--color-subtext)]">
+                          {equalizer.correction.bands.length} filters •{" "}
+                          {equalizer.correction.preamp.toFixed(1)} dB preamp
+                        </span>
+                      </p>
+                    ) : showPasteForm ? (
+                      <div className="space-y-2">
+                        <textarea
+                          value={profileText}
+                          onChange={(e) => setProfileText(e.target.value)}
+                          placeholder={
+                            "Preamp: -6.2 dB\nFilter 1: ON LSC Fc 105 Hz Gain 5.5 dB Q 0.70"
+                          }
+                          rows={4}
+                          autoFocus
+                          className="w-full resize-none rounded-lg border border-[rgba(244,178,102,0.18)] bg-[rgba(18,26,38,0.92)] px-3 py-2 font-mono text-xs text-[var(--color-text)] focus:ring-2 focus:ring-[rgba(244,178,102,0.25)] focus:outline-none"
+                        />
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => {
+                              setShowPasteForm(false);
+                              setImportError(null);
+                            }}
+                            className="rounded-lg px-3 py-1.5 text-xs text-[var(--color-subtext)] transition hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)]"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            onClick={() =>
+                              void handleImportProfile(
+                                "Pasted profile",
+                                profileText,
+                              )
+                            }
+                            disabled={!profileText.trim()}
+                            className="rounded-lg bg-[rgba(244,178,102,0.2)] px-3 py-1.5 text-xs font-medium text-[var(--color-accent)] transition hover:bg-[rgba(244,178,102,0.3)] disabled:opacity-40"
+                          >
+                            Import
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => fileInputRef.current?.click()}
+                          className="flex items-center gap-1.5 rounded-lg px-2 py-1 text-xs text-[var(--color-subtext)] transition hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)]"
+                        >
+                          <Upload className="h-3.5 w-3.5" />
+                          Import file
+                        </button>
+                        <button
+                          onClick={() => setShowPasteForm(true)}
+                          className="rounded-lg px-2 py-1 text-xs text-[var(--color-subtext)] transition hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)]"
+                        >
+                          Paste text
+                        </button>
+                        <input
+                          ref={fileInputRef}
+                          type="file"
+                          accept=".txt,text/plain"
+                          className="hidden"
+                          onChange={(e) => {
+                            void handleProfileFile(e.target.files?.[0]);
+                            e.target.value = "";
+                          }}
+                        />
+                      </div>
+                    )}
+
+                    {importError && (
+                      <p className="mt-2 text-xs text-[var(--color-danger)]">
+                        {importError}
+                      </p>
+                    )}
+
+                    <div className="mt-3 flex items-center gap-2">
+                      <button
+                        onClick={() => handleExport(false)}
+                        className="flex items-center gap-1.5 rounded-lg px-2 py-1 text-xs text-[var(--color-subtext)] transition hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)]"
+                      >
+                        <Download className="h-3.5 w-3.5" />
+                        Export EQ
+                      </button>
+                      {equalizer.correction?.enabled && (
+                        <button
+                          onClick={() => handleExport(true)}
+                          className="flex items-center gap-1.5 rounded-lg px-2 py-1 text-xs text-[var(--color-subtext)] transition hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)]"
+                        >
+                          <Download className="h-3.5 w-3.5" />
+                          Export with correction
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Loudness Normalization */}
+                  <div className="border-t border-[rgba(244,178,102,0.12)] bg-black/15 p-4">
+                    <div className="mb-3 flex items-center justify-between">
+                      <label className="text-xs font-medium tracking-wider text-[var(--color-subtext)] uppercase">
+                        Loudness Normalization
+                      </label>
+                      <button
+                        onClick={() => {
+                          hapticLight();
+                          setLoudnessNormalization({
+                            enabled: !loudnessNormalization.enabled,
+                          });
+                        }}
+                        className={`rounded-lg p-1.5 transition-all active:scale-95 ${
+                          loudnessNormalization.enabled
+                            ? "bg-[rgba(244,178,102,0.2)] text-[var(--color-accent)]"
+                            : "text-[var(--color-subtext)] hover:bg-[rgba(244,178,102,0.12)]"
+                        }`}
+                        title="Toggle loudness normalization"
+                      >
+                        <Power className="h-4 w-4" />
+                      </button>
+                    </div>
+                    <div
+                      className={`grid grid-cols-2 gap-2 transition-opacity ${
+                        loudnessNormalization.enabled ? "" : "opacity-40"
+                      }`}
+                    >
+                      <select
+                        value={loudnessNormalization.mode}
+                        disabled={!loudnessNormalization.enabled}
+                        onChange={(e) =>
+                          setLoudnessNormalization({
+                            mode: e.target.value as NormalizationMode,
+                          })
+                        }
+                        className="cursor-pointer rounded-lg border border-[rgba(244,178,102,0.18)] bg-[rgba(18,26,38,0.92)] px-3 py-2 text-sm text-[var(--color-text)] focus:ring-2 focus:ring-[rgba(244,178,102,0.25)] focus:outline-none"
+                      >
+                        <option value="track">Track</option>
+                        <option value="album">Album</option>
+                      </select>
+                      <select
+                        value={loudnessNormalization.targetLufs}
+                        disabled={!loudnessNormalization.enabled}
+                        onChange={(e) =>
+                          setLoudnessNormalization({
+                            targetLufs: Number(e.target.value),
+                          })
+                        }
+                        className="cursor-pointer rounded-lg border border-[rgba(244,178,102,0.18)] bg-[rgba(18,26,38,0.92)] px-3 py-2 text-sm text-[var(--color-text)] focus:ring-2 focus:ring-[rgba(244,178,102,0.25)] focus:outline-none"
+                      >
+                        {NORMALIZATION_TARGET_OPTIONS.map((lufs) => (
+                          <option key={lufs} value={lufs}>
+                            {lufs} LUFS
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  <AudioEffects effects={effects} />
                 </>
               )}
             </div>
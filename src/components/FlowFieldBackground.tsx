@@ -2,8 +2,10 @@
 
 "use client";
 
+import { analyzeAudio, BeatTracker } from "@/utils/audioAnalysis";
 import {
   ensureConnectionChain,
+  getAudioConnectionKey,
   getOrCreateAudioConnection,
   releaseAudioConnection,
 } from "@/utils/audioContextManager";
@@ -12,11 +14,13 @@ import { FlowFieldRenderer } from "./visualizers/FlowFieldRenderer";
 
 interface FlowFieldBackgroundProps {
   audioElement: HTMLAudioElement | null;
+  tempoHint?: number | null; // Known BPM of the current track
   onRendererReady?: (renderer: FlowFieldRenderer | null) => void;
 }
 
 export function FlowFieldBackground({
   audioElement,
+  tempoHint = null,
   onRendererReady,
 }: FlowFieldBackgroundProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -27,6 +31,16 @@ export function FlowFieldBackground({
   const sourceNodeRef = useRef<MediaElementAudioSourceNode | null>(null);
   const connectedAudioElementRef = useRef<HTMLAudioElement | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [beatTracker] = useState(() => new BeatTracker());
+  const tempoHintRef = useRef(tempoHint);
+  // The shared connection's key stays the same when the player moves
+  // playback to its other element between tracks
+  const connectionElement = audioElement && getAudioConnectionKey(audioElement);
+
+  useEffect(() => {
+    tempoHintRef.current = tempoHint;
+    beatTracker.setTempoHint(tempoHint);
+  }, [beatTracker, tempoHint]);
 
   // Track play/pause state via events
   useEffect(() => {
@@ -43,22 +57,29 @@ export function FlowFieldBackground({
       console.log("[FlowFieldBackground] Audio pause event");
       setIsPlaying(false);
     };
+    // New source, new track: the beat has to be found again
+    const handleLoadStart = () => {
+      beatTracker.reset();
+      beatTracker.setTempoHint(tempoHintRef.current);
+    };
 
     // Set initial state
     setIsPlaying(!audioElement.paused);
 
     audioElement.addEventListener("play", handlePlay);
     audioElement.addEventListener("pause", handlePause);
+    audioElement.addEventListener("loadstart", handleLoadStart);
 
     return () => {
       audioElement.removeEventListener("play", handlePlay);
       audioElement.removeEventListener("pause", handlePause);
+      audioElement.removeEventListener("loadstart", handleLoadStart);
     };
-  }, [audioElement]);
+  }, [audioElement, beatTracker]);
 
   // Initialize Web Audio API
   useEffect(() => {
-    if (!audioElement) {
+    if (!connectionElement) {
       // Clean up refs when audio element is removed
       if (connectedAudioElementRef.current) {
         releaseAudioConnection(connectedAudioElementRef.current);
@@ -71,7 +92,7 @@ export function FlowFieldBackground({
     }
 
     // Get or create shared audio connection
-    const connection = getOrCreateAudioConnection(audioElement);
+    const connection = getOrCreateAudioConnection(connectionElement);
     if (!connection) {
       sourceNodeRef.current = null;
       analyserRef.current = null;
@@ -92,7 +113,7 @@ export function FlowFieldBackground({
     audioContextRef.current = connection.audioContext;
     analyserRef.current = analyser;
     sourceNodeRef.current = connection.sourceNode;
-    connectedAudioElementRef.current = audioElement;
+    connectedAudioElementRef.current = connectionElement;
 
     // Ensure connection chain is complete (critical for playback)
     // Note: This is called when the component mounts/updates, which might be
@@ -116,7 +137,7 @@ export function FlowFieldBackground({
       audioContextRef.current = null;
       connectedAudioElementRef.current = null;
     };
-  }, [audioElement]);
+  }, [connectionElement]);
 
   // Initialize renderer and handle resize
   useEffect(() => {
@@ -169,9 +190,17 @@ export function FlowFieldBackground({
     const renderer = rendererRef.current;
     const dataArray = new Uint8Array(analyser.frequencyBinCount);
 
+    const sampleRate = audioContextRef.current?.sampleRate ?? 44100;
+
     const animate = () => {
       analyser.getByteFrequencyData(dataArray);
-      renderer.render(dataArray, dataArray.length);
+      const { beat } = analyzeAudio(
+        dataArray,
+        sampleRate,
+        analyser.fftSize,
+        beatTracker,
+      );
+      renderer.render(dataArray, dataArray.length, beat);
       animationFrameRef.current = requestAnimationFrame(animate);
     };
 
@@ -188,7 +217,7 @@ export function FlowFieldBackground({
         animationFrameRef.current = null;
       }
     };
-  }, [isPlaying]); // Re-run when play/pause state changes
+  }, [beatTracker, isPlaying]); // Re-run when play/pause state changes
 
   return (
     <canvas
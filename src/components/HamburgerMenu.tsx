@@ -20,7 +20,9 @@ import Image from "next/image";
 import { useMenu } from "@/contexts/MenuContext";
 import { hapticLight, hapticMedium } from "@/utils/haptics";
 import { springPresets } from "@/utils/spring-animations";
+import { clearOfflineData } from "@/services/offline";
 import { api } from "@/trpc/react";
+import { logger } from "@/utils/logger";
 
 interface MenuItem {
   id: string;
@@ -43,6 +45,9 @@ export default function HamburgerMenu() {
   const handleSignOut = async () => {
     hapticMedium();
     closeMenu();
+    await clearOfflineData().catch((error) => {
+      logger.warn("[HamburgerMenu] Failed to clear offline data:", error);
+    });
     await signOut({ callbackUrl: "/" });
   };
 
@@ -4,7 +4,9 @@
 
 import { LogOut, User } from "lucide-react";
 import { signOut, useSession } from "next-auth/react";
+import { clearOfflineData } from "@/services/offline";
 import { api } from "@/trpc/react";
+import { logger } from "@/utils/logger";
 import Image from "next/image";
 import Link from "next/link";
 import { useEffect, useRef, useState } from "react";
@@ -53,6 +55,9 @@ export default function Header() {
 
   const handleSignOut = async () => {
     setShowUserMenu(false);
+    await clearOfflineData().catch((error) => {
+      logger.warn("[Header] Failed to clear offline data:", error);
+    });
     await signOut({ callbackUrl: "/" });
   };
 
@@ -44,6 +44,10 @@ import {
 } from "lucide-react";
 import Image from "next/image";
 import { useCallback, useEffect, useRef, useState } from "react";
+import { DevicesMenu } from "./DevicesMenu";
+import { QualityMenu } from "./QualityMenu";
+import { StreamFallbackBadge } from "./StreamFallbackBadge";
+import { CuePointsMenu, ProgressMarkers } from "./TrackMarkers";
 
 // Dynamic import for visualizer - DISABLED (keeping for future use)
 // const AudioVisualizer = dynamic(
@@ -110,7 +114,11 @@ export default function MobilePlayer(props: MobilePlayerProps) {
   } = props;
 
   // Get audio element from context
-  const { audioElement: contextAudioElement } = useGlobalPlayer();
+  const {
+    audioElement: contextAudioElement,
+    trackBpm,
+    reportTempoEstimate,
+  } = useGlobalPlayer();
 
   // Get session and preferences for visualizer state
   const { data: session } = useSession();
@@ -267,7 +275,10 @@ export default function MobilePlayer(props: MobilePlayerProps) {
   }, [isAuthenticated]);
 
   // Audio-reactive background effects (respects visualizer preference)
-  useAudioReactiveBackground(audioElement, isPlaying, visualizerEnabled);
+  useAudioReactiveBackground(audioElement, isPlaying, visualizerEnabled, {
+    tempoHint: trackBpm,
+    onTempoEstimate: reportTempoEstimate,
+  });
 
   const progress = duration > 0 ? (currentTime / duration) * 100 : 0;
   const displayTime = isSeeking ? seekTime : currentTime;
@@ -459,6 +470,7 @@ export default function MobilePlayer(props: MobilePlayerProps) {
                 <p className="truncate text-sm text-[var(--color-subtext)]">
                   {currentTrack.artist.name}
                 </p>
+                <StreamFallbackBadge className="mt-0.5" />
               </div>
 
               {/* Controls */}
@@ -707,6 +719,7 @@ export default function MobilePlayer(props: MobilePlayerProps) {
                   >
                     {currentTrack.artist.name}
                   </motion.p>
+                  <StreamFallbackBadge className="mt-2" />
                 </div>
 
                 {/* Progress Bar */}
@@ -729,6 +742,7 @@ export default function MobilePlayer(props: MobilePlayerProps) {
                         width: `${isSeeking ? (seekTime / duration) * 100 : progress}%`,
                       }}
                     />
+                    <ProgressMarkers duration={duration} />
                     <motion.div
                       className="absolute top-1/2 h-5 w-5 -translate-y-1/2 rounded-full bg-white shadow-lg"
                       style={{
@@ -951,6 +965,15 @@ export default function MobilePlayer(props: MobilePlayerProps) {
                     </motion.button>
                   )}
 
+                  {/* Cue Points & A-B Loop */}
+                  <CuePointsMenu size="touch" />
+
+                  {/* Stream Quality */}
+                  <QualityMenu size="touch" />
+
+                  {/* Devices & Remote Control */}
+                  <DevicesMenu size="touch" />
+
                   {/* Add to Playlist */}
                   <div className="relative">
                     <motion.button
@@ -0,0 +1,93 @@
+// File: src/components/OfflineDownloadButton.tsx
+
+"use client";
+
+import {
+  useOfflineDownloads,
+  type OfflineTarget,
+} from "@/contexts/OfflineDownloadsContext";
+import { useToast } from "@/contexts/ToastContext";
+import { getOfflineCollectionKey } from "@/services/offline";
+import { hapticLight } from "@/utils/haptics";
+import { CircleCheck, Download, LoaderCircle } from "lucide-react";
+import { useState } from "react";
+
+/**
+ * Save a playlist, album or the favorites for offline listening, show how
+ * far the download got, and remove it again
+ */
+export function OfflineDownloadButton({
+  target,
+  className = "btn-secondary flex items-center gap-2 text-sm",
+}: {
+  target: OfflineTarget;
+  className?: string;
+}) {
+  const {
+    isSupported,
+    collections,
+    downloadedTrackIds,
+    progress,
+    saveForOffline,
+    removeFromOffline,
+  } = useOfflineDownloads();
+  const { showToast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!isSupported) return null;
+
+  const key = getOfflineCollectionKey(
+    target.kind,
+    target.kind === "favorites" ? null : target.id,
+  );
+  const collection = collections.find((c) => c.key === key);
+  const total = collection?.tracks.length ?? 0;
+  const downloaded =
+    collection?.tracks.filter((track) => downloadedTrackIds.has(track.id))
+      .length ?? 0;
+  const isDownloading =
+    !!collection && downloaded < total && !!progress && !progress.stoppedReason;
+
+  const handleClick = () => {
+    hapticLight();
+    if (collection) {
+      if (confirm(`Remove "${collection.name}" from your downloads?`)) {
+        void removeFromOffline(key);
+      }
+      return;
+    }
+
+    setIsSaving(true);
+    saveForOffline(target)
+      .catch((error) => {
+        console.error("[OfflineDownloadButton] Failed to save:", error);
+        showToast("Couldn't save for offline listening", "error");
+      })
+      .finally(() => setIsSaving(false));
+  };
+
+  let label = "Download";
+  if (isSaving) label = "Saving...";
+  else if (collection && downloaded >= total) label = "Downloaded";
+  else if (collection) label = `${downloaded}/${total} downloaded`;
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={isSaving}
+      className={className}
+      title={
+        collection ? "Remove from downloads" : "Download for offline listening"
+      }
+    >
+      {isSaving || isDownloading ? (
+        <LoaderCircle className="h-5 w-5 animate-spin" />
+      ) : collection ? (
+        <CircleCheck className="h-5 w-5 text-[var(--color-accent)]" />
+      ) : (
+        <Download className="h-5 w-5" />
+      )}
+      <span>{label}</span>
+    </button>
+  );
+}
@@ -0,0 +1,198 @@
+// File: src/components/OfflineDownloadsPanel.tsx
+
+"use client";
+
+import { EmptyState } from "@/components/EmptyState";
+import EnhancedTrackCard from "@/components/EnhancedTrackCard";
+import { AUDIO_QUALITIES } from "@/config/player";
+import { useGlobalPlayer } from "@/contexts/AudioPlayerContext";
+import { useOfflineDownloads } from "@/contexts/OfflineDownloadsContext";
+import type { AudioQuality, OfflineCollection } from "@/types";
+import { AUDIO_QUALITY_LABELS } from "@/utils/audioQuality";
+import { hapticLight } from "@/utils/haptics";
+import {
+  ChevronDown,
+  ChevronUp,
+  Download,
+  Trash2,
+  WifiOff,
+} from "lucide-react";
+import Image from "next/image";
+import { useState } from "react";
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+/**
+ * Library tab listing what's saved for offline listening, with storage use
+ * and the quality new downloads are made at
+ */
+export function OfflineDownloadsPanel() {
+  const player = useGlobalPlayer();
+  const {
+    isSupported,
+    isOnline,
+    collections,
+    downloadedTrackIds,
+    progress,
+    storage,
+    downloadQuality,
+    setDownloadQuality,
+    removeFromOffline,
+  } = useOfflineDownloads();
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  if (!isSupported) {
+    return (
+      <EmptyState
+        icon={<Download className="h-12 w-12 md:h-16 md:w-16" />}
+        title="Downloads aren't available"
+        description="This browser can't store music for offline listening"
+      />
+    );
+  }
+
+  const handleRemove = (collection: OfflineCollection) => {
+    hapticLight();
+    if (confirm(`Remove "${collection.name}" from your downloads?`)) {
+      void removeFromOffline(collection.key);
+    }
+  };
+
+  return (
+    <div className="grid gap-4">
+      {!isOnline && (
+        <div className="flex items-center gap-2 rounded-lg border border-[rgba(244,178,102,0.18)] bg-[rgba(244,178,102,0.08)] px-4 py-3 text-sm text-[var(--color-text)]">
+          <WifiOff className="h-4 w-4 flex-shrink-0" />
+          <span>You&apos;re offline. Downloaded music is still playable.</span>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-[var(--color-subtext)]">
+        <div>
+          {storage && (
+            <span>
+              {formatBytes(storage.downloadedBytes)} downloaded
+              {storage.usage !== null && storage.quota
+                ? ` · ${formatBytes(storage.usage)} of ${formatBytes(storage.quota)} used`
+                : ""}
+            </span>
+          )}
+          {progress && (
+            <span className="block text-xs">
+              {progress.stoppedReason === "storage_full"
+                ? "Paused: not enough storage left"
+                : progress.stoppedReason === "offline"
+                  ? "Paused until you're back online"
+                  : `Downloading ${progress.completed + progress.failed + 1} of ${progress.total}`}
+            </span>
+          )}
+        </div>
+        <label className="flex items-center gap-2">
+          <span>Download quality</span>
+          <select
+            value={downloadQuality}
+            onChange={(e) => setDownloadQuality(e.target.value as AudioQuality)}
+            className="cursor-pointer rounded-lg border border-[rgba(244,178,102,0.18)] bg-[rgba(18,26,38,0.92)] px-3 py-1.5 text-sm text-[var(--color-text)] focus:border-[rgba(244,178,102,0.4)] focus:outline-none"
+          >
+            {AUDIO_QUALITIES.map((quality) => (
+              <option
+                key={quality}
+                value={quality}
+                className="bg-[var(--color-bg)] text-[var(--color-text)]"
+              >
+                {AUDIO_QUALITY_LABELS[quality]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {collections.length > 0 ? (
+        <div className="grid gap-2 md:gap-3">
+          {collections.map((collection) => {
+            const downloaded = collection.tracks.filter((track) =>
+              downloadedTrackIds.has(track.id),
+            );
+            const isExpanded = expandedKey === collection.key;
+            return (
+              <div
+                key={collection.key}
+                className="rounded-lg border border-[rgba(244,178,102,0.12)] bg-black/15"
+              >
+                <div className="flex items-center gap-3 p-3">
+                  <button
+                    onClick={() =>
+                      setExpandedKey(isExpanded ? null : collection.key)
+                    }
+                    className="flex min-w-0 flex-1 items-center gap-3 text-left"
+                  >
+                    {collection.coverImage ? (
+                      <Image
+                        src={collection.coverImage}
+                        alt={collection.name}
+                        width={48}
+                        height={48}
+                        className="h-12 w-12 flex-shrink-0 rounded-md object-cover"
+                      />
+                    ) : (
+                      <div className="flex h-12 w-12 flex-shrink-0 items-center justify-center rounded-md bg-[rgba(244,178,102,0.12)]">
+                        <Download className="h-5 w-5 text-[var(--color-accent)]" />
+                      </div>
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate font-medium text-[var(--color-text)]">
+                        {collection.name}
+                      </p>
+                      <p className="text-xs text-[var(--color-subtext)] capitalize">
+                        {collection.kind} · {downloaded.length}/
+                        {collection.tracks.length} tracks
+                      </p>
+                    </div>
+                    {isExpanded ? (
+                      <ChevronUp className="h-5 w-5 text-[var(--color-subtext)]" />
+                    ) : (
+                      <ChevronDown className="h-5 w-5 text-[var(--color-subtext)]" />
+                    )}
+                  </button>
+                  <button
+                    onClick={() => handleRemove(collection)}
+                    className="touch-target text-[var(--color-subtext)] transition hover:text-red-400"
+                    title="Remove from downloads"
+                  >
+                    <Trash2 className="h-5 w-5" />
+                  </button>
+                </div>
+                {isExpanded && (
+                  <div className="grid gap-2 border-t border-[rgba(244,178,102,0.12)] p-3">
+                    {(isOnline ? collection.tracks : downloaded).map(
+                      (track) => (
+                        <EnhancedTrackCard
+                          key={track.id}
+                          track={track}
+                          onPlay={player.play}
+                          onAddToQueue={player.addToQueue}
+                        />
+                      ),
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <EmptyState
+          icon={<Download className="h-12 w-12 md:h-16 md:w-16" />}
+          title="No downloads yet"
+          description="Download playlists, albums or your favorites to listen without a connection"
+        />
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@
 
 import { STORAGE_KEYS } from "@/config/storage";
 import { useGlobalPlayer } from "@/contexts/AudioPlayerContext";
+import { useAudioEffects } from "@/hooks/useAudioEffects";
 import { useEqualizer } from "@/hooks/useEqualizer";
 import { useIsMobile } from "@/hooks/useMediaQuery";
 import { api } from "@/trpc/react";
@@ -52,6 +53,7 @@ export default function PersistentPlayer() {
 
   // Initialize equalizer hook (persists across panel open/close)
   const equalizer = useEqualizer(player.audioElement);
+  const audioEffects = useAudioEffects(player.audioElement);
 
   // Initialize state from database preferences, with fallback to false
   const [showQueue, setShowQueue] = useState(false);
@@ -91,6 +93,10 @@ export default function PersistentPlayer() {
     player.audioElement,
     player.isPlaying,
     visualizerEnabled,
+    {
+      tempoHint: player.trackBpm,
+      onTempoEstimate: player.reportTempoEstimate,
+    },
   );
 
   // Extract colors from album art when track changes - DISABLED (visualizer is disabled)
@@ -177,6 +183,15 @@ export default function PersistentPlayer() {
     onToggleShuffle: player.toggleShuffle,
     onCycleRepeat: player.cycleRepeatMode,
     onPlaybackRateChange: player.setPlaybackRate,
+    crossfadeDuration: player.crossfadeDuration,
+    onCrossfadeChange: player.setCrossfadeDuration,
+    gaplessPlayback: player.gaplessPlayback,
+    onGaplessPlaybackChange: player.setGaplessPlayback,
+    sleepTimer: player.sleepTimer,
+    sleepFadeSeconds: player.sleepFadeSeconds,
+    onStartSleepTimer: player.startSleepTimer,
+    onCancelSleepTimer: player.cancelSleepTimer,
+    onSleepFadeChange: player.setSleepFadeSeconds,
     onSkipForward: player.skipForward,
     onSkipBackward: player.skipBackward,
     onToggleQueue: () => setShowQueue(!showQueue),
@@ -212,6 +227,10 @@ export default function PersistentPlayer() {
               onRemove={player.removeFromQueue}
               onClear={player.clearQueue}
               onReorder={player.reorderQueue}
+              onUndo={player.undoQueueEdit}
+              onRedo={player.redoQueueEdit}
+              canUndo={player.canUndoQueueEdit}
+              canRedo={player.canRedoQueueEdit}
               onPlayFrom={player.playFromQueue}
               onSaveAsPlaylist={player.saveQueueAsPlaylist}
               onAddSmartTracks={player.addSmartTracks}
@@ -281,6 +300,10 @@ export default function PersistentPlayer() {
               onRemove={player.removeFromQueue}
               onClear={player.clearQueue}
               onReorder={player.reorderQueue}
+              onUndo={player.undoQueueEdit}
+              onRedo={player.redoQueueEdit}
+              canUndo={player.canUndoQueueEdit}
+              canRedo={player.canRedoQueueEdit}
               onPlayFrom={player.playFromQueue}
               onSaveAsPlaylist={player.saveQueueAsPlaylist}
               onAddSmartTracks={player.addSmartTracks}
@@ -295,6 +318,7 @@ export default function PersistentPlayer() {
       {showEqualizer && (
         <Equalizer
           equalizer={equalizer}
+          effects={audioEffects}
           onClose={() => setShowEqualizer(false)}
         />
       )}
@@ -303,6 +327,7 @@ export default function PersistentPlayer() {
       {player.currentTrack && visualizerEnabled && (
         <FlowFieldBackground
           audioElement={player.audioElement}
+          tempoHint={player.trackBpm}
           onRendererReady={setRenderer}
         />
       )}
@@ -2,18 +2,34 @@
 
 "use client";
 
-import { PLAYBACK_RATES } from "@/config/player";
+import {
+  CROSSFADE_OPTIONS,
+  PLAYBACK_RATES,
+  SLEEP_FADE_OPTIONS,
+  SLEEP_TIMER_OPTIONS,
+} from "@/config/player";
 import { useKeyboardShortcuts } from "@/hooks/useKeyboardShortcuts";
 import { useGlobalPlayer } from "@/contexts/AudioPlayerContext";
 import { api } from "@/trpc/react";
-import type { Track } from "@/types";
+import type { SleepTimerMode, SleepTimerState, Track } from "@/types";
 import { hapticLight, hapticMedium, hapticSuccess } from "@/utils/haptics";
 import { formatTime } from "@/utils/time";
 import { useSession } from "next-auth/react";
-import { Heart, Layers, ListPlus, Maximize2, Minimize2 } from "lucide-react";
+import {
+  Heart,
+  Layers,
+  ListPlus,
+  Maximize2,
+  Minimize2,
+  Moon,
+} from "lucide-react";
 import Image from "next/image";
 import { useRef, useState } from "react";
 import { AddToPlaylistModal } from "./AddToPlaylistModal";
+import { DevicesMenu } from "./DevicesMenu";
+import { QualityMenu } from "./QualityMenu";
+import { StreamFallbackBadge } from "./StreamFallbackBadge";
+import { CuePointsMenu, ProgressMarkers } from "./TrackMarkers";
 
 interface PlayerProps {
   currentTrack: Track | null;
@@ -36,6 +52,18 @@ interface PlayerProps {
   onToggleShuffle: () => void;
   onCycleRepeat: () => void;
   onPlaybackRateChange: (rate: number) => void;
+  crossfadeDuration?: number;
+  onCrossfadeChange?: (seconds: number) => void;
+  gaplessPlayback?: boolean;
+  onGaplessPlaybackChange?: (enabled: boolean) => void;
+  sleepTimer?: SleepTimerState | null;
+  sleepFadeSeconds?: number;
+  onStartSleepTimer?: (
+    mode: SleepTimerMode,
+    options?: { minutes?: number; fadeSeconds?: number },
+  ) => void;
+  onCancelSleepTimer?: () => void;
+  onSleepFadeChange?: (seconds: number) => void;
   onSkipForward: () => void;
   onSkipBackward: () => void;
   onToggleQueue?: () => void;
@@ -66,6 +94,15 @@ export default function MaturePlayer({
   onToggleShuffle,
   onCycleRepeat,
   onPlaybackRateChange,
+  crossfadeDuration = 0,
+  onCrossfadeChange,
+  gaplessPlayback = false,
+  onGaplessPlaybackChange,
+  sleepTimer = null,
+  sleepFadeSeconds = 0,
+  onStartSleepTimer,
+  onCancelSleepTimer,
+  onSleepFadeChange,
   onSkipForward,
   onSkipBackward,
   onToggleQueue,
@@ -75,11 +112,29 @@ export default function MaturePlayer({
   onTogglePatternControls,
 }: PlayerProps) {
   const [showSpeedMenu, setShowSpeedMenu] = useState(false);
+  const [showCrossfadeMenu, setShowCrossfadeMenu] = useState(false);
+  const [showSleepMenu, setShowSleepMenu] = useState(false);
   const [showAddToPlaylistModal, setShowAddToPlaylistModal] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [isHeartAnimating, setIsHeartAnimating] = useState(false);
   const progressRef = useRef<HTMLDivElement>(null);
-  const { hideUI, setHideUI } = useGlobalPlayer();
+  const {
+    hideUI,
+    setHideUI,
+    jumpToCue,
+    addCuePoint,
+    markLoopPoint,
+    undoQueueEdit,
+    redoQueueEdit,
+    trackBpm,
+    trackKey,
+  } = useGlobalPlayer();
+  const trackTempo = [
+    trackBpm !== null ? `${Math.round(trackBpm)} BPM` : null,
+    trackKey,
+  ]
+    .filter(Boolean)
+    .join(" · ");
 
   const utils = api.useUtils();
   const { data: session } = useSession();
@@ -149,6 +204,35 @@ export default function MaturePlayer({
     onCycleRepeat();
   };
 
+  // T cycles: off -> 15 -> 30 -> 60 min -> end of track -> off
+  const handleCycleSleepTimer = () => {
+    if (!onStartSleepTimer || !onCancelSleepTimer) return;
+    hapticLight();
+
+    if (!sleepTimer) {
+      onStartSleepTimer("duration", { minutes: 15 });
+    } else if (sleepTimer.mode === "duration") {
+      const minutesLeft = ((sleepTimer.endsAt ?? 0) - Date.now()) / 60_000;
+      if (minutesLeft <= 15) {
+        onStartSleepTimer("duration", { minutes: 30 });
+      } else if (minutesLeft <= 30) {
+        onStartSleepTimer("duration", { minutes: 60 });
+      } else {
+        onStartSleepTimer("endOfTrack");
+      }
+    } else {
+      onCancelSleepTimer();
+    }
+  };
+
+  const sleepTimerLabel = !sleepTimer
+    ? null
+    : sleepTimer.mode === "duration"
+      ? `${Math.max(1, Math.ceil(((sleepTimer.endsAt ?? 0) - Date.now()) / 60_000))}m`
+      : sleepTimer.mode === "endOfTrack"
+        ? "Track"
+        : "Queue";
+
   useKeyboardShortcuts({
     onPlayPause,
     onNext,
@@ -161,6 +245,13 @@ export default function MaturePlayer({
     onToggleShuffle,
     onToggleRepeat: onCycleRepeat,
     onToggleVisualizer: onToggleVisualizer,
+    onCycleSleepTimer: handleCycleSleepTimer,
+    onPreviousCue: () => jumpToCue(-1),
+    onNextCue: () => jumpToCue(1),
+    onAddCue: () => addCuePoint(),
+    onMarkLoop: markLoopPoint,
+    onUndoQueueEdit: undoQueueEdit,
+    onRedoQueueEdit: redoQueueEdit,
   });
 
   const handleProgressClick = (e: React.MouseEvent<HTMLDivElement>) => {
@@ -199,6 +290,7 @@ export default function MaturePlayer({
           className="accent-gradient h-full rounded-full shadow-sm transition-all"
           style={{ width: `${progress}%` }}
         />
+        <ProgressMarkers duration={duration} />
         <div
           className="absolute h-3 w-3 rounded-full bg-white opacity-70 shadow-lg transition-all group-hover:scale-125 group-hover:opacity-100"
           style={{
@@ -242,6 +334,12 @@ export default function MaturePlayer({
             <p className="truncate text-sm text-[var(--color-subtext)]">
               {currentTrack.artist.name}
             </p>
+            {trackTempo && (
+              <p className="truncate text-xs text-[var(--color-muted)]">
+                {trackTempo}
+              </p>
+            )}
+            <StreamFallbackBadge className="mt-1" />
           </div>
 
           {/* Add to Playlist Button */}
@@ -499,6 +597,174 @@ export default function MaturePlayer({
             )}
           </div>
 
+          {/* Crossfade */}
+          {onCrossfadeChange && (
+            <div className="relative hidden md:block">
+              <button
+                onClick={() => setShowCrossfadeMenu(!showCrossfadeMenu)}
+                className={`rounded px-2 py-1 text-xs font-medium transition hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)] ${
+                  crossfadeDuration > 0
+                    ? "text-[var(--color-accent)]"
+                    : "text-[var(--color-subtext)]"
+                }`}
+                title="Crossfade"
+              >
+                {crossfadeDuration > 0 ? `XF ${crossfadeDuration}s` : "XF off"}
+              </button>
+              {showCrossfadeMenu && (
+                <>
+                  <div
+                    className="fixed inset-0 z-10"
+                    onClick={() => setShowCrossfadeMenu(false)}
+                  />
+                  <div className="absolute right-0 bottom-full z-20 mb-2 rounded-lg border border-[rgba(244,178,102,0.18)] bg-[rgba(12,18,27,0.95)] py-2 shadow-lg shadow-[rgba(5,10,18,0.6)] backdrop-blur-lg">
+                    {CROSSFADE_OPTIONS.map((seconds) => (
+                      <button
+                        key={seconds}
+                        onClick={() => {
+                          onCrossfadeChange(seconds);
+                          setShowCrossfadeMenu(false);
+                        }}
+                        className={`w-full px-4 py-2 text-left text-sm whitespace-nowrap transition hover:bg-[rgba(244,178,102,0.12)] ${
+                          crossfadeDuration === seconds
+                            ? "text-[var(--color-accent)]"
+                            : "text-[var(--color-subtext)]"
+                        }`}
+                      >
+                        {seconds === 0 ? "Off" : `${seconds}s`}
+                      </button>
+                    ))}
+                    {onGaplessPlaybackChange && (
+                      <button
+                        onClick={() =>
+                          onGaplessPlaybackChange(!gaplessPlayback)
+                        }
+                        disabled={crossfadeDuration > 0}
+                        className={`mt-1 w-full border-t border-[rgba(244,178,102,0.18)] px-4 pt-2 pb-1 text-left text-sm whitespace-nowrap transition hover:bg-[rgba(244,178,102,0.12)] disabled:opacity-40 ${
+                          gaplessPlayback
+                            ? "text-[var(--color-accent)]"
+                            : "text-[var(--color-subtext)]"
+                        }`}
+                        title={
+                          crossfadeDuration > 0
+                            ? "Gapless playback is replaced by crossfade"
+                            : "Prebuffer the next track for seamless transitions"
+                        }
+                      >
+                        Gapless {gaplessPlayback ? "on" : "off"}
+                      </button>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Stream Quality */}
+          <div className="hidden md:block">
+            <QualityMenu />
+          </div>
+
+          {/* Devices & Remote Control */}
+          <div className="hidden md:block">
+            <DevicesMenu />
+          </div>
+
+          {/* Cue Points & A-B Loop */}
+          <div className="hidden md:block">
+            <CuePointsMenu />
+          </div>
+
+          {/* Sleep Timer */}
+          {onStartSleepTimer && onCancelSleepTimer && (
+            <div className="relative hidden md:block">
+              <button
+                onClick={() => setShowSleepMenu(!showSleepMenu)}
+                className={`flex items-center gap-1 rounded px-2 py-1 text-xs font-medium transition hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)] ${
+                  sleepTimer
+                    ? "text-[var(--color-accent)]"
+                    : "text-[var(--color-subtext)]"
+                }`}
+                title="Sleep timer (T)"
+              >
+                <Moon className="h-3.5 w-3.5" />
+                {sleepTimerLabel}
+              </button>
+              {showSleepMenu && (
+                <>
+                  <div
+                    className="fixed inset-0 z-10"
+                    onClick={() => setShowSleepMenu(false)}
+                  />
+                  <div className="absolute right-0 bottom-full z-20 mb-2 rounded-lg border border-[rgba(244,178,102,0.18)] bg-[rgba(12,18,27,0.95)] py-2 shadow-lg shadow-[rgba(5,10,18,0.6)] backdrop-blur-lg">
+                    {SLEEP_TIMER_OPTIONS.map((minutes) => (
+                      <button
+                        key={minutes}
+                        onClick={() => {
+                          onStartSleepTimer("duration", { minutes });
+                          setShowSleepMenu(false);
+                        }}
+                        className="w-full px-4 py-2 text-left text-sm whitespace-nowrap text-[var(--color-subtext)] transition hover:bg-[rgba(244,178,102,0.12)]"
+                      >
+                        {minutes} min
+                      </button>
+                    ))}
+                    {(
+                      [
+                        ["endOfTrack", "End of track"],
+                        ["endOfQueue", "End of queue"],
+                      ] as const
+                    ).map(([mode, label]) => (
+                      <button
+                        key={mode}
+                        onClick={() => {
+                          onStartSleepTimer(mode);
+                          setShowSleepMenu(false);
+                        }}
+                        className={`w-full px-4 py-2 text-left text-sm whitespace-nowrap transition hover:bg-[rgba(244,178,102,0.12)] ${
+                          sleepTimer?.mode === mode
+                            ? "text-[var(--color-accent)]"
+                            : "text-[var(--color-subtext)]"
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                    {onSleepFadeChange && (
+                      <div className="mt-1 flex items-center gap-1 border-t border-[rgba(244,178,102,0.18)] px-4 pt-2 pb-1 text-xs whitespace-nowrap text-[var(--color-muted)]">
+                        Fade
+                        {SLEEP_FADE_OPTIONS.map((seconds) => (
+                          <button
+                            key={seconds}
+                            onClick={() => onSleepFadeChange(seconds)}
+                            className={`rounded px-1.5 py-0.5 transition hover:bg-[rgba(244,178,102,0.12)] ${
+                              sleepFadeSeconds === seconds
+                                ? "text-[var(--color-accent)]"
+                                : "text-[var(--color-subtext)]"
+                            }`}
+                          >
+                            {seconds === 0 ? "Off" : `${seconds}s`}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {sleepTimer && (
+                      <button
+                        onClick={() => {
+                          onCancelSleepTimer();
+                          setShowSleepMenu(false);
+                        }}
+                        className="mt-1 w-full border-t border-[rgba(244,178,102,0.18)] px-4 pt-2 pb-1 text-left text-sm whitespace-nowrap text-[var(--color-subtext)] transition hover:bg-[rgba(244,178,102,0.12)]"
+                      >
+                        Turn off
+                      </button>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
           {/* Volume Control */}
           <div className="relative hidden items-center gap-2 md:flex">
             <button
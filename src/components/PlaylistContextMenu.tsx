@@ -16,6 +16,7 @@ import {
   GitMerge,
 } from "lucide-react";
 import { useEffect, useRef, useState } from "react";
+import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 
 import { usePlaylistContextMenu } from "@/contexts/PlaylistContextMenuContext";
@@ -33,6 +34,7 @@ export function PlaylistContextMenu() {
   const { showToast } = useToast();
   const { share, isSupported: isShareSupported } = useWebShare();
   const router = useRouter();
+  const { data: session } = useSession();
   const menuRef = useRef<HTMLDivElement>(null);
   const [showMergeModal, setShowMergeModal] = useState(false);
   const utils = api.useUtils();
@@ -286,6 +288,8 @@ export function PlaylistContextMenu() {
 
   if (!playlist || !position) return null;
 
+  const isOwner = !!playlist && playlist.userId === session?.user.id;
+
   return (
     <>
       <AnimatePresence>
@@ -387,22 +391,24 @@ export function PlaylistContextMenu() {
                 </span>
               </button>
 
-              {/* Toggle Visibility */}
-              <button
-                onClick={handleToggleVisibility}
-                className="group flex flex-col items-center gap-1 rounded-lg px-3 py-2 transition-all hover:bg-[rgba(244,178,102,0.15)] active:scale-95"
-                title={playlist.isPublic ? "Make private" : "Make public"}
-                disabled={updateVisibility.isPending}
-              >
-                {playlist.isPublic ? (
-                  <Unlock className="h-5 w-5 text-[var(--color-accent)] transition-all group-hover:scale-110" />
-                ) : (
-                  <Lock className="h-5 w-5 text-[var(--color-subtext)] transition-all group-hover:scale-110 group-hover:text-[var(--color-accent)]" />
-                )}
-                <span className="text-[10px] font-medium text-[var(--color-subtext)] group-hover:text-[var(--color-text)]">
-                  {playlist.isPublic ? "Public" : "Private"}
-                </span>
-              </button>
+              {/* Toggle Visibility (shared playlists belong to their owner) */}
+              {isOwner && (
+                <button
+                  onClick={handleToggleVisibility}
+                  className="group flex flex-col items-center gap-1 rounded-lg px-3 py-2 transition-all hover:bg-[rgba(244,178,102,0.15)] active:scale-95"
+                  title={playlist.isPublic ? "Make private" : "Make public"}
+                  disabled={updateVisibility.isPending}
+                >
+                  {playlist.isPublic ? (
+                    <Unlock className="h-5 w-5 text-[var(--color-accent)] transition-all group-hover:scale-110" />
+                  ) : (
+                    <Lock className="h-5 w-5 text-[var(--color-subtext)] transition-all group-hover:scale-110 group-hover:text-[var(--color-accent)]" />
+                  )}
+                  <span className="text-[10px] font-medium text-[var(--color-subtext)] group-hover:text-[var(--color-text)]">
+                    {playlist.isPublic ? "Public" : "Private"}
+                  </span>
+                </button>
+              )}
 
               {/* Duplicate */}
               <button
@@ -417,21 +423,25 @@ export function PlaylistContextMenu() {
                 </span>
               </button>
 
-              {/* Divider */}
-              <div className="h-10 w-px bg-[rgba(244,178,102,0.15)]" />
-
-              {/* Delete */}
-              <button
-                onClick={handleDelete}
-                className="group flex flex-col items-center gap-1 rounded-lg px-3 py-2 transition-all hover:bg-[rgba(244,178,102,0.15)] hover:bg-red-500/10 active:scale-95"
-                title="Delete playlist"
-                disabled={deletePlaylist.isPending}
-              >
-                <Trash2 className="h-5 w-5 text-[var(--color-danger)] transition-all group-hover:scale-110" />
-                <span className="text-[10px] font-medium text-[var(--color-danger)] group-hover:text-red-400">
-                  Delete
-                </span>
-              </button>
+              {isOwner && (
+                <>
+                  {/* Divider */}
+                  <div className="h-10 w-px bg-[rgba(244,178,102,0.15)]" />
+
+                  {/* Delete */}
+                  <button
+                    onClick={handleDelete}
+                    className="group flex flex-col items-center gap-1 rounded-lg px-3 py-2 transition-all hover:bg-[rgba(244,178,102,0.15)] hover:bg-red-500/10 active:scale-95"
+                    title="Delete playlist"
+                    disabled={deletePlaylist.isPending}
+                  >
+                    <Trash2 className="h-5 w-5 text-[var(--color-danger)] transition-all group-hover:scale-110" />
+                    <span className="text-[10px] font-medium text-[var(--color-danger)] group-hover:text-red-400">
+                      Delete
+                    </span>
+                  </button>
+                </>
+              )}
             </motion.div>
           </>
         )}
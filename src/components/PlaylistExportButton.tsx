@@ -0,0 +1,101 @@
+// File: src/components/PlaylistExportButton.tsx
+
+"use client";
+
+import { useToast } from "@/contexts/ToastContext";
+import type { Track } from "@/types";
+import { hapticLight } from "@/utils/haptics";
+import {
+  downloadPlaylistFile,
+  PLAYLIST_FILE_FORMATS,
+  type PlaylistFileFormat,
+} from "@/utils/playlistFormats";
+import { FileDown } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+
+/**
+ * Save a playlist, the queue or the favorites as an M3U8, XSPF or JSPF file.
+ * Tracks are read when a format is picked, so long lists are only loaded
+ * when they're exported.
+ */
+export function PlaylistExportButton({
+  name,
+  getTracks,
+  label = "Export",
+  className = "btn-secondary flex items-center gap-2 text-sm",
+}: {
+  name: string;
+  getTracks: () => Track[] | Promise<Track[]>;
+  label?: string | null;
+  className?: string;
+}) {
+  const { showToast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  const handleExport = async (format: PlaylistFileFormat) => {
+    hapticLight();
+    setIsOpen(false);
+    setIsExporting(true);
+    try {
+      const tracks = await getTracks();
+      if (tracks.length === 0) {
+        showToast("There are no tracks to export", "info");
+        return;
+      }
+      downloadPlaylistFile(format, name, tracks);
+    } catch (error) {
+      console.error("[PlaylistExportButton] Failed to export:", error);
+      showToast("Couldn't export the playlist", "error");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={isExporting}
+        className={className}
+        title="Export as a playlist file"
+        aria-label="Export as a playlist file"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <FileDown className={label ? "h-4 w-4" : "h-5 w-5"} />
+        {label && (isExporting ? "Exporting..." : label)}
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 z-20 mt-2 w-40 rounded-xl border border-[rgba(244,178,102,0.14)] bg-[rgba(16,23,33,0.98)] py-2 shadow-xl backdrop-blur-xl"
+        >
+          {Object.entries(PLAYLIST_FILE_FORMATS).map(
+            ([format, { label: formatLabel }]) => (
+              <button
+                key={format}
+                role="menuitem"
+                onClick={() => handleExport(format as PlaylistFileFormat)}
+                className="w-full px-4 py-2 text-left text-sm text-[var(--color-text)] transition-colors hover:bg-[rgba(244,178,102,0.1)]"
+              >
+                {formatLabel}
+              </button>
+            ),
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+// File: src/components/PlaylistMembersPanel.tsx
+
+"use client";
+
+import { useToast } from "@/contexts/ToastContext";
+import { api } from "@/trpc/react";
+import type { PlaylistMember, PlaylistMemberRole, PlaylistRole } from "@/types";
+import { Link2, LogOut, Trash2, UserMinus } from "lucide-react";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+const ROLE_LABELS: Record<PlaylistMemberRole, string> = {
+  editor: "Can edit",
+  viewer: "Can view",
+};
+
+/**
+ * People a playlist is shared with. The owner creates invite links and
+ * manages roles; members can see who else is in and leave.
+ */
+export function PlaylistMembersPanel({
+  playlistId,
+  role,
+  members,
+  currentUserId,
+}: {
+  playlistId: number;
+  role: PlaylistRole;
+  members: PlaylistMember[];
+  currentUserId: string;
+}) {
+  const router = useRouter();
+  const { showToast } = useToast();
+  const utils = api.useUtils();
+  const isOwner = role === "owner";
+  const [inviteRole, setInviteRole] = useState<PlaylistMemberRole>("editor");
+
+  const { data: invites } = api.playlistSharing.listInvites.useQuery(
+    { playlistId },
+    { enabled: isOwner },
+  );
+  const createInvite = api.playlistSharing.createInvite.useMutation();
+  const revokeInvite = api.playlistSharing.revokeInvite.useMutation();
+  const updateMemberRole = api.playlistSharing.updateMemberRole.useMutation();
+  const removeMember = api.playlistSharing.removeMember.useMutation();
+
+  const inviteUrl = (code: string) =>
+    `${window.location.origin}/playlists/invite/${code}`;
+
+  const copyInvite = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl(code));
+      showToast("Invite link copied", "success");
+    } catch (error) {
+      console.error("Failed to copy:", error);
+      showToast("Failed to copy the invite link", "error");
+    }
+  };
+
+  const handleCreateInvite = async () => {
+    try {
+      const { code } = await createInvite.mutateAsync({
+        playlistId,
+        role: inviteRole,
+      });
+      await utils.playlistSharing.listInvites.invalidate({ playlistId });
+      await copyInvite(code);
+    } catch (error) {
+      console.error("Failed to create invite:", error);
+      showToast("Failed to create an invite link", "error");
+    }
+  };
+
+  const handleRevokeInvite = async (code: string) => {
+    try {
+      await revokeInvite.mutateAsync({ playlistId, code });
+      await utils.playlistSharing.listInvites.invalidate({ playlistId });
+    } catch (error) {
+      console.error("Failed to revoke invite:", error);
+      showToast("Failed to revoke the invite link", "error");
+    }
+  };
+
+  const handleRoleChange = async (
+    userId: string,
+    nextRole: PlaylistMemberRole,
+  ) => {
+    try {
+      await updateMemberRole.mutateAsync({
+        playlistId,
+        userId,
+        role: nextRole,
+      });
+      await utils.music.getPlaylist.invalidate({ id: playlistId });
+    } catch (error) {
+      console.error("Failed to update member role:", error);
+      showToast("Failed to change their role", "error");
+    }
+  };
+
+  const handleRemove = async (member: PlaylistMember) => {
+    const isSelf = member.userId === currentUserId;
+    if (
+      !confirm(
+        isSelf
+          ? "Leave this playlist?"
+          : `Remove ${member.name ?? "this member"} from the playlist?`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await removeMember.mutateAsync({ playlistId, userId: member.userId });
+      await utils.music.getPlaylists.invalidate();
+      if (isSelf) {
+        showToast("You left the playlist", "success");
+        router.push("/playlists");
+      } else {
+        await utils.music.getPlaylist.invalidate({ id: playlistId });
+      }
+    } catch (error) {
+      console.error("Failed to remove member:", error);
+      showToast("Failed to remove the member", "error");
+    }
+  };
+
+  return (
+    <div className="surface-panel mb-6 space-y-4 p-4 md:p-6">
+      <h2 className="text-lg font-semibold text-[var(--color-text)]">
+        Collaborators
+      </h2>
+
+      {isOwner && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={inviteRole}
+              onChange={(e) =>
+                setInviteRole(e.target.value as PlaylistMemberRole)
+              }
+              className="input-text w-auto"
+            >
+              {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleCreateInvite}
+              disabled={createInvite.isPending}
+              className="btn-primary flex items-center gap-2 text-sm"
+            >
+              <Link2 className="h-4 w-4" />
+              {createInvite.isPending ? "Creating..." : "Create invite link"}
+            </button>
+          </div>
+
+          {invites?.map((invite) => (
+            <div
+              key={invite.code}
+              className="flex items-center gap-2 text-sm text-[var(--color-subtext)]"
+            >
+              <button
+                onClick={() => copyInvite(invite.code)}
+                className="truncate text-left hover:text-[var(--color-text)]"
+                title="Copy invite link"
+              >
+                {ROLE_LABELS[invite.role]} link · expires{" "}
+                {new Date(invite.expiresAt).toLocaleDateString()}
+              </button>
+              <button
+                onClick={() => handleRevokeInvite(invite.code)}
+                className="ml-auto rounded-full p-1.5 transition hover:text-[var(--color-danger)]"
+                title="Revoke invite link"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {members.length === 0 ? (
+        <p className="text-sm text-[var(--color-muted)]">
+          Share an invite link to add people to this playlist.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {members.map((member) => (
+            <li key={member.userId} className="flex items-center gap-3">
+              <div className="relative h-8 w-8 flex-shrink-0 overflow-hidden rounded-full bg-[rgba(255,255,255,0.08)]">
+                {member.image && (
+                  <Image
+                    src={member.image}
+                    alt=""
+                    fill
+                    sizes="32px"
+                    className="object-cover"
+                  />
+                )}
+              </div>
+              <span className="min-w-0 flex-1 truncate text-sm text-[var(--color-text)]">
+                {member.name ?? "Unknown listener"}
+                {member.userId === currentUserId && " (you)"}
+              </span>
+              {isOwner ? (
+                <select
+                  value={member.role}
+                  onChange={(e) =>
+                    handleRoleChange(
+                      member.userId,
+                      e.target.value as PlaylistMemberRole,
+                    )
+                  }
+                  className="input-text w-auto text-sm"
+                >
+                  {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <span className="text-xs text-[var(--color-subtext)]">
+                  {ROLE_LABELS[member.role]}
+                </span>
+              )}
+              {(isOwner || member.userId === currentUserId) && (
+                <button
+                  onClick={() => handleRemove(member)}
+                  className="rounded-full p-1.5 text-[var(--color-subtext)] transition hover:text-[var(--color-danger)]"
+                  title={
+                    member.userId === currentUserId
+                      ? "Leave playlist"
+                      : "Remove from playlist"
+                  }
+                >
+                  {member.userId === currentUserId ? (
+                    <LogOut className="h-4 w-4" />
+                  ) : (
+                    <UserMinus className="h-4 w-4" />
+                  )}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
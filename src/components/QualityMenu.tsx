@@ -0,0 +1,117 @@
+// File: src/components/QualityMenu.tsx
+
+"use client";
+
+import { AUDIO_QUALITIES } from "@/config/player";
+import { useGlobalPlayer } from "@/contexts/AudioPlayerContext";
+import { AUDIO_QUALITY_LABELS } from "@/utils/audioQuality";
+import { hapticLight } from "@/utils/haptics";
+import { AudioLines } from "lucide-react";
+import { useState } from "react";
+
+/**
+ * Stream quality button: shows the quality being played and lets the user
+ * override it for this session or change their default.
+ */
+export function QualityMenu({
+  size = "compact",
+}: {
+  size?: "compact" | "touch"; // touch: larger target for the mobile player
+}) {
+  const {
+    defaultQuality,
+    qualityOverride,
+    streamQuality,
+    setDefaultQuality,
+    setQualityOverride,
+  } = useGlobalPlayer();
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Lower than asked for: capped by the network or stepped down after stalls
+  const requested = qualityOverride ?? defaultQuality;
+  const isReduced = streamQuality !== requested;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1 font-medium transition ${
+          size === "touch"
+            ? "touch-target text-sm"
+            : "rounded px-2 py-1 text-xs hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)]"
+        } ${
+          qualityOverride
+            ? "text-[var(--color-accent)]"
+            : "text-[var(--color-subtext)]"
+        }`}
+        title={
+          isReduced
+            ? `Streaming ${AUDIO_QUALITY_LABELS[streamQuality]} (reduced from ${AUDIO_QUALITY_LABELS[requested]} for your connection)`
+            : `Streaming ${AUDIO_QUALITY_LABELS[streamQuality]} quality`
+        }
+      >
+        <AudioLines className={size === "touch" ? "h-5 w-5" : "h-3.5 w-3.5"} />
+        {AUDIO_QUALITY_LABELS[streamQuality]}
+        {isReduced && "↓"}
+      </button>
+      {isOpen && (
+        <>
+          <div
+            className="fixed inset-0 z-10"
+            onClick={() => setIsOpen(false)}
+          />
+          <div className="absolute right-0 bottom-full z-20 mb-2 rounded-lg border border-[rgba(244,178,102,0.18)] bg-[rgba(12,18,27,0.95)] py-2 shadow-lg shadow-[rgba(5,10,18,0.6)] backdrop-blur-lg">
+            <button
+              onClick={() => {
+                hapticLight();
+                setQualityOverride(null);
+                setIsOpen(false);
+              }}
+              className={`w-full px-4 py-2 text-left text-sm whitespace-nowrap transition hover:bg-[rgba(244,178,102,0.12)] ${
+                qualityOverride === null
+                  ? "text-[var(--color-accent)]"
+                  : "text-[var(--color-subtext)]"
+              }`}
+            >
+              Auto ({AUDIO_QUALITY_LABELS[defaultQuality]})
+            </button>
+            {AUDIO_QUALITIES.map((quality) => (
+              <button
+                key={quality}
+                onClick={() => {
+                  hapticLight();
+                  setQualityOverride(quality);
+                  setIsOpen(false);
+                }}
+                className={`w-full px-4 py-2 text-left text-sm whitespace-nowrap transition hover:bg-[rgba(244,178,102,0.12)] ${
+                  qualityOverride === quality
+                    ? "text-[var(--color-accent)]"
+                    : "text-[var(--color-subtext)]"
+                }`}
+                title="For this session only"
+              >
+                {AUDIO_QUALITY_LABELS[quality]}
+              </button>
+            ))}
+            <div className="mt-1 flex items-center gap-1 border-t border-[rgba(244,178,102,0.18)] px-4 pt-2 pb-1 text-xs whitespace-nowrap text-[var(--color-muted)]">
+              Default
+              {AUDIO_QUALITIES.map((quality) => (
+                <button
+                  key={quality}
+                  onClick={() => setDefaultQuality(quality)}
+                  className={`rounded px-1.5 py-0.5 transition hover:bg-[rgba(244,178,102,0.12)] ${
+                    defaultQuality === quality
+                      ? "text-[var(--color-accent)]"
+                      : "text-[var(--color-subtext)]"
+                  }`}
+                >
+                  {AUDIO_QUALITY_LABELS[quality]}
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
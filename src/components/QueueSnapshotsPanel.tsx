@@ -0,0 +1,169 @@
+// File: src/components/QueueSnapshotsPanel.tsx
+
+"use client";
+
+import { MAX_QUEUE_SNAPSHOT_NAME_LENGTH } from "@/config/player";
+import { useGlobalPlayer } from "@/contexts/AudioPlayerContext";
+import { useToast } from "@/contexts/ToastContext";
+import { api } from "@/trpc/react";
+import type { QueueSnapshotSummary } from "@/types";
+import { hapticLight } from "@/utils/haptics";
+import { formatTime } from "@/utils/time";
+import { ListPlus, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+
+interface QueueSnapshotsPanelProps {
+  onClose: () => void;
+}
+
+/**
+ * Saved queues inside the queue panel: save the current one, switch between
+ * them, or turn one into a playlist
+ */
+export function QueueSnapshotsPanel({ onClose }: QueueSnapshotsPanelProps) {
+  const {
+    activeQueueSnapshotId,
+    saveQueueSnapshot,
+    switchQueue,
+    deleteQueueSnapshot,
+  } = useGlobalPlayer();
+  const { showToast } = useToast();
+  const utils = api.useUtils();
+  const { data: snapshots, isLoading } = api.queue.listSnapshots.useQuery();
+  const renameSnapshot = api.queue.renameSnapshot.useMutation({
+    onSuccess: () => void utils.queue.listSnapshots.invalidate(),
+    onError: (error) => showToast(error.message, "error"),
+  });
+  const convertToPlaylist = api.queue.convertSnapshotToPlaylist.useMutation({
+    onSuccess: ({ playlist, trackCount }) => {
+      showToast(
+        `Saved ${trackCount} track${trackCount === 1 ? "" : "s"} to "${playlist.name}"`,
+        "success",
+      );
+      void utils.music.getPlaylists.invalidate();
+    },
+    onError: () => showToast("Failed to create playlist", "error"),
+  });
+
+  const handleRename = (snapshot: QueueSnapshotSummary) => {
+    const name = prompt("Rename this queue", snapshot.name)?.trim();
+    if (!name || name === snapshot.name) return;
+    renameSnapshot.mutate({
+      id: snapshot.id,
+      name: name.slice(0, MAX_QUEUE_SNAPSHOT_NAME_LENGTH),
+    });
+  };
+
+  const handleConvert = (snapshot: QueueSnapshotSummary) => {
+    const name = prompt("Name your new playlist", snapshot.name)?.trim();
+    if (!name) return;
+    convertToPlaylist.mutate({ id: snapshot.id, name });
+  };
+
+  const handleDelete = (snapshot: QueueSnapshotSummary) => {
+    hapticLight();
+    if (confirm(`Delete the saved queue "${snapshot.name}"?`)) {
+      void deleteQueueSnapshot(snapshot.id);
+    }
+  };
+
+  return (
+    <div className="surface-muted space-y-3 p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-[var(--color-text)]">
+          Saved queues
+        </h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => void saveQueueSnapshot()}
+            className="flex items-center gap-1 rounded-lg px-2 py-1 text-xs font-medium text-[var(--color-accent)] transition-colors hover:bg-[rgba(244,178,102,0.12)]"
+            title="Save the current queue under a new name"
+          >
+            <Plus className="h-4 w-4" />
+            Save current
+          </button>
+          <button
+            onClick={onClose}
+            className="text-[var(--color-subtext)] transition-colors hover:text-[var(--color-text)]"
+            aria-label="Close saved queues"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-5 w-5 animate-spin text-[var(--color-subtext)]" />
+        </div>
+      ) : snapshots && snapshots.length > 0 ? (
+        <div className="max-h-64 space-y-1 overflow-y-auto">
+          {snapshots.map((snapshot) => {
+            const isActive = snapshot.id === activeQueueSnapshotId;
+            return (
+              <div
+                key={snapshot.id}
+                className={`flex items-center gap-2 rounded-lg px-2 py-1.5 ${
+                  isActive
+                    ? "bg-[rgba(244,178,102,0.12)]"
+                    : "hover:bg-[rgba(255,255,255,0.05)]"
+                }`}
+              >
+                <button
+                  onClick={() => void switchQueue(snapshot.id)}
+                  disabled={isActive}
+                  className="min-w-0 flex-1 text-left disabled:cursor-default"
+                  title={isActive ? "Playing now" : "Switch to this queue"}
+                >
+                  <p className="truncate text-sm font-medium text-[var(--color-text)]">
+                    {snapshot.name}
+                    {isActive && (
+                      <span className="ml-2 text-xs font-normal text-[var(--color-accent)]">
+                        Playing
+                      </span>
+                    )}
+                  </p>
+                  <p className="truncate text-xs text-[var(--color-subtext)]">
+                    {snapshot.trackCount} track
+                    {snapshot.trackCount === 1 ? "" : "s"}
+                    {snapshot.currentTrack &&
+                      ` · ${snapshot.currentTrack.title} at ${formatTime(snapshot.currentTime)}`}
+                  </p>
+                </button>
+                <button
+                  onClick={() => handleRename(snapshot)}
+                  className="rounded-full p-1.5 text-[var(--color-subtext)] transition-colors hover:text-[var(--color-text)]"
+                  aria-label="Rename saved queue"
+                  title="Rename"
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => handleConvert(snapshot)}
+                  disabled={convertToPlaylist.isPending}
+                  className="rounded-full p-1.5 text-[var(--color-subtext)] transition-colors hover:text-[var(--color-text)] disabled:opacity-40"
+                  aria-label="Save as playlist"
+                  title="Save as playlist"
+                >
+                  <ListPlus className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(snapshot)}
+                  className="rounded-full p-1.5 text-[var(--color-subtext)] transition-colors hover:text-red-400"
+                  aria-label="Delete saved queue"
+                  title="Delete"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-xs text-[var(--color-subtext)]">
+          Save this queue to come back to it later, or to keep several going and
+          switch between them.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,422 @@
+// File: src/components/SmartPlaylistEditor.tsx
+
+"use client";
+
+import {
+  MAX_SMART_PLAYLIST_DEPTH,
+  MAX_SMART_PLAYLIST_TRACKS,
+  SMART_PLAYLIST_FIELDS,
+  SMART_PLAYLIST_OPERATOR_LABELS,
+  SMART_PLAYLIST_OPERATORS,
+  SMART_PLAYLIST_REFRESH_OPTIONS,
+  SMART_PLAYLIST_SORT_FIELDS,
+} from "@/config/smartPlaylists";
+import { api } from "@/trpc/react";
+import {
+  isSmartPlaylistRuleGroup,
+  type SmartPlaylistDefinition,
+  type SmartPlaylistField,
+  type SmartPlaylistOperator,
+  type SmartPlaylistRule,
+  type SmartPlaylistRuleGroup,
+  type SmartPlaylistSortField,
+} from "@/types";
+import { Plus, X } from "lucide-react";
+import { useEffect, useState } from "react";
+
+type RuleOrGroup = SmartPlaylistRule | SmartPlaylistRuleGroup;
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// A sensible starting value when a rule's field or operator changes
+function defaultValue(
+  field: SmartPlaylistField,
+  operator: SmartPlaylistOperator,
+): SmartPlaylistRule["value"] {
+  switch (SMART_PLAYLIST_FIELDS[field].kind) {
+    case "number":
+      return operator === "between" ? [0, 10] : 0;
+    case "date":
+      return operator === "before" || operator === "after" ? today() : 30;
+    case "boolean":
+      return true;
+    case "text":
+      return "";
+  }
+}
+
+function RuleEditor({
+  rule,
+  onChange,
+  onRemove,
+}: {
+  rule: SmartPlaylistRule;
+  onChange: (rule: SmartPlaylistRule) => void;
+  onRemove: () => void;
+}) {
+  const { kind } = SMART_PLAYLIST_FIELDS[rule.field];
+  const operators = SMART_PLAYLIST_OPERATORS[kind];
+
+  const setField = (field: SmartPlaylistField) => {
+    const [operator = "is"] =
+      SMART_PLAYLIST_OPERATORS[SMART_PLAYLIST_FIELDS[field].kind];
+    onChange({ field, operator, value: defaultValue(field, operator) });
+  };
+
+  const setOperator = (operator: SmartPlaylistOperator) => {
+    // Keep what was entered when the new operator takes the same kind of value
+    const value = defaultValue(rule.field, operator);
+    const sameShape =
+      typeof value === typeof rule.value &&
+      Array.isArray(value) === Array.isArray(rule.value);
+    onChange({ ...rule, operator, value: sameShape ? rule.value : value });
+  };
+
+  const renderValue = () => {
+    if (kind === "boolean") {
+      return (
+        <select
+          value={rule.value ? "yes" : "no"}
+          onChange={(e) =>
+            onChange({ ...rule, value: e.target.value === "yes" })
+          }
+          className="input-text w-auto"
+        >
+          <option value="yes">Yes</option>
+          <option value="no">No</option>
+        </select>
+      );
+    }
+    if (Array.isArray(rule.value)) {
+      const [min, max] = rule.value;
+      return (
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            value={min}
+            onChange={(e) =>
+              onChange({ ...rule, value: [Number(e.target.value), max] })
+            }
+            className="input-text w-24"
+          />
+          <span className="text-sm text-[var(--color-subtext)]">and</span>
+          <input
+            type="number"
+            value={max}
+            onChange={(e) =>
+              onChange({ ...rule, value: [min, Number(e.target.value)] })
+            }
+            className="input-text w-24"
+          />
+        </div>
+      );
+    }
+    if (kind === "date" && typeof rule.value === "string") {
+      return (
+        <input
+          type="date"
+          value={rule.value}
+          onChange={(e) => onChange({ ...rule, value: e.target.value })}
+          className="input-text w-auto"
+        />
+      );
+    }
+    if (typeof rule.value === "number") {
+      return (
+        <input
+          type="number"
+          min={0}
+          step={rule.field === "energy" ? 0.05 : 1}
+          value={rule.value}
+          onChange={(e) => onChange({ ...rule, value: Number(e.target.value) })}
+          className="input-text w-28"
+        />
+      );
+    }
+    return (
+      <input
+        type="text"
+        value={String(rule.value)}
+        onChange={(e) => onChange({ ...rule, value: e.target.value })}
+        placeholder={rule.field === "key" ? "e.g. Am" : "Text"}
+        maxLength={256}
+        className="input-text min-w-0 flex-1"
+      />
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={rule.field}
+        onChange={(e) => setField(e.target.value as SmartPlaylistField)}
+        className="input-text w-auto"
+      >
+        {Object.entries(SMART_PLAYLIST_FIELDS).map(([field, { label }]) => (
+          <option key={field} value={field}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <select
+        value={rule.operator}
+        onChange={(e) => setOperator(e.target.value as SmartPlaylistOperator)}
+        className="input-text w-auto"
+      >
+        {operators.map((operator) => (
+          <option key={operator} value={operator}>
+            {SMART_PLAYLIST_OPERATOR_LABELS[operator]}
+          </option>
+        ))}
+      </select>
+      {renderValue()}
+      <button
+        onClick={onRemove}
+        className="rounded-full p-1.5 text-[var(--color-subtext)] transition hover:text-[var(--color-danger)]"
+        title="Remove rule"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
+
+function RuleGroupEditor({
+  group,
+  depth,
+  onChange,
+  onRemove,
+}: {
+  group: SmartPlaylistRuleGroup;
+  depth: number;
+  onChange: (group: SmartPlaylistRuleGroup) => void;
+  onRemove?: () => void;
+}) {
+  const setRule = (index: number, rule: RuleOrGroup) =>
+    onChange({
+      ...group,
+      rules: group.rules.map((r, i) => (i === index ? rule : r)),
+    });
+  const removeRule = (index: number) =>
+    onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+  const addRule = (rule: RuleOrGroup) =>
+    onChange({ ...group, rules: [...group.rules, rule] });
+
+  return (
+    <div
+      className={
+        depth > 1
+          ? "space-y-2 rounded-lg border border-[rgba(244,178,102,0.18)] p-3"
+          : "space-y-2"
+      }
+    >
+      <div className="flex items-center gap-2 text-sm text-[var(--color-subtext)]">
+        <span>Match</span>
+        <select
+          value={group.match}
+          onChange={(e) =>
+            onChange({ ...group, match: e.target.value as "all" | "any" })
+          }
+          className="input-text w-auto"
+        >
+          <option value="all">all</option>
+          <option value="any">any</option>
+        </select>
+        <span>of these rules</span>
+        {onRemove && (
+          <button
+            onClick={onRemove}
+            className="ml-auto rounded-full p-1.5 transition hover:text-[var(--color-danger)]"
+            title="Remove group"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {group.rules.map((rule, index) =>
+        isSmartPlaylistRuleGroup(rule) ? (
+          <RuleGroupEditor
+            key={index}
+            group={rule}
+            depth={depth + 1}
+            onChange={(next) => setRule(index, next)}
+            onRemove={() => removeRule(index)}
+          />
+        ) : (
+          <RuleEditor
+            key={index}
+            rule={rule}
+            onChange={(next) => setRule(index, next)}
+            onRemove={() => removeRule(index)}
+          />
+        ),
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() =>
+            addRule({ field: "playCount", operator: "gte", value: 1 })
+          }
+          className="btn-secondary flex items-center gap-1 px-3 py-1 text-sm"
+        >
+          <Plus className="h-4 w-4" />
+          Rule
+        </button>
+        {depth < MAX_SMART_PLAYLIST_DEPTH && (
+          <button
+            onClick={() =>
+              addRule({
+                match: group.match === "all" ? "any" : "all",
+                rules: [{ field: "favorite", operator: "is", value: true }],
+              })
+            }
+            className="btn-secondary flex items-center gap-1 px-3 py-1 text-sm"
+          >
+            <Plus className="h-4 w-4" />
+            Group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Edit a smart playlist's rules, order, limit and refresh schedule, with a
+ * live count of the tracks they currently match
+ */
+export function SmartPlaylistEditor({
+  value,
+  onChange,
+}: {
+  value: SmartPlaylistDefinition;
+  onChange: (value: SmartPlaylistDefinition) => void;
+}) {
+  // Only preview once the rules stop changing
+  const [previewRules, setPreviewRules] = useState(value);
+  useEffect(() => {
+    const timeout = setTimeout(() => setPreviewRules(value), 500);
+    return () => clearTimeout(timeout);
+  }, [value]);
+
+  const { data: preview, isError } =
+    api.smartPlaylists.previewSmartPlaylist.useQuery(
+      { rules: previewRules },
+      { retry: false },
+    );
+
+  return (
+    <div className="space-y-4">
+      <RuleGroupEditor
+        group={value.rules}
+        depth={1}
+        onChange={(rules) => onChange({ ...value, rules })}
+      />
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-[var(--color-subtext)]">
+        <span>Sort by</span>
+        <select
+          value={value.sort.field}
+          onChange={(e) =>
+            onChange({
+              ...value,
+              sort: {
+                ...value.sort,
+                field: e.target.value as SmartPlaylistSortField,
+              },
+            })
+          }
+          className="input-text w-auto"
+        >
+          {Object.entries(SMART_PLAYLIST_SORT_FIELDS).map(([field, label]) => (
+            <option key={field} value={field}>
+              {label}
+            </option>
+          ))}
+        </select>
+        {value.sort.field !== "random" && (
+          <select
+            value={value.sort.direction}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                sort: {
+                  ...value.sort,
+                  direction: e.target.value as "asc" | "desc",
+                },
+              })
+            }
+            className="input-text w-auto"
+          >
+            <option value="desc">descending</option>
+            <option value="asc">ascending</option>
+          </select>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-[var(--color-subtext)]">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={value.limit !== null}
+            onChange={(e) =>
+              onChange({ ...value, limit: e.target.checked ? 50 : null })
+            }
+          />
+          Limit to
+        </label>
+        <input
+          type="number"
+          min={1}
+          max={MAX_SMART_PLAYLIST_TRACKS}
+          value={value.limit ?? ""}
+          disabled={value.limit === null}
+          onChange={(e) =>
+            onChange({
+              ...value,
+              limit: Math.min(
+                Math.max(1, Math.round(Number(e.target.value))),
+                MAX_SMART_PLAYLIST_TRACKS,
+              ),
+            })
+          }
+          className="input-text w-24"
+        />
+        <span>tracks</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-[var(--color-subtext)]">
+        <span>Refresh</span>
+        <select
+          value={value.refreshIntervalHours ?? ""}
+          onChange={(e) =>
+            onChange({
+              ...value,
+              refreshIntervalHours: e.target.value
+                ? Number(e.target.value)
+                : null,
+            })
+          }
+          className="input-text w-auto"
+        >
+          {SMART_PLAYLIST_REFRESH_OPTIONS.map(({ hours, label }) => (
+            <option key={label} value={hours ?? ""}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-sm text-[var(--color-muted)]">
+        {isError
+          ? "Finish the rules to see which tracks match"
+          : preview
+            ? `${preview.trackCount} track${preview.trackCount !== 1 ? "s" : ""} match right now`
+            : "Checking your library..."}
+      </p>
+    </div>
+  );
+}
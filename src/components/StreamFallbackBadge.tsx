@@ -0,0 +1,38 @@
+// File: src/components/StreamFallbackBadge.tsx
+
+"use client";
+
+import { useGlobalPlayer } from "@/contexts/AudioPlayerContext";
+import { Clock, Replace } from "lucide-react";
+
+/**
+ * Label shown next to the current track while its stream failed and the
+ * player fell back to another release or the 30-second preview
+ */
+export function StreamFallbackBadge({
+  className = "",
+}: {
+  className?: string;
+}) {
+  const { currentTrack, streamFallback } = useGlobalPlayer();
+  if (!currentTrack || streamFallback?.trackId !== currentTrack.id) {
+    return null;
+  }
+
+  const { kind, originalTrack } = streamFallback;
+  const Icon = kind === "preview" ? Clock : Replace;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full bg-[rgba(244,178,102,0.16)] px-2 py-0.5 text-xs font-medium whitespace-nowrap text-[var(--color-accent)] ${className}`}
+      title={
+        kind === "preview"
+          ? `"${originalTrack.title}" couldn't be streamed, playing its 30-second preview`
+          : `"${originalTrack.title}" couldn't be streamed, playing another release of it`
+      }
+    >
+      <Icon className="h-3 w-3" />
+      {kind === "preview" ? "30s preview" : "Alternate version"}
+    </span>
+  );
+}
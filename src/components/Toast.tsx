@@ -2,12 +2,14 @@
 
 "use client";
 
+import type { ToastAction } from "@/types";
 import { useEffect, useState } from "react";
 
 export interface ToastProps {
   message: string;
   type?: "success" | "error" | "info";
   duration?: number;
+  action?: ToastAction;
   onClose?: () => void;
 }
 
@@ -15,11 +17,20 @@ export default function Toast({
   message,
   type = "success",
   duration = 3000,
+  action,
   onClose,
 }: ToastProps) {
   const [isVisible, setIsVisible] = useState(true);
   const [isExiting, setIsExiting] = useState(false);
 
+  const dismiss = () => {
+    setIsExiting(true);
+    setTimeout(() => {
+      setIsVisible(false);
+      onClose?.();
+    }, 300);
+  };
+
   useEffect(() => {
     const timer = setTimeout(() => {
       setIsExiting(true);
@@ -82,14 +93,19 @@ export default function Toast({
     >
       {icons[type]}
       <span className="flex-1 text-sm font-medium">{message}</span>
+      {action && (
+        <button
+          onClick={() => {
+            action.onClick();
+            dismiss();
+          }}
+          className="touch-target flex-shrink-0 rounded-md px-2 text-sm font-semibold text-white uppercase transition hover:bg-white/15"
+        >
+          {action.label}
+        </button>
+      )}
       <button
-        onClick={() => {
-          setIsExiting(true);
-          setTimeout(() => {
-            setIsVisible(false);
-            onClose?.();
-          }, 300);
-        }}
+        onClick={dismiss}
         className="touch-target ml-2 flex-shrink-0 text-white/80 transition hover:text-white"
       >
         <svg
@@ -0,0 +1,218 @@
+// File: src/components/TrackMarkers.tsx
+
+"use client";
+
+import { useGlobalPlayer } from "@/contexts/AudioPlayerContext";
+import { hapticLight } from "@/utils/haptics";
+import { formatTime } from "@/utils/time";
+import { Bookmark, Pencil, Plus, Repeat, X } from "lucide-react";
+import { useState } from "react";
+
+const toPercent = (time: number, duration: number) =>
+  `${Math.min(100, Math.max(0, (time / duration) * 100))}%`;
+
+/**
+ * A-B loop region and cue point ticks, drawn over a progress bar.
+ * Place inside the (relative) progress bar element.
+ */
+export function ProgressMarkers({ duration }: { duration: number }) {
+  const { cuePoints, abLoop, pendingLoopStart } = useGlobalPlayer();
+
+  if (!duration) return null;
+
+  return (
+    <div className="pointer-events-none absolute inset-0">
+      {abLoop && (
+        <div
+          className={`absolute inset-y-0 border-x-2 border-[var(--color-accent)] ${
+            abLoop.enabled
+              ? "bg-[rgba(244,178,102,0.3)]"
+              : "bg-[rgba(244,178,102,0.1)] opacity-60"
+          }`}
+          style={{
+            left: toPercent(abLoop.start, duration),
+            right: `calc(100% - ${toPercent(abLoop.end, duration)})`,
+          }}
+        />
+      )}
+      {pendingLoopStart !== null && (
+        <div
+          className="absolute inset-y-0 w-0.5 animate-pulse bg-[var(--color-accent)]"
+          style={{ left: toPercent(pendingLoopStart, duration) }}
+        />
+      )}
+      {cuePoints.map((cuePoint) => (
+        <div
+          key={cuePoint.id}
+          className="absolute -inset-y-0.5 w-0.5 -translate-x-1/2 rounded-full bg-white/80"
+          style={{ left: toPercent(cuePoint.time, duration) }}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Popover with the A-B loop controls and the current track's cue points
+ */
+export function CuePointsMenu({
+  size = "compact",
+}: {
+  size?: "compact" | "touch"; // touch: larger target for the mobile player
+}) {
+  const {
+    currentTime,
+    cuePoints,
+    abLoop,
+    pendingLoopStart,
+    seek,
+    addCuePoint,
+    renameCuePoint,
+    removeCuePoint,
+    markLoopPoint,
+    toggleAbLoop,
+    clearAbLoop,
+  } = useGlobalPlayer();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const finishRename = () => {
+    if (editingId) renameCuePoint(editingId, draftName);
+    setEditingId(null);
+  };
+
+  const loopLabel = abLoop
+    ? `Clear loop ${formatTime(abLoop.start)}–${formatTime(abLoop.end)}`
+    : pendingLoopStart !== null
+      ? `Set loop end (from ${formatTime(pendingLoopStart)})`
+      : "Set loop start";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1 font-medium transition ${
+          size === "touch"
+            ? "touch-target text-sm"
+            : "rounded px-2 py-1 text-xs hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)]"
+        } ${
+          abLoop?.enabled || pendingLoopStart !== null
+            ? "text-[var(--color-accent)]"
+            : "text-[var(--color-subtext)]"
+        }`}
+        title="Cue points & A-B loop (C, L, ',' and '.')"
+      >
+        <Bookmark className={size === "touch" ? "h-5 w-5" : "h-3.5 w-3.5"} />
+        {abLoop ? "A-B" : cuePoints.length > 0 ? cuePoints.length : null}
+      </button>
+      {isOpen && (
+        <>
+          <div
+            className="fixed inset-0 z-10"
+            onClick={() => {
+              finishRename();
+              setIsOpen(false);
+            }}
+          />
+          <div className="absolute right-0 bottom-full z-20 mb-2 w-64 rounded-lg border border-[rgba(244,178,102,0.18)] bg-[rgba(12,18,27,0.95)] py-2 shadow-lg shadow-[rgba(5,10,18,0.6)] backdrop-blur-lg">
+            <div className="flex items-center gap-1 px-2">
+              <button
+                onClick={() => {
+                  hapticLight();
+                  markLoopPoint();
+                }}
+                className="flex-1 truncate rounded px-2 py-1.5 text-left text-sm text-[var(--color-subtext)] transition hover:bg-[rgba(244,178,102,0.12)]"
+              >
+                {loopLabel}
+              </button>
+              {abLoop && (
+                <button
+                  onClick={toggleAbLoop}
+                  className={`rounded p-1.5 transition hover:bg-[rgba(244,178,102,0.12)] ${
+                    abLoop.enabled
+                      ? "text-[var(--color-accent)]"
+                      : "text-[var(--color-subtext)]"
+                  }`}
+                  title={abLoop.enabled ? "Pause loop" : "Resume loop"}
+                >
+                  <Repeat className="h-4 w-4" />
+                </button>
+              )}
+              {pendingLoopStart !== null && (
+                <button
+                  onClick={clearAbLoop}
+                  className="rounded p-1.5 text-[var(--color-subtext)] transition hover:bg-[rgba(244,178,102,0.12)]"
+                  title="Cancel loop"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+
+            <button
+              onClick={() => {
+                hapticLight();
+                addCuePoint();
+              }}
+              className="mt-1 flex w-full items-center gap-2 border-t border-[rgba(244,178,102,0.18)] px-4 pt-2 pb-1.5 text-left text-sm text-[var(--color-subtext)] transition hover:bg-[rgba(244,178,102,0.12)]"
+            >
+              <Plus className="h-3.5 w-3.5" />
+              Add cue at {formatTime(currentTime)}
+            </button>
+
+            <div className="max-h-60 overflow-y-auto">
+              {cuePoints.map((cuePoint) => (
+                <div
+                  key={cuePoint.id}
+                  className="group flex items-center gap-2 px-4 py-1 text-sm"
+                >
+                  <span className="w-10 text-xs text-[var(--color-muted)] tabular-nums">
+                    {formatTime(cuePoint.time)}
+                  </span>
+                  {editingId === cuePoint.id ? (
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onBlur={finishRename}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") finishRename();
+                        if (e.key === "Escape") setEditingId(null);
+                      }}
+                      className="min-w-0 flex-1 rounded bg-black/30 px-1.5 py-0.5 text-[var(--color-text)] outline-none"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => seek(cuePoint.time)}
+                      className="min-w-0 flex-1 truncate text-left text-[var(--color-text)] transition hover:text-[var(--color-accent)]"
+                    >
+                      {cuePoint.name}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => {
+                      setEditingId(cuePoint.id);
+                      setDraftName(cuePoint.name);
+                    }}
+                    className="p-0.5 text-[var(--color-subtext)] transition hover:text-[var(--color-text)] md:opacity-0 md:group-hover:opacity-100"
+                    title="Rename cue"
+                  >
+                    <Pencil className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => removeCuePoint(cuePoint.id)}
+                    className="p-0.5 text-[var(--color-subtext)] transition hover:text-[var(--color-text)] md:opacity-0 md:group-hover:opacity-100"
+                    title="Delete cue"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+// File: src/components/TrackMatchReview.tsx
+
+"use client";
+
+import type { TrackMatch } from "@/utils/trackMatching";
+import { getCoverImage } from "@/utils/images";
+import { formatDuration } from "@/utils/time";
+import { CircleAlert, CircleCheck, CircleX, Search } from "lucide-react";
+import Image from "next/image";
+import { useState } from "react";
+
+export interface TrackMatchReviewItem {
+  key: string;
+  label: string; // What the imported entry said, e.g. "Artist - Title"
+  match: TrackMatch;
+  selectedTrackId: number | null; // null when the entry is skipped
+}
+
+const STATUS_DETAILS = {
+  matched: {
+    label: "Confident match",
+    summary: "confident",
+    icon: <CircleCheck className="h-4 w-4 text-[var(--color-accent)]" />,
+  },
+  ambiguous: {
+    label: "Check this match",
+    summary: "to check",
+    icon: <CircleAlert className="h-4 w-4 text-[var(--color-warning)]" />,
+  },
+  unmatched: {
+    label: "No match found",
+    summary: "not found",
+    icon: <CircleX className="h-4 w-4 text-[var(--color-danger)]" />,
+  },
+};
+
+/**
+ * Imported tracks next to the tracks they were matched to. Each one can be
+ * switched to another candidate, searched for by hand or skipped; uncertain
+ * ones can be shown on their own.
+ */
+export function TrackMatchReview({
+  items,
+  onSelect,
+  onSearch,
+}: {
+  items: TrackMatchReviewItem[];
+  onSelect: (key: string, trackId: number | null) => void;
+  onSearch?: (key: string, searchText: string) => Promise<void>;
+}) {
+  const needsReview = items.filter(
+    (item) => item.match.status !== "matched",
+  ).length;
+  const [showAll, setShowAll] = useState(needsReview === 0);
+  const [searching, setSearching] = useState<{
+    key: string;
+    text: string;
+    isPending: boolean;
+  } | null>(null);
+  const visibleItems = showAll
+    ? items
+    : items.filter((item) => item.match.status !== "matched");
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onSearch || !searching?.text.trim()) return;
+    setSearching({ ...searching, isPending: true });
+    try {
+      await onSearch(searching.key, searching.text.trim());
+      setSearching(null);
+    } catch (error) {
+      console.error("Failed to search:", error);
+      setSearching({ ...searching, isPending: false });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-[var(--color-subtext)]">
+        <span className="flex flex-wrap items-center gap-3">
+          {(["matched", "ambiguous", "unmatched"] as const).map((status) => (
+            <span key={status} className="flex items-center gap-1">
+              {STATUS_DETAILS[status].icon}
+              {items.filter((item) => item.match.status === status).length}{" "}
+              {STATUS_DETAILS[status].summary}
+            </span>
+          ))}
+        </span>
+        <button
+          onClick={() => setShowAll((prev) => !prev)}
+          className="text-accent hover:underline"
+        >
+          {showAll ? "Show only tracks to review" : "Show all tracks"}
+        </button>
+      </div>
+
+      {visibleItems.length === 0 ? (
+        <p className="text-sm text-[var(--color-muted)]">
+          Every track was matched.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {visibleItems.map((item) => {
+            const selected = item.match.candidates.find(
+              (candidate) => candidate.track.id === item.selectedTrackId,
+            );
+            return (
+              <li key={item.key} className="surface-panel space-y-3 p-3">
+                <div className="flex flex-col gap-3 md:flex-row md:items-center">
+                  <div className="flex min-w-0 flex-1 items-center gap-2">
+                    <span title={STATUS_DETAILS[item.match.status].label}>
+                      {STATUS_DETAILS[item.match.status].icon}
+                    </span>
+                    <span className="truncate text-sm text-[var(--color-text)]">
+                      {item.label}
+                    </span>
+                  </div>
+
+                  <div className="flex min-w-0 flex-1 items-center gap-3">
+                    <div className="relative h-10 w-10 flex-shrink-0 overflow-hidden rounded bg-[rgba(255,255,255,0.08)]">
+                      {selected && (
+                        <Image
+                          src={getCoverImage(selected.track, "small")}
+                          alt=""
+                          fill
+                          sizes="40px"
+                          className="object-cover"
+                        />
+                      )}
+                    </div>
+                    <select
+                      value={item.selectedTrackId ?? ""}
+                      onChange={(e) =>
+                        onSelect(
+                          item.key,
+                          e.target.value ? Number(e.target.value) : null,
+                        )
+                      }
+                      className="input-text min-w-0 flex-1 text-sm"
+                    >
+                      <option value="">
+                        {item.match.candidates.length === 0
+                          ? "No match found, skip"
+                          : "Skip this track"}
+                      </option>
+                      {item.match.candidates.map(({ track, score }) => (
+                        <option key={track.id} value={track.id}>
+                          {`${track.artist.name} - ${track.title} (${formatDuration(track.duration)}) · ${Math.round(score * 100)}%`}
+                        </option>
+                      ))}
+                    </select>
+                    {onSearch && (
+                      <button
+                        onClick={() =>
+                          setSearching(
+                            searching?.key === item.key
+                              ? null
+                              : {
+                                  key: item.key,
+                                  text: item.label,
+                                  isPending: false,
+                                },
+                          )
+                        }
+                        className="rounded-full p-2 text-[var(--color-subtext)] transition-colors hover:bg-[rgba(244,178,102,0.12)] hover:text-[var(--color-text)]"
+                        title="Search for this track"
+                        aria-label="Search for this track"
+                      >
+                        <Search className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {searching?.key === item.key && (
+                  <form onSubmit={handleSearch} className="flex gap-2">
+                    <input
+                      type="text"
+                      value={searching.text}
+                      onChange={(e) =>
+                        setSearching({ ...searching, text: e.target.value })
+                      }
+                      className="input-text flex-1 text-sm"
+                      placeholder="Artist and title"
+                      autoFocus
+                    />
+                    <button
+                      type="submit"
+                      disabled={searching.isPending || !searching.text.trim()}
+                      className="btn-secondary text-sm"
+                    >
+                      {searching.isPending ? "Searching..." : "Search"}
+                    </button>
+                  </form>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
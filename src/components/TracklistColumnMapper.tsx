@@ -0,0 +1,96 @@
+// File: src/components/TracklistColumnMapper.tsx
+
+"use client";
+
+import {
+  TRACKLIST_COLUMN_LABELS,
+  type TracklistColumn,
+  type TracklistColumnMapping,
+  type TracklistCsv,
+} from "@/utils/tracklists";
+
+const PREVIEW_ROWS = 3;
+
+/**
+ * Pick which CSV column holds the title, artist and so on, with the first
+ * rows shown as they'll be read
+ */
+export function TracklistColumnMapper({
+  csv,
+  mapping,
+  onChange,
+}: {
+  csv: TracklistCsv;
+  mapping: TracklistColumnMapping;
+  onChange: (mapping: TracklistColumnMapping) => void;
+}) {
+  const columns = Object.keys(TRACKLIST_COLUMN_LABELS) as TracklistColumn[];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-2 md:grid-cols-3">
+        {columns.map((column) => (
+          <div key={column}>
+            <label htmlFor={`column-${column}`} className="form-label">
+              {TRACKLIST_COLUMN_LABELS[column]}
+              {column === "title" && " *"}
+            </label>
+            <select
+              id={`column-${column}`}
+              value={mapping[column] ?? ""}
+              onChange={(e) =>
+                onChange({
+                  ...mapping,
+                  [column]:
+                    e.target.value === "" ? null : Number(e.target.value),
+                })
+              }
+              className="input-text"
+            >
+              <option value="">Not in the file</option>
+              {csv.headers.map((header, index) => (
+                <option key={index} value={index}>
+                  {header || `Column ${index + 1}`}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead className="text-[var(--color-subtext)]">
+            <tr>
+              {columns.map((column) => (
+                <th key={column} className="px-2 py-1 font-medium">
+                  {TRACKLIST_COLUMN_LABELS[column]}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="text-[var(--color-text)]">
+            {csv.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                {columns.map((column) => {
+                  const index = mapping[column];
+                  return (
+                    <td
+                      key={column}
+                      className="max-w-[12rem] truncate px-2 py-1"
+                    >
+                      {index === null ? "—" : (row[index] ?? "")}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-[var(--color-muted)]">
+        {csv.rows.length} row{csv.rows.length === 1 ? "" : "s"} in the file
+      </p>
+    </div>
+  );
+}
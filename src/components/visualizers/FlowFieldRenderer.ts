@@ -1,5 +1,6 @@
 // File: src/components/visualizers/FlowFieldRenderer.ts
 
+import type { BeatInfo } from "@/utils/audioAnalysis";
 import type { Pattern } from "./flowfieldPatterns/patternIds";
 import { renderHexGrid } from "./flowfieldPatterns/renderHexGrid";
 import { renderKaleidoscope } from "./flowfieldPatterns/renderKaleidoscope";
@@ -46,6 +47,8 @@ export class FlowFieldRenderer {
   private centerX = 0;
   private centerY = 0;
   private hueBase = 0;
+  // 1 on a downbeat (0.7 on other beats), decaying until the next beat
+  private beatPulse = 0;
 
   private patternTimer = 0;
   private patternDuration = 10;
@@ -663,7 +666,10 @@ export class FlowFieldRenderer {
     }
   }
 
-  private updatePatternTransition(audioIntensity: number): void {
+  private updatePatternTransition(
+    audioIntensity: number,
+    beat?: BeatInfo,
+  ): void {
     const dynamicDuration = Math.max(
       150,
       this.patternDuration - audioIntensity * 200,
@@ -693,7 +699,14 @@ export class FlowFieldRenderer {
           this.logPatternChange(this.currentPattern, "transitioned-to");
         }
       }
-    } else if (this.patternTimer > dynamicDuration) {
+    } else if (
+      this.patternTimer > dynamicDuration &&
+      // With a steady beat, switch on a downbeat (but don't wait forever)
+      (!beat ||
+        beat.confidence < 0.5 ||
+        beat.isDownbeat ||
+        this.patternTimer > dynamicDuration * 2)
+    ) {
       this.isTransitioning = true;
       this.transitionProgress = 0;
       this.patternIndex = (this.patternIndex + 1) % this.patternSequence.length;
@@ -2637,7 +2650,7 @@ export class FlowFieldRenderer {
     ctx.restore();
   }
 
-  render(dataArray: Uint8Array, bufferLength: number): void {
+  render(dataArray: Uint8Array, bufferLength: number, beat?: BeatInfo): void {
     const ctx = this.ctx;
 
     let sum = 0;
@@ -2646,12 +2659,22 @@ export class FlowFieldRenderer {
     }
     const avgFrequency = sum / bufferLength;
     const audioIntensity = Math.min(1, avgFrequency * 0.0078125);
-    const bassIntensity = this.getFrequencyBandIntensity(
+    const bassLevel = this.getFrequencyBandIntensity(
       dataArray,
       bufferLength,
       0,
       0.15,
     );
+
+    // Once the beat is tracked, pulse on it rather than on every bass flicker
+    const beatWeight = (beat?.confidence ?? 0) * 0.6;
+    if (beat?.isBeat) {
+      this.beatPulse = beat.isDownbeat ? 1 : 0.7;
+    } else {
+      this.beatPulse *= 0.88;
+    }
+    const bassIntensity =
+      bassLevel * (1 - beatWeight) + this.beatPulse * beatWeight;
     const midIntensity = this.getFrequencyBandIntensity(
       dataArray,
       bufferLength,
@@ -2666,9 +2689,11 @@ export class FlowFieldRenderer {
     );
 
     this.time += 1;
-    this.hueBase = (this.hueBase + 0.3 + bassIntensity * 1.5) % 360;
+    const downbeatShift = beat?.isDownbeat ? 12 * beat.confidence : 0;
+    this.hueBase =
+      (this.hueBase + 0.3 + bassIntensity * 1.5 + downbeatShift) % 360;
 
-    this.updatePatternTransition(audioIntensity);
+    this.updatePatternTransition(audioIntensity, beat);
 
     const trailPatterns = ["swarm", "fireworks", "starfield", "constellation"];
     const fadeAmount = trailPatterns.includes(this.currentPattern)
@@ -0,0 +1,67 @@
+// File: src/config/audioEffects.ts
+
+import type { AudioEffectsSettings, AudioEffectType } from "@/types";
+
+/**
+ * Audio effects chain configuration constants
+ */
+
+/**
+ * Available effect types, in their default processing order
+ */
+export const AUDIO_EFFECT_TYPES = [
+  "preamp",
+  "compressor",
+  "reverb",
+  "widener",
+  "balance",
+] as const satisfies readonly AudioEffectType[];
+
+/**
+ * Ranges for numeric effect parameters (used for validation and sliders)
+ */
+export const AUDIO_EFFECT_RANGES = {
+  preamp: {
+    gainDb: { min: -12, max: 12, step: 0.5 },
+  },
+  compressor: {
+    threshold: { min: -60, max: 0, step: 1 },
+    ratio: { min: 1, max: 20, step: 0.5 },
+    knee: { min: 0, max: 40, step: 1 },
+    attack: { min: 0, max: 1, step: 0.001 },
+    release: { min: 0.01, max: 1, step: 0.01 },
+    makeupDb: { min: 0, max: 24, step: 0.5 },
+  },
+  reverb: {
+    mix: { min: 0, max: 1, step: 0.01 },
+    decay: { min: 0.2, max: 8, step: 0.1 },
+  },
+  widener: {
+    width: { min: 0, max: 2, step: 0.05 },
+  },
+  balance: {
+    pan: { min: -1, max: 1, step: 0.05 },
+  },
+} as const;
+
+/**
+ * Default effects chain: everything off, neutral settings
+ */
+export const DEFAULT_AUDIO_EFFECTS: AudioEffectsSettings = {
+  order: [...AUDIO_EFFECT_TYPES],
+  effects: {
+    preamp: { enabled: false, gainDb: 0 },
+    compressor: {
+      enabled: false,
+      threshold: -24,
+      ratio: 4,
+      knee: 12,
+      attack: 0.003,
+      release: 0.25,
+      makeupDb: 0,
+    },
+    reverb: { enabled: false, mix: 0.2, decay: 2 },
+    widener: { enabled: false, width: 1.3 },
+    balance: { enabled: false, pan: 0, mono: false },
+  },
+};
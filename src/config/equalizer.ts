@@ -0,0 +1,97 @@
+// File: src/config/equalizer.ts
+
+import type { EqualizerBandLayout, EqualizerFilterType } from "@/types";
+
+/**
+ * Equalizer configuration constants
+ */
+
+/**
+ * Gain range for a single band in dB
+ */
+export const EQ_MIN_GAIN_DB = -12;
+export const EQ_MAX_GAIN_DB = 12;
+
+/**
+ * Frequency range a band can be centered on, in Hz
+ */
+export const EQ_MIN_FREQUENCY = 20;
+export const EQ_MAX_FREQUENCY = 20000;
+
+/**
+ * Q (bandwidth) range for a band
+ */
+export const EQ_MIN_Q = 0.1;
+export const EQ_MAX_Q = 18;
+
+/**
+ * Maximum number of bands in the parametric equalizer
+ */
+export const MAX_EQ_BANDS = 16;
+
+/**
+ * Maximum length of a custom preset name
+ */
+export const MAX_EQ_PRESET_NAME_LENGTH = 100;
+
+/**
+ * Filter shapes selectable per band
+ */
+export const EQ_FILTER_TYPES = [
+  "peaking",
+  "lowshelf",
+  "highshelf",
+  "lowpass",
+  "highpass",
+  "notch",
+  "bandpass",
+] as const satisfies readonly EqualizerFilterType[];
+
+/**
+ * Filter shapes that use the band gain (the others only use frequency and Q)
+ */
+export const EQ_GAIN_FILTER_TYPES: readonly EqualizerFilterType[] = [
+  "peaking",
+  "lowshelf",
+  "highshelf",
+];
+
+/**
+ * Default band layout (classic 9-band graphic EQ)
+ */
+export const DEFAULT_EQ_LAYOUT: EqualizerBandLayout[] = [
+  { frequency: 60, type: "lowshelf", Q: 1 },
+  { frequency: 170, type: "peaking", Q: 1 },
+  { frequency: 310, type: "peaking", Q: 1 },
+  { frequency: 600, type: "peaking", Q: 1 },
+  { frequency: 1000, type: "peaking", Q: 1 },
+  { frequency: 3000, type: "peaking", Q: 1 },
+  { frequency: 6000, type: "peaking", Q: 1 },
+  { frequency: 12000, type: "peaking", Q: 1 },
+  { frequency: 14000, type: "highshelf", Q: 1 },
+];
+
+/**
+ * Built-in presets, as gains for the default layout
+ */
+export const BUILT_IN_EQ_PRESETS: { name: string; bands: number[] }[] = [
+  { name: "Flat", bands: [0, 0, 0, 0, 0, 0, 0, 0, 0] },
+  { name: "Rock", bands: [5, 3, -2, -3, -1, 2, 4, 5, 5] },
+  { name: "Pop", bands: [-1, -1, 0, 2, 4, 4, 2, 0, -1] },
+  { name: "Jazz", bands: [4, 3, 1, 2, -1, -1, 0, 2, 3] },
+  { name: "Classical", bands: [5, 4, 3, 0, -1, -1, 0, 3, 4] },
+  { name: "Bass Boost", bands: [8, 6, 4, 2, 0, 0, 0, 0, 0] },
+  { name: "Treble Boost", bands: [0, 0, 0, 0, 0, 2, 4, 6, 8] },
+  { name: "Vocal", bands: [-2, -3, -2, 1, 3, 3, 2, 1, 0] },
+  { name: "Electronic", bands: [5, 4, 1, 0, -2, 2, 1, 2, 5] },
+];
+
+/**
+ * Device correction (AutoEQ / EqualizerAPO) profile limits. Correction
+ * profiles routinely use more bands and wider gains than the musical EQ.
+ */
+export const MAX_CORRECTION_BANDS = 32;
+export const CORRECTION_MAX_GAIN_DB = 30;
+export const CORRECTION_MIN_PREAMP_DB = -30;
+export const CORRECTION_MAX_PREAMP_DB = 12;
+export const MAX_CORRECTION_PROFILE_LENGTH = 20000;
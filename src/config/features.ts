@@ -17,6 +17,22 @@
  */
 export const ENABLE_AUDIO_FEATURES = false;
 
+/**
+ * In-browser Audio Analysis
+ *
+ * Analyzes played tracks in a browser worker (BPM, key, energy, loudness) and
+ * stores the results with source "browser". Needs no extra infrastructure and
+ * doesn't turn on the Essentia-backed features above; rows written by
+ * Essentia are never overwritten.
+ */
+export const ENABLE_BROWSER_AUDIO_ANALYSIS = true;
+
+/**
+ * Delay before a newly started track is analyzed in the browser (ms), so the
+ * extra download doesn't compete with playback start-up or quick skips
+ */
+export const AUDIO_ANALYSIS_DELAY_MS = 10_000;
+
 /**
  * Smart Queue Auto-Add Feature
  *
@@ -51,6 +67,7 @@ export const isFeatureEnabled = (feature: keyof typeof features) => {
 
 export const features = {
   audioFeatures: ENABLE_AUDIO_FEATURES,
+  browserAudioAnalysis: ENABLE_BROWSER_AUDIO_ANALYSIS,
   smartQueue: ENABLE_SMART_QUEUE,
 } as const;
 
@@ -0,0 +1,46 @@
+// File: src/config/jukebox.ts
+
+/**
+ * Jukebox mode configuration
+ */
+
+/**
+ * Length of the code in a jukebox's share link
+ */
+export const JUKEBOX_CODE_LENGTH = 8;
+
+/**
+ * Interval at which the jukebox page and the host refresh requests and
+ * votes, in milliseconds
+ */
+export const JUKEBOX_POLL_MS = 5_000;
+
+/**
+ * Upcoming tracks of the host's queue shown to guests
+ */
+export const JUKEBOX_QUEUE_PREVIEW = 50;
+
+/**
+ * Requests a guest can make per window
+ */
+export const JUKEBOX_REQUEST_LIMIT = 3;
+
+/**
+ * Window the request limit applies to, in milliseconds
+ */
+export const JUKEBOX_REQUEST_WINDOW_MS = 10 * 60_000;
+
+/**
+ * Votes a guest can cast per window
+ */
+export const JUKEBOX_VOTE_LIMIT = 20;
+
+/**
+ * Window the vote limit applies to, in milliseconds
+ */
+export const JUKEBOX_VOTE_WINDOW_MS = 60_000;
+
+/**
+ * Longest guest display name, in characters
+ */
+export const MAX_JUKEBOX_GUEST_NAME_LENGTH = 40;
@@ -0,0 +1,49 @@
+// File: src/config/offline.ts
+
+/**
+ * Offline downloads configuration
+ * Cache names and paths are shared with public/sw.js; keep them in sync.
+ */
+
+import type { AudioQuality } from "@/types";
+
+/**
+ * Cache Storage cache holding downloaded audio
+ */
+export const OFFLINE_AUDIO_CACHE = "hexmusic-offline-audio-v1";
+
+/**
+ * Cache Storage cache holding visited pages for offline navigation
+ */
+export const OFFLINE_PAGE_CACHE = "hexmusic-pages-v1";
+
+/**
+ * Path the service worker serves downloaded audio from: `<path><trackId>`
+ */
+export const OFFLINE_AUDIO_PATH = "/offline/audio/";
+
+/**
+ * IndexedDB database with the metadata of downloaded tracks and collections
+ */
+export const OFFLINE_DB_NAME = "hexmusic-offline";
+export const OFFLINE_DB_VERSION = 1;
+
+/**
+ * How long a download waits for the service worker to become active
+ */
+export const OFFLINE_WORKER_READY_TIMEOUT_MS = 10_000;
+
+/**
+ * Quality tracks are downloaded at unless the user picks another
+ */
+export const DEFAULT_DOWNLOAD_QUALITY: AudioQuality = "normal";
+
+/**
+ * Most tracks saved for one collection (e.g. a very long favorites list)
+ */
+export const MAX_OFFLINE_COLLECTION_TRACKS = 1000;
+
+/**
+ * Room assumed for a track before its size is known, in bytes
+ */
+export const ESTIMATED_TRACK_BYTES = 8 * 1024 * 1024;
@@ -39,6 +39,21 @@ export const AUTO_QUEUE_COUNT = 5;
  */
 export const MAX_QUEUE_SIZE = 1000;
 
+/**
+ * Queue edits kept for undo/redo
+ */
+export const MAX_QUEUE_EDITS = 30;
+
+/**
+ * Named queues a user can keep
+ */
+export const MAX_QUEUE_SNAPSHOTS = 20;
+
+/**
+ * Maximum length of a queue snapshot name
+ */
+export const MAX_QUEUE_SNAPSHOT_NAME_LENGTH = 100;
+
 /**
  * Debounce delay for seek operations in milliseconds
  */
@@ -50,15 +65,143 @@ export const SEEK_DEBOUNCE_MS = 100;
 export const PROGRESS_UPDATE_INTERVAL = 100;
 
 /**
- * Crossfade duration in milliseconds (for future use)
+ * Default crossfade duration in seconds (0 = hard cut between tracks)
+ */
+export const DEFAULT_CROSSFADE_SECONDS = 0;
+
+/**
+ * Maximum crossfade duration in seconds
+ */
+export const MAX_CROSSFADE_SECONDS = 12;
+
+/**
+ * Selectable crossfade durations in seconds
+ */
+export const CROSSFADE_OPTIONS = [0, 2, 4, 6, 8, 10, 12] as const;
+
+/**
+ * How long before the end of a track the next one starts buffering
+ * when gapless playback is enabled, in seconds
+ */
+export const GAPLESS_PREBUFFER_SECONDS = 15;
+
+/**
+ * How close to the end of a track the start of the prebuffered next one is
+ * scheduled, in seconds. Waiting for "ended" instead leaves a gap while the
+ * last buffer drains and the event is dispatched. The output switches on the
+ * AudioContext clock; the next element still starts through play(), so the
+ * switch is close to the boundary but not sample-accurate.
+ */
+export const GAPLESS_SCHEDULE_SECONDS = 1;
+
+/**
+ * Loudness normalization modes: per track, or per album to keep
+ * the relative levels the album was mastered with
+ */
+export const NORMALIZATION_MODES = ["track", "album"] as const;
+
+/**
+ * Stream qualities the backend can serve, lowest first
+ */
+export const AUDIO_QUALITIES = ["low", "normal", "high", "lossless"] as const;
+
+/**
+ * Stream quality used until the user picks one
+ */
+export const DEFAULT_AUDIO_QUALITY: (typeof AUDIO_QUALITIES)[number] = "high";
+
+/**
+ * Stalls (stalled/waiting while playing) within QUALITY_STALL_WINDOW_MS
+ * after which the player steps down one quality level
+ */
+export const QUALITY_STALL_THRESHOLD = 3;
+
+/**
+ * Window in which stalls are counted, in milliseconds
+ */
+export const QUALITY_STALL_WINDOW_MS = 30_000;
+
+/**
+ * Buffering this soon after loading or seeking is expected and not counted
+ * as a stall, in milliseconds
  */
-export const CROSSFADE_DURATION_MS = 0;
+export const QUALITY_STALL_GRACE_MS = 3_000;
+
+/**
+ * A stream that fails again after playing this many more seconds since it
+ * was last recovered starts recovery over (retrying) rather than moving on
+ * to an alternate version
+ */
+export const STREAM_RECOVERY_RESET_SECONDS = 30;
+
+/**
+ * Default normalization target in LUFS (streaming-service level)
+ */
+export const DEFAULT_NORMALIZATION_TARGET_LUFS = -14;
+
+/**
+ * Selectable normalization targets in LUFS
+ */
+export const NORMALIZATION_TARGET_OPTIONS = [-23, -18, -16, -14, -11] as const;
+
+/**
+ * Maximum gain applied by loudness normalization in either direction, in dB
+ */
+export const MAX_NORMALIZATION_GAIN_DB = 12;
 
 /**
  * Volume fade duration in milliseconds
  */
 export const VOLUME_FADE_DURATION_MS = 200;
 
+/**
+ * Sleep timer durations offered in the UI, in minutes
+ */
+export const SLEEP_TIMER_OPTIONS = [5, 15, 30, 45, 60, 90] as const;
+
+/**
+ * Selectable sleep timer fade-out lengths in seconds
+ * (0 still fades over VOLUME_FADE_DURATION_MS to avoid a click)
+ */
+export const SLEEP_FADE_OPTIONS = [0, 10, 30, 60] as const;
+
+/**
+ * Default sleep timer fade-out in seconds
+ */
+export const DEFAULT_SLEEP_FADE_SECONDS = 30;
+
+/**
+ * How often the sleep timer checks the remaining time and steps the fade
+ */
+export const SLEEP_TIMER_TICK_MS = 250;
+
+/**
+ * Maximum number of cue points saved per track
+ */
+export const MAX_CUE_POINTS_PER_TRACK = 50;
+
+/**
+ * Maximum cue point name length
+ */
+export const MAX_CUE_POINT_NAME_LENGTH = 60;
+
+/**
+ * Shortest A-B loop in seconds
+ */
+export const MIN_AB_LOOP_SECONDS = 0.5;
+
+/**
+ * Loops ending at the very end of a track wrap this many seconds early,
+ * before the audio element fires "ended"
+ */
+export const AB_LOOP_END_MARGIN_SECONDS = 0.15;
+
+/**
+ * Jumping to the previous cue within this many seconds of it goes one further
+ * back instead of restarting it (same behaviour as the previous track button)
+ */
+export const CUE_JUMP_BACK_THRESHOLD_SECONDS = 2;
+
 /**
  * Minimum playback rate
  */
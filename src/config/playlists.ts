@@ -0,0 +1,56 @@
+// File: src/config/playlists.ts
+
+/**
+ * Playlist configuration
+ */
+
+/**
+ * Length of the code in a playlist invite link
+ */
+export const PLAYLIST_INVITE_CODE_LENGTH = 12;
+
+/**
+ * How long an invite link stays valid, in days
+ */
+export const PLAYLIST_INVITE_TTL_DAYS = 7;
+
+/**
+ * Most people a playlist can be shared with, besides its owner
+ */
+export const MAX_PLAYLIST_MEMBERS = 50;
+
+/**
+ * How deep playlist folders can nest, counting the top level
+ */
+export const MAX_PLAYLIST_FOLDER_DEPTH = 5;
+
+/**
+ * Most playlist folders one user can have
+ */
+export const MAX_PLAYLIST_FOLDERS = 200;
+
+/**
+ * Score (0-1) an imported track's best search result needs to be added
+ * without review
+ */
+export const TRACK_MATCH_CONFIDENT_SCORE = 0.85;
+
+/**
+ * Lead the best result needs over the next one to count as confident
+ */
+export const TRACK_MATCH_MIN_MARGIN = 0.1;
+
+/**
+ * Score below which a search result isn't offered as a match at all
+ */
+export const TRACK_MATCH_MIN_SCORE = 0.5;
+
+/**
+ * Search results considered for each imported track
+ */
+export const TRACK_MATCH_MAX_CANDIDATES = 5;
+
+/**
+ * Most tracks "Play folder" queues, across all the folder's playlists
+ */
+export const MAX_PLAYLIST_FOLDER_QUEUE_TRACKS = 1000;
@@ -0,0 +1,35 @@
+// File: src/config/remote.ts
+
+/**
+ * Remote control and playback handoff configuration
+ */
+
+/**
+ * Interval between keep-alive comments on the event stream, in milliseconds.
+ * Proxies tend to drop connections that are quiet for 30-60 seconds.
+ */
+export const REMOTE_HEARTBEAT_MS = 25_000;
+
+/**
+ * How often a connected device refreshes its session's last activity,
+ * in milliseconds
+ */
+export const REMOTE_SESSION_PING_MS = 60_000;
+
+/**
+ * Devices not seen for this long aren't offered as targets, in milliseconds
+ */
+export const REMOTE_DEVICE_TIMEOUT_MS = 3 * 60_000;
+
+/**
+ * Longest track title or artist name a device shares in its status,
+ * in characters
+ */
+export const MAX_REMOTE_STATUS_TEXT_LENGTH = 300;
+
+/**
+ * Longest cover URL a device shares in its status, in characters. Status
+ * events travel through Postgres NOTIFY, whose payloads are limited to
+ * 8000 bytes.
+ */
+export const MAX_REMOTE_STATUS_COVER_LENGTH = 1_000;
@@ -0,0 +1,79 @@
+// File: src/config/rooms.ts
+
+/**
+ * Listening room configuration
+ */
+
+/**
+ * Length of the code in a room's join link
+ */
+export const ROOM_CODE_LENGTH = 8;
+
+/**
+ * Longest chat message, in characters
+ */
+export const MAX_ROOM_MESSAGE_LENGTH = 500;
+
+/**
+ * Chat messages and suggestions one listener can post per window
+ */
+export const ROOM_MESSAGE_LIMIT = 10;
+
+/**
+ * Window the message limit applies to, in milliseconds
+ */
+export const ROOM_MESSAGE_WINDOW_MS = 60_000;
+
+/**
+ * Longest guest display name, in characters
+ */
+export const MAX_ROOM_GUEST_NAME_LENGTH = 40;
+
+/**
+ * Largest track accepted in a room, in bytes of JSON. Room events travel
+ * through Postgres NOTIFY, whose payloads are limited to 8000 bytes.
+ */
+export const MAX_ROOM_TRACK_BYTES = 4_000;
+
+/**
+ * Messages loaded when joining a room
+ */
+export const ROOM_MESSAGE_HISTORY = 100;
+
+/**
+ * Interval at which the host republishes its position while nothing else
+ * changes, in milliseconds. Corrects participants whose streams stalled.
+ */
+export const ROOM_HOST_HEARTBEAT_MS = 10_000;
+
+/**
+ * Interval at which participants compare their position to the host's,
+ * in milliseconds
+ */
+export const ROOM_SYNC_INTERVAL_MS = 1_000;
+
+/**
+ * Drift participants ignore, in seconds
+ */
+export const ROOM_DRIFT_TOLERANCE = 0.08;
+
+/**
+ * Drift beyond which participants seek instead of catching up gradually,
+ * in seconds
+ */
+export const ROOM_DRIFT_SEEK_THRESHOLD = 1;
+
+/**
+ * How much faster or slower participants play while catching up gradually
+ */
+export const ROOM_DRIFT_RATE_ADJUST = 0.04;
+
+/**
+ * Round trips sampled when estimating the offset to the server's clock
+ */
+export const ROOM_CLOCK_SAMPLES = 5;
+
+/**
+ * Interval at which the clock offset is estimated again, in milliseconds
+ */
+export const ROOM_CLOCK_RESYNC_MS = 60_000;
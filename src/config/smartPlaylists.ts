@@ -0,0 +1,119 @@
+// File: src/config/smartPlaylists.ts
+
+import type {
+  SmartPlaylistDefinition,
+  SmartPlaylistField,
+  SmartPlaylistOperator,
+  SmartPlaylistSortField,
+} from "@/types";
+
+/**
+ * Smart playlist configuration
+ */
+
+export type SmartPlaylistFieldKind = "number" | "date" | "boolean" | "text";
+
+/**
+ * Fields rules can test, with how their values compare
+ */
+export const SMART_PLAYLIST_FIELDS: Record<
+  SmartPlaylistField,
+  { label: string; kind: SmartPlaylistFieldKind }
+> = {
+  playCount: { label: "Play count", kind: "number" },
+  skipRate: { label: "Skip rate (%)", kind: "number" },
+  lastPlayed: { label: "Last played", kind: "date" },
+  addedAt: { label: "Date added", kind: "date" },
+  favorite: { label: "Favorite", kind: "boolean" },
+  artist: { label: "Artist", kind: "text" },
+  title: { label: "Title", kind: "text" },
+  bpm: { label: "BPM", kind: "number" },
+  energy: { label: "Energy (0-1)", kind: "number" },
+  key: { label: "Key", kind: "text" },
+  explicit: { label: "Explicit", kind: "boolean" },
+};
+
+/**
+ * Operators available for each kind of field
+ */
+export const SMART_PLAYLIST_OPERATORS: Record<
+  SmartPlaylistFieldKind,
+  readonly SmartPlaylistOperator[]
+> = {
+  number: ["is", "isNot", "gt", "gte", "lt", "lte", "between"],
+  date: ["inLast", "notInLast", "before", "after"],
+  boolean: ["is"],
+  text: ["is", "isNot", "contains", "notContains"],
+};
+
+export const SMART_PLAYLIST_OPERATOR_LABELS: Record<
+  SmartPlaylistOperator,
+  string
+> = {
+  is: "is",
+  isNot: "is not",
+  contains: "contains",
+  notContains: "does not contain",
+  gt: "is greater than",
+  gte: "is at least",
+  lt: "is less than",
+  lte: "is at most",
+  between: "is between",
+  inLast: "in the last (days)",
+  notInLast: "not in the last (days)",
+  before: "is before",
+  after: "is after",
+};
+
+export const SMART_PLAYLIST_SORT_FIELDS: Record<
+  SmartPlaylistSortField,
+  string
+> = {
+  playCount: "Play count",
+  skipRate: "Skip rate",
+  lastPlayed: "Last played",
+  addedAt: "Date added",
+  bpm: "BPM",
+  energy: "Energy",
+  title: "Title",
+  artist: "Artist",
+  random: "Random",
+};
+
+/**
+ * Refresh schedules offered when editing a smart playlist
+ */
+export const SMART_PLAYLIST_REFRESH_OPTIONS: Array<{
+  hours: number | null;
+  label: string;
+}> = [
+  { hours: null, label: "Only when I refresh it" },
+  { hours: 1, label: "Every hour" },
+  { hours: 24, label: "Every day" },
+  { hours: 168, label: "Every week" },
+];
+
+/**
+ * Most rules a smart playlist can have, counting nested groups
+ */
+export const MAX_SMART_PLAYLIST_RULES = 20;
+
+/**
+ * How deep rule groups can nest
+ */
+export const MAX_SMART_PLAYLIST_DEPTH = 3;
+
+/**
+ * Most tracks a smart playlist holds, whatever its limit
+ */
+export const MAX_SMART_PLAYLIST_TRACKS = 500;
+
+export const DEFAULT_SMART_PLAYLIST: SmartPlaylistDefinition = {
+  rules: {
+    match: "all",
+    rules: [{ field: "playCount", operator: "gte", value: 3 }],
+  },
+  sort: { field: "playCount", direction: "desc" },
+  limit: 50,
+  refreshIntervalHours: 24,
+};
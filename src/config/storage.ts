@@ -17,7 +17,19 @@ export const STORAGE_KEYS = {
   // Audio player state
   VOLUME: `${STORAGE_PREFIX}volume`,
   PLAYBACK_RATE: `${STORAGE_PREFIX}playback_rate`,
+  CROSSFADE_DURATION: `${STORAGE_PREFIX}crossfade_duration`,
+  GAPLESS_PLAYBACK: `${STORAGE_PREFIX}gapless_playback`,
+  LOUDNESS_NORMALIZATION: `${STORAGE_PREFIX}loudness_normalization`,
+  DEFAULT_QUALITY: `${STORAGE_PREFIX}default_quality`,
+  DOWNLOAD_QUALITY: `${STORAGE_PREFIX}download_quality`,
+  OFFLINE_OWNER: `${STORAGE_PREFIX}offline_owner`,
+  QUALITY_OVERRIDE: `${STORAGE_PREFIX}quality_override`,
+  SLEEP_TIMER_FADE: `${STORAGE_PREFIX}sleep_timer_fade`,
+  TRACK_MARKERS: `${STORAGE_PREFIX}track_markers`,
   QUEUE_STATE: `${STORAGE_PREFIX}queue_state`,
+  ACTIVE_QUEUE_SNAPSHOT: `${STORAGE_PREFIX}active_queue_snapshot`,
+  LISTENING_ROOM: `${STORAGE_PREFIX}listening_room`,
+  GUEST_NAME: `${STORAGE_PREFIX}guest_name`,
   CURRENT_TRACK: `${STORAGE_PREFIX}current_track`,
   CURRENT_TIME: `${STORAGE_PREFIX}current_time`,
 
@@ -26,6 +38,9 @@ export const STORAGE_KEYS = {
   EQUALIZER_PRESET: `${STORAGE_PREFIX}equalizer_preset`,
   EQUALIZER_BANDS: `${STORAGE_PREFIX}equalizer_bands`,
   EQUALIZER_ENABLED: `${STORAGE_PREFIX}equalizer_enabled`,
+  EQUALIZER_LAYOUT: `${STORAGE_PREFIX}equalizer_layout`,
+  EQUALIZER_CORRECTION: `${STORAGE_PREFIX}equalizer_correction`,
+  AUDIO_EFFECTS: `${STORAGE_PREFIX}audio_effects`,
 
   // Smart queue settings
   AUTO_QUEUE_ENABLED: `${STORAGE_PREFIX}auto_queue_enabled`,
@@ -44,6 +59,7 @@ export const STORAGE_KEYS = {
   // Session/auth (consider moving to sessionStorage)
   AUTH_TOKEN: `${STORAGE_PREFIX}auth_token`,
   USER_SESSION: `${STORAGE_PREFIX}user_session`,
+  DEVICE_ID: `${STORAGE_PREFIX}device_id`,
 
   // Feature flags
   BETA_FEATURES_ENABLED: `${STORAGE_PREFIX}beta_features`,
@@ -2,17 +2,55 @@
 
 "use client";
 
+import { ENABLE_BROWSER_AUDIO_ANALYSIS } from "@/config/features";
+import {
+  DEFAULT_AUDIO_QUALITY,
+  DEFAULT_CROSSFADE_SECONDS,
+  DEFAULT_NORMALIZATION_TARGET_LUFS,
+  DEFAULT_SLEEP_FADE_SECONDS,
+  MAX_CROSSFADE_SECONDS,
+  MAX_CUE_POINTS_PER_TRACK,
+  MAX_QUEUE_SNAPSHOT_NAME_LENGTH,
+} from "@/config/player";
+import { STORAGE_KEYS } from "@/config/storage";
 import { useToast } from "@/contexts/ToastContext";
+import { useAudioFeatureAnalysis } from "@/hooks/useAudioFeatureAnalysis";
 import { useAudioPlayer } from "@/hooks/useAudioPlayer";
 import { useIsMobile } from "@/hooks/useMediaQuery";
+import { useTrackMarkers } from "@/hooks/useTrackMarkers";
+import { localStorage } from "@/services/storage";
 import { api } from "@/trpc/react";
-import type { QueuedTrack, SmartQueueState, Track } from "@/types";
+import type {
+  AbLoop,
+  AudioQuality,
+  LoudnessNormalizationSettings,
+  NormalizationMode,
+  PlayerError,
+  QueuedTrack,
+  QueueEdit,
+  QueueSnapshotState,
+  SleepTimerMode,
+  SleepTimerState,
+  SmartQueueState,
+  StreamFallback,
+  Track,
+  TrackCuePoint,
+} from "@/types";
+import type { TempoEstimate } from "@/utils/audioAnalysis";
+import { getStreamUrlById } from "@/utils/api";
+import { reviveQueueEditLog } from "@/utils/queueEdits";
+import { formatTime } from "@/utils/time";
+import {
+  computeNormalizationGainDb,
+  measureStreamLoudness,
+} from "@/utils/loudness";
 import { useSession } from "next-auth/react";
 import {
   createContext,
   useCallback,
   useContext,
   useEffect,
+  useRef,
   useState,
   type Dispatch,
   type ReactNode,
@@ -26,6 +64,7 @@ interface AudioPlayerContextType {
   queue: Track[];
   queuedTracks: QueuedTrack[];
   smartQueueState: SmartQueueState;
+  history: Track[]; // Played tracks, oldest first
   isPlaying: boolean;
   currentTime: number;
   duration: number;
@@ -34,6 +73,23 @@ interface AudioPlayerContextType {
   isShuffled: boolean;
   repeatMode: "none" | "one" | "all";
   playbackRate: number;
+  crossfadeDuration: number;
+  gaplessPlayback: boolean;
+  loudnessNormalization: LoudnessNormalizationSettings;
+  defaultQuality: AudioQuality; // Preferred stream quality
+  qualityOverride: AudioQuality | null; // Picked for this session only
+  streamQuality: AudioQuality; // Quality actually being streamed
+  streamFallback: StreamFallback | null; // Alternate version or preview playing
+  playerError: PlayerError | null; // Latest stream error, while recovering or not
+  canUndoQueueEdit: boolean;
+  canRedoQueueEdit: boolean;
+  sleepTimer: SleepTimerState | null;
+  sleepFadeSeconds: number;
+  cuePoints: TrackCuePoint[];
+  abLoop: AbLoop | null;
+  pendingLoopStart: number | null; // Loop start marked, end not yet set
+  trackBpm: number | null; // Analyzed BPM, else a steady live estimate
+  trackKey: string | null; // Analyzed musical key, e.g. "Am"
   isLoading: boolean;
   lastAutoQueueCount: number;
   showMobilePlayer: boolean;
@@ -53,25 +109,60 @@ interface AudioPlayerContextType {
   playPrevious: () => void;
   playFromQueue: (index: number) => void;
   clearQueue: () => void;
-  removeFromQueue: (index: number) => void;
+  removeFromQueue: (index: number | number[]) => void;
   reorderQueue: (oldIndex: number, newIndex: number) => void;
+  setUpcomingOrder: (queueIds: string[]) => void;
+  undoQueueEdit: () => void;
+  redoQueueEdit: () => void;
   seek: (time: number) => void;
   setVolume: (volume: number) => void;
   setIsMuted: (muted: boolean) => void;
   toggleShuffle: () => void;
   cycleRepeatMode: () => void;
   setPlaybackRate: (rate: number) => void;
+  setCrossfadeDuration: (seconds: number) => void;
+  setGaplessPlayback: (enabled: boolean) => void;
+  setLoudnessNormalization: (
+    settings: Partial<LoudnessNormalizationSettings>,
+  ) => void;
+  setDefaultQuality: (quality: AudioQuality) => void;
+  setQualityOverride: (quality: AudioQuality | null) => void;
   skipForward: () => void;
   skipBackward: () => void;
+  startSleepTimer: (
+    mode: SleepTimerMode,
+    options?: { minutes?: number; fadeSeconds?: number },
+  ) => void;
+  cancelSleepTimer: () => void;
+  setSleepFadeSeconds: (seconds: number) => void;
+
+  // Cue points & A-B loop (current track)
+  addCuePoint: (name?: string) => void;
+  renameCuePoint: (id: string, name: string) => void;
+  removeCuePoint: (id: string) => void;
+  jumpToCue: (direction: -1 | 1) => void;
+  markLoopPoint: () => void;
+  toggleAbLoop: () => void;
+  clearAbLoop: () => void;
+
+  // Steady tempo from a visualizer's beat tracker, used when no BPM is known
+  reportTempoEstimate: (estimate: TempoEstimate) => void;
 
   // Queue Management
   saveQueueAsPlaylist: () => Promise<void>;
 
+  // Named queues: the saved queue now playing, if any
+  activeQueueSnapshotId: number | null;
+  saveQueueSnapshot: () => Promise<void>;
+  switchQueue: (snapshotId: number) => Promise<void>;
+  deleteQueueSnapshot: (snapshotId: number) => Promise<void>;
+
   // Queue Safety & Cleanup
   removeDuplicates: () => void;
   cleanInvalidTracks: () => void;
   cleanQueue: () => void;
-  clearQueueAndHistory: () => void;
+  clearQueueAndHistory: (options?: { undoable?: boolean }) => void;
+  restoreQueueState: (state: QueueSnapshotState) => void;
   isValidTrack: (track: Track | null | undefined) => track is Track;
 
   // Smart Queue Operations
@@ -81,6 +172,25 @@ interface AudioPlayerContextType {
   getQueueSections: () => { userTracks: QueuedTrack[]; smartTracks: QueuedTrack[] };
 }
 
+// Saved queues come back from the database with dates as strings
+function reviveQueueSnapshotState(
+  state: QueueSnapshotState,
+): QueueSnapshotState {
+  return {
+    ...state,
+    queuedTracks: state.queuedTracks.map((qt) => ({
+      ...qt,
+      addedAt: new Date(qt.addedAt),
+    })),
+    smartQueueState: {
+      ...state.smartQueueState,
+      lastRefreshedAt: state.smartQueueState.lastRefreshedAt
+        ? new Date(state.smartQueueState.lastRefreshedAt)
+        : null,
+    },
+  };
+}
+
 const AudioPlayerContext = createContext<AudioPlayerContextType | undefined>(
   undefined,
 );
@@ -98,7 +208,13 @@ export function AudioPlayerProvider({ children }: { children: ReactNode }) {
   
   // Queue persistence mutations for logged-in users
   const saveQueueStateMutation = api.music.saveQueueState.useMutation();
+  const savePlaybackStateMutation = api.music.savePlaybackState.useMutation();
   const clearQueueStateMutation = api.music.clearQueueState.useMutation();
+  const saveQueueSnapshotMutation = api.queue.saveSnapshot.useMutation();
+  const deleteQueueSnapshotMutation = api.queue.deleteSnapshot.useMutation();
+  const [activeQueueSnapshotId, setActiveQueueSnapshotIdState] = useState<
+    number | null
+  >(() => localStorage.getOrDefault(STORAGE_KEYS.ACTIVE_QUEUE_SNAPSHOT, null));
   const { data: dbQueueState } = api.music.getQueueState.useQuery(
     undefined,
     { enabled: !!session, refetchOnWindowFocus: false },
@@ -110,9 +226,183 @@ export function AudioPlayerProvider({ children }: { children: ReactNode }) {
     { enabled: !!session },
   );
 
+  // Transition settings: stored in user preferences when signed in, locally otherwise
+  const [crossfadeDuration, setCrossfadeDurationState] = useState<number>(() =>
+    localStorage.getOrDefault(
+      STORAGE_KEYS.CROSSFADE_DURATION,
+      DEFAULT_CROSSFADE_SECONDS,
+    ),
+  );
+  const [gaplessPlayback, setGaplessPlaybackState] = useState<boolean>(() =>
+    localStorage.getOrDefault(STORAGE_KEYS.GAPLESS_PLAYBACK, true),
+  );
+  const [loudnessNormalization, setLoudnessNormalizationState] =
+    useState<LoudnessNormalizationSettings>(() =>
+      localStorage.getOrDefault<LoudnessNormalizationSettings>(
+        STORAGE_KEYS.LOUDNESS_NORMALIZATION,
+        {
+          enabled: false,
+          mode: "track",
+          targetLufs: DEFAULT_NORMALIZATION_TARGET_LUFS,
+        },
+      ),
+    );
+  const [defaultQuality, setDefaultQualityState] = useState<AudioQuality>(() =>
+    localStorage.getOrDefault<AudioQuality>(
+      STORAGE_KEYS.DEFAULT_QUALITY,
+      DEFAULT_AUDIO_QUALITY,
+    ),
+  );
+  const [sleepFadeSeconds, setSleepFadeSecondsState] = useState<number>(() =>
+    localStorage.getOrDefault(
+      STORAGE_KEYS.SLEEP_TIMER_FADE,
+      DEFAULT_SLEEP_FADE_SECONDS,
+    ),
+  );
+  const { data: userPreferences } = api.music.getUserPreferences.useQuery(
+    undefined,
+    { enabled: !!session },
+  );
+  const updatePreferencesMutation = api.music.updatePreferences.useMutation();
+
+  useEffect(() => {
+    if (userPreferences) {
+      setCrossfadeDurationState(userPreferences.crossfadeDuration);
+      setGaplessPlaybackState(userPreferences.gaplessPlayback);
+      setLoudnessNormalizationState({
+        enabled: userPreferences.normalizeVolume,
+        mode: userPreferences.normalizationMode as NormalizationMode,
+        targetLufs: userPreferences.normalizationTarget,
+      });
+      setDefaultQualityState(userPreferences.defaultQuality as AudioQuality);
+    }
+  }, [userPreferences]);
+
+  const setCrossfadeDuration = useCallback(
+    (seconds: number) => {
+      const clamped = Math.max(0, Math.min(MAX_CROSSFADE_SECONDS, seconds));
+      setCrossfadeDurationState(clamped);
+      localStorage.set(STORAGE_KEYS.CROSSFADE_DURATION, clamped);
+      if (session) {
+        updatePreferencesMutation.mutate({ crossfadeDuration: clamped });
+      }
+    },
+    [session, updatePreferencesMutation],
+  );
+
+  const setGaplessPlayback = useCallback(
+    (enabled: boolean) => {
+      setGaplessPlaybackState(enabled);
+      localStorage.set(STORAGE_KEYS.GAPLESS_PLAYBACK, enabled);
+      if (session) {
+        updatePreferencesMutation.mutate({ gaplessPlayback: enabled });
+      }
+    },
+    [session, updatePreferencesMutation],
+  );
+
+  const setLoudnessNormalization = useCallback(
+    (settings: Partial<LoudnessNormalizationSettings>) => {
+      setLoudnessNormalizationState((prev) => {
+        const next = { ...prev, ...settings };
+        localStorage.set(STORAGE_KEYS.LOUDNESS_NORMALIZATION, next);
+        return next;
+      });
+      if (session) {
+        updatePreferencesMutation.mutate({
+          normalizeVolume: settings.enabled,
+          normalizationMode: settings.mode,
+          normalizationTarget: settings.targetLufs,
+        });
+      }
+    },
+    [session, updatePreferencesMutation],
+  );
+
+  const setDefaultQuality = useCallback(
+    (quality: AudioQuality) => {
+      setDefaultQualityState(quality);
+      localStorage.set(STORAGE_KEYS.DEFAULT_QUALITY, quality);
+      if (session) {
+        updatePreferencesMutation.mutate({ defaultQuality: quality });
+      }
+    },
+    [session, updatePreferencesMutation],
+  );
+
+  const setSleepFadeSeconds = useCallback((seconds: number) => {
+    const clamped = Math.max(0, seconds);
+    setSleepFadeSecondsState(clamped);
+    localStorage.set(STORAGE_KEYS.SLEEP_TIMER_FADE, clamped);
+  }, []);
+
+  const setActiveQueueSnapshotId = useCallback((id: number | null) => {
+    setActiveQueueSnapshotIdState(id);
+    if (id === null) {
+      localStorage.remove(STORAGE_KEYS.ACTIVE_QUEUE_SNAPSHOT);
+    } else {
+      localStorage.set(STORAGE_KEYS.ACTIVE_QUEUE_SNAPSHOT, id);
+    }
+  }, []);
+
   // TRPC utils for imperative calls
   const utils = api.useUtils();
 
+  // Loudness per track (and its album), looked up once per session. Tracks
+  // without a stored measurement are measured in the browser and cached.
+  const { mutate: saveLoudness } = api.music.saveLoudness.useMutation();
+  const loudnessCacheRef = useRef(
+    new Map<number, Promise<{ track: number | null; album: number | null }>>(),
+  );
+
+  const getNormalizationGainDb = useCallback(
+    async (track: Track): Promise<number> => {
+      if (!loudnessNormalization.enabled) return 0;
+
+      const cache = loudnessCacheRef.current;
+      let loudness = cache.get(track.id);
+      if (!loudness) {
+        loudness = (async () => {
+          const stored = await utils.music.getLoudness
+            .fetch({ trackId: track.id, albumId: track.album.id })
+            .catch(() => null);
+          if (stored?.trackLoudness != null) {
+            return { track: stored.trackLoudness, album: stored.albumLoudness };
+          }
+
+          const streamUrl = await getStreamUrlById(track.id.toString()).catch(
+            () => null,
+          );
+          const measured = streamUrl
+            ? await measureStreamLoudness(streamUrl)
+            : null;
+          if (measured !== null && session && ENABLE_BROWSER_AUDIO_ANALYSIS) {
+            saveLoudness({
+              trackId: track.id,
+              albumId: track.album.id,
+              integratedLoudness: measured,
+            });
+          }
+          return { track: measured, album: stored?.albumLoudness ?? null };
+        })();
+        cache.set(track.id, loudness);
+      }
+
+      const { track: trackLoudness, album: albumLoudness } = await loudness;
+      const reference =
+        loudnessNormalization.mode === "album"
+          ? (albumLoudness ?? trackLoudness)
+          : trackLoudness;
+      if (reference === null) return 0;
+
+      return computeNormalizationGainDb(
+        reference,
+        loudnessNormalization.targetLufs,
+      );
+    },
+    [loudnessNormalization, session, utils, saveLoudness],
+  );
+
   const hasCompleteTrackData = (track: Track | null | undefined): boolean => {
     if (!track) return false;
 
@@ -205,10 +495,53 @@ export function AudioPlayerProvider({ children }: { children: ReactNode }) {
     history: (dbQueueState.history || []) as Track[],
     isShuffled: dbQueueState.isShuffled ?? false,
     repeatMode: (dbQueueState.repeatMode || "none") as "none" | "one" | "all",
+    queueEdits: reviveQueueEditLog(dbQueueState.queueEdits),
   } : undefined;
 
+  // Latest undo, for "Undo" buttons on toasts shown before it changed
+  const undoQueueEditRef = useRef<(editId?: string) => QueueEdit | null>(
+    () => null,
+  );
+
   const player = useAudioPlayer({
     initialQueueState: initialQueueState,
+    crossfadeDuration,
+    gaplessPlayback,
+    getNormalizationGainDb,
+    defaultQuality,
+    sleepFadeSeconds,
+    onSleepTimerEnd: (track, position) => {
+      // Remember exactly where we stopped so the session resumes tomorrow
+      if (session) {
+        savePlaybackStateMutation.mutate({
+          currentTrack: track,
+          currentPosition: position,
+          queue: player.queue,
+          history: player.history,
+          isShuffled: player.isShuffled,
+          repeatMode: player.repeatMode,
+        });
+      }
+      showToast(`Sleep timer ended at ${formatTime(position)}`, "info");
+    },
+    onStreamFallback: ({ kind, originalTrack }) => {
+      showToast(
+        kind === "preview"
+          ? `Couldn't stream "${originalTrack.title}", playing a 30-second preview`
+          : `Couldn't stream "${originalTrack.title}", playing another version`,
+        "info",
+      );
+    },
+    onQueueEdit: (edit) => {
+      // Reordering is visible where it happens; removals may not be
+      if (edit.type === "reorder") return;
+      showToast(edit.label, "info", 5000, {
+        label: "Undo",
+        onClick: () => {
+          undoQueueEditRef.current(edit.id);
+        },
+      });
+    },
     onTrackChange: (track) => {
       if (track && session) {
         if (hasCompleteTrackData(track)) {
@@ -258,6 +591,44 @@ export function AudioPlayerProvider({ children }: { children: ReactNode }) {
     smartQueueSettings: smartQueueSettings ?? undefined,
   });
 
+  // Fill in BPM/key/energy for tracks nobody has analyzed yet
+  const {
+    bpm: trackBpm,
+    key: trackKey,
+    reportTempoEstimate,
+  } = useAudioFeatureAnalysis(player.currentTrack);
+
+  // Cue points and A-B loop for whatever is playing
+  const getPlaybackPosition = useCallback(
+    () => player.audioRef.current?.currentTime ?? 0,
+    [player.audioRef],
+  );
+  const markers = useTrackMarkers({
+    track: player.currentTrack,
+    getPosition: getPlaybackPosition,
+    seek: player.seek,
+    setAbLoop: player.setAbLoop,
+  });
+  const { addCuePoint: addTrackCuePoint, cuePoints } = markers;
+
+  const addCuePoint = useCallback(
+    (name?: string) => {
+      const cuePoint = addTrackCuePoint(name);
+      if (cuePoint) {
+        showToast(
+          `Added "${cuePoint.name}" at ${formatTime(cuePoint.time)}`,
+          "success",
+        );
+      } else if (cuePoints.length >= MAX_CUE_POINTS_PER_TRACK) {
+        showToast(
+          `A track can have up to ${MAX_CUE_POINTS_PER_TRACK} cue points`,
+          "error",
+        );
+      }
+    },
+    [addTrackCuePoint, cuePoints.length, showToast],
+  );
+
   // Persist queue state to database when logged in (debounced)
   useEffect(() => {
     if (!session) return; // Only persist to DB if logged in
@@ -271,6 +642,7 @@ export function AudioPlayerProvider({ children }: { children: ReactNode }) {
         currentTime: player.currentTime,
         isShuffled: player.isShuffled,
         repeatMode: player.repeatMode,
+        queueEdits: player.queueEdits,
       };
       
       // If queue is empty, clear from database (queue was intentionally cleared)
@@ -293,6 +665,7 @@ export function AudioPlayerProvider({ children }: { children: ReactNode }) {
     player.currentTime,
     player.isShuffled,
     player.repeatMode,
+    player.queueEdits,
     saveQueueStateMutation,
     clearQueueStateMutation,
   ]);
@@ -310,7 +683,8 @@ export function AudioPlayerProvider({ children }: { children: ReactNode }) {
           to: currentUserId,
         },
       );
-      player.clearQueueAndHistory();
+      player.clearQueueAndHistory({ undoable: false });
+      setActiveQueueSnapshotId(null);
       
       // Clear from database if logging in (new user)
       if (currentUserId && session) {
@@ -326,7 +700,14 @@ export function AudioPlayerProvider({ children }: { children: ReactNode }) {
     }
 
     setLastUserId(currentUserId);
-  }, [session?.user?.id, lastUserId, player, showToast, clearQueueStateMutation]);
+  }, [
+    session?.user?.id,
+    lastUserId,
+    player,
+    showToast,
+    clearQueueStateMutation,
+    setActiveQueueSnapshotId,
+  ]);
 
   // Periodically clean queue (remove duplicates and invalid tracks)
   useEffect(() => {
@@ -375,6 +756,28 @@ export function AudioPlayerProvider({ children }: { children: ReactNode }) {
     [player],
   );
 
+  useEffect(() => {
+    undoQueueEditRef.current = player.undoQueueEdit;
+  }, [player.undoQueueEdit]);
+
+  const undoQueueEdit = useCallback(() => {
+    const edit = player.undoQueueEdit();
+    showToast(
+      edit ? `Undone: ${edit.label}` : "Nothing to undo in the queue",
+      "info",
+      2000,
+    );
+  }, [player, showToast]);
+
+  const redoQueueEdit = useCallback(() => {
+    const edit = player.redoQueueEdit();
+    showToast(
+      edit ? `Redone: ${edit.label}` : "Nothing to redo in the queue",
+      "info",
+      2000,
+    );
+  }, [player, showToast]);
+
   // COMMENTED OUT - Smart Queue Functions disabled
   // const addSimilarTracks = useCallback(
   //   async (trackId: number, count = 5) => {
@@ -485,12 +888,150 @@ export function AudioPlayerProvider({ children }: { children: ReactNode }) {
     utils,
   ]);
 
+  const getQueueSnapshotState = useCallback(
+    (): QueueSnapshotState => ({
+      queuedTracks: player.queuedTracks,
+      history: player.history,
+      smartQueueState: player.smartQueueState,
+      isShuffled: player.isShuffled,
+      repeatMode: player.repeatMode,
+      currentTime: player.currentTime,
+    }),
+    [player],
+  );
+
+  // Save the queue under a new name and make it the active one
+  const saveQueueSnapshot = useCallback(async () => {
+    if (!session) {
+      showToast("Sign in to save queues", "info");
+      return;
+    }
+    if (player.queuedTracks.length === 0) {
+      showToast("Queue is empty", "info");
+      return;
+    }
+
+    const defaultName = player.currentTrack
+      ? `${player.currentTrack.title} Queue`
+      : `Queue ${new Date().toLocaleDateString()}`;
+    const name = prompt("Name this queue", defaultName)?.trim();
+    if (name === undefined) return;
+    if (!name) {
+      showToast("Queue name cannot be empty", "error");
+      return;
+    }
+
+    try {
+      const snapshot = await saveQueueSnapshotMutation.mutateAsync({
+        name: name.slice(0, MAX_QUEUE_SNAPSHOT_NAME_LENGTH),
+        state: getQueueSnapshotState(),
+      });
+      if (snapshot) setActiveQueueSnapshotId(snapshot.id);
+      showToast(`Saved queue "${snapshot?.name ?? name}"`, "success");
+      void utils.queue.listSnapshots.invalidate();
+    } catch (error) {
+      console.error("[AudioPlayerContext] ❌ Failed to save queue:", error);
+      showToast(
+        error instanceof Error ? error.message : "Failed to save queue",
+        "error",
+      );
+    }
+  }, [
+    session,
+    player,
+    getQueueSnapshotState,
+    saveQueueSnapshotMutation,
+    setActiveQueueSnapshotId,
+    showToast,
+    utils,
+  ]);
+
+  // Keep the current queue (and where it's at) in its saved queue, then play
+  // another one from where it was left
+  const switchQueue = useCallback(
+    async (snapshotId: number) => {
+      if (snapshotId === activeQueueSnapshotId) return;
+
+      try {
+        if (activeQueueSnapshotId !== null) {
+          const active = await utils.queue.getSnapshot.fetch({
+            id: activeQueueSnapshotId,
+          });
+          await saveQueueSnapshotMutation.mutateAsync({
+            id: active.id,
+            name: active.name,
+            state: getQueueSnapshotState(),
+          });
+        } else if (player.queuedTracks.length > 0) {
+          // The queue isn't saved anywhere yet, so keep it before replacing it
+          const name = prompt(
+            "Save the current queue before switching? Name it, or cancel to stay on it",
+            `Queue ${new Date().toLocaleDateString()}`,
+          )?.trim();
+          if (!name) return;
+          await saveQueueSnapshotMutation.mutateAsync({
+            name: name.slice(0, MAX_QUEUE_SNAPSHOT_NAME_LENGTH),
+            state: getQueueSnapshotState(),
+          });
+        }
+
+        const snapshot = await utils.queue.getSnapshot.fetch({
+          id: snapshotId,
+        });
+        player.restoreQueueState(reviveQueueSnapshotState(snapshot.state));
+        setActiveQueueSnapshotId(snapshot.id);
+        showToast(`Switched to "${snapshot.name}"`, "success");
+      } catch (error) {
+        console.error("[AudioPlayerContext] ❌ Failed to switch queue:", error);
+        showToast(
+          error instanceof Error ? error.message : "Failed to switch queue",
+          "error",
+        );
+      } finally {
+        void utils.queue.listSnapshots.invalidate();
+      }
+    },
+    [
+      activeQueueSnapshotId,
+      player,
+      getQueueSnapshotState,
+      saveQueueSnapshotMutation,
+      setActiveQueueSnapshotId,
+      showToast,
+      utils,
+    ],
+  );
+
+  // Deleting a saved queue leaves the queue playing as it is
+  const deleteQueueSnapshot = useCallback(
+    async (snapshotId: number) => {
+      try {
+        await deleteQueueSnapshotMutation.mutateAsync({ id: snapshotId });
+        if (snapshotId === activeQueueSnapshotId) {
+          setActiveQueueSnapshotId(null);
+        }
+        void utils.queue.listSnapshots.invalidate();
+      } catch (error) {
+        console.error("[AudioPlayerContext] ❌ Failed to delete queue:", error);
+        showToast("Failed to delete saved queue", "error");
+      }
+    },
+    [
+      activeQueueSnapshotId,
+      deleteQueueSnapshotMutation,
+      setActiveQueueSnapshotId,
+      showToast,
+      utils,
+    ],
+  );
+
   const value: AudioPlayerContextType = {
     // State
     currentTrack: player.currentTrack,
     queue: player.queue,
     queuedTracks: player.queuedTracks,
     smartQueueState: player.smartQueueState,
+    history: player.history,
     isPlaying: player.isPlaying,
     currentTime: player.currentTime,
     duration: player.duration,
@@ -499,6 +1040,23 @@ export function AudioPlayerProvider({ children }: { children: ReactNode }) {
     isShuffled: player.isShuffled,
     repeatMode: player.repeatMode,
     playbackRate: player.playbackRate,
+    crossfadeDuration,
+    gaplessPlayback,
+    loudnessNormalization,
+    defaultQuality,
+    qualityOverride: player.qualityOverride,
+    streamQuality: player.streamQuality,
+    streamFallback: player.streamFallback,
+    playerError: player.playerError,
+    canUndoQueueEdit: player.canUndoQueueEdit,
+    canRedoQueueEdit: player.canRedoQueueEdit,
+    sleepTimer: player.sleepTimer,
+    sleepFadeSeconds,
+    cuePoints,
+    abLoop: markers.loop,
+    pendingLoopStart: markers.pendingLoopStart,
+    trackBpm,
+    trackKey,
     isLoading: player.isLoading,
     lastAutoQueueCount: player.lastAutoQueueCount,
     showMobilePlayer,
@@ -520,23 +1078,49 @@ export function AudioPlayerProvider({ children }: { children: ReactNode }) {
     clearQueue: player.clearQueue,
     removeFromQueue: player.removeFromQueue,
     reorderQueue: player.reorderQueue,
+    setUpcomingOrder: player.setUpcomingOrder,
+    undoQueueEdit,
+    redoQueueEdit,
     seek: player.seek,
     setVolume: player.setVolume,
     setIsMuted: player.setIsMuted,
     toggleShuffle: player.toggleShuffle,
     cycleRepeatMode: player.cycleRepeatMode,
     setPlaybackRate: player.setPlaybackRate,
+    setCrossfadeDuration,
+    setGaplessPlayback,
+    setLoudnessNormalization,
+    setDefaultQuality,
+    setQualityOverride: player.setQualityOverride,
     skipForward: player.skipForward,
     skipBackward: player.skipBackward,
+    startSleepTimer: player.startSleepTimer,
+    cancelSleepTimer: player.cancelSleepTimer,
+    setSleepFadeSeconds,
+
+    // Cue points & A-B loop
+    addCuePoint,
+    renameCuePoint: markers.renameCuePoint,
+    removeCuePoint: markers.removeCuePoint,
+    jumpToCue: markers.jumpToCue,
+    markLoopPoint: markers.markLoopPoint,
+    toggleAbLoop: markers.toggleLoop,
+    clearAbLoop: markers.clearLoop,
+    reportTempoEstimate,
 
     // Queue Management
     saveQueueAsPlaylist,
+    activeQueueSnapshotId,
+    saveQueueSnapshot,
+    switchQueue,
+    deleteQueueSnapshot,
 
     // Queue Safety & Cleanup
     removeDuplicates: player.removeDuplicates,
     cleanInvalidTracks: player.cleanInvalidTracks,
     cleanQueue: player.cleanQueue,
     clearQueueAndHistory: player.clearQueueAndHistory,
+    restoreQueueState: player.restoreQueueState,
     isValidTrack: player.isValidTrack,
 
     // Smart Queue Operations
@@ -0,0 +1,207 @@
+// File: src/contexts/JukeboxContext.tsx
+
+"use client";
+
+import { JUKEBOX_POLL_MS, JUKEBOX_QUEUE_PREVIEW } from "@/config/jukebox";
+import { useGlobalPlayer } from "@/contexts/AudioPlayerContext";
+import { useToast } from "@/contexts/ToastContext";
+import { api } from "@/trpc/react";
+import type { JukeboxQueueItem, QueuedTrack } from "@/types";
+import { logger } from "@/utils/logger";
+import { useSession } from "next-auth/react";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  type ReactNode,
+} from "react";
+
+interface JukeboxContextType {
+  jukebox: { code: string; name: string } | null; // The one being hosted
+  startJukebox: () => Promise<string | null>;
+  endJukebox: () => Promise<void>;
+}
+
+const JukeboxContext = createContext<JukeboxContextType | undefined>(undefined);
+
+function toJukeboxItem(
+  queued: QueuedTrack,
+  requestIds: Map<number, number>,
+): JukeboxQueueItem {
+  const { track } = queued;
+  return {
+    queueId: queued.queueId,
+    requestId: requestIds.get(track.id) ?? null,
+    track: {
+      id: track.id,
+      title: track.title,
+      artist: track.artist.name,
+      cover: track.album.cover_small,
+      duration: track.duration,
+    },
+  };
+}
+
+/**
+ * Runs the user's jukebox from their player: approved requests join the
+ * queue, votes order the user-sourced part of it, and the queue is shared
+ * with guests on the jukebox page
+ */
+export function JukeboxProvider({ children }: { children: ReactNode }) {
+  const { data: session } = useSession();
+  const player = useGlobalPlayer();
+  const { showToast } = useToast();
+  const utils = api.useUtils();
+
+  const { data: jukebox } = api.jukebox.getMyJukebox.useQuery(undefined, {
+    enabled: !!session,
+  });
+  const code = jukebox?.code ?? null;
+  const { data: details } = api.jukebox.getJukebox.useQuery(
+    { code: code ?? "" },
+    { enabled: !!code, refetchInterval: JUKEBOX_POLL_MS, retry: false },
+  );
+  const { mutateAsync: createJukebox } =
+    api.jukebox.createJukebox.useMutation();
+  const { mutateAsync: endJukeboxMutation } =
+    api.jukebox.endJukebox.useMutation();
+  const { mutate: publishQueue } = api.jukebox.publishQueue.useMutation({
+    onError: (error) =>
+      logger.warn("[Jukebox] Failed to publish queue:", error),
+  });
+
+  const requests = useMemo(() => details?.requests ?? [], [details]);
+  const { queuedTracks, addToQueue, setUpcomingOrder } = player;
+
+  // Requests stay linked to their track once they've been queued
+  const requestIdsRef = useRef(new Map<number, number>());
+  const queuedRequestsRef = useRef(new Set<number>());
+  const seenPendingRef = useRef<Set<number> | null>(null);
+
+  // Forget the previous jukebox's requests
+  useEffect(() => {
+    requestIdsRef.current = new Map();
+    queuedRequestsRef.current = new Set();
+    seenPendingRef.current = null;
+  }, [code]);
+
+  // Let the host know about new requests waiting for approval
+  useEffect(() => {
+    if (!details) return;
+    const pending = requests.filter((r) => r.status === "pending");
+    const seen = seenPendingRef.current;
+    seenPendingRef.current = new Set(pending.map((r) => r.id));
+    if (!seen) return;
+    const fresh = pending.filter((r) => !seen.has(r.id));
+    if (fresh.length === 1 && fresh[0]) {
+      showToast(
+        `${fresh[0].guestName} requested "${fresh[0].track.title}"`,
+        "info",
+      );
+    } else if (fresh.length > 1) {
+      showToast(`${fresh.length} new jukebox requests`, "info");
+    }
+  }, [details, requests, showToast]);
+
+  // Queue approved requests
+  useEffect(() => {
+    const queuedIds = new Set(queuedTracks.map((qt) => qt.track.id));
+    const toAdd = requests.filter(
+      (r) =>
+        r.status === "approved" &&
+        !queuedRequestsRef.current.has(r.id) &&
+        !queuedIds.has(r.track.id),
+    );
+    requests.forEach((r) => requestIdsRef.current.set(r.track.id, r.id));
+    if (toAdd.length === 0) return;
+
+    toAdd.forEach((r) => queuedRequestsRef.current.add(r.id));
+    addToQueue(toAdd.map((r) => r.track));
+  }, [requests, queuedTracks, addToQueue]);
+
+  // Order the user-sourced tracks after the current one by votes, most
+  // first, ahead of smart queue tracks. Tracks nobody voted for keep their
+  // order behind the voted ones. This isn't a queue edit the host made, so
+  // it stays out of their undo history.
+  useEffect(() => {
+    if (!code) return;
+    const votes = new Map(requests.map((r) => [r.track.id, r.votes]));
+    const section = queuedTracks.slice(1);
+    const target = [
+      ...section
+        .filter((qt) => qt.queueSource !== "smart")
+        .sort(
+          (a, b) => (votes.get(b.track.id) ?? 0) - (votes.get(a.track.id) ?? 0),
+        ),
+      ...section.filter((qt) => qt.queueSource === "smart"),
+    ];
+    if (target.every((qt, i) => qt.queueId === section[i]?.queueId)) return;
+
+    setUpcomingOrder(target.map((qt) => qt.queueId));
+  }, [code, requests, queuedTracks, setUpcomingOrder]);
+
+  // Share the queue with guests
+  useEffect(() => {
+    if (!code) return;
+    const timeout = setTimeout(() => {
+      const [nowPlaying, ...upcoming] = queuedTracks;
+      publishQueue({
+        code,
+        nowPlaying: nowPlaying
+          ? toJukeboxItem(nowPlaying, requestIdsRef.current)
+          : null,
+        queue: upcoming
+          .slice(0, JUKEBOX_QUEUE_PREVIEW)
+          .map((qt) => toJukeboxItem(qt, requestIdsRef.current)),
+      });
+    }, 1000);
+    return () => clearTimeout(timeout);
+  }, [code, queuedTracks, publishQueue]);
+
+  const startJukebox = useCallback(async () => {
+    try {
+      const { code } = await createJukebox({});
+      await utils.jukebox.getMyJukebox.invalidate();
+      return code;
+    } catch (error) {
+      logger.error("[Jukebox] Failed to start jukebox:", error);
+      showToast("Failed to start the jukebox", "error");
+      return null;
+    }
+  }, [createJukebox, utils, showToast]);
+
+  const endJukebox = useCallback(async () => {
+    if (!code) return;
+    try {
+      await endJukeboxMutation({ code });
+      await utils.jukebox.getMyJukebox.invalidate();
+      showToast("Jukebox ended", "success");
+    } catch (error) {
+      logger.error("[Jukebox] Failed to end jukebox:", error);
+      showToast("Failed to end the jukebox", "error");
+    }
+  }, [code, endJukeboxMutation, utils, showToast]);
+
+  return (
+    <JukeboxContext.Provider
+      value={{
+        jukebox: jukebox ? { code: jukebox.code, name: jukebox.name } : null,
+        startJukebox,
+        endJukebox,
+      }}
+    >
+      {children}
+    </JukeboxContext.Provider>
+  );
+}
+
+export function useJukebox() {
+  const context = useContext(JukeboxContext);
+  if (context === undefined) {
+    throw new Error("useJukebox must be used within a JukeboxProvider");
+  }
+  return context;
+}
@@ -0,0 +1,493 @@
+// File: src/contexts/ListeningRoomContext.tsx
+
+"use client";
+
+import { STORAGE_KEYS } from "@/config/storage";
+import {
+  ROOM_CLOCK_RESYNC_MS,
+  ROOM_DRIFT_RATE_ADJUST,
+  ROOM_DRIFT_SEEK_THRESHOLD,
+  ROOM_DRIFT_TOLERANCE,
+  ROOM_HOST_HEARTBEAT_MS,
+  ROOM_SYNC_INTERVAL_MS,
+} from "@/config/rooms";
+import { useGlobalPlayer } from "@/contexts/AudioPlayerContext";
+import { useRemoteControl } from "@/contexts/RemoteControlContext";
+import { useToast } from "@/contexts/ToastContext";
+import { localStorage } from "@/services/storage";
+import { api } from "@/trpc/react";
+import type {
+  ListeningRoomEvent,
+  ListeningRoomMessage,
+  ListeningRoomPlayback,
+  Track,
+} from "@/types";
+import { getDeviceId } from "@/utils/api";
+import { getExpectedPosition, syncClock } from "@/utils/clockSync";
+import { logger } from "@/utils/logger";
+import { useSession } from "next-auth/react";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+
+/**
+ * How closely this device follows the host:
+ * - idle: not in a room, or hosting it
+ * - waiting: the host isn't playing anything
+ * - syncing: catching up with the host
+ * - synced: within tolerance of the host
+ */
+export type RoomSyncStatus = "idle" | "waiting" | "syncing" | "synced";
+
+interface ListeningRoomInfo {
+  code: string;
+  name: string;
+  hostName: string;
+  hostImage: string | null;
+}
+
+interface ListeningRoomContextType {
+  room: ListeningRoomInfo | null;
+  isHost: boolean;
+  isConnected: boolean;
+  playback: ListeningRoomPlayback | null;
+  messages: ListeningRoomMessage[];
+  syncStatus: RoomSyncStatus;
+  drift: number | null; // seconds ahead of the host (negative: behind)
+  guestName: string;
+  setGuestName: (name: string) => void;
+  createRoom: () => Promise<string | null>;
+  joinRoom: (code: string) => void;
+  leaveRoom: () => void;
+  endRoom: () => Promise<void>;
+  sendMessage: (body: string) => Promise<boolean>;
+  suggestTrack: (track: Track) => Promise<boolean>;
+}
+
+const ListeningRoomContext = createContext<
+  ListeningRoomContextType | undefined
+>(undefined);
+
+/**
+ * Listening rooms: the host's playback is published to the room, and every
+ * participant's player follows it, signed in or not
+ */
+export function ListeningRoomProvider({ children }: { children: ReactNode }) {
+  const { data: session } = useSession();
+  const player = useGlobalPlayer();
+  const { sessionId } = useRemoteControl();
+  const { showToast } = useToast();
+  const utils = api.useUtils();
+
+  const [roomCode, setRoomCode] = useState<string | null>(() =>
+    localStorage.getOrDefault<string | null>(STORAGE_KEYS.LISTENING_ROOM, null),
+  );
+  const [guestName, setGuestNameState] = useState(() =>
+    localStorage.getOrDefault(STORAGE_KEYS.GUEST_NAME, ""),
+  );
+  const [isConnected, setIsConnected] = useState(false);
+  const [playback, setPlayback] = useState<ListeningRoomPlayback | null>(null);
+  const [messages, setMessages] = useState<ListeningRoomMessage[]>([]);
+  const [syncStatus, setSyncStatus] = useState<RoomSyncStatus>("idle");
+  const [drift, setDrift] = useState<number | null>(null);
+
+  const {
+    data: roomData,
+    error: roomError,
+    refetch: refetchRoom,
+  } = api.rooms.getRoom.useQuery(
+    { code: roomCode ?? "" },
+    { enabled: !!roomCode, retry: false, refetchOnWindowFocus: false },
+  );
+  const { mutateAsync: createRoomMutation } =
+    api.rooms.createRoom.useMutation();
+  const { mutate: updatePlayback } = api.rooms.updatePlayback.useMutation({
+    onError: (error) =>
+      logger.warn("[ListeningRoom] Failed to publish playback:", error),
+  });
+  const { mutateAsync: endRoomMutation } = api.rooms.endRoom.useMutation();
+  const { mutateAsync: sendMessageMutation } =
+    api.rooms.sendMessage.useMutation();
+  const { mutateAsync: suggestTrackMutation } =
+    api.rooms.suggestTrack.useMutation();
+
+  const room = roomCode && roomData?.code === roomCode ? roomData : null;
+  const isHost = !!room?.isHost;
+
+  // Latest player for timers, so they aren't restarted on every tick
+  const playerRef = useRef(player);
+  useEffect(() => {
+    playerRef.current = player;
+  }, [player]);
+
+  const setGuestName = useCallback((name: string) => {
+    setGuestNameState(name);
+    localStorage.set(STORAGE_KEYS.GUEST_NAME, name);
+  }, []);
+
+  const joinRoom = useCallback((code: string) => {
+    setRoomCode(code);
+    localStorage.set(STORAGE_KEYS.LISTENING_ROOM, code);
+  }, []);
+
+  const leaveRoom = useCallback(() => {
+    setRoomCode(null);
+    setPlayback(null);
+    setMessages([]);
+    localStorage.remove(STORAGE_KEYS.LISTENING_ROOM);
+  }, []);
+
+  // The room ended or the link was wrong
+  useEffect(() => {
+    if (!roomError) return;
+    showToast(roomError.message, "error");
+    leaveRoom();
+  }, [roomError, showToast, leaveRoom]);
+
+  // Take the room's state from a (re)fetch unless an event was newer
+  useEffect(() => {
+    if (!roomData) return;
+    setPlayback((prev) =>
+      prev && roomData.playback && prev.updatedAt > roomData.playback.updatedAt
+        ? prev
+        : roomData.playback,
+    );
+    setMessages((prev) => {
+      const byId = new Map(prev.map((message) => [message.id, message]));
+      roomData.messages.forEach((message) => byId.set(message.id, message));
+      return [...byId.values()].sort((a, b) => a.createdAt - b.createdAt);
+    });
+  }, [roomData]);
+
+  const addMessage = useCallback((message: ListeningRoomMessage) => {
+    setMessages((prev) =>
+      prev.some((m) => m.id === message.id) ? prev : [...prev, message],
+    );
+  }, []);
+
+  const handleEventRef = useRef<(event: ListeningRoomEvent) => void>(
+    () => undefined,
+  );
+  useEffect(() => {
+    handleEventRef.current = (event) => {
+      switch (event.kind) {
+        case "playback":
+          setPlayback(event.playback);
+          break;
+        case "message":
+          addMessage(event.message);
+          break;
+        case "ended":
+          if (!isHost) showToast("The listening room has ended", "info");
+          leaveRoom();
+          break;
+      }
+    };
+  }, [isHost, addMessage, leaveRoom, showToast]);
+
+  const roomId = room?.id ?? null;
+  useEffect(() => {
+    if (!roomCode || roomId === null) return;
+
+    const source = new EventSource(
+      `/api/rooms?code=${encodeURIComponent(roomCode)}`,
+    );
+    source.onopen = () => {
+      setIsConnected(true);
+      // Catch up on whatever happened while disconnected
+      void refetchRoom();
+    };
+    source.onerror = () => setIsConnected(false);
+    source.onmessage = (message: MessageEvent<string>) => {
+      try {
+        handleEventRef.current(JSON.parse(message.data) as ListeningRoomEvent);
+      } catch (error) {
+        logger.warn("[ListeningRoom] Invalid event:", error);
+      }
+    };
+
+    return () => {
+      source.close();
+      setIsConnected(false);
+    };
+  }, [roomCode, roomId, refetchRoom]);
+
+  // Host: publish playback when it changes, when it jumps (seeks), and
+  // periodically so participants correct for stalls
+  const lastPublishedRef = useRef<{ position: number; at: number } | null>(
+    null,
+  );
+  const publishPlayback = useCallback(() => {
+    if (!roomCode) return;
+    const { currentTrack, currentTime, isPlaying } = playerRef.current;
+    const position = Math.max(0, currentTime);
+    lastPublishedRef.current = { position, at: Date.now() };
+    updatePlayback({
+      code: roomCode,
+      track: currentTrack,
+      position,
+      isPlaying,
+    });
+  }, [roomCode, updatePlayback]);
+
+  const currentTrackId = player.currentTrack?.id ?? null;
+  useEffect(() => {
+    if (!isHost) return;
+    const timeout = setTimeout(publishPlayback, 300);
+    return () => clearTimeout(timeout);
+  }, [isHost, currentTrackId, player.isPlaying, publishPlayback]);
+
+  useEffect(() => {
+    if (!isHost) return;
+    const interval = setInterval(() => {
+      const last = lastPublishedRef.current;
+      const { currentTime, isPlaying } = playerRef.current;
+      if (!last || Date.now() - last.at >= ROOM_HOST_HEARTBEAT_MS) {
+        publishPlayback();
+        return;
+      }
+      const expected =
+        last.position + (isPlaying ? (Date.now() - last.at) / 1000 : 0);
+      if (Math.abs(currentTime - expected) > ROOM_DRIFT_SEEK_THRESHOLD) {
+        publishPlayback();
+      }
+    }, ROOM_SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isHost, publishPlayback]);
+
+  // Participants: estimate the offset to the server's clock
+  const clockOffsetRef = useRef(0);
+  useEffect(() => {
+    if (!roomCode || isHost) return;
+
+    let cancelled = false;
+    const sync = () => {
+      syncClock(async () => {
+        const { now } = await utils.rooms.getServerTime.fetch(undefined, {
+          staleTime: 0,
+        });
+        return now;
+      })
+        .then((offset) => {
+          if (cancelled) return;
+          clockOffsetRef.current = offset;
+          logger.debug(`[ListeningRoom] Clock offset ${Math.round(offset)}ms`);
+        })
+        .catch((error: unknown) => {
+          logger.warn("[ListeningRoom] Clock sync failed:", error);
+        });
+    };
+    sync();
+    const interval = setInterval(sync, ROOM_CLOCK_RESYNC_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [roomCode, isHost, utils]);
+
+  // Participants: follow the host's track, play state and position. Small
+  // drift is corrected by playing slightly faster or slower, large drift by
+  // seeking.
+  const requestedTrackIdRef = useRef<number | null>(null);
+  const togglingRef = useRef(false);
+  const following = !!room && !isHost;
+  useEffect(() => {
+    if (!following) {
+      setSyncStatus("idle");
+      setDrift(null);
+      return;
+    }
+
+    const resetRate = () => {
+      const { audioElement, playbackRate } = playerRef.current;
+      if (audioElement) audioElement.playbackRate = playbackRate;
+    };
+
+    const tick = () => {
+      const current = playerRef.current;
+      const audio = current.audioElement;
+
+      if (!playback?.track) {
+        if (current.isPlaying) void current.togglePlay();
+        setSyncStatus("waiting");
+        setDrift(null);
+        return;
+      }
+
+      if (current.currentTrack?.id !== playback.track.id) {
+        if (requestedTrackIdRef.current !== playback.track.id) {
+          requestedTrackIdRef.current = playback.track.id;
+          current.play(playback.track);
+        }
+        setSyncStatus("syncing");
+        setDrift(null);
+        return;
+      }
+      requestedTrackIdRef.current = null;
+      if (!audio || current.isLoading) return;
+
+      if (current.isPlaying !== playback.isPlaying && !togglingRef.current) {
+        togglingRef.current = true;
+        void current.togglePlay().finally(() => {
+          togglingRef.current = false;
+        });
+      }
+
+      const expected = getExpectedPosition(
+        playback,
+        Date.now() + clockOffsetRef.current,
+      );
+      const offBy = audio.currentTime - expected;
+      setDrift(offBy);
+
+      const absDrift = Math.abs(offBy);
+      if (
+        absDrift > ROOM_DRIFT_SEEK_THRESHOLD ||
+        (!playback.isPlaying && absDrift > ROOM_DRIFT_TOLERANCE)
+      ) {
+        resetRate();
+        current.seek(expected);
+        setSyncStatus("syncing");
+        return;
+      }
+      if (absDrift > ROOM_DRIFT_TOLERANCE) {
+        // Ahead: slow down; behind: speed up
+        const adjust =
+          offBy > 0 ? -ROOM_DRIFT_RATE_ADJUST : ROOM_DRIFT_RATE_ADJUST;
+        audio.playbackRate = current.playbackRate * (1 + adjust);
+        setSyncStatus("syncing");
+        return;
+      }
+
+      resetRate();
+      setSyncStatus("synced");
+    };
+
+    tick();
+    const interval = setInterval(tick, ROOM_SYNC_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      resetRate();
+    };
+  }, [following, playback]);
+
+  const createRoom = useCallback(async () => {
+    try {
+      const { code } = await createRoomMutation({ hostSessionId: sessionId });
+      joinRoom(code);
+      return code;
+    } catch (error) {
+      logger.error("[ListeningRoom] Failed to create room:", error);
+      showToast("Failed to start a listening room", "error");
+      return null;
+    }
+  }, [sessionId, createRoomMutation, joinRoom, showToast]);
+
+  const endRoom = useCallback(async () => {
+    if (!roomCode) return;
+    try {
+      await endRoomMutation({ code: roomCode });
+      leaveRoom();
+      showToast("Listening room ended", "success");
+    } catch (error) {
+      logger.error("[ListeningRoom] Failed to end room:", error);
+      showToast("Failed to end the listening room", "error");
+    }
+  }, [roomCode, endRoomMutation, leaveRoom, showToast]);
+
+  const sendMessage = useCallback(
+    async (body: string) => {
+      if (!roomCode) return false;
+      try {
+        addMessage(
+          await sendMessageMutation({
+            code: roomCode,
+            body,
+            guestId: session ? undefined : getDeviceId(),
+            guestName: session ? undefined : guestName || undefined,
+          }),
+        );
+        return true;
+      } catch (error) {
+        showToast(
+          error instanceof Error ? error.message : "Failed to send message",
+          "error",
+        );
+        return false;
+      }
+    },
+    [roomCode, session, guestName, sendMessageMutation, addMessage, showToast],
+  );
+
+  const suggestTrack = useCallback(
+    async (track: Track) => {
+      if (!roomCode) return false;
+      try {
+        addMessage(
+          await suggestTrackMutation({
+            code: roomCode,
+            track,
+            guestId: session ? undefined : getDeviceId(),
+            guestName: session ? undefined : guestName || undefined,
+          }),
+        );
+        showToast(`Suggested "${track.title}"`, "success");
+        return true;
+      } catch (error) {
+        showToast(
+          error instanceof Error ? error.message : "Failed to suggest track",
+          "error",
+        );
+        return false;
+      }
+    },
+    [roomCode, session, guestName, suggestTrackMutation, addMessage, showToast],
+  );
+
+  return (
+    <ListeningRoomContext.Provider
+      value={{
+        room: room
+          ? {
+              code: room.code,
+              name: room.name,
+              hostName: room.hostName,
+              hostImage: room.hostImage,
+            }
+          : null,
+        isHost,
+        isConnected,
+        playback,
+        messages,
+        syncStatus,
+        drift,
+        guestName,
+        setGuestName,
+        createRoom,
+        joinRoom,
+        leaveRoom,
+        endRoom,
+        sendMessage,
+        suggestTrack,
+      }}
+    >
+      {children}
+    </ListeningRoomContext.Provider>
+  );
+}
+
+export function useListeningRoom() {
+  const context = useContext(ListeningRoomContext);
+  if (context === undefined) {
+    throw new Error(
+      "useListeningRoom must be used within a ListeningRoomProvider",
+    );
+  }
+  return context;
+}
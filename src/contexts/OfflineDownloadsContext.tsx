@@ -0,0 +1,391 @@
+// File: src/contexts/OfflineDownloadsContext.tsx
+
+"use client";
+
+import {
+  DEFAULT_DOWNLOAD_QUALITY,
+  ESTIMATED_TRACK_BYTES,
+} from "@/config/offline";
+import { STORAGE_KEYS } from "@/config/storage";
+import { useToast } from "@/contexts/ToastContext";
+import {
+  claimOfflineData,
+  downloadTrack,
+  getDownloadedTrackIds,
+  getOfflineCollection,
+  getOfflineCollectionKey,
+  getOfflineCollections,
+  getOfflineStorageEstimate,
+  hasRoomFor,
+  isOfflineSupported,
+  reconcileOfflineTracks,
+  registerOfflineWorker,
+  removeOfflineCollection,
+  removeUnreferencedTracks,
+  requestPersistentStorage,
+  saveOfflineCollection,
+  subscribeOffline,
+  type OfflineStorageEstimate,
+} from "@/services/offline";
+import { localStorage } from "@/services/storage";
+import { api } from "@/trpc/react";
+import type {
+  AudioQuality,
+  OfflineCollection,
+  OfflineDownloadProgress,
+  Track,
+} from "@/types";
+import { getStreamUrlById } from "@/utils/api";
+import { logger } from "@/utils/logger";
+import { useSession } from "next-auth/react";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+
+/**
+ * What can be saved for offline use. Playlists and favorites are read from
+ * the server (and kept in sync); albums bring their own tracks.
+ */
+export type OfflineTarget =
+  | { kind: "playlist"; id: number }
+  | { kind: "favorites" }
+  | {
+      kind: "album";
+      id: number;
+      name: string;
+      coverImage: string | null;
+      tracks: Track[];
+    };
+
+interface OfflineDownloadsContextType {
+  isSupported: boolean;
+  isOnline: boolean;
+  collections: OfflineCollection[];
+  downloadedTrackIds: ReadonlySet<number>;
+  progress: OfflineDownloadProgress | null;
+  storage: OfflineStorageEstimate | null;
+  downloadQuality: AudioQuality;
+  setDownloadQuality: (quality: AudioQuality) => void;
+  saveForOffline: (target: OfflineTarget) => Promise<void>;
+  removeFromOffline: (key: string) => Promise<void>;
+}
+
+const OfflineDownloadsContext = createContext<
+  OfflineDownloadsContextType | undefined
+>(undefined);
+
+export function OfflineDownloadsProvider({
+  children,
+}: {
+  children: ReactNode;
+}) {
+  const { data: session } = useSession();
+  const isSignedIn = !!session;
+  const userId = session?.user?.id;
+  const { showToast } = useToast();
+  const utils = api.useUtils();
+
+  const [isSupported, setIsSupported] = useState(false);
+  const [isOnline, setIsOnline] = useState(true);
+  const [collections, setCollections] = useState<OfflineCollection[]>([]);
+  const [downloadedTrackIds, setDownloadedTrackIds] = useState<
+    ReadonlySet<number>
+  >(new Set());
+  const [progress, setProgress] = useState<OfflineDownloadProgress | null>(
+    null,
+  );
+  const [storage, setStorage] = useState<OfflineStorageEstimate | null>(null);
+  const [downloadQuality, setDownloadQualityState] = useState<AudioQuality>(
+    () =>
+      localStorage.getOrDefault<AudioQuality>(
+        STORAGE_KEYS.DOWNLOAD_QUALITY,
+        DEFAULT_DOWNLOAD_QUALITY,
+      ),
+  );
+  const downloadQualityRef = useRef(downloadQuality);
+  const isDownloadingRef = useRef(false);
+  // Tracks that failed to download this session; retried after a reload
+  const failedTrackIdsRef = useRef<Set<number>>(new Set());
+
+  const { data: userPreferences } = api.music.getUserPreferences.useQuery(
+    undefined,
+    { enabled: isSignedIn },
+  );
+  const updatePreferencesMutation = api.music.updatePreferences.useMutation();
+
+  useEffect(() => {
+    if (userPreferences) {
+      setDownloadQualityState(userPreferences.downloadQuality as AudioQuality);
+    }
+  }, [userPreferences]);
+
+  useEffect(() => {
+    downloadQualityRef.current = downloadQuality;
+  }, [downloadQuality]);
+
+  const setDownloadQuality = useCallback(
+    (quality: AudioQuality) => {
+      setDownloadQualityState(quality);
+      localStorage.set(STORAGE_KEYS.DOWNLOAD_QUALITY, quality);
+      if (isSignedIn) {
+        updatePreferencesMutation.mutate({ downloadQuality: quality });
+      }
+    },
+    [isSignedIn, updatePreferencesMutation],
+  );
+
+  const refresh = useCallback(async () => {
+    const [nextCollections, ids, estimate] = await Promise.all([
+      getOfflineCollections(),
+      getDownloadedTrackIds(),
+      getOfflineStorageEstimate(),
+    ]);
+    setCollections(nextCollections);
+    setDownloadedTrackIds(new Set(ids));
+    setStorage(estimate);
+  }, []);
+
+  // Download every track of the saved collections that isn't stored yet,
+  // one at a time, until done, offline or out of room
+  const processDownloads = useCallback(async () => {
+    if (isDownloadingRef.current) return;
+    isDownloadingRef.current = true;
+
+    const done = { completed: 0, failed: 0 };
+    let stoppedReason: OfflineDownloadProgress["stoppedReason"] = null;
+    let total = 0;
+    let averageSize = ESTIMATED_TRACK_BYTES;
+    try {
+      for (;;) {
+        const [saved, ids] = await Promise.all([
+          getOfflineCollections(),
+          getDownloadedTrackIds(),
+        ]);
+        const pending = saved
+          .flatMap((collection) => collection.tracks)
+          .filter(
+            (track, index, all) =>
+              !ids.has(track.id) &&
+              !failedTrackIdsRef.current.has(track.id) &&
+              all.findIndex((t) => t.id === track.id) === index,
+          );
+        const track = pending[0];
+        if (!track) break;
+
+        total = done.completed + done.failed + pending.length;
+        setProgress({
+          total,
+          ...done,
+          currentTrackId: track.id,
+          stoppedReason: null,
+        });
+
+        if (!navigator.onLine) {
+          stoppedReason = "offline";
+          break;
+        }
+        if (!(await hasRoomFor(averageSize))) {
+          stoppedReason = "storage_full";
+          showToast(
+            "Not enough storage left for more downloads. Remove some to make room.",
+            "error",
+          );
+          break;
+        }
+
+        const quality = downloadQualityRef.current;
+        try {
+          const streamUrl = await getStreamUrlById(
+            track.id.toString(),
+            quality,
+            { fresh: true },
+          );
+          const stored = await downloadTrack(track, streamUrl, quality);
+          done.completed++;
+          averageSize += (stored.size - averageSize) / (done.completed + 1);
+        } catch (error) {
+          logger.warn(
+            `[OfflineDownloads] Failed to download track ${track.id}:`,
+            error,
+          );
+          failedTrackIdsRef.current.add(track.id);
+          done.failed++;
+        }
+      }
+
+      // Collections removed while their tracks were downloading
+      await removeUnreferencedTracks();
+    } finally {
+      isDownloadingRef.current = false;
+      setProgress(
+        stoppedReason
+          ? {
+              total,
+              ...done,
+              currentTrackId: null,
+              stoppedReason,
+            }
+          : null,
+      );
+      await refresh().catch(() => undefined);
+    }
+
+    if (done.failed) {
+      showToast(
+        `${done.failed} track${done.failed === 1 ? "" : "s"} couldn't be downloaded`,
+        "error",
+      );
+    } else if (done.completed && !stoppedReason) {
+      showToast("Downloads complete", "success");
+    }
+  }, [refresh, showToast]);
+
+  // Re-read playlists and favorites saved for offline use, so tracks added
+  // or removed since are downloaded or deleted
+  const syncCollections = useCallback(async () => {
+    const saved = await getOfflineCollections();
+    for (const collection of saved) {
+      if (collection.kind === "album") continue;
+      try {
+        const latest = await utils.music.getOfflineCollection.fetch(
+          collection.kind === "favorites"
+            ? { kind: "favorites" }
+            : { kind: "playlist", id: collection.id! },
+        );
+        await saveOfflineCollection({
+          ...collection,
+          name: latest.name,
+          coverImage: latest.coverImage,
+          tracks: latest.tracks,
+          syncedAt: Date.now(),
+        });
+      } catch (error) {
+        logger.warn(
+          `[OfflineDownloads] Failed to sync ${collection.key}:`,
+          error,
+        );
+      }
+    }
+    await removeUnreferencedTracks();
+  }, [utils]);
+
+  // Register the service worker and load what's stored
+  useEffect(() => {
+    if (!isOfflineSupported()) return;
+    setIsSupported(true);
+    setIsOnline(navigator.onLine);
+    void registerOfflineWorker();
+    void reconcileOfflineTracks()
+      .then(refresh)
+      .catch((error) => {
+        logger.warn("[OfflineDownloads] Failed to load downloads:", error);
+      });
+
+    return subscribeOffline(() => {
+      void refresh().catch(() => undefined);
+    });
+  }, [refresh]);
+
+  // Keep saved collections in sync and resume downloads when online. Saved
+  // collections belong to the account that saved them; another one starts
+  // over.
+  useEffect(() => {
+    if (!isSupported || !isOnline) return;
+    void (async () => {
+      if (userId) {
+        await claimOfflineData(userId);
+        await syncCollections();
+      }
+      await processDownloads();
+    })().catch((error) => {
+      logger.warn("[OfflineDownloads] Sync failed:", error);
+    });
+  }, [isSupported, isOnline, userId, syncCollections, processDownloads]);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
+
+  const saveForOffline = useCallback(
+    async (target: OfflineTarget) => {
+      const id = target.kind === "favorites" ? null : target.id;
+      const key = getOfflineCollectionKey(target.kind, id);
+      const { name, coverImage, tracks } =
+        target.kind === "album"
+          ? target
+          : await utils.music.getOfflineCollection.fetch(target);
+
+      const now = Date.now();
+      const existing = await getOfflineCollection(key);
+      await saveOfflineCollection({
+        key,
+        kind: target.kind,
+        id,
+        name,
+        coverImage,
+        tracks,
+        savedAt: existing?.savedAt ?? now,
+        syncedAt: now,
+      });
+      void requestPersistentStorage();
+      showToast(
+        `Downloading ${tracks.length} track${tracks.length === 1 ? "" : "s"} from "${name}"`,
+        "info",
+      );
+
+      failedTrackIdsRef.current.clear();
+      void processDownloads();
+    },
+    [processDownloads, showToast, utils],
+  );
+
+  const removeFromOffline = useCallback(
+    async (key: string) => {
+      await removeOfflineCollection(key);
+      showToast("Removed from downloads", "success");
+    },
+    [showToast],
+  );
+
+  return (
+    <OfflineDownloadsContext.Provider
+      value={{
+        isSupported,
+        isOnline,
+        collections,
+        downloadedTrackIds,
+        progress,
+        storage,
+        downloadQuality,
+        setDownloadQuality,
+        saveForOffline,
+        removeFromOffline,
+      }}
+    >
+      {children}
+    </OfflineDownloadsContext.Provider>
+  );
+}
+
+export function useOfflineDownloads() {
+  const context = useContext(OfflineDownloadsContext);
+  if (context === undefined) {
+    throw new Error(
+      "useOfflineDownloads must be used within an OfflineDownloadsProvider",
+    );
+  }
+  return context;
+}
@@ -0,0 +1,399 @@
+// File: src/contexts/RemoteControlContext.tsx
+
+"use client";
+
+import { REMOTE_SESSION_PING_MS } from "@/config/remote";
+import { useGlobalPlayer } from "@/contexts/AudioPlayerContext";
+import { useToast } from "@/contexts/ToastContext";
+import { api } from "@/trpc/react";
+import type {
+  QueuedTrack,
+  RemoteCommand,
+  RemoteDeviceStatus,
+  RemoteEvent,
+  RepeatMode,
+} from "@/types";
+import { getDeviceId } from "@/utils/api";
+import { logger } from "@/utils/logger";
+import { useSession } from "next-auth/react";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+
+/**
+ * One of the user's devices, with what it's playing when it has said so
+ */
+export interface RemoteDevice {
+  sessionId: number;
+  name: string;
+  isCurrent: boolean;
+  status: RemoteDeviceStatus | null;
+}
+
+interface RemoteControlContextType {
+  sessionId: number | null; // This device's player session
+  isConnected: boolean;
+  devices: RemoteDevice[];
+  sendCommand: (targetSessionId: number, command: RemoteCommand) => void;
+  transferPlayback: (targetSessionId: number) => Promise<void>;
+  pullPlayback: (fromSessionId: number) => void;
+}
+
+const RemoteControlContext = createContext<
+  RemoteControlContextType | undefined
+>(undefined);
+
+// User agent markers, most specific first
+const OS_NAMES: [string, string][] = [
+  ["iPhone", "iPhone"],
+  ["iPad", "iPad"],
+  ["Android", "Android"],
+  ["Mac OS X", "Mac"],
+  ["Windows", "Windows"],
+  ["Linux", "Linux"],
+];
+const BROWSER_NAMES: [string, string][] = [
+  ["Edg/", "Edge"],
+  ["Firefox/", "Firefox"],
+  ["Chrome/", "Chrome"],
+  ["Safari/", "Safari"],
+];
+
+// Readable name for this device, e.g. "Chrome on Android"
+function getDeviceName(): string {
+  if (window.electron?.isElectron) return "Desktop app";
+
+  const ua = navigator.userAgent;
+  const os =
+    OS_NAMES.find(([marker]) => ua.includes(marker))?.[1] ?? "Unknown device";
+  const browser =
+    BROWSER_NAMES.find(([marker]) => ua.includes(marker))?.[1] ?? "Browser";
+  return `${browser} on ${os}`;
+}
+
+/**
+ * Lets the user's devices control each other and hand playback over,
+ * through the /api/remote event stream
+ */
+export function RemoteControlProvider({ children }: { children: ReactNode }) {
+  const { data: session } = useSession();
+  const isSignedIn = !!session;
+  const player = useGlobalPlayer();
+  const { showToast } = useToast();
+  const utils = api.useUtils();
+
+  const [sessionId, setSessionId] = useState<number | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+  const [statuses, setStatuses] = useState<Map<number, RemoteDeviceStatus>>(
+    new Map(),
+  );
+
+  const { mutateAsync: createSession } = api.music.createSession.useMutation();
+  const { mutate: updateSession } = api.music.updateSession.useMutation();
+  const { mutateAsync: savePlaybackState } =
+    api.music.savePlaybackState.useMutation();
+  const { mutate: sendRemoteCommand } = api.remote.sendCommand.useMutation({
+    onError: (error) => showToast(error.message, "error"),
+  });
+  const { mutateAsync: notifyTransfer } =
+    api.remote.notifyTransfer.useMutation();
+  const { mutate: reportStatus } = api.remote.reportStatus.useMutation();
+  const { data: sessions } = api.remote.getDevices.useQuery(undefined, {
+    enabled: isSignedIn && sessionId !== null,
+    refetchInterval: REMOTE_SESSION_PING_MS,
+  });
+
+  // Latest player for event handlers, so the stream isn't reopened on every
+  // playback change
+  const playerRef = useRef(player);
+  useEffect(() => {
+    playerRef.current = player;
+  }, [player]);
+
+  // Register this device while signed in
+  useEffect(() => {
+    if (!isSignedIn) {
+      setSessionId(null);
+      setStatuses(new Map());
+      return;
+    }
+
+    let cancelled = false;
+    createSession({
+      deviceId: getDeviceId(),
+      deviceName: getDeviceName(),
+      userAgent: navigator.userAgent,
+    })
+      .then(({ sessionId }) => {
+        if (!cancelled) setSessionId(sessionId);
+      })
+      .catch((error: unknown) => {
+        logger.warn("[RemoteControl] Failed to register device:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isSignedIn, createSession]);
+
+  // Keep the device listed while the app is open
+  useEffect(() => {
+    if (sessionId === null) return;
+    const interval = setInterval(
+      () => updateSession({ sessionId }),
+      REMOTE_SESSION_PING_MS,
+    );
+    return () => clearInterval(interval);
+  }, [sessionId, updateSession]);
+
+  const publishStatus = useCallback(() => {
+    if (sessionId === null) return;
+    const { currentTrack, isPlaying, currentTime, volume } = playerRef.current;
+    reportStatus({
+      sessionId,
+      track: currentTrack
+        ? {
+            id: currentTrack.id,
+            title: currentTrack.title,
+            artist: currentTrack.artist.name,
+            cover: currentTrack.album.cover_small,
+            duration: currentTrack.duration,
+          }
+        : null,
+      isPlaying,
+      position: Math.max(0, currentTime),
+      volume,
+    });
+  }, [sessionId, reportStatus]);
+
+  // Tell the other devices when what's playing here changes
+  const currentTrackId = player.currentTrack?.id ?? null;
+  useEffect(() => {
+    if (sessionId === null) return;
+    const timeout = setTimeout(publishStatus, 300);
+    return () => clearTimeout(timeout);
+  }, [
+    sessionId,
+    currentTrackId,
+    player.isPlaying,
+    player.volume,
+    publishStatus,
+  ]);
+
+  const transferPlayback = useCallback(
+    async (targetSessionId: number) => {
+      const {
+        currentTrack,
+        currentTime,
+        queue,
+        history,
+        isShuffled,
+        repeatMode,
+      } = playerRef.current;
+      if (!currentTrack) {
+        showToast("Nothing is playing", "info");
+        return;
+      }
+
+      try {
+        await savePlaybackState({
+          sessionId: targetSessionId,
+          currentTrack,
+          currentPosition: Math.floor(currentTime),
+          queue,
+          history,
+          isShuffled,
+          repeatMode,
+        });
+        await notifyTransfer({ fromSessionId: sessionId, targetSessionId });
+        if (playerRef.current.isPlaying) void playerRef.current.togglePlay();
+        const target = sessions?.find((s) => s.id === targetSessionId);
+        showToast(
+          `Playing on ${target?.deviceName ?? "another device"}`,
+          "success",
+        );
+      } catch (error) {
+        logger.error("[RemoteControl] Failed to transfer playback:", error);
+        showToast("Failed to move playback to that device", "error");
+      }
+    },
+    [sessionId, sessions, savePlaybackState, notifyTransfer, showToast],
+  );
+
+  // Pick up playback another device saved for this one
+  const receiveTransfer = useCallback(
+    async (fromSessionId: number | null) => {
+      const state = await utils.music.getPlaybackState.fetch(undefined, {
+        staleTime: 0,
+      });
+      if (!state?.currentTrack || state.sessionId !== sessionId) return;
+
+      const addedAt = new Date();
+      const queuedTracks: QueuedTrack[] = state.queue.map((track, index) => ({
+        track,
+        queueSource: "user",
+        addedAt,
+        queueId: `handoff-${track.id}-${index}-${addedAt.getTime()}`,
+      }));
+
+      const current = playerRef.current;
+      const wasSameTrack = current.currentTrack?.id === state.currentTrack.id;
+      current.restoreQueueState({
+        queuedTracks,
+        history: state.history,
+        smartQueueState: current.smartQueueState,
+        isShuffled: state.isShuffled,
+        repeatMode: state.repeatMode as RepeatMode,
+        currentTime: state.currentPosition ?? 0,
+      });
+      // A different track starts playing as soon as it loads
+      if (wasSameTrack && !current.isPlaying) void current.togglePlay();
+
+      const from = sessions?.find((s) => s.id === fromSessionId);
+      showToast(
+        `Now playing here${from?.deviceName ? ` from ${from.deviceName}` : ""}`,
+        "success",
+      );
+    },
+    [sessionId, sessions, utils, showToast],
+  );
+
+  const handleCommand = useCallback(
+    (command: RemoteCommand) => {
+      const current = playerRef.current;
+      logger.debug("[RemoteControl] Command received:", command.type);
+      switch (command.type) {
+        case "play":
+          if (!current.isPlaying) void current.togglePlay();
+          break;
+        case "pause":
+          if (current.isPlaying) void current.togglePlay();
+          break;
+        case "next":
+          current.playNext();
+          break;
+        case "previous":
+          current.playPrevious();
+          break;
+        case "seek":
+          current.seek(command.position);
+          break;
+        case "volume":
+          current.setVolume(command.volume);
+          break;
+        case "handoff":
+          void transferPlayback(command.toSessionId);
+          break;
+      }
+      // Seeking doesn't change what the status effect watches
+      if (command.type === "seek") setTimeout(publishStatus, 300);
+    },
+    [transferPlayback, publishStatus],
+  );
+
+  const handleEventRef = useRef<(event: RemoteEvent) => void>(() => undefined);
+  useEffect(() => {
+    handleEventRef.current = (event) => {
+      switch (event.kind) {
+        case "command":
+          handleCommand(event.command);
+          break;
+        case "transfer":
+          void receiveTransfer(event.fromSessionId).catch((error: unknown) => {
+            logger.error("[RemoteControl] Failed to pick up playback:", error);
+          });
+          break;
+        case "status":
+          if (event.status.sessionId === sessionId) return;
+          setStatuses((prev) =>
+            new Map(prev).set(event.status.sessionId, event.status),
+          );
+          break;
+        case "presence":
+          if (event.sessionId === sessionId) return;
+          publishStatus();
+          void utils.remote.getDevices.invalidate();
+          break;
+      }
+    };
+  }, [sessionId, handleCommand, receiveTransfer, publishStatus, utils]);
+
+  useEffect(() => {
+    if (sessionId === null) return;
+
+    const source = new EventSource(`/api/remote?sessionId=${sessionId}`);
+    source.onopen = () => setIsConnected(true);
+    source.onerror = () => setIsConnected(false);
+    source.onmessage = (message: MessageEvent<string>) => {
+      try {
+        handleEventRef.current(JSON.parse(message.data) as RemoteEvent);
+      } catch (error) {
+        logger.warn("[RemoteControl] Invalid event:", error);
+      }
+    };
+
+    return () => {
+      source.close();
+      setIsConnected(false);
+    };
+  }, [sessionId]);
+
+  const sendCommand = useCallback(
+    (targetSessionId: number, command: RemoteCommand) => {
+      sendRemoteCommand({ fromSessionId: sessionId, targetSessionId, command });
+    },
+    [sessionId, sendRemoteCommand],
+  );
+
+  // Ask another device to hand its playback over to this one
+  const pullPlayback = useCallback(
+    (fromSessionId: number) => {
+      if (sessionId === null) return;
+      sendCommand(fromSessionId, { type: "handoff", toSessionId: sessionId });
+    },
+    [sessionId, sendCommand],
+  );
+
+  const devices = useMemo(
+    (): RemoteDevice[] =>
+      (sessions ?? []).map((s) => ({
+        sessionId: s.id,
+        name: s.deviceName ?? "Unknown device",
+        isCurrent: s.id === sessionId,
+        status: statuses.get(s.id) ?? null,
+      })),
+    [sessions, sessionId, statuses],
+  );
+
+  return (
+    <RemoteControlContext.Provider
+      value={{
+        sessionId,
+        isConnected,
+        devices,
+        sendCommand,
+        transferPlayback,
+        pullPlayback,
+      }}
+    >
+      {children}
+    </RemoteControlContext.Provider>
+  );
+}
+
+export function useRemoteControl() {
+  const context = useContext(RemoteControlContext);
+  if (context === undefined) {
+    throw new Error(
+      "useRemoteControl must be used within a RemoteControlProvider",
+    );
+  }
+  return context;
+}
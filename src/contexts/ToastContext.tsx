@@ -3,6 +3,7 @@
 "use client";
 
 import Toast, { type ToastProps } from "@/components/Toast";
+import type { ToastAction } from "@/types";
 import {
   createContext,
   useCallback,
@@ -20,6 +21,7 @@ interface ToastContextType {
     message: string,
     type?: "success" | "error" | "info",
     duration?: number,
+    action?: ToastAction,
   ) => void;
 }
 
@@ -33,9 +35,10 @@ export function ToastProvider({ children }: { children: ReactNode }) {
       message: string,
       type: "success" | "error" | "info" = "success",
       duration = 3000,
+      action?: ToastAction,
     ) => {
       const id = Math.random().toString(36).substr(2, 9);
-      setToasts((prev) => [...prev, { id, message, type, duration }]);
+      setToasts((prev) => [...prev, { id, message, type, duration, action }]);
     },
     [],
   );
@@ -55,6 +58,7 @@ export function ToastProvider({ children }: { children: ReactNode }) {
             message={toast.message}
             type={toast.type}
             duration={toast.duration}
+            action={toast.action}
             onClose={() => removeToast(toast.id)}
           />
         ))}
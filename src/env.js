@@ -21,6 +21,15 @@ export const env = createEnv({
       .enum(["development", "test", "production"])
       .default("development"),
     STREAMING_KEY: z.string(),
+    // On-disk stream cache (see src/server/services/streamCache.ts)
+    STREAM_CACHE_DIR: z.string().optional(),
+    STREAM_CACHE_MAX_MB: z.string().regex(/^\d+$/).optional(), // 0 disables the cache
+    STREAM_CACHE_MAX_FILE_MB: z.string().regex(/^\d+$/).optional(),
+    // Signed stream URLs (see src/server/services/streamAuth.ts)
+    STREAM_URL_SECRET: z.string().min(32), // Defaults to AUTH_SECRET
+    STREAM_URL_TTL_SECONDS: z.string().regex(/^\d+$/).optional(),
+    STREAM_MAX_CONCURRENT: z.string().regex(/^\d+$/).optional(),
+    STREAM_ANONYMOUS_TRACKS_PER_HOUR: z.string().regex(/^\d+$/).optional(), // 0 requires sign-in
     SONGBIRD_API_KEY: z.string().optional(),
     ELECTRON_BUILD: z
       .string()
@@ -49,6 +58,15 @@ export const env = createEnv({
     NEXT_PUBLIC_SONGBIRD_API_URL: process.env.NEXT_PUBLIC_SONGBIRD_API_URL,
     NEXT_PUBLIC_NEXTAUTH_URL: process.env.NEXT_PUBLIC_NEXTAUTH_URL,
     STREAMING_KEY: process.env.STREAMING_KEY,
+    STREAM_CACHE_DIR: process.env.STREAM_CACHE_DIR,
+    STREAM_CACHE_MAX_MB: process.env.STREAM_CACHE_MAX_MB,
+    STREAM_CACHE_MAX_FILE_MB: process.env.STREAM_CACHE_MAX_FILE_MB,
+    // `||` so an empty STREAM_URL_SECRET= also falls back
+    STREAM_URL_SECRET: process.env.STREAM_URL_SECRET || process.env.AUTH_SECRET,
+    STREAM_URL_TTL_SECONDS: process.env.STREAM_URL_TTL_SECONDS,
+    STREAM_MAX_CONCURRENT: process.env.STREAM_MAX_CONCURRENT,
+    STREAM_ANONYMOUS_TRACKS_PER_HOUR:
+      process.env.STREAM_ANONYMOUS_TRACKS_PER_HOUR,
     SONGBIRD_API_KEY: process.env.SONGBIRD_API_KEY,
     ELECTRON_BUILD: process.env.ELECTRON_BUILD,
   },
@@ -0,0 +1,292 @@
+// File: src/hooks/useAudioEffects.ts
+
+"use client";
+
+import {
+  AUDIO_EFFECT_TYPES,
+  DEFAULT_AUDIO_EFFECTS,
+} from "@/config/audioEffects";
+import { STORAGE_KEYS } from "@/config/storage";
+import { localStorage as storage } from "@/services/storage";
+import { api } from "@/trpc/react";
+import type {
+  AudioEffectParams,
+  AudioEffectsSettings,
+  AudioEffectType,
+} from "@/types";
+import {
+  getAudioConnectionKey,
+  getOrCreateAudioConnection,
+  registerEffectStage,
+  releaseAudioConnection,
+  reorderEffectStages,
+  setEffectStageBypassed,
+  unregisterEffectStage,
+  type AudioConnection,
+} from "@/utils/audioContextManager";
+import { createAudioEffect, type AudioEffectUnit } from "@/utils/audioEffects";
+import { useSession } from "next-auth/react";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+type EffectUnits = {
+  [K in AudioEffectType]?: AudioEffectUnit<AudioEffectParams[K]>;
+};
+
+// Fill in effects added since the settings were saved
+const withDefaults = (
+  stored: Partial<AudioEffectsSettings> | null | undefined,
+): AudioEffectsSettings => {
+  const order = (stored?.order ?? []).filter((type) =>
+    AUDIO_EFFECT_TYPES.includes(type),
+  );
+
+  return {
+    order: [
+      ...new Set([...order, ...DEFAULT_AUDIO_EFFECTS.order]),
+    ] as AudioEffectType[],
+    effects: {
+      preamp: {
+        ...DEFAULT_AUDIO_EFFECTS.effects.preamp,
+        ...stored?.effects?.preamp,
+      },
+      compressor: {
+        ...DEFAULT_AUDIO_EFFECTS.effects.compressor,
+        ...stored?.effects?.compressor,
+      },
+      reverb: {
+        ...DEFAULT_AUDIO_EFFECTS.effects.reverb,
+        ...stored?.effects?.reverb,
+      },
+      widener: {
+        ...DEFAULT_AUDIO_EFFECTS.effects.widener,
+        ...stored?.effects?.widener,
+      },
+      balance: {
+        ...DEFAULT_AUDIO_EFFECTS.effects.balance,
+        ...stored?.effects?.balance,
+      },
+    },
+  };
+};
+
+export function useAudioEffects(playerElement: HTMLAudioElement | null) {
+  // The shared connection's key stays the same when the player moves
+  // playback to its other element between tracks
+  const audioElement = playerElement && getAudioConnectionKey(playerElement);
+  const connectionRef = useRef<AudioConnection | null>(null);
+  const unitsRef = useRef<EffectUnits>({});
+  const appliedOrderRef = useRef<string>("");
+  const debounceTimerRef = useRef<number | null>(null);
+
+  const [isInitialized, setIsInitialized] = useState(false);
+  const [settings, setSettings] = useState<AudioEffectsSettings>(
+    DEFAULT_AUDIO_EFFECTS,
+  );
+
+  const { status } = useSession();
+  const isAuthenticated = status === "authenticated";
+
+  const { data: preferences } = api.music.getUserPreferences.useQuery(
+    undefined,
+    {
+      refetchOnWindowFocus: false,
+      enabled: isAuthenticated,
+    },
+  );
+
+  const updatePreferencesMutation = api.music.updatePreferences.useMutation({
+    onError: (error) => {
+      console.error("Failed to save audio effects:", error.message);
+    },
+  });
+
+  // Bring the connection's effect stages in line with the settings.
+  // Units are created lazily the first time an effect is enabled and then
+  // only bypassed, so toggling never rebuilds the node graph.
+  const applySettings = useCallback((next: AudioEffectsSettings) => {
+    const connection = connectionRef.current;
+    if (!connection) return;
+
+    const syncEffect = <K extends AudioEffectType>(type: K) => {
+      const state = next.effects[type];
+      const units = unitsRef.current as {
+        [T in K]?: AudioEffectUnit<AudioEffectParams[T]>;
+      };
+      const unit = units[type];
+
+      if (!unit) {
+        if (!state.enabled) return;
+        const created = createAudioEffect(connection.audioContext, type, state);
+        units[type] = created;
+        registerEffectStage(connection, {
+          id: type,
+          input: created.input,
+          output: created.output,
+          bypassed: false,
+        });
+        return;
+      }
+
+      unit.update(state);
+      setEffectStageBypassed(connection, type, !state.enabled);
+    };
+
+    AUDIO_EFFECT_TYPES.forEach(syncEffect);
+
+    const orderKey = next.order.join(",");
+    if (appliedOrderRef.current !== orderKey) {
+      appliedOrderRef.current = orderKey;
+      reorderEffectStages(connection, next.order);
+    }
+  }, []);
+
+  // Load saved settings from the server, or local storage when signed out
+  useEffect(() => {
+    if (isAuthenticated && preferences) {
+      const loaded = withDefaults(preferences.audioEffects);
+      setSettings(loaded);
+      applySettings(loaded);
+      void storage.set(STORAGE_KEYS.AUDIO_EFFECTS, loaded);
+    } else if (!isAuthenticated && status !== "loading") {
+      const loaded = withDefaults(
+        storage.getOrDefault<AudioEffectsSettings | null>(
+          STORAGE_KEYS.AUDIO_EFFECTS,
+          null,
+        ),
+      );
+      setSettings(loaded);
+      applySettings(loaded);
+    }
+  }, [applySettings, isAuthenticated, preferences, status]);
+
+  // Apply a settings change everywhere: state, nodes, local storage and
+  // (debounced, so slider drags don't flood the API) the database
+  const commitSettings = useCallback(
+    (next: AudioEffectsSettings) => {
+      setSettings(next);
+      applySettings(next);
+      void storage.set(STORAGE_KEYS.AUDIO_EFFECTS, next);
+
+      if (debounceTimerRef.current) {
+        clearTimeout(debounceTimerRef.current);
+        debounceTimerRef.current = null;
+      }
+
+      if (isAuthenticated) {
+        debounceTimerRef.current = window.setTimeout(() => {
+          updatePreferencesMutation.mutate({ audioEffects: next });
+        }, 1000);
+      }
+    },
+    [applySettings, isAuthenticated, updatePreferencesMutation],
+  );
+
+  const setEffectEnabled = useCallback(
+    (type: AudioEffectType, enabled: boolean) => {
+      commitSettings({
+        ...settings,
+        effects: {
+          ...settings.effects,
+          [type]: { ...settings.effects[type], enabled },
+        },
+      });
+    },
+    [commitSettings, settings],
+  );
+
+  const updateEffect = useCallback(
+    <K extends AudioEffectType>(
+      type: K,
+      params: Partial<AudioEffectParams[K]>,
+    ) => {
+      commitSettings({
+        ...settings,
+        effects: {
+          ...settings.effects,
+          [type]: { ...settings.effects[type], ...params },
+        },
+      });
+    },
+    [commitSettings, settings],
+  );
+
+  // Move an effect one step earlier (-1) or later (1) in the chain
+  const moveEffect = useCallback(
+    (type: AudioEffectType, direction: -1 | 1) => {
+      const index = settings.order.indexOf(type);
+      const target = index + direction;
+      if (index === -1 || target < 0 || target >= settings.order.length) {
+        return;
+      }
+
+      const order = [...settings.order];
+      [order[index], order[target]] = [order[target]!, order[index]!];
+      commitSettings({ ...settings, order });
+    },
+    [commitSettings, settings],
+  );
+
+  const reset = useCallback(() => {
+    commitSettings(DEFAULT_AUDIO_EFFECTS);
+  }, [commitSettings]);
+
+  // Attach to the shared audio connection
+  const initialize = useCallback(() => {
+    if (!audioElement || connectionRef.current) return;
+
+    const connection = getOrCreateAudioConnection(audioElement);
+    if (!connection) return;
+
+    connectionRef.current = connection;
+    appliedOrderRef.current = "";
+    applySettings(settings);
+    setIsInitialized(true);
+  }, [applySettings, audioElement, settings]);
+
+  // The AudioContext needs a user gesture, so attach on the first click
+  useEffect(() => {
+    if (audioElement && !isInitialized) {
+      document.addEventListener("click", initialize, { once: true });
+
+      return () => {
+        document.removeEventListener("click", initialize);
+      };
+    }
+  }, [audioElement, isInitialized, initialize]);
+
+  // Tear down our stages and release the connection
+  useEffect(() => {
+    const units = unitsRef.current;
+
+    return () => {
+      if (debounceTimerRef.current) {
+        clearTimeout(debounceTimerRef.current);
+      }
+
+      const connection = connectionRef.current;
+      if (connection) {
+        AUDIO_EFFECT_TYPES.forEach((type) => {
+          unregisterEffectStage(connection, type);
+          units[type]?.dispose();
+          delete units[type];
+        });
+      }
+
+      if (audioElement && connection) {
+        releaseAudioConnection(audioElement);
+      }
+      connectionRef.current = null;
+      setIsInitialized(false);
+    };
+  }, [audioElement]);
+
+  return {
+    isInitialized,
+    settings,
+    setEffectEnabled,
+    updateEffect,
+    moveEffect,
+    reset,
+    initialize,
+  };
+}
@@ -0,0 +1,210 @@
+// File: src/hooks/useAudioFeatureAnalysis.ts
+
+"use client";
+
+import {
+  AUDIO_ANALYSIS_DELAY_MS,
+  ENABLE_BROWSER_AUDIO_ANALYSIS,
+} from "@/config/features";
+import { api } from "@/trpc/react";
+import type { BrowserAudioFeatures, Track } from "@/types";
+import type { TempoEstimate } from "@/utils/audioAnalysis";
+import { getStreamUrlById } from "@/utils/api";
+import { logger } from "@/utils/logger";
+import { decodeStreamHead, measureIntegratedLoudness } from "@/utils/loudness";
+import { useSession } from "next-auth/react";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// Tempo and key don't need more than this; keeps the worker's FFTs cheap
+const ANALYSIS_SAMPLE_RATE = 22050;
+
+// Mix down to mono and resample for analysis
+async function renderAnalysisSignal(
+  buffer: AudioBuffer,
+): Promise<Float32Array> {
+  const length = Math.ceil(
+    (buffer.length * ANALYSIS_SAMPLE_RATE) / buffer.sampleRate,
+  );
+  const offline = new OfflineAudioContext(1, length, ANALYSIS_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start();
+
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+}
+
+function runAnalysisWorker(
+  samples: Float32Array,
+  signal: AbortSignal,
+): Promise<BrowserAudioFeatures> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(
+      new URL("../workers/audioFeatures.worker.ts", import.meta.url),
+    );
+    const finish = () => {
+      worker.terminate();
+      signal.removeEventListener("abort", handleAbort);
+    };
+    const handleAbort = () => {
+      finish();
+      reject(new Error("Analysis aborted"));
+    };
+
+    worker.onmessage = (
+      event: MessageEvent<{ features?: BrowserAudioFeatures; error?: string }>,
+    ) => {
+      finish();
+      if (event.data.features) {
+        resolve(event.data.features);
+      } else {
+        reject(new Error(event.data.error ?? "Analysis failed"));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message));
+    };
+    signal.addEventListener("abort", handleAbort);
+
+    worker.postMessage({ samples, sampleRate: ANALYSIS_SAMPLE_RATE }, [
+      samples.buffer,
+    ]);
+  });
+}
+
+/**
+ * Analyze tracks in the browser when nobody has yet: estimates BPM, key,
+ * energy and loudness from the head of the stream and uploads them to
+ * audio_features. Runs once per track and session, for signed-in users.
+ *
+ * Returns the track's BPM, falling back to a steady estimate from the live
+ * beat tracker (passed in through `reportTempoEstimate`) when the analysis
+ * found none; that estimate is saved too. Also returns its key when known.
+ */
+export function useAudioFeatureAnalysis(track: Track | null) {
+  const { status } = useSession();
+  const isAuthenticated = status === "authenticated";
+  const utils = api.useUtils();
+  const { mutate: saveAudioFeatures } =
+    api.music.saveAudioFeatures.useMutation();
+  const { mutate: saveTempoEstimate } =
+    api.music.saveTempoEstimate.useMutation();
+  const attemptedRef = useRef(new Set<number>());
+  const estimatedRef = useRef(new Set<number>());
+  const [liveTempo, setLiveTempo] = useState<{
+    trackId: number;
+    bpm: number;
+  } | null>(null);
+  // Depend on the ids only: the track object is recreated by queue updates
+  const trackId = track?.id ?? null;
+  const albumId = track?.album.id;
+
+  const canSave = ENABLE_BROWSER_AUDIO_ANALYSIS && isAuthenticated;
+  const { data: storedFeatures, isPending } =
+    api.music.getAudioFeatures.useQuery(
+      { trackId: trackId ?? 0 },
+      { enabled: canSave && trackId !== null },
+    );
+  const storedBpm = storedFeatures?.bpm ?? null;
+
+  useEffect(() => {
+    if (!ENABLE_BROWSER_AUDIO_ANALYSIS || !isAuthenticated || trackId === null)
+      return;
+    if (attemptedRef.current.has(trackId)) return;
+
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const analyze = async () => {
+      const existing = await utils.music.getAudioFeatures
+        .fetch({ trackId })
+        .catch(() => null);
+      if (signal.aborted) return;
+      if (existing?.bpm != null && existing.key != null) {
+        attemptedRef.current.add(trackId);
+        return;
+      }
+
+      const streamUrl = await getStreamUrlById(trackId.toString());
+      if (signal.aborted) return;
+      const buffer = await decodeStreamHead(streamUrl, signal);
+      if (!buffer || signal.aborted) return;
+
+      const [samples, integratedLoudness] = await Promise.all([
+        renderAnalysisSignal(buffer),
+        measureIntegratedLoudness(buffer).catch(() => null),
+      ]);
+      const features = await runAnalysisWorker(samples, signal);
+      // Done (or failed for good): don't analyze this track again this session
+      attemptedRef.current.add(trackId);
+
+      saveAudioFeatures(
+        {
+          trackId,
+          albumId,
+          bpm: features.bpm,
+          key: features.key,
+          energy: features.energy,
+          loudness: Math.max(-120, Math.min(0, features.loudness)),
+          spectralCentroid: features.spectralCentroid,
+          integratedLoudness,
+        },
+        {
+          onSuccess: () =>
+            void utils.music.getAudioFeatures.invalidate({
+              trackId,
+            }),
+        },
+      );
+      logger.debug("[useAudioFeatureAnalysis] Analyzed track", trackId, {
+        ...features,
+        integratedLoudness,
+      });
+    };
+
+    const timer = setTimeout(() => {
+      analyze().catch((error) => {
+        if (signal.aborted) return;
+        attemptedRef.current.add(trackId);
+        logger.warn("[useAudioFeatureAnalysis] Analysis failed:", error);
+      });
+    }, AUDIO_ANALYSIS_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [albumId, isAuthenticated, saveAudioFeatures, trackId, utils]);
+
+  const reportTempoEstimate = useCallback(
+    (estimate: TempoEstimate) => {
+      if (trackId === null || estimatedRef.current.has(trackId)) return;
+      // Wait for what's stored; a measured BPM always wins
+      if ((canSave && isPending) || storedBpm !== null) return;
+
+      estimatedRef.current.add(trackId);
+      setLiveTempo({ trackId, bpm: estimate.bpm });
+      logger.debug("[useAudioFeatureAnalysis] Live tempo", trackId, estimate);
+
+      if (canSave) {
+        saveTempoEstimate(
+          { trackId, albumId, bpm: estimate.bpm },
+          {
+            onSuccess: () =>
+              void utils.music.getAudioFeatures.invalidate({ trackId }),
+          },
+        );
+      }
+    },
+    [albumId, canSave, isPending, saveTempoEstimate, storedBpm, trackId, utils],
+  );
+
+  const bpm =
+    storedBpm ?? (liveTempo?.trackId === trackId ? liveTempo.bpm : null);
+
+  const key = storedFeatures?.key ?? null;
+
+  return { bpm, key, reportTempoEstimate };
+}
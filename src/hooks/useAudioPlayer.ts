@@ -2,17 +2,67 @@
 
 "use client";
 
-import { AUDIO_CONSTANTS } from "@/config/constants";
+import { AUDIO_CONSTANTS, NETWORK_CONSTANTS } from "@/config/constants";
+import {
+  AB_LOOP_END_MARGIN_SECONDS,
+  DEFAULT_AUDIO_QUALITY,
+  DEFAULT_SLEEP_FADE_SECONDS,
+  GAPLESS_PREBUFFER_SECONDS,
+  GAPLESS_SCHEDULE_SECONDS,
+  MIN_AB_LOOP_SECONDS,
+  QUALITY_STALL_GRACE_MS,
+  QUALITY_STALL_THRESHOLD,
+  QUALITY_STALL_WINDOW_MS,
+  SLEEP_TIMER_TICK_MS,
+  STREAM_RECOVERY_RESET_SECONDS,
+  VOLUME_FADE_DURATION_MS,
+} from "@/config/player";
 import { STORAGE_KEYS } from "@/config/storage";
-import { localStorage } from "@/services/storage";
+import { localStorage, sessionStorage } from "@/services/storage";
 import type {
+  AbLoop,
+  AudioQuality,
+  PlayerError,
   QueuedTrack,
+  QueueEdit,
+  QueueEditLog,
+  QueueSnapshotState,
+  SleepTimerMode,
+  SleepTimerState,
   SmartQueueSettings,
   SmartQueueState,
+  StreamFallback,
+  StreamRecoveryStep,
   Track,
 } from "@/types";
 import { getStreamUrlById } from "@/utils/api";
+import {
+  cutToCrossfade,
+  getAudioConnection,
+  resetCrossfade,
+} from "@/utils/audioContextManager";
+import {
+  getNetworkQualityCap,
+  minQuality,
+  onNetworkChange,
+  stepDownQuality,
+} from "@/utils/audioQuality";
+import { retryWithBackoff } from "@/utils/errorHandling";
 import { logger } from "@/utils/logger";
+import {
+  EMPTY_QUEUE_EDIT_LOG,
+  moveInQueueWithEdit,
+  pushQueueEdit,
+  reapplyQueueEdit,
+  removeFromQueueWithEdit,
+  revertQueueEdit,
+  reviveQueueEditLog,
+} from "@/utils/queueEdits";
+import {
+  createPlayerError,
+  findAlternateVersions,
+  probeStream,
+} from "@/utils/streamRecovery";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   loadPersistedQueueState,
@@ -21,6 +71,30 @@ import {
 
 type RepeatMode = "none" | "one" | "all";
 
+const STREAM_RECOVERY_STEPS: readonly StreamRecoveryStep[] = [
+  "retry",
+  "alternate",
+  "preview",
+];
+
+// Whether the sleep timer stops playback when the current track ends
+const sleepsAtTrackEnd = (
+  timer: SleepTimerState | null,
+  queueLength: number,
+): boolean =>
+  timer?.mode === "endOfTrack" ||
+  (timer?.mode === "endOfQueue" && queueLength <= 1);
+
+// Short status shown next to the album on lock screens / notifications
+const formatSleepTimerLabel = (
+  timer: SleepTimerState,
+  remainingMs: number,
+): string => {
+  if (timer.mode === "endOfTrack") return "Sleep after this track";
+  if (timer.mode === "endOfQueue") return "Sleep after queue";
+  return `Sleep in ${Math.max(1, Math.ceil(remainingMs / 60_000))} min`;
+};
+
 interface UseAudioPlayerOptions {
   onTrackChange?: (track: Track) => void;
   onTrackEnd?: (track: Track) => void;
@@ -31,12 +105,25 @@ interface UseAudioPlayerOptions {
   ) => Promise<Track[]>;
   onError?: (error: string, trackId?: number) => void;
   smartQueueSettings?: SmartQueueSettings;
+  crossfadeDuration?: number; // seconds, 0 disables crossfade
+  gaplessPlayback?: boolean;
+  // Resolves the loudness compensation for a track in dB (0 = untouched)
+  getNormalizationGainDb?: (track: Track) => Promise<number>;
+  defaultQuality?: AudioQuality; // Preferred stream quality, capped by the network
+  sleepFadeSeconds?: number; // Default fade-out for the sleep timer
+  // Called after the sleep timer paused playback, with the position reached
+  onSleepTimerEnd?: (track: Track, position: number) => void;
+  // Called when a failed stream is replaced by an alternate version or preview
+  onStreamFallback?: (fallback: StreamFallback) => void;
+  // Called when a queue edit that can be undone was made
+  onQueueEdit?: (edit: QueueEdit) => void;
   initialQueueState?: {
     queuedTracks: QueuedTrack[];
     smartQueueState: SmartQueueState;
     history: Track[];
     isShuffled: boolean;
     repeatMode: RepeatMode;
+    queueEdits?: QueueEditLog;
   } | null;
 }
 
@@ -47,11 +134,71 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
     onDuplicateTrack,
     onError,
     initialQueueState,
+    crossfadeDuration = 0,
+    gaplessPlayback = false,
+    getNormalizationGainDb,
+    defaultQuality = DEFAULT_AUDIO_QUALITY,
+    sleepFadeSeconds = DEFAULT_SLEEP_FADE_SECONDS,
+    onSleepTimerEnd,
+    onStreamFallback,
+    onQueueEdit,
   } = options;
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  // Secondary element that plays the incoming track while the current one
+  // fades out (crossfade) or is prebuffered to start the moment it ends (gapless)
+  const crossfadeAudioRef = useRef<HTMLAudioElement | null>(null);
+  const crossfadeRef = useRef<{
+    trackId: number;
+    mode: "crossfade" | "gapless";
+    started: boolean;
+    quality: AudioQuality;
+    // Time on the AudioContext clock at which a gapless switch is scheduled
+    switchAt?: number;
+  } | null>(null);
+  // Timer starting the prebuffered track right at the end of the current one
+  const gaplessStartTimerRef = useRef<ReturnType<typeof setTimeout> | null>(
+    null,
+  );
+  // Bumped when the elements swap roles, so listeners move to the new primary
+  const [primaryElementSwaps, setPrimaryElementSwaps] = useState(0);
+  const crossfadeDurationRef = useRef(crossfadeDuration);
+  const gaplessPlaybackRef = useRef(gaplessPlayback);
+  const normalizationResolverRef = useRef(getNormalizationGainDb);
+  // Track each input is being normalized for, to drop stale async results
+  const normalizationTargetsRef = useRef<{
+    primary: number | null;
+    crossfade: number | null;
+  }>({ primary: null, crossfade: null });
+  const sleepTimerRef = useRef<SleepTimerState | null>(null);
+  const sleepFadeSecondsRef = useRef(sleepFadeSeconds);
+  // Volume multiplier while the sleep timer fades out (1 = untouched)
+  const sleepFadeLevelRef = useRef(1);
+  // A-B loop and the track it belongs to
+  const abLoopRef = useRef<(AbLoop & { trackId: number }) | null>(null);
+  // Quality the primary element's source was requested at
+  const loadedQualityRef = useRef<AudioQuality | null>(null);
+  // Recent stalls while playing, and the last load or seek (which may buffer)
+  const stallTimesRef = useRef<number[]>([]);
+  const lastLoadOrSeekRef = useRef(0);
+  // Last stream recovery step taken for a track, and where it resumed
+  const recoveryRef = useRef<{
+    trackId: number;
+    step: StreamRecoveryStep;
+    position: number;
+    originalTrack: Track;
+  } | null>(null);
+  const isRecoveringRef = useRef(false);
+  // Where to start a track once it loads, after switching to a saved queue
+  const resumePositionRef = useRef<{
+    trackId: number;
+    position: number;
+  } | null>(null);
 
   // SPOTIFY-STYLE QUEUE: QueuedTrack with metadata for user vs smart queue
   const [queuedTracks, setQueuedTracks] = useState<QueuedTrack[]>([]);
+  // Latest queue, also between renders, so edits made in a row (e.g.
+  // removing several selected tracks) build on each other
+  const queuedTracksRef = useRef<QueuedTrack[]>([]);
   const [smartQueueState, setSmartQueueState] = useState<SmartQueueState>({
     isActive: false,
     lastRefreshedAt: null,
@@ -60,6 +207,9 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
   });
 
   const [history, setHistory] = useState<Track[]>([]);
+  // Undo/redo log of destructive queue edits
+  const [queueEdits, setQueueEdits] =
+    useState<QueueEditLog>(EMPTY_QUEUE_EDIT_LOG);
   const [isPlaying, setIsPlaying] = useState(false);
 
   // Keep ref in sync with state for event handlers
@@ -75,6 +225,31 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
   const [playbackRate, setPlaybackRate] = useState(1);
   const [isLoading, setIsLoading] = useState(false);
   const [originalQueueOrder, setOriginalQueueOrder] = useState<Track[]>([]);
+  const [sleepTimer, setSleepTimer] = useState<SleepTimerState | null>(null);
+  const [abLoop, setAbLoopState] = useState<
+    (AbLoop & { trackId: number }) | null
+  >(null);
+  // Stream quality: the session override, else the preference capped by the
+  // network; stepped down while playback keeps stalling
+  const [qualityOverride, setQualityOverrideState] =
+    useState<AudioQuality | null>(() =>
+      sessionStorage.getOrDefault<AudioQuality | null>(
+        STORAGE_KEYS.QUALITY_OVERRIDE,
+        null,
+      ),
+    );
+  const [networkQualityCap, setNetworkQualityCap] =
+    useState<AudioQuality>("lossless");
+  const [qualityStepDown, setQualityStepDown] = useState(0);
+  const streamQuality = stepDownQuality(
+    qualityOverride ?? minQuality(defaultQuality, networkQualityCap),
+    qualityStepDown,
+  );
+  const streamQualityRef = useRef(streamQuality);
+  const [playerError, setPlayerError] = useState<PlayerError | null>(null);
+  const [streamFallback, setStreamFallback] = useState<StreamFallback | null>(
+    null,
+  );
   // COMMENTED OUT - Auto-queue disabled
   // const autoQueueTriggeredRef = useRef(false);
   const [lastAutoQueueCount] = useState(0); // Keep for compatibility but always 0
@@ -96,6 +271,7 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
     [queuedTracks],
   );
   const currentTrack = queue[0] ?? null;
+  const currentTrackId = currentTrack?.id ?? null;
 
   // Helper functions for queue management
   const generateQueueId = useCallback(() => {
@@ -146,6 +322,9 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
       setHistory(initialQueueState.history);
       setIsShuffled(initialQueueState.isShuffled);
       setRepeatMode(initialQueueState.repeatMode);
+      if (initialQueueState.queueEdits) {
+        setQueueEdits(initialQueueState.queueEdits);
+      }
       return; // Don't load from localStorage if we have database state
     }
 
@@ -164,6 +343,7 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
         isShuffled: boolean;
         repeatMode: RepeatMode;
         currentTime: number;
+        queueEdits?: unknown;
       }
 
       const isV2State = (state: unknown): state is PersistedStateV2 => {
@@ -191,6 +371,7 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
           if (persistedState.smartQueueState) {
             setSmartQueueState(persistedState.smartQueueState);
           }
+          setQueueEdits(reviveQueueEditLog(persistedState.queueEdits));
         } else if ("queue" in persistedState && persistedState.queue) {
           // Migrate old V1 format: convert Track[] to QueuedTrack[]
           const migratedTracks = persistedState.queue.map((track, idx) => ({
@@ -215,6 +396,51 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // CRITICAL: Empty array! Only run on mount, not when initialQueueState changes
 
+  useEffect(() => {
+    crossfadeDurationRef.current = crossfadeDuration;
+  }, [crossfadeDuration]);
+
+  useEffect(() => {
+    gaplessPlaybackRef.current = gaplessPlayback;
+  }, [gaplessPlayback]);
+
+  useEffect(() => {
+    sleepFadeSecondsRef.current = sleepFadeSeconds;
+  }, [sleepFadeSeconds]);
+
+  useEffect(() => {
+    streamQualityRef.current = streamQuality;
+  }, [streamQuality]);
+
+  // Follow the connection; a better (or different) network gets a fresh
+  // chance at the full quality
+  useEffect(() => {
+    setNetworkQualityCap(getNetworkQualityCap());
+    return onNetworkChange(() => {
+      setNetworkQualityCap(getNetworkQualityCap());
+      setQualityStepDown(0);
+    });
+  }, []);
+
+  useEffect(() => {
+    setQualityStepDown(0);
+  }, [defaultQuality]);
+
+  const setQualityOverride = useCallback((quality: AudioQuality | null) => {
+    setQualityOverrideState(quality);
+    setQualityStepDown(0);
+    if (quality) {
+      sessionStorage.set(STORAGE_KEYS.QUALITY_OVERRIDE, quality);
+    } else {
+      sessionStorage.remove(STORAGE_KEYS.QUALITY_OVERRIDE);
+    }
+    logger.debug("[useAudioPlayer] Quality override:", quality ?? "auto");
+  }, []);
+
+  useEffect(() => {
+    normalizationResolverRef.current = getNormalizationGainDb;
+  }, [getNormalizationGainDb]);
+
   // Persist volume
   useEffect(() => {
     localStorage.set(STORAGE_KEYS.VOLUME, volume);
@@ -235,6 +461,7 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
       currentTime,
       isShuffled,
       repeatMode,
+      queueEdits,
     };
     localStorage.set(STORAGE_KEYS.QUEUE_STATE, queueState);
   }, [
@@ -244,6 +471,7 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
     currentTime,
     isShuffled,
     repeatMode,
+    queueEdits,
   ]);
 
   // Initialize audio element
@@ -253,6 +481,12 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
       audioRef.current.volume = volume;
       audioRef.current.playbackRate = playbackRate;
     }
+    if (typeof window !== "undefined" && !crossfadeAudioRef.current) {
+      crossfadeAudioRef.current = new Audio();
+      crossfadeAudioRef.current.preload = "auto";
+      crossfadeAudioRef.current.volume = volume;
+      crossfadeAudioRef.current.playbackRate = playbackRate;
+    }
   }, [volume, playbackRate]);
 
   // Initialize audio source for restored track (from previous session)
@@ -264,25 +498,440 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
       logger.debug(
         "[useAudioPlayer] 🔄 Restoring audio source from localStorage (no autoplay)",
       );
-      const streamUrl = getStreamUrlById(currentTrack.id.toString());
-      audioRef.current.src = streamUrl;
-      audioRef.current.load();
-      // DO NOT call play() here - browser autoplay policy requires user gesture
+      let cancelled = false;
+      const quality = streamQualityRef.current;
+      getStreamUrlById(currentTrack.id.toString(), quality)
+        .then((streamUrl) => {
+          const audio = audioRef.current;
+          if (cancelled || !audio || audio.src) return;
+          loadedQualityRef.current = quality;
+          audio.src = streamUrl;
+          audio.load();
+          // DO NOT call play() here - browser autoplay policy requires user gesture
+        })
+        .catch((error) => {
+          logger.warn(
+            "[useAudioPlayer] Failed to restore audio source:",
+            error,
+          );
+        });
+      return () => {
+        cancelled = true;
+      };
     }
   }, [currentTrack]);
 
   // Update audio element properties
   useEffect(() => {
+    const effectiveVolume = isMuted ? 0 : volume * sleepFadeLevelRef.current;
     if (audioRef.current) {
-      audioRef.current.volume = isMuted ? 0 : volume;
+      audioRef.current.volume = effectiveVolume;
       audioRef.current.playbackRate = playbackRate;
     }
+    if (crossfadeAudioRef.current) {
+      crossfadeAudioRef.current.volume = effectiveVolume;
+      crossfadeAudioRef.current.playbackRate = playbackRate;
+    }
   }, [volume, isMuted, playbackRate]);
 
+  // Apply the loudness compensation gain for a track to one of the inputs
+  const applyNormalization = useCallback(
+    async (track: Track, input: "primary" | "crossfade") => {
+      const primary = audioRef.current;
+      if (!primary) return;
+
+      normalizationTargetsRef.current[input] = track.id;
+      const resolve = normalizationResolverRef.current;
+      const gainDb = resolve ? await resolve(track) : 0;
+      if (normalizationTargetsRef.current[input] !== track.id) return;
+
+      const {
+        getAudioConnection,
+        getOrCreateAudioConnection,
+        setNormalizationGain,
+      } = await import("@/utils/audioContextManager");
+
+      // Only build the Web Audio graph when there is actually gain to apply
+      const connection =
+        getAudioConnection(primary) ??
+        (gainDb !== 0 ? getOrCreateAudioConnection(primary) : null);
+      if (!connection) return;
+
+      setNormalizationGain(connection, input, gainDb);
+      logger.debug(
+        `[useAudioPlayer] 🔊 Normalization gain for "${track.title}" (${input}): ${gainDb.toFixed(1)} dB`,
+      );
+    },
+    [],
+  );
+
+  // Stop the secondary element and hand the output back to the primary one
+  const cancelCrossfade = useCallback(() => {
+    if (gaplessStartTimerRef.current) {
+      clearTimeout(gaplessStartTimerRef.current);
+      gaplessStartTimerRef.current = null;
+    }
+    if (!crossfadeRef.current) return;
+    crossfadeRef.current = null;
+
+    const secondary = crossfadeAudioRef.current;
+    if (secondary) {
+      secondary.pause();
+      secondary.removeAttribute("src");
+      secondary.load();
+    }
+
+    if (audioRef.current) {
+      void import("@/utils/audioContextManager").then(
+        ({ getAudioConnection, resetCrossfade }) => {
+          const connection = audioRef.current
+            ? getAudioConnection(audioRef.current)
+            : undefined;
+          if (connection) resetCrossfade(connection);
+        },
+      );
+    }
+    logger.debug("[useAudioPlayer] ✂️ Crossfade/prebuffer cancelled");
+  }, []);
+
+  // Start the next track on the secondary element and ramp between the two
+  const startCrossfade = useCallback(
+    async (nextTrack: Track, fadeSeconds: number) => {
+      const primary = audioRef.current;
+      const secondary = crossfadeAudioRef.current;
+      if (!primary || !secondary || crossfadeRef.current) return;
+
+      const quality = streamQualityRef.current;
+      crossfadeRef.current = {
+        trackId: nextTrack.id,
+        mode: "crossfade",
+        started: true,
+        quality,
+      };
+
+      try {
+        const {
+          attachCrossfadeElement,
+          getAudioConnection,
+          getOrCreateAudioConnection,
+          rampCrossfade,
+        } = await import("@/utils/audioContextManager");
+
+        const connection =
+          getAudioConnection(primary) ?? getOrCreateAudioConnection(primary);
+        if (!connection || !attachCrossfadeElement(connection, secondary)) {
+          logger.warn(
+            "[useAudioPlayer] Crossfade unavailable (no Web Audio connection), using hard cut",
+          );
+          crossfadeRef.current = null;
+          return;
+        }
+
+        void applyNormalization(nextTrack, "crossfade");
+        const streamUrl = await getStreamUrlById(
+          nextTrack.id.toString(),
+          quality,
+        );
+        if (crossfadeRef.current?.trackId !== nextTrack.id) return;
+        secondary.src = streamUrl;
+        secondary.currentTime = 0;
+        await secondary.play();
+
+        // Bail out if the crossfade was cancelled while the stream spun up
+        if (crossfadeRef.current?.trackId !== nextTrack.id) return;
+
+        rampCrossfade(connection, "toCrossfade", fadeSeconds);
+        logger.debug(
+          `[useAudioPlayer] 🔀 Crossfading into "${nextTrack.title}" over ${fadeSeconds.toFixed(1)}s`,
+        );
+      } catch (error) {
+        logger.warn(
+          "[useAudioPlayer] Crossfade failed, using hard cut:",
+          error,
+        );
+        cancelCrossfade();
+      }
+    },
+    [applyNormalization, cancelCrossfade],
+  );
+
+  // Load the head of the next track on the secondary element so it can start
+  // without waiting for /api/stream when the current track ends
+  const prebufferNextTrack = useCallback(
+    async (nextTrack: Track) => {
+      const primary = audioRef.current;
+      const secondary = crossfadeAudioRef.current;
+      if (!primary || !secondary || crossfadeRef.current) return;
+
+      const quality = streamQualityRef.current;
+      crossfadeRef.current = {
+        trackId: nextTrack.id,
+        mode: "gapless",
+        started: false,
+        quality,
+      };
+
+      try {
+        const {
+          attachCrossfadeElement,
+          getAudioConnection,
+          getOrCreateAudioConnection,
+        } = await import("@/utils/audioContextManager");
+
+        const connection =
+          getAudioConnection(primary) ?? getOrCreateAudioConnection(primary);
+        if (!connection || !attachCrossfadeElement(connection, secondary)) {
+          logger.warn(
+            "[useAudioPlayer] Gapless prebuffer unavailable (no Web Audio connection)",
+          );
+          crossfadeRef.current = null;
+          return;
+        }
+
+        secondary.onerror = () => {
+          if (crossfadeRef.current?.trackId !== nextTrack.id) return;
+          logger.warn(
+            `[useAudioPlayer] Gapless prebuffer failed for "${nextTrack.title}", falling back to regular load`,
+          );
+          cancelCrossfade();
+        };
+
+        // Decode the head as soon as it arrives: play it silently (its input
+        // is muted until the switch) and rewind, so starting it at the end of
+        // the current track doesn't wait on the decoder
+        secondary.addEventListener(
+          "canplay",
+          () => {
+            const pending = crossfadeRef.current;
+            if (pending?.trackId !== nextTrack.id || pending.started) return;
+            secondary
+              .play()
+              .then(() => {
+                if (crossfadeRef.current !== pending || pending.started) return;
+                secondary.pause();
+                secondary.currentTime = 0;
+              })
+              .catch(() => {
+                // Still buffered; it just starts with a cold decoder
+              });
+          },
+          { once: true },
+        );
+
+        void applyNormalization(nextTrack, "crossfade");
+        const streamUrl = await getStreamUrlById(
+          nextTrack.id.toString(),
+          quality,
+        );
+        if (crossfadeRef.current?.trackId !== nextTrack.id) return;
+        secondary.preload = "auto";
+        secondary.src = streamUrl;
+        secondary.load();
+        logger.debug(
+          `[useAudioPlayer] ⏩ Prebuffering next track: ${nextTrack.title}`,
+        );
+      } catch (error) {
+        logger.warn("[useAudioPlayer] Gapless prebuffer failed:", error);
+        cancelCrossfade();
+      }
+    },
+    [applyNormalization, cancelCrossfade],
+  );
+
+  // Loudness normalization for the primary element follows the current track
+  // and is re-applied whenever the normalization settings change
+  useEffect(() => {
+    if (currentTrack) {
+      void applyNormalization(currentTrack, "primary");
+    }
+  }, [currentTrack, getNormalizationGainDb, applyNormalization]);
+
+  // Start the prebuffered track at the end of the current one. Returns false
+  // when nothing usable was prebuffered so the regular load path takes over.
+  const startPrebufferedTrack = useCallback(
+    (nextTrackId: number): boolean => {
+      const primary = audioRef.current;
+      const secondary = crossfadeAudioRef.current;
+      const pending = crossfadeRef.current;
+      if (!primary || !secondary || !pending) return false;
+      // Already started by the timer scheduled near the end of the track
+      if (pending.started && pending.trackId === nextTrackId) return true;
+
+      if (
+        pending.mode !== "gapless" ||
+        pending.trackId !== nextTrackId ||
+        secondary.readyState < HTMLMediaElement.HAVE_FUTURE_DATA
+      ) {
+        cancelCrossfade();
+        return false;
+      }
+
+      pending.started = true;
+      secondary.currentTime = 0;
+      // Keeps a switch already scheduled at the end of the current track
+      const connection = getAudioConnection(primary);
+      if (connection) cutToCrossfade(connection, pending.switchAt);
+      secondary.play().catch((error) => {
+        logger.warn("[useAudioPlayer] Gapless start failed:", error);
+        cancelCrossfade();
+      });
+      return true;
+    },
+    [cancelCrossfade],
+  );
+
+  // Start the prebuffered track when the current one runs out, before its
+  // "ended" event would. The output switches on the AudioContext clock at the
+  // end of the current track; the incoming element is started by a timer and
+  // play(), so it can still come in a few milliseconds late. This is as close
+  // as media elements get: the switch is not sample-accurate.
+  const scheduleGaplessStart = useCallback(
+    (nextTrackId: number, remainingSeconds: number) => {
+      const pending = crossfadeRef.current;
+      if (gaplessStartTimerRef.current || pending?.trackId !== nextTrackId) {
+        return;
+      }
+
+      const primary = audioRef.current;
+      const connection = primary ? getAudioConnection(primary) : undefined;
+      if (connection) {
+        pending.switchAt =
+          connection.audioContext.currentTime + remainingSeconds;
+        cutToCrossfade(connection, pending.switchAt);
+      }
+
+      gaplessStartTimerRef.current = setTimeout(
+        () => {
+          gaplessStartTimerRef.current = null;
+          if (crossfadeRef.current?.trackId !== nextTrackId) return;
+          startPrebufferedTrack(nextTrackId);
+        },
+        Math.max(0, remainingSeconds * 1000),
+      );
+    },
+    [startPrebufferedTrack],
+  );
+
+  // Take back a scheduled gapless start when the current track won't run out
+  // when expected, because it was paused or seeked
+  const unscheduleGaplessStart = useCallback(() => {
+    const pending = crossfadeRef.current;
+    if (!pending || pending.started || pending.switchAt === undefined) return;
+
+    if (gaplessStartTimerRef.current) {
+      clearTimeout(gaplessStartTimerRef.current);
+      gaplessStartTimerRef.current = null;
+    }
+    pending.switchAt = undefined;
+    const primary = audioRef.current;
+    const connection = primary ? getAudioConnection(primary) : undefined;
+    if (connection) resetCrossfade(connection);
+  }, []);
+
+  // Once the incoming track is the only one audible, the secondary element
+  // carries on as the primary one instead of the track being loaded again.
+  // Returns false when there was nothing to take over.
+  const promoteSecondaryElement = useCallback(async (trackId: number) => {
+    const primary = audioRef.current;
+    const secondary = crossfadeAudioRef.current;
+    if (!primary || !secondary) return false;
+
+    const { getAudioConnection, promoteCrossfadeElement } =
+      await import("@/utils/audioContextManager");
+    const pending = crossfadeRef.current;
+    if (pending?.trackId !== trackId || !pending.started) return false;
+    const connection = getAudioConnection(primary);
+    if (!connection || promoteCrossfadeElement(connection) !== secondary) {
+      return false;
+    }
+
+    crossfadeRef.current = null;
+    audioRef.current = secondary;
+    crossfadeAudioRef.current = primary;
+    normalizationTargetsRef.current = {
+      primary: normalizationTargetsRef.current.crossfade,
+      crossfade: null,
+    };
+    loadedQualityRef.current = pending.quality;
+
+    primary.pause();
+    primary.removeAttribute("src");
+    primary.load();
+
+    if (isFinite(secondary.duration)) setDuration(secondary.duration);
+    setCurrentTime(secondary.currentTime);
+    setIsLoading(false);
+    setPrimaryElementSwaps((swaps) => swaps + 1);
+    logger.debug(
+      `[useAudioPlayer] 🔀 Secondary element took over playback (track ${trackId})`,
+    );
+    return true;
+  }, []);
+
+  // Sleep timer reached its end: pause, restore the volume for next time and
+  // report where playback stopped so the session can be resumed later
+  const finishSleepTimer = useCallback(() => {
+    const audio = audioRef.current;
+    sleepTimerRef.current = null;
+    setSleepTimer(null);
+    cancelCrossfade();
+
+    if (audio) {
+      audio.pause();
+      sleepFadeLevelRef.current = 1;
+      audio.volume = isMuted ? 0 : volume;
+    }
+    setIsPlaying(false);
+
+    if (currentTrack) {
+      onSleepTimerEnd?.(currentTrack, audio?.currentTime ?? 0);
+    }
+    logger.debug("[useAudioPlayer] 😴 Sleep timer finished, playback paused");
+  }, [cancelCrossfade, currentTrack, isMuted, onSleepTimerEnd, volume]);
+
+  // Jump back to the loop start once playback reaches the loop end.
+  // Returns whether an A-B loop is active for the current track.
+  const applyAbLoop = useCallback(
+    (audio: HTMLAudioElement): boolean => {
+      const loop = abLoopRef.current;
+      if (!loop?.enabled || loop.trackId !== currentTrack?.id) return false;
+
+      // A loop ending at the very end of the track would race "ended"
+      const end = isFinite(audio.duration)
+        ? Math.min(loop.end, audio.duration - AB_LOOP_END_MARGIN_SECONDS)
+        : loop.end;
+      if (audio.currentTime >= end) {
+        audio.currentTime = loop.start;
+        setCurrentTime(loop.start);
+      }
+      return true;
+    },
+    [currentTrack],
+  );
+
   // Memoize handleTrackEnd with proper dependencies
   const handleTrackEnd = useCallback(() => {
     if (!currentTrack) return;
 
+    // The sleep timer normally pauses just before the end; this catches
+    // ticks that were delayed (e.g. throttled in a background tab)
+    if (sleepsAtTrackEnd(sleepTimerRef.current, queuedTracks.length)) {
+      finishSleepTimer();
+      return;
+    }
+
+    // Same for an A-B loop that runs to the end of the track
+    const loop = abLoopRef.current;
+    if (loop?.enabled && loop.trackId === currentTrack.id) {
+      if (audioRef.current) {
+        audioRef.current.currentTime = loop.start;
+        audioRef.current.play().catch(() => {
+          // Playback failed, likely due to autoplay restrictions
+        });
+      }
+      return;
+    }
+
     if (repeatMode === "one") {
       if (audioRef.current) {
         audioRef.current.currentTime = 0;
@@ -296,6 +945,13 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
     // QUEUE-FIRST APPROACH with QueuedTrack:
     // queuedTracks[0] is current track, queuedTracks[1..n] are upcoming
     if (queuedTracks.length > 1) {
+      // Gapless: the next track is already buffered, start it right away
+      // unless the scheduled start beat "ended" to it. The auto-load effect
+      // then makes its element the primary one.
+      if (crossfadeRef.current?.mode === "gapless") {
+        startPrebufferedTrack(queuedTracks[1]!.track.id);
+      }
+
       // Move current track (queuedTracks[0]) to history and advance queue
       setHistory((prev) => [...prev, currentTrack]);
       setQueuedTracks((prev) => prev.slice(1)); // Remove queuedTracks[0], queuedTracks[1] becomes new queuedTracks[0]
@@ -320,7 +976,223 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
       setIsPlaying(false);
       logger.debug("[useAudioPlayer] 🏁 Playback ended, queue cleared");
     }
-  }, [currentTrack, queuedTracks, repeatMode, history, onTrackEnd]);
+  }, [
+    currentTrack,
+    queuedTracks,
+    repeatMode,
+    history,
+    onTrackEnd,
+    startPrebufferedTrack,
+    finishSleepTimer,
+  ]);
+
+  // Recovery state belongs to the track it was for
+  useEffect(() => {
+    if (recoveryRef.current?.trackId !== currentTrackId) {
+      recoveryRef.current = null;
+    }
+    setStreamFallback((fallback) =>
+      fallback?.trackId === currentTrackId ? fallback : null,
+    );
+  }, [currentTrackId]);
+
+  // Work around a failed stream: retry it, then play another release of the
+  // same recording, then the track's 30-second preview. Each call picks up
+  // after the step that was last tried for the track.
+  const recoverStream = useCallback(
+    async (track: Track, cause: unknown) => {
+      const audio = audioRef.current;
+      if (!audio || isRecoveringRef.current) return;
+
+      const position = audio.currentTime;
+      const previous =
+        recoveryRef.current?.trackId === track.id ? recoveryRef.current : null;
+      // Played on well past the last recovery: this is a new failure
+      const isNewFailure =
+        !previous ||
+        (previous.step === "retry" &&
+          position - previous.position >= STREAM_RECOVERY_RESET_SECONDS);
+      const originalTrack = previous?.originalTrack ?? track;
+      const steps = isNewFailure
+        ? STREAM_RECOVERY_STEPS
+        : STREAM_RECOVERY_STEPS.slice(
+            STREAM_RECOVERY_STEPS.indexOf(previous.step) + 1,
+          );
+      // A track that fails to load is one the user just started
+      const resume = isPlayingRef.current || position === 0;
+      const loadId = loadIdRef.current;
+      const isStale = () =>
+        loadId !== loadIdRef.current || audioRef.current !== audio;
+
+      const resumeFrom = (
+        url: string,
+        step: StreamRecoveryStep,
+        at: number,
+      ) => {
+        recoveryRef.current = {
+          trackId: track.id,
+          step,
+          position: at,
+          originalTrack,
+        };
+        audio.src = url;
+        audio.load();
+        audio.addEventListener(
+          "loadedmetadata",
+          () => {
+            if (audio.src !== url) return;
+            if (at > 0) audio.currentTime = at;
+            if (resume) {
+              audio.play().catch((error) => {
+                logger.debug(
+                  "[useAudioPlayer] Resume after recovery failed:",
+                  error,
+                );
+              });
+            }
+          },
+          { once: true },
+        );
+      };
+      const fallBackTo = (fallback: StreamFallback) => {
+        setStreamFallback(fallback);
+        onStreamFallback?.(fallback);
+      };
+
+      isRecoveringRef.current = true;
+      setIsLoading(true);
+      let lastError = cause;
+      try {
+        for (const step of steps) {
+          const stepError = createPlayerError(lastError, {
+            trackId: track.id,
+            recovery: step,
+          });
+          logger.warn(
+            `[useAudioPlayer] ${stepError.code} for track ${track.id}, trying ${step}:`,
+            stepError.message,
+          );
+          setPlayerError(stepError);
+
+          if (step === "retry") {
+            const quality = streamQualityRef.current;
+            try {
+              const streamUrl = await retryWithBackoff(
+                async () => {
+                  // The previous URL may be the problem (expired, refused)
+                  const url = await getStreamUrlById(
+                    track.id.toString(),
+                    quality,
+                    { fresh: true },
+                  );
+                  await probeStream(url);
+                  return url;
+                },
+                {
+                  maxRetries: NETWORK_CONSTANTS.MAX_RETRY_ATTEMPTS,
+                  baseDelay: NETWORK_CONSTANTS.RETRY_BASE_DELAY_MS,
+                  maxDelay: NETWORK_CONSTANTS.RETRY_MAX_DELAY_MS,
+                  onRetry: (attempt, error) => {
+                    logger.debug(
+                      `[useAudioPlayer] Stream retry ${attempt} for track ${track.id} failed:`,
+                      error,
+                    );
+                  },
+                },
+              );
+              if (isStale()) return;
+              loadedQualityRef.current = quality;
+              resumeFrom(streamUrl, step, position);
+              return;
+            } catch (error) {
+              lastError = error;
+            }
+          } else if (step === "alternate") {
+            let alternates: Track[] = [];
+            try {
+              alternates = await findAlternateVersions(
+                originalTrack,
+                new Set([...failedTracksRef.current, track.id]),
+              );
+            } catch (error) {
+              logger.warn(
+                "[useAudioPlayer] Alternate version search failed:",
+                error,
+              );
+            }
+
+            for (const alternate of alternates) {
+              try {
+                await probeStream(
+                  await getStreamUrlById(
+                    alternate.id.toString(),
+                    streamQualityRef.current,
+                  ),
+                );
+              } catch (error) {
+                lastError = error;
+                continue;
+              }
+              if (isStale()) return;
+
+              logger.debug(
+                `[useAudioPlayer] Playing alternate version ${alternate.id} of track ${originalTrack.id}`,
+              );
+              recoveryRef.current = {
+                trackId: alternate.id,
+                step,
+                position: 0,
+                originalTrack,
+              };
+              fallBackTo({
+                kind: "alternate",
+                trackId: alternate.id,
+                originalTrack,
+              });
+              // The auto-load effect picks up the new queue[0]
+              setQueuedTracks((prev) => {
+                const [current, ...rest] = prev;
+                return current?.track.id === track.id
+                  ? [{ ...current, track: alternate }, ...rest]
+                  : prev;
+              });
+              return;
+            }
+          } else {
+            const preview = originalTrack.preview || track.preview;
+            if (!preview || isStale()) continue;
+
+            // The preview is served by the CDN; Web Audio needs CORS access
+            audio.crossOrigin = "anonymous";
+            fallBackTo({ kind: "preview", trackId: track.id, originalTrack });
+            resumeFrom(preview, step, 0);
+            return;
+          }
+        }
+
+        if (isStale()) return;
+        const failure = createPlayerError(lastError, { trackId: track.id });
+        logger.error(
+          `[useAudioPlayer] Could not recover track ${track.id} (${failure.code}):`,
+          failure.message,
+        );
+        setPlayerError(failure);
+        // Network trouble may pass, so those tracks can be tried again later
+        if (failure.code !== "NETWORK_ERROR") {
+          failedTracksRef.current.add(track.id);
+          failedTracksRef.current.add(originalTrack.id);
+        }
+        recoveryRef.current = null;
+        setStreamFallback(null);
+        setIsLoading(false);
+        setIsPlaying(false);
+        onError?.(failure.message, track.id);
+      } finally {
+        isRecoveringRef.current = false;
+      }
+    },
+    [onError, onStreamFallback],
+  );
 
   // Media Session API integration for background playback
   useEffect(() => {
@@ -335,7 +1207,12 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
     navigator.mediaSession.metadata = new MediaMetadata({
       title: currentTrack.title,
       artist: currentTrack.artist.name,
-      album: currentTrack.album.title,
+      album: sleepTimer
+        ? `${currentTrack.album.title} · ${formatSleepTimerLabel(
+            sleepTimer,
+            (sleepTimer.endsAt ?? 0) - Date.now(),
+          )}`
+        : currentTrack.album.title,
       artwork: [
         currentTrack.album.cover_small
           ? {
@@ -373,7 +1250,7 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
 
     // Set playback state
     navigator.mediaSession.playbackState = isPlaying ? "playing" : "paused";
-  }, [currentTrack, isPlaying]);
+  }, [currentTrack, isPlaying, sleepTimer]);
 
   // Audio event listeners
   useEffect(() => {
@@ -381,6 +1258,8 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
     if (!audio) return;
 
     const handleTimeUpdate = () => {
+      // The elements swapped roles and the listeners haven't moved yet
+      if (audio !== audioRef.current) return;
       const newTime = audio.currentTime;
       // Log every 5 seconds to help diagnose if time is progressing
       if (
@@ -395,9 +1274,62 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
         });
       }
       setCurrentTime(newTime);
+      const looping = applyAbLoop(audio);
+
+      // Kick off the crossfade once we're within the fade window of the end
+      const fadeSeconds = crossfadeDurationRef.current;
+      const nextQueuedTrack = queuedTracks[1];
+      // The sleep timer stops at the end of this track, or an A-B loop keeps
+      // repeating part of it: don't start the next
+      const stopsHere = looping || sleepTimerRef.current?.mode === "endOfTrack";
+      if (
+        fadeSeconds > 0 &&
+        nextQueuedTrack &&
+        repeatMode !== "one" &&
+        !stopsHere &&
+        !crossfadeRef.current &&
+        !audio.paused &&
+        isFinite(audio.duration) &&
+        !failedTracksRef.current.has(nextQueuedTrack.track.id)
+      ) {
+        const remaining =
+          (audio.duration - newTime) / (audio.playbackRate || 1);
+        if (remaining > 0.25 && remaining <= fadeSeconds) {
+          void startCrossfade(nextQueuedTrack.track, remaining);
+        }
+      } else if (
+        fadeSeconds <= 0 &&
+        gaplessPlaybackRef.current &&
+        nextQueuedTrack &&
+        repeatMode !== "one" &&
+        !stopsHere &&
+        !crossfadeRef.current &&
+        isFinite(audio.duration) &&
+        audio.duration - newTime <= GAPLESS_PREBUFFER_SECONDS &&
+        !failedTracksRef.current.has(nextQueuedTrack.track.id)
+      ) {
+        void prebufferNextTrack(nextQueuedTrack.track);
+      }
+
+      const pending = crossfadeRef.current;
+      if (
+        pending?.mode === "gapless" &&
+        !pending.started &&
+        pending.trackId === nextQueuedTrack?.track.id &&
+        !stopsHere &&
+        !audio.paused &&
+        isFinite(audio.duration)
+      ) {
+        const remaining =
+          (audio.duration - newTime) / (audio.playbackRate || 1);
+        if (remaining <= GAPLESS_SCHEDULE_SECONDS) {
+          scheduleGaplessStart(pending.trackId, remaining);
+        }
+      }
     };
     const handleLoadedMetadata = () => setDuration(audio.duration);
     const handlePlay = () => {
+      if (audio !== audioRef.current) return;
       // Guard: Only update if state is actually different and we're not in a play/pause operation
       // Use ref to get current state value (avoids stale closure issues)
       if (!isPlayPauseOperationRef.current && !isPlayingRef.current) {
@@ -405,12 +1337,19 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
       }
     };
     const handlePause = () => {
+      if (audio !== audioRef.current) return;
+      // Running out also pauses the element, right as the switch happens
+      if (!audio.ended) unscheduleGaplessStart();
       // Guard: Only update if state is actually different and we're not in a play/pause operation
       // Use ref to get current state value (avoids stale closure issues)
       if (!isPlayPauseOperationRef.current && isPlayingRef.current) {
         setIsPlaying(false);
       }
     };
+    const handleSeeking = () => {
+      if (audio !== audioRef.current) return;
+      unscheduleGaplessStart();
+    };
     const handleEnded = () => handleTrackEnd();
     const handleLoadStart = () => setIsLoading(true);
     const handleCanPlay = () => setIsLoading(false);
@@ -424,7 +1363,7 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
         return;
       }
 
-      // Check for HTTP errors (503, 404, etc.) in error message
+      // HTTP errors show up in the message, e.g. "503: Service Unavailable"
       const errorMessage = error?.message ?? "";
 
       // Check if this is an aborted fetch (common when skipping tracks quickly)
@@ -442,56 +1381,22 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
         return;
       }
 
-      const isHttpError =
-        /^\d{3}:/.test(errorMessage) ||
-        errorMessage.includes("Service Unavailable") ||
-        errorMessage.includes("503");
-      const isUpstreamError =
-        errorMessage.includes("upstream error") ||
-        errorMessage.includes("ServiceUnavailableException");
-
-      if (isHttpError && currentTrack) {
-        // For upstream errors, don't mark as permanently failed - might be temporary
-        if (isUpstreamError) {
-          logger.warn(
-            `[useAudioPlayer] Upstream error for track ${currentTrack.id} - may be temporary:`,
-            errorMessage,
-          );
-          setIsLoading(false);
-          setIsPlaying(false);
-          onError?.(errorMessage, currentTrack.id);
-          // Don't add to failed tracks - allow retry later
-          retryCountRef.current = 0;
-          return;
-        }
-
-        // Mark this track as failed to prevent infinite retries (for other 503 errors)
-        failedTracksRef.current.add(currentTrack.id);
-        logger.error(
-          `Audio error for track ${currentTrack.id}:`,
-          errorMessage,
-        );
+      if (!currentTrack) {
+        logger.error("Audio error:", errorMessage || "Unknown error");
         setIsLoading(false);
         setIsPlaying(false);
-
-        // Notify parent of error
-        onError?.(errorMessage, currentTrack.id);
-
-        // Reset retry count for this track
-        retryCountRef.current = 0;
         return;
       }
 
-      // Log other errors for debugging
-      logger.error("Audio error:", errorMessage || "Unknown error");
-      setIsLoading(false);
-      setIsPlaying(false);
+      retryCountRef.current = 0;
+      void recoverStream(currentTrack, error ?? new Error(errorMessage));
     };
 
     audio.addEventListener("timeupdate", handleTimeUpdate);
     audio.addEventListener("loadedmetadata", handleLoadedMetadata);
     audio.addEventListener("play", handlePlay);
     audio.addEventListener("pause", handlePause);
+    audio.addEventListener("seeking", handleSeeking);
     audio.addEventListener("ended", handleEnded);
     audio.addEventListener("loadstart", handleLoadStart);
     audio.addEventListener("canplay", handleCanPlay);
@@ -502,12 +1407,26 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
       audio.removeEventListener("loadedmetadata", handleLoadedMetadata);
       audio.removeEventListener("play", handlePlay);
       audio.removeEventListener("pause", handlePause);
+      audio.removeEventListener("seeking", handleSeeking);
       audio.removeEventListener("ended", handleEnded);
       audio.removeEventListener("loadstart", handleLoadStart);
       audio.removeEventListener("canplay", handleCanPlay);
       audio.removeEventListener("error", handleError);
     };
-  }, [handleTrackEnd, currentTrack, onError, currentTime]);
+  }, [
+    handleTrackEnd,
+    currentTrack,
+    recoverStream,
+    currentTime,
+    queuedTracks,
+    repeatMode,
+    startCrossfade,
+    prebufferNextTrack,
+    scheduleGaplessStart,
+    unscheduleGaplessStart,
+    applyAbLoop,
+    primaryElementSwaps,
+  ]);
 
   const loadTrack = useCallback(
     (track: Track, streamUrl: string) => {
@@ -799,6 +1718,7 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
     isPlayPauseOperationRef.current = true;
 
     try {
+      cancelCrossfade();
       audioRef.current.pause();
       // Note: setIsPlaying(false) will be called by the 'pause' event listener
       // But we also set it here as a backup in case the event doesn't fire
@@ -812,8 +1732,149 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
         isPlayPauseOperationRef.current = false;
       }, 100);
     }
+  }, [cancelCrossfade]);
+
+  // Start (or replace) the sleep timer. A duration of 0 minutes fades out now.
+  const startSleepTimer = useCallback(
+    (
+      mode: SleepTimerMode,
+      options: { minutes?: number; fadeSeconds?: number } = {},
+    ) => {
+      const fadeSeconds = options.fadeSeconds ?? sleepFadeSecondsRef.current;
+      const minutes = options.minutes ?? 0;
+      if (mode === "duration" && minutes < 0) {
+        logger.warn("[useAudioPlayer] Ignoring negative sleep timer duration");
+        return;
+      }
+
+      const timer: SleepTimerState = {
+        mode,
+        endsAt:
+          mode === "duration"
+            ? Date.now() +
+              Math.max(
+                minutes * 60_000,
+                fadeSeconds * 1000,
+                VOLUME_FADE_DURATION_MS,
+              )
+            : null,
+        fadeSeconds,
+      };
+      sleepTimerRef.current = timer;
+      setSleepTimer(timer);
+      logger.debug("[useAudioPlayer] 😴 Sleep timer set:", timer);
+    },
+    [],
+  );
+
+  const cancelSleepTimer = useCallback(() => {
+    sleepTimerRef.current = null;
+    setSleepTimer(null);
+
+    // Undo any fade that was already in progress
+    sleepFadeLevelRef.current = 1;
+    const restored = isMuted ? 0 : volume;
+    if (audioRef.current) audioRef.current.volume = restored;
+    if (crossfadeAudioRef.current) crossfadeAudioRef.current.volume = restored;
+  }, [isMuted, volume]);
+
+  // Set or clear the A-B loop for a track. Loops for other tracks are kept
+  // but ignored, so a loop can be restored before its track finishes loading.
+  const setAbLoop = useCallback((trackId: number, loop: AbLoop | null) => {
+    if (loop && loop.end - loop.start < MIN_AB_LOOP_SECONDS) {
+      logger.warn("[useAudioPlayer] Ignoring A-B loop shorter than minimum");
+      return;
+    }
+
+    const next = loop ? { ...loop, trackId } : null;
+    abLoopRef.current = next;
+    setAbLoopState(next);
   }, []);
 
+  // timeupdate only fires every ~250ms, which is audible at the loop seam.
+  // Poll every frame while a loop is playing to jump back on time.
+  useEffect(() => {
+    if (!abLoop?.enabled || abLoop.trackId !== currentTrack?.id || !isPlaying) {
+      return;
+    }
+
+    let frame = requestAnimationFrame(function poll() {
+      if (audioRef.current) applyAbLoop(audioRef.current);
+      frame = requestAnimationFrame(poll);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [abLoop, applyAbLoop, currentTrack, isPlaying]);
+
+  // Sleep timer countdown: fade the volume over the last fadeSeconds, then pause
+  useEffect(() => {
+    if (!sleepTimer) return;
+
+    const fadeMs = Math.max(
+      sleepTimer.fadeSeconds * 1000,
+      VOLUME_FADE_DURATION_MS,
+    );
+    // Track-based modes stop a little early so the queue doesn't advance
+    const stopMarginMs =
+      sleepTimer.mode === "duration" ? 0 : SLEEP_TIMER_TICK_MS * 2;
+    let lastLabel: string | null = null;
+
+    const tick = () => {
+      const audio = audioRef.current;
+
+      let remainingMs = Infinity;
+      if (sleepTimer.mode === "duration") {
+        remainingMs = (sleepTimer.endsAt ?? 0) - Date.now();
+      } else if (
+        sleepsAtTrackEnd(sleepTimer, queuedTracks.length) &&
+        audio &&
+        isFinite(audio.duration)
+      ) {
+        remainingMs =
+          ((audio.duration - audio.currentTime) / (audio.playbackRate || 1)) *
+          1000;
+      }
+
+      if (remainingMs <= stopMarginMs) {
+        finishSleepTimer();
+        return;
+      }
+
+      const level = Math.min(1, (remainingMs - stopMarginMs) / fadeMs);
+      if (level !== sleepFadeLevelRef.current) {
+        sleepFadeLevelRef.current = level;
+        const faded = isMuted ? 0 : volume * level;
+        if (audio) audio.volume = faded;
+        if (crossfadeAudioRef.current) {
+          crossfadeAudioRef.current.volume = faded;
+        }
+      }
+
+      // Keep the lock screen countdown current
+      const label = formatSleepTimerLabel(sleepTimer, remainingMs);
+      if (
+        label !== lastLabel &&
+        typeof navigator !== "undefined" &&
+        "mediaSession" in navigator &&
+        navigator.mediaSession.metadata &&
+        currentTrack
+      ) {
+        lastLabel = label;
+        navigator.mediaSession.metadata.album = `${currentTrack.album.title} · ${label}`;
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, SLEEP_TIMER_TICK_MS);
+    return () => clearInterval(interval);
+  }, [
+    sleepTimer,
+    queuedTracks.length,
+    finishSleepTimer,
+    isMuted,
+    volume,
+    currentTrack,
+  ]);
+
   // Media Session action handlers for background controls
   // Moved here after play/pause are defined to avoid "cannot access before initialization" error
   useEffect(() => {
@@ -900,6 +1961,11 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
       );
       navigator.mediaSession.setActionHandler("seekforward", handleSeekForward);
       navigator.mediaSession.setActionHandler("seekto", handleSeekTo);
+      // "Stop" from a headset or lock screen fades out like the sleep timer
+      // and keeps the position so playback can resume later
+      navigator.mediaSession.setActionHandler("stop", () =>
+        startSleepTimer("duration", { minutes: 0 }),
+      );
     } catch (error) {
       logger.error("Failed to set media session handlers:", error);
     }
@@ -914,11 +1980,21 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
         navigator.mediaSession.setActionHandler("seekbackward", null);
         navigator.mediaSession.setActionHandler("seekforward", null);
         navigator.mediaSession.setActionHandler("seekto", null);
+        navigator.mediaSession.setActionHandler("stop", null);
       } catch {
         // Ignore cleanup errors
       }
     };
-  }, [currentTrack, queue, history, isPlaying, play, pause, createQueuedTrack]);
+  }, [
+    currentTrack,
+    queue,
+    history,
+    isPlaying,
+    play,
+    pause,
+    createQueuedTrack,
+    startSleepTimer,
+  ]);
 
   const togglePlay = useCallback(async () => {
     // Use actual audio element state as source of truth to prevent state sync issues
@@ -939,18 +2015,23 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
     }
   }, [isPlaying, play, pause]);
 
-  const seek = useCallback((time: number) => {
-    if (!audioRef.current) return;
+  const seek = useCallback(
+    (time: number) => {
+      if (!audioRef.current) return;
 
-    // Validate that time is a finite number
-    if (!isFinite(time)) {
-      logger.error(`[useAudioPlayer] ❌ Invalid seek time: ${time}`);
-      return;
-    }
+      // Validate that time is a finite number
+      if (!isFinite(time)) {
+        logger.error(`[useAudioPlayer] ❌ Invalid seek time: ${time}`);
+        return;
+      }
 
-    audioRef.current.currentTime = time;
-    setCurrentTime(time);
-  }, []);
+      // Seeking out of the fade window abandons the incoming track
+      cancelCrossfade();
+      audioRef.current.currentTime = time;
+      setCurrentTime(time);
+    },
+    [cancelCrossfade],
+  );
 
   const playPrevious = useCallback(() => {
     if (history.length === 0) return null;
@@ -1117,63 +2198,125 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
     [createQueuedTrack, isValidTrack],
   );
 
-  const removeFromQueue = useCallback((index: number) => {
-    logger.debug("[useAudioPlayer] removeFromQueue called", {
-      index,
-      isCurrentTrack: index === 0,
-    });
+  useEffect(() => {
+    queuedTracksRef.current = queuedTracks;
+  }, [queuedTracks]);
 
-    // Prevent removing queuedTracks[0] (current track)
-    if (index === 0) {
-      logger.warn(
-        "[useAudioPlayer] Cannot remove currently playing track (queuedTracks[0])",
+  const commitQueue = useCallback((newQueue: QueuedTrack[]) => {
+    queuedTracksRef.current = newQueue;
+    setQueuedTracks(newQueue);
+  }, []);
+
+  const recordQueueEdit = useCallback(
+    (edit: QueueEdit) => {
+      setQueueEdits((prev) => pushQueueEdit(prev, edit));
+      onQueueEdit?.(edit);
+    },
+    [onQueueEdit],
+  );
+
+  // Remove one or several entries at once, as a single edit
+  const removeFromQueue = useCallback(
+    (index: number | number[]) => {
+      const indices = new Set(Array.isArray(index) ? index : [index]);
+      logger.debug("[useAudioPlayer] removeFromQueue called", {
+        index,
+        isCurrentTrack: indices.has(0),
+      });
+
+      // Prevent removing queuedTracks[0] (current track)
+      if (indices.has(0)) {
+        logger.warn(
+          "[useAudioPlayer] Cannot remove currently playing track (queuedTracks[0])",
+        );
+        indices.delete(0);
+      }
+
+      const prev = queuedTracksRef.current;
+      const { queuedTracks: newQueue, edit } = removeFromQueueWithEdit(
+        prev,
+        (_, i) => !indices.has(i),
+        "remove",
+        (removed) =>
+          removed.length === 1
+            ? `Removed "${removed[0]!.queuedTrack.track.title}"`
+            : `Removed ${removed.length} tracks from the queue`,
       );
-      return;
-    }
+      if (!edit) return;
 
-    setQueuedTracks((prev) => {
-      const newQueue = prev.filter((_, i) => i !== index);
+      commitQueue(newQueue);
+      recordQueueEdit(edit);
       logger.debug("[useAudioPlayer] Queue updated after removal", {
         previousLength: prev.length,
         newLength: newQueue.length,
         removedIndex: index,
       });
-      return newQueue;
-    });
-  }, []);
+    },
+    [commitQueue, recordQueueEdit],
+  );
 
   const clearQueue = useCallback(() => {
     // Clear only upcoming tracks (queuedTracks[1..n]), keep current track (queuedTracks[0])
-    const newQueue = queuedTracks.length > 0 ? [queuedTracks[0]!] : [];
-    setQueuedTracks(newQueue);
+    const { queuedTracks: newQueue, edit } = removeFromQueueWithEdit(
+      queuedTracksRef.current,
+      (_, i) => i === 0,
+      "clear",
+      (removed) =>
+        `Cleared ${removed.length} track${removed.length === 1 ? "" : "s"} from the queue`,
+    );
+    commitQueue(newQueue);
+    if (edit) recordQueueEdit(edit);
 
     // If queue is now empty (no current track), clear persisted state
     // Otherwise, persist will happen automatically via the useEffect
     if (newQueue.length === 0) {
       clearPersistedQueueState();
     }
-  }, [queuedTracks]);
+  }, [commitQueue, recordQueueEdit]);
 
-  const reorderQueue = useCallback((oldIndex: number, newIndex: number) => {
-    // Prevent reordering queuedTracks[0] (current track)
-    if (oldIndex === 0 || newIndex === 0) {
-      logger.warn(
-        "[useAudioPlayer] Cannot reorder currently playing track (queuedTracks[0])",
+  const reorderQueue = useCallback(
+    (oldIndex: number, newIndex: number) => {
+      // Prevent reordering queuedTracks[0] (current track)
+      if (oldIndex === 0 || newIndex === 0) {
+        logger.warn(
+          "[useAudioPlayer] Cannot reorder currently playing track (queuedTracks[0])",
+        );
+        return;
+      }
+
+      const { queuedTracks: newQueue, edit } = moveInQueueWithEdit(
+        queuedTracksRef.current,
+        oldIndex,
+        newIndex,
       );
-      return;
-    }
+      if (!edit) return;
 
-    setQueuedTracks((prev) => {
-      const newQueue = [...prev];
-      const [removed] = newQueue.splice(oldIndex, 1);
+      commitQueue(newQueue);
+      recordQueueEdit(edit);
+    },
+    [commitQueue, recordQueueEdit],
+  );
 
-      if (removed) {
-        newQueue.splice(newIndex, 0, removed);
-      }
+  // Put the upcoming tracks in the given order (by queue id) without an undo
+  // entry, for orderings the app keeps applying by itself such as jukebox
+  // votes. Entries missing from the order stay behind the ordered ones.
+  const setUpcomingOrder = useCallback(
+    (queueIds: string[]) => {
+      const [current, ...upcoming] = queuedTracksRef.current;
+      if (!current) return;
+
+      const position = new Map(queueIds.map((id, i) => [id, i]));
+      const ordered = [...upcoming].sort(
+        (a, b) =>
+          (position.get(a.queueId) ?? queueIds.length) -
+          (position.get(b.queueId) ?? queueIds.length),
+      );
+      if (ordered.every((qt, i) => qt === upcoming[i])) return;
 
-      return newQueue;
-    });
-  }, []);
+      commitQueue([current, ...ordered]);
+    },
+    [commitQueue],
+  );
 
   const playFromQueue = useCallback(
     (index: number) => {
@@ -1472,41 +2615,208 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
     }
 
     if (currentTrack && audioRef.current) {
-      const streamUrl = getStreamUrlById(currentTrack.id.toString());
-      // Only load if the track is different from what's currently loaded
-      if (audioRef.current.src !== streamUrl || !audioRef.current.src) {
-        logger.debug(
-          `[useAudioPlayer] 🎶 Loading new track: ${currentTrack.title}`,
-          {
-            streamUrl,
-            currentSrc: audioRef.current.src,
-          },
-        );
-        loadTrack(currentTrack, streamUrl);
-        // Auto-play when user explicitly selects a song
-        // Wait a bit for source to be set and connection chain to be ready
-        setTimeout(() => {
-          play().catch((error) => {
-            // Ignore abort errors - these are normal when switching tracks quickly
-            if (
-              error instanceof DOMException &&
-              (error.name === "AbortError" ||
-                error.message?.includes("aborted") ||
-                error.message?.includes("fetching process"))
-            ) {
+      let cancelled = false;
+      const loadCurrentTrack = () => {
+        const quality = streamQualityRef.current;
+        getStreamUrlById(currentTrack.id.toString(), quality)
+          .then((streamUrl) => {
+            if (cancelled || !audioRef.current) return;
+            cancelCrossfade();
+
+            // Only load if the track is different from what's currently loaded
+            if (audioRef.current.src !== streamUrl || !audioRef.current.src) {
               logger.debug(
-                "[useAudioPlayer] Playback aborted (normal during rapid track changes)",
+                `[useAudioPlayer] 🎶 Loading new track: ${currentTrack.title}`,
+                {
+                  streamUrl,
+                  currentSrc: audioRef.current.src,
+                },
               );
-              return;
+              loadedQualityRef.current = quality;
+              loadTrack(currentTrack, streamUrl);
+              const resumeAt = resumePositionRef.current;
+              resumePositionRef.current = null;
+              if (
+                resumeAt?.trackId === currentTrack.id &&
+                resumeAt.position > 0
+              ) {
+                const audio = audioRef.current;
+                audio.addEventListener(
+                  "loadedmetadata",
+                  () => {
+                    if (audio.src !== streamUrl) return;
+                    audio.currentTime = resumeAt.position;
+                  },
+                  { once: true },
+                );
+              }
+              // Auto-play when user explicitly selects a song
+              // Wait a bit for source to be set and connection chain to be ready
+              setTimeout(() => {
+                play().catch((error) => {
+                  // Ignore abort errors - these are normal when switching tracks quickly
+                  if (
+                    error instanceof DOMException &&
+                    (error.name === "AbortError" ||
+                      error.message?.includes("aborted") ||
+                      error.message?.includes("fetching process"))
+                  ) {
+                    logger.debug(
+                      "[useAudioPlayer] Playback aborted (normal during rapid track changes)",
+                    );
+                    return;
+                  }
+                  logger.error("Playback failed:", error);
+                });
+              }, 150); // Small delay to ensure source is set and connection chain is ready
             }
-            logger.error("Playback failed:", error);
+            // Don't auto-play if track is already loaded - user might have paused it intentionally
+            // Auto-play only happens when loading a NEW track (handled above)
+          })
+          .catch((error: unknown) => {
+            if (cancelled) return;
+            const message =
+              error instanceof Error
+                ? error.message
+                : "Failed to get stream URL";
+            logger.error("[useAudioPlayer] Failed to get stream URL:", message);
+            setIsLoading(false);
+            setIsPlaying(false);
+            onError?.(message, currentTrack.id);
           });
-        }, 150); // Small delay to ensure source is set and connection chain is ready
+      };
+
+      // The incoming track is already audible on the secondary element after
+      // a crossfade or gapless start: that element becomes the primary one
+      const pending = crossfadeRef.current;
+      if (pending?.trackId === currentTrack.id && pending.started) {
+        void promoteSecondaryElement(currentTrack.id).then((promoted) => {
+          if (!promoted && !cancelled) loadCurrentTrack();
+        });
+      } else {
+        loadCurrentTrack();
       }
-      // Don't auto-play if track is already loaded - user might have paused it intentionally
-      // Auto-play only happens when loading a NEW track (handled above)
+
+      return () => {
+        cancelled = true;
+      };
     }
-  }, [currentTrack, loadTrack, play]); // Don't include isPlaying - we don't want to trigger on pause/play state changes
+  }, [
+    currentTrack,
+    loadTrack,
+    play,
+    cancelCrossfade,
+    promoteSecondaryElement,
+    onError,
+  ]); // Don't include isPlaying - we don't want to trigger on pause/play state changes
+
+  // Step down a quality level when playback keeps stalling
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const markLoadOrSeek = () => {
+      lastLoadOrSeekRef.current = Date.now();
+    };
+    const handleStall = () => {
+      const now = Date.now();
+      if (
+        !isPlayingRef.current ||
+        now - lastLoadOrSeekRef.current < QUALITY_STALL_GRACE_MS
+      ) {
+        return;
+      }
+
+      const stalls = stallTimesRef.current.filter(
+        (time) => now - time < QUALITY_STALL_WINDOW_MS,
+      );
+      // "stalled" and "waiting" often fire together for the same stall
+      const lastStall = stalls[stalls.length - 1];
+      if (lastStall !== undefined && now - lastStall < 1000) return;
+      stalls.push(now);
+
+      if (
+        stalls.length >= QUALITY_STALL_THRESHOLD &&
+        streamQualityRef.current !== "low"
+      ) {
+        logger.warn(
+          `[useAudioPlayer] ${stalls.length} stalls in ${QUALITY_STALL_WINDOW_MS / 1000}s, stepping down from ${streamQualityRef.current} quality`,
+        );
+        stallTimesRef.current = [];
+        setQualityStepDown((steps) => steps + 1);
+        return;
+      }
+      stallTimesRef.current = stalls;
+    };
+
+    audio.addEventListener("loadstart", markLoadOrSeek);
+    audio.addEventListener("seeking", markLoadOrSeek);
+    audio.addEventListener("stalled", handleStall);
+    audio.addEventListener("waiting", handleStall);
+    return () => {
+      audio.removeEventListener("loadstart", markLoadOrSeek);
+      audio.removeEventListener("seeking", markLoadOrSeek);
+      audio.removeEventListener("stalled", handleStall);
+      audio.removeEventListener("waiting", handleStall);
+    };
+  }, [primaryElementSwaps]);
+
+  // Switch the current track to a new quality in place, keeping the position
+  // and whether it was playing
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio?.src || currentTrackId === null) return;
+    // Previews only come in one quality
+    if (
+      recoveryRef.current?.trackId === currentTrackId &&
+      recoveryRef.current.step === "preview"
+    ) {
+      return;
+    }
+    if (
+      loadedQualityRef.current === null ||
+      loadedQualityRef.current === streamQuality
+    ) {
+      return;
+    }
+
+    let cancelled = false;
+    getStreamUrlById(currentTrackId.toString(), streamQuality)
+      .then((streamUrl) => {
+        if (cancelled) return;
+        // Downloaded tracks play from the device whatever the quality
+        if (streamUrl === audio.src) {
+          loadedQualityRef.current = streamQuality;
+          return;
+        }
+
+        const position = audio.currentTime;
+        const wasPlaying = !audio.paused;
+        loadedQualityRef.current = streamQuality;
+        audio.src = streamUrl;
+        audio.load();
+        audio.addEventListener(
+          "loadedmetadata",
+          () => {
+            // A different track was loaded in the meantime
+            if (audio.src !== streamUrl) return;
+            audio.currentTime = position;
+            if (wasPlaying) void play();
+          },
+          { once: true },
+        );
+        logger.debug(
+          `[useAudioPlayer] Switched to ${streamQuality} quality at ${position.toFixed(1)}s`,
+        );
+      })
+      .catch((error) => {
+        logger.warn("[useAudioPlayer] Failed to switch quality:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentTrackId, play, streamQuality]);
 
   // Sync React state with actual audio element state (polling fallback)
   // This ensures UI stays in sync even if events are missed
@@ -1567,29 +2877,28 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
 
   // NEW: Remove duplicate tracks from queue
   const removeDuplicates = useCallback(() => {
-    setQueuedTracks((prev) => {
-      if (prev.length <= 1) return prev;
-
-      const seen = new Set<number>();
-      const deduplicated: QueuedTrack[] = [];
-
-      for (const qt of prev) {
-        if (!seen.has(qt.track.id)) {
-          seen.add(qt.track.id);
-          deduplicated.push(qt);
-        }
-      }
-
-      const removedCount = prev.length - deduplicated.length;
-      if (removedCount > 0) {
-        logger.debug(
-          `[useAudioPlayer] 🧹 Removed ${removedCount} duplicate track${removedCount === 1 ? "" : "s"} from queue`,
-        );
-      }
+    if (queuedTracksRef.current.length <= 1) return;
+
+    const seen = new Set<number>();
+    const { queuedTracks: deduplicated, edit } = removeFromQueueWithEdit(
+      queuedTracksRef.current,
+      (qt) => {
+        if (seen.has(qt.track.id)) return false;
+        seen.add(qt.track.id);
+        return true;
+      },
+      "remove_duplicates",
+      (removed) =>
+        `Removed ${removed.length} duplicate track${removed.length === 1 ? "" : "s"}`,
+    );
+    if (!edit) return;
 
-      return deduplicated;
-    });
-  }, []);
+    commitQueue(deduplicated);
+    recordQueueEdit(edit);
+    logger.debug(
+      `[useAudioPlayer] 🧹 Removed ${edit.removed.length} duplicate track${edit.removed.length === 1 ? "" : "s"} from queue`,
+    );
+  }, [commitQueue, recordQueueEdit]);
 
   // NEW: Clean invalid tracks from queue
   const cleanInvalidTracks = useCallback(() => {
@@ -1609,53 +2918,145 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
 
   // NEW: Full queue cleanup (duplicates + invalid tracks)
   const cleanQueue = useCallback(() => {
-    setQueuedTracks((prev) => {
-      if (prev.length === 0) return prev;
-
-      // First, remove invalid tracks
-      const valid = prev.filter((qt) => isValidTrack(qt.track));
-
-      // Then, remove duplicates
-      const seen = new Set<number>();
-      const cleaned: QueuedTrack[] = [];
-
-      for (const qt of valid) {
-        if (!seen.has(qt.track.id)) {
-          seen.add(qt.track.id);
-          cleaned.push(qt);
+    if (queuedTracksRef.current.length === 0) return;
+
+    // Remove invalid tracks, then duplicates
+    let removedInvalid = 0;
+    const seen = new Set<number>();
+    const { queuedTracks: cleaned, edit } = removeFromQueueWithEdit(
+      queuedTracksRef.current,
+      (qt) => {
+        if (!isValidTrack(qt.track)) {
+          removedInvalid++;
+          return false;
         }
-      }
-
-      const removedInvalid = prev.length - valid.length;
-      const removedDuplicates = valid.length - cleaned.length;
-      const totalRemoved = removedInvalid + removedDuplicates;
-
-      if (totalRemoved > 0) {
-        logger.debug(
-          `[useAudioPlayer] 🧹 Queue cleaned: removed ${removedInvalid} invalid, ${removedDuplicates} duplicate track${totalRemoved === 1 ? "" : "s"}`,
-        );
-      }
-
-      return cleaned;
-    });
-  }, [isValidTrack]);
+        if (seen.has(qt.track.id)) return false;
+        seen.add(qt.track.id);
+        return true;
+      },
+      "clean",
+      (removed) =>
+        `Removed ${removed.length} invalid or duplicate track${removed.length === 1 ? "" : "s"}`,
+    );
+    if (!edit) return;
 
-  // NEW: Clear entire queue and history (for login/logout)
-  const clearQueueAndHistory = useCallback(() => {
+    commitQueue(cleaned);
+    recordQueueEdit(edit);
+    const removedDuplicates = edit.removed.length - removedInvalid;
     logger.debug(
-      "[useAudioPlayer] 🧹 Clearing queue and history (user session change)",
+      `[useAudioPlayer] 🧹 Queue cleaned: removed ${removedInvalid} invalid, ${removedDuplicates} duplicate track${edit.removed.length === 1 ? "" : "s"}`,
     );
-    setQueuedTracks([]);
+  }, [isValidTrack, commitQueue, recordQueueEdit]);
+
+  const stopAndClearQueue = useCallback(() => {
+    commitQueue([]);
     setHistory([]);
     setOriginalQueueOrder([]);
     setIsPlaying(false);
+    cancelCrossfade();
     if (audioRef.current) {
       audioRef.current.pause();
       audioRef.current.currentTime = 0;
     }
     // Clear persisted state immediately to prevent restoration on tab switch
     clearPersistedQueueState();
-  }, []);
+  }, [cancelCrossfade, commitQueue]);
+
+  // NEW: Clear entire queue and history (for login/logout). Not undoable on a
+  // user session change: the next user mustn't get the previous one's queue
+  const clearQueueAndHistory = useCallback(
+    ({ undoable = true }: { undoable?: boolean } = {}) => {
+      logger.debug("[useAudioPlayer] 🧹 Clearing queue and history", {
+        undoable,
+      });
+      const { edit } = removeFromQueueWithEdit(
+        queuedTracksRef.current,
+        () => false,
+        "clear_all",
+        () => "Cleared the queue and history",
+      );
+      stopAndClearQueue();
+      if (!undoable) {
+        setQueueEdits(EMPTY_QUEUE_EDIT_LOG);
+      } else if (edit) {
+        recordQueueEdit({ ...edit, history });
+      }
+    },
+    [history, stopAndClearQueue, recordQueueEdit],
+  );
+
+  // Replace the whole queue with a saved one, picking up its current track
+  // where it was left. Edits to the previous queue can't be undone anymore.
+  const restoreQueueState = useCallback(
+    (state: QueueSnapshotState) => {
+      const nextTrack = state.queuedTracks[0]?.track ?? null;
+      cancelCrossfade();
+      if (nextTrack && nextTrack.id === currentTrack?.id) {
+        if (audioRef.current) audioRef.current.currentTime = state.currentTime;
+      } else {
+        resumePositionRef.current = nextTrack
+          ? { trackId: nextTrack.id, position: state.currentTime }
+          : null;
+        if (!nextTrack && audioRef.current) {
+          audioRef.current.pause();
+          audioRef.current.currentTime = 0;
+          setIsPlaying(false);
+        }
+      }
+
+      commitQueue(state.queuedTracks);
+      setHistory(state.history);
+      setSmartQueueState(state.smartQueueState);
+      setIsShuffled(state.isShuffled);
+      setRepeatMode(state.repeatMode);
+      setOriginalQueueOrder([]);
+      setQueueEdits(EMPTY_QUEUE_EDIT_LOG);
+      logger.debug(
+        `[useAudioPlayer] 🔁 Restored queue of ${state.queuedTracks.length} tracks`,
+      );
+    },
+    [cancelCrossfade, commitQueue, currentTrack],
+  );
+
+  // Revert the last queue edit (only if it's `editId`, when given); returns
+  // the edit, or null when there was nothing to undo
+  const undoQueueEdit = useCallback(
+    (editId?: string): QueueEdit | null => {
+      const edit = queueEdits.undo[queueEdits.undo.length - 1];
+      if (!edit || (editId && edit.id !== editId)) return null;
+
+      const restored = revertQueueEdit(
+        { queuedTracks: queuedTracksRef.current, history },
+        edit,
+      );
+      commitQueue(restored.queuedTracks);
+      setHistory(restored.history);
+      setQueueEdits({
+        undo: queueEdits.undo.slice(0, -1),
+        redo: [...queueEdits.redo, edit],
+      });
+      logger.debug(`[useAudioPlayer] ↩️ Undid queue edit: ${edit.label}`);
+      return edit;
+    },
+    [queueEdits, history, commitQueue],
+  );
+
+  const redoQueueEdit = useCallback((): QueueEdit | null => {
+    const edit = queueEdits.redo[queueEdits.redo.length - 1];
+    if (!edit) return null;
+
+    if (edit.type === "clear_all") {
+      stopAndClearQueue();
+    } else {
+      commitQueue(reapplyQueueEdit(queuedTracksRef.current, edit));
+    }
+    setQueueEdits({
+      undo: [...queueEdits.undo, edit],
+      redo: queueEdits.redo.slice(0, -1),
+    });
+    logger.debug(`[useAudioPlayer] ↪️ Redid queue edit: ${edit.label}`);
+    return edit;
+  }, [queueEdits, commitQueue, stopAndClearQueue]);
 
   // Wrapper for setVolume with validation to prevent crashes
   const setVolumeWithValidation = useCallback((newVolume: number) => {
@@ -1706,39 +3107,45 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
         logger.debug(
           "[useAudioPlayer] 🔄 Track already playing, restarting from beginning",
         );
-        if (audioRef.current) {
-          const streamUrl = getStreamUrlById(track.id.toString());
-          // Ensure audio source is set and loaded before playing
-          if (audioRef.current.src !== streamUrl || !audioRef.current.src) {
-            // Source is different or missing, reload the track
-            logger.debug(
-              "[useAudioPlayer] Audio source missing or different, reloading track",
-              {
-                currentSrc: audioRef.current.src,
-                expectedSrc: streamUrl,
-              },
-            );
-            loadTrack(track, streamUrl);
-          } else {
-            // Source is correct, just restart playback
-            logger.debug("[useAudioPlayer] Restarting playback from beginning", {
-              src: audioRef.current.src,
-              currentTime: audioRef.current.currentTime,
-              paused: audioRef.current.paused,
-              readyState: audioRef.current.readyState,
-            });
-            audioRef.current.currentTime = 0;
-            audioRef.current.play().catch((error) => {
-              logger.error("Playback failed:", error);
-              setIsPlaying(false);
-              // If play fails, try reloading the track
+        const quality = streamQualityRef.current;
+        void getStreamUrlById(track.id.toString(), quality)
+          .then((streamUrl) => {
+            if (!audioRef.current) return;
+            // Ensure audio source is set and loaded before playing
+            if (audioRef.current.src !== streamUrl || !audioRef.current.src) {
+              // Source is different or missing, reload the track
               logger.debug(
-                "[useAudioPlayer] Play failed, reloading track as fallback",
+                "[useAudioPlayer] Audio source missing or different, reloading track",
+                {
+                  currentSrc: audioRef.current.src,
+                  expectedSrc: streamUrl,
+                },
               );
+              loadedQualityRef.current = quality;
               loadTrack(track, streamUrl);
-            });
-          }
-        }
+            } else {
+              // Source is correct, just restart playback
+              logger.debug("[useAudioPlayer] Restarting playback from beginning", {
+                src: audioRef.current.src,
+                currentTime: audioRef.current.currentTime,
+                paused: audioRef.current.paused,
+                readyState: audioRef.current.readyState,
+              });
+              audioRef.current.currentTime = 0;
+              audioRef.current.play().catch((error) => {
+                logger.error("Playback failed:", error);
+                setIsPlaying(false);
+                // If play fails, try reloading the track
+                logger.debug(
+                  "[useAudioPlayer] Play failed, reloading track as fallback",
+                );
+                loadTrack(track, streamUrl);
+              });
+            }
+          })
+          .catch((error: unknown) => {
+            logger.error("[useAudioPlayer] Failed to get stream URL:", error);
+          });
       } else {
         // Track is in queue but not at position 0 - use playFromQueue
         logger.debug(
@@ -1771,6 +3178,14 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
     playbackRate,
     isLoading,
     lastAutoQueueCount,
+    sleepTimer,
+    streamQuality,
+    qualityOverride,
+    playerError,
+    streamFallback,
+    queueEdits,
+    canUndoQueueEdit: queueEdits.undo.length > 0,
+    canRedoQueueEdit: queueEdits.redo.length > 0,
 
     // Actions
     loadTrack,
@@ -1798,6 +3213,7 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
     removeFromQueue,
     clearQueue,
     reorderQueue,
+    setUpcomingOrder,
     playFromQueue,
     toggleShuffle,
     cycleRepeatMode,
@@ -1809,14 +3225,23 @@ export function useAudioPlayer(options: UseAudioPlayerOptions = {}) {
     skipBackward,
     clearFailedTrack,
     clearAllFailedTracks,
+    startSleepTimer,
+    cancelSleepTimer,
+    setAbLoop,
+    setQualityOverride,
 
     // NEW: Queue safety functions
     removeDuplicates,
     cleanInvalidTracks,
     cleanQueue,
     clearQueueAndHistory,
+    restoreQueueState,
     isValidTrack,
 
+    // Queue undo/redo
+    undoQueueEdit,
+    redoQueueEdit,
+
     // Smart Queue Operations
     addSmartTracks,
     refreshSmartTracks,
@@ -4,8 +4,22 @@
 
 import { useAudioVisualizer } from "@/hooks/useAudioVisualizer";
 import { useIsMobile } from "@/hooks/useMediaQuery";
-import { analyzeAudio } from "@/utils/audioAnalysis";
-import { useEffect, useRef } from "react";
+import {
+  analyzeAudio,
+  BeatTracker,
+  type TempoEstimate,
+} from "@/utils/audioAnalysis";
+import { useEffect, useRef, useState } from "react";
+
+// How often a steady tempo is offered back as the track's BPM
+const TEMPO_REPORT_INTERVAL_MS = 1000;
+
+interface AudioReactiveBackgroundOptions {
+  // Known BPM of the current track; the beat tracker starts from it
+  tempoHint?: number | null;
+  // Called (at most once a second) while the tracked tempo is steady
+  onTempoEstimate?: (estimate: TempoEstimate) => void;
+}
 
 /**
  * Hook that analyzes audio and updates CSS variables for reactive background effects
@@ -15,6 +29,7 @@ export function useAudioReactiveBackground(
   audioElement: HTMLAudioElement | null,
   isPlaying: boolean,
   enabled = true,
+  { tempoHint = null, onTempoEstimate }: AudioReactiveBackgroundOptions = {},
 ) {
   const isMobile = useIsMobile();
 
@@ -40,6 +55,38 @@ export function useAudioReactiveBackground(
     bass: number;
   } | null>(null);
 
+  // Beat tracking survives re-renders; pulses decay from 1 on each beat
+  const [beatTracker] = useState(() => new BeatTracker());
+  const beatPulseRef = useRef(0);
+  const lastTempoReportRef = useRef(0);
+  const tempoHintRef = useRef(tempoHint);
+  const onTempoEstimateRef = useRef(onTempoEstimate);
+
+  useEffect(() => {
+    onTempoEstimateRef.current = onTempoEstimate;
+  }, [onTempoEstimate]);
+
+  useEffect(() => {
+    tempoHintRef.current = tempoHint;
+    beatTracker.setTempoHint(tempoHint);
+  }, [beatTracker, tempoHint]);
+
+  // A new source means a new track: start tracking from scratch
+  useEffect(() => {
+    if (!audioElement) return;
+
+    const handleLoadStart = () => {
+      beatTracker.reset();
+      beatTracker.setTempoHint(tempoHintRef.current);
+      beatPulseRef.current = 0;
+    };
+
+    audioElement.addEventListener("loadstart", handleLoadStart);
+    return () => {
+      audioElement.removeEventListener("loadstart", handleLoadStart);
+    };
+  }, [audioElement, beatTracker]);
+
   useEffect(() => {
     // Only hide backgrounds when explicitly disabled (not when just not playing)
     if (!effectivelyEnabled) {
@@ -59,6 +106,8 @@ export function useAudioReactiveBackground(
       document.documentElement.style.setProperty("--audio-treble", "0");
       document.documentElement.style.setProperty("--audio-hue", "0");
       document.documentElement.style.setProperty("--audio-strobe", "0");
+      document.documentElement.style.setProperty("--audio-beat", "0");
+      document.documentElement.style.setProperty("--audio-beat-phase", "0");
 
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
@@ -82,7 +131,28 @@ export function useAudioReactiveBackground(
 
       const sampleRate = audioContext.sampleRate;
       const fftSize = getFFTSize();
-      const analysis = analyzeAudio(frequencyData, sampleRate, fftSize);
+      const analysis = analyzeAudio(
+        frequencyData,
+        sampleRate,
+        fftSize,
+        beatTracker,
+      );
+      const { beat } = analysis;
+
+      beatPulseRef.current = beat.isBeat
+        ? (beat.isDownbeat ? 1 : 0.7) * beat.confidence
+        : beatPulseRef.current * 0.9;
+      const beatPulse = beatPulseRef.current;
+
+      const now = performance.now();
+      if (
+        onTempoEstimateRef.current &&
+        now - lastTempoReportRef.current >= TEMPO_REPORT_INTERVAL_MS
+      ) {
+        lastTempoReportRef.current = now;
+        const estimate = beatTracker.getTempoEstimate(now);
+        if (estimate) onTempoEstimateRef.current(estimate);
+      }
 
       // Smooth the values to prevent jitter - increased smoothing for subtlety
       const previous = previousAnalysisRef.current;
@@ -102,7 +172,11 @@ export function useAudioReactiveBackground(
 
       // Calculate intensity (0-1) - reduced multipliers for subtlety
       const intensity = Math.min(1, overallVolume * 0.6); // Reduced from 1.2
-      const bassBoost = Math.min(1, bass * 0.7); // Reduced from 1.3
+      // Follow the beat rather than raw bass level once it's tracked reliably
+      const bassBoost = Math.min(
+        1,
+        (bass * (1 - beat.confidence) + beatPulse * beat.confidence) * 0.7,
+      ); // Reduced from 1.3
       const energy = Math.min(1, (overallVolume + bass) * 0.5); // Reduced from 1.1
       const trebleBoost = Math.min(1, analysis.frequencyBands.treble * 0.6); // Reduced from 1.2
 
@@ -160,6 +234,14 @@ export function useAudioReactiveBackground(
         "--audio-strobe",
         strobe.toString(),
       );
+      document.documentElement.style.setProperty(
+        "--audio-beat",
+        beatPulse.toString(),
+      );
+      document.documentElement.style.setProperty(
+        "--audio-beat-phase",
+        beat.beatPhase.toString(),
+      );
 
       animationFrameRef.current = requestAnimationFrame(updateBackground);
     };
@@ -192,5 +274,6 @@ export function useAudioReactiveBackground(
     getFFTSize,
     initialize,
     resumeContext,
+    beatTracker,
   ]);
 }
@@ -4,6 +4,7 @@
 
 import { useCallback, useEffect, useRef, useState } from "react";
 import {
+  getAudioConnectionKey,
   getOrCreateAudioConnection,
   releaseAudioConnection,
   ensureConnectionChain,
@@ -17,9 +18,12 @@ export interface AudioVisualizerOptions {
 }
 
 export function useAudioVisualizer(
-  audioElement: HTMLAudioElement | null,
+  playerElement: HTMLAudioElement | null,
   options: AudioVisualizerOptions = {},
 ) {
+  // The shared connection's key stays the same when the player moves
+  // playback to its other element between tracks
+  const audioElement = playerElement && getAudioConnectionKey(playerElement);
   const {
     fftSize = 128,
     smoothingTimeConstant = 0.8,
@@ -2,54 +2,95 @@
 
 "use client";
 
+import {
+  BUILT_IN_EQ_PRESETS,
+  DEFAULT_EQ_LAYOUT,
+  EQ_MAX_FREQUENCY,
+  EQ_MIN_FREQUENCY,
+  MAX_EQ_BANDS,
+} from "@/config/equalizer";
 import { STORAGE_KEYS } from "@/config/storage";
 import { localStorage as storage } from "@/services/storage";
 import { api } from "@/trpc/react";
+import type {
+  EqualizerBandLayout,
+  EqualizerCorrectionProfile,
+  ParametricEqBand,
+} from "@/types";
 import { useSession } from "next-auth/react";
 import { useCallback, useEffect, useRef, useState } from "react";
 import {
+  getAudioConnection,
+  getAudioConnectionKey,
   getOrCreateAudioConnection,
   releaseAudioConnection,
   ensureConnectionChain,
+  type AudioConnection,
 } from "@/utils/audioContextManager";
+import {
+  computeFrequencyResponse,
+  createCorrectionProfile,
+  formatEqualizerApo,
+} from "@/utils/equalizer";
 
-export interface EqualizerBand {
-  frequency: number;
-  gain: number;
-  type: BiquadFilterType;
-  Q?: number;
-}
+export type EqualizerBand = ParametricEqBand;
 
 export interface EqualizerPreset {
   name: string;
   bands: number[];
 }
 
-const DEFAULT_BANDS: EqualizerBand[] = [
-  { frequency: 60, gain: 0, type: "lowshelf" },
-  { frequency: 170, gain: 0, type: "peaking", Q: 1 },
-  { frequency: 310, gain: 0, type: "peaking", Q: 1 },
-  { frequency: 600, gain: 0, type: "peaking", Q: 1 },
-  { frequency: 1000, gain: 0, type: "peaking", Q: 1 },
-  { frequency: 3000, gain: 0, type: "peaking", Q: 1 },
-  { frequency: 6000, gain: 0, type: "peaking", Q: 1 },
-  { frequency: 12000, gain: 0, type: "peaking", Q: 1 },
-  { frequency: 14000, gain: 0, type: "highshelf" },
-];
-
-const PRESETS: EqualizerPreset[] = [
-  { name: "Flat", bands: [0, 0, 0, 0, 0, 0, 0, 0, 0] },
-  { name: "Rock", bands: [5, 3, -2, -3, -1, 2, 4, 5, 5] },
-  { name: "Pop", bands: [-1, -1, 0, 2, 4, 4, 2, 0, -1] },
-  { name: "Jazz", bands: [4, 3, 1, 2, -1, -1, 0, 2, 3] },
-  { name: "Classical", bands: [5, 4, 3, 0, -1, -1, 0, 3, 4] },
-  { name: "Bass Boost", bands: [8, 6, 4, 2, 0, 0, 0, 0, 0] },
-  { name: "Treble Boost", bands: [0, 0, 0, 0, 0, 2, 4, 6, 8] },
-  { name: "Vocal", bands: [-2, -3, -2, 1, 3, 3, 2, 1, 0] },
-  { name: "Electronic", bands: [5, 4, 1, 0, -2, 2, 1, 2, 5] },
-];
-
-export function useEqualizer(audioElement: HTMLAudioElement | null) {
+const applyGains = (
+  layout: EqualizerBandLayout[],
+  gains: number[],
+): EqualizerBand[] =>
+  layout.map((band, index) => ({ ...band, gain: gains[index] ?? 0 }));
+
+const toLayout = (bands: EqualizerBand[]): EqualizerBandLayout[] =>
+  bands.map(({ frequency, type, Q }) => ({ frequency, type, Q }));
+
+const DEFAULT_BANDS: EqualizerBand[] = applyGains(DEFAULT_EQ_LAYOUT, []);
+
+const PRESETS: EqualizerPreset[] = BUILT_IN_EQ_PRESETS;
+
+const createFilter = (
+  audioContext: BaseAudioContext,
+  band: EqualizerBand,
+): BiquadFilterNode => {
+  const filter = audioContext.createBiquadFilter();
+  filter.type = band.type;
+  filter.frequency.value = band.frequency;
+  filter.gain.value = band.gain;
+  filter.Q.value = band.Q;
+  return filter;
+};
+
+// Replace the connection's correction layer nodes (without rebuilding the chain)
+const setCorrectionNodes = (
+  connection: AudioConnection,
+  correction: EqualizerCorrectionProfile | null,
+) => {
+  connection.correctionFilters?.forEach((filter) => filter.disconnect());
+  connection.preamp?.disconnect();
+
+  if (!correction?.enabled) {
+    connection.correctionFilters = undefined;
+    connection.preamp = undefined;
+    return;
+  }
+
+  const preamp = connection.audioContext.createGain();
+  preamp.gain.value = Math.pow(10, correction.preamp / 20);
+  connection.preamp = preamp;
+  connection.correctionFilters = correction.bands.map((band) =>
+    createFilter(connection.audioContext, band),
+  );
+};
+
+export function useEqualizer(playerElement: HTMLAudioElement | null) {
+  // The shared connection's key stays the same when the player moves
+  // playback to its other element between tracks
+  const audioElement = playerElement && getAudioConnectionKey(playerElement);
   const audioContextRef = useRef<AudioContext | null>(null);
   const sourceRef = useRef<MediaElementAudioSourceNode | null>(null);
   const filtersRef = useRef<BiquadFilterNode[]>([]);
@@ -59,9 +100,12 @@ export function useEqualizer(audioElement: HTMLAudioElement | null) {
   const [isEnabled, setIsEnabled] = useState(true);
   const [bands, setBands] = useState<EqualizerBand[]>(DEFAULT_BANDS);
   const [currentPreset, setCurrentPreset] = useState("Flat");
+  const [correction, setCorrection] =
+    useState<EqualizerCorrectionProfile | null>(null);
 
   const { status } = useSession();
   const isAuthenticated = status === "authenticated";
+  const utils = api.useUtils();
 
   const persistLocalPreferences = useCallback(
     (
@@ -71,18 +115,70 @@ export function useEqualizer(audioElement: HTMLAudioElement | null) {
     ) => {
       const gains = bandsToPersist.map((band) => band.gain);
       void storage.set(STORAGE_KEYS.EQUALIZER_BANDS, gains);
+      void storage.set(STORAGE_KEYS.EQUALIZER_LAYOUT, toLayout(bandsToPersist));
       void storage.set(STORAGE_KEYS.EQUALIZER_PRESET, presetName);
       void storage.set(STORAGE_KEYS.EQUALIZER_ENABLED, enabledValue);
     },
     [],
   );
 
+  // Apply the device correction layer. It is independent of the EQ toggle,
+  // so a headphone profile stays active under any musical preset.
+  const syncCorrection = useCallback(
+    (nextCorrection: EqualizerCorrectionProfile | null) => {
+      const connection = audioElement
+        ? getAudioConnection(audioElement)
+        : undefined;
+      if (!connection || !audioContextRef.current) return;
+
+      setCorrectionNodes(connection, nextCorrection);
+      ensureConnectionChain(connection);
+    },
+    [audioElement],
+  );
+
+  // Push band settings into the live filter nodes. Nodes are updated in place;
+  // the chain is only rebuilt when bands are added or removed.
+  const syncFilters = useCallback(
+    (nextBands: EqualizerBand[]) => {
+      const connection = audioElement
+        ? getAudioConnection(audioElement)
+        : undefined;
+      if (!connection || !audioContextRef.current) return;
+
+      if (filtersRef.current.length !== nextBands.length) {
+        filtersRef.current.forEach((filter) => filter.disconnect());
+        const filters = nextBands.map((band) =>
+          createFilter(connection.audioContext, band),
+        );
+        filtersRef.current = filters;
+        connection.filters = filters;
+        ensureConnectionChain(connection);
+        return;
+      }
+
+      nextBands.forEach((band, index) => {
+        const filter = filtersRef.current[index];
+        if (!filter) return;
+        filter.type = band.type;
+        filter.frequency.value = band.frequency;
+        filter.gain.value = band.gain;
+        filter.Q.value = band.Q;
+      });
+    },
+    [audioElement],
+  );
+
   const loadLocalPreferences = useCallback(() => {
     const storedPreset = storage.getOrDefault<string>(
       STORAGE_KEYS.EQUALIZER_PRESET,
       "Flat",
     );
     const preset = PRESETS.find((p) => p.name === storedPreset) ?? PRESETS[0]!;
+    const storedLayout = storage.getOrDefault<EqualizerBandLayout[]>(
+      STORAGE_KEYS.EQUALIZER_LAYOUT,
+      DEFAULT_EQ_LAYOUT,
+    );
     const storedBands = storage.getOrDefault<number[]>(
       STORAGE_KEYS.EQUALIZER_BANDS,
       preset.bands,
@@ -91,17 +187,23 @@ export function useEqualizer(audioElement: HTMLAudioElement | null) {
       STORAGE_KEYS.EQUALIZER_ENABLED,
       true,
     );
+    const storedCorrection =
+      storage.getOrDefault<EqualizerCorrectionProfile | null>(
+        STORAGE_KEYS.EQUALIZER_CORRECTION,
+        null,
+      );
 
-    const mergedBands = DEFAULT_BANDS.map((band, index) => ({
-      ...band,
-      gain: storedBands[index] ?? preset.bands[index] ?? 0,
-    }));
+    const mergedBands = applyGains(storedLayout, storedBands);
+    const presetName = storedPreset === "Custom" ? "Custom" : preset.name;
 
     setBands(mergedBands);
-    setCurrentPreset(preset.name);
+    setCurrentPreset(presetName);
     setIsEnabled(storedEnabled);
-    persistLocalPreferences(mergedBands, preset.name, storedEnabled);
-  }, [persistLocalPreferences]);
+    syncFilters(mergedBands);
+    persistLocalPreferences(mergedBands, presetName, storedEnabled);
+    setCorrection(storedCorrection);
+    syncCorrection(storedCorrection);
+  }, [persistLocalPreferences, syncCorrection, syncFilters]);
 
   // Fetch preferences from server
   const { data: preferences, error: preferencesError } =
@@ -111,6 +213,14 @@ export function useEqualizer(audioElement: HTMLAudioElement | null) {
       enabled: isAuthenticated,
     });
 
+  const { data: customPresets = [] } = api.equalizer.getCustomPresets.useQuery(
+    undefined,
+    {
+      refetchOnWindowFocus: false,
+      enabled: isAuthenticated,
+    },
+  );
+
   // Mutations for persisting to database
   const updatePreferencesMutation = api.equalizer.updatePreferences.useMutation(
     {
@@ -126,29 +236,75 @@ export function useEqualizer(audioElement: HTMLAudioElement | null) {
     },
   });
 
+  const saveCustomPresetMutation = api.equalizer.saveCustomPreset.useMutation({
+    onSuccess: async () => {
+      await utils.equalizer.getCustomPresets.invalidate();
+    },
+    onError: (error) => {
+      console.error("Failed to save custom preset:", error.message);
+    },
+  });
+
+  const deleteCustomPresetMutation =
+    api.equalizer.deleteCustomPreset.useMutation({
+      onSuccess: async () => {
+        await utils.equalizer.getCustomPresets.invalidate();
+      },
+      onError: (error) => {
+        console.error("Failed to delete custom preset:", error.message);
+      },
+    });
+
+  const importCorrectionMutation =
+    api.equalizer.importCorrectionProfile.useMutation();
+
+  const updateCorrectionMutation = api.equalizer.updateCorrection.useMutation({
+    onError: (error) => {
+      console.error("Failed to update correction profile:", error.message);
+    },
+  });
+
+  const clearCorrectionMutation =
+    api.equalizer.clearCorrectionProfile.useMutation({
+      onError: (error) => {
+        console.error("Failed to remove correction profile:", error.message);
+      },
+    });
+
   // Load saved EQ settings from server
   useEffect(() => {
     if (preferences && isAuthenticated) {
-      const nextBands = DEFAULT_BANDS.map((band, index) => ({
-        ...band,
-        gain: preferences.bands[index] ?? 0,
-      }));
+      const nextBands = applyGains(preferences.layout, preferences.bands);
 
       setBands(nextBands);
       setCurrentPreset(preferences.preset);
       setIsEnabled(preferences.enabled);
+      syncFilters(nextBands);
       persistLocalPreferences(
         nextBands,
         preferences.preset,
         preferences.enabled,
       );
+      setCorrection(preferences.correction);
+      syncCorrection(preferences.correction);
+      void storage.set(
+        STORAGE_KEYS.EQUALIZER_CORRECTION,
+        preferences.correction,
+      );
     } else if (preferencesError && isAuthenticated) {
       console.error(
         "Failed to load preferences from server:",
         preferencesError.message,
       );
     }
-  }, [preferences, preferencesError, isAuthenticated, persistLocalPreferences]);
+  }, [
+    preferences,
+    preferencesError,
+    isAuthenticated,
+    persistLocalPreferences,
+    syncCorrection,
+    syncFilters,
+  ]);
 
   // Cleanup debounce timer on unmount
   useEffect(() => {
@@ -183,17 +339,14 @@ export function useEqualizer(audioElement: HTMLAudioElement | null) {
       }
 
       // Create filter nodes for each band
-      const filters = bands.map((band) => {
-        const filter = connection.audioContext.createBiquadFilter();
-        filter.type = band.type;
-        filter.frequency.value = band.frequency;
-        filter.gain.value = band.gain;
-        if (band.Q) filter.Q.value = band.Q;
-        return filter;
-      });
+      const filters = bands.map((band) =>
+        createFilter(connection.audioContext, band),
+      );
 
       filtersRef.current = filters;
       connection.filters = filters;
+      connection.filtersBypassed = !isEnabled;
+      setCorrectionNodes(connection, correction);
 
       audioContextRef.current = connection.audioContext;
       sourceRef.current = connection.sourceNode;
@@ -205,31 +358,19 @@ export function useEqualizer(audioElement: HTMLAudioElement | null) {
     } catch (error) {
       console.error("Failed to initialize equalizer:", error);
     }
-  }, [audioElement, isInitialized, bands]);
-
-  // Update a single band (debounced database save)
-  const updateBand = useCallback(
-    (index: number, gain: number) => {
-      if (index < 0 || index >= bands.length) return;
+  }, [audioElement, isInitialized, bands, isEnabled, correction]);
 
-      const updatedBands = bands.map((band, idx) =>
-        idx === index ? { ...band, gain } : band,
-      );
-
-      // Update state for immediate UI feedback
+  // Apply edited bands everywhere: state, filter nodes, local storage and
+  // (debounced, 1 second after the user stops dragging) the database
+  const commitBands = useCallback(
+    (updatedBands: EqualizerBand[]) => {
       setBands(updatedBands);
-
-      // Update filter node immediately
-      const filter = filtersRef.current[index];
-      if (filter) {
-        filter.gain.value = gain;
-      }
+      syncFilters(updatedBands);
 
       // Mark as custom preset
       setCurrentPreset("Custom");
       persistLocalPreferences(updatedBands, "Custom", isEnabled);
 
-      // Debounce the database save (1 second after user stops dragging)
       if (debounceTimerRef.current) {
         clearTimeout(debounceTimerRef.current);
       }
@@ -238,6 +379,7 @@ export function useEqualizer(audioElement: HTMLAudioElement | null) {
         debounceTimerRef.current = window.setTimeout(() => {
           updatePreferencesMutation.mutate({
             bands: updatedBands.map((b) => b.gain),
+            layout: toLayout(updatedBands),
             preset: "Custom",
             enabled: isEnabled,
           });
@@ -247,7 +389,7 @@ export function useEqualizer(audioElement: HTMLAudioElement | null) {
       }
     },
     [
-      bands,
+      syncFilters,
       updatePreferencesMutation,
       isEnabled,
       isAuthenticated,
@@ -255,24 +397,98 @@ export function useEqualizer(audioElement: HTMLAudioElement | null) {
     ],
   );
 
-  // Apply preset and save to database
+  // Update a single band's gain
+  const updateBand = useCallback(
+    (index: number, gain: number) => {
+      if (index < 0 || index >= bands.length) return;
+
+      commitBands(
+        bands.map((band, idx) => (idx === index ? { ...band, gain } : band)),
+      );
+    },
+    [bands, commitBands],
+  );
+
+  // Update any parameter of a band (frequency, Q, filter type, gain)
+  const updateBandParams = useCallback(
+    (index: number, params: Partial<EqualizerBand>) => {
+      if (index < 0 || index >= bands.length) return;
+
+      commitBands(
+        bands.map((band, idx) =>
+          idx === index ? { ...band, ...params } : band,
+        ),
+      );
+    },
+    [bands, commitBands],
+  );
+
+  // Add a peaking band, by default in the widest gap between existing bands
+  const addBand = useCallback(
+    (frequency?: number) => {
+      if (bands.length >= MAX_EQ_BANDS) return;
+
+      let center = frequency;
+      if (center === undefined) {
+        const edges = [
+          EQ_MIN_FREQUENCY,
+          ...bands.map((band) => band.frequency).sort((a, b) => a - b),
+          EQ_MAX_FREQUENCY,
+        ];
+        let widest = 0;
+        for (let i = 0; i < edges.length - 1; i++) {
+          const gap = Math.log(edges[i + 1]! / edges[i]!);
+          if (gap > widest) {
+            widest = gap;
+            center = Math.round(Math.sqrt(edges[i]! * edges[i + 1]!));
+          }
+        }
+      }
+
+      const newBand: EqualizerBand = {
+        frequency: center ?? 1000,
+        gain: 0,
+        type: "peaking",
+        Q: 1,
+      };
+      commitBands(
+        [...bands, newBand].sort((a, b) => a.frequency - b.frequency),
+      );
+    },
+    [bands, commitBands],
+  );
+
+  const removeBand = useCallback(
+    (index: number) => {
+      if (bands.length <= 1 || index < 0 || index >= bands.length) return;
+      commitBands(bands.filter((_, idx) => idx !== index));
+    },
+    [bands, commitBands],
+  );
+
+  // Apply a built-in or custom preset and save to database
   const applyPreset = useCallback(
     (presetName: string) => {
-      const preset = PRESETS.find((p) => p.name === presetName);
-      if (!preset) return;
+      const builtIn = PRESETS.find((p) => p.name === presetName);
+      const custom = builtIn
+        ? undefined
+        : customPresets.find((p) => p.name === presetName);
+      if (!builtIn && !custom) return;
 
-      const newBands = bands.map((band, index) => ({
-        ...band,
-        gain: preset.bands[index] ?? 0,
-      }));
+      const newBands = builtIn
+        ? applyGains(DEFAULT_EQ_LAYOUT, builtIn.bands)
+        : custom!.bands;
+
+      if (debounceTimerRef.current) {
+        clearTimeout(debounceTimerRef.current);
+        debounceTimerRef.current = null;
+      }
 
       setBands(newBands);
       setCurrentPreset(presetName);
 
       // Update filter nodes immediately
-      filtersRef.current.forEach((filter, index) => {
-        filter.gain.value = preset.bands[index] ?? 0;
-      });
+      syncFilters(newBands);
 
       // Save preset to database
       persistLocalPreferences(newBands, presetName, isEnabled);
@@ -280,26 +496,68 @@ export function useEqualizer(audioElement: HTMLAudioElement | null) {
       if (isAuthenticated) {
         applyPresetMutation.mutate({
           preset: presetName,
-          bands: preset.bands,
-        });
-        updatePreferencesMutation.mutate({
-          bands: newBands.map((b) => b.gain),
-          preset: presetName,
-          enabled: isEnabled,
+          presetId: custom?.id,
         });
       }
     },
     [
       applyPresetMutation,
+      customPresets,
+      isEnabled,
+      isAuthenticated,
+      persistLocalPreferences,
+      syncFilters,
+    ],
+  );
+
+  // Save the current bands as a named preset (signed-in users only)
+  const saveCustomPreset = useCallback(
+    async (name: string) => {
+      const trimmed = name.trim();
+      if (!isAuthenticated || !trimmed) return;
+
+      await saveCustomPresetMutation.mutateAsync({ name: trimmed, bands });
+      setCurrentPreset(trimmed);
+      persistLocalPreferences(bands, trimmed, isEnabled);
+      updatePreferencesMutation.mutate({ preset: trimmed });
+    },
+    [
       bands,
+      isAuthenticated,
       isEnabled,
+      persistLocalPreferences,
+      saveCustomPresetMutation,
+      updatePreferencesMutation,
+    ],
+  );
+
+  const deleteCustomPreset = useCallback(
+    (id: number) => {
+      if (!isAuthenticated) return;
+
+      const deleted = customPresets.find((p) => p.id === id);
+      deleteCustomPresetMutation.mutate({ id });
+
+      // Keep the bands but stop pointing at a preset that no longer exists
+      if (deleted?.name === currentPreset) {
+        setCurrentPreset("Custom");
+        persistLocalPreferences(bands, "Custom", isEnabled);
+        updatePreferencesMutation.mutate({ preset: "Custom" });
+      }
+    },
+    [
+      bands,
+      currentPreset,
+      customPresets,
+      deleteCustomPresetMutation,
       isAuthenticated,
+      isEnabled,
       persistLocalPreferences,
       updatePreferencesMutation,
     ],
   );
 
-  // Reset all bands to 0
+  // Reset to the flat default layout
   const reset = useCallback(() => {
     applyPreset("Flat");
   }, [applyPreset]);
@@ -309,19 +567,14 @@ export function useEqualizer(audioElement: HTMLAudioElement | null) {
     setIsEnabled((prev) => {
       const newState = !prev;
 
-      // Disconnect/reconnect nodes
-      if (sourceRef.current && filtersRef.current.length > 0) {
-        if (newState) {
-          // Re-enable: source -> filters -> destination
-          sourceRef.current.disconnect();
-          sourceRef.current.connect(filtersRef.current[0]!);
-        } else {
-          // Disable: source -> destination (bypass filters)
-          sourceRef.current.disconnect();
-          if (audioContextRef.current) {
-            sourceRef.current.connect(audioContextRef.current.destination);
-          }
-        }
+      // Rebuild the shared chain with the filters bypassed (or restored)
+      // so any other inputs/analysers on the connection stay wired up
+      const connection = audioElement
+        ? getAudioConnection(audioElement)
+        : undefined;
+      if (connection && filtersRef.current.length > 0) {
+        connection.filtersBypassed = !newState;
+        ensureConnectionChain(connection);
       }
 
       persistLocalPreferences(bands, currentPreset, newState);
@@ -330,6 +583,7 @@ export function useEqualizer(audioElement: HTMLAudioElement | null) {
         updatePreferencesMutation.mutate({
           enabled: newState,
           bands: bands.map((b) => b.gain),
+          layout: toLayout(bands),
           preset: currentPreset,
         });
       }
@@ -337,6 +591,7 @@ export function useEqualizer(audioElement: HTMLAudioElement | null) {
       return newState;
     });
   }, [
+    audioElement,
     updatePreferencesMutation,
     bands,
     currentPreset,
@@ -344,6 +599,84 @@ export function useEqualizer(audioElement: HTMLAudioElement | null) {
     isAuthenticated,
   ]);
 
+  // Import an EqualizerAPO/AutoEQ profile as the device correction layer.
+  // Throws if the text can't be parsed so the caller can show the error.
+  const importCorrectionProfile = useCallback(
+    async (name: string, text: string) => {
+      let imported = createCorrectionProfile(name, text);
+
+      if (isAuthenticated) {
+        imported = await importCorrectionMutation.mutateAsync({
+          name: imported.name,
+          text,
+        });
+      }
+
+      setCorrection(imported);
+      syncCorrection(imported);
+      void storage.set(STORAGE_KEYS.EQUALIZER_CORRECTION, imported);
+      return imported;
+    },
+    [importCorrectionMutation, isAuthenticated, syncCorrection],
+  );
+
+  const toggleCorrection = useCallback(() => {
+    if (!correction) return;
+
+    const updated = { ...correction, enabled: !correction.enabled };
+    setCorrection(updated);
+    syncCorrection(updated);
+    void storage.set(STORAGE_KEYS.EQUALIZER_CORRECTION, updated);
+
+    if (isAuthenticated) {
+      updateCorrectionMutation.mutate({ enabled: updated.enabled });
+    }
+  }, [correction, isAuthenticated, syncCorrection, updateCorrectionMutation]);
+
+  const clearCorrection = useCallback(() => {
+    setCorrection(null);
+    syncCorrection(null);
+    void storage.set(STORAGE_KEYS.EQUALIZER_CORRECTION, null);
+
+    if (isAuthenticated) {
+      clearCorrectionMutation.mutate();
+    }
+  }, [clearCorrectionMutation, isAuthenticated, syncCorrection]);
+
+  // Export as EqualizerAPO text. With includeCorrection the active correction
+  // layer is prepended so the file reproduces exactly what is being heard.
+  const exportProfile = useCallback(
+    (includeCorrection = false) => {
+      const withCorrection = includeCorrection && correction?.enabled;
+      const exportedBands = [
+        ...(withCorrection ? correction.bands : []),
+        ...(isEnabled || !withCorrection ? bands : []),
+      ];
+      return formatEqualizerApo(
+        exportedBands,
+        withCorrection ? correction.preamp : 0,
+      );
+    },
+    [bands, correction, isEnabled],
+  );
+
+  // Response of the correction layer in dB, drawn under the EQ curve
+  const getCorrectionResponse = useCallback(
+    (frequencies: Float32Array<ArrayBuffer>) => {
+      if (!correction) return null;
+      const response = computeFrequencyResponse(correction.bands, frequencies);
+      return response.map((value) => value + correction.preamp);
+    },
+    [correction],
+  );
+
+  // Combined response of all bands in dB, for drawing the EQ curve
+  const getFrequencyResponse = useCallback(
+    (frequencies: Float32Array<ArrayBuffer>) =>
+      computeFrequencyResponse(bands, frequencies, filtersRef.current),
+    [bands],
+  );
+
   // Initialize when audio element is available
   useEffect(() => {
     if (audioElement && !isInitialized) {
@@ -381,8 +714,23 @@ export function useEqualizer(audioElement: HTMLAudioElement | null) {
     bands,
     currentPreset,
     presets: PRESETS,
+    customPresets,
+    canSavePresets: isAuthenticated,
+    maxBands: MAX_EQ_BANDS,
     updateBand,
+    updateBandParams,
+    addBand,
+    removeBand,
     applyPreset,
+    saveCustomPreset,
+    deleteCustomPreset,
+    getFrequencyResponse,
+    correction,
+    importCorrectionProfile,
+    toggleCorrection,
+    clearCorrection,
+    exportProfile,
+    getCorrectionResponse,
     reset,
     toggle,
     initialize,
@@ -16,6 +16,13 @@ interface KeyboardShortcutHandlers {
   onToggleShuffle?: () => void;
   onToggleRepeat?: () => void;
   onToggleVisualizer?: () => void;
+  onCycleSleepTimer?: () => void;
+  onPreviousCue?: () => void;
+  onNextCue?: () => void;
+  onAddCue?: () => void;
+  onMarkLoop?: () => void;
+  onUndoQueueEdit?: () => void;
+  onRedoQueueEdit?: () => void;
 }
 
 export function useKeyboardShortcuts(handlers: KeyboardShortcutHandlers) {
@@ -56,6 +63,20 @@ export function useKeyboardShortcuts(handlers: KeyboardShortcutHandlers) {
         return;
       }
 
+      // Ctrl/Cmd+Z - Undo queue edit, with Shift (or Ctrl+Y) - Redo
+      if (
+        (e.ctrlKey || e.metaKey) &&
+        (e.code === "KeyZ" || e.code === "KeyY")
+      ) {
+        e.preventDefault();
+        if (e.code === "KeyY" || e.shiftKey) {
+          handlers.onRedoQueueEdit?.();
+        } else {
+          handlers.onUndoQueueEdit?.();
+        }
+        return;
+      }
+
       // Space - Play/Pause
       if (e.code === "Space") {
         e.preventDefault();
@@ -99,6 +120,12 @@ export function useKeyboardShortcuts(handlers: KeyboardShortcutHandlers) {
         return;
       }
 
+      // Single-letter shortcuts leave browser and system combinations like
+      // Ctrl/Cmd+C alone
+      if (e.ctrlKey || e.metaKey || e.altKey) {
+        return;
+      }
+
       // M - Mute/Unmute
       if (e.code === "KeyM") {
         e.preventDefault();
@@ -126,6 +153,38 @@ export function useKeyboardShortcuts(handlers: KeyboardShortcutHandlers) {
         handlers.onToggleVisualizer?.();
         return;
       }
+
+      // T - Cycle sleep timer
+      if (e.code === "KeyT") {
+        e.preventDefault();
+        handlers.onCycleSleepTimer?.();
+        return;
+      }
+
+      // , / . - Jump to previous / next cue point
+      if (e.code === "Comma" || e.code === "Period") {
+        e.preventDefault();
+        if (e.code === "Comma") {
+          handlers.onPreviousCue?.();
+        } else {
+          handlers.onNextCue?.();
+        }
+        return;
+      }
+
+      // C - Add cue point at the current position
+      if (e.code === "KeyC") {
+        e.preventDefault();
+        handlers.onAddCue?.();
+        return;
+      }
+
+      // L - Set loop start, then loop end, then clear the loop
+      if (e.code === "KeyL") {
+        e.preventDefault();
+        handlers.onMarkLoop?.();
+        return;
+      }
     };
 
     window.addEventListener("keydown", handleKeyDown);
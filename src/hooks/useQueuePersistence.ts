@@ -5,7 +5,12 @@
 import { STORAGE_KEYS } from "@/config/storage";
 import { AUDIO_CONSTANTS } from "@/config/constants";
 import { localStorage } from "@/services/storage";
-import type { QueuedTrack, SmartQueueState, Track } from "@/types";
+import type {
+  QueuedTrack,
+  QueueEditLog,
+  SmartQueueState,
+  Track,
+} from "@/types";
 import { useEffect, useRef } from "react";
 
 // V1 Schema (legacy - for migration)
@@ -27,6 +32,7 @@ interface QueueStateV2 {
   currentTime: number;
   isShuffled: boolean;
   repeatMode: "none" | "one" | "all";
+  queueEdits?: QueueEditLog; // Undo/redo log, revived by useAudioPlayer
 }
 
 // For backward compatibility
@@ -0,0 +1,275 @@
+// File: src/hooks/useTrackMarkers.ts
+
+"use client";
+
+import {
+  CUE_JUMP_BACK_THRESHOLD_SECONDS,
+  MAX_CUE_POINTS_PER_TRACK,
+  MAX_CUE_POINT_NAME_LENGTH,
+  MIN_AB_LOOP_SECONDS,
+} from "@/config/player";
+import { STORAGE_KEYS } from "@/config/storage";
+import { localStorage as storage } from "@/services/storage";
+import { api } from "@/trpc/react";
+import type { AbLoop, Track, TrackCuePoint, TrackMarkers } from "@/types";
+import { logger } from "@/utils/logger";
+import { useSession } from "next-auth/react";
+import { useCallback, useEffect, useState } from "react";
+
+// Signed-out users keep their markers locally, keyed by track id
+type StoredTrackMarkers = Record<string, Omit<TrackMarkers, "trackId">>;
+
+const readLocalMarkers = (trackId: number): TrackMarkers => {
+  const stored = storage.getOrDefault<StoredTrackMarkers>(
+    STORAGE_KEYS.TRACK_MARKERS,
+    {},
+  )[trackId];
+
+  return {
+    trackId,
+    cuePoints: stored?.cuePoints ?? [],
+    loop: stored?.loop ?? null,
+  };
+};
+
+const writeLocalMarkers = (markers: TrackMarkers) => {
+  const stored = storage.getOrDefault<StoredTrackMarkers>(
+    STORAGE_KEYS.TRACK_MARKERS,
+    {},
+  );
+
+  if (!markers.cuePoints.length && !markers.loop) {
+    delete stored[markers.trackId];
+  } else {
+    stored[markers.trackId] = {
+      cuePoints: markers.cuePoints,
+      loop: markers.loop,
+    };
+  }
+  void storage.set(STORAGE_KEYS.TRACK_MARKERS, stored);
+};
+
+const byTime = (a: TrackCuePoint, b: TrackCuePoint) => a.time - b.time;
+
+interface UseTrackMarkersOptions {
+  track: Track | null;
+  getPosition: () => number;
+  seek: (time: number) => void;
+  setAbLoop: (trackId: number, loop: AbLoop | null) => void;
+}
+
+/**
+ * Cue points and the A-B loop for the current track. Saved per user in the
+ * database when signed in (so they follow you across devices), locally otherwise.
+ */
+export function useTrackMarkers({
+  track,
+  getPosition,
+  seek,
+  setAbLoop,
+}: UseTrackMarkersOptions) {
+  const trackId = track?.id ?? null;
+  const [markers, setMarkers] = useState<TrackMarkers | null>(null);
+  // First half of a loop being marked, until the end point is set
+  const [pendingLoopStart, setPendingLoopStart] = useState<number | null>(null);
+
+  const { status } = useSession();
+  const isAuthenticated = status === "authenticated";
+
+  const utils = api.useUtils();
+  const { data: savedMarkers } = api.markers.getTrackMarkers.useQuery(
+    { trackId: trackId ?? 0 },
+    { enabled: isAuthenticated && trackId !== null },
+  );
+
+  const saveMarkersMutation = api.markers.saveTrackMarkers.useMutation({
+    onError: (error) => {
+      logger.error("[useTrackMarkers] Failed to save markers:", error.message);
+      void utils.markers.getTrackMarkers.invalidate();
+    },
+  });
+
+  // A half-marked loop doesn't carry over to the next track
+  useEffect(() => {
+    setPendingLoopStart(null);
+  }, [trackId]);
+
+  // Load the markers whenever the track changes (or another device saved)
+  useEffect(() => {
+    if (trackId === null) {
+      setMarkers(null);
+      return;
+    }
+
+    let loaded: TrackMarkers | null = null;
+    if (isAuthenticated) {
+      if (savedMarkers?.trackId === trackId) loaded = savedMarkers;
+    } else if (status !== "loading") {
+      loaded = readLocalMarkers(trackId);
+    }
+
+    setMarkers(loaded);
+    setAbLoop(trackId, loaded?.loop ?? null);
+  }, [isAuthenticated, savedMarkers, setAbLoop, status, trackId]);
+
+  const commitMarkers = useCallback(
+    (next: TrackMarkers) => {
+      setMarkers(next);
+      setAbLoop(next.trackId, next.loop);
+
+      if (isAuthenticated) {
+        utils.markers.getTrackMarkers.setData({ trackId: next.trackId }, next);
+        saveMarkersMutation.mutate(next);
+      } else {
+        writeLocalMarkers(next);
+      }
+    },
+    [isAuthenticated, saveMarkersMutation, setAbLoop, utils],
+  );
+
+  const cuePoints = markers?.cuePoints ?? [];
+  const loop = markers?.loop ?? null;
+
+  // Add a cue at the current position. Returns null when the track is full.
+  const addCuePoint = useCallback(
+    (name?: string): TrackCuePoint | null => {
+      if (!markers) return null;
+      if (markers.cuePoints.length >= MAX_CUE_POINTS_PER_TRACK) {
+        logger.warn("[useTrackMarkers] Cue point limit reached");
+        return null;
+      }
+
+      const trimmed = name?.trim().slice(0, MAX_CUE_POINT_NAME_LENGTH) ?? "";
+      const cuePoint: TrackCuePoint = {
+        id: crypto.randomUUID(),
+        name:
+          trimmed.length > 0 ? trimmed : `Cue ${markers.cuePoints.length + 1}`,
+        time: getPosition(),
+      };
+      commitMarkers({
+        ...markers,
+        cuePoints: [...markers.cuePoints, cuePoint].sort(byTime),
+      });
+      return cuePoint;
+    },
+    [commitMarkers, getPosition, markers],
+  );
+
+  const renameCuePoint = useCallback(
+    (id: string, name: string) => {
+      const trimmed = name.trim().slice(0, MAX_CUE_POINT_NAME_LENGTH);
+      if (!markers || !trimmed) return;
+
+      commitMarkers({
+        ...markers,
+        cuePoints: markers.cuePoints.map((cuePoint) =>
+          cuePoint.id === id ? { ...cuePoint, name: trimmed } : cuePoint,
+        ),
+      });
+    },
+    [commitMarkers, markers],
+  );
+
+  const removeCuePoint = useCallback(
+    (id: string) => {
+      if (!markers) return;
+
+      commitMarkers({
+        ...markers,
+        cuePoints: markers.cuePoints.filter((cuePoint) => cuePoint.id !== id),
+      });
+    },
+    [commitMarkers, markers],
+  );
+
+  // Jump to the next (1) or previous (-1) cue from the current position.
+  // Going back past the first cue returns to the start of the track.
+  const jumpToCue = useCallback(
+    (direction: -1 | 1) => {
+      if (!markers?.cuePoints.length) return;
+
+      const position = getPosition();
+      const target =
+        direction === 1
+          ? markers.cuePoints.find(
+              (cuePoint) => cuePoint.time > position + 0.05,
+            )
+          : [...markers.cuePoints]
+              .reverse()
+              .find(
+                (cuePoint) =>
+                  cuePoint.time < position - CUE_JUMP_BACK_THRESHOLD_SECONDS,
+              );
+
+      if (target) {
+        seek(target.time);
+      } else if (direction === -1) {
+        seek(0);
+      }
+    },
+    [getPosition, markers, seek],
+  );
+
+  // Set the loop start, then the loop end; a third press clears the loop
+  const markLoopPoint = useCallback(() => {
+    if (!markers) return;
+
+    if (markers.loop) {
+      setPendingLoopStart(null);
+      commitMarkers({ ...markers, loop: null });
+      return;
+    }
+
+    const position = getPosition();
+    if (pendingLoopStart === null) {
+      setPendingLoopStart(position);
+      return;
+    }
+
+    const start = Math.min(pendingLoopStart, position);
+    const end = Math.max(pendingLoopStart, position);
+    if (end - start < MIN_AB_LOOP_SECONDS) return;
+
+    setPendingLoopStart(null);
+    commitMarkers({ ...markers, loop: { start, end, enabled: true } });
+  }, [commitMarkers, getPosition, markers, pendingLoopStart]);
+
+  // Adjust the saved loop (kept at least MIN_AB_LOOP_SECONDS long)
+  const updateLoop = useCallback(
+    (update: Partial<AbLoop>) => {
+      if (!markers?.loop) return;
+
+      const next = { ...markers.loop, ...update };
+      if (next.end - next.start < MIN_AB_LOOP_SECONDS) return;
+      commitMarkers({ ...markers, loop: next });
+    },
+    [commitMarkers, markers],
+  );
+
+  const toggleLoop = useCallback(() => {
+    if (markers?.loop) {
+      updateLoop({ enabled: !markers.loop.enabled });
+    }
+  }, [markers, updateLoop]);
+
+  const clearLoop = useCallback(() => {
+    setPendingLoopStart(null);
+    if (markers?.loop) {
+      commitMarkers({ ...markers, loop: null });
+    }
+  }, [commitMarkers, markers]);
+
+  return {
+    cuePoints,
+    loop,
+    pendingLoopStart,
+    addCuePoint,
+    renameCuePoint,
+    removeCuePoint,
+    jumpToCue,
+    markLoopPoint,
+    updateLoop,
+    toggleLoop,
+    clearLoop,
+  };
+}
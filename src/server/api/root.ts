@@ -1,8 +1,17 @@
 // File: src/server/api/root.ts
 
 import { equalizerRouter } from "@/server/api/routers/equalizer";
+import { jukeboxRouter } from "@/server/api/routers/jukebox";
+import { markersRouter } from "@/server/api/routers/markers";
 import { musicRouter } from "@/server/api/routers/music";
+import { playlistFoldersRouter } from "@/server/api/routers/playlistFolders";
+import { playlistSharingRouter } from "@/server/api/routers/playlistSharing";
 import { postRouter } from "@/server/api/routers/post";
+import { queueRouter } from "@/server/api/routers/queue";
+import { remoteRouter } from "@/server/api/routers/remote";
+import { roomsRouter } from "@/server/api/routers/rooms";
+import { smartPlaylistsRouter } from "@/server/api/routers/smartPlaylists";
+import { streamRouter } from "@/server/api/routers/stream";
 import { createCallerFactory, createTRPCRouter } from "@/server/api/trpc";
 
 /**
@@ -13,7 +22,16 @@ import { createCallerFactory, createTRPCRouter } from "@/server/api/trpc";
 export const appRouter = createTRPCRouter({
   post: postRouter,
   music: musicRouter,
+  playlistSharing: playlistSharingRouter,
+  playlistFolders: playlistFoldersRouter,
   equalizer: equalizerRouter,
+  markers: markersRouter,
+  queue: queueRouter,
+  remote: remoteRouter,
+  rooms: roomsRouter,
+  jukebox: jukeboxRouter,
+  smartPlaylists: smartPlaylistsRouter,
+  stream: streamRouter,
 });
 
 // export type definition of API
@@ -1,11 +1,38 @@
 // File: src/server/api/routers/equalizer.ts
 
+import {
+  BUILT_IN_EQ_PRESETS,
+  DEFAULT_EQ_LAYOUT,
+  EQ_FILTER_TYPES,
+  EQ_MAX_FREQUENCY,
+  EQ_MAX_GAIN_DB,
+  EQ_MAX_Q,
+  EQ_MIN_FREQUENCY,
+  EQ_MIN_GAIN_DB,
+  EQ_MIN_Q,
+  MAX_EQ_BANDS,
+  MAX_CORRECTION_PROFILE_LENGTH,
+  MAX_EQ_PRESET_NAME_LENGTH,
+} from "@/config/equalizer";
 import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
-import { userPreferences } from "@/server/db/schema";
-import { eq } from "drizzle-orm";
+import { equalizerPresets, userPreferences } from "@/server/db/schema";
+import { createCorrectionProfile } from "@/utils/equalizer";
+import { and, asc, eq } from "drizzle-orm";
 import { z } from "zod";
 
-const EqualizerBandSchema = z.number().min(-12).max(12);
+const EqualizerBandSchema = z.number().min(EQ_MIN_GAIN_DB).max(EQ_MAX_GAIN_DB);
+
+const EqualizerBandLayoutSchema = z.object({
+  frequency: z.number().min(EQ_MIN_FREQUENCY).max(EQ_MAX_FREQUENCY),
+  type: z.enum(EQ_FILTER_TYPES),
+  Q: z.number().min(EQ_MIN_Q).max(EQ_MAX_Q),
+});
+
+const ParametricBandSchema = EqualizerBandLayoutSchema.extend({
+  gain: EqualizerBandSchema,
+});
+
+const DEFAULT_GAINS = DEFAULT_EQ_LAYOUT.map(() => 0);
 
 export const equalizerRouter = createTRPCRouter({
   // Get current equalizer settings
@@ -15,6 +42,8 @@ export const equalizerRouter = createTRPCRouter({
         equalizerEnabled: userPreferences.equalizerEnabled,
         equalizerPreset: userPreferences.equalizerPreset,
         equalizerBands: userPreferences.equalizerBands,
+        equalizerBandLayout: userPreferences.equalizerBandLayout,
+        equalizerCorrection: userPreferences.equalizerCorrection,
       })
       .from(userPreferences)
       .where(eq(userPreferences.userId, ctx.session.user.id))
@@ -25,7 +54,9 @@ export const equalizerRouter = createTRPCRouter({
       return {
         enabled: false,
         preset: "Flat",
-        bands: [0, 0, 0, 0, 0, 0, 0, 0, 0],
+        bands: DEFAULT_GAINS,
+        layout: DEFAULT_EQ_LAYOUT,
+        correction: null,
       };
     }
 
@@ -35,24 +66,45 @@ export const equalizerRouter = createTRPCRouter({
       return {
         enabled: false,
         preset: "Flat",
-        bands: [0, 0, 0, 0, 0, 0, 0, 0, 0],
+        bands: DEFAULT_GAINS,
+        layout: DEFAULT_EQ_LAYOUT,
+        correction: null,
       };
     }
     return {
       enabled: prefs.equalizerEnabled ?? false,
       preset: prefs.equalizerPreset ?? "Flat",
-      bands: prefs.equalizerBands ?? [0, 0, 0, 0, 0, 0, 0, 0, 0],
+      bands: prefs.equalizerBands ?? DEFAULT_GAINS,
+      layout: prefs.equalizerBandLayout ?? DEFAULT_EQ_LAYOUT,
+      correction: prefs.equalizerCorrection ?? null,
     };
   }),
 
   // Update equalizer settings (supports partial updates)
   updatePreferences: protectedProcedure
     .input(
-      z.object({
-        enabled: z.boolean().optional(),
-        preset: z.string().optional(),
-        bands: z.array(EqualizerBandSchema).length(9).optional(),
-      }),
+      z
+        .object({
+          enabled: z.boolean().optional(),
+          preset: z.string().optional(),
+          bands: z
+            .array(EqualizerBandSchema)
+            .min(1)
+            .max(MAX_EQ_BANDS)
+            .optional(),
+          layout: z
+            .array(EqualizerBandLayoutSchema)
+            .min(1)
+            .max(MAX_EQ_BANDS)
+            .optional(),
+        })
+        .refine(
+          (input) =>
+            !input.bands ||
+            !input.layout ||
+            input.bands.length === input.layout.length,
+          { message: "Band gains and layout must have the same length" },
+        ),
     )
     .mutation(async ({ ctx, input }) => {
       const userId = ctx.session.user.id;
@@ -77,6 +129,9 @@ export const equalizerRouter = createTRPCRouter({
       if (input.bands !== undefined) {
         updateData.equalizerBands = input.bands;
       }
+      if (input.layout !== undefined) {
+        updateData.equalizerBandLayout = input.layout;
+      }
 
       let result;
 
@@ -90,6 +145,7 @@ export const equalizerRouter = createTRPCRouter({
             enabled: userPreferences.equalizerEnabled,
             preset: userPreferences.equalizerPreset,
             bands: userPreferences.equalizerBands,
+            layout: userPreferences.equalizerBandLayout,
           });
       } else {
         // Create new preferences with defaults
@@ -99,7 +155,8 @@ export const equalizerRouter = createTRPCRouter({
             userId,
             equalizerEnabled: input.enabled ?? false,
             equalizerPreset: input.preset ?? "Flat",
-            equalizerBands: input.bands ?? [0, 0, 0, 0, 0, 0, 0, 0, 0],
+            equalizerBands: input.bands ?? DEFAULT_GAINS,
+            equalizerBandLayout: input.layout ?? null,
             volume: 0.7,
             playbackRate: 1.0,
             repeatMode: "none",
@@ -117,23 +174,58 @@ export const equalizerRouter = createTRPCRouter({
             enabled: userPreferences.equalizerEnabled,
             preset: userPreferences.equalizerPreset,
             bands: userPreferences.equalizerBands,
+            layout: userPreferences.equalizerBandLayout,
           });
       }
 
       return result[0];
     }),
 
-  // Apply a preset and save it
+  // Apply a built-in preset (by name) or a custom preset (by id) and save it
   applyPreset: protectedProcedure
     .input(
       z.object({
         preset: z.string(),
-        bands: z.array(EqualizerBandSchema).length(9),
+        presetId: z.number().optional(),
       }),
     )
     .mutation(async ({ ctx, input }) => {
       const userId = ctx.session.user.id;
 
+      let bands: number[];
+      let layout: z.infer<typeof EqualizerBandLayoutSchema>[] | null;
+
+      if (input.presetId !== undefined) {
+        const custom = await ctx.db.query.equalizerPresets.findFirst({
+          where: and(
+            eq(equalizerPresets.id, input.presetId),
+            eq(equalizerPresets.userId, userId),
+          ),
+        });
+
+        if (!custom) {
+          throw new Error("Preset not found");
+        }
+
+        bands = custom.bands.map((band) => band.gain);
+        layout = custom.bands.map(({ frequency, type, Q }) => ({
+          frequency,
+          type,
+          Q,
+        }));
+      } else {
+        const builtIn = BUILT_IN_EQ_PRESETS.find(
+          (preset) => preset.name === input.preset,
+        );
+
+        if (!builtIn) {
+          throw new Error("Preset not found");
+        }
+
+        bands = builtIn.bands;
+        layout = null; // Built-in presets use the default layout
+      }
+
       const existing = await ctx.db
         .select({ id: userPreferences.id })
         .from(userPreferences)
@@ -147,7 +239,8 @@ export const equalizerRouter = createTRPCRouter({
           .update(userPreferences)
           .set({
             equalizerPreset: input.preset,
-            equalizerBands: input.bands,
+            equalizerBands: bands,
+            equalizerBandLayout: layout,
             updatedAt: new Date(),
           })
           .where(eq(userPreferences.userId, userId))
@@ -155,6 +248,7 @@ export const equalizerRouter = createTRPCRouter({
             enabled: userPreferences.equalizerEnabled,
             preset: userPreferences.equalizerPreset,
             bands: userPreferences.equalizerBands,
+            layout: userPreferences.equalizerBandLayout,
           });
       } else {
         result = await ctx.db
@@ -163,7 +257,8 @@ export const equalizerRouter = createTRPCRouter({
             userId,
             equalizerEnabled: true,
             equalizerPreset: input.preset,
-            equalizerBands: input.bands,
+            equalizerBands: bands,
+            equalizerBandLayout: layout,
             volume: 0.7,
             playbackRate: 1.0,
             repeatMode: "none",
@@ -181,9 +276,147 @@ export const equalizerRouter = createTRPCRouter({
             enabled: userPreferences.equalizerEnabled,
             preset: userPreferences.equalizerPreset,
             bands: userPreferences.equalizerBands,
+            layout: userPreferences.equalizerBandLayout,
           });
       }
 
-      return result[0];
+      const saved = result[0];
+      return saved
+        ? { ...saved, layout: saved.layout ?? DEFAULT_EQ_LAYOUT }
+        : saved;
+    }),
+
+  // ============================================
+  // CUSTOM PRESETS
+  // ============================================
+
+  getCustomPresets: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.db
+      .select({
+        id: equalizerPresets.id,
+        name: equalizerPresets.name,
+        bands: equalizerPresets.bands,
+      })
+      .from(equalizerPresets)
+      .where(eq(equalizerPresets.userId, ctx.session.user.id))
+      .orderBy(asc(equalizerPresets.name));
+  }),
+
+  // Save the current bands under a name (overwrites a preset with the same name)
+  saveCustomPreset: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().trim().min(1).max(MAX_EQ_PRESET_NAME_LENGTH),
+        bands: z.array(ParametricBandSchema).min(1).max(MAX_EQ_BANDS),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      // "Custom" marks unsaved edits on the client, so it can't be a preset name
+      if (
+        input.name === "Custom" ||
+        BUILT_IN_EQ_PRESETS.some((preset) => preset.name === input.name)
+      ) {
+        throw new Error("A built-in preset already uses this name");
+      }
+
+      const [preset] = await ctx.db
+        .insert(equalizerPresets)
+        .values({
+          userId: ctx.session.user.id,
+          name: input.name,
+          bands: input.bands,
+        })
+        .onConflictDoUpdate({
+          target: [equalizerPresets.userId, equalizerPresets.name],
+          set: { bands: input.bands, updatedAt: new Date() },
+        })
+        .returning({
+          id: equalizerPresets.id,
+          name: equalizerPresets.name,
+          bands: equalizerPresets.bands,
+        });
+
+      return preset;
+    }),
+
+  deleteCustomPreset: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db
+        .delete(equalizerPresets)
+        .where(
+          and(
+            eq(equalizerPresets.id, input.id),
+            eq(equalizerPresets.userId, ctx.session.user.id),
+          ),
+        );
+
+      return { success: true };
+    }),
+
+  // ============================================
+  // DEVICE CORRECTION (AutoEQ / EqualizerAPO)
+  // ============================================
+
+  // Parse an EqualizerAPO profile and store it as the correction layer
+  importCorrectionProfile: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().trim().max(MAX_EQ_PRESET_NAME_LENGTH),
+        text: z.string().min(1).max(MAX_CORRECTION_PROFILE_LENGTH),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const correction = createCorrectionProfile(input.name, input.text);
+
+      await ctx.db
+        .insert(userPreferences)
+        .values({
+          userId: ctx.session.user.id,
+          equalizerCorrection: correction,
+        })
+        .onConflictDoUpdate({
+          target: userPreferences.userId,
+          set: { equalizerCorrection: correction, updatedAt: new Date() },
+        });
+
+      return correction;
     }),
+
+  // Toggle the correction layer without discarding the profile
+  updateCorrection: protectedProcedure
+    .input(z.object({ enabled: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+
+      const prefs = await ctx.db.query.userPreferences.findFirst({
+        where: eq(userPreferences.userId, userId),
+        columns: { equalizerCorrection: true },
+      });
+
+      if (!prefs?.equalizerCorrection) {
+        throw new Error("No correction profile imported");
+      }
+
+      const correction = {
+        ...prefs.equalizerCorrection,
+        enabled: input.enabled,
+      };
+
+      await ctx.db
+        .update(userPreferences)
+        .set({ equalizerCorrection: correction, updatedAt: new Date() })
+        .where(eq(userPreferences.userId, userId));
+
+      return correction;
+    }),
+
+  clearCorrectionProfile: protectedProcedure.mutation(async ({ ctx }) => {
+    await ctx.db
+      .update(userPreferences)
+      .set({ equalizerCorrection: null, updatedAt: new Date() })
+      .where(eq(userPreferences.userId, ctx.session.user.id));
+
+    return { success: true };
+  }),
 });
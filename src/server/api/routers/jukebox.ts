@@ -0,0 +1,539 @@
+// File: src/server/api/routers/jukebox.ts
+
+import {
+  JUKEBOX_CODE_LENGTH,
+  JUKEBOX_QUEUE_PREVIEW,
+  JUKEBOX_REQUEST_LIMIT,
+  JUKEBOX_REQUEST_WINDOW_MS,
+  JUKEBOX_VOTE_LIMIT,
+  JUKEBOX_VOTE_WINDOW_MS,
+  MAX_JUKEBOX_GUEST_NAME_LENGTH,
+} from "@/config/jukebox";
+import {
+  createTRPCRouter,
+  protectedProcedure,
+  publicProcedure,
+} from "@/server/api/trpc";
+import type { db } from "@/server/db";
+import { jukeboxes, jukeboxRequests, jukeboxVotes } from "@/server/db/schema";
+import { getClientAddress } from "@/server/services/clientAddress";
+import { generateShareCode } from "@/server/services/shareCode";
+import type { JukeboxQueueItem, JukeboxRequestStatus, Track } from "@/types";
+import { isTrack } from "@/types";
+import { and, count, eq, gt, inArray } from "drizzle-orm";
+import type { Session } from "next-auth";
+import { z } from "zod";
+
+// Requests guests can still vote on
+const OPEN_STATUSES: JukeboxRequestStatus[] = ["pending", "approved"];
+
+const jukeboxQueueItemSchema: z.ZodType<JukeboxQueueItem> = z.object({
+  queueId: z.string().max(100),
+  requestId: z.number().nullable(),
+  track: z.object({
+    id: z.number(),
+    title: z.string(),
+    artist: z.string(),
+    cover: z.string(),
+    duration: z.number(),
+  }),
+});
+
+// Device id of a guest who isn't signed in, see utils/api getDeviceId
+const guestIdSchema = z.string().min(1).max(100).optional();
+
+/**
+ * Who is making a request or voting, which is also what rate limits apply to.
+ * Signed-in users are identified by their account. Device ids are
+ * client-chosen, so guests are identified by their address and only fall back
+ * to the device when there is none.
+ */
+function resolveGuest(
+  session: Session | null,
+  headers: Headers,
+  input: { guestId?: string; guestName?: string },
+): { guestId: string; guestName: string | null } {
+  if (session?.user) {
+    return {
+      guestId: `user:${session.user.id}`,
+      guestName: session.user.name ?? "Guest",
+    };
+  }
+
+  const address = getClientAddress(headers);
+  if (!address && !input.guestId) {
+    throw new Error("Missing guest id");
+  }
+
+  return {
+    guestId: address ? `address:${address}` : `device:${input.guestId}`,
+    guestName: input.guestName ?? null,
+  };
+}
+
+async function assertVoteAllowance(database: typeof db, guestId: string) {
+  const [recent] = await database
+    .select({ value: count() })
+    .from(jukeboxVotes)
+    .where(
+      and(
+        eq(jukeboxVotes.guestId, guestId),
+        gt(
+          jukeboxVotes.createdAt,
+          new Date(Date.now() - JUKEBOX_VOTE_WINDOW_MS),
+        ),
+      ),
+    );
+
+  if ((recent?.value ?? 0) >= JUKEBOX_VOTE_LIMIT) {
+    throw new Error("You're voting too fast. Try again in a minute.");
+  }
+}
+
+async function findActiveJukebox(database: typeof db, code: string) {
+  const jukebox = await database.query.jukeboxes.findFirst({
+    where: and(eq(jukeboxes.code, code), eq(jukeboxes.isActive, true)),
+  });
+
+  if (!jukebox) {
+    throw new Error("Jukebox not found or has ended");
+  }
+
+  return jukebox;
+}
+
+async function findHostedJukebox(
+  database: typeof db,
+  code: string,
+  userId: string,
+) {
+  const jukebox = await findActiveJukebox(database, code);
+
+  if (jukebox.hostId !== userId) {
+    throw new Error("Only the host can do that");
+  }
+
+  return jukebox;
+}
+
+export const jukeboxRouter = createTRPCRouter({
+  // Open the user's queue to requests; ends any jukebox they were running
+  createJukebox: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().trim().min(1).max(100).optional(),
+        requireApproval: z.boolean().default(true),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db
+        .update(jukeboxes)
+        .set({ isActive: false, endedAt: new Date() })
+        .where(
+          and(
+            eq(jukeboxes.hostId, ctx.session.user.id),
+            eq(jukeboxes.isActive, true),
+          ),
+        );
+
+      const [jukebox] = await ctx.db
+        .insert(jukeboxes)
+        .values({
+          code: generateShareCode(JUKEBOX_CODE_LENGTH),
+          name: input.name ?? `${ctx.session.user.name ?? "Someone"}'s jukebox`,
+          hostId: ctx.session.user.id,
+          requireApproval: input.requireApproval,
+        })
+        .returning({ id: jukeboxes.id, code: jukeboxes.code });
+
+      if (!jukebox) {
+        throw new Error("Failed to create jukebox");
+      }
+
+      return jukebox;
+    }),
+
+  // The jukebox the user is hosting, if any
+  getMyJukebox: protectedProcedure.query(async ({ ctx }) => {
+    const jukebox = await ctx.db.query.jukeboxes.findFirst({
+      where: and(
+        eq(jukeboxes.hostId, ctx.session.user.id),
+        eq(jukeboxes.isActive, true),
+      ),
+      columns: { id: true, code: true, name: true, requireApproval: true },
+    });
+
+    return jukebox ?? null;
+  }),
+
+  // What guests see: the host's queue and the open requests, most voted first
+  getJukebox: publicProcedure
+    .input(z.object({ code: z.string(), guestId: guestIdSchema }))
+    .query(async ({ ctx, input }) => {
+      const jukebox = await ctx.db.query.jukeboxes.findFirst({
+        where: and(
+          eq(jukeboxes.code, input.code),
+          eq(jukeboxes.isActive, true),
+        ),
+        with: {
+          host: { columns: { name: true } },
+          requests: {
+            where: inArray(jukeboxRequests.status, OPEN_STATUSES),
+            with: { votes: { columns: { guestId: true } } },
+          },
+        },
+      });
+
+      if (!jukebox) {
+        throw new Error("Jukebox not found or has ended");
+      }
+
+      const guestId =
+        ctx.session?.user || input.guestId
+          ? resolveGuest(ctx.session, ctx.headers, input).guestId
+          : null;
+
+      const requests = jukebox.requests
+        .map((request) => ({
+          id: request.id,
+          track: request.track,
+          guestName: request.guestName,
+          status: request.status as JukeboxRequestStatus,
+          votes: request.votes.length,
+          hasVoted: request.votes.some((vote) => vote.guestId === guestId),
+          isMine: request.guestId === guestId,
+          createdAt: request.createdAt,
+        }))
+        .sort(
+          (a, b) =>
+            b.votes - a.votes || a.createdAt.getTime() - b.createdAt.getTime(),
+        );
+
+      return {
+        code: jukebox.code,
+        name: jukebox.name,
+        hostName: jukebox.host.name ?? "Host",
+        isHost: jukebox.hostId === ctx.session?.user?.id,
+        requireApproval: jukebox.requireApproval,
+        nowPlaying: jukebox.nowPlaying,
+        queue: jukebox.queue,
+        bannedArtists: jukebox.bannedArtists,
+        requests,
+      };
+    }),
+
+  requestTrack: publicProcedure
+    .input(
+      z.object({
+        code: z.string(),
+        track: z.custom<Track>(isTrack, "Invalid track"),
+        guestId: guestIdSchema,
+        guestName: z
+          .string()
+          .trim()
+          .min(1)
+          .max(MAX_JUKEBOX_GUEST_NAME_LENGTH)
+          .optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const jukebox = await findActiveJukebox(ctx.db, input.code);
+      const { guestId, guestName } = resolveGuest(
+        ctx.session,
+        ctx.headers,
+        input,
+      );
+
+      if (!guestName) {
+        throw new Error("Enter a name to request tracks");
+      }
+
+      const banned = jukebox.bannedArtists.find(
+        (artist) => artist.id === input.track.artist.id,
+      );
+      if (banned) {
+        throw new Error(`The host isn't taking requests for ${banned.name}`);
+      }
+
+      const inQueue = [jukebox.nowPlaying, ...jukebox.queue].some(
+        (item) => item?.track.id === input.track.id,
+      );
+      if (inQueue) {
+        throw new Error("That track is already in the queue");
+      }
+
+      // Someone asked for it already: count this as a vote instead
+      const existing = (
+        await ctx.db.query.jukeboxRequests.findMany({
+          where: and(
+            eq(jukeboxRequests.jukeboxId, jukebox.id),
+            inArray(jukeboxRequests.status, OPEN_STATUSES),
+          ),
+          columns: { id: true, track: true },
+        })
+      ).find((request) => request.track.id === input.track.id);
+
+      if (existing) {
+        await assertVoteAllowance(ctx.db, guestId);
+        await ctx.db
+          .insert(jukeboxVotes)
+          .values({ requestId: existing.id, guestId })
+          .onConflictDoNothing();
+        return { requestId: existing.id, merged: true };
+      }
+
+      const [recent] = await ctx.db
+        .select({ value: count() })
+        .from(jukeboxRequests)
+        .where(
+          and(
+            eq(jukeboxRequests.jukeboxId, jukebox.id),
+            eq(jukeboxRequests.guestId, guestId),
+            gt(
+              jukeboxRequests.createdAt,
+              new Date(Date.now() - JUKEBOX_REQUEST_WINDOW_MS),
+            ),
+          ),
+        );
+
+      if ((recent?.value ?? 0) >= JUKEBOX_REQUEST_LIMIT) {
+        throw new Error(
+          `You can request ${JUKEBOX_REQUEST_LIMIT} tracks every ${JUKEBOX_REQUEST_WINDOW_MS / 60_000} minutes. Try again in a bit.`,
+        );
+      }
+
+      const [request] = await ctx.db
+        .insert(jukeboxRequests)
+        .values({
+          jukeboxId: jukebox.id,
+          track: input.track,
+          artistId: input.track.artist.id,
+          guestId,
+          guestName,
+          status: jukebox.requireApproval ? "pending" : "approved",
+          decidedAt: jukebox.requireApproval ? null : new Date(),
+        })
+        .returning({ id: jukeboxRequests.id });
+
+      if (!request) {
+        throw new Error("Failed to request track");
+      }
+
+      return { requestId: request.id, merged: false };
+    }),
+
+  // Vote for a request, or take the vote back
+  toggleVote: publicProcedure
+    .input(
+      z.object({
+        code: z.string(),
+        requestId: z.number(),
+        guestId: guestIdSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const jukebox = await findActiveJukebox(ctx.db, input.code);
+      const { guestId } = resolveGuest(ctx.session, ctx.headers, input);
+
+      const request = await ctx.db.query.jukeboxRequests.findFirst({
+        where: and(
+          eq(jukeboxRequests.id, input.requestId),
+          eq(jukeboxRequests.jukeboxId, jukebox.id),
+          inArray(jukeboxRequests.status, OPEN_STATUSES),
+        ),
+        columns: { id: true },
+      });
+
+      if (!request) {
+        throw new Error("Request not found");
+      }
+
+      const [removed] = await ctx.db
+        .delete(jukeboxVotes)
+        .where(
+          and(
+            eq(jukeboxVotes.requestId, request.id),
+            eq(jukeboxVotes.guestId, guestId),
+          ),
+        )
+        .returning({ requestId: jukeboxVotes.requestId });
+
+      if (removed) {
+        return { voted: false };
+      }
+
+      await assertVoteAllowance(ctx.db, guestId);
+      await ctx.db
+        .insert(jukeboxVotes)
+        .values({ requestId: request.id, guestId })
+        .onConflictDoNothing();
+
+      return { voted: true };
+    }),
+
+  moderateRequest: protectedProcedure
+    .input(
+      z.object({
+        code: z.string(),
+        requestId: z.number(),
+        action: z.enum(["approve", "reject"]),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const jukebox = await findHostedJukebox(
+        ctx.db,
+        input.code,
+        ctx.session.user.id,
+      );
+
+      const [request] = await ctx.db
+        .update(jukeboxRequests)
+        .set({
+          status: input.action === "approve" ? "approved" : "rejected",
+          decidedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(jukeboxRequests.id, input.requestId),
+            eq(jukeboxRequests.jukeboxId, jukebox.id),
+            inArray(jukeboxRequests.status, OPEN_STATUSES),
+          ),
+        )
+        .returning({ id: jukeboxRequests.id });
+
+      if (!request) {
+        throw new Error("Request not found");
+      }
+
+      return { success: true };
+    }),
+
+  // Stop taking requests for an artist and drop the open ones
+  banArtist: protectedProcedure
+    .input(
+      z.object({
+        code: z.string(),
+        artist: z.object({ id: z.number(), name: z.string().max(255) }),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const jukebox = await findHostedJukebox(
+        ctx.db,
+        input.code,
+        ctx.session.user.id,
+      );
+
+      if (!jukebox.bannedArtists.some((a) => a.id === input.artist.id)) {
+        await ctx.db
+          .update(jukeboxes)
+          .set({ bannedArtists: [...jukebox.bannedArtists, input.artist] })
+          .where(eq(jukeboxes.id, jukebox.id));
+      }
+
+      await ctx.db
+        .update(jukeboxRequests)
+        .set({ status: "rejected", decidedAt: new Date() })
+        .where(
+          and(
+            eq(jukeboxRequests.jukeboxId, jukebox.id),
+            eq(jukeboxRequests.artistId, input.artist.id),
+            inArray(jukeboxRequests.status, OPEN_STATUSES),
+          ),
+        );
+
+      return { success: true };
+    }),
+
+  unbanArtist: protectedProcedure
+    .input(z.object({ code: z.string(), artistId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const jukebox = await findHostedJukebox(
+        ctx.db,
+        input.code,
+        ctx.session.user.id,
+      );
+
+      await ctx.db
+        .update(jukeboxes)
+        .set({
+          bannedArtists: jukebox.bannedArtists.filter(
+            (artist) => artist.id !== input.artistId,
+          ),
+        })
+        .where(eq(jukeboxes.id, jukebox.id));
+
+      return { success: true };
+    }),
+
+  updateSettings: protectedProcedure
+    .input(z.object({ code: z.string(), requireApproval: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const jukebox = await findHostedJukebox(
+        ctx.db,
+        input.code,
+        ctx.session.user.id,
+      );
+
+      await ctx.db
+        .update(jukeboxes)
+        .set({ requireApproval: input.requireApproval })
+        .where(eq(jukeboxes.id, jukebox.id));
+
+      return { success: true };
+    }),
+
+  // The host's player shares its queue; a request reaching the front of it
+  // has been played
+  publishQueue: protectedProcedure
+    .input(
+      z.object({
+        code: z.string(),
+        nowPlaying: jukeboxQueueItemSchema.nullable(),
+        queue: z.array(jukeboxQueueItemSchema).max(JUKEBOX_QUEUE_PREVIEW),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const jukebox = await findHostedJukebox(
+        ctx.db,
+        input.code,
+        ctx.session.user.id,
+      );
+
+      await ctx.db
+        .update(jukeboxes)
+        .set({ nowPlaying: input.nowPlaying, queue: input.queue })
+        .where(eq(jukeboxes.id, jukebox.id));
+
+      const playingRequestId = input.nowPlaying?.requestId;
+      if (playingRequestId) {
+        await ctx.db
+          .update(jukeboxRequests)
+          .set({ status: "played" })
+          .where(
+            and(
+              eq(jukeboxRequests.id, playingRequestId),
+              eq(jukeboxRequests.jukeboxId, jukebox.id),
+            ),
+          );
+      }
+
+      return { success: true };
+    }),
+
+  endJukebox: protectedProcedure
+    .input(z.object({ code: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const jukebox = await findHostedJukebox(
+        ctx.db,
+        input.code,
+        ctx.session.user.id,
+      );
+
+      await ctx.db
+        .update(jukeboxes)
+        .set({ isActive: false, endedAt: new Date() })
+        .where(eq(jukeboxes.id, jukebox.id));
+
+      return { success: true };
+    }),
+});
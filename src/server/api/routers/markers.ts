@@ -0,0 +1,99 @@
+// File: src/server/api/routers/markers.ts
+
+import {
+  MAX_CUE_POINT_NAME_LENGTH,
+  MAX_CUE_POINTS_PER_TRACK,
+  MIN_AB_LOOP_SECONDS,
+} from "@/config/player";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { trackMarkers } from "@/server/db/schema";
+import type { TrackMarkers } from "@/types";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+
+const CuePointSchema = z.object({
+  id: z.string().min(1).max(64),
+  name: z.string().trim().min(1).max(MAX_CUE_POINT_NAME_LENGTH),
+  time: z.number().min(0),
+});
+
+const AbLoopSchema = z
+  .object({
+    start: z.number().min(0),
+    end: z.number().min(0),
+    enabled: z.boolean(),
+  })
+  .refine((loop) => loop.end - loop.start >= MIN_AB_LOOP_SECONDS, {
+    message: `Loops must be at least ${MIN_AB_LOOP_SECONDS}s long`,
+  });
+
+export const markersRouter = createTRPCRouter({
+  // Cue points and A-B loop saved for a track
+  getTrackMarkers: protectedProcedure
+    .input(z.object({ trackId: z.number() }))
+    .query(async ({ ctx, input }): Promise<TrackMarkers> => {
+      const row = await ctx.db.query.trackMarkers.findFirst({
+        where: and(
+          eq(trackMarkers.userId, ctx.session.user.id),
+          eq(trackMarkers.trackId, input.trackId),
+        ),
+      });
+
+      return {
+        trackId: input.trackId,
+        cuePoints: row?.cuePoints ?? [],
+        loop:
+          row?.loopStart != null && row.loopEnd != null
+            ? {
+                start: row.loopStart,
+                end: row.loopEnd,
+                enabled: row.loopEnabled,
+              }
+            : null,
+      };
+    }),
+
+  // Replace the markers for a track (cue points are sorted by time)
+  saveTrackMarkers: protectedProcedure
+    .input(
+      z.object({
+        trackId: z.number(),
+        cuePoints: z.array(CuePointSchema).max(MAX_CUE_POINTS_PER_TRACK),
+        loop: AbLoopSchema.nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const cuePoints = [...input.cuePoints].sort((a, b) => a.time - b.time);
+
+      // Nothing left to remember: drop the row instead of keeping an empty one
+      if (!cuePoints.length && !input.loop) {
+        await ctx.db
+          .delete(trackMarkers)
+          .where(
+            and(
+              eq(trackMarkers.userId, userId),
+              eq(trackMarkers.trackId, input.trackId),
+            ),
+          );
+        return { success: true };
+      }
+
+      const values = {
+        cuePoints,
+        loopStart: input.loop?.start ?? null,
+        loopEnd: input.loop?.end ?? null,
+        loopEnabled: input.loop?.enabled ?? false,
+      };
+
+      await ctx.db
+        .insert(trackMarkers)
+        .values({ userId, trackId: input.trackId, ...values })
+        .onConflictDoUpdate({
+          target: [trackMarkers.userId, trackMarkers.trackId],
+          set: { ...values, updatedAt: new Date() },
+        });
+
+      return { success: true };
+    }),
+});
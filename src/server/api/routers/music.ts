@@ -1,9 +1,20 @@
 // File: src/server/api/routers/music.ts
 
-import { and, desc, eq, inArray, lt, sql } from "drizzle-orm";
+import { and, desc, eq, inArray, isNull, lt, or, sql } from "drizzle-orm";
 import { z } from "zod";
 
-import { ENABLE_AUDIO_FEATURES } from "@/config/features";
+import { AUDIO_EFFECT_RANGES, AUDIO_EFFECT_TYPES } from "@/config/audioEffects";
+import {
+  ENABLE_AUDIO_FEATURES,
+  ENABLE_BROWSER_AUDIO_ANALYSIS,
+} from "@/config/features";
+import { MAX_OFFLINE_COLLECTION_TRACKS } from "@/config/offline";
+import {
+  AUDIO_QUALITIES,
+  MAX_CROSSFADE_SECONDS,
+  MAX_QUEUE_EDITS,
+  NORMALIZATION_MODES,
+} from "@/config/player";
 import {
   createTRPCRouter,
   protectedProcedure,
@@ -17,6 +28,7 @@ import {
   listeningHistory,
   playbackState,
   playerSessions,
+  playlistMembers,
   playlistTracks,
   playlists,
   recommendationCache,
@@ -34,7 +46,18 @@ import {
   getCacheExpiryDate,
   shuffleWithDiversity,
 } from "@/server/services/recommendations";
-import { isTrack, type Track } from "@/types";
+import {
+  canEditPlaylistTracks,
+  getPlaylistAccess,
+} from "@/server/services/playlistAccess";
+import { refreshDueSmartPlaylists } from "@/server/services/smartPlaylists";
+import {
+  isTrack,
+  type PlaylistMemberRole,
+  type PlaylistRole,
+  type SmartPlaylistDefinition,
+  type Track,
+} from "@/types";
 
 const trackSchema = z.object({
   id: z.number(),
@@ -77,6 +100,47 @@ const trackSchema = z.object({
   type: z.literal("track"),
 });
 
+const inRange = (range: { min: number; max: number }) =>
+  z.number().min(range.min).max(range.max);
+
+const audioEffectsSchema = z.object({
+  order: z
+    .array(z.enum(AUDIO_EFFECT_TYPES))
+    .length(AUDIO_EFFECT_TYPES.length)
+    .refine((order) => new Set(order).size === order.length, {
+      message: "Effect order must list each effect once",
+    }),
+  effects: z.object({
+    preamp: z.object({
+      enabled: z.boolean(),
+      gainDb: inRange(AUDIO_EFFECT_RANGES.preamp.gainDb),
+    }),
+    compressor: z.object({
+      enabled: z.boolean(),
+      threshold: inRange(AUDIO_EFFECT_RANGES.compressor.threshold),
+      ratio: inRange(AUDIO_EFFECT_RANGES.compressor.ratio),
+      knee: inRange(AUDIO_EFFECT_RANGES.compressor.knee),
+      attack: inRange(AUDIO_EFFECT_RANGES.compressor.attack),
+      release: inRange(AUDIO_EFFECT_RANGES.compressor.release),
+      makeupDb: inRange(AUDIO_EFFECT_RANGES.compressor.makeupDb),
+    }),
+    reverb: z.object({
+      enabled: z.boolean(),
+      mix: inRange(AUDIO_EFFECT_RANGES.reverb.mix),
+      decay: inRange(AUDIO_EFFECT_RANGES.reverb.decay),
+    }),
+    widener: z.object({
+      enabled: z.boolean(),
+      width: inRange(AUDIO_EFFECT_RANGES.widener.width),
+    }),
+    balance: z.object({
+      enabled: z.boolean(),
+      pan: inRange(AUDIO_EFFECT_RANGES.balance.pan),
+      mono: z.boolean(),
+    }),
+  }),
+});
+
 /**
  * Automatically sync favorites based on play count
  * Keeps top 8-16 most played tracks as favorites
@@ -348,8 +412,29 @@ export const musicRouter = createTRPCRouter({
     }),
 
   getPlaylists: protectedProcedure.query(async ({ ctx }) => {
+    // Run in background without blocking; the next load shows the result
+    refreshDueSmartPlaylists(ctx.db, ctx.session.user.id).catch((error) => {
+      console.error("[getPlaylists] Error refreshing smart playlists:", error);
+    });
+
+    // Playlists shared with the user are listed along with their own
+    const memberships = await ctx.db.query.playlistMembers.findMany({
+      where: eq(playlistMembers.userId, ctx.session.user.id),
+    });
+    const memberRoles = new Map(
+      memberships.map((m) => [m.playlistId, m.role as PlaylistRole]),
+    );
+    const memberFolderIds = new Map(
+      memberships.map((m) => [m.playlistId, m.folderId]),
+    );
+
     const playlistsResult = await ctx.db.query.playlists.findMany({
-      where: eq(playlists.userId, ctx.session.user.id),
+      where: memberRoles.size
+        ? or(
+            eq(playlists.userId, ctx.session.user.id),
+            inArray(playlists.id, [...memberRoles.keys()]),
+          )
+        : eq(playlists.userId, ctx.session.user.id),
       orderBy: [desc(playlists.createdAt)],
       with: {
         tracks: {
@@ -367,6 +452,9 @@ export const musicRouter = createTRPCRouter({
       description: string | null;
       isPublic: boolean;
       coverImage: string | null;
+      smartRules: SmartPlaylistDefinition | null;
+      smartRefreshedAt: Date | null;
+      folderId: number | null;
       createdAt: Date;
       updatedAt: Date | null;
       tracks: Array<{
@@ -389,6 +477,11 @@ export const musicRouter = createTRPCRouter({
 
           return {
             ...playlist,
+            role: memberRoles.get(playlist.id) ?? ("owner" as PlaylistRole),
+            // Members file shared playlists in their own folders
+            folderId: memberFolderIds.has(playlist.id)
+              ? (memberFolderIds.get(playlist.id) ?? null)
+              : playlist.folderId,
             trackCount: totalTracks.length,
             tracks: playlist.tracks.map((t) => ({
               id: t.id,
@@ -412,14 +505,32 @@ export const musicRouter = createTRPCRouter({
       }),
     )
     .query(async ({ ctx, input }) => {
-      // Fetch user's playlists, optionally excluding specified playlist
+      // Fetch user's playlists and the ones they can edit as a member,
+      // optionally excluding specified playlist
+      const editable = await ctx.db.query.playlistMembers.findMany({
+        where: and(
+          eq(playlistMembers.userId, ctx.session.user.id),
+          eq(playlistMembers.role, "editor"),
+        ),
+      });
+
+      // Smart playlists take their tracks from their rules only
       const playlistsResult = await ctx.db.query.playlists.findMany({
-        where: input.excludePlaylistId
-          ? and(
-              eq(playlists.userId, ctx.session.user.id),
-              sql`${playlists.id} != ${input.excludePlaylistId}`,
-            )
-          : eq(playlists.userId, ctx.session.user.id),
+        where: and(
+          editable.length
+            ? or(
+                eq(playlists.userId, ctx.session.user.id),
+                inArray(
+                  playlists.id,
+                  editable.map((m) => m.playlistId),
+                ),
+              )
+            : eq(playlists.userId, ctx.session.user.id),
+          isNull(playlists.smartRules),
+          input.excludePlaylistId
+            ? sql`${playlists.id} != ${input.excludePlaylistId}`
+            : undefined,
+        ),
         orderBy: [desc(playlists.createdAt)],
       });
 
@@ -441,6 +552,11 @@ export const musicRouter = createTRPCRouter({
 
           return {
             ...playlist,
+            folderId:
+              playlist.userId === ctx.session.user.id
+                ? playlist.folderId
+                : (editable.find((m) => m.playlistId === playlist.id)
+                    ?.folderId ?? null),
             trackCount: totalTracks.length,
             hasTrack: !!trackInPlaylist,
           };
@@ -453,14 +569,40 @@ export const musicRouter = createTRPCRouter({
   getPlaylist: protectedProcedure
     .input(z.object({ id: z.number() }))
     .query(async ({ ctx, input }) => {
+      const access = await getPlaylistAccess(
+        ctx.db,
+        input.id,
+        ctx.session.user.id,
+      );
+
+      if (!access) {
+        throw new Error("Playlist not found");
+      }
+
+      // Run in background without blocking; the next load shows the result
+      refreshDueSmartPlaylists(ctx.db, access.playlist.userId, input.id).catch(
+        (error) => {
+          console.error(
+            "[getPlaylist] Error refreshing smart playlist:",
+            error,
+          );
+        },
+      );
+
       const playlist = await ctx.db.query.playlists.findFirst({
-        where: and(
-          eq(playlists.id, input.id),
-          eq(playlists.userId, ctx.session.user.id),
-        ),
+        where: eq(playlists.id, input.id),
         with: {
           tracks: {
             orderBy: [desc(playlistTracks.position)],
+            with: {
+              addedByUser: { columns: { id: true, name: true, image: true } },
+            },
+          },
+          members: {
+            orderBy: [playlistMembers.createdAt],
+            with: {
+              user: { columns: { id: true, name: true, image: true } },
+            },
           },
         },
       });
@@ -471,19 +613,76 @@ export const musicRouter = createTRPCRouter({
 
       return {
         ...playlist,
-        tracks: playlist.tracks.map(
-          (t: {
-            id: number;
-            trackData: unknown;
-            position: number;
-            addedAt: Date;
-          }) => ({
-            id: t.id,
-            track: t.trackData as Track,
-            position: t.position,
-            addedAt: t.addedAt,
-          }),
-        ),
+        role: access.role,
+        members: playlist.members.map((m) => ({
+          userId: m.userId,
+          name: m.user.name,
+          image: m.user.image,
+          role: m.role as PlaylistMemberRole,
+          joinedAt: m.createdAt,
+        })),
+        tracks: playlist.tracks.map((t) => ({
+          id: t.id,
+          track: t.trackData as Track,
+          position: t.position,
+          addedAt: t.addedAt,
+          addedBy: t.addedByUser,
+        })),
+      };
+    }),
+
+  // Tracks of a playlist or of the favorites, from their stored track data,
+  // to keep on the device for offline listening
+  getOfflineCollection: protectedProcedure
+    .input(
+      z.discriminatedUnion("kind", [
+        z.object({ kind: z.literal("playlist"), id: z.number() }),
+        z.object({ kind: z.literal("favorites") }),
+      ]),
+    )
+    .query(async ({ ctx, input }) => {
+      if (input.kind === "favorites") {
+        const items = await ctx.db.query.favorites.findMany({
+          where: eq(favorites.userId, ctx.session.user.id),
+          orderBy: [desc(favorites.createdAt)],
+          limit: MAX_OFFLINE_COLLECTION_TRACKS,
+        });
+
+        return {
+          name: "Favorites",
+          coverImage: null,
+          tracks: items.map((item) => item.trackData as Track),
+        };
+      }
+
+      const access = await getPlaylistAccess(
+        ctx.db,
+        input.id,
+        ctx.session.user.id,
+      );
+
+      if (!access) {
+        throw new Error("Playlist not found");
+      }
+
+      const playlist = await ctx.db.query.playlists.findFirst({
+        where: eq(playlists.id, input.id),
+        with: {
+          tracks: {
+            orderBy: [desc(playlistTracks.position)],
+            limit: MAX_OFFLINE_COLLECTION_TRACKS,
+          },
+        },
+      });
+
+      if (!playlist) {
+        throw new Error("Playlist not found");
+      }
+
+      return {
+        name: playlist.name,
+        coverImage: playlist.coverImage,
+        tracks: playlist.tracks.map((t) => t.trackData as Track),
       };
     }),
 
@@ -529,18 +728,21 @@ export const musicRouter = createTRPCRouter({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      // Verify ownership
-      const playlist = await ctx.db.query.playlists.findFirst({
-        where: and(
-          eq(playlists.id, input.playlistId),
-          eq(playlists.userId, ctx.session.user.id),
-        ),
-      });
+      // Verify the user owns the playlist or can edit it
+      const access = await getPlaylistAccess(
+        ctx.db,
+        input.playlistId,
+        ctx.session.user.id,
+      );
 
-      if (!playlist) {
+      if (!access || !canEditPlaylistTracks(access.role)) {
         throw new Error("Playlist not found");
       }
 
+      if (access.playlist.smartRules) {
+        throw new Error("Smart playlists are updated from their rules");
+      }
+
       // Check if track already exists in playlist
       const existing = await ctx.db.query.playlistTracks.findFirst({
         where: and(
@@ -566,6 +768,7 @@ export const musicRouter = createTRPCRouter({
         trackId: input.track.id,
         trackData: input.track as unknown as Record<string, unknown>,
         position: nextPosition,
+        addedBy: ctx.session.user.id,
       });
 
       return { success: true };
@@ -579,18 +782,21 @@ export const musicRouter = createTRPCRouter({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      // Verify ownership through the playlist
-      const playlist = await ctx.db.query.playlists.findFirst({
-        where: and(
-          eq(playlists.id, input.playlistId),
-          eq(playlists.userId, ctx.session.user.id),
-        ),
-      });
+      // Verify the user owns the playlist or can edit it
+      const access = await getPlaylistAccess(
+        ctx.db,
+        input.playlistId,
+        ctx.session.user.id,
+      );
 
-      if (!playlist) {
+      if (!access || !canEditPlaylistTracks(access.role)) {
         throw new Error("Playlist not found");
       }
 
+      if (access.playlist.smartRules) {
+        throw new Error("Smart playlists are updated from their rules");
+      }
+
       await ctx.db
         .delete(playlistTracks)
         .where(
@@ -631,18 +837,21 @@ export const musicRouter = createTRPCRouter({
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      // Verify ownership
-      const playlist = await ctx.db.query.playlists.findFirst({
-        where: and(
-          eq(playlists.id, input.playlistId),
-          eq(playlists.userId, ctx.session.user.id),
-        ),
-      });
+      // Verify the user owns the playlist or can edit it
+      const access = await getPlaylistAccess(
+        ctx.db,
+        input.playlistId,
+        ctx.session.user.id,
+      );
 
-      if (!playlist) {
+      if (!access || !canEditPlaylistTracks(access.role)) {
         throw new Error("Playlist not found");
       }
 
+      if (access.playlist.smartRules) {
+        throw new Error("Smart playlists are updated from their rules");
+      }
+
       // Update positions for all tracks
       for (const update of input.trackUpdates) {
         await ctx.db
@@ -770,12 +979,24 @@ export const musicRouter = createTRPCRouter({
       z.object({
         volume: z.number().min(0).max(1).optional(),
         playbackRate: z.number().min(0.5).max(2).optional(),
+        crossfadeDuration: z
+          .number()
+          .min(0)
+          .max(MAX_CROSSFADE_SECONDS)
+          .optional(),
+        gaplessPlayback: z.boolean().optional(),
+        normalizeVolume: z.boolean().optional(),
+        normalizationMode: z.enum(NORMALIZATION_MODES).optional(),
+        normalizationTarget: z.number().min(-31).max(-5).optional(),
+        defaultQuality: z.enum(AUDIO_QUALITIES).optional(),
+        downloadQuality: z.enum(AUDIO_QUALITIES).optional(),
         repeatMode: z.enum(["none", "one", "all"]).optional(),
         shuffleEnabled: z.boolean().optional(),
         equalizerEnabled: z.boolean().optional(),
         equalizerPreset: z.string().optional(),
         equalizerBands: z.array(z.number()).optional(),
         equalizerPanelOpen: z.boolean().optional(),
+        audioEffects: audioEffectsSchema.optional(),
         queuePanelOpen: z.boolean().optional(),
         visualizerType: z.enum(["kaleidoscope"]).optional(),
         visualizerEnabled: z.boolean().optional(),
@@ -837,6 +1058,12 @@ export const musicRouter = createTRPCRouter({
             currentTime: z.number(),
             isShuffled: z.boolean(),
             repeatMode: z.enum(["none", "one", "all"]),
+            queueEdits: z
+              .object({
+                undo: z.array(z.any()).max(MAX_QUEUE_EDITS),
+                redo: z.array(z.any()).max(MAX_QUEUE_EDITS),
+              })
+              .optional(),
           })
           .nullable(),
       }),
@@ -2216,13 +2443,14 @@ export const musicRouter = createTRPCRouter({
     }),
 
   // ============================================
-  // AUDIO FEATURES (Future - Essentia)
+  // AUDIO FEATURES
   // ============================================
 
   getAudioFeatures: protectedProcedure
     .input(z.object({ trackId: z.number() }))
     .query(async ({ ctx, input }) => {
-      if (!ENABLE_AUDIO_FEATURES) {
+      // Also read by the browser analysis, to skip tracks already analyzed
+      if (!ENABLE_AUDIO_FEATURES && !ENABLE_BROWSER_AUDIO_ANALYSIS) {
         return null;
       }
 
@@ -2236,7 +2464,7 @@ export const musicRouter = createTRPCRouter({
   getBatchAudioFeatures: protectedProcedure
     .input(z.object({ trackIds: z.array(z.number()).max(50) }))
     .query(async ({ ctx, input }) => {
-      if (!ENABLE_AUDIO_FEATURES) {
+      if (!ENABLE_AUDIO_FEATURES && !ENABLE_BROWSER_AUDIO_ANALYSIS) {
         return [];
       }
 
@@ -2253,4 +2481,154 @@ export const musicRouter = createTRPCRouter({
 
       return features.filter((f: unknown) => f !== undefined);
     }),
+
+  // Results of the in-browser analysis worker. Rows written by a dedicated
+  // analysis service (e.g. Essentia) are never overwritten.
+  saveAudioFeatures: protectedProcedure
+    .input(
+      z.object({
+        trackId: z.number(),
+        albumId: z.number().optional(),
+        bpm: z.number().min(30).max(300).nullable(),
+        key: z
+          .string()
+          .regex(/^[A-G]#?m?$/)
+          .nullable(),
+        energy: z.number().min(0).max(1),
+        loudness: z.number().min(-120).max(0),
+        spectralCentroid: z.number().min(0).max(24000),
+        integratedLoudness: z.number().min(-70).max(0).nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ENABLE_BROWSER_AUDIO_ANALYSIS) {
+        throw new Error("Browser audio analysis is disabled");
+      }
+
+      const { trackId, bpm, integratedLoudness, ...features } = input;
+
+      await ctx.db
+        .insert(audioFeatures)
+        .values({
+          trackId,
+          ...features,
+          bpm,
+          integratedLoudness,
+          source: "browser",
+        })
+        .onConflictDoUpdate({
+          target: audioFeatures.trackId,
+          set: {
+            ...features,
+            // Keep an earlier tempo or loudness measurement if this one failed
+            ...(bpm !== null && { bpm }),
+            ...(integratedLoudness !== null && { integratedLoudness }),
+            analyzedAt: new Date(),
+          },
+          setWhere: eq(audioFeatures.source, "browser"),
+        });
+
+      return { success: true };
+    }),
+
+  // Steady tempo from the live beat tracker. Only fills in a missing BPM.
+  saveTempoEstimate: protectedProcedure
+    .input(
+      z.object({
+        trackId: z.number(),
+        albumId: z.number().optional(),
+        bpm: z.number().min(30).max(300),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ENABLE_BROWSER_AUDIO_ANALYSIS) {
+        throw new Error("Browser audio analysis is disabled");
+      }
+
+      await ctx.db
+        .insert(audioFeatures)
+        .values({ ...input, source: "browser" })
+        .onConflictDoUpdate({
+          target: audioFeatures.trackId,
+          set: { bpm: input.bpm },
+          setWhere: isNull(audioFeatures.bpm),
+        });
+
+      return { success: true };
+    }),
+
+  // ============================================
+  // LOUDNESS NORMALIZATION
+  // ============================================
+
+  getLoudness: publicProcedure
+    .input(
+      z.object({
+        trackId: z.number(),
+        albumId: z.number().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const features = await ctx.db.query.audioFeatures.findFirst({
+        where: eq(audioFeatures.trackId, input.trackId),
+        columns: { integratedLoudness: true },
+      });
+
+      // Album loudness is the energy average of every measured track on the album
+      let albumLoudness: number | null = null;
+      if (input.albumId !== undefined) {
+        const [album] = await ctx.db
+          .select({
+            loudness: sql<
+              number | null
+            >`10 * log(avg(power(10, ${audioFeatures.integratedLoudness} / 10)))`,
+          })
+          .from(audioFeatures)
+          .where(eq(audioFeatures.albumId, input.albumId));
+        albumLoudness = album?.loudness != null ? Number(album.loudness) : null;
+      }
+
+      return {
+        trackLoudness: features?.integratedLoudness ?? null,
+        albumLoudness,
+      };
+    }),
+
+  saveLoudness: protectedProcedure
+    .input(
+      z.object({
+        trackId: z.number(),
+        albumId: z.number().optional(),
+        integratedLoudness: z.number().min(-70).max(0),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (!ENABLE_BROWSER_AUDIO_ANALYSIS) {
+        throw new Error("Browser audio analysis is disabled");
+      }
+
+      // Only fills in a missing measurement: the stored loudness applies to
+      // every listener, so one client can't replace it
+      await ctx.db
+        .insert(audioFeatures)
+        .values({
+          trackId: input.trackId,
+          albumId: input.albumId,
+          integratedLoudness: input.integratedLoudness,
+          source: "browser",
+        })
+        .onConflictDoUpdate({
+          target: audioFeatures.trackId,
+          set: {
+            integratedLoudness: input.integratedLoudness,
+            albumId: input.albumId,
+          },
+          setWhere: and(
+            eq(audioFeatures.source, "browser"),
+            isNull(audioFeatures.integratedLoudness),
+          ),
+        });
+
+      return { success: true };
+    }),
 });
@@ -0,0 +1,338 @@
+// File: src/server/api/routers/playlistFolders.ts
+
+import {
+  MAX_PLAYLIST_FOLDER_DEPTH,
+  MAX_PLAYLIST_FOLDER_QUEUE_TRACKS,
+  MAX_PLAYLIST_FOLDERS,
+} from "@/config/playlists";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import {
+  playlistFolders,
+  playlistMembers,
+  playlists,
+  playlistTracks,
+} from "@/server/db/schema";
+import { getPlaylistAccess } from "@/server/services/playlistAccess";
+import {
+  getFolderDepth,
+  getFolderHeight,
+  getFolderSubtree,
+  getPlaylistFolders,
+} from "@/server/services/playlistFolders";
+import type { Track } from "@/types";
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { z } from "zod";
+
+const FolderNameSchema = z.string().trim().min(1).max(256);
+
+export const playlistFoldersRouter = createTRPCRouter({
+  getFolders: protectedProcedure.query(async ({ ctx }) => {
+    return getPlaylistFolders(ctx.db, ctx.session.user.id);
+  }),
+
+  createFolder: protectedProcedure
+    .input(
+      z.object({
+        name: FolderNameSchema,
+        parentId: z.number().nullable().default(null),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const folders = await getPlaylistFolders(ctx.db, ctx.session.user.id);
+
+      if (folders.length >= MAX_PLAYLIST_FOLDERS) {
+        throw new Error(
+          `You can have up to ${MAX_PLAYLIST_FOLDERS} playlist folders`,
+        );
+      }
+
+      if (input.parentId !== null) {
+        if (!folders.some((folder) => folder.id === input.parentId)) {
+          throw new Error("Folder not found");
+        }
+        if (
+          getFolderDepth(folders, input.parentId) >= MAX_PLAYLIST_FOLDER_DEPTH
+        ) {
+          throw new Error(
+            `Folders can be nested up to ${MAX_PLAYLIST_FOLDER_DEPTH} levels deep`,
+          );
+        }
+      }
+
+      const [folder] = await ctx.db
+        .insert(playlistFolders)
+        .values({
+          userId: ctx.session.user.id,
+          parentId: input.parentId,
+          name: input.name,
+        })
+        .returning();
+
+      if (!folder) {
+        throw new Error("Failed to create folder");
+      }
+
+      return folder;
+    }),
+
+  renameFolder: protectedProcedure
+    .input(z.object({ id: z.number(), name: FolderNameSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const [folder] = await ctx.db
+        .update(playlistFolders)
+        .set({ name: input.name })
+        .where(
+          and(
+            eq(playlistFolders.id, input.id),
+            eq(playlistFolders.userId, ctx.session.user.id),
+          ),
+        )
+        .returning();
+
+      if (!folder) {
+        throw new Error("Folder not found");
+      }
+
+      return { success: true };
+    }),
+
+  // Put a folder inside another one, or at the top level
+  moveFolder: protectedProcedure
+    .input(z.object({ id: z.number(), parentId: z.number().nullable() }))
+    .mutation(async ({ ctx, input }) => {
+      const folders = await getPlaylistFolders(ctx.db, ctx.session.user.id);
+
+      if (!folders.some((folder) => folder.id === input.id)) {
+        throw new Error("Folder not found");
+      }
+
+      if (input.parentId !== null) {
+        if (!folders.some((folder) => folder.id === input.parentId)) {
+          throw new Error("Folder not found");
+        }
+        if (getFolderSubtree(folders, input.id).includes(input.parentId)) {
+          throw new Error("A folder can't be moved into itself");
+        }
+        if (
+          getFolderDepth(folders, input.parentId) +
+            getFolderHeight(folders, input.id) >
+          MAX_PLAYLIST_FOLDER_DEPTH
+        ) {
+          throw new Error(
+            `Folders can be nested up to ${MAX_PLAYLIST_FOLDER_DEPTH} levels deep`,
+          );
+        }
+      }
+
+      await ctx.db
+        .update(playlistFolders)
+        .set({ parentId: input.parentId })
+        .where(eq(playlistFolders.id, input.id));
+
+      return { success: true };
+    }),
+
+  setFolderCollapsed: protectedProcedure
+    .input(z.object({ id: z.number(), isCollapsed: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db
+        .update(playlistFolders)
+        .set({ isCollapsed: input.isCollapsed })
+        .where(
+          and(
+            eq(playlistFolders.id, input.id),
+            eq(playlistFolders.userId, ctx.session.user.id),
+          ),
+        );
+
+      return { success: true };
+    }),
+
+  // Deleting a folder keeps what's in it: its playlists and folders move up
+  // to its parent
+  deleteFolder: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const folder = await ctx.db.query.playlistFolders.findFirst({
+        where: and(
+          eq(playlistFolders.id, input.id),
+          eq(playlistFolders.userId, userId),
+        ),
+      });
+
+      if (!folder) {
+        throw new Error("Folder not found");
+      }
+
+      await ctx.db.transaction(async (tx) => {
+        await tx
+          .update(playlistFolders)
+          .set({ parentId: folder.parentId })
+          .where(eq(playlistFolders.parentId, folder.id));
+        await tx
+          .update(playlists)
+          .set({ folderId: folder.parentId })
+          .where(
+            and(
+              eq(playlists.userId, userId),
+              eq(playlists.folderId, folder.id),
+            ),
+          );
+        await tx
+          .update(playlistMembers)
+          .set({ folderId: folder.parentId })
+          .where(
+            and(
+              eq(playlistMembers.userId, userId),
+              eq(playlistMembers.folderId, folder.id),
+            ),
+          );
+        await tx
+          .delete(playlistFolders)
+          .where(eq(playlistFolders.id, folder.id));
+      });
+
+      return { success: true };
+    }),
+
+  // File a playlist the user owns or is a member of; each member keeps
+  // their own folders
+  movePlaylist: protectedProcedure
+    .input(
+      z.object({ playlistId: z.number(), folderId: z.number().nullable() }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const access = await getPlaylistAccess(ctx.db, input.playlistId, userId);
+
+      if (!access) {
+        throw new Error("Playlist not found");
+      }
+
+      if (input.folderId !== null) {
+        const folder = await ctx.db.query.playlistFolders.findFirst({
+          where: and(
+            eq(playlistFolders.id, input.folderId),
+            eq(playlistFolders.userId, userId),
+          ),
+        });
+
+        if (!folder) {
+          throw new Error("Folder not found");
+        }
+      }
+
+      if (access.role === "owner") {
+        await ctx.db
+          .update(playlists)
+          .set({ folderId: input.folderId })
+          .where(eq(playlists.id, input.playlistId));
+      } else {
+        await ctx.db
+          .update(playlistMembers)
+          .set({ folderId: input.folderId })
+          .where(
+            and(
+              eq(playlistMembers.playlistId, input.playlistId),
+              eq(playlistMembers.userId, userId),
+            ),
+          );
+      }
+
+      return { success: true };
+    }),
+
+  // Tracks of every playlist in a folder and the folders nested in it, in
+  // the order the library shows them, for "Play folder"
+  getFolderTracks: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const folders = await getPlaylistFolders(ctx.db, userId);
+
+      if (!folders.some((folder) => folder.id === input.id)) {
+        throw new Error("Folder not found");
+      }
+
+      // Depth first: a folder's own playlists, then its folders by name
+      const orderedFolderIds: number[] = [];
+      const visit = (folderId: number) => {
+        orderedFolderIds.push(folderId);
+        for (const folder of folders) {
+          if (folder.parentId === folderId) visit(folder.id);
+        }
+      };
+      visit(input.id);
+
+      const [owned, memberships] = await Promise.all([
+        ctx.db.query.playlists.findMany({
+          where: and(
+            eq(playlists.userId, userId),
+            inArray(playlists.folderId, orderedFolderIds),
+          ),
+          orderBy: [desc(playlists.createdAt)],
+        }),
+        ctx.db.query.playlistMembers.findMany({
+          where: and(
+            eq(playlistMembers.userId, userId),
+            inArray(playlistMembers.folderId, orderedFolderIds),
+          ),
+          with: { playlist: true },
+        }),
+      ]);
+
+      const filed = [
+        ...owned.map((playlist) => ({
+          id: playlist.id,
+          folderId: playlist.folderId,
+          createdAt: playlist.createdAt,
+        })),
+        ...memberships.map((membership) => ({
+          id: membership.playlistId,
+          folderId: membership.folderId,
+          createdAt: membership.playlist.createdAt,
+        })),
+      ].sort(
+        (a, b) =>
+          orderedFolderIds.indexOf(a.folderId!) -
+            orderedFolderIds.indexOf(b.folderId!) ||
+          b.createdAt.getTime() - a.createdAt.getTime(),
+      );
+
+      if (filed.length === 0) {
+        return { playlistCount: 0, tracks: [] as Track[] };
+      }
+
+      const rows = await ctx.db.query.playlistTracks.findMany({
+        where: inArray(
+          playlistTracks.playlistId,
+          filed.map((playlist) => playlist.id),
+        ),
+        orderBy: [asc(playlistTracks.position)],
+      });
+
+      const tracksByPlaylist = new Map<number, Track[]>();
+      for (const row of rows) {
+        const tracks = tracksByPlaylist.get(row.playlistId) ?? [];
+        tracks.push(row.trackData as Track);
+        tracksByPlaylist.set(row.playlistId, tracks);
+      }
+
+      // A track in several of the playlists is queued once
+      const seen = new Set<number>();
+      const tracks: Track[] = [];
+      for (const playlist of filed) {
+        for (const track of tracksByPlaylist.get(playlist.id) ?? []) {
+          if (seen.has(track.id)) continue;
+          seen.add(track.id);
+          tracks.push(track);
+          if (tracks.length >= MAX_PLAYLIST_FOLDER_QUEUE_TRACKS) {
+            return { playlistCount: filed.length, tracks };
+          }
+        }
+      }
+
+      return { playlistCount: filed.length, tracks };
+    }),
+});
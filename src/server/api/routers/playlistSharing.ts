@@ -0,0 +1,286 @@
+// File: src/server/api/routers/playlistSharing.ts
+
+import {
+  MAX_PLAYLIST_MEMBERS,
+  PLAYLIST_INVITE_CODE_LENGTH,
+  PLAYLIST_INVITE_TTL_DAYS,
+} from "@/config/playlists";
+import {
+  createTRPCRouter,
+  protectedProcedure,
+  publicProcedure,
+} from "@/server/api/trpc";
+import {
+  playlistInvites,
+  playlistMembers,
+  playlists,
+  playlistTracks,
+} from "@/server/db/schema";
+import { generateShareCode } from "@/server/services/shareCode";
+import type { PlaylistMemberRole } from "@/types";
+import { and, count, desc, eq, gt } from "drizzle-orm";
+import { z } from "zod";
+
+const RoleSchema = z.enum(["editor", "viewer"]);
+
+export const playlistSharingRouter = createTRPCRouter({
+  createInvite: protectedProcedure
+    .input(z.object({ playlistId: z.number(), role: RoleSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const playlist = await ctx.db.query.playlists.findFirst({
+        where: and(
+          eq(playlists.id, input.playlistId),
+          eq(playlists.userId, ctx.session.user.id),
+        ),
+      });
+
+      if (!playlist) {
+        throw new Error("Playlist not found");
+      }
+
+      const [invite] = await ctx.db
+        .insert(playlistInvites)
+        .values({
+          playlistId: playlist.id,
+          code: generateShareCode(PLAYLIST_INVITE_CODE_LENGTH),
+          role: input.role,
+          createdBy: ctx.session.user.id,
+          expiresAt: new Date(
+            Date.now() + PLAYLIST_INVITE_TTL_DAYS * 24 * 60 * 60 * 1000,
+          ),
+        })
+        .returning();
+
+      if (!invite) {
+        throw new Error("Failed to create invite");
+      }
+
+      return {
+        code: invite.code,
+        role: invite.role as PlaylistMemberRole,
+        expiresAt: invite.expiresAt,
+      };
+    }),
+
+  // Invites of the owner's playlist that can still be used
+  listInvites: protectedProcedure
+    .input(z.object({ playlistId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const playlist = await ctx.db.query.playlists.findFirst({
+        where: and(
+          eq(playlists.id, input.playlistId),
+          eq(playlists.userId, ctx.session.user.id),
+        ),
+      });
+
+      if (!playlist) {
+        throw new Error("Playlist not found");
+      }
+
+      const invites = await ctx.db.query.playlistInvites.findMany({
+        where: and(
+          eq(playlistInvites.playlistId, playlist.id),
+          gt(playlistInvites.expiresAt, new Date()),
+        ),
+        orderBy: [desc(playlistInvites.createdAt)],
+      });
+
+      return invites.map((invite) => ({
+        code: invite.code,
+        role: invite.role as PlaylistMemberRole,
+        expiresAt: invite.expiresAt,
+      }));
+    }),
+
+  revokeInvite: protectedProcedure
+    .input(z.object({ playlistId: z.number(), code: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const playlist = await ctx.db.query.playlists.findFirst({
+        where: and(
+          eq(playlists.id, input.playlistId),
+          eq(playlists.userId, ctx.session.user.id),
+        ),
+      });
+
+      if (!playlist) {
+        throw new Error("Playlist not found");
+      }
+
+      await ctx.db
+        .delete(playlistInvites)
+        .where(
+          and(
+            eq(playlistInvites.playlistId, playlist.id),
+            eq(playlistInvites.code, input.code),
+          ),
+        );
+
+      return { success: true };
+    }),
+
+  // What an invite link leads to, shown before accepting it
+  getInvite: publicProcedure
+    .input(z.object({ code: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const invite = await ctx.db.query.playlistInvites.findFirst({
+        where: and(
+          eq(playlistInvites.code, input.code),
+          gt(playlistInvites.expiresAt, new Date()),
+        ),
+        with: {
+          playlist: {
+            with: { user: { columns: { name: true, image: true } } },
+          },
+        },
+      });
+
+      if (!invite) {
+        throw new Error("Invite not found or expired");
+      }
+
+      const [trackCount] = await ctx.db
+        .select({ value: count() })
+        .from(playlistTracks)
+        .where(eq(playlistTracks.playlistId, invite.playlistId));
+
+      return {
+        playlistId: invite.playlistId,
+        name: invite.playlist.name,
+        description: invite.playlist.description,
+        ownerName: invite.playlist.user.name,
+        ownerImage: invite.playlist.user.image,
+        trackCount: trackCount?.value ?? 0,
+        role: invite.role as PlaylistMemberRole,
+      };
+    }),
+
+  acceptInvite: protectedProcedure
+    .input(z.object({ code: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const invite = await ctx.db.query.playlistInvites.findFirst({
+        where: and(
+          eq(playlistInvites.code, input.code),
+          gt(playlistInvites.expiresAt, new Date()),
+        ),
+        with: { playlist: true },
+      });
+
+      if (!invite) {
+        throw new Error("Invite not found or expired");
+      }
+
+      // The owner following their own link has nothing to join
+      if (invite.playlist.userId === ctx.session.user.id) {
+        return { playlistId: invite.playlistId };
+      }
+
+      const existing = await ctx.db.query.playlistMembers.findFirst({
+        where: and(
+          eq(playlistMembers.playlistId, invite.playlistId),
+          eq(playlistMembers.userId, ctx.session.user.id),
+        ),
+      });
+
+      if (existing) {
+        // An editor invite upgrades a viewer, a viewer invite never demotes
+        if (invite.role === "editor" && existing.role !== "editor") {
+          await ctx.db
+            .update(playlistMembers)
+            .set({ role: "editor" })
+            .where(
+              and(
+                eq(playlistMembers.playlistId, invite.playlistId),
+                eq(playlistMembers.userId, ctx.session.user.id),
+              ),
+            );
+        }
+        return { playlistId: invite.playlistId };
+      }
+
+      const [memberCount] = await ctx.db
+        .select({ value: count() })
+        .from(playlistMembers)
+        .where(eq(playlistMembers.playlistId, invite.playlistId));
+
+      if ((memberCount?.value ?? 0) >= MAX_PLAYLIST_MEMBERS) {
+        throw new Error(
+          `Playlists can be shared with at most ${MAX_PLAYLIST_MEMBERS} people`,
+        );
+      }
+
+      await ctx.db.insert(playlistMembers).values({
+        playlistId: invite.playlistId,
+        userId: ctx.session.user.id,
+        role: invite.role,
+      });
+
+      return { playlistId: invite.playlistId };
+    }),
+
+  updateMemberRole: protectedProcedure
+    .input(
+      z.object({
+        playlistId: z.number(),
+        userId: z.string(),
+        role: RoleSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const playlist = await ctx.db.query.playlists.findFirst({
+        where: and(
+          eq(playlists.id, input.playlistId),
+          eq(playlists.userId, ctx.session.user.id),
+        ),
+      });
+
+      if (!playlist) {
+        throw new Error("Playlist not found");
+      }
+
+      const [member] = await ctx.db
+        .update(playlistMembers)
+        .set({ role: input.role })
+        .where(
+          and(
+            eq(playlistMembers.playlistId, playlist.id),
+            eq(playlistMembers.userId, input.userId),
+          ),
+        )
+        .returning();
+
+      if (!member) {
+        throw new Error("Member not found");
+      }
+
+      return { success: true };
+    }),
+
+  // The owner removes a member, or a member leaves
+  removeMember: protectedProcedure
+    .input(z.object({ playlistId: z.number(), userId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      if (input.userId !== ctx.session.user.id) {
+        const playlist = await ctx.db.query.playlists.findFirst({
+          where: and(
+            eq(playlists.id, input.playlistId),
+            eq(playlists.userId, ctx.session.user.id),
+          ),
+        });
+
+        if (!playlist) {
+          throw new Error("Playlist not found");
+        }
+      }
+
+      await ctx.db
+        .delete(playlistMembers)
+        .where(
+          and(
+            eq(playlistMembers.playlistId, input.playlistId),
+            eq(playlistMembers.userId, input.userId),
+          ),
+        );
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,275 @@
+// File: src/server/api/routers/queue.ts
+
+import {
+  MAX_QUEUE_SIZE,
+  MAX_QUEUE_SNAPSHOT_NAME_LENGTH,
+  MAX_QUEUE_SNAPSHOTS,
+} from "@/config/player";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { playlists, playlistTracks, queueSnapshots } from "@/server/db/schema";
+import type {
+  QueueSnapshot,
+  QueueSnapshotState,
+  QueueSnapshotSummary,
+  Track,
+} from "@/types";
+import { isTrack } from "@/types";
+import { and, count, desc, eq, sql } from "drizzle-orm";
+import { z } from "zod";
+
+const SnapshotNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(MAX_QUEUE_SNAPSHOT_NAME_LENGTH);
+
+const QueueSnapshotStateSchema = z.object({
+  queuedTracks: z
+    .array(
+      z.object({
+        track: z.custom<Track>(isTrack, "Invalid track"),
+        queueSource: z.enum([
+          "user",
+          "smart",
+          "playlist",
+          "album",
+          "artist",
+          "radio",
+          "recommendation",
+        ]),
+        addedAt: z.coerce.date(),
+        queueId: z.string(),
+        addedBy: z.string().optional(),
+        smartQueueMetadata: z.any().optional(),
+      }),
+    )
+    .max(MAX_QUEUE_SIZE),
+  history: z.array(z.any()).max(MAX_QUEUE_SIZE),
+  smartQueueState: z.object({
+    isActive: z.boolean(),
+    lastRefreshedAt: z.coerce.date().nullable(),
+    seedTrackId: z.number().nullable(),
+    trackCount: z.number(),
+  }),
+  isShuffled: z.boolean(),
+  repeatMode: z.enum(["none", "one", "all"]),
+  currentTime: z.number().min(0),
+});
+
+export const queueRouter = createTRPCRouter({
+  // Saved queues, most recently used first
+  listSnapshots: protectedProcedure.query(
+    async ({ ctx }): Promise<QueueSnapshotSummary[]> => {
+      const rows = await ctx.db.query.queueSnapshots.findMany({
+        where: eq(queueSnapshots.userId, ctx.session.user.id),
+        orderBy: [
+          desc(
+            sql`coalesce(${queueSnapshots.updatedAt}, ${queueSnapshots.createdAt})`,
+          ),
+        ],
+      });
+
+      return rows.map((row) => ({
+        id: row.id,
+        name: row.name,
+        trackCount: row.trackCount,
+        currentTrack: row.queueState.queuedTracks[0]?.track ?? null,
+        currentTime: row.queueState.currentTime,
+        createdAt: row.createdAt,
+        updatedAt: row.updatedAt,
+      }));
+    },
+  ),
+
+  getSnapshot: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ ctx, input }): Promise<QueueSnapshot> => {
+      const row = await ctx.db.query.queueSnapshots.findFirst({
+        where: and(
+          eq(queueSnapshots.id, input.id),
+          eq(queueSnapshots.userId, ctx.session.user.id),
+        ),
+      });
+
+      if (!row) {
+        throw new Error("Saved queue not found");
+      }
+
+      return { id: row.id, name: row.name, state: row.queueState };
+    }),
+
+  // Save the queue under a name, or update an existing snapshot (`id`).
+  // Saving under a name that's taken replaces that snapshot.
+  saveSnapshot: protectedProcedure
+    .input(
+      z.object({
+        id: z.number().optional(),
+        name: SnapshotNameSchema,
+        state: QueueSnapshotStateSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const queueState = input.state as QueueSnapshotState;
+      const values = {
+        name: input.name,
+        queueState,
+        trackCount: queueState.queuedTracks.length,
+      };
+
+      if (input.id !== undefined) {
+        const [snapshot] = await ctx.db
+          .update(queueSnapshots)
+          .set({ ...values, updatedAt: new Date() })
+          .where(
+            and(
+              eq(queueSnapshots.id, input.id),
+              eq(queueSnapshots.userId, userId),
+            ),
+          )
+          .returning({ id: queueSnapshots.id, name: queueSnapshots.name });
+
+        if (!snapshot) {
+          throw new Error("Saved queue not found");
+        }
+        return snapshot;
+      }
+
+      const [existing, total] = await Promise.all([
+        ctx.db.query.queueSnapshots.findFirst({
+          where: and(
+            eq(queueSnapshots.userId, userId),
+            eq(queueSnapshots.name, input.name),
+          ),
+          columns: { id: true },
+        }),
+        ctx.db
+          .select({ value: count() })
+          .from(queueSnapshots)
+          .where(eq(queueSnapshots.userId, userId)),
+      ]);
+
+      if (!existing && (total[0]?.value ?? 0) >= MAX_QUEUE_SNAPSHOTS) {
+        throw new Error(
+          `You can save up to ${MAX_QUEUE_SNAPSHOTS} queues. Delete one to save another.`,
+        );
+      }
+
+      const [snapshot] = await ctx.db
+        .insert(queueSnapshots)
+        .values({ userId, ...values })
+        .onConflictDoUpdate({
+          target: [queueSnapshots.userId, queueSnapshots.name],
+          set: { ...values, updatedAt: new Date() },
+        })
+        .returning({ id: queueSnapshots.id, name: queueSnapshots.name });
+
+      return snapshot;
+    }),
+
+  renameSnapshot: protectedProcedure
+    .input(z.object({ id: z.number(), name: SnapshotNameSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const taken = await ctx.db.query.queueSnapshots.findFirst({
+        where: and(
+          eq(queueSnapshots.userId, ctx.session.user.id),
+          eq(queueSnapshots.name, input.name),
+        ),
+        columns: { id: true },
+      });
+
+      if (taken && taken.id !== input.id) {
+        throw new Error("Another saved queue already uses this name");
+      }
+
+      await ctx.db
+        .update(queueSnapshots)
+        .set({ name: input.name, updatedAt: new Date() })
+        .where(
+          and(
+            eq(queueSnapshots.id, input.id),
+            eq(queueSnapshots.userId, ctx.session.user.id),
+          ),
+        );
+
+      return { success: true };
+    }),
+
+  deleteSnapshot: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db
+        .delete(queueSnapshots)
+        .where(
+          and(
+            eq(queueSnapshots.id, input.id),
+            eq(queueSnapshots.userId, ctx.session.user.id),
+          ),
+        );
+
+      return { success: true };
+    }),
+
+  // Create a private playlist with a snapshot's tracks, from the one that was
+  // playing onwards (each track once)
+  convertSnapshotToPlaylist: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        name: z.string().trim().min(1).max(256).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const row = await ctx.db.query.queueSnapshots.findFirst({
+        where: and(
+          eq(queueSnapshots.id, input.id),
+          eq(queueSnapshots.userId, ctx.session.user.id),
+        ),
+      });
+
+      if (!row) {
+        throw new Error("Saved queue not found");
+      }
+
+      const tracks: Track[] = [];
+      const seen = new Set<number>();
+      for (const { track } of row.queueState.queuedTracks) {
+        // Queues saved before tracks were validated may hold anything
+        if (!isTrack(track) || seen.has(track.id)) continue;
+        seen.add(track.id);
+        tracks.push(track);
+      }
+
+      if (tracks.length === 0) {
+        throw new Error("This saved queue has no tracks");
+      }
+
+      const playlist = await ctx.db.transaction(async (tx) => {
+        const [created] = await tx
+          .insert(playlists)
+          .values({
+            userId: ctx.session.user.id,
+            name: input.name ?? row.name,
+            isPublic: false,
+          })
+          .returning();
+
+        if (!created) {
+          throw new Error("Failed to create playlist");
+        }
+
+        await tx.insert(playlistTracks).values(
+          tracks.map((track, position) => ({
+            playlistId: created.id,
+            trackId: track.id,
+            trackData: track as unknown as Record<string, unknown>,
+            position,
+          })),
+        );
+
+        return created;
+      });
+
+      return { playlist, trackCount: tracks.length };
+    }),
+});
@@ -0,0 +1,163 @@
+// File: src/server/api/routers/remote.ts
+
+import {
+  MAX_REMOTE_STATUS_COVER_LENGTH,
+  MAX_REMOTE_STATUS_TEXT_LENGTH,
+  REMOTE_DEVICE_TIMEOUT_MS,
+} from "@/config/remote";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { playerSessions } from "@/server/db/schema";
+import {
+  fitsRemoteEvent,
+  publishRemoteEvent,
+} from "@/server/services/realtime";
+import type { RemoteCommand, RemoteEvent } from "@/types";
+import { and, desc, eq, gt, inArray } from "drizzle-orm";
+import { z } from "zod";
+
+const remoteCommandSchema: z.ZodType<RemoteCommand> = z.discriminatedUnion(
+  "type",
+  [
+    z.object({ type: z.literal("play") }),
+    z.object({ type: z.literal("pause") }),
+    z.object({ type: z.literal("next") }),
+    z.object({ type: z.literal("previous") }),
+    z.object({ type: z.literal("seek"), position: z.number().min(0) }),
+    z.object({ type: z.literal("volume"), volume: z.number().min(0).max(1) }),
+    z.object({ type: z.literal("handoff"), toSessionId: z.number() }),
+  ],
+);
+
+export const remoteRouter = createTRPCRouter({
+  // The user's devices seen recently, including this one
+  getDevices: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.db.query.playerSessions.findMany({
+      where: and(
+        eq(playerSessions.userId, ctx.session.user.id),
+        eq(playerSessions.isActive, true),
+        gt(
+          playerSessions.lastActive,
+          new Date(Date.now() - REMOTE_DEVICE_TIMEOUT_MS),
+        ),
+      ),
+      columns: {
+        id: true,
+        deviceName: true,
+        userAgent: true,
+        lastActive: true,
+      },
+      orderBy: [desc(playerSessions.lastActive)],
+    });
+  }),
+
+  sendCommand: protectedProcedure
+    .input(
+      z.object({
+        fromSessionId: z.number().nullable(),
+        targetSessionId: z.number(),
+        command: remoteCommandSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const sessionIds =
+        input.command.type === "handoff"
+          ? [input.targetSessionId, input.command.toSessionId]
+          : [input.targetSessionId];
+      const owned = await ctx.db.query.playerSessions.findMany({
+        where: and(
+          inArray(playerSessions.id, sessionIds),
+          eq(playerSessions.userId, ctx.session.user.id),
+        ),
+        columns: { id: true },
+      });
+
+      if (owned.length !== new Set(sessionIds).size) {
+        throw new Error("Device not found");
+      }
+
+      await publishRemoteEvent(ctx.session.user.id, {
+        kind: "command",
+        targetSessionId: input.targetSessionId,
+        fromSessionId: input.fromSessionId,
+        command: input.command,
+      });
+
+      return { success: true };
+    }),
+
+  // Tell a device that playback was handed to it; the state itself is saved
+  // with music.savePlaybackState first
+  notifyTransfer: protectedProcedure
+    .input(
+      z.object({
+        fromSessionId: z.number().nullable(),
+        targetSessionId: z.number(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const target = await ctx.db.query.playerSessions.findFirst({
+        where: and(
+          eq(playerSessions.id, input.targetSessionId),
+          eq(playerSessions.userId, ctx.session.user.id),
+        ),
+        columns: { id: true },
+      });
+
+      if (!target) {
+        throw new Error("Device not found");
+      }
+
+      await publishRemoteEvent(ctx.session.user.id, {
+        kind: "transfer",
+        targetSessionId: input.targetSessionId,
+        fromSessionId: input.fromSessionId,
+      });
+
+      return { success: true };
+    }),
+
+  // Share what this device is playing with the user's other devices
+  reportStatus: protectedProcedure
+    .input(
+      z.object({
+        sessionId: z.number(),
+        track: z
+          .object({
+            id: z.number(),
+            title: z.string().max(MAX_REMOTE_STATUS_TEXT_LENGTH),
+            artist: z.string().max(MAX_REMOTE_STATUS_TEXT_LENGTH),
+            cover: z.string().max(MAX_REMOTE_STATUS_COVER_LENGTH),
+            duration: z.number(),
+          })
+          .nullable(),
+        isPlaying: z.boolean(),
+        position: z.number().min(0),
+        volume: z.number().min(0).max(1),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const session = await ctx.db.query.playerSessions.findFirst({
+        where: and(
+          eq(playerSessions.id, input.sessionId),
+          eq(playerSessions.userId, ctx.session.user.id),
+        ),
+        columns: { id: true },
+      });
+
+      if (!session) {
+        throw new Error("Device not found");
+      }
+
+      const event: RemoteEvent = {
+        kind: "status",
+        status: { ...input, reportedAt: Date.now() },
+      };
+      if (!fitsRemoteEvent(ctx.session.user.id, event)) {
+        throw new Error("Status is too large to share");
+      }
+
+      await publishRemoteEvent(ctx.session.user.id, event);
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,352 @@
+// File: src/server/api/routers/rooms.ts
+
+import {
+  MAX_ROOM_GUEST_NAME_LENGTH,
+  MAX_ROOM_MESSAGE_LENGTH,
+  MAX_ROOM_TRACK_BYTES,
+  ROOM_CODE_LENGTH,
+  ROOM_MESSAGE_HISTORY,
+  ROOM_MESSAGE_LIMIT,
+  ROOM_MESSAGE_WINDOW_MS,
+} from "@/config/rooms";
+import {
+  createTRPCRouter,
+  protectedProcedure,
+  publicProcedure,
+} from "@/server/api/trpc";
+import type { db } from "@/server/db";
+import { listeningRoomMessages, listeningRooms } from "@/server/db/schema";
+import { getClientAddress } from "@/server/services/clientAddress";
+import { fitsRoomEvent, publishRoomEvent } from "@/server/services/realtime";
+import { generateShareCode } from "@/server/services/shareCode";
+import type {
+  ListeningRoomMessage,
+  ListeningRoomPlayback,
+  Track,
+} from "@/types";
+import { isTrack } from "@/types";
+import { and, count, desc, eq, gt } from "drizzle-orm";
+import { z } from "zod";
+
+const roomTrackSchema = z.custom<Track>(
+  (value) =>
+    isTrack(value) &&
+    Buffer.byteLength(JSON.stringify(value)) <= MAX_ROOM_TRACK_BYTES,
+  "Invalid track",
+);
+
+// Device id of a guest who isn't signed in, see utils/api getDeviceId
+const guestIdSchema = z.string().min(1).max(100).optional();
+
+const guestNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(MAX_ROOM_GUEST_NAME_LENGTH)
+  .optional();
+
+type MessageRow = typeof listeningRoomMessages.$inferSelect;
+
+function toRoomMessage(row: MessageRow): ListeningRoomMessage {
+  return {
+    id: row.id,
+    kind: row.kind as ListeningRoomMessage["kind"],
+    authorName: row.authorName,
+    userId: row.userId,
+    body: row.body,
+    track: row.track,
+    createdAt: row.createdAt.getTime(),
+  };
+}
+
+async function findActiveRoom(database: typeof db, code: string) {
+  const room = await database.query.listeningRooms.findFirst({
+    where: and(
+      eq(listeningRooms.code, code),
+      eq(listeningRooms.isActive, true),
+    ),
+  });
+
+  if (!room) {
+    throw new Error("Room not found or has ended");
+  }
+
+  return room;
+}
+
+/**
+ * Who the message limit applies to: signed-in users by their account, guests
+ * by their address, or their device when there is none
+ */
+function resolveSender(
+  userId: string | undefined,
+  headers: Headers,
+  guestId: string | undefined,
+): string {
+  if (userId) return `user:${userId}`;
+
+  const address = getClientAddress(headers);
+  if (address) return `address:${address}`;
+  if (!guestId) {
+    throw new Error("Missing guest id");
+  }
+  return `device:${guestId}`;
+}
+
+// Signed-in users post under their name, guests under the one they entered
+async function postMessage(
+  ctx: {
+    db: typeof db;
+    headers: Headers;
+    session: { user: { id: string; name?: string | null } } | null;
+  },
+  input: {
+    code: string;
+    guestId?: string;
+    guestName?: string;
+    kind: ListeningRoomMessage["kind"];
+    body: string;
+    track: Track | null;
+  },
+): Promise<ListeningRoomMessage> {
+  const room = await findActiveRoom(ctx.db, input.code);
+  const user = ctx.session?.user;
+  const authorName = user ? (user.name ?? "Listener") : input.guestName;
+
+  if (!authorName) {
+    throw new Error("Enter a name to join the conversation");
+  }
+
+  // Size the event before storing the message; the row's id isn't known yet,
+  // so the largest one keeps the estimate on the safe side
+  const draft: ListeningRoomMessage = {
+    id: Number.MAX_SAFE_INTEGER,
+    kind: input.kind,
+    authorName,
+    userId: user?.id ?? null,
+    body: input.body,
+    track: input.track,
+    createdAt: Date.now(),
+  };
+  if (!fitsRoomEvent(room.id, { kind: "message", message: draft })) {
+    throw new Error("Message is too long to send");
+  }
+
+  const senderId = resolveSender(user?.id, ctx.headers, input.guestId);
+  const [recent] = await ctx.db
+    .select({ value: count() })
+    .from(listeningRoomMessages)
+    .where(
+      and(
+        eq(listeningRoomMessages.roomId, room.id),
+        eq(listeningRoomMessages.senderId, senderId),
+        gt(
+          listeningRoomMessages.createdAt,
+          new Date(Date.now() - ROOM_MESSAGE_WINDOW_MS),
+        ),
+      ),
+    );
+
+  if ((recent?.value ?? 0) >= ROOM_MESSAGE_LIMIT) {
+    throw new Error("You're posting too fast. Try again in a minute.");
+  }
+
+  const [row] = await ctx.db
+    .insert(listeningRoomMessages)
+    .values({
+      roomId: room.id,
+      userId: user?.id ?? null,
+      authorName,
+      senderId,
+      kind: input.kind,
+      body: input.body,
+      track: input.track,
+    })
+    .returning();
+
+  if (!row) {
+    throw new Error("Failed to send message");
+  }
+
+  const message = toRoomMessage(row);
+  await publishRoomEvent(room.id, { kind: "message", message });
+  return message;
+}
+
+export const roomsRouter = createTRPCRouter({
+  // Start a room hosted from this device; ends any room the user was hosting
+  createRoom: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().trim().min(1).max(100).optional(),
+        hostSessionId: z.number().nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const previous = await ctx.db
+        .update(listeningRooms)
+        .set({ isActive: false, endedAt: new Date() })
+        .where(
+          and(
+            eq(listeningRooms.hostId, ctx.session.user.id),
+            eq(listeningRooms.isActive, true),
+          ),
+        )
+        .returning({ id: listeningRooms.id });
+
+      await Promise.all(
+        previous.map((room) => publishRoomEvent(room.id, { kind: "ended" })),
+      );
+
+      const [room] = await ctx.db
+        .insert(listeningRooms)
+        .values({
+          code: generateShareCode(ROOM_CODE_LENGTH),
+          name:
+            input.name ??
+            `${ctx.session.user.name ?? "Someone"}'s listening room`,
+          hostId: ctx.session.user.id,
+          hostSessionId: input.hostSessionId,
+        })
+        .returning({ id: listeningRooms.id, code: listeningRooms.code });
+
+      if (!room) {
+        throw new Error("Failed to create room");
+      }
+
+      return room;
+    }),
+
+  // Everything needed to join: the host's playback and recent messages
+  getRoom: publicProcedure
+    .input(z.object({ code: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const room = await ctx.db.query.listeningRooms.findFirst({
+        where: and(
+          eq(listeningRooms.code, input.code),
+          eq(listeningRooms.isActive, true),
+        ),
+        with: {
+          host: { columns: { name: true, image: true } },
+          messages: {
+            orderBy: [desc(listeningRoomMessages.createdAt)],
+            limit: ROOM_MESSAGE_HISTORY,
+          },
+        },
+      });
+
+      if (!room) {
+        throw new Error("Room not found or has ended");
+      }
+
+      return {
+        id: room.id,
+        code: room.code,
+        name: room.name,
+        hostName: room.host.name ?? "Host",
+        hostImage: room.host.image,
+        isHost: room.hostId === ctx.session?.user?.id,
+        playback: room.playback,
+        messages: room.messages.reverse().map(toRoomMessage),
+      };
+    }),
+
+  // Participants estimate their offset to this clock, see utils/clockSync
+  getServerTime: publicProcedure.query(() => {
+    return { now: Date.now() };
+  }),
+
+  updatePlayback: protectedProcedure
+    .input(
+      z.object({
+        code: z.string(),
+        track: roomTrackSchema.nullable(),
+        position: z.number().min(0),
+        isPlaying: z.boolean(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const room = await findActiveRoom(ctx.db, input.code);
+
+      if (room.hostId !== ctx.session.user.id) {
+        throw new Error("Only the host can control the room");
+      }
+
+      const playback: ListeningRoomPlayback = {
+        track: input.track,
+        position: input.position,
+        isPlaying: input.isPlaying,
+        updatedAt: Date.now(),
+      };
+
+      if (!fitsRoomEvent(room.id, { kind: "playback", playback })) {
+        throw new Error("Track is too large to share with the room");
+      }
+
+      await ctx.db
+        .update(listeningRooms)
+        .set({ playback })
+        .where(eq(listeningRooms.id, room.id));
+      await publishRoomEvent(room.id, { kind: "playback", playback });
+
+      return { success: true };
+    }),
+
+  sendMessage: publicProcedure
+    .input(
+      z.object({
+        code: z.string(),
+        body: z.string().trim().min(1).max(MAX_ROOM_MESSAGE_LENGTH),
+        guestId: guestIdSchema,
+        guestName: guestNameSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      return postMessage(ctx, { ...input, kind: "chat", track: null });
+    }),
+
+  suggestTrack: publicProcedure
+    .input(
+      z.object({
+        code: z.string(),
+        track: roomTrackSchema,
+        note: z.string().trim().max(MAX_ROOM_MESSAGE_LENGTH).optional(),
+        guestId: guestIdSchema,
+        guestName: guestNameSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      return postMessage(ctx, {
+        code: input.code,
+        guestId: input.guestId,
+        guestName: input.guestName,
+        kind: "suggestion",
+        body: input.note ?? "",
+        track: input.track,
+      });
+    }),
+
+  endRoom: protectedProcedure
+    .input(z.object({ code: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const [room] = await ctx.db
+        .update(listeningRooms)
+        .set({ isActive: false, endedAt: new Date() })
+        .where(
+          and(
+            eq(listeningRooms.code, input.code),
+            eq(listeningRooms.hostId, ctx.session.user.id),
+            eq(listeningRooms.isActive, true),
+          ),
+        )
+        .returning({ id: listeningRooms.id });
+
+      if (!room) {
+        throw new Error("Room not found");
+      }
+
+      await publishRoomEvent(room.id, { kind: "ended" });
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,230 @@
+// File: src/server/api/routers/smartPlaylists.ts
+
+import {
+  MAX_SMART_PLAYLIST_DEPTH,
+  MAX_SMART_PLAYLIST_RULES,
+  MAX_SMART_PLAYLIST_TRACKS,
+  SMART_PLAYLIST_FIELDS,
+  SMART_PLAYLIST_OPERATOR_LABELS,
+  SMART_PLAYLIST_OPERATORS,
+  SMART_PLAYLIST_SORT_FIELDS,
+} from "@/config/smartPlaylists";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { playlists } from "@/server/db/schema";
+import {
+  collectSmartTrackStats,
+  evaluateSmartPlaylist,
+  refreshSmartPlaylist,
+} from "@/server/services/smartPlaylists";
+import {
+  isSmartPlaylistRuleGroup,
+  type SmartPlaylistField,
+  type SmartPlaylistOperator,
+  type SmartPlaylistRule,
+  type SmartPlaylistRuleGroup,
+  type SmartPlaylistSortField,
+} from "@/types";
+import { and, eq, isNotNull } from "drizzle-orm";
+import { z } from "zod";
+
+const PREVIEW_TRACKS = 10;
+
+const RuleSchema = z.object({
+  field: z.enum(
+    Object.keys(SMART_PLAYLIST_FIELDS) as [
+      SmartPlaylistField,
+      ...SmartPlaylistField[],
+    ],
+  ),
+  operator: z.enum(
+    Object.keys(SMART_PLAYLIST_OPERATOR_LABELS) as [
+      SmartPlaylistOperator,
+      ...SmartPlaylistOperator[],
+    ],
+  ),
+  value: z.union([
+    z.string().max(256),
+    z.number().finite(),
+    z.boolean(),
+    z.tuple([z.number().finite(), z.number().finite()]),
+  ]),
+});
+
+const RuleGroupSchema: z.ZodType<SmartPlaylistRuleGroup> = z.lazy(() =>
+  z.object({
+    match: z.enum(["all", "any"]),
+    rules: z.array(z.union([RuleSchema, RuleGroupSchema])),
+  }),
+);
+
+// Whether a rule's value suits its field and operator
+function isValidRule(rule: SmartPlaylistRule) {
+  const { kind } = SMART_PLAYLIST_FIELDS[rule.field];
+  if (!SMART_PLAYLIST_OPERATORS[kind].includes(rule.operator)) return false;
+
+  switch (kind) {
+    case "number":
+      return rule.operator === "between"
+        ? Array.isArray(rule.value)
+        : typeof rule.value === "number";
+    case "date":
+      return rule.operator === "inLast" || rule.operator === "notInLast"
+        ? typeof rule.value === "number" && rule.value >= 0
+        : typeof rule.value === "string" &&
+            /^\d{4}-\d{2}-\d{2}$/.test(rule.value);
+    case "boolean":
+      return typeof rule.value === "boolean";
+    case "text":
+      return typeof rule.value === "string" && rule.value.trim().length > 0;
+  }
+}
+
+const SmartPlaylistDefinitionSchema = z
+  .object({
+    rules: RuleGroupSchema,
+    sort: z.object({
+      field: z.enum(
+        Object.keys(SMART_PLAYLIST_SORT_FIELDS) as [
+          SmartPlaylistSortField,
+          ...SmartPlaylistSortField[],
+        ],
+      ),
+      direction: z.enum(["asc", "desc"]),
+    }),
+    limit: z.number().int().min(1).max(MAX_SMART_PLAYLIST_TRACKS).nullable(),
+    refreshIntervalHours: z.number().int().min(1).nullable(),
+  })
+  .superRefine((definition, ctx) => {
+    let ruleCount = 0;
+    const check = (group: SmartPlaylistRuleGroup, depth: number) => {
+      if (depth > MAX_SMART_PLAYLIST_DEPTH) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Rule groups can nest at most ${MAX_SMART_PLAYLIST_DEPTH} deep`,
+        });
+        return;
+      }
+      for (const rule of group.rules) {
+        ruleCount++;
+        if (isSmartPlaylistRuleGroup(rule)) {
+          check(rule, depth + 1);
+        } else if (!isValidRule(rule)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Invalid rule for ${SMART_PLAYLIST_FIELDS[rule.field].label}`,
+          });
+        }
+      }
+    };
+    check(definition.rules, 1);
+
+    if (ruleCount > MAX_SMART_PLAYLIST_RULES) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Smart playlists can have at most ${MAX_SMART_PLAYLIST_RULES} rules`,
+      });
+    }
+  });
+
+export const smartPlaylistsRouter = createTRPCRouter({
+  // Tracks the rules would currently pick, for the editor
+  previewSmartPlaylist: protectedProcedure
+    .input(z.object({ rules: SmartPlaylistDefinitionSchema }))
+    .query(async ({ ctx, input }) => {
+      const stats = await collectSmartTrackStats(ctx.db, ctx.session.user.id);
+      const tracks = evaluateSmartPlaylist(input.rules, stats);
+
+      return {
+        trackCount: tracks.length,
+        tracks: tracks.slice(0, PREVIEW_TRACKS),
+      };
+    }),
+
+  createSmartPlaylist: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().min(1).max(256),
+        description: z.string().optional(),
+        isPublic: z.boolean().default(false),
+        rules: SmartPlaylistDefinitionSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const [playlist] = await ctx.db
+        .insert(playlists)
+        .values({
+          userId: ctx.session.user.id,
+          name: input.name,
+          description: input.description,
+          isPublic: input.isPublic,
+          smartRules: input.rules,
+        })
+        .returning();
+
+      if (!playlist) {
+        throw new Error("Failed to create smart playlist");
+      }
+
+      await refreshSmartPlaylist(ctx.db, {
+        ...playlist,
+        smartRules: input.rules,
+      });
+
+      return playlist;
+    }),
+
+  updateSmartPlaylist: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        rules: SmartPlaylistDefinitionSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const [playlist] = await ctx.db
+        .update(playlists)
+        .set({ smartRules: input.rules, updatedAt: new Date() })
+        .where(
+          and(
+            eq(playlists.id, input.id),
+            eq(playlists.userId, ctx.session.user.id),
+            isNotNull(playlists.smartRules),
+          ),
+        )
+        .returning();
+
+      if (!playlist) {
+        throw new Error("Smart playlist not found");
+      }
+
+      const trackCount = await refreshSmartPlaylist(ctx.db, {
+        ...playlist,
+        smartRules: input.rules,
+      });
+
+      return { success: true, trackCount };
+    }),
+
+  // Re-evaluate the rules now, whatever the refresh schedule
+  refreshSmartPlaylist: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const playlist = await ctx.db.query.playlists.findFirst({
+        where: and(
+          eq(playlists.id, input.id),
+          eq(playlists.userId, ctx.session.user.id),
+        ),
+      });
+
+      if (!playlist?.smartRules) {
+        throw new Error("Smart playlist not found");
+      }
+
+      const trackCount = await refreshSmartPlaylist(ctx.db, {
+        ...playlist,
+        smartRules: playlist.smartRules,
+      });
+
+      return { success: true, trackCount };
+    }),
+});
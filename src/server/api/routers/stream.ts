@@ -0,0 +1,84 @@
+// File: src/server/api/routers/stream.ts
+
+import { AUDIO_QUALITIES } from "@/config/player";
+import { createTRPCRouter, publicProcedure } from "@/server/api/trpc";
+import { playerSessions } from "@/server/db/schema";
+import { getClientAddress } from "@/server/services/clientAddress";
+import {
+  consumeAnonymousAllowance,
+  createSignedStreamUrl,
+  isAnonymousStreamingAllowed,
+} from "@/server/services/streamAuth";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+
+export const streamRouter = createTRPCRouter({
+  // Short-lived signed /api/stream URL for a track, bound to the listener's
+  // player session (signed in) or device (anonymous)
+  getStreamUrl: publicProcedure
+    .input(
+      z.object({
+        trackId: z.number().int().positive(),
+        deviceId: z.string().min(1).max(64),
+        quality: z.enum(AUDIO_QUALITIES).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const trackId = input.trackId.toString();
+      const quality = input.quality ?? null;
+
+      if (!ctx.session?.user) {
+        if (!isAnonymousStreamingAllowed()) {
+          throw new Error("Sign in to stream tracks");
+        }
+        // Device ids are client-chosen, so the allowance follows the address
+        const clientKey = getClientAddress(ctx.headers) ?? input.deviceId;
+        if (!consumeAnonymousAllowance(clientKey, trackId)) {
+          throw new Error(
+            "Hourly streaming limit reached, sign in to continue",
+          );
+        }
+
+        return createSignedStreamUrl({
+          trackId,
+          quality,
+          userId: null,
+          sessionId: input.deviceId,
+        });
+      }
+
+      const userId = ctx.session.user.id;
+      const existing = await ctx.db.query.playerSessions.findFirst({
+        where: and(
+          eq(playerSessions.userId, userId),
+          eq(playerSessions.deviceId, input.deviceId),
+        ),
+      });
+
+      let sessionId: number;
+      if (existing) {
+        await ctx.db
+          .update(playerSessions)
+          .set({ lastActive: new Date(), isActive: true })
+          .where(eq(playerSessions.id, existing.id));
+        sessionId = existing.id;
+      } else {
+        const [created] = await ctx.db
+          .insert(playerSessions)
+          .values({
+            userId,
+            deviceId: input.deviceId,
+            userAgent: ctx.headers.get("user-agent"),
+          })
+          .returning({ id: playerSessions.id });
+        sessionId = created!.id;
+      }
+
+      return createSignedStreamUrl({
+        trackId,
+        quality,
+        userId,
+        sessionId: String(sessionId),
+      });
+    }),
+});
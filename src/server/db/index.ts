@@ -4,7 +4,7 @@ import { env } from "@/env";
 import { drizzle } from "drizzle-orm/node-postgres";
 import { existsSync, readFileSync } from "fs";
 import path from "path";
-import { Pool } from "pg";
+import { Client, Pool } from "pg";
 import * as schema from "./schema";
 
 // Ensure DATABASE_URL is set (required for main app, optional only for drizzle-kit)
@@ -120,6 +120,17 @@ if (typeof process !== "undefined") {
 export const db = drizzle(pool, { schema });
 export { pool }; // Export pool for monitoring
 
+/**
+ * Connection of its own, outside the pool, for sessions held open
+ * indefinitely such as LISTEN (see src/server/services/realtime.ts)
+ */
+export function createDedicatedClient(): Client {
+  return new Client({
+    connectionString: env.DATABASE_URL,
+    ...(sslConfig && { ssl: sslConfig }),
+  });
+}
+
 // Test database connection on startup
 if (process.env.NODE_ENV === "development") {
   pool
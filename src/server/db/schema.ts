@@ -1,7 +1,27 @@
 // File: src/server/db/schema.ts
 
 import { relations, sql } from "drizzle-orm";
-import { index, pgTableCreator, primaryKey, unique } from "drizzle-orm/pg-core";
+import {
+  index,
+  pgTableCreator,
+  primaryKey,
+  unique,
+  type AnyPgColumn,
+} from "drizzle-orm/pg-core";
+
+import type {
+  AudioEffectsSettings,
+  EqualizerBandLayout,
+  EqualizerCorrectionProfile,
+  JukeboxBannedArtist,
+  JukeboxQueueItem,
+  ListeningRoomPlayback,
+  ParametricEqBand,
+  QueueSnapshotState,
+  SmartPlaylistDefinition,
+  Track,
+  TrackCuePoint,
+} from "@/types";
 
 export const createTable = pgTableCreator((name) => `hexmusic-stream_${name}`);
 
@@ -115,6 +135,32 @@ export const favorites = createTable(
   ],
 );
 
+// Folders a user organises their playlists in; they nest through parentId
+export const playlistFolders = createTable(
+  "playlist_folder",
+  (d) => ({
+    id: d.integer().primaryKey().generatedByDefaultAsIdentity(),
+    userId: d
+      .varchar({ length: 255 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    parentId: d.integer().references((): AnyPgColumn => playlistFolders.id, {
+      onDelete: "cascade",
+    }),
+    name: d.varchar({ length: 256 }).notNull(),
+    isCollapsed: d.boolean().default(false).notNull(),
+    createdAt: d
+      .timestamp({ withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    updatedAt: d.timestamp({ withTimezone: true }).$onUpdate(() => new Date()),
+  }),
+  (t) => [
+    index("playlist_folder_user_idx").on(t.userId),
+    index("playlist_folder_parent_idx").on(t.parentId),
+  ],
+);
+
 export const playlists = createTable(
   "playlist",
   (d) => ({
@@ -127,6 +173,13 @@ export const playlists = createTable(
     description: d.text(),
     coverImage: d.varchar({ length: 512 }),
     isPublic: d.boolean().default(false).notNull(),
+    // Rules of a smart playlist, whose tracks are re-evaluated from them
+    smartRules: d.jsonb().$type<SmartPlaylistDefinition>(),
+    smartRefreshedAt: d.timestamp({ withTimezone: true }),
+    // Owner's folder; members keep their own in playlistMembers
+    folderId: d
+      .integer()
+      .references(() => playlistFolders.id, { onDelete: "set null" }),
     createdAt: d
       .timestamp({ withTimezone: true })
       .default(sql`CURRENT_TIMESTAMP`)
@@ -150,6 +203,9 @@ export const playlistTracks = createTable(
     trackId: d.bigint({ mode: "number" }).notNull(),
     trackData: d.jsonb().notNull(),
     position: d.integer().notNull(),
+    addedBy: d
+      .varchar({ length: 255 })
+      .references(() => users.id, { onDelete: "set null" }),
     addedAt: d
       .timestamp({ withTimezone: true })
       .default(sql`CURRENT_TIMESTAMP`)
@@ -162,6 +218,56 @@ export const playlistTracks = createTable(
   ],
 );
 
+// Users other than the owner who can see or edit a playlist
+export const playlistMembers = createTable(
+  "playlist_member",
+  (d) => ({
+    playlistId: d
+      .integer()
+      .notNull()
+      .references(() => playlists.id, { onDelete: "cascade" }),
+    userId: d
+      .varchar({ length: 255 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    role: d.varchar({ length: 20 }).notNull(), // PlaylistMemberRole
+    folderId: d
+      .integer()
+      .references(() => playlistFolders.id, { onDelete: "set null" }),
+    createdAt: d
+      .timestamp({ withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  }),
+  (t) => [
+    primaryKey({ columns: [t.playlistId, t.userId] }),
+    index("playlist_member_user_idx").on(t.userId),
+  ],
+);
+
+export const playlistInvites = createTable(
+  "playlist_invite",
+  (d) => ({
+    id: d.integer().primaryKey().generatedByDefaultAsIdentity(),
+    playlistId: d
+      .integer()
+      .notNull()
+      .references(() => playlists.id, { onDelete: "cascade" }),
+    code: d.varchar({ length: 16 }).notNull().unique(),
+    role: d.varchar({ length: 20 }).notNull(), // PlaylistMemberRole
+    createdBy: d
+      .varchar({ length: 255 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: d
+      .timestamp({ withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    expiresAt: d.timestamp({ withTimezone: true }).notNull(),
+  }),
+  (t) => [index("playlist_invite_playlist_idx").on(t.playlistId)],
+);
+
 export const listeningHistory = createTable(
   "listening_history",
   (d) => ({
@@ -220,6 +326,13 @@ export const userPreferences = createTable(
       .references(() => users.id, { onDelete: "cascade" }),
     volume: d.real().default(0.7).notNull(),
     playbackRate: d.real().default(1.0).notNull(),
+    crossfadeDuration: d.real().default(0).notNull(), // seconds, 0 = hard cut
+    gaplessPlayback: d.boolean().default(true).notNull(),
+    normalizeVolume: d.boolean().default(false).notNull(),
+    normalizationMode: d.varchar({ length: 10 }).default("track").notNull(), // 'track' | 'album'
+    normalizationTarget: d.real().default(-14).notNull(), // target integrated loudness in LUFS
+    defaultQuality: d.varchar({ length: 10 }).default("high").notNull(), // 'low' | 'normal' | 'high' | 'lossless'
+    downloadQuality: d.varchar({ length: 10 }).default("normal").notNull(), // quality of offline downloads
     repeatMode: d.varchar({ length: 20 }).default("none").notNull(), // 'none' | 'one' | 'all'
     shuffleEnabled: d.boolean().default(false).notNull(),
     equalizerEnabled: d.boolean().notNull().default(false),
@@ -228,6 +341,9 @@ export const userPreferences = createTable(
       .jsonb()
       .$type<number[]>()
       .default(sql`'[]'::jsonb`),
+    equalizerBandLayout: d.jsonb().$type<EqualizerBandLayout[] | null>(), // null = default 9-band layout
+    equalizerCorrection: d.jsonb().$type<EqualizerCorrectionProfile | null>(), // AutoEQ device correction, applied under the EQ
+    audioEffects: d.jsonb().$type<AudioEffectsSettings | null>(), // null = all effects off
     equalizerPanelOpen: d.boolean().default(false).notNull(),
     queuePanelOpen: d.boolean().default(false).notNull(),
     visualizerType: d.varchar({ length: 30 }).default("flowfield"),
@@ -259,6 +375,7 @@ export const userPreferences = createTable(
         currentTime: number;
         isShuffled: boolean;
         repeatMode: "none" | "one" | "all";
+        queueEdits?: { undo: unknown[]; redo: unknown[] }; // Undo/redo log
       } | null>()
       .default(sql`NULL`), // Queue state for logged-in users
     createdAt: d
@@ -270,6 +387,76 @@ export const userPreferences = createTable(
   (t) => [index("user_preferences_user_idx").on(t.userId)],
 );
 
+export const equalizerPresets = createTable(
+  "equalizer_preset",
+  (d) => ({
+    id: d.integer().primaryKey().generatedByDefaultAsIdentity(),
+    userId: d
+      .varchar({ length: 255 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: d.varchar({ length: 100 }).notNull(),
+    bands: d.jsonb().$type<ParametricEqBand[]>().notNull(),
+    createdAt: d
+      .timestamp({ withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    updatedAt: d.timestamp({ withTimezone: true }).$onUpdate(() => new Date()),
+  }),
+  (t) => [
+    index("equalizer_preset_user_idx").on(t.userId),
+    unique("equalizer_preset_user_name_unique").on(t.userId, t.name),
+  ],
+);
+
+export const trackMarkers = createTable(
+  "track_marker",
+  (d) => ({
+    id: d.integer().primaryKey().generatedByDefaultAsIdentity(),
+    userId: d
+      .varchar({ length: 255 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    trackId: d.bigint({ mode: "number" }).notNull(),
+    cuePoints: d.jsonb().$type<TrackCuePoint[]>().default([]).notNull(),
+    loopStart: d.real(), // seconds, null = no loop saved
+    loopEnd: d.real(),
+    loopEnabled: d.boolean().default(false).notNull(),
+    createdAt: d
+      .timestamp({ withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    updatedAt: d.timestamp({ withTimezone: true }).$onUpdate(() => new Date()),
+  }),
+  (t) => [
+    index("track_marker_user_idx").on(t.userId),
+    unique("track_marker_user_track_unique").on(t.userId, t.trackId),
+  ],
+);
+
+export const queueSnapshots = createTable(
+  "queue_snapshot",
+  (d) => ({
+    id: d.integer().primaryKey().generatedByDefaultAsIdentity(),
+    userId: d
+      .varchar({ length: 255 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: d.varchar({ length: 100 }).notNull(),
+    queueState: d.jsonb().$type<QueueSnapshotState>().notNull(),
+    trackCount: d.integer().default(0).notNull(),
+    createdAt: d
+      .timestamp({ withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    updatedAt: d.timestamp({ withTimezone: true }).$onUpdate(() => new Date()),
+  }),
+  (t) => [
+    index("queue_snapshot_user_idx").on(t.userId),
+    unique("queue_snapshot_user_name_unique").on(t.userId, t.name),
+  ],
+);
+
 export const playerSessions = createTable(
   "player_session",
   (d) => ({
@@ -329,6 +516,141 @@ export const playbackState = createTable(
   ],
 );
 
+export const listeningRooms = createTable(
+  "listening_room",
+  (d) => ({
+    id: d.integer().primaryKey().generatedByDefaultAsIdentity(),
+    code: d.varchar({ length: 16 }).notNull().unique(), // In the join link
+    name: d.varchar({ length: 100 }).notNull(),
+    hostId: d
+      .varchar({ length: 255 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    hostSessionId: d
+      .integer()
+      .references(() => playerSessions.id, { onDelete: "set null" }),
+    playback: d.jsonb().$type<ListeningRoomPlayback>(), // Host's last report
+    isActive: d.boolean().default(true).notNull(),
+    createdAt: d
+      .timestamp({ withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    endedAt: d.timestamp({ withTimezone: true }),
+  }),
+  (t) => [
+    index("listening_room_host_idx").on(t.hostId),
+    index("listening_room_active_idx").on(t.isActive),
+  ],
+);
+
+export const listeningRoomMessages = createTable(
+  "listening_room_message",
+  (d) => ({
+    id: d.integer().primaryKey().generatedByDefaultAsIdentity(),
+    roomId: d
+      .integer()
+      .notNull()
+      .references(() => listeningRooms.id, { onDelete: "cascade" }),
+    userId: d
+      .varchar({ length: 255 })
+      .references(() => users.id, { onDelete: "set null" }), // null for guests
+    authorName: d.varchar({ length: 255 }).notNull(),
+    // User, address or device id the message limit applies to
+    senderId: d.varchar({ length: 255 }),
+    kind: d.varchar({ length: 20 }).notNull(), // 'chat' | 'suggestion'
+    body: d.text().notNull(),
+    track: d.jsonb().$type<Track>(), // Suggested track
+    createdAt: d
+      .timestamp({ withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  }),
+  (t) => [
+    index("listening_room_message_room_idx").on(t.roomId, t.createdAt),
+    index("listening_room_message_sender_idx").on(
+      t.roomId,
+      t.senderId,
+      t.createdAt,
+    ),
+  ],
+);
+
+export const jukeboxes = createTable(
+  "jukebox",
+  (d) => ({
+    id: d.integer().primaryKey().generatedByDefaultAsIdentity(),
+    code: d.varchar({ length: 16 }).notNull().unique(), // In the share link
+    name: d.varchar({ length: 100 }).notNull(),
+    hostId: d
+      .varchar({ length: 255 })
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    requireApproval: d.boolean().default(true).notNull(),
+    nowPlaying: d.jsonb().$type<JukeboxQueueItem>(), // Published by the host
+    queue: d.jsonb().$type<JukeboxQueueItem[]>().default([]).notNull(),
+    bannedArtists: d
+      .jsonb()
+      .$type<JukeboxBannedArtist[]>()
+      .default([])
+      .notNull(),
+    isActive: d.boolean().default(true).notNull(),
+    createdAt: d
+      .timestamp({ withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    updatedAt: d.timestamp({ withTimezone: true }).$onUpdate(() => new Date()),
+    endedAt: d.timestamp({ withTimezone: true }),
+  }),
+  (t) => [
+    index("jukebox_host_idx").on(t.hostId),
+    index("jukebox_active_idx").on(t.isActive),
+  ],
+);
+
+export const jukeboxRequests = createTable(
+  "jukebox_request",
+  (d) => ({
+    id: d.integer().primaryKey().generatedByDefaultAsIdentity(),
+    jukeboxId: d
+      .integer()
+      .notNull()
+      .references(() => jukeboxes.id, { onDelete: "cascade" }),
+    track: d.jsonb().$type<Track>().notNull(),
+    artistId: d.integer().notNull(), // For artist bans
+    guestId: d.varchar({ length: 255 }).notNull(), // User, address or device id
+    guestName: d.varchar({ length: 255 }).notNull(),
+    status: d.varchar({ length: 20 }).default("pending").notNull(), // JukeboxRequestStatus
+    createdAt: d
+      .timestamp({ withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    decidedAt: d.timestamp({ withTimezone: true }),
+  }),
+  (t) => [
+    index("jukebox_request_status_idx").on(t.jukeboxId, t.status),
+    index("jukebox_request_guest_idx").on(t.jukeboxId, t.guestId, t.createdAt),
+  ],
+);
+
+export const jukeboxVotes = createTable(
+  "jukebox_vote",
+  (d) => ({
+    requestId: d
+      .integer()
+      .notNull()
+      .references(() => jukeboxRequests.id, { onDelete: "cascade" }),
+    guestId: d.varchar({ length: 255 }).notNull(),
+    createdAt: d
+      .timestamp({ withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  }),
+  (t) => [
+    primaryKey({ columns: [t.requestId, t.guestId] }),
+    index("jukebox_vote_guest_idx").on(t.guestId, t.createdAt),
+  ],
+);
+
 export const listeningAnalytics = createTable(
   "listening_analytics",
   (d) => ({
@@ -421,8 +743,9 @@ export const recommendationLogs = createTable(
   ],
 );
 
-// Audio features from Essentia analysis (future integration)
-// Feature flagged - only populated when ENABLE_AUDIO_FEATURES=true
+// Audio features from in-browser analysis or Essentia (future integration)
+// Feature flagged - populated when ENABLE_AUDIO_FEATURES or
+// ENABLE_BROWSER_AUDIO_ANALYSIS is true
 export const audioFeatures = createTable(
   "audio_features",
   (d) => ({
@@ -438,6 +761,8 @@ export const audioFeatures = createTable(
     liveness: d.real(), // 0-1 live performance probability
     speechiness: d.real(), // 0-1 spoken word content
     loudness: d.real(), // Loudness in dB
+    integratedLoudness: d.real(), // Integrated loudness in LUFS (BS.1770 estimate)
+    albumId: d.bigint({ mode: "number" }), // Deezer album ID, used for album-mode normalization
     spectralCentroid: d.real(), // Brightness of sound
     analyzedAt: d
       .timestamp({ withTimezone: true })
@@ -450,6 +775,7 @@ export const audioFeatures = createTable(
     index("audio_features_bpm_idx").on(t.bpm),
     index("audio_features_energy_idx").on(t.energy),
     index("audio_features_key_idx").on(t.key),
+    index("audio_features_album_idx").on(t.albumId),
   ],
 );
 
@@ -458,9 +784,31 @@ export const favoritesRelations = relations(favorites, ({ one }) => ({
   user: one(users, { fields: [favorites.userId], references: [users.id] }),
 }));
 
+export const playlistFoldersRelations = relations(
+  playlistFolders,
+  ({ one, many }) => ({
+    user: one(users, {
+      fields: [playlistFolders.userId],
+      references: [users.id],
+    }),
+    parent: one(playlistFolders, {
+      fields: [playlistFolders.parentId],
+      references: [playlistFolders.id],
+      relationName: "playlist_folder_parent",
+    }),
+    children: many(playlistFolders, { relationName: "playlist_folder_parent" }),
+  }),
+);
+
 export const playlistsRelations = relations(playlists, ({ one, many }) => ({
   user: one(users, { fields: [playlists.userId], references: [users.id] }),
+  folder: one(playlistFolders, {
+    fields: [playlists.folderId],
+    references: [playlistFolders.id],
+  }),
   tracks: many(playlistTracks),
+  members: many(playlistMembers),
+  invites: many(playlistInvites),
 }));
 
 export const playlistTracksRelations = relations(playlistTracks, ({ one }) => ({
@@ -468,8 +816,36 @@ export const playlistTracksRelations = relations(playlistTracks, ({ one }) => ({
     fields: [playlistTracks.playlistId],
     references: [playlists.id],
   }),
+  addedByUser: one(users, {
+    fields: [playlistTracks.addedBy],
+    references: [users.id],
+  }),
 }));
 
+export const playlistMembersRelations = relations(
+  playlistMembers,
+  ({ one }) => ({
+    playlist: one(playlists, {
+      fields: [playlistMembers.playlistId],
+      references: [playlists.id],
+    }),
+    user: one(users, {
+      fields: [playlistMembers.userId],
+      references: [users.id],
+    }),
+  }),
+);
+
+export const playlistInvitesRelations = relations(
+  playlistInvites,
+  ({ one }) => ({
+    playlist: one(playlists, {
+      fields: [playlistInvites.playlistId],
+      references: [playlists.id],
+    }),
+  }),
+);
+
 export const listeningHistoryRelations = relations(
   listeningHistory,
   ({ one }) => ({
@@ -497,6 +873,24 @@ export const userPreferencesRelations = relations(
   }),
 );
 
+export const equalizerPresetsRelations = relations(
+  equalizerPresets,
+  ({ one }) => ({
+    user: one(users, {
+      fields: [equalizerPresets.userId],
+      references: [users.id],
+    }),
+  }),
+);
+
+export const trackMarkersRelations = relations(trackMarkers, ({ one }) => ({
+  user: one(users, { fields: [trackMarkers.userId], references: [users.id] }),
+}));
+
+export const queueSnapshotsRelations = relations(queueSnapshots, ({ one }) => ({
+  user: one(users, { fields: [queueSnapshots.userId], references: [users.id] }),
+}));
+
 export const playerSessionsRelations = relations(
   playerSessions,
   ({ one, many }) => ({
@@ -520,6 +914,58 @@ export const playbackStateRelations = relations(playbackState, ({ one }) => ({
   }),
 }));
 
+export const listeningRoomsRelations = relations(
+  listeningRooms,
+  ({ one, many }) => ({
+    host: one(users, {
+      fields: [listeningRooms.hostId],
+      references: [users.id],
+    }),
+    hostSession: one(playerSessions, {
+      fields: [listeningRooms.hostSessionId],
+      references: [playerSessions.id],
+    }),
+    messages: many(listeningRoomMessages),
+  }),
+);
+
+export const listeningRoomMessagesRelations = relations(
+  listeningRoomMessages,
+  ({ one }) => ({
+    room: one(listeningRooms, {
+      fields: [listeningRoomMessages.roomId],
+      references: [listeningRooms.id],
+    }),
+    user: one(users, {
+      fields: [listeningRoomMessages.userId],
+      references: [users.id],
+    }),
+  }),
+);
+
+export const jukeboxesRelations = relations(jukeboxes, ({ one, many }) => ({
+  host: one(users, { fields: [jukeboxes.hostId], references: [users.id] }),
+  requests: many(jukeboxRequests),
+}));
+
+export const jukeboxRequestsRelations = relations(
+  jukeboxRequests,
+  ({ one, many }) => ({
+    jukebox: one(jukeboxes, {
+      fields: [jukeboxRequests.jukeboxId],
+      references: [jukeboxes.id],
+    }),
+    votes: many(jukeboxVotes),
+  }),
+);
+
+export const jukeboxVotesRelations = relations(jukeboxVotes, ({ one }) => ({
+  request: one(jukeboxRequests, {
+    fields: [jukeboxVotes.requestId],
+    references: [jukeboxRequests.id],
+  }),
+}));
+
 export const listeningAnalyticsRelations = relations(
   listeningAnalytics,
   ({ one }) => ({
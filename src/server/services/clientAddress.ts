@@ -0,0 +1,24 @@
+// File: src/server/services/clientAddress.ts
+
+/**
+ * Client address for per-client limits on anonymous listeners and guests
+ *
+ * Forwarding headers are only trusted when they come from a known path:
+ * scripts/server.js records the address it resolved (see TRUSTED_PROXY_HOPS
+ * there) along with a token generated at startup, and Vercel replaces
+ * `x-real-ip` with the connecting client. Anywhere else (`next start`, the
+ * desktop app's standalone server) the address is unknown and callers fall
+ * back to their own identifiers.
+ */
+export function getClientAddress(headers: Headers): string | null {
+  const token = process.env.CLIENT_ADDRESS_TOKEN;
+  if (token && headers.get("x-client-address-token") === token) {
+    return headers.get("x-client-address");
+  }
+
+  if (process.env.VERCEL === "1") {
+    return headers.get("x-real-ip");
+  }
+
+  return null;
+}
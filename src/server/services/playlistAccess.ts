@@ -0,0 +1,43 @@
+// File: src/server/services/playlistAccess.ts
+
+import { and, eq } from "drizzle-orm";
+
+import type { db } from "@/server/db";
+import { playlistMembers, playlists } from "@/server/db/schema";
+import type { PlaylistRole } from "@/types";
+
+/**
+ * A playlist with the user's role in it, or null when the user is neither
+ * its owner nor a member
+ */
+export async function getPlaylistAccess(
+  database: typeof db,
+  playlistId: number,
+  userId: string,
+) {
+  const playlist = await database.query.playlists.findFirst({
+    where: eq(playlists.id, playlistId),
+  });
+  if (!playlist) return null;
+
+  if (playlist.userId === userId) {
+    return { playlist, role: "owner" as PlaylistRole };
+  }
+
+  const member = await database.query.playlistMembers.findFirst({
+    where: and(
+      eq(playlistMembers.playlistId, playlistId),
+      eq(playlistMembers.userId, userId),
+    ),
+  });
+  if (!member) return null;
+
+  return { playlist, role: member.role as PlaylistRole };
+}
+
+/**
+ * Whether a role can add, remove and reorder a playlist's tracks
+ */
+export function canEditPlaylistTracks(role: PlaylistRole) {
+  return role === "owner" || role === "editor";
+}
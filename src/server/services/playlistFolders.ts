@@ -0,0 +1,73 @@
+// File: src/server/services/playlistFolders.ts
+
+import { eq } from "drizzle-orm";
+
+import type { db } from "@/server/db";
+import { playlistFolders } from "@/server/db/schema";
+import type { PlaylistFolder } from "@/types";
+
+/**
+ * All of a user's playlist folders, by name
+ */
+export async function getPlaylistFolders(
+  database: typeof db,
+  userId: string,
+): Promise<PlaylistFolder[]> {
+  const folders = await database.query.playlistFolders.findMany({
+    where: eq(playlistFolders.userId, userId),
+    orderBy: [playlistFolders.name],
+  });
+
+  return folders.map((folder) => ({
+    id: folder.id,
+    name: folder.name,
+    parentId: folder.parentId,
+    isCollapsed: folder.isCollapsed,
+  }));
+}
+
+/**
+ * IDs of a folder and every folder nested in it, parents before children
+ */
+export function getFolderSubtree(folders: PlaylistFolder[], folderId: number) {
+  const ids = [folderId];
+  // Breadth first; the array grows while it's walked
+  for (const id of ids) {
+    for (const folder of folders) {
+      if (folder.parentId === id) ids.push(folder.id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Levels from the top down to a folder, 1 for a top-level folder
+ */
+export function getFolderDepth(folders: PlaylistFolder[], folderId: number) {
+  const byId = new Map(folders.map((folder) => [folder.id, folder]));
+  let depth = 0;
+  let current = byId.get(folderId);
+  // The bound guards against a cycle in corrupted data
+  while (current && depth <= folders.length) {
+    depth++;
+    current =
+      current.parentId === null ? undefined : byId.get(current.parentId);
+  }
+  return depth;
+}
+
+/**
+ * Levels a folder spans, counting itself and its deepest nested folder
+ */
+export function getFolderHeight(folders: PlaylistFolder[], folderId: number) {
+  const folderDepth = getFolderDepth(folders, folderId);
+  return (
+    Math.max(
+      ...getFolderSubtree(folders, folderId).map((id) =>
+        getFolderDepth(folders, id),
+      ),
+    ) -
+    folderDepth +
+    1
+  );
+}
@@ -0,0 +1,199 @@
+// File: src/server/services/realtime.ts
+
+import { createDedicatedClient, pool } from "@/server/db";
+import type { ListeningRoomEvent, RemoteEvent } from "@/types";
+import type { Client, Notification } from "pg";
+
+/**
+ * Realtime events between browsers connected to different server instances
+ *
+ * Events are published with Postgres NOTIFY, so they reach clients connected
+ * to any server instance sharing the database (the desktop app runs its own
+ * Next server). Each instance holds one LISTEN connection while it has
+ * subscribers and hands events to the event streams open on it. Events go to
+ * a topic: a user's devices (/api/remote) or a listening room (/api/rooms).
+ * NOTIFY payloads are limited to 8000 bytes: events stay small, and queues
+ * being handed off go through the playback_state table instead.
+ */
+
+// Postgres NOTIFY channel all topics share
+const CHANNEL = "hexmusic_realtime";
+// NOTIFY payloads must be shorter than this, in bytes
+const MAX_PAYLOAD_BYTES = 8000;
+
+type Listener = (event: unknown) => void;
+
+interface RealtimeNotification {
+  topic: string;
+  event: unknown;
+}
+
+const listeners = new Map<string, Set<Listener>>();
+let listenClient: Promise<Client> | null = null;
+
+function handleNotification(message: Notification) {
+  if (message.channel !== CHANNEL || !message.payload) return;
+  try {
+    const { topic, event } = JSON.parse(
+      message.payload,
+    ) as RealtimeNotification;
+    listeners.get(topic)?.forEach((listener) => listener(event));
+  } catch (error) {
+    console.error("[Realtime] Invalid notification payload:", error);
+  }
+}
+
+// The LISTEN connection is a dedicated one: it stays open for as long as
+// there are subscribers, and the pool is kept small on serverless hosts
+async function connectListener(onLost: () => void): Promise<Client> {
+  const client = createDedicatedClient();
+  client.on("notification", handleNotification);
+  client.on("error", (error) => {
+    console.error("[Realtime] Listen connection failed:", error);
+    void client.end().catch(() => undefined);
+    onLost();
+  });
+
+  try {
+    await client.connect();
+    await client.query(`LISTEN ${CHANNEL}`);
+  } catch (error) {
+    await client.end().catch(() => undefined);
+    throw error;
+  }
+  return client;
+}
+
+function ensureListening(): Promise<Client> {
+  if (listenClient) return listenClient;
+
+  const connecting: Promise<Client> = connectListener(() => {
+    // A connection that was already stopped or replaced is left alone
+    if (listenClient !== connecting) return;
+    listenClient = null;
+    // Reconnect if streams are still open
+    if (listeners.size > 0) void ensureListening();
+  }).catch((error: unknown) => {
+    if (listenClient === connecting) listenClient = null;
+    throw error;
+  });
+  listenClient = connecting;
+  return connecting;
+}
+
+async function stopListening() {
+  const pending = listenClient;
+  listenClient = null;
+  if (!pending) return;
+  try {
+    // Closing the connection ends the LISTEN with it
+    const client = await pending;
+    await client.end();
+  } catch (error) {
+    console.warn("[Realtime] Failed to stop listening:", error);
+  }
+}
+
+async function subscribe(
+  topic: string,
+  listener: Listener,
+): Promise<() => void> {
+  let topicListeners = listeners.get(topic);
+  if (!topicListeners) {
+    topicListeners = new Set();
+    listeners.set(topic, topicListeners);
+  }
+  topicListeners.add(listener);
+
+  try {
+    await ensureListening();
+  } catch (error) {
+    topicListeners.delete(listener);
+    throw error;
+  }
+
+  return () => {
+    const current = listeners.get(topic);
+    if (!current) return;
+    current.delete(listener);
+    if (current.size === 0) listeners.delete(topic);
+    if (listeners.size === 0) void stopListening();
+  };
+}
+
+function serialize(topic: string, event: unknown): string {
+  const payload: RealtimeNotification = { topic, event };
+  return JSON.stringify(payload);
+}
+
+function fits(topic: string, event: unknown): boolean {
+  return Buffer.byteLength(serialize(topic, event)) < MAX_PAYLOAD_BYTES;
+}
+
+async function publish(topic: string, event: unknown): Promise<void> {
+  await pool.query("SELECT pg_notify($1, $2)", [
+    CHANNEL,
+    serialize(topic, event),
+  ]);
+}
+
+/**
+ * Receive the events published for a user's devices. Returns the function
+ * that stops receiving them.
+ */
+export function subscribeRemoteEvents(
+  userId: string,
+  listener: (event: RemoteEvent) => void,
+): Promise<() => void> {
+  return subscribe(`user:${userId}`, listener as Listener);
+}
+
+/**
+ * Send an event to all of a user's connected devices, on every instance
+ */
+export function publishRemoteEvent(
+  userId: string,
+  event: RemoteEvent,
+): Promise<void> {
+  return publish(`user:${userId}`, event);
+}
+
+/**
+ * Whether an event is small enough to be published to a user's devices
+ */
+export function fitsRemoteEvent(userId: string, event: RemoteEvent): boolean {
+  return fits(`user:${userId}`, event);
+}
+
+/**
+ * Receive the events of a listening room. Returns the function that stops
+ * receiving them.
+ */
+export function subscribeRoomEvents(
+  roomId: number,
+  listener: (event: ListeningRoomEvent) => void,
+): Promise<() => void> {
+  return subscribe(`room:${roomId}`, listener as Listener);
+}
+
+/**
+ * Send an event to everyone in a listening room, on every instance
+ */
+export function publishRoomEvent(
+  roomId: number,
+  event: ListeningRoomEvent,
+): Promise<void> {
+  return publish(`room:${roomId}`, event);
+}
+
+/**
+ * Whether an event is small enough to be published to a listening room.
+ * Check before storing what the event describes, since publishing fails once
+ * the payload is too large.
+ */
+export function fitsRoomEvent(
+  roomId: number,
+  event: ListeningRoomEvent,
+): boolean {
+  return fits(`room:${roomId}`, event);
+}
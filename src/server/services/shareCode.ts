@@ -0,0 +1,16 @@
+// File: src/server/services/shareCode.ts
+
+import { randomBytes } from "crypto";
+
+// No 0/O or 1/I/l, so codes read back correctly
+const CODE_ALPHABET = "23456789abcdefghjkmnpqrstuvwxyz";
+
+/**
+ * Random code for a share link, e.g. a listening room's or a jukebox's
+ */
+export function generateShareCode(length: number): string {
+  return Array.from(
+    randomBytes(length),
+    (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length],
+  ).join("");
+}
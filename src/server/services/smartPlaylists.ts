@@ -0,0 +1,440 @@
+// File: src/server/services/smartPlaylists.ts
+
+import { and, eq, inArray, isNotNull, isNull, lte, or, sql } from "drizzle-orm";
+
+import {
+  MAX_SMART_PLAYLIST_TRACKS,
+  SMART_PLAYLIST_FIELDS,
+} from "@/config/smartPlaylists";
+import type { db } from "@/server/db";
+import {
+  audioFeatures,
+  favorites,
+  listeningAnalytics,
+  listeningHistory,
+  playlistTracks,
+  playlists,
+} from "@/server/db/schema";
+import {
+  isSmartPlaylistRuleGroup,
+  type SmartPlaylistDefinition,
+  type SmartPlaylistField,
+  type SmartPlaylistRule,
+  type SmartPlaylistRuleGroup,
+  type SmartPlaylistSortField,
+  type Track,
+} from "@/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Keeps `IN (...)` lists well under Postgres' parameter limit
+const AUDIO_FEATURES_BATCH = 1000;
+
+/**
+ * What rules can know about a track the user has listened to or favorited
+ */
+export interface SmartTrackStats {
+  track: Track;
+  playCount: number;
+  skipRate: number; // Percentage of plays skipped
+  lastPlayed: Date | null;
+  addedAt: Date | null;
+  favorite: boolean;
+  bpm: number | null;
+  energy: number | null;
+  key: string | null;
+}
+
+type FieldValue = number | string | boolean | Date | null;
+
+function earliest(a: Date | null, b: Date | null) {
+  if (!a || !b) return a ?? b;
+  return a < b ? a : b;
+}
+
+function latest(a: Date | null, b: Date | null) {
+  if (!a || !b) return a ?? b;
+  return a > b ? a : b;
+}
+
+/**
+ * Gather play counts, skips, play dates, favorites and audio features for
+ * every track in the user's listening history or favorites
+ */
+export async function collectSmartTrackStats(
+  database: typeof db,
+  userId: string,
+): Promise<SmartTrackStats[]> {
+  const [analytics, history, favoriteRows] = await Promise.all([
+    database
+      .select({
+        trackId: listeningAnalytics.trackId,
+        trackData: sql<unknown>`(array_agg(${listeningAnalytics.trackData} ORDER BY ${listeningAnalytics.playedAt} DESC))[1]`,
+        playCount: sql<number>`COUNT(*)::int`,
+        skipCount: sql<number>`(COUNT(*) FILTER (WHERE ${listeningAnalytics.skipped} = true))::int`,
+        firstPlayed: sql<Date>`MIN(${listeningAnalytics.playedAt})`.mapWith(
+          listeningAnalytics.playedAt,
+        ),
+        lastPlayed: sql<Date>`MAX(${listeningAnalytics.playedAt})`.mapWith(
+          listeningAnalytics.playedAt,
+        ),
+      })
+      .from(listeningAnalytics)
+      .where(eq(listeningAnalytics.userId, userId))
+      .groupBy(listeningAnalytics.trackId),
+    database
+      .select({
+        trackId: listeningHistory.trackId,
+        trackData: sql<unknown>`(array_agg(${listeningHistory.trackData} ORDER BY ${listeningHistory.playedAt} DESC))[1]`,
+        firstPlayed: sql<Date>`MIN(${listeningHistory.playedAt})`.mapWith(
+          listeningHistory.playedAt,
+        ),
+        lastPlayed: sql<Date>`MAX(${listeningHistory.playedAt})`.mapWith(
+          listeningHistory.playedAt,
+        ),
+      })
+      .from(listeningHistory)
+      .where(eq(listeningHistory.userId, userId))
+      .groupBy(listeningHistory.trackId),
+    database.query.favorites.findMany({
+      where: eq(favorites.userId, userId),
+    }),
+  ]);
+
+  const stats = new Map<number, SmartTrackStats>();
+  const statsFor = (trackId: number, trackData: unknown) => {
+    let entry = stats.get(trackId);
+    if (!entry) {
+      entry = {
+        track: trackData as Track,
+        playCount: 0,
+        skipRate: 0,
+        lastPlayed: null,
+        addedAt: null,
+        favorite: false,
+        bpm: null,
+        energy: null,
+        key: null,
+      };
+      stats.set(trackId, entry);
+    }
+    return entry;
+  };
+
+  for (const row of analytics) {
+    const entry = statsFor(row.trackId, row.trackData);
+    entry.playCount = row.playCount;
+    entry.skipRate =
+      row.playCount > 0 ? (row.skipCount / row.playCount) * 100 : 0;
+    entry.lastPlayed = latest(entry.lastPlayed, row.lastPlayed);
+    entry.addedAt = earliest(entry.addedAt, row.firstPlayed);
+  }
+  for (const row of history) {
+    const entry = statsFor(row.trackId, row.trackData);
+    entry.lastPlayed = latest(entry.lastPlayed, row.lastPlayed);
+    entry.addedAt = earliest(entry.addedAt, row.firstPlayed);
+  }
+  for (const row of favoriteRows) {
+    const entry = statsFor(row.trackId, row.trackData);
+    entry.favorite = true;
+    entry.addedAt = earliest(entry.addedAt, row.createdAt);
+  }
+
+  const trackIds = [...stats.keys()];
+  for (let i = 0; i < trackIds.length; i += AUDIO_FEATURES_BATCH) {
+    const features = await database
+      .select({
+        trackId: audioFeatures.trackId,
+        bpm: audioFeatures.bpm,
+        energy: audioFeatures.energy,
+        key: audioFeatures.key,
+      })
+      .from(audioFeatures)
+      .where(
+        inArray(
+          audioFeatures.trackId,
+          trackIds.slice(i, i + AUDIO_FEATURES_BATCH),
+        ),
+      );
+
+    for (const row of features) {
+      const entry = stats.get(row.trackId);
+      if (!entry) continue;
+      entry.bpm = row.bpm;
+      entry.energy = row.energy;
+      entry.key = row.key;
+    }
+  }
+
+  return [...stats.values()];
+}
+
+function fieldValue(
+  stats: SmartTrackStats,
+  field: SmartPlaylistField | SmartPlaylistSortField,
+): FieldValue {
+  switch (field) {
+    case "playCount":
+    case "skipRate":
+    case "lastPlayed":
+    case "addedAt":
+    case "favorite":
+    case "bpm":
+    case "energy":
+    case "key":
+      return stats[field];
+    case "artist":
+      return stats.track.artist?.name ?? null;
+    case "title":
+      return stats.track.title ?? null;
+    case "explicit":
+      return stats.track.explicit_lyrics ?? false;
+    case "random":
+      return null;
+  }
+}
+
+function matchesNumber(value: FieldValue, rule: SmartPlaylistRule) {
+  if (typeof value !== "number") return rule.operator === "isNot";
+  const target = rule.value;
+
+  if (rule.operator === "between") {
+    if (!Array.isArray(target)) return false;
+    const [min, max] = target;
+    return value >= Math.min(min, max) && value <= Math.max(min, max);
+  }
+  if (typeof target !== "number") return false;
+
+  switch (rule.operator) {
+    case "is":
+      return value === target;
+    case "isNot":
+      return value !== target;
+    case "gt":
+      return value > target;
+    case "gte":
+      return value >= target;
+    case "lt":
+      return value < target;
+    case "lte":
+      return value <= target;
+    default:
+      return false;
+  }
+}
+
+function matchesDate(value: FieldValue, rule: SmartPlaylistRule, now: Date) {
+  const date = value instanceof Date ? value : null;
+
+  switch (rule.operator) {
+    case "inLast":
+    case "notInLast": {
+      if (typeof rule.value !== "number") return false;
+      const within =
+        !!date && now.getTime() - date.getTime() <= rule.value * DAY_MS;
+      return rule.operator === "inLast" ? within : !within;
+    }
+    case "before":
+    case "after": {
+      if (!date || typeof rule.value !== "string") return false;
+      const target = new Date(rule.value);
+      if (isNaN(target.getTime())) return false;
+      return rule.operator === "before" ? date < target : date >= target;
+    }
+    default:
+      return false;
+  }
+}
+
+function matchesText(value: FieldValue, rule: SmartPlaylistRule) {
+  const text = typeof value === "string" ? value.toLowerCase() : "";
+  const target = String(rule.value).toLowerCase();
+
+  switch (rule.operator) {
+    case "is":
+      return text === target;
+    case "isNot":
+      return text !== target;
+    case "contains":
+      return text.includes(target);
+    case "notContains":
+      return !text.includes(target);
+    default:
+      return false;
+  }
+}
+
+function matchesRule(
+  stats: SmartTrackStats,
+  rule: SmartPlaylistRule | SmartPlaylistRuleGroup,
+  now: Date,
+): boolean {
+  if (isSmartPlaylistRuleGroup(rule)) {
+    // An empty group doesn't narrow anything down
+    if (rule.rules.length === 0) return true;
+    return rule.match === "all"
+      ? rule.rules.every((r) => matchesRule(stats, r, now))
+      : rule.rules.some((r) => matchesRule(stats, r, now));
+  }
+
+  const value = fieldValue(stats, rule.field);
+  switch (SMART_PLAYLIST_FIELDS[rule.field].kind) {
+    case "number":
+      return matchesNumber(value, rule);
+    case "date":
+      return matchesDate(value, rule, now);
+    case "boolean":
+      return value === rule.value;
+    case "text":
+      return matchesText(value, rule);
+  }
+}
+
+function compareValues(a: FieldValue, b: FieldValue) {
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+function shuffle<T>(items: T[]) {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [items[i], items[j]] = [items[j]!, items[i]!];
+  }
+  return items;
+}
+
+/**
+ * Tracks matching a smart playlist's rules, in its order and up to its limit
+ */
+export function evaluateSmartPlaylist(
+  definition: SmartPlaylistDefinition,
+  stats: SmartTrackStats[],
+  now = new Date(),
+): Track[] {
+  const matching = stats.filter((s) => matchesRule(s, definition.rules, now));
+  const { field, direction } = definition.sort;
+
+  if (field === "random") {
+    shuffle(matching);
+  } else {
+    const sign = direction === "asc" ? 1 : -1;
+    matching.sort((a, b) => {
+      const valueA = fieldValue(a, field);
+      const valueB = fieldValue(b, field);
+      // Tracks missing the value go last either way
+      if (valueA === null || valueB === null) {
+        if (valueA !== valueB) return valueA === null ? 1 : -1;
+        return a.track.title.localeCompare(b.track.title);
+      }
+      return (
+        sign * compareValues(valueA, valueB) ||
+        a.track.title.localeCompare(b.track.title)
+      );
+    });
+  }
+
+  const limit = Math.min(
+    definition.limit ?? MAX_SMART_PLAYLIST_TRACKS,
+    MAX_SMART_PLAYLIST_TRACKS,
+  );
+  return matching.slice(0, limit).map((s) => s.track);
+}
+
+/**
+ * Re-evaluate a smart playlist and replace its tracks with the result
+ */
+export async function refreshSmartPlaylist(
+  database: typeof db,
+  playlist: { id: number; userId: string; smartRules: SmartPlaylistDefinition },
+  stats?: SmartTrackStats[],
+) {
+  const tracks = evaluateSmartPlaylist(
+    playlist.smartRules,
+    stats ?? (await collectSmartTrackStats(database, playlist.userId)),
+  );
+
+  await database.transaction(async (tx) => {
+    // Refreshes of the same playlist take turns, so one never inserts next
+    // to tracks another has just written
+    await tx
+      .select({ id: playlists.id })
+      .from(playlists)
+      .where(eq(playlists.id, playlist.id))
+      .for("update");
+    await tx
+      .delete(playlistTracks)
+      .where(eq(playlistTracks.playlistId, playlist.id));
+    if (tracks.length > 0) {
+      await tx.insert(playlistTracks).values(
+        tracks.map((track, position) => ({
+          playlistId: playlist.id,
+          trackId: track.id,
+          trackData: track as unknown as Record<string, unknown>,
+          position,
+        })),
+      );
+    }
+    await tx
+      .update(playlists)
+      .set({ smartRefreshedAt: new Date() })
+      .where(eq(playlists.id, playlist.id));
+  });
+
+  return tracks.length;
+}
+
+/**
+ * Refresh the user's smart playlists whose refresh schedule has come due.
+ * Started in the background when playlists are loaded, so schedules need no
+ * background job.
+ */
+export async function refreshDueSmartPlaylists(
+  database: typeof db,
+  userId: string,
+  playlistId?: number,
+) {
+  const smartPlaylists = await database.query.playlists.findMany({
+    where: and(
+      eq(playlists.userId, userId),
+      isNotNull(playlists.smartRules),
+      playlistId !== undefined ? eq(playlists.id, playlistId) : undefined,
+    ),
+  });
+
+  const now = Date.now();
+  const due: (typeof smartPlaylists)[number][] = [];
+  for (const playlist of smartPlaylists) {
+    const hours = playlist.smartRules?.refreshIntervalHours;
+    if (!hours) continue;
+
+    // Claim the refresh, so loads arriving together don't all run it
+    const [claimed] = await database
+      .update(playlists)
+      .set({ smartRefreshedAt: new Date(now) })
+      .where(
+        and(
+          eq(playlists.id, playlist.id),
+          or(
+            isNull(playlists.smartRefreshedAt),
+            lte(playlists.smartRefreshedAt, new Date(now - hours * HOUR_MS)),
+          ),
+        ),
+      )
+      .returning({ id: playlists.id });
+    if (claimed) due.push(playlist);
+  }
+  if (due.length === 0) return;
+
+  // All of the user's smart playlists draw on the same stats
+  const stats = await collectSmartTrackStats(database, userId);
+  for (const playlist of due) {
+    if (!playlist.smartRules) continue;
+    await refreshSmartPlaylist(
+      database,
+      { ...playlist, smartRules: playlist.smartRules },
+      stats,
+    );
+  }
+}
@@ -0,0 +1,219 @@
+// File: src/server/services/streamAuth.ts
+
+import { env } from "@/env";
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Signed, expiring /api/stream URLs
+ *
+ * The stream URL for a track is issued by the `stream.getStreamUrl` procedure
+ * and signed with an HMAC over the track, quality, expiry and the listener:
+ * the user and their player session when signed in, the device otherwise.
+ * The stream route only proxies requests carrying a valid, unexpired
+ * signature, and caps how many tracks each listener streams at once.
+ */
+
+const DEFAULT_TTL_SECONDS = 900;
+const DEFAULT_MAX_CONCURRENT = 3;
+const DEFAULT_ANONYMOUS_TRACKS_PER_HOUR = 20;
+const ANONYMOUS_WINDOW_MS = 60 * 60_000;
+
+export interface StreamGrant {
+  trackId: string;
+  quality: string | null;
+  // Signed-in listener; null for anonymous devices
+  userId: string | null;
+  // Player session id when signed in, device id otherwise
+  sessionId: string;
+  // Unix time in seconds
+  expires: number;
+}
+
+const secret = env.STREAM_URL_SECRET;
+const ttlSeconds = Number(env.STREAM_URL_TTL_SECONDS ?? DEFAULT_TTL_SECONDS);
+const maxConcurrent = Number(
+  env.STREAM_MAX_CONCURRENT ?? DEFAULT_MAX_CONCURRENT,
+);
+const anonymousTracksPerHour = Number(
+  env.STREAM_ANONYMOUS_TRACKS_PER_HOUR ?? DEFAULT_ANONYMOUS_TRACKS_PER_HOUR,
+);
+
+// Tracks being streamed per listener, with the number of open requests each
+// (the player issues several overlapping range requests for one track)
+const activeStreams = new Map<string, Map<string, number>>();
+// Tracks started by anonymous clients within the last hour
+const anonymousStarts = new Map<string, Map<string, number>>();
+
+function sign(grant: StreamGrant): string {
+  return createHmac("sha256", secret)
+    .update(
+      [
+        grant.trackId,
+        grant.quality ?? "",
+        grant.expires,
+        grant.userId ?? "",
+        grant.sessionId,
+      ].join("\n"),
+    )
+    .digest("base64url");
+}
+
+// Concurrency is limited per user across devices, per device when anonymous
+const listenerKey = (grant: StreamGrant) =>
+  grant.userId ? `user:${grant.userId}` : `device:${grant.sessionId}`;
+
+/**
+ * Build a signed stream URL (path and query) valid for the configured TTL
+ */
+export function createSignedStreamUrl(grant: Omit<StreamGrant, "expires">): {
+  url: string;
+  expiresAt: number;
+} {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const params = new URLSearchParams({ id: grant.trackId });
+  if (grant.quality) params.set("quality", grant.quality);
+  params.set("exp", String(expires));
+  if (grant.userId) params.set("uid", grant.userId);
+  params.set("sid", grant.sessionId);
+  params.set("sig", sign({ ...grant, expires }));
+
+  return { url: `/api/stream?${params.toString()}`, expiresAt: expires * 1000 };
+}
+
+/**
+ * Check a stream request's signature and expiry. Returns the grant it
+ * carries, or an error message.
+ */
+export function verifyStreamRequest(
+  params: URLSearchParams,
+): { grant: StreamGrant } | { error: string } {
+  const trackId = params.get("id");
+  const expires = Number(params.get("exp"));
+  const sessionId = params.get("sid");
+  const signature = params.get("sig");
+  if (!trackId || !sessionId || !signature || !Number.isInteger(expires)) {
+    return { error: "Missing stream signature" };
+  }
+
+  const grant: StreamGrant = {
+    trackId,
+    quality: params.get("quality"),
+    userId: params.get("uid"),
+    sessionId,
+    expires,
+  };
+
+  const expected = Buffer.from(sign(grant));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { error: "Invalid stream signature" };
+  }
+  if (expires * 1000 < Date.now()) {
+    return { error: "Stream URL expired" };
+  }
+
+  return { grant };
+}
+
+/**
+ * Reserve a stream slot for the grant's listener. Returns the function that
+ * frees it, or null when the listener already streams too many tracks.
+ * Further requests for a track that is already streaming always succeed.
+ */
+export function acquireStreamSlot(grant: StreamGrant): (() => void) | null {
+  const key = listenerKey(grant);
+  const tracks = activeStreams.get(key) ?? new Map<string, number>();
+  const open = tracks.get(grant.trackId) ?? 0;
+  if (!open && maxConcurrent > 0 && tracks.size >= maxConcurrent) {
+    return null;
+  }
+
+  tracks.set(grant.trackId, open + 1);
+  activeStreams.set(key, tracks);
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+
+    const remaining = (tracks.get(grant.trackId) ?? 1) - 1;
+    if (remaining > 0) {
+      tracks.set(grant.trackId, remaining);
+    } else {
+      tracks.delete(grant.trackId);
+      if (!tracks.size) activeStreams.delete(key);
+    }
+  };
+}
+
+/**
+ * Pass a response body through, calling `release` once it has been fully
+ * read, fails or is cancelled by the client
+ */
+export function releaseWhenDone(
+  body: ReadableStream<Uint8Array> | null,
+  release: () => void,
+): ReadableStream<Uint8Array> | null {
+  if (!body) {
+    release();
+    return null;
+  }
+
+  const reader = body.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Count a track towards an anonymous client's hourly allowance. Returns false
+ * once the allowance is used up; a track already counted is always allowed.
+ */
+export function consumeAnonymousAllowance(
+  clientKey: string,
+  trackId: string,
+): boolean {
+  if (anonymousTracksPerHour <= 0) return false;
+
+  const now = Date.now();
+  const started = anonymousStarts.get(clientKey) ?? new Map<string, number>();
+  for (const [id, time] of started) {
+    if (now - time > ANONYMOUS_WINDOW_MS) started.delete(id);
+  }
+
+  if (!started.has(trackId)) {
+    if (started.size >= anonymousTracksPerHour) return false;
+    started.set(trackId, now);
+  }
+  anonymousStarts.set(clientKey, started);
+
+  // Forget clients whose allowance has fully reset
+  for (const [key, tracks] of anonymousStarts) {
+    if (key === clientKey) continue;
+    const latest = Math.max(...tracks.values());
+    if (now - latest > ANONYMOUS_WINDOW_MS) anonymousStarts.delete(key);
+  }
+
+  return true;
+}
+
+export function isAnonymousStreamingAllowed(): boolean {
+  return anonymousTracksPerHour > 0;
+}
@@ -0,0 +1,403 @@
+// File: src/server/services/streamCache.ts
+
+import { env } from "@/env";
+import { createReadStream, createWriteStream } from "fs";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  utimes,
+  writeFile,
+} from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+
+/**
+ * On-disk LRU cache for /api/stream
+ *
+ * Complete tracks are stored as `<key>.audio` with a `<key>.json` sidecar
+ * (content type). Downloads land in `<key>.part` first and are renamed once
+ * complete, so a half-written file is never served. The file's mtime is its
+ * last access, which keeps the LRU order across restarts.
+ */
+
+const DEFAULT_MAX_MB = 2048;
+const DEFAULT_MAX_FILE_MB = 100;
+// Background fills download whole tracks; give slow backends time
+const FILL_TIMEOUT_MS = 5 * 60_000;
+
+const MB = 1024 * 1024;
+
+interface CacheEntry {
+  size: number;
+  contentType: string;
+}
+
+interface CacheSidecar {
+  contentType: string;
+}
+
+export interface StreamCacheStats {
+  enabled: boolean;
+  entries: number;
+  sizeBytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  bytesServed: number;
+  fills: number;
+  fillFailures: number;
+  evictions: number;
+  evictedBytes: number;
+}
+
+export interface CachedStream {
+  status: 200 | 206 | 416;
+  headers: Record<string, string>;
+  body: ReadableStream<Uint8Array> | null;
+}
+
+const cacheDir =
+  env.STREAM_CACHE_DIR ?? path.join(process.cwd(), ".cache", "streams");
+const maxBytes = Number(env.STREAM_CACHE_MAX_MB ?? DEFAULT_MAX_MB) * MB;
+const maxFileBytes =
+  Number(env.STREAM_CACHE_MAX_FILE_MB ?? DEFAULT_MAX_FILE_MB) * MB;
+
+// Map order is the LRU order: least recently used first
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Set<string>();
+let totalBytes = 0;
+let initPromise: Promise<void> | null = null;
+
+const stats = {
+  hits: 0,
+  misses: 0,
+  bytesServed: 0,
+  fills: 0,
+  fillFailures: 0,
+  evictions: 0,
+  evictedBytes: 0,
+};
+
+const audioPath = (key: string) => path.join(cacheDir, `${key}.audio`);
+const sidecarPath = (key: string) => path.join(cacheDir, `${key}.json`);
+const partPath = (key: string) => path.join(cacheDir, `${key}.part`);
+
+export function isStreamCacheEnabled(): boolean {
+  return maxBytes > 0;
+}
+
+/**
+ * Cache key for a track stream; each quality is cached separately
+ */
+export function getStreamCacheKey(
+  trackId: string,
+  quality: string | null,
+): string {
+  return `${trackId}-${quality ?? "default"}`;
+}
+
+// Load the index from disk once; leftovers of interrupted fills are removed
+function ensureInitialized(): Promise<void> {
+  initPromise ??= (async () => {
+    await mkdir(cacheDir, { recursive: true });
+    const files = await readdir(cacheDir);
+    const found: { key: string; entry: CacheEntry; lastAccess: number }[] = [];
+
+    for (const file of files) {
+      if (file.endsWith(".part")) {
+        await rm(path.join(cacheDir, file), { force: true });
+        continue;
+      }
+      if (!file.endsWith(".audio")) continue;
+
+      const key = file.slice(0, -".audio".length);
+      try {
+        const [info, sidecar] = await Promise.all([
+          stat(audioPath(key)),
+          readFile(sidecarPath(key), "utf8"),
+        ]);
+        const { contentType } = JSON.parse(sidecar) as CacheSidecar;
+        found.push({
+          key,
+          entry: { size: info.size, contentType },
+          lastAccess: info.mtimeMs,
+        });
+      } catch {
+        await removeFiles(key);
+      }
+    }
+
+    found.sort((a, b) => a.lastAccess - b.lastAccess);
+    for (const { key, entry } of found) {
+      entries.set(key, entry);
+      totalBytes += entry.size;
+    }
+    await evict();
+    console.log(
+      `[Stream Cache] Loaded ${entries.size} tracks (${Math.round(totalBytes / MB)} MB) from ${cacheDir}`,
+    );
+  })().catch((error) => {
+    console.error("[Stream Cache] Failed to initialize:", error);
+    initPromise = null;
+    throw error;
+  });
+
+  return initPromise;
+}
+
+async function removeFiles(key: string): Promise<void> {
+  await Promise.all([
+    rm(audioPath(key), { force: true }),
+    rm(sidecarPath(key), { force: true }),
+  ]);
+}
+
+// Drop least recently used tracks until the cache fits its size limit
+async function evict(): Promise<void> {
+  for (const [key, entry] of entries) {
+    if (totalBytes <= maxBytes) break;
+
+    entries.delete(key);
+    totalBytes -= entry.size;
+    stats.evictions++;
+    stats.evictedBytes += entry.size;
+    // Readers that already opened the file keep reading it after unlink
+    await removeFiles(key);
+    console.log(`[Stream Cache] Evicted ${key} (${entry.size} bytes)`);
+  }
+}
+
+/**
+ * Parse a single-range `Range` header against the file size. Returns null
+ * for no (or an unsupported) range, "unsatisfiable" when out of bounds.
+ */
+function parseRange(
+  header: string | null,
+  size: number,
+): { start: number; end: number } | "unsatisfiable" | null {
+  const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null;
+  if (!match) return null;
+
+  const [, startText = "", endText = ""] = match;
+  if (!startText && !endText) return null;
+
+  let start: number;
+  let end: number;
+  if (!startText) {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - Number(endText));
+    end = size - 1;
+  } else {
+    start = Number(startText);
+    end = endText ? Math.min(Number(endText), size - 1) : size - 1;
+  }
+
+  if (start >= size || start > end) return "unsatisfiable";
+  return { start, end };
+}
+
+/**
+ * Serve a cached track, honouring the request's byte range. Returns null on
+ * a cache miss.
+ */
+export async function readCachedStream(
+  key: string,
+  rangeHeader: string | null,
+): Promise<CachedStream | null> {
+  if (!isStreamCacheEnabled()) return null;
+  await ensureInitialized();
+
+  const entry = entries.get(key);
+  if (!entry) {
+    stats.misses++;
+    return null;
+  }
+
+  // Mark as most recently used, in memory and on disk
+  entries.delete(key);
+  entries.set(key, entry);
+  const now = new Date();
+  void utimes(audioPath(key), now, now).catch(() => undefined);
+
+  const headers: Record<string, string> = {
+    "Content-Type": entry.contentType,
+    "Accept-Ranges": "bytes",
+    "Cache-Control": "public, max-age=3600",
+    "X-Stream-Cache": "hit",
+  };
+
+  const range = parseRange(rangeHeader, entry.size);
+  if (range === "unsatisfiable") {
+    return {
+      status: 416,
+      headers: { ...headers, "Content-Range": `bytes */${entry.size}` },
+      body: null,
+    };
+  }
+
+  const start = range?.start ?? 0;
+  const end = range?.end ?? entry.size - 1;
+  let file: Readable;
+  try {
+    file = createReadStream(audioPath(key), { start, end });
+    await new Promise<void>((resolve, reject) => {
+      file.once("open", () => resolve());
+      file.once("error", reject);
+    });
+  } catch (error) {
+    // The file disappeared underneath us: forget it and fall back to the backend
+    console.warn(`[Stream Cache] Failed to open ${key}:`, error);
+    entries.delete(key);
+    totalBytes -= entry.size;
+    stats.misses++;
+    return null;
+  }
+
+  stats.hits++;
+  stats.bytesServed += end - start + 1;
+  headers["Content-Length"] = String(end - start + 1);
+  if (range) {
+    headers["Content-Range"] = `bytes ${start}-${end}/${entry.size}`;
+  }
+
+  return {
+    status: range ? 206 : 200,
+    headers,
+    body: Readable.toWeb(file) as ReadableStream<Uint8Array>,
+  };
+}
+
+// Write a complete download into the cache; partial downloads are discarded
+async function storeStream(
+  key: string,
+  body: ReadableStream<Uint8Array>,
+  contentType: string,
+  expectedSize: number | null,
+): Promise<void> {
+  const part = partPath(key);
+  let written = 0;
+
+  try {
+    await ensureInitialized();
+    const source = Readable.fromWeb(body as NodeReadableStream<Uint8Array>);
+    source.on("data", (chunk: Buffer) => {
+      written += chunk.length;
+      if (written > maxFileBytes) {
+        source.destroy(new Error("Stream exceeds the cache file size limit"));
+      }
+    });
+    await pipeline(source, createWriteStream(part));
+
+    if (!written) throw new Error("Empty stream");
+    if (expectedSize !== null && written !== expectedSize) {
+      throw new Error(`Incomplete download (${written}/${expectedSize} bytes)`);
+    }
+
+    await writeFile(
+      sidecarPath(key),
+      JSON.stringify({ contentType } satisfies CacheSidecar),
+    );
+    await rename(part, audioPath(key));
+
+    const previous = entries.get(key);
+    if (previous) totalBytes -= previous.size;
+    entries.delete(key);
+    entries.set(key, { size: written, contentType });
+    totalBytes += written;
+    stats.fills++;
+    console.log(`[Stream Cache] Cached ${key} (${written} bytes)`);
+
+    await evict();
+  } catch (error) {
+    stats.fillFailures++;
+    // An unread tee branch would buffer the whole track in memory
+    if (!body.locked) await body.cancel().catch(() => undefined);
+    await rm(part, { force: true });
+    console.warn(`[Stream Cache] Not caching ${key}:`, error);
+  } finally {
+    inFlight.delete(key);
+  }
+}
+
+/**
+ * Split a full-length backend body: one branch goes to the client, the other
+ * fills the cache. The fill keeps reading if the client disconnects, so
+ * skipping a track after a few seconds still caches it.
+ */
+export function teeIntoCache(
+  key: string,
+  body: ReadableStream<Uint8Array>,
+  contentType: string,
+  contentLength: number | null,
+): ReadableStream<Uint8Array> {
+  if (
+    !isStreamCacheEnabled() ||
+    inFlight.has(key) ||
+    (contentLength !== null && contentLength > maxFileBytes)
+  ) {
+    return body;
+  }
+
+  inFlight.add(key);
+  const [clientBranch, cacheBranch] = body.tee();
+  void storeStream(key, cacheBranch, contentType, contentLength);
+  return clientBranch;
+}
+
+/**
+ * Download a whole track into the cache in the background, e.g. when the
+ * first request for it was a seek
+ */
+export function prefetchIntoCache(key: string, url: string): void {
+  if (!isStreamCacheEnabled() || inFlight.has(key) || entries.has(key)) {
+    return;
+  }
+  inFlight.add(key);
+
+  void (async () => {
+    try {
+      const response = await fetch(url, {
+        signal: AbortSignal.timeout(FILL_TIMEOUT_MS),
+      });
+      if (response.status !== 200 || !response.body) {
+        throw new Error(`Backend responded ${response.status}`);
+      }
+
+      const contentLength = response.headers.get("content-length");
+      if (contentLength && Number(contentLength) > maxFileBytes) {
+        await response.body.cancel();
+        throw new Error("Stream exceeds the cache file size limit");
+      }
+
+      await storeStream(
+        key,
+        response.body,
+        response.headers.get("content-type") ?? "audio/mpeg",
+        contentLength ? Number(contentLength) : null,
+      );
+    } catch (error) {
+      stats.fillFailures++;
+      inFlight.delete(key);
+      console.warn(`[Stream Cache] Prefetch of ${key} failed:`, error);
+    }
+  })();
+}
+
+/**
+ * Cache size, hit rate and eviction counters (reported by /api/health)
+ */
+export function getStreamCacheStats(): StreamCacheStats {
+  return {
+    enabled: isStreamCacheEnabled(),
+    entries: entries.size,
+    sizeBytes: totalBytes,
+    maxBytes,
+    ...stats,
+  };
+}
@@ -0,0 +1,423 @@
+// File: src/services/offline.ts
+
+/**
+ * Offline downloads storage
+ *
+ * The service worker (public/sw.js) downloads track audio through
+ * /api/stream into Cache Storage and serves it back at
+ * /offline/audio/<trackId>. Track metadata and the collections marked for
+ * offline use are kept in IndexedDB, so the library can be browsed without
+ * a connection.
+ */
+
+import { STORAGE_CONSTANTS } from "@/config/constants";
+import {
+  OFFLINE_AUDIO_CACHE,
+  OFFLINE_AUDIO_PATH,
+  OFFLINE_DB_NAME,
+  OFFLINE_DB_VERSION,
+  OFFLINE_PAGE_CACHE,
+  OFFLINE_WORKER_READY_TIMEOUT_MS,
+} from "@/config/offline";
+import { STORAGE_KEYS } from "@/config/storage";
+import { localStorage } from "@/services/storage";
+import type {
+  AudioQuality,
+  OfflineCollection,
+  OfflineCollectionKind,
+  OfflineTrack,
+  Track,
+} from "@/types";
+import { logger } from "@/utils/logger";
+
+const TRACKS_STORE = "tracks";
+const COLLECTIONS_STORE = "collections";
+
+type StoreName = typeof TRACKS_STORE | typeof COLLECTIONS_STORE;
+
+interface WorkerDownloadReply {
+  ok: boolean;
+  size?: number;
+  error?: string;
+}
+
+export interface OfflineStorageEstimate {
+  downloadedBytes: number; // Audio stored by offline downloads
+  usage: number | null; // Everything the origin stores
+  quota: number | null;
+}
+
+/**
+ * Key of a collection's record: one per playlist or album, one for favorites
+ */
+export function getOfflineCollectionKey(
+  kind: OfflineCollectionKind,
+  id: number | null,
+): string {
+  return kind === "favorites" ? "favorites" : `${kind}:${id}`;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// Settles with the worker's registration, or null when registering failed
+let registrationPromise: Promise<ServiceWorkerRegistration | null> | null =
+  null;
+// Ids of tracks whose audio is stored, loaded on first use
+let downloadedIds: Set<number> | null = null;
+const listeners = new Set<() => void>();
+
+export function isOfflineSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    "serviceWorker" in navigator &&
+    "caches" in window &&
+    "indexedDB" in window
+  );
+}
+
+export async function registerOfflineWorker(): Promise<void> {
+  if (!isOfflineSupported()) return;
+  registrationPromise ??= navigator.serviceWorker
+    .register("/sw.js")
+    .catch((error: unknown) => {
+      logger.warn("[offline] Service worker registration failed:", error);
+      return null;
+    });
+  await registrationPromise;
+}
+
+/**
+ * The active service worker, registering it first if needed. Throws when
+ * registration failed or the worker doesn't activate in time, rather than
+ * waiting on `navigator.serviceWorker.ready` forever.
+ */
+async function getActiveWorker(): Promise<ServiceWorker> {
+  if (!isOfflineSupported()) {
+    throw new Error("Offline downloads are not supported in this browser");
+  }
+  await registerOfflineWorker();
+  const registration = await registrationPromise;
+  if (!registration) {
+    throw new Error("Service worker is not available");
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error("Service worker did not activate")),
+      OFFLINE_WORKER_READY_TIMEOUT_MS,
+    );
+  });
+  try {
+    const ready = await Promise.race([navigator.serviceWorker.ready, timeout]);
+    if (!ready.active) throw new Error("Service worker is not active");
+    return ready.active;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Be notified whenever downloads or collections change
+ */
+export function subscribeOffline(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(TRACKS_STORE)) {
+        db.createObjectStore(TRACKS_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(COLLECTIONS_STORE)) {
+        db.createObjectStore(COLLECTIONS_STORE, { keyPath: "key" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error ?? new Error("Failed to open offline database"));
+    };
+  });
+  return dbPromise;
+}
+
+// Run a single request in its own transaction
+async function run<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(
+      db.transaction(storeName, mode).objectStore(storeName),
+    );
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () =>
+      reject(request.error ?? new Error("Offline database request failed"));
+  });
+}
+
+const audioCacheKey = (trackId: number) =>
+  new URL(`${OFFLINE_AUDIO_PATH}${trackId}`, window.location.origin).toString();
+
+// ============================================
+// Collections
+// ============================================
+
+export async function getOfflineCollections(): Promise<OfflineCollection[]> {
+  const collections = await run<OfflineCollection[]>(
+    COLLECTIONS_STORE,
+    "readonly",
+    (store) => store.getAll() as IDBRequest<OfflineCollection[]>,
+  );
+  return collections.sort((a, b) => b.savedAt - a.savedAt);
+}
+
+export async function getOfflineCollection(
+  key: string,
+): Promise<OfflineCollection | null> {
+  const collection = await run<OfflineCollection | undefined>(
+    COLLECTIONS_STORE,
+    "readonly",
+    (store) => store.get(key) as IDBRequest<OfflineCollection | undefined>,
+  );
+  return collection ?? null;
+}
+
+export async function saveOfflineCollection(
+  collection: OfflineCollection,
+): Promise<void> {
+  await run(COLLECTIONS_STORE, "readwrite", (store) => store.put(collection));
+  notify();
+}
+
+/**
+ * Unmark a collection and delete the audio no other collection needs
+ */
+export async function removeOfflineCollection(key: string): Promise<void> {
+  await run(COLLECTIONS_STORE, "readwrite", (store) => store.delete(key));
+  await removeUnreferencedTracks();
+  notify();
+}
+
+// ============================================
+// Tracks
+// ============================================
+
+export async function getOfflineTracks(): Promise<OfflineTrack[]> {
+  return run<OfflineTrack[]>(
+    TRACKS_STORE,
+    "readonly",
+    (store) => store.getAll() as IDBRequest<OfflineTrack[]>,
+  );
+}
+
+export async function getDownloadedTrackIds(): Promise<ReadonlySet<number>> {
+  if (!downloadedIds) {
+    const keys = await run<IDBValidKey[]>(TRACKS_STORE, "readonly", (store) =>
+      store.getAllKeys(),
+    );
+    downloadedIds = new Set(keys as number[]);
+  }
+  return downloadedIds;
+}
+
+/**
+ * URL the service worker serves a downloaded track's audio at, or null when
+ * the track isn't downloaded or no service worker controls the page
+ */
+export async function getOfflineAudioUrl(
+  trackId: number,
+): Promise<string | null> {
+  if (!isOfflineSupported() || !navigator.serviceWorker.controller) {
+    return null;
+  }
+  try {
+    const ids = await getDownloadedTrackIds();
+    return ids.has(trackId) ? audioCacheKey(trackId) : null;
+  } catch (error) {
+    logger.warn("[offline] Failed to read downloads:", error);
+    return null;
+  }
+}
+
+/**
+ * Have the service worker download a track from a stream URL into the audio
+ * cache, then record it. Throws when the download fails.
+ */
+export async function downloadTrack(
+  track: Track,
+  streamUrl: string,
+  quality: AudioQuality,
+): Promise<OfflineTrack> {
+  const worker = await getActiveWorker();
+
+  const reply = await new Promise<WorkerDownloadReply>((resolve) => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = (event: MessageEvent<WorkerDownloadReply>) =>
+      resolve(event.data);
+    worker.postMessage(
+      {
+        type: "download",
+        cacheName: OFFLINE_AUDIO_CACHE,
+        cacheKey: audioCacheKey(track.id),
+        url: streamUrl,
+      },
+      [channel.port2],
+    );
+  });
+  if (!reply.ok) {
+    throw new Error(reply.error ?? `Failed to download track ${track.id}`);
+  }
+
+  const offlineTrack: OfflineTrack = {
+    id: track.id,
+    quality,
+    size: reply.size ?? 0,
+    downloadedAt: Date.now(),
+  };
+  await run(TRACKS_STORE, "readwrite", (store) => store.put(offlineTrack));
+  await getDownloadedTrackIds();
+  downloadedIds?.add(track.id);
+  notify();
+  return offlineTrack;
+}
+
+async function deleteTracks(ids: number[]): Promise<void> {
+  if (!ids.length) return;
+
+  const cache = await caches.open(OFFLINE_AUDIO_CACHE);
+  for (const id of ids) {
+    await cache.delete(audioCacheKey(id));
+    await run(TRACKS_STORE, "readwrite", (store) => store.delete(id));
+    downloadedIds?.delete(id);
+  }
+  logger.debug(`[offline] Removed ${ids.length} downloaded tracks`);
+}
+
+/**
+ * Delete downloaded tracks that no collection contains anymore
+ */
+export async function removeUnreferencedTracks(): Promise<void> {
+  const [collections, ids] = await Promise.all([
+    getOfflineCollections(),
+    getDownloadedTrackIds(),
+  ]);
+  const referenced = new Set(
+    collections.flatMap((collection) => collection.tracks.map((t) => t.id)),
+  );
+  await deleteTracks([...ids].filter((id) => !referenced.has(id)));
+}
+
+/**
+ * Drop records whose audio the browser no longer has (e.g. evicted under
+ * storage pressure), so they get downloaded again
+ */
+export async function reconcileOfflineTracks(): Promise<void> {
+  const cache = await caches.open(OFFLINE_AUDIO_CACHE);
+  const cached = new Set((await cache.keys()).map((request) => request.url));
+  const ids = await getDownloadedTrackIds();
+  const missing = [...ids].filter((id) => !cached.has(audioCacheKey(id)));
+  if (missing.length) {
+    logger.warn(`[offline] ${missing.length} downloaded tracks went missing`);
+    await deleteTracks(missing);
+    notify();
+  }
+}
+
+// ============================================
+// Ownership
+// ============================================
+
+/**
+ * Delete everything stored for offline use: downloaded audio, its
+ * metadata and the cached pages, which show the signed-in user's library
+ */
+export async function clearOfflineData(): Promise<void> {
+  if (!isOfflineSupported()) return;
+
+  const db = await dbPromise?.catch(() => null);
+  db?.close();
+  dbPromise = null;
+  downloadedIds = null;
+
+  await Promise.all([
+    caches.delete(OFFLINE_AUDIO_CACHE),
+    caches.delete(OFFLINE_PAGE_CACHE),
+    new Promise<void>((resolve, reject) => {
+      const request = indexedDB.deleteDatabase(OFFLINE_DB_NAME);
+      request.onsuccess = () => resolve();
+      request.onerror = () =>
+        reject(request.error ?? new Error("Failed to delete offline database"));
+    }),
+  ]);
+  localStorage.remove(STORAGE_KEYS.OFFLINE_OWNER);
+  notify();
+}
+
+/**
+ * Record the signed-in user as the owner of offline data, clearing what a
+ * different user left on this device
+ */
+export async function claimOfflineData(userId: string): Promise<void> {
+  const owner = localStorage.getOrDefault<string | null>(
+    STORAGE_KEYS.OFFLINE_OWNER,
+    null,
+  );
+  if (owner === userId) return;
+  if (owner !== null) {
+    logger.info("[offline] Clearing offline data of a previous user");
+    await clearOfflineData();
+  }
+  localStorage.set(STORAGE_KEYS.OFFLINE_OWNER, userId);
+}
+
+// ============================================
+// Quota
+// ============================================
+
+export async function getOfflineStorageEstimate(): Promise<OfflineStorageEstimate> {
+  const tracks = await getOfflineTracks();
+  const downloadedBytes = tracks.reduce((sum, track) => sum + track.size, 0);
+  const estimate = await navigator.storage?.estimate?.().catch(() => null);
+
+  return {
+    downloadedBytes,
+    usage: estimate?.usage ?? null,
+    quota: estimate?.quota ?? null,
+  };
+}
+
+/**
+ * Whether `bytes` more can be stored without pushing the origin past the
+ * critical share of its quota
+ */
+export async function hasRoomFor(bytes: number): Promise<boolean> {
+  const { usage, quota } = await getOfflineStorageEstimate();
+  if (usage === null || !quota) return true;
+  return (
+    ((usage + bytes) / quota) * 100 < STORAGE_CONSTANTS.QUOTA_CRITICAL_THRESHOLD
+  );
+}
+
+/**
+ * Ask the browser not to evict downloads under storage pressure
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  try {
+    return (await navigator.storage?.persist?.()) ?? false;
+  } catch {
+    return false;
+  }
+}
@@ -3,7 +3,11 @@
 "use client";
 
 import { QueryClientProvider, type QueryClient } from "@tanstack/react-query";
-import { httpBatchStreamLink, loggerLink } from "@trpc/client";
+import {
+  createTRPCClient,
+  httpBatchStreamLink,
+  loggerLink,
+} from "@trpc/client";
 import { createTRPCReact } from "@trpc/react-query";
 import { type inferRouterInputs, type inferRouterOutputs } from "@trpc/server";
 import { useState } from "react";
@@ -26,6 +30,29 @@ const getQueryClient = () => {
 
 export const api = createTRPCReact<AppRouter>();
 
+const createLinks = () => [
+  loggerLink<AppRouter>({
+    enabled: (op) =>
+      process.env.NODE_ENV === "development" ||
+      (op.direction === "down" && op.result instanceof Error),
+  }),
+  httpBatchStreamLink<AppRouter>({
+    transformer: SuperJSON,
+    url: getBaseUrl() + "/api/trpc",
+    headers: () => {
+      const headers = new Headers();
+      headers.set("x-trpc-source", "nextjs-react");
+      return headers;
+    },
+  }),
+];
+
+/**
+ * Plain client for calls made outside of React components (e.g. from
+ * src/utils/api.ts)
+ */
+export const apiClient = createTRPCClient<AppRouter>({ links: createLinks() });
+
 /**
  * Inference helper for inputs.
  *
@@ -45,22 +72,7 @@ export function TRPCReactProvider(props: { children: React.ReactNode }) {
 
   const [trpcClient] = useState(() =>
     api.createClient({
-      links: [
-        loggerLink({
-          enabled: (op) =>
-            process.env.NODE_ENV === "development" ||
-            (op.direction === "down" && op.result instanceof Error),
-        }),
-        httpBatchStreamLink({
-          transformer: SuperJSON,
-          url: getBaseUrl() + "/api/trpc",
-          headers: () => {
-            const headers = new Headers();
-            headers.set("x-trpc-source", "nextjs-react");
-            return headers;
-          },
-        }),
-      ],
+      links: createLinks(),
     }),
   );
 
@@ -137,6 +137,202 @@ export interface SmartQueueState {
   trackCount: number; // Number of smart tracks currently in queue
 }
 
+/**
+ * Queue edits that can be undone
+ */
+export type QueueEditType =
+  | 'remove'
+  | 'clear'
+  | 'reorder'
+  | 'remove_duplicates'
+  | 'clean'
+  | 'clear_all';
+
+/**
+ * Track taken out of the queue by an edit, with where it was
+ */
+export interface QueueEditRemoval {
+  queuedTrack: QueuedTrack;
+  index: number; // Position in the queue before the edit
+  afterQueueId: string | null; // Entry it followed, null when it was first
+}
+
+/**
+ * Track moved within the queue by an edit
+ */
+export interface QueueEditMove {
+  queueId: string;
+  fromAfterQueueId: string | null; // Entry it followed before the move
+  toAfterQueueId: string | null; // Entry it followed after the move
+}
+
+/**
+ * One entry of the queue's undo/redo log
+ */
+export interface QueueEdit {
+  id: string;
+  type: QueueEditType;
+  label: string; // Human-readable summary, e.g. for an "Undo" toast
+  removed: QueueEditRemoval[];
+  move?: QueueEditMove;
+  history?: Track[]; // Play history dropped along with the queue
+  createdAt: number;
+}
+
+/**
+ * Undo/redo stacks of queue edits, most recent last
+ */
+export interface QueueEditLog {
+  undo: QueueEdit[];
+  redo: QueueEdit[];
+}
+
+/**
+ * Everything needed to bring a queue back, as saved in a named snapshot
+ */
+export interface QueueSnapshotState {
+  queuedTracks: QueuedTrack[]; // [0] was playing
+  history: Track[];
+  smartQueueState: SmartQueueState;
+  isShuffled: boolean;
+  repeatMode: RepeatMode;
+  currentTime: number; // Position reached in queuedTracks[0], in seconds
+}
+
+/**
+ * Named queue snapshot, as listed (without its tracks)
+ */
+export interface QueueSnapshotSummary {
+  id: number;
+  name: string;
+  trackCount: number;
+  currentTrack: Track | null;
+  currentTime: number;
+  createdAt: Date;
+  updatedAt: Date | null;
+}
+
+/**
+ * Named queue snapshot with the state to restore
+ */
+export interface QueueSnapshot {
+  id: number;
+  name: string;
+  state: QueueSnapshotState;
+}
+
+/**
+ * Command one device sends another to control its playback.
+ * `handoff` asks the device to transfer its playback to `toSessionId`.
+ */
+export type RemoteCommand =
+  | { type: 'play' }
+  | { type: 'pause' }
+  | { type: 'next' }
+  | { type: 'previous' }
+  | { type: 'seek'; position: number } // seconds
+  | { type: 'volume'; volume: number } // 0-1
+  | { type: 'handoff'; toSessionId: number };
+
+/**
+ * What a device is playing, as it reports it to the user's other devices
+ */
+export interface RemoteDeviceStatus {
+  sessionId: number;
+  track: {
+    id: number;
+    title: string;
+    artist: string;
+    cover: string;
+    duration: number;
+  } | null;
+  isPlaying: boolean;
+  position: number; // seconds, when reported
+  volume: number;
+  reportedAt: number; // ms since epoch
+}
+
+/**
+ * Message on the realtime channel between a user's devices. Commands and
+ * transfers are for one device; status and presence go to all of them.
+ */
+export type RemoteEvent =
+  | {
+      kind: 'command';
+      targetSessionId: number;
+      fromSessionId: number | null;
+      command: RemoteCommand;
+    }
+  | {
+      kind: 'transfer'; // Playback state saved for the target to pick up
+      targetSessionId: number;
+      fromSessionId: number | null;
+    }
+  | { kind: 'status'; status: RemoteDeviceStatus }
+  | { kind: 'presence'; sessionId: number }; // A device (re)connected
+
+/**
+ * Where the host of a listening room is, as participants sync to it.
+ * `updatedAt` is the server's clock, so participants can work out how far
+ * the host has played since without trusting their own.
+ */
+export interface ListeningRoomPlayback {
+  track: Track | null;
+  position: number; // seconds, at updatedAt
+  isPlaying: boolean;
+  updatedAt: number; // server ms since epoch
+}
+
+/**
+ * Chat message or track suggestion posted in a listening room
+ */
+export interface ListeningRoomMessage {
+  id: number;
+  kind: 'chat' | 'suggestion';
+  authorName: string;
+  userId: string | null; // null for guests
+  body: string;
+  track: Track | null; // the suggested track
+  createdAt: number; // ms since epoch
+}
+
+/**
+ * Message on the realtime channel of a listening room
+ */
+export type ListeningRoomEvent =
+  | { kind: 'playback'; playback: ListeningRoomPlayback }
+  | { kind: 'message'; message: ListeningRoomMessage }
+  | { kind: 'ended' };
+
+/**
+ * Request a jukebox guest made for a track. Pending requests wait for the
+ * host; approved ones are added to the host's queue and ordered by votes.
+ */
+export type JukeboxRequestStatus = 'pending' | 'approved' | 'rejected' | 'played';
+
+/**
+ * Track in the host's queue as guests of a jukebox see it
+ */
+export interface JukeboxQueueItem {
+  queueId: string;
+  requestId: number | null; // Set when a guest requested it
+  track: {
+    id: number;
+    title: string;
+    artist: string;
+    cover: string;
+    duration: number;
+  };
+}
+
+/**
+ * Artist the host of a jukebox doesn't take requests for
+ */
+export interface JukeboxBannedArtist {
+  id: number;
+  name: string;
+}
+
 /**
  * User preferences for smart queue behavior
  */
@@ -199,6 +395,39 @@ export interface Playlist {
   collaborators?: string[]; // User IDs
   tags?: string[];
   mood?: PlaylistMood;
+  folderId?: number | null; // Folder it's in for the current user
+}
+
+/**
+ * Folder a user keeps playlists in; folders can nest
+ */
+export interface PlaylistFolder {
+  id: number;
+  name: string;
+  parentId: number | null;
+  isCollapsed: boolean;
+}
+
+/**
+ * Role of someone a playlist is shared with: editors add, remove and reorder
+ * tracks, viewers only listen
+ */
+export type PlaylistMemberRole = 'editor' | 'viewer';
+
+/**
+ * What the current user can do with a playlist
+ */
+export type PlaylistRole = 'owner' | PlaylistMemberRole;
+
+/**
+ * Someone a playlist is shared with
+ */
+export interface PlaylistMember {
+  userId: string;
+  name: string | null;
+  image: string | null;
+  role: PlaylistMemberRole;
+  joinedAt: Date;
 }
 
 /**
@@ -251,6 +480,81 @@ export interface PlaylistReorderPayload {
   order: Array<{ trackId: number; position: number }>;
 }
 
+/**
+ * Track attribute a smart playlist rule can test
+ */
+export type SmartPlaylistField =
+  | 'playCount'
+  | 'skipRate' // Percentage of plays that were skipped
+  | 'lastPlayed'
+  | 'addedAt' // First favorited or played
+  | 'favorite'
+  | 'artist'
+  | 'title'
+  | 'bpm'
+  | 'energy'
+  | 'key'
+  | 'explicit';
+
+/**
+ * Comparison a smart playlist rule applies to its field
+ */
+export type SmartPlaylistOperator =
+  | 'is'
+  | 'isNot'
+  | 'contains'
+  | 'notContains'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'between'
+  | 'inLast' // Within the last N days
+  | 'notInLast'
+  | 'before' // Before a YYYY-MM-DD date
+  | 'after';
+
+/**
+ * Single condition of a smart playlist
+ */
+export interface SmartPlaylistRule {
+  field: SmartPlaylistField;
+  operator: SmartPlaylistOperator;
+  value: string | number | boolean | [number, number];
+}
+
+/**
+ * Conditions combined with AND ('all') or OR ('any'), which can nest
+ */
+export interface SmartPlaylistRuleGroup {
+  match: 'all' | 'any';
+  rules: Array<SmartPlaylistRule | SmartPlaylistRuleGroup>;
+}
+
+/**
+ * Order of a smart playlist's tracks
+ */
+export type SmartPlaylistSortField =
+  | 'playCount'
+  | 'skipRate'
+  | 'lastPlayed'
+  | 'addedAt'
+  | 'bpm'
+  | 'energy'
+  | 'title'
+  | 'artist'
+  | 'random';
+
+/**
+ * Rules a smart playlist's tracks are selected by
+ */
+export interface SmartPlaylistDefinition {
+  rules: SmartPlaylistRuleGroup;
+  sort: { field: SmartPlaylistSortField; direction: 'asc' | 'desc' };
+  limit: number | null;
+  refreshIntervalHours: number | null; // null only refreshes on demand
+}
+
 /**
  * Playlist merge operation
  */
@@ -418,6 +722,55 @@ export interface PlaybackPreferences {
   downloadQuality: AudioQuality;
 }
 
+/**
+ * Loudness normalization reference: each track on its own, or the whole album
+ */
+export type NormalizationMode = 'track' | 'album';
+
+export interface LoudnessNormalizationSettings {
+  enabled: boolean;
+  mode: NormalizationMode;
+  targetLufs: number;
+}
+
+/**
+ * Sleep timer: stop after a duration, or when the current track / queue ends
+ */
+export type SleepTimerMode = 'duration' | 'endOfTrack' | 'endOfQueue';
+
+export interface SleepTimerState {
+  mode: SleepTimerMode;
+  endsAt: number | null; // Epoch ms, duration mode only
+  fadeSeconds: number; // Volume fade before pausing
+}
+
+/**
+ * Named position within a track, used to jump around while practising
+ */
+export interface TrackCuePoint {
+  id: string;
+  name: string;
+  time: number; // Seconds from the start of the track
+}
+
+/**
+ * A-B loop: playback jumps back to `start` whenever it reaches `end`
+ */
+export interface AbLoop {
+  start: number;
+  end: number;
+  enabled: boolean;
+}
+
+/**
+ * Cue points and loop a user saved for one track
+ */
+export interface TrackMarkers {
+  trackId: number;
+  cuePoints: TrackCuePoint[];
+  loop: AbLoop | null;
+}
+
 /**
  * Audio quality options
  */
@@ -476,6 +829,22 @@ export interface PlayerError {
   timestamp: Date;
   trackId?: number;
   recoverable: boolean;
+  // Set while the player works around the error
+  recovery?: StreamRecoveryStep;
+}
+
+/**
+ * Steps taken to recover from a failed stream, in order
+ */
+export type StreamRecoveryStep = 'retry' | 'alternate' | 'preview';
+
+/**
+ * Something other than the requested track's full stream is playing
+ */
+export interface StreamFallback {
+  kind: 'alternate' | 'preview';
+  trackId: number; // Track now playing
+  originalTrack: Track; // Track whose stream failed
 }
 
 /**
@@ -526,7 +895,20 @@ export interface AudioFeatures {
 /**
  * Audio analysis source
  */
-export type AudioAnalysisSource = 'essentia' | 'spotify' | 'librosa' | 'manual';
+export type AudioAnalysisSource = 'essentia' | 'spotify' | 'librosa' | 'manual' | 'browser';
+
+/**
+ * Features estimated in the browser from the head of a track's stream
+ */
+export interface BrowserAudioFeatures {
+  bpm: number | null; // null when no steady pulse was found
+  bpmConfidence: number; // 0-1
+  key: string | null; // e.g., "C", "F#m"
+  keyConfidence: number; // 0-1
+  energy: number; // 0-1
+  loudness: number; // RMS level in dBFS
+  spectralCentroid: number; // Hz
+}
 
 /**
  * Equalizer settings
@@ -563,6 +945,150 @@ export interface EqualizerBand {
   Q: number; // Quality factor, typically 0.5-2.0
 }
 
+/**
+ * Filter shapes available to parametric equalizer bands
+ */
+export type EqualizerFilterType =
+  | 'peaking'
+  | 'lowshelf'
+  | 'highshelf'
+  | 'lowpass'
+  | 'highpass'
+  | 'notch'
+  | 'bandpass';
+
+/**
+ * Fully parametric equalizer band
+ */
+export interface ParametricEqBand {
+  frequency: number; // Hz
+  gain: number; // dB
+  type: EqualizerFilterType;
+  Q: number;
+}
+
+/**
+ * Band layout without gains (what the gains array is applied to)
+ */
+export type EqualizerBandLayout = Omit<ParametricEqBand, 'gain'>;
+
+/**
+ * Headphone/speaker correction profile (e.g. imported from AutoEQ), applied
+ * underneath whichever musical preset is active
+ */
+export interface EqualizerCorrectionProfile {
+  name: string;
+  enabled: boolean;
+  preamp: number; // dB
+  bands: ParametricEqBand[];
+}
+
+/**
+ * Named equalizer preset saved by a user
+ */
+export interface CustomEqualizerPreset {
+  id: number;
+  name: string;
+  bands: ParametricEqBand[];
+}
+
+/**
+ * ============================================================================
+ * AUDIO EFFECTS
+ * ============================================================================
+ * Effect stages applied after the equalizer
+ */
+
+export type AudioEffectType =
+  | 'preamp'
+  | 'compressor'
+  | 'reverb'
+  | 'widener'
+  | 'balance';
+
+/**
+ * Parameters for each effect type
+ */
+export interface AudioEffectParams {
+  preamp: {
+    gainDb: number; // Followed by a limiter so boosts can't clip
+  };
+  compressor: {
+    threshold: number; // dB
+    ratio: number;
+    knee: number; // dB
+    attack: number; // seconds
+    release: number; // seconds
+    makeupDb: number;
+  };
+  reverb: {
+    mix: number; // 0 (dry) - 1 (wet)
+    decay: number; // seconds
+  };
+  widener: {
+    width: number; // 0 = mono, 1 = unchanged, 2 = extra wide
+  };
+  balance: {
+    pan: number; // -1 (left) - 1 (right)
+    mono: boolean;
+  };
+}
+
+export type AudioEffectState<K extends AudioEffectType = AudioEffectType> =
+  AudioEffectParams[K] & { enabled: boolean };
+
+/**
+ * Persisted effects chain: per-effect settings plus processing order
+ */
+export interface AudioEffectsSettings {
+  order: AudioEffectType[];
+  effects: { [K in AudioEffectType]: AudioEffectState<K> };
+}
+
+/**
+ * ============================================================================
+ * OFFLINE DOWNLOADS
+ * ============================================================================
+ * Collections saved on the device for listening without a connection
+ */
+
+export type OfflineCollectionKind = 'playlist' | 'album' | 'favorites';
+
+/**
+ * Playlist, album or the favorites marked for offline use
+ */
+export interface OfflineCollection {
+  key: string; // `${kind}:${id}`, or "favorites"
+  kind: OfflineCollectionKind;
+  id: number | null; // null for favorites
+  name: string;
+  coverImage: string | null;
+  tracks: Track[]; // In collection order, downloaded or not
+  savedAt: number; // Unix time in ms
+  syncedAt: number; // Unix time in ms
+}
+
+/**
+ * Track whose audio is stored on the device
+ */
+export interface OfflineTrack {
+  id: number;
+  quality: AudioQuality;
+  size: number; // bytes
+  downloadedAt: number; // Unix time in ms
+}
+
+/**
+ * Progress of the download queue
+ */
+export interface OfflineDownloadProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  currentTrackId: number | null;
+  stoppedReason: 'storage_full' | 'offline' | null;
+}
+
 /**
  * ============================================================================
  * LISTENING HISTORY & ANALYTICS
@@ -1024,6 +1550,12 @@ export function isSearchResponse(obj: unknown): obj is SearchResponse {
   );
 }
 
+export function isSmartPlaylistRuleGroup(
+  rule: SmartPlaylistRule | SmartPlaylistRuleGroup,
+): rule is SmartPlaylistRuleGroup {
+  return "match" in rule;
+}
+
 export function isRecommendedTrack(obj: unknown): obj is RecommendedTrack {
   return isTrack(obj) && "recommendationContext" in obj;
 }
@@ -1,7 +1,11 @@
 // File: src/utils/api.ts
 
+import { STORAGE_KEYS } from "@/config/storage";
 import { env } from "@/env";
-import type { SearchResponse, Track } from "@/types";
+import { getOfflineAudioUrl } from "@/services/offline";
+import { localStorage as storage } from "@/services/storage";
+import { apiClient } from "@/trpc/react";
+import type { AudioQuality, SearchResponse, Track } from "@/types";
 
 /**
  * Search for tracks using the backend API.
@@ -73,6 +77,20 @@ export async function searchTracksByArtist(
   };
 }
 
+/**
+ * Get a track by its Deezer ID.
+ * @param trackId Track ID.
+ * @returns The track, or null when there is no track with that ID.
+ */
+export async function getTrackById(trackId: number): Promise<Track | null> {
+  const res = await fetch(`/api/track/${trackId}`);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`Failed to fetch track (${res.status})`);
+  const track = (await res.json()) as Track;
+  // Tracks without an album break the UI, see getAlbumTracks
+  return track.artist && track.album ? track : null;
+}
+
 /**
  * Get tracks from an album, sorted by album track order.
  * @param albumId Album ID.
@@ -131,21 +149,71 @@ export async function getAlbumTracks(albumId: number): Promise<SearchResponse> {
   };
 }
 
-/**
- * Build a streaming URL using the Next.js API route (server-side proxied).
- * This keeps the STREAMING_KEY secure on the server.
- */
-export function getStreamUrl(query: string): string {
-  const url = new URL("/api/stream", window.location.origin);
-  url.searchParams.set("q", query);
-  return url.toString();
+// Device this browser streams as; signed stream URLs are bound to it, and
+// it identifies the player session other devices control
+export function getDeviceId(): string {
+  let deviceId = storage.getOrDefault<string | null>(
+    STORAGE_KEYS.DEVICE_ID,
+    null,
+  );
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    storage.set(STORAGE_KEYS.DEVICE_ID, deviceId);
+  }
+  return deviceId;
 }
 
+// Signed URLs are reused while more than half of their lifetime is left, so
+// the same track keeps the same URL (and the audio element's cache)
+const streamUrlCache = new Map<
+  string,
+  { url: string; issuedAt: number; expiresAt: number }
+>();
+const pendingStreamUrls = new Map<string, Promise<string>>();
+
 /**
- * Stream by ID using the Next.js API route (server-side proxied).
+ * Get a short-lived signed streaming URL for a track. The Next.js API route
+ * proxies it server-side, keeping the STREAMING_KEY secure on the server.
+ * Downloaded tracks play from the device instead. `fresh` always asks the
+ * server for a new URL, e.g. after a request with the last one failed.
  */
-export function getStreamUrlById(id: string): string {
-  const url = new URL("/api/stream", window.location.origin);
-  url.searchParams.set("id", id);
-  return url.toString();
+export async function getStreamUrlById(
+  id: string,
+  quality?: AudioQuality,
+  { fresh = false }: { fresh?: boolean } = {},
+): Promise<string> {
+  if (!fresh) {
+    const offlineUrl = await getOfflineAudioUrl(Number(id));
+    if (offlineUrl) return offlineUrl;
+  }
+
+  const cacheKey = `${id}-${quality ?? "default"}`;
+  const cached = streamUrlCache.get(cacheKey);
+  const now = Date.now();
+  if (
+    !fresh &&
+    cached &&
+    cached.expiresAt - now > (cached.expiresAt - cached.issuedAt) / 2
+  ) {
+    return cached.url;
+  }
+
+  // Callers loading the same track at once share one request
+  let pending = pendingStreamUrls.get(cacheKey);
+  if (!pending) {
+    pending = apiClient.stream.getStreamUrl
+      .mutate({ trackId: Number(id), deviceId: getDeviceId(), quality })
+      .then(({ url, expiresAt }) => {
+        const absoluteUrl = new URL(url, window.location.origin).toString();
+        streamUrlCache.set(cacheKey, {
+          url: absoluteUrl,
+          issuedAt: now,
+          expiresAt,
+        });
+        return absoluteUrl;
+      })
+      .finally(() => pendingStreamUrls.delete(cacheKey));
+    pendingStreamUrls.set(cacheKey, pending);
+  }
+  return pending;
 }
@@ -8,13 +8,35 @@ export interface FrequencyBands {
   treble: number; // 4000-20000 Hz
 }
 
+export interface BeatInfo {
+  bpm: number | null; // Tracked tempo, null until one has been found
+  beatPhase: number; // 0 on the beat, rising towards 1 just before the next
+  isBeat: boolean; // A beat landed since the previous frame
+  isDownbeat: boolean; // ...and it's the first beat of a bar
+  confidence: number; // 0-1: how steady the tempo is and how well onsets fit it
+}
+
+export interface TempoEstimate {
+  bpm: number;
+  confidence: number;
+}
+
 export interface AudioAnalysis {
   frequencyBands: FrequencyBands;
   overallVolume: number;
   peakFrequency: number;
   rms: number; // Root Mean Square for energy
+  beat: BeatInfo;
 }
 
+const NO_BEAT: BeatInfo = {
+  bpm: null,
+  beatPhase: 0,
+  isBeat: false,
+  isDownbeat: false,
+  confidence: 0,
+};
+
 /**
  * Analyze frequency data and extract frequency bands
  */
@@ -98,12 +120,14 @@ export function findPeakFrequency(
 }
 
 /**
- * Comprehensive audio analysis
+ * Comprehensive audio analysis. Pass the same BeatTracker every frame to get
+ * beat and tempo information; without one `beat` stays empty.
  */
 export function analyzeAudio(
   frequencyData: Uint8Array,
   sampleRate = 44100,
   fftSize = 2048,
+  beatTracker?: BeatTracker,
 ): AudioAnalysis {
   const frequencyBands = analyzeFrequencyBands(
     frequencyData,
@@ -124,6 +148,9 @@ export function analyzeAudio(
     overallVolume,
     peakFrequency,
     rms,
+    beat: beatTracker?.update(frequencyData, sampleRate, fftSize) ?? {
+      ...NO_BEAT,
+    },
   };
 }
 
@@ -150,24 +177,458 @@ export function smoothFrequencyData(
   return smoothed;
 }
 
+// Onset envelope resolution and how much of it the tempo is estimated from
+const ENVELOPE_RATE = 50; // Hz
+const TEMPO_WINDOW_SECONDS = 8;
+const MIN_TEMPO_WINDOW_SECONDS = 4;
+const TEMPO_UPDATE_INTERVAL_MS = 500;
+
+// Tempo search range and the log-normal prior that resolves octave errors
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const PREFERRED_BPM = 120;
+// Autocorrelation peaks weaker than this (relative to lag 0) aren't a tempo
+const MIN_TEMPO_STRENGTH = 0.05;
+// A new tempo must win this many estimates in a row to replace the current one
+const TEMPO_SWITCH_VOTES = 3;
+// Estimates within this ratio of the current tempo refine it instead
+const TEMPO_TOLERANCE = 0.04;
+
+// Flux above this multiple of the recent average counts as an onset
+const ONSET_THRESHOLD = 1.5;
+const ONSET_MIN_INTERVAL_MS = 100;
+// Onsets within this fraction of a beat period pull the phase towards them
+const PHASE_WINDOW = 0.2;
+const PHASE_CORRECTION = 0.25;
+// Shift the beat clock by half a beat when the low end is this much stronger
+// between the tracked beats, judged over at least this many beats
+const HALF_BEAT_SHIFT_RATIO = 1.5;
+const HALF_BEAT_CHECK_BEATS = 8;
+
+const BEATS_PER_BAR = 4;
+const BASS_CUTOFF_HZ = 250;
+
+// A longer gap between frames (paused, hidden tab) drops the phase lock
+const MAX_FRAME_GAP_MS = 1000;
+
+// How long a tempo has to hold before it's offered as the track's BPM
+const MIN_ESTIMATE_SECONDS = 20;
+const MIN_ESTIMATE_CONFIDENCE = 0.4;
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
 /**
- * Detect beats using energy-based algorithm
+ * Real-time beat tracking on analyser frames: a spectral-flux onset detector
+ * feeds a tempo estimate (autocorrelation of the onset envelope) and a
+ * phase-locked beat clock. Downbeats are the beat of the bar with the most
+ * low-end onset energy. Keep one instance per analyser and call `update`
+ * every animation frame; `reset` it when the track changes.
  */
-export function detectBeat(
-  currentEnergy: number,
-  previousEnergies: number[],
-  threshold = 1.5,
-): boolean {
-  if (previousEnergies.length < 2) return false;
-
-  const averageEnergy =
-    previousEnergies.reduce((a, b) => a + b, 0) / previousEnergies.length;
-  const variance =
-    previousEnergies.reduce(
-      (sum, e) => sum + Math.pow(e - averageEnergy, 2),
-      0,
-    ) / previousEnergies.length;
-  const constant = -0.0025714 * variance + 1.5142857;
-
-  return currentEnergy > averageEnergy * constant * threshold;
+export class BeatTracker {
+  private previousSpectrum: Float32Array | null = null;
+  private envelope = new Float32Array(ENVELOPE_RATE * TEMPO_WINDOW_SECONDS);
+  private envelopeCount = 0;
+  private envelopeSlotTime: number | null = null;
+  private pendingFlux = 0;
+  private lastUpdateTime: number | null = null;
+  private lastOnsetTime: number | null = null;
+  private lastTempoUpdate = 0;
+
+  private periodMs: number | null = null;
+  private tempoStrength = 0;
+  private tempoSince: number | null = null;
+  private candidatePeriodMs: number | null = null;
+  private candidateVotes = 0;
+  private tempoHint: number | null = null;
+
+  private nextBeatTime: number | null = null;
+  private beatIndex = 0;
+  private lockQuality = 0;
+  private accents = new Array<number>(BEATS_PER_BAR).fill(0);
+  private beatAccent = 0;
+  private accentPending = false;
+  private onBeatPeak = 0;
+  private offBeatPeak = 0;
+  private onBeatLevel = 0;
+  private offBeatLevel = 0;
+  private beatsSinceShift = 0;
+  private confidence = 0;
+
+  /**
+   * Process one frame of byte frequency data (AnalyserNode.getByteFrequencyData)
+   */
+  update(
+    frequencyData: Uint8Array,
+    sampleRate = 44100,
+    fftSize = 2048,
+    time = performance.now(),
+  ): BeatInfo {
+    if (
+      this.lastUpdateTime !== null &&
+      time - this.lastUpdateTime > MAX_FRAME_GAP_MS
+    ) {
+      this.dropPhase();
+    }
+    this.lastUpdateTime = time;
+
+    const { flux, bassFlux } = this.measureFlux(
+      frequencyData,
+      sampleRate,
+      fftSize,
+    );
+    // Weighted towards the low end, where the beat usually is
+    const onsetStrength = flux + bassFlux;
+    const recentStrength = this.recentEnvelopeMean();
+    this.pushEnvelope(onsetStrength, time);
+
+    const isOnset =
+      onsetStrength > 0 &&
+      onsetStrength > recentStrength * ONSET_THRESHOLD &&
+      (this.lastOnsetTime === null ||
+        time - this.lastOnsetTime >= ONSET_MIN_INTERVAL_MS);
+    if (isOnset) this.lastOnsetTime = time;
+
+    if (time - this.lastTempoUpdate >= TEMPO_UPDATE_INTERVAL_MS) {
+      this.lastTempoUpdate = time;
+      this.updateTempo(time);
+    }
+
+    const period = this.periodMs;
+    if (period === null) {
+      this.confidence = 0;
+      return { ...NO_BEAT };
+    }
+
+    this.nextBeatTime ??= (this.lastOnsetTime ?? time) + period;
+    if (isOnset) this.correctPhase(time, period);
+
+    let isBeat = false;
+    while (time >= this.nextBeatTime) {
+      isBeat = true;
+      this.beatIndex++;
+      this.accentPending = true;
+      this.nextBeatTime += period;
+    }
+    if (isBeat) this.checkHalfBeatOffset(period);
+
+    const beatPhase = clamp01(1 - (this.nextBeatTime - time) / period) % 1;
+
+    const offBeatDistance = Math.abs(beatPhase - 0.5);
+    if (offBeatDistance > 0.5 - PHASE_WINDOW) {
+      this.onBeatPeak = Math.max(this.onBeatPeak, bassFlux);
+    } else if (offBeatDistance < PHASE_WINDOW) {
+      this.offBeatPeak = Math.max(this.offBeatPeak, bassFlux);
+    }
+
+    // Low-end onsets from half a beat before to half a beat after belong to
+    // this beat's accent; it's settled once the phase passes the midpoint
+    this.beatAccent = Math.max(this.beatAccent, bassFlux);
+    if (this.accentPending && beatPhase >= 0.5) {
+      this.accentPending = false;
+      const position = this.beatIndex % BEATS_PER_BAR;
+      this.accents[position] =
+        this.accents[position]! * 0.75 + this.beatAccent * 0.25;
+      this.beatAccent = 0;
+    }
+
+    this.confidence = clamp01(this.tempoStrength * 2) * this.lockQuality;
+
+    return {
+      bpm: Math.round((60000 / period) * 10) / 10,
+      beatPhase,
+      isBeat,
+      isDownbeat:
+        isBeat && this.beatIndex % BEATS_PER_BAR === this.downbeatPosition(),
+      confidence: this.confidence,
+    };
+  }
+
+  /**
+   * Known tempo of the track (e.g. from audio_features): tracking starts from
+   * it and the tempo search prefers it over the generic prior
+   */
+  setTempoHint(bpm: number | null): void {
+    this.tempoHint = bpm !== null && bpm > 0 ? bpm : null;
+    if (this.tempoHint !== null && this.periodMs === null) {
+      this.periodMs = 60000 / this.tempoHint;
+    }
+  }
+
+  /**
+   * The tracked tempo once it has held steady and confident long enough to
+   * stand in for the track's BPM, otherwise null
+   */
+  getTempoEstimate(time = performance.now()): TempoEstimate | null {
+    if (
+      this.periodMs === null ||
+      this.tempoSince === null ||
+      time - this.tempoSince < MIN_ESTIMATE_SECONDS * 1000 ||
+      this.confidence < MIN_ESTIMATE_CONFIDENCE
+    ) {
+      return null;
+    }
+
+    return {
+      bpm: Math.round((60000 / this.periodMs) * 10) / 10,
+      confidence: this.confidence,
+    };
+  }
+
+  /**
+   * Forget everything about the current track (tempo hint included)
+   */
+  reset(): void {
+    this.dropPhase();
+    this.lastUpdateTime = null;
+    this.lastTempoUpdate = 0;
+    this.periodMs = null;
+    this.tempoStrength = 0;
+    this.tempoSince = null;
+    this.candidatePeriodMs = null;
+    this.candidateVotes = 0;
+    this.tempoHint = null;
+    this.confidence = 0;
+  }
+
+  // Keep the tempo but restart the envelope and beat clock
+  private dropPhase(): void {
+    this.previousSpectrum = null;
+    this.envelope.fill(0);
+    this.envelopeCount = 0;
+    this.envelopeSlotTime = null;
+    this.pendingFlux = 0;
+    this.lastOnsetTime = null;
+    this.nextBeatTime = null;
+    this.beatIndex = 0;
+    this.lockQuality = 0;
+    this.accents.fill(0);
+    this.beatAccent = 0;
+    this.accentPending = false;
+    this.onBeatPeak = 0;
+    this.offBeatPeak = 0;
+    this.onBeatLevel = 0;
+    this.offBeatLevel = 0;
+    this.beatsSinceShift = 0;
+  }
+
+  // Half-wave rectified spectral difference, overall and below BASS_CUTOFF_HZ
+  private measureFlux(
+    frequencyData: Uint8Array,
+    sampleRate: number,
+    fftSize: number,
+  ): { flux: number; bassFlux: number } {
+    const previous = this.previousSpectrum;
+    const bassBins = Math.max(
+      1,
+      Math.round(BASS_CUTOFF_HZ / (sampleRate / fftSize)),
+    );
+    let flux = 0;
+    let bassFlux = 0;
+
+    if (previous?.length === frequencyData.length) {
+      for (let i = 0; i < frequencyData.length; i++) {
+        const rise = Math.max(0, (frequencyData[i] ?? 0) - previous[i]!);
+        flux += rise;
+        if (i < bassBins) bassFlux += rise;
+      }
+      flux /= frequencyData.length * 255;
+      bassFlux /= Math.min(bassBins, frequencyData.length) * 255;
+    }
+
+    this.previousSpectrum = Float32Array.from(frequencyData);
+    return { flux, bassFlux };
+  }
+
+  // Resample the flux onto a fixed-rate envelope (frame rates vary)
+  private pushEnvelope(flux: number, time: number): void {
+    const slotMs = 1000 / ENVELOPE_RATE;
+    this.envelopeSlotTime ??= time;
+    this.pendingFlux = Math.max(this.pendingFlux, flux);
+
+    while (time >= this.envelopeSlotTime + slotMs) {
+      this.envelope[this.envelopeCount % this.envelope.length] =
+        this.pendingFlux;
+      this.envelopeCount++;
+      this.pendingFlux = 0;
+      this.envelopeSlotTime += slotMs;
+    }
+  }
+
+  // Oldest-first copy of the filled part of the envelope
+  private envelopeWindow(): Float32Array {
+    const length = Math.min(this.envelopeCount, this.envelope.length);
+    const samples = new Float32Array(length);
+    const start = this.envelopeCount - length;
+    for (let i = 0; i < length; i++) {
+      samples[i] = this.envelope[(start + i) % this.envelope.length]!;
+    }
+    return samples;
+  }
+
+  // Average envelope over the last half second: the adaptive onset threshold
+  private recentEnvelopeMean(): number {
+    const count = Math.min(this.envelopeCount, Math.round(ENVELOPE_RATE / 2));
+    if (!count) return 0;
+
+    let sum = 0;
+    for (let i = 1; i <= count; i++) {
+      sum += this.envelope[(this.envelopeCount - i) % this.envelope.length]!;
+    }
+    return sum / count;
+  }
+
+  private updateTempo(time: number): void {
+    const raw = this.envelopeWindow();
+    if (raw.length < ENVELOPE_RATE * MIN_TEMPO_WINDOW_SECONDS) return;
+
+    // Onset strength: the envelope above its local average
+    const radius = Math.round(ENVELOPE_RATE / 4);
+    const onsets = new Float32Array(raw.length);
+    for (let i = 0; i < raw.length; i++) {
+      const start = Math.max(0, i - radius);
+      const end = Math.min(raw.length, i + radius + 1);
+      let sum = 0;
+      for (let j = start; j < end; j++) sum += raw[j]!;
+      onsets[i] = Math.max(0, raw[i]! - sum / (end - start));
+    }
+
+    const minLag = Math.floor((60 * ENVELOPE_RATE) / MAX_BPM);
+    const maxLag = Math.ceil((60 * ENVELOPE_RATE) / MIN_BPM);
+    const autocorrelation = new Float32Array(maxLag * 2 + 2);
+    for (let lag = 0; lag < autocorrelation.length; lag++) {
+      let sum = 0;
+      for (let i = lag; i < onsets.length; i++) {
+        sum += onsets[i]! * onsets[i - lag]!;
+      }
+      // Unbiased: longer lags overlap fewer samples
+      autocorrelation[lag] = sum / (onsets.length - lag);
+    }
+
+    const zeroLag = autocorrelation[0]!;
+    if (zeroLag <= 0) {
+      this.tempoStrength *= 0.8;
+      return;
+    }
+
+    // Score each lag with its double (a real beat repeats two beats later),
+    // a prior around the hinted or typical tempo, and continuity with the
+    // current tempo so the tracker doesn't flip between octaves
+    const preferredBpm = this.tempoHint ?? PREFERRED_BPM;
+    const currentBpm = this.periodMs ? 60000 / this.periodMs : null;
+    let bestLag = 0;
+    let bestScore = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      const bpm = (60 * ENVELOPE_RATE) / lag;
+      const octaves = Math.log2(bpm / preferredBpm);
+      // The true double rarely falls on an exact multiple of an integer lag
+      const doubled = Math.max(
+        autocorrelation[lag * 2 - 1]!,
+        autocorrelation[lag * 2]!,
+        autocorrelation[lag * 2 + 1]!,
+      );
+      let score =
+        (autocorrelation[lag]! + 0.5 * doubled) *
+        Math.exp(-0.5 * octaves * octaves);
+      if (currentBpm) {
+        const drift = Math.log2(bpm / currentBpm) / 0.05;
+        score *= 1 + Math.exp(-0.5 * drift * drift);
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        bestLag = lag;
+      }
+    }
+    if (!bestLag) return;
+
+    // Parabolic interpolation between neighbouring lags for sub-slot precision
+    const previous = autocorrelation[bestLag - 1]!;
+    const current = autocorrelation[bestLag]!;
+    const next = autocorrelation[bestLag + 1]!;
+    const curvature = previous - 2 * current + next;
+    const offset = curvature < 0 ? (0.5 * (previous - next)) / curvature : 0;
+    const lag = bestLag + Math.max(-0.5, Math.min(0.5, offset));
+    const periodMs = (lag * 1000) / ENVELOPE_RATE;
+
+    const strength = clamp01(current / zeroLag);
+    this.tempoStrength = this.tempoStrength * 0.7 + strength * 0.3;
+    if (strength < MIN_TEMPO_STRENGTH) return;
+
+    if (this.periodMs === null) {
+      this.periodMs = periodMs;
+      this.tempoSince = time;
+    } else if (Math.abs(periodMs / this.periodMs - 1) <= TEMPO_TOLERANCE) {
+      this.periodMs = this.periodMs * 0.7 + periodMs * 0.3;
+      this.tempoSince ??= time;
+      this.candidatePeriodMs = null;
+      this.candidateVotes = 0;
+    } else {
+      // A different tempo: switch only once it keeps winning
+      const sameCandidate =
+        this.candidatePeriodMs !== null &&
+        Math.abs(periodMs / this.candidatePeriodMs - 1) <= TEMPO_TOLERANCE;
+      this.candidatePeriodMs = periodMs;
+      this.candidateVotes = sameCandidate ? this.candidateVotes + 1 : 1;
+
+      if (this.candidateVotes >= TEMPO_SWITCH_VOTES) {
+        this.periodMs = periodMs;
+        this.tempoSince = time;
+        this.nextBeatTime = null;
+        this.lockQuality = 0;
+        this.candidatePeriodMs = null;
+        this.candidateVotes = 0;
+      }
+    }
+  }
+
+  // Nudge the beat clock towards an onset close to a predicted beat
+  private correctPhase(time: number, period: number): void {
+    if (this.nextBeatTime === null) return;
+
+    const sinceBeat = time - (this.nextBeatTime - period);
+    const untilBeat = this.nextBeatTime - time;
+    const error = sinceBeat <= untilBeat ? sinceBeat : -untilBeat;
+    const tolerance = period * PHASE_WINDOW;
+
+    if (Math.abs(error) <= tolerance) {
+      this.nextBeatTime += error * PHASE_CORRECTION;
+      this.lockQuality =
+        this.lockQuality * 0.85 + (1 - Math.abs(error) / tolerance) * 0.15;
+    } else if (Math.abs(sinceBeat - period / 2) > tolerance) {
+      // Off-beat onsets (eighth notes) are fine; anything else is a miss
+      this.lockQuality *= 0.95;
+    }
+  }
+
+  // The phase lock can settle half a beat off when off-beats (hi-hats,
+  // offbeat chords) are busier than the beat; the low end tells them apart
+  private checkHalfBeatOffset(period: number): void {
+    if (this.nextBeatTime === null) return;
+
+    this.onBeatLevel = this.onBeatLevel * 0.9 + this.onBeatPeak * 0.1;
+    this.offBeatLevel = this.offBeatLevel * 0.9 + this.offBeatPeak * 0.1;
+    this.onBeatPeak = 0;
+    this.offBeatPeak = 0;
+    this.beatsSinceShift++;
+
+    if (
+      this.beatsSinceShift >= HALF_BEAT_CHECK_BEATS &&
+      this.offBeatLevel > this.onBeatLevel * HALF_BEAT_SHIFT_RATIO
+    ) {
+      this.nextBeatTime -= period / 2;
+      [this.onBeatLevel, this.offBeatLevel] = [
+        this.offBeatLevel,
+        this.onBeatLevel,
+      ];
+      this.accents.fill(0);
+      this.beatsSinceShift = 0;
+    }
+  }
+
+  private downbeatPosition(): number {
+    let best = 0;
+    for (let i = 1; i < BEATS_PER_BAR; i++) {
+      if (this.accents[i]! > this.accents[best]!) best = i;
+    }
+    return best;
+  }
 }
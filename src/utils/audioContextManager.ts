@@ -1,16 +1,61 @@
 // File: src/utils/audioContextManager.ts
 
-interface AudioConnection {
+interface CrossfadeInput {
+  element: HTMLAudioElement;
+  sourceNode: MediaElementAudioSourceNode;
+  gain: GainNode;
+  normalizationGain?: GainNode;
+}
+
+/**
+ * A processing stage registered by a feature module. Any subgraph can be a
+ * stage: the chain connects into `input` and out of `output`, and the module
+ * owns everything in between.
+ */
+export interface AudioEffectStage {
+  id: string;
+  input: AudioNode;
+  output: AudioNode;
+  bypassed: boolean;
+}
+
+export interface AudioConnection {
   sourceNode: MediaElementAudioSourceNode;
   audioContext: AudioContext;
   analyser?: AnalyserNode;
   filters?: BiquadFilterNode[];
+  filtersBypassed?: boolean; // Equalizer toggled off - keep nodes but skip them
+  correctionFilters?: BiquadFilterNode[]; // Device correction (AutoEQ) layer, always before the EQ
+  preamp?: GainNode; // Headroom for the correction layer
+  effects?: AudioEffectStage[]; // Ordered effect stages after the EQ
+  sourceGain?: GainNode; // Fader for the primary element (used by crossfade)
+  normalizationGain?: GainNode; // Loudness compensation for the primary element
+  crossfade?: CrossfadeInput; // Secondary element mixed into the same chain
   refCount: number; // Track how many components are using this connection
 }
 
+// Secondary elements can only ever be wrapped in one MediaElementSourceNode
+const crossfadeInputs = new WeakMap<HTMLAudioElement, CrossfadeInput>();
+
 // Global WeakMap to track connected audio elements
 const connectedAudioElements = new WeakMap<HTMLAudioElement, AudioConnection>();
 
+// Element a connection was created for, by the element that plays into it
+// now. Playback moves to the crossfade element after a crossfade, but
+// consumers keep using the original element as the connection's key.
+const connectionKeys = new WeakMap<HTMLAudioElement, HTMLAudioElement>();
+
+/**
+ * The element to key the shared connection by for whichever of the player's
+ * elements is playing, so consumers don't rebuild their nodes whenever the
+ * player swaps elements.
+ */
+export function getAudioConnectionKey(
+  audioElement: HTMLAudioElement,
+): HTMLAudioElement {
+  return connectionKeys.get(audioElement) ?? audioElement;
+}
+
 /**
  * Get or create an audio connection for an audio element.
  * If the element is already connected, returns the existing connection.
@@ -108,7 +153,9 @@ export function releaseAudioConnection(audioElement: HTMLAudioElement): void {
   // because once an audio element is connected to a MediaElementSourceNode,
   // it can ONLY play through Web Audio - "normal" playback won't work.
   // The connection will be reused when components mount again.
-  if (connection.refCount <= 0 && !audioElement.src) {
+  // The element playing into the connection, which may not be the key
+  const primaryElement = connection.sourceNode.mediaElement;
+  if (connection.refCount <= 0 && !primaryElement.src) {
     console.log("[audioContextManager] Cleaning up audio connection (no source loaded)");
     try {
       // Disconnect nodes
@@ -118,6 +165,12 @@ export function releaseAudioConnection(audioElement: HTMLAudioElement): void {
       if (connection.filters && connection.filters.length > 0) {
         connection.filters.forEach((filter) => filter.disconnect());
       }
+      connection.effects?.forEach((stage) => stage.output.disconnect());
+      if (connection.crossfade) {
+        connection.crossfade.sourceNode.disconnect();
+        connection.crossfade.gain.disconnect();
+        crossfadeInputs.delete(connection.crossfade.element);
+      }
       // Note: We don't disconnect sourceNode from audioElement because
       // once connected, it can't be reconnected. The browser handles cleanup.
       if (connection.audioContext.state !== "closed") {
@@ -129,6 +182,7 @@ export function releaseAudioConnection(audioElement: HTMLAudioElement): void {
     }
 
     connectedAudioElements.delete(audioElement);
+    connectedAudioElements.delete(primaryElement as HTMLAudioElement);
   } else if (connection.refCount <= 0) {
     console.log("[audioContextManager] Keeping connection alive (audio source is loaded)", {
       src: audioElement.src.substring(0, 50) + "...",
@@ -184,105 +238,387 @@ export function verifyConnectionChain(connection: AudioConnection): boolean {
   }
 }
 
+/**
+ * Attach a secondary audio element to an existing connection so it is mixed
+ * into the same processing chain (filters, analyser) as the primary element.
+ * Both inputs get their own GainNode, which is what crossfades ramp.
+ */
+export function attachCrossfadeElement(
+  connection: AudioConnection,
+  element: HTMLAudioElement,
+): CrossfadeInput | null {
+  if (connection.crossfade?.element === element) {
+    return connection.crossfade;
+  }
+
+  try {
+    let input = crossfadeInputs.get(element);
+    if (!input || input.sourceNode.context !== connection.audioContext) {
+      const sourceNode = connection.audioContext.createMediaElementSource(element);
+      const gain = connection.audioContext.createGain();
+      gain.gain.value = 0;
+      input = { element, sourceNode, gain };
+      crossfadeInputs.set(element, input);
+    }
+
+    connection.sourceGain ??= connection.audioContext.createGain();
+    connection.crossfade = input;
+
+    ensureConnectionChain(connection);
+    return input;
+  } catch (error) {
+    console.error(
+      "[audioContextManager] ❌ Failed to attach crossfade element:",
+      error,
+    );
+    return null;
+  }
+}
+
+/**
+ * Build an equal-power fade curve. Going from 0 to 1 with `fadeIn`, or from
+ * 1 to 0 otherwise, so two complementary curves keep perceived loudness flat.
+ */
+function buildEqualPowerCurve(fadeIn: boolean, steps = 64): Float32Array {
+  const curve = new Float32Array(steps);
+  for (let i = 0; i < steps; i++) {
+    const t = i / (steps - 1);
+    curve[i] = fadeIn ? Math.sin((t * Math.PI) / 2) : Math.cos((t * Math.PI) / 2);
+  }
+  return curve;
+}
+
+/**
+ * Ramp gain between the primary element and the crossfade element.
+ * `toCrossfade` fades the primary out and the secondary in; the opposite
+ * direction is used when the primary element takes over again.
+ */
+export function rampCrossfade(
+  connection: AudioConnection,
+  direction: "toCrossfade" | "toPrimary",
+  durationSeconds: number,
+): void {
+  const { sourceGain, crossfade, audioContext } = connection;
+  if (!sourceGain || !crossfade) return;
+
+  const now = audioContext.currentTime;
+  const duration = Math.max(0.01, durationSeconds);
+  const fadeInPrimary = direction === "toPrimary";
+
+  for (const [param, fadeIn] of [
+    [sourceGain.gain, fadeInPrimary],
+    [crossfade.gain.gain, !fadeInPrimary],
+  ] as const) {
+    param.cancelScheduledValues(now);
+    param.setValueCurveAtTime(buildEqualPowerCurve(fadeIn), now, duration);
+  }
+}
+
+function setCrossfadeGains(
+  connection: AudioConnection,
+  primary: number,
+  secondary: number,
+  at?: number,
+): void {
+  const { sourceGain, crossfade, audioContext } = connection;
+  const now = audioContext.currentTime;
+  const time = Math.max(now, at ?? now);
+
+  if (sourceGain) {
+    sourceGain.gain.cancelScheduledValues(now);
+    sourceGain.gain.setValueAtTime(primary, time);
+  }
+  if (crossfade) {
+    crossfade.gain.gain.cancelScheduledValues(now);
+    crossfade.gain.gain.setValueAtTime(secondary, time);
+  }
+}
+
+/**
+ * Abort any running crossfade ramp and route only the primary element.
+ */
+export function resetCrossfade(connection: AudioConnection): void {
+  setCrossfadeGains(connection, 1, 0);
+}
+
+/**
+ * Hard switch to the crossfade element with no ramp (used for gapless playback),
+ * immediately or at `at` on the context's clock.
+ */
+export function cutToCrossfade(connection: AudioConnection, at?: number): void {
+  setCrossfadeGains(connection, 0, 1, at);
+}
+
+/**
+ * Make the crossfade element the primary input once it is the only one
+ * audible, and the previous primary element the crossfade input. Both inputs
+ * already feed the chain the same way, so only their roles change. Returns
+ * the new primary element, or null when there is no crossfade input.
+ */
+export function promoteCrossfadeElement(
+  connection: AudioConnection,
+): HTMLAudioElement | null {
+  const { crossfade, sourceGain } = connection;
+  if (!crossfade || !sourceGain) return null;
+
+  const previous = connection.sourceNode.mediaElement as HTMLAudioElement;
+  const demoted: CrossfadeInput = {
+    element: previous,
+    sourceNode: connection.sourceNode,
+    gain: sourceGain,
+    normalizationGain: connection.normalizationGain,
+  };
+
+  connection.sourceNode = crossfade.sourceNode;
+  connection.sourceGain = crossfade.gain;
+  connection.normalizationGain = crossfade.normalizationGain;
+  connection.crossfade = demoted;
+
+  crossfadeInputs.delete(crossfade.element);
+  crossfadeInputs.set(previous, demoted);
+  connectedAudioElements.set(crossfade.element, connection);
+  connectionKeys.set(crossfade.element, getAudioConnectionKey(previous));
+
+  resetCrossfade(connection);
+  return crossfade.element;
+}
+
+/**
+ * Set the loudness compensation gain (in dB) applied to one of the inputs
+ * before the equalizer. The gain node is created on first use.
+ */
+export function setNormalizationGain(
+  connection: AudioConnection,
+  input: "primary" | "crossfade",
+  gainDb: number,
+): void {
+  const target = input === "primary" ? connection : connection.crossfade;
+  if (!target) return;
+
+  const { audioContext } = connection;
+  const value = Math.pow(10, gainDb / 20);
+
+  if (!target.normalizationGain) {
+    target.normalizationGain = audioContext.createGain();
+    target.normalizationGain.gain.value = value;
+    ensureConnectionChain(connection);
+    return;
+  }
+
+  // Short smoothing avoids zipper noise when the gain changes mid-track
+  target.normalizationGain.gain.setTargetAtTime(
+    value,
+    audioContext.currentTime,
+    0.05,
+  );
+}
+
+/**
+ * Register (or replace, matched by id) an effect stage and rewire the chain.
+ * New stages are appended after the existing ones.
+ */
+export function registerEffectStage(
+  connection: AudioConnection,
+  stage: AudioEffectStage,
+): void {
+  const stages = connection.effects ?? [];
+  const index = stages.findIndex((existing) => existing.id === stage.id);
+  connection.effects =
+    index === -1
+      ? [...stages, stage]
+      : stages.map((existing, i) => (i === index ? stage : existing));
+  ensureConnectionChain(connection);
+}
+
+/**
+ * Remove an effect stage. The caller still owns (and disposes) its nodes.
+ */
+export function unregisterEffectStage(
+  connection: AudioConnection,
+  id: string,
+): void {
+  const stage = connection.effects?.find((existing) => existing.id === id);
+  if (!stage) return;
+
+  stage.output.disconnect();
+  connection.effects = connection.effects!.filter(
+    (existing) => existing.id !== id,
+  );
+  ensureConnectionChain(connection);
+}
+
+/**
+ * Skip an effect stage without tearing down its nodes
+ */
+export function setEffectStageBypassed(
+  connection: AudioConnection,
+  id: string,
+  bypassed: boolean,
+): void {
+  const stage = connection.effects?.find((existing) => existing.id === id);
+  if (!stage || stage.bypassed === bypassed) return;
+
+  stage.bypassed = bypassed;
+  ensureConnectionChain(connection);
+}
+
+/**
+ * Reorder effect stages. Stages missing from `ids` keep their relative order
+ * after the listed ones.
+ */
+export function reorderEffectStages(
+  connection: AudioConnection,
+  ids: string[],
+): void {
+  if (!connection.effects?.length) return;
+
+  const rank = (id: string) => {
+    const index = ids.indexOf(id);
+    return index === -1 ? ids.length : index;
+  };
+  connection.effects = [...connection.effects].sort(
+    (a, b) => rank(a.id) - rank(b.id),
+  );
+  ensureConnectionChain(connection);
+}
+
 export function ensureConnectionChain(connection: AudioConnection): void {
   try {
+    const activeFilters =
+      connection.filters && !connection.filtersBypassed
+        ? connection.filters
+        : [];
+
     console.log("[audioContextManager] Ensuring connection chain", {
-      hasFilters: !!(connection.filters && connection.filters.length > 0),
+      hasFilters: activeFilters.length > 0,
+      filtersBypassed: !!connection.filtersBypassed,
       hasAnalyser: !!connection.analyser,
+      hasCrossfade: !!connection.crossfade,
       contextState: connection.audioContext.state,
     });
 
-    try {
-      connection.sourceNode.disconnect();
-    } catch (e) {
-      // Already disconnected or error, continue
-      console.debug(
-        "[audioContextManager] SourceNode disconnect (expected):",
-        e,
-      );
-    }
-
-    // Disconnect analyser if it exists
-    if (connection.analyser) {
+    const disconnectQuietly = (node: AudioNode, label: string) => {
       try {
-        connection.analyser.disconnect();
+        node.disconnect();
       } catch (e) {
-        // Already disconnected, ignore
-        console.debug(
-          "[audioContextManager] Analyser disconnect (expected):",
-          e,
+        // Already disconnected or error, continue
+        console.debug(`[audioContextManager] ${label} disconnect (expected):`, e);
+      }
+    };
+
+    disconnectQuietly(connection.sourceNode, "SourceNode");
+    if (connection.normalizationGain) {
+      disconnectQuietly(connection.normalizationGain, "Normalization gain");
+    }
+    if (connection.sourceGain) {
+      disconnectQuietly(connection.sourceGain, "Source gain");
+    }
+    if (connection.crossfade) {
+      disconnectQuietly(connection.crossfade.sourceNode, "Crossfade source");
+      if (connection.crossfade.normalizationGain) {
+        disconnectQuietly(
+          connection.crossfade.normalizationGain,
+          "Crossfade normalization gain",
         );
       }
+      disconnectQuietly(connection.crossfade.gain, "Crossfade gain");
+    }
+    if (connection.analyser) {
+      disconnectQuietly(connection.analyser, "Analyser");
     }
+    connection.filters?.forEach((filter) =>
+      disconnectQuietly(filter, "Filter"),
+    );
+    connection.correctionFilters?.forEach((filter) =>
+      disconnectQuietly(filter, "Correction filter"),
+    );
+    if (connection.preamp) {
+      disconnectQuietly(connection.preamp, "Preamp");
+    }
+    // Only stage outputs: the wiring inside a stage belongs to its module
+    connection.effects?.forEach((stage) =>
+      disconnectQuietly(stage.output, `Effect "${stage.id}"`),
+    );
 
-    // Disconnect filters if they exist
-    if (connection.filters && connection.filters.length > 0) {
-      connection.filters.forEach((filter) => {
-        try {
-          filter.disconnect();
-        } catch (e) {
-          // Already disconnected, ignore
-          console.debug(
-            "[audioContextManager] Filter disconnect (expected):",
-            e,
-          );
-        }
-      });
+    // Rebuild the tail first:
+    // [preamp?] -> [correction?] -> [filters?] -> [effects?] -> [analyser?] -> destination
+    const destination = connection.audioContext.destination;
+    let chainInput: AudioNode = destination;
+
+    if (connection.analyser) {
+      connection.analyser.connect(destination);
+      chainInput = connection.analyser;
     }
 
-    // Now rebuild the chain: source -> [filters?] -> [analyser?] -> destination
-    if (connection.filters && connection.filters.length > 0) {
-      // Chain filters together
-      for (let i = 0; i < connection.filters.length - 1; i++) {
-        connection.filters[i]!.connect(connection.filters[i + 1]!);
+    const activeEffects = (connection.effects ?? []).filter(
+      (stage) => !stage.bypassed,
+    );
+    for (let i = activeEffects.length - 1; i >= 0; i--) {
+      activeEffects[i]!.output.connect(chainInput);
+      chainInput = activeEffects[i]!.input;
+    }
+
+    // [preamp?] -> [correction filters?] -> [EQ filters?]
+    const filterStages = [
+      ...(connection.correctionFilters ?? []),
+      ...activeFilters,
+    ];
+    if (filterStages.length > 0) {
+      for (let i = 0; i < filterStages.length - 1; i++) {
+        filterStages[i]!.connect(filterStages[i + 1]!);
       }
+      filterStages[filterStages.length - 1]!.connect(chainInput);
+      chainInput = filterStages[0]!;
+    }
 
-      // Connect source to first filter
-      connection.sourceNode.connect(connection.filters[0]!);
-      const lastFilter = connection.filters[connection.filters.length - 1]!;
+    if (connection.preamp) {
+      connection.preamp.connect(chainInput);
+      chainInput = connection.preamp;
+    }
 
-      if (connection.analyser) {
-        // Chain: source -> filters -> analyser -> destination
-        lastFilter.connect(connection.analyser);
-        connection.analyser.connect(connection.audioContext.destination);
-        console.log(
-          "[audioContextManager] ✅ Chain: source -> filters -> analyser -> destination",
-          {
-            filterCount: connection.filters.length,
-            analyserExists: !!connection.analyser,
-            destinationExists: !!connection.audioContext.destination,
-          },
-        );
-      } else {
-        // Chain: source -> filters -> destination
-        lastFilter.connect(connection.audioContext.destination);
-        console.log(
-          "[audioContextManager] ✅ Chain: source -> filters -> destination",
-          {
-            filterCount: connection.filters.length,
-          },
-        );
+    // Then feed every input into the head of the chain:
+    // source -> [normalization gain?] -> [fader gain?] -> chain input
+    const connectInput = (nodes: Array<AudioNode | undefined>) => {
+      const present = nodes.filter((node): node is AudioNode => !!node);
+      for (let i = 0; i < present.length - 1; i++) {
+        present[i]!.connect(present[i + 1]!);
       }
-    } else if (connection.analyser) {
-      // Chain: source -> analyser -> destination
-      connection.sourceNode.connect(connection.analyser);
-      connection.analyser.connect(connection.audioContext.destination);
-      console.log(
-        "[audioContextManager] ✅ Chain: source -> analyser -> destination",
-        {
-          analyserExists: !!connection.analyser,
-          destinationExists: !!connection.audioContext.destination,
-          sourceNodeExists: !!connection.sourceNode,
-        },
-      );
-    } else {
-      // Direct: source -> destination (fallback - ensures audio always plays)
-      connection.sourceNode.connect(connection.audioContext.destination);
-      console.log(
-        "[audioContextManager] ✅ Chain: source -> destination (fallback)",
-      );
+      present[present.length - 1]!.connect(chainInput);
+    };
+
+    connectInput([
+      connection.sourceNode,
+      connection.normalizationGain,
+      connection.sourceGain,
+    ]);
+
+    if (connection.crossfade) {
+      connectInput([
+        connection.crossfade.sourceNode,
+        connection.crossfade.normalizationGain,
+        connection.crossfade.gain,
+      ]);
     }
 
+    console.log(
+      `[audioContextManager] ✅ Chain: source${
+        connection.crossfade ? " (+crossfade)" : ""
+      } -> ${connection.preamp ? "preamp -> " : ""}${
+        connection.correctionFilters?.length ? "correction -> " : ""
+      }${activeFilters.length > 0 ? "filters -> " : ""}${
+        activeEffects.length > 0
+          ? `${activeEffects.map((stage) => stage.id).join(" -> ")} -> `
+          : ""
+      }${
+        connection.analyser ? "analyser -> " : ""
+      }destination`,
+      {
+        filterCount: activeFilters.length,
+        analyserExists: !!connection.analyser,
+        destinationExists: !!destination,
+      },
+    );
+
     // Resume audio context if suspended (required for playback)
     if (connection.audioContext.state === "suspended") {
       console.log(
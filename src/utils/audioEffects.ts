@@ -0,0 +1,235 @@
+// File: src/utils/audioEffects.ts
+
+import type { AudioEffectParams, AudioEffectType } from "@/types";
+
+/**
+ * An effect subgraph: the chain feeds `input` and reads `output`.
+ * `update` applies new parameters without rebuilding the nodes.
+ */
+export interface AudioEffectUnit<P> {
+  input: AudioNode;
+  output: AudioNode;
+  update: (params: P) => void;
+  dispose: () => void;
+}
+
+type EffectFactory<K extends AudioEffectType> = (
+  context: BaseAudioContext,
+  params: AudioEffectParams[K],
+) => AudioEffectUnit<AudioEffectParams[K]>;
+
+// Time constant for smoothing parameter changes (avoids zipper noise)
+const SMOOTHING = 0.02;
+
+const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
+const setSmoothly = (
+  param: AudioParam,
+  value: number,
+  context: BaseAudioContext,
+) => {
+  param.setTargetAtTime(value, context.currentTime, SMOOTHING);
+};
+
+const disconnectAll = (nodes: AudioNode[]) => {
+  nodes.forEach((node) => node.disconnect());
+};
+
+/**
+ * 2x2 channel matrix used for width and mono:
+ *   L' = a*L + b*R,  R' = a*R + b*L  with a = (1 + w) / 2, b = (1 - w) / 2
+ * w = 0 folds to mono, 1 is unchanged, above 1 widens the side signal.
+ */
+function createStereoMatrix(context: BaseAudioContext) {
+  // Force stereo so mono sources are up-mixed instead of losing a channel
+  const input = context.createGain();
+  input.channelCount = 2;
+  input.channelCountMode = "explicit";
+  input.channelInterpretation = "speakers";
+
+  const splitter = context.createChannelSplitter(2);
+  const merger = context.createChannelMerger(2);
+  const leftToLeft = context.createGain();
+  const rightToLeft = context.createGain();
+  const rightToRight = context.createGain();
+  const leftToRight = context.createGain();
+
+  input.connect(splitter);
+  splitter.connect(leftToLeft, 0);
+  splitter.connect(leftToRight, 0);
+  splitter.connect(rightToRight, 1);
+  splitter.connect(rightToLeft, 1);
+  leftToLeft.connect(merger, 0, 0);
+  rightToLeft.connect(merger, 0, 0);
+  rightToRight.connect(merger, 0, 1);
+  leftToRight.connect(merger, 0, 1);
+
+  const setWidth = (width: number) => {
+    const direct = (1 + width) / 2;
+    const cross = (1 - width) / 2;
+    setSmoothly(leftToLeft.gain, direct, context);
+    setSmoothly(rightToRight.gain, direct, context);
+    setSmoothly(rightToLeft.gain, cross, context);
+    setSmoothly(leftToRight.gain, cross, context);
+  };
+
+  const nodes = [
+    input,
+    splitter,
+    leftToLeft,
+    rightToLeft,
+    rightToRight,
+    leftToRight,
+    merger,
+  ];
+
+  return { input, output: merger, setWidth, nodes };
+}
+
+/**
+ * Synthetic room impulse: stereo noise with an exponential decay reaching
+ * -60 dB after `decay` seconds
+ */
+function createImpulseResponse(
+  context: BaseAudioContext,
+  decay: number,
+): AudioBuffer {
+  const length = Math.max(1, Math.round(decay * context.sampleRate));
+  const impulse = context.createBuffer(2, length, context.sampleRate);
+
+  for (let channel = 0; channel < impulse.numberOfChannels; channel++) {
+    const data = impulse.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      data[i] = (Math.random() * 2 - 1) * Math.exp((-6.9 * i) / length);
+    }
+  }
+
+  return impulse;
+}
+
+const createPreamp: EffectFactory<"preamp"> = (context, params) => {
+  const gain = context.createGain();
+  gain.gain.value = dbToGain(params.gainDb);
+
+  // Brickwall-style limiter keeps boosted signals below full scale
+  const limiter = context.createDynamicsCompressor();
+  limiter.threshold.value = -1;
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0.001;
+  limiter.release.value = 0.1;
+
+  gain.connect(limiter);
+
+  return {
+    input: gain,
+    output: limiter,
+    update: (next) => setSmoothly(gain.gain, dbToGain(next.gainDb), context),
+    dispose: () => disconnectAll([gain, limiter]),
+  };
+};
+
+const createCompressor: EffectFactory<"compressor"> = (context, params) => {
+  const compressor = context.createDynamicsCompressor();
+  const makeup = context.createGain();
+  compressor.connect(makeup);
+
+  const update = (next: AudioEffectParams["compressor"]) => {
+    compressor.threshold.value = next.threshold;
+    compressor.ratio.value = next.ratio;
+    compressor.knee.value = next.knee;
+    compressor.attack.value = next.attack;
+    compressor.release.value = next.release;
+    setSmoothly(makeup.gain, dbToGain(next.makeupDb), context);
+  };
+  update(params);
+
+  return {
+    input: compressor,
+    output: makeup,
+    update,
+    dispose: () => disconnectAll([compressor, makeup]),
+  };
+};
+
+const createReverb: EffectFactory<"reverb"> = (context, params) => {
+  const input = context.createGain();
+  const dry = context.createGain();
+  const wet = context.createGain();
+  const output = context.createGain();
+  const convolver = context.createConvolver();
+
+  input.connect(dry).connect(output);
+  input.connect(convolver).connect(wet).connect(output);
+
+  let decay: number | null = null;
+  const update = (next: AudioEffectParams["reverb"]) => {
+    // Regenerating the impulse is expensive, only do it when decay changes
+    if (next.decay !== decay) {
+      decay = next.decay;
+      convolver.buffer = createImpulseResponse(context, next.decay);
+    }
+    // Equal-power dry/wet balance
+    setSmoothly(dry.gain, Math.cos((next.mix * Math.PI) / 2), context);
+    setSmoothly(wet.gain, Math.sin((next.mix * Math.PI) / 2), context);
+  };
+  update(params);
+
+  return {
+    input,
+    output,
+    update,
+    dispose: () => disconnectAll([input, dry, wet, convolver, output]),
+  };
+};
+
+const createWidener: EffectFactory<"widener"> = (context, params) => {
+  const matrix = createStereoMatrix(context);
+  matrix.setWidth(params.width);
+
+  return {
+    input: matrix.input,
+    output: matrix.output,
+    update: (next) => matrix.setWidth(next.width),
+    dispose: () => disconnectAll(matrix.nodes),
+  };
+};
+
+const createBalance: EffectFactory<"balance"> = (context, params) => {
+  const matrix = createStereoMatrix(context);
+  const panner = context.createStereoPanner();
+  matrix.output.connect(panner);
+
+  const update = (next: AudioEffectParams["balance"]) => {
+    matrix.setWidth(next.mono ? 0 : 1);
+    setSmoothly(panner.pan, next.pan, context);
+  };
+  update(params);
+
+  return {
+    input: matrix.input,
+    output: panner,
+    update,
+    dispose: () => disconnectAll([...matrix.nodes, panner]),
+  };
+};
+
+const EFFECT_FACTORIES: { [K in AudioEffectType]: EffectFactory<K> } = {
+  preamp: createPreamp,
+  compressor: createCompressor,
+  reverb: createReverb,
+  widener: createWidener,
+  balance: createBalance,
+};
+
+/**
+ * Build the node graph for an effect type
+ */
+export function createAudioEffect<K extends AudioEffectType>(
+  context: BaseAudioContext,
+  type: K,
+  params: AudioEffectParams[K],
+): AudioEffectUnit<AudioEffectParams[K]> {
+  const factory: EffectFactory<K> = EFFECT_FACTORIES[type];
+  return factory(context, params);
+}
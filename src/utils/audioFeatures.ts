@@ -0,0 +1,343 @@
+// File: src/utils/audioFeatures.ts
+
+import type { BrowserAudioFeatures } from "@/types";
+
+/**
+ * Offline music analysis used by the audio features worker. Works on a mono
+ * signal: tempo from the spectral-flux onset envelope, key from a chromagram
+ * matched against Krumhansl-Schmuckler profiles, energy from level,
+ * brightness and onset density.
+ */
+
+const FRAME_SIZE = 2048;
+const HOP_SIZE = 512;
+
+// Tempo search range and the log-normal prior that resolves octave errors
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const PREFERRED_BPM = 120;
+const TEMPO_PRIOR_OCTAVES = 1;
+// Autocorrelation peaks weaker than this are not reported as a tempo
+const MIN_BPM_CONFIDENCE = 0.05;
+
+// Chroma range: C2 to C7
+const CHROMA_MIN_HZ = 65;
+const CHROMA_MAX_HZ = 2100;
+
+const PITCH_CLASSES = [
+  "C",
+  "C#",
+  "D",
+  "D#",
+  "E",
+  "F",
+  "F#",
+  "G",
+  "G#",
+  "A",
+  "A#",
+  "B",
+] as const;
+
+const MAJOR_PROFILE = [
+  6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88,
+];
+const MINOR_PROFILE = [
+  6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17,
+];
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+const mean = (values: Iterable<number> & { length: number }): number => {
+  let sum = 0;
+  for (const value of values) sum += value;
+  return values.length ? sum / values.length : 0;
+};
+
+/**
+ * In-place iterative radix-2 FFT; `re.length` must be a power of two
+ */
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j]!, re[i]!];
+      [im[i], im[j]] = [im[j]!, im[i]!];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b]! * wRe - im[b]! * wIm;
+        const tIm = re[b]! * wIm + im[b]! * wRe;
+        re[b] = re[a]! - tRe;
+        im[b] = im[a]! - tIm;
+        re[a] = re[a]! + tRe;
+        im[a] = im[a]! + tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * Pearson correlation of a chroma vector with a key profile rotated to `tonic`
+ */
+function correlateProfile(
+  chroma: number[],
+  profile: number[],
+  tonic: number,
+): number {
+  const chromaMean = mean(chroma);
+  const profileMean = mean(profile);
+  let numerator = 0;
+  let chromaVariance = 0;
+  let profileVariance = 0;
+
+  for (let i = 0; i < 12; i++) {
+    const x = chroma[(i + tonic) % 12]! - chromaMean;
+    const y = profile[i]! - profileMean;
+    numerator += x * y;
+    chromaVariance += x * x;
+    profileVariance += y * y;
+  }
+
+  const denominator = Math.sqrt(chromaVariance * profileVariance);
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+/**
+ * Tempo from the autocorrelation of the onset envelope. Each lag is weighted
+ * by a log-normal prior around PREFERRED_BPM and reinforced by its double
+ * (a real beat period also repeats two beats later).
+ */
+function estimateTempo(
+  envelope: Float64Array,
+  framesPerSecond: number,
+): { bpm: number | null; confidence: number } {
+  const minLag = Math.floor((60 * framesPerSecond) / MAX_BPM);
+  const maxLag = Math.ceil((60 * framesPerSecond) / MIN_BPM);
+  if (envelope.length < maxLag * 4) return { bpm: null, confidence: 0 };
+
+  const autocorrelation = new Float64Array(maxLag * 2 + 2);
+  for (let lag = 0; lag < autocorrelation.length; lag++) {
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) {
+      sum += envelope[i]! * envelope[i - lag]!;
+    }
+    autocorrelation[lag] = sum;
+  }
+
+  const zeroLag = autocorrelation[0]!;
+  if (zeroLag <= 0) return { bpm: null, confidence: 0 };
+
+  let bestLag = 0;
+  let bestScore = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = (60 * framesPerSecond) / lag;
+    const octaves = Math.log2(bpm / PREFERRED_BPM) / TEMPO_PRIOR_OCTAVES;
+    const prior = Math.exp(-0.5 * octaves * octaves);
+    const score =
+      (autocorrelation[lag]! + 0.5 * autocorrelation[lag * 2]!) * prior;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  if (!bestLag) return { bpm: null, confidence: 0 };
+
+  // Parabolic interpolation between neighbouring lags for sub-frame precision
+  const previous = autocorrelation[bestLag - 1]!;
+  const current = autocorrelation[bestLag]!;
+  const next = autocorrelation[bestLag + 1]!;
+  const curvature = previous - 2 * current + next;
+  const offset = curvature < 0 ? (0.5 * (previous - next)) / curvature : 0;
+  const period = bestLag + Math.max(-0.5, Math.min(0.5, offset));
+
+  const confidence = clamp01(current / zeroLag);
+  return {
+    bpm:
+      confidence >= MIN_BPM_CONFIDENCE
+        ? Math.round(((60 * framesPerSecond) / period) * 10) / 10
+        : null,
+    confidence,
+  };
+}
+
+/**
+ * Best matching major or minor key for an accumulated chroma vector
+ */
+function estimateKey(chroma: number[]): {
+  key: string | null;
+  confidence: number;
+} {
+  if (chroma.every((value) => value === 0)) {
+    return { key: null, confidence: 0 };
+  }
+
+  let best = { key: "", score: -Infinity };
+  for (let tonic = 0; tonic < 12; tonic++) {
+    const major = correlateProfile(chroma, MAJOR_PROFILE, tonic);
+    if (major > best.score) {
+      best = { key: PITCH_CLASSES[tonic]!, score: major };
+    }
+    const minor = correlateProfile(chroma, MINOR_PROFILE, tonic);
+    if (minor > best.score) {
+      best = { key: `${PITCH_CLASSES[tonic]}m`, score: minor };
+    }
+  }
+
+  return { key: best.key, confidence: clamp01(best.score) };
+}
+
+/**
+ * Estimate tempo, key, energy and spectral statistics of a mono signal
+ */
+export function extractAudioFeatures(
+  samples: Float32Array,
+  sampleRate: number,
+): BrowserAudioFeatures {
+  const frameCount = Math.max(
+    0,
+    Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1,
+  );
+  const binCount = FRAME_SIZE / 2 + 1;
+  const binHz = sampleRate / FRAME_SIZE;
+
+  const hann = new Float64Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    hann[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1));
+  }
+
+  // Pitch class of each bin within the chroma range (-1 = ignored)
+  const binPitchClass = new Int8Array(binCount).fill(-1);
+  for (let bin = 1; bin < binCount; bin++) {
+    const frequency = bin * binHz;
+    if (frequency < CHROMA_MIN_HZ || frequency > CHROMA_MAX_HZ) continue;
+    const midi = Math.round(12 * Math.log2(frequency / 440) + 69);
+    binPitchClass[bin] = ((midi % 12) + 12) % 12;
+  }
+
+  const re = new Float64Array(FRAME_SIZE);
+  const im = new Float64Array(FRAME_SIZE);
+  let previousLog = new Float64Array(binCount);
+  let currentLog = new Float64Array(binCount);
+  const flux = new Float64Array(frameCount);
+  const chroma = new Array<number>(12).fill(0);
+  let centroidSum = 0;
+  let centroidFrames = 0;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const offset = frame * HOP_SIZE;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      re[i] = samples[offset + i]! * hann[i]!;
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    const frameChroma = new Array<number>(12).fill(0);
+    let magnitudeSum = 0;
+    let weightedFrequency = 0;
+    let frameFlux = 0;
+
+    for (let bin = 0; bin < binCount; bin++) {
+      const magnitude = Math.hypot(re[bin]!, im[bin]!);
+      magnitudeSum += magnitude;
+      weightedFrequency += magnitude * bin * binHz;
+
+      // Log compression keeps quiet attacks visible next to loud sustains
+      currentLog[bin] = Math.log1p(100 * magnitude);
+      if (frame > 0) {
+        frameFlux += Math.max(0, currentLog[bin]! - previousLog[bin]!);
+      }
+
+      const pitchClass = binPitchClass[bin]!;
+      if (pitchClass >= 0) frameChroma[pitchClass]! += magnitude;
+    }
+
+    flux[frame] = frameFlux;
+    if (magnitudeSum > 1e-6) {
+      centroidSum += weightedFrequency / magnitudeSum;
+      centroidFrames++;
+
+      // Normalise per frame so loud passages don't dominate the key
+      const peak = Math.max(...frameChroma);
+      if (peak > 0) {
+        for (let i = 0; i < 12; i++) chroma[i]! += frameChroma[i]! / peak;
+      }
+    }
+
+    [previousLog, currentLog] = [currentLog, previousLog];
+  }
+
+  // Onset envelope: flux above its local average
+  const framesPerSecond = sampleRate / HOP_SIZE;
+  const averageFrames = Math.round(framesPerSecond / 2);
+  const envelope = new Float64Array(frameCount);
+  for (let frame = 0; frame < frameCount; frame++) {
+    const start = Math.max(0, frame - averageFrames);
+    const end = Math.min(frameCount, frame + averageFrames + 1);
+    envelope[frame] = Math.max(
+      0,
+      flux[frame]! - mean(flux.subarray(start, end)),
+    );
+  }
+
+  // Onset density: envelope peaks clearly above the typical level
+  const envelopeMean = mean(envelope);
+  let onsetCount = 0;
+  for (let frame = 1; frame < frameCount - 1; frame++) {
+    if (
+      envelope[frame]! > envelopeMean * 2 &&
+      envelope[frame]! >= envelope[frame - 1]! &&
+      envelope[frame]! > envelope[frame + 1]!
+    ) {
+      onsetCount++;
+    }
+  }
+  const durationSeconds = samples.length / sampleRate;
+  const onsetsPerSecond =
+    durationSeconds > 0 ? onsetCount / durationSeconds : 0;
+
+  let sumSquares = 0;
+  for (const sample of samples) {
+    sumSquares += sample * sample;
+  }
+  const rms = Math.sqrt(sumSquares / Math.max(1, samples.length));
+  const loudness = rms > 0 ? 20 * Math.log10(rms) : -120;
+  const spectralCentroid = centroidFrames ? centroidSum / centroidFrames : 0;
+
+  const tempo = estimateTempo(envelope, framesPerSecond);
+  const key = estimateKey(chroma);
+
+  // Perceived intensity: mostly level, plus brightness and busyness
+  const energy = clamp01(
+    0.6 * clamp01((loudness + 30) / 24) +
+      0.25 * clamp01(spectralCentroid / 3500) +
+      0.15 * clamp01(onsetsPerSecond / 8),
+  );
+
+  return {
+    bpm: tempo.bpm,
+    bpmConfidence: tempo.confidence,
+    key: key.key,
+    keyConfidence: key.confidence,
+    energy,
+    loudness,
+    spectralCentroid,
+  };
+}
@@ -0,0 +1,81 @@
+// File: src/utils/audioQuality.ts
+
+import { AUDIO_QUALITIES } from "@/config/player";
+import type { AudioQuality } from "@/types";
+
+/**
+ * Stream quality helpers: ordering, and the highest quality the current
+ * network connection is likely to sustain
+ */
+
+// Network Information API (Chromium only, not in the DOM typings)
+interface NetworkInformation extends EventTarget {
+  effectiveType?: "slow-2g" | "2g" | "3g" | "4g";
+  downlink?: number; // Mbit/s estimate
+  saveData?: boolean;
+}
+
+const getConnection = (): NetworkInformation | null =>
+  typeof navigator !== "undefined"
+    ? ((navigator as Navigator & { connection?: NetworkInformation })
+        .connection ?? null)
+    : null;
+
+export const AUDIO_QUALITY_LABELS: Record<AudioQuality, string> = {
+  low: "Low",
+  normal: "Normal",
+  high: "High",
+  lossless: "Lossless",
+};
+
+const rank = (quality: AudioQuality) => AUDIO_QUALITIES.indexOf(quality);
+
+/**
+ * The lower of two qualities
+ */
+export function minQuality(a: AudioQuality, b: AudioQuality): AudioQuality {
+  return rank(a) <= rank(b) ? a : b;
+}
+
+/**
+ * Quality `steps` levels below `quality`, bottoming out at the lowest
+ */
+export function stepDownQuality(
+  quality: AudioQuality,
+  steps = 1,
+): AudioQuality {
+  return AUDIO_QUALITIES[Math.max(0, rank(quality) - steps)]!;
+}
+
+/**
+ * Highest quality worth requesting on the current connection. Browsers
+ * without the Network Information API are not capped.
+ */
+export function getNetworkQualityCap(): AudioQuality {
+  const connection = getConnection();
+  if (!connection) return "lossless";
+
+  if (connection.saveData) return "low";
+  switch (connection.effectiveType) {
+    case "slow-2g":
+    case "2g":
+      return "low";
+    case "3g":
+      return "normal";
+  }
+  // Lossless streams need ~1 Mbit/s; leave headroom for everything else
+  if (connection.downlink !== undefined && connection.downlink < 3) {
+    return "high";
+  }
+  return "lossless";
+}
+
+/**
+ * Call `listener` whenever the connection estimate changes. Returns the
+ * unsubscribe function.
+ */
+export function onNetworkChange(listener: () => void): () => void {
+  const connection = getConnection();
+  connection?.addEventListener("change", listener);
+  return () => connection?.removeEventListener("change", listener);
+}
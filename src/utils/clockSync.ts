@@ -0,0 +1,78 @@
+// File: src/utils/clockSync.ts
+
+import { ROOM_CLOCK_SAMPLES } from "@/config/rooms";
+import type { ListeningRoomPlayback } from "@/types";
+
+/**
+ * Clock synchronization for listening rooms
+ *
+ * Device clocks can be seconds apart, so participants can't compare the
+ * host's server-stamped position with their own clock. They estimate the
+ * offset to the server's clock NTP-style: ask for the server time a few
+ * times and trust the answer with the shortest round trip, assuming it spent
+ * equal time going each way.
+ */
+
+export interface ClockSample {
+  offset: number; // ms to add to the local clock to get the server's
+  roundTrip: number; // ms
+}
+
+/**
+ * Offset implied by one request sent at `sentAt` and answered with
+ * `serverTime` at `receivedAt` (local ms)
+ */
+export function measureClockSample(
+  sentAt: number,
+  serverTime: number,
+  receivedAt: number,
+): ClockSample {
+  const roundTrip = receivedAt - sentAt;
+  return { offset: serverTime - (sentAt + roundTrip / 2), roundTrip };
+}
+
+/**
+ * Best offset from several samples: the one with the shortest round trip
+ * had the least room for asymmetric delays
+ */
+export function estimateClockOffset(samples: ClockSample[]): number {
+  let best: ClockSample | null = null;
+  for (const sample of samples) {
+    if (!best || sample.roundTrip < best.roundTrip) best = sample;
+  }
+  return best?.offset ?? 0;
+}
+
+/**
+ * Estimate the offset to the server's clock with `getServerTime`, sampled
+ * one request after another
+ */
+export async function syncClock(
+  getServerTime: () => Promise<number>,
+  sampleCount: number = ROOM_CLOCK_SAMPLES,
+): Promise<number> {
+  const samples: ClockSample[] = [];
+  for (let i = 0; i < sampleCount; i++) {
+    const sentAt = Date.now();
+    const serverTime = await getServerTime();
+    samples.push(measureClockSample(sentAt, serverTime, Date.now()));
+  }
+  return estimateClockOffset(samples);
+}
+
+/**
+ * Where the host's track is at `serverNow`, extrapolated from its last
+ * report, in seconds
+ */
+export function getExpectedPosition(
+  playback: ListeningRoomPlayback,
+  serverNow: number,
+): number {
+  const elapsed = playback.isPlaying
+    ? Math.max(0, serverNow - playback.updatedAt) / 1000
+    : 0;
+  const position = playback.position + elapsed;
+  return playback.track
+    ? Math.min(position, playback.track.duration)
+    : position;
+}
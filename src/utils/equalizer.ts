@@ -0,0 +1,234 @@
+// File: src/utils/equalizer.ts
+
+import {
+  CORRECTION_MAX_GAIN_DB,
+  CORRECTION_MAX_PREAMP_DB,
+  CORRECTION_MIN_PREAMP_DB,
+  EQ_GAIN_FILTER_TYPES,
+  EQ_MAX_FREQUENCY,
+  EQ_MAX_Q,
+  EQ_MIN_FREQUENCY,
+  EQ_MIN_Q,
+  MAX_CORRECTION_BANDS,
+} from "@/config/equalizer";
+import type {
+  EqualizerCorrectionProfile,
+  EqualizerFilterType,
+  ParametricEqBand,
+} from "@/types";
+
+// Scratch context used to evaluate filter responses without touching playback
+let responseContext: OfflineAudioContext | null = null;
+
+/**
+ * Logarithmically spaced frequencies across the audible range, for plotting
+ */
+export function createLogFrequencies(
+  count: number,
+  min = EQ_MIN_FREQUENCY,
+  max = EQ_MAX_FREQUENCY,
+): Float32Array<ArrayBuffer> {
+  const frequencies = new Float32Array(count);
+  const ratio = Math.log(max / min);
+  for (let i = 0; i < count; i++) {
+    frequencies[i] = min * Math.exp((ratio * i) / (count - 1));
+  }
+  return frequencies;
+}
+
+/**
+ * Combined magnitude response (in dB) of a set of bands at the given
+ * frequencies. Uses the live filter nodes when provided so the curve matches
+ * exactly what is being played, otherwise builds equivalent scratch filters.
+ */
+export function computeFrequencyResponse(
+  bands: ParametricEqBand[],
+  frequencies: Float32Array<ArrayBuffer>,
+  liveFilters?: BiquadFilterNode[],
+): Float32Array<ArrayBuffer> {
+  const response = new Float32Array(frequencies.length);
+  if (typeof OfflineAudioContext === "undefined") return response;
+
+  const magnitude = new Float32Array(frequencies.length);
+  const phase = new Float32Array(frequencies.length);
+
+  const filters =
+    liveFilters && liveFilters.length === bands.length
+      ? liveFilters
+      : bands.map((band) => {
+          responseContext ??= new OfflineAudioContext(1, 1, 48000);
+          const filter = responseContext.createBiquadFilter();
+          filter.type = band.type;
+          filter.frequency.value = band.frequency;
+          filter.gain.value = band.gain;
+          filter.Q.value = band.Q;
+          return filter;
+        });
+
+  for (const filter of filters) {
+    filter.getFrequencyResponse(frequencies, magnitude, phase);
+    for (let i = 0; i < frequencies.length; i++) {
+      response[i]! += 20 * Math.log10(Math.max(magnitude[i]!, 1e-6));
+    }
+  }
+
+  return response;
+}
+
+// ============================================
+// EQUALIZER APO / AUTOEQ TEXT FORMAT
+// ============================================
+
+const APO_FILTER_TYPES: Record<string, EqualizerFilterType> = {
+  PK: "peaking",
+  PEQ: "peaking",
+  MODAL: "peaking",
+  LS: "lowshelf",
+  LSC: "lowshelf",
+  HS: "highshelf",
+  HSC: "highshelf",
+  LP: "lowpass",
+  LPQ: "lowpass",
+  HP: "highpass",
+  HPQ: "highpass",
+  NO: "notch",
+  BP: "bandpass",
+};
+
+const APO_TYPE_CODES: Record<EqualizerFilterType, string> = {
+  peaking: "PK",
+  lowshelf: "LSC",
+  highshelf: "HSC",
+  lowpass: "LPQ",
+  highpass: "HPQ",
+  notch: "NO",
+  bandpass: "BP",
+};
+
+// Default Q used by EqualizerAPO when a filter line doesn't specify one
+const APO_DEFAULT_Q = 0.707;
+
+export interface EqualizerApoProfile {
+  preamp: number; // dB
+  bands: ParametricEqBand[];
+  skippedLines: number; // Filter lines we couldn't map to a biquad
+}
+
+/**
+ * Parse an EqualizerAPO configuration (the format AutoEQ publishes), e.g.
+ *   Preamp: -6 dB
+ *   Filter 1: ON PK Fc 105 Hz Gain 3.2 dB Q 0.70
+ * Disabled filters and comments are ignored. Throws if no usable filter is found.
+ */
+export function parseEqualizerApo(text: string): EqualizerApoProfile {
+  let preamp = 0;
+  let skippedLines = 0;
+  const bands: ParametricEqBand[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const preampMatch = /^Preamp:\s*(-?[\d.]+)\s*dB/i.exec(line);
+    if (preampMatch) {
+      preamp += Number(preampMatch[1]);
+      continue;
+    }
+
+    const filterMatch = /^Filter\s*\d*\s*:\s*(ON|OFF)\s+([A-Z]+)\b(.*)$/i.exec(
+      line,
+    );
+    if (!filterMatch) continue;
+    if (filterMatch[1]!.toUpperCase() === "OFF") continue;
+
+    const type = APO_FILTER_TYPES[filterMatch[2]!.toUpperCase()];
+    const params = filterMatch[3] ?? "";
+    const frequency = /Fc\s+([\d.]+)\s*Hz/i.exec(params)?.[1];
+    if (!type || frequency === undefined) {
+      skippedLines++;
+      continue;
+    }
+
+    const gain = /Gain\s+(-?[\d.]+)\s*dB/i.exec(params)?.[1];
+    const q = /\bQ\s+([\d.]+)/i.exec(params)?.[1];
+    const bandwidth = /BW\s+Oct\s+([\d.]+)/i.exec(params)?.[1];
+
+    let Q = q !== undefined ? Number(q) : APO_DEFAULT_Q;
+    if (q === undefined && bandwidth !== undefined) {
+      // Convert bandwidth in octaves to Q
+      const factor = Math.pow(2, Number(bandwidth));
+      Q = Math.sqrt(factor) / (factor - 1);
+    }
+
+    bands.push({
+      frequency: Math.max(
+        EQ_MIN_FREQUENCY,
+        Math.min(EQ_MAX_FREQUENCY, Number(frequency)),
+      ),
+      gain: gain !== undefined ? Number(gain) : 0,
+      type,
+      Q,
+    });
+  }
+
+  if (bands.length === 0) {
+    throw new Error("No supported filters found in profile");
+  }
+
+  return { preamp, bands, skippedLines };
+}
+
+/**
+ * Serialize bands (and an optional preamp) to the EqualizerAPO text format
+ */
+export function formatEqualizerApo(
+  bands: ParametricEqBand[],
+  preamp = 0,
+): string {
+  const round = (value: number, digits: number) =>
+    Number(value.toFixed(digits)).toString();
+
+  const lines = [`Preamp: ${round(preamp, 1)} dB`];
+  bands.forEach((band, index) => {
+    const code = APO_TYPE_CODES[band.type];
+    let line = `Filter ${index + 1}: ON ${code} Fc ${round(band.frequency, 0)} Hz`;
+    if (EQ_GAIN_FILTER_TYPES.includes(band.type)) {
+      line += ` Gain ${round(band.gain, 1)} dB`;
+    }
+    line += ` Q ${round(band.Q, 2)}`;
+    lines.push(line);
+  });
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Build a device correction profile from EqualizerAPO text, clamping values
+ * to what the audio graph accepts. Throws on unusable or oversized profiles.
+ */
+export function createCorrectionProfile(
+  name: string,
+  text: string,
+): EqualizerCorrectionProfile {
+  const { preamp, bands } = parseEqualizerApo(text);
+
+  if (bands.length > MAX_CORRECTION_BANDS) {
+    throw new Error(
+      `Profile has ${bands.length} filters (maximum is ${MAX_CORRECTION_BANDS})`,
+    );
+  }
+
+  const clamp = (value: number, min: number, max: number) =>
+    Math.max(min, Math.min(max, value));
+
+  return {
+    name: name.trim() || "Imported profile",
+    enabled: true,
+    preamp: clamp(preamp, CORRECTION_MIN_PREAMP_DB, CORRECTION_MAX_PREAMP_DB),
+    bands: bands.map((band) => ({
+      ...band,
+      gain: clamp(band.gain, -CORRECTION_MAX_GAIN_DB, CORRECTION_MAX_GAIN_DB),
+      Q: clamp(band.Q, EQ_MIN_Q, EQ_MAX_Q),
+    })),
+  };
+}
@@ -0,0 +1,154 @@
+// File: src/utils/loudness.ts
+
+import { MAX_NORMALIZATION_GAIN_DB } from "@/config/player";
+import { logger } from "@/utils/logger";
+
+// ~90 seconds of a 256 kbps stream is plenty for a stable estimate
+const MEASURE_BYTES = 3 * 1024 * 1024;
+
+// ITU-R BS.1770 gating parameters
+const BLOCK_SECONDS = 0.4;
+const BLOCK_STEPS = 4; // 75% overlap between consecutive blocks
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+const powerToLufs = (power: number): number => -0.691 + 10 * Math.log10(power);
+
+const mean = (values: number[]): number =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Estimate the integrated loudness of a decoded buffer in LUFS.
+ * Applies the K-weighting pre-filter, then gated 400ms block averaging.
+ * Returns null for silent buffers.
+ */
+export async function measureIntegratedLoudness(
+  buffer: AudioBuffer,
+): Promise<number | null> {
+  const offline = new OfflineAudioContext(
+    buffer.numberOfChannels,
+    buffer.length,
+    buffer.sampleRate,
+  );
+
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+
+  // K-weighting: high shelf modelling the head, then the RLB high-pass
+  const shelf = offline.createBiquadFilter();
+  shelf.type = "highshelf";
+  shelf.frequency.value = 1681;
+  shelf.gain.value = 4;
+
+  const highpass = offline.createBiquadFilter();
+  highpass.type = "highpass";
+  highpass.frequency.value = 38;
+  highpass.Q.value = 0.5;
+
+  source.connect(shelf).connect(highpass).connect(offline.destination);
+  source.start();
+  const weighted = await offline.startRendering();
+
+  // Mean square per step, summed across channels; a block is BLOCK_STEPS steps
+  const stepSize = Math.round(
+    (BLOCK_SECONDS * weighted.sampleRate) / BLOCK_STEPS,
+  );
+  const stepCount = Math.floor(weighted.length / stepSize);
+  const stepPowers = new Float64Array(stepCount);
+
+  for (let channel = 0; channel < weighted.numberOfChannels; channel++) {
+    const data = weighted.getChannelData(channel);
+    for (let step = 0; step < stepCount; step++) {
+      let sum = 0;
+      const start = step * stepSize;
+      for (let i = start; i < start + stepSize; i++) {
+        sum += data[i]! * data[i]!;
+      }
+      stepPowers[step]! += sum / stepSize;
+    }
+  }
+
+  const blockPowers: number[] = [];
+  for (let step = 0; step + BLOCK_STEPS <= stepCount; step++) {
+    let power = 0;
+    for (let i = 0; i < BLOCK_STEPS; i++) {
+      power += stepPowers[step + i]!;
+    }
+    blockPowers.push(power / BLOCK_STEPS);
+  }
+
+  const aboveAbsolute = blockPowers.filter(
+    (power) => powerToLufs(power) > ABSOLUTE_GATE_LUFS,
+  );
+  if (aboveAbsolute.length === 0) return null;
+
+  const relativeGate = powerToLufs(mean(aboveAbsolute)) + RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter(
+    (power) => powerToLufs(power) > relativeGate,
+  );
+
+  return powerToLufs(mean(gated.length > 0 ? gated : aboveAbsolute));
+}
+
+/**
+ * Fetch and decode the head of a stream (enough for analysis without
+ * downloading the whole track). Returns null when it can't be fetched or decoded.
+ */
+export async function decodeStreamHead(
+  streamUrl: string,
+  signal?: AbortSignal,
+): Promise<AudioBuffer | null> {
+  try {
+    const response = await fetch(streamUrl, {
+      headers: { Range: `bytes=0-${MEASURE_BYTES - 1}` },
+      signal,
+    });
+    if (!response.ok) {
+      logger.warn(
+        `[loudness] Stream request failed with status ${response.status}`,
+      );
+      return null;
+    }
+
+    const data = await response.arrayBuffer();
+    const decoder = new OfflineAudioContext(1, 1, 44100);
+    return await decoder.decodeAudioData(data);
+  } catch (error) {
+    if (signal?.aborted) return null;
+    logger.warn("[loudness] Failed to decode stream:", error);
+    return null;
+  }
+}
+
+/**
+ * Fetch and decode the head of a stream and estimate its integrated loudness.
+ * Returns null when the stream can't be fetched or decoded.
+ */
+export async function measureStreamLoudness(
+  streamUrl: string,
+  signal?: AbortSignal,
+): Promise<number | null> {
+  const buffer = await decodeStreamHead(streamUrl, signal);
+  if (!buffer) return null;
+
+  try {
+    return await measureIntegratedLoudness(buffer);
+  } catch (error) {
+    logger.warn("[loudness] Failed to measure stream loudness:", error);
+    return null;
+  }
+}
+
+/**
+ * Gain in dB needed to bring a track measured at `measuredLufs` to `targetLufs`,
+ * clamped so quiet recordings aren't boosted into clipping.
+ */
+export function computeNormalizationGainDb(
+  measuredLufs: number,
+  targetLufs: number,
+): number {
+  return Math.max(
+    -MAX_NORMALIZATION_GAIN_DB,
+    Math.min(MAX_NORMALIZATION_GAIN_DB, targetLufs - measuredLufs),
+  );
+}
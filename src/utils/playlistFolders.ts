@@ -0,0 +1,70 @@
+// File: src/utils/playlistFolders.ts
+
+import type { PlaylistFolder } from "@/types";
+
+export interface PlaylistFolderNode<P> {
+  folder: PlaylistFolder;
+  folders: PlaylistFolderNode<P>[];
+  playlists: P[];
+}
+
+/**
+ * Nest playlists in their folders. Playlists outside any folder, or in one
+ * that no longer exists, are returned as `unfiled`.
+ */
+export function buildPlaylistFolderTree<P extends { folderId?: number | null }>(
+  folders: PlaylistFolder[],
+  playlists: P[],
+): { folders: PlaylistFolderNode<P>[]; unfiled: P[] } {
+  const nodes = new Map<number, PlaylistFolderNode<P>>(
+    folders.map((folder) => [
+      folder.id,
+      { folder, folders: [], playlists: [] },
+    ]),
+  );
+
+  const roots: PlaylistFolderNode<P>[] = [];
+  for (const folder of folders) {
+    const node = nodes.get(folder.id)!;
+    const parent =
+      folder.parentId === null ? undefined : nodes.get(folder.parentId);
+    (parent?.folders ?? roots).push(node);
+  }
+
+  const unfiled: P[] = [];
+  for (const playlist of playlists) {
+    const node = playlist.folderId ? nodes.get(playlist.folderId) : undefined;
+    (node?.playlists ?? unfiled).push(playlist);
+  }
+
+  return { folders: roots, unfiled };
+}
+
+/**
+ * Playlists in a folder and all the folders nested in it
+ */
+export function countFolderPlaylists<P>(node: PlaylistFolderNode<P>): number {
+  return node.folders.reduce(
+    (total, child) => total + countFolderPlaylists(child),
+    node.playlists.length,
+  );
+}
+
+/**
+ * Whether a folder can be dropped into another without ending up inside
+ * itself
+ */
+export function canMoveFolderInto(
+  folders: PlaylistFolder[],
+  folderId: number,
+  targetId: number | null,
+) {
+  const byId = new Map(folders.map((folder) => [folder.id, folder]));
+  let current = targetId === null ? undefined : byId.get(targetId);
+  while (current) {
+    if (current.id === folderId) return false;
+    current =
+      current.parentId === null ? undefined : byId.get(current.parentId);
+  }
+  return byId.get(folderId)?.parentId !== targetId;
+}
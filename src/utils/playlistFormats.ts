@@ -0,0 +1,319 @@
+// File: src/utils/playlistFormats.ts
+
+import type { Track } from "@/types";
+
+export type PlaylistFileFormat = "m3u8" | "xspf" | "jspf";
+
+export const PLAYLIST_FILE_FORMATS: Record<
+  PlaylistFileFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  m3u8: {
+    label: "M3U8",
+    extension: "m3u8",
+    mimeType: "application/vnd.apple.mpegurl",
+  },
+  xspf: { label: "XSPF", extension: "xspf", mimeType: "application/xspf+xml" },
+  jspf: { label: "JSPF", extension: "jspf", mimeType: "application/json" },
+};
+
+/**
+ * Track as read from a playlist file, before it's matched to a real track
+ */
+export interface PlaylistFileEntry {
+  deezerId?: number;
+  title: string;
+  artist?: string;
+  album?: string;
+  duration?: number; // seconds
+}
+
+export interface PlaylistFile {
+  title: string | null;
+  entries: PlaylistFileEntry[];
+}
+
+const XSPF_NAMESPACE = "http://xspf.org/ns/0/";
+
+export function getDeezerTrackUrl(trackId: number) {
+  return `https://www.deezer.com/track/${trackId}`;
+}
+
+/**
+ * Deezer track ID in a track URL, e.g. https://www.deezer.com/en/track/3135556
+ */
+export function parseDeezerTrackId(url: string): number | undefined {
+  const match = /deezer\.com\/(?:[a-z]{2}\/)?track\/(\d+)/i.exec(url);
+  return match?.[1] ? Number(match[1]) : undefined;
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// EXTINF titles end at the line, so line breaks can't be kept
+function singleLine(value: string) {
+  return value.replace(/[\r\n]+/g, " ");
+}
+
+function toM3u8(name: string, tracks: Track[]) {
+  const lines = ["#EXTM3U", `#PLAYLIST:${singleLine(name)}`];
+  for (const track of tracks) {
+    lines.push(
+      `#EXTINF:${track.duration},${singleLine(`${track.artist.name} - ${track.title}`)}`,
+      `#EXTALB:${singleLine(track.album.title)}`,
+      `#EXTART:${singleLine(track.artist.name)}`,
+      getDeezerTrackUrl(track.id),
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function toXspf(name: string, tracks: Track[]) {
+  const items = tracks.map((track) => {
+    const url = escapeXml(getDeezerTrackUrl(track.id));
+    return [
+      "    <track>",
+      `      <location>${url}</location>`,
+      `      <identifier>${url}</identifier>`,
+      `      <title>${escapeXml(track.title)}</title>`,
+      `      <creator>${escapeXml(track.artist.name)}</creator>`,
+      `      <album>${escapeXml(track.album.title)}</album>`,
+      `      <duration>${track.duration * 1000}</duration>`,
+      `      <image>${escapeXml(track.album.cover_big)}</image>`,
+      "    </track>",
+    ].join("\n");
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<playlist version="1" xmlns="${XSPF_NAMESPACE}">`,
+    `  <title>${escapeXml(name)}</title>`,
+    `  <date>${new Date().toISOString()}</date>`,
+    "  <trackList>",
+    ...items,
+    "  </trackList>",
+    "</playlist>",
+    "",
+  ].join("\n");
+}
+
+function toJspf(name: string, tracks: Track[]) {
+  return JSON.stringify(
+    {
+      playlist: {
+        title: name,
+        date: new Date().toISOString(),
+        track: tracks.map((track) => ({
+          location: [getDeezerTrackUrl(track.id)],
+          identifier: [getDeezerTrackUrl(track.id)],
+          title: track.title,
+          creator: track.artist.name,
+          album: track.album.title,
+          duration: track.duration * 1000,
+          image: track.album.cover_big,
+        })),
+      },
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Write tracks as a playlist file, with their Deezer links so they can be
+ * found again exactly
+ */
+export function exportPlaylistFile(
+  format: PlaylistFileFormat,
+  name: string,
+  tracks: Track[],
+): string {
+  switch (format) {
+    case "m3u8":
+      return toM3u8(name, tracks);
+    case "xspf":
+      return toXspf(name, tracks);
+    case "jspf":
+      return toJspf(name, tracks);
+  }
+}
+
+/**
+ * Save a playlist file through the browser's download
+ */
+export function downloadPlaylistFile(
+  format: PlaylistFileFormat,
+  name: string,
+  tracks: Track[],
+) {
+  const { extension, mimeType } = PLAYLIST_FILE_FORMATS[format];
+  const blob = new Blob([exportPlaylistFile(format, name, tracks)], {
+    type: mimeType,
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${name.replace(/[\\/:*?"<>|]+/g, "_").trim() || "playlist"}.${extension}`;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url));
+}
+
+// "Artist - Title", as EXTINF usually carries it
+function splitArtistTitle(value: string) {
+  const separator = value.indexOf(" - ");
+  if (separator === -1) return { title: value.trim() };
+  return {
+    artist: value.slice(0, separator).trim(),
+    title: value.slice(separator + 3).trim(),
+  };
+}
+
+// Without EXTINF, the file name is the best guess at a title
+function titleFromLocation(location: string) {
+  const fileName = location.split(/[\\/]/).pop() ?? location;
+  let decoded = fileName;
+  try {
+    decoded = decodeURIComponent(fileName);
+  } catch {
+    // Stray "%" in the name; use it as written
+  }
+  return decoded.replace(/\.[a-z0-9]+$/i, "") || location;
+}
+
+function parseM3u8(content: string): PlaylistFile {
+  let title: string | null = null;
+  let pending: Partial<PlaylistFileEntry> = {};
+  const entries: PlaylistFileEntry[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith("#PLAYLIST:")) {
+      title = line.slice("#PLAYLIST:".length).trim() || null;
+    } else if (line.startsWith("#EXTINF:")) {
+      const info = line.slice("#EXTINF:".length);
+      const comma = info.indexOf(",");
+      const duration = Number(info.slice(0, comma === -1 ? undefined : comma));
+      pending = {
+        ...pending,
+        ...(comma === -1 ? {} : splitArtistTitle(info.slice(comma + 1))),
+        duration: duration > 0 ? duration : undefined,
+      };
+    } else if (line.startsWith("#EXTALB:")) {
+      pending.album = line.slice("#EXTALB:".length).trim();
+    } else if (line.startsWith("#EXTART:")) {
+      pending.artist = line.slice("#EXTART:".length).trim();
+    } else if (!line.startsWith("#")) {
+      // The location ends the entry
+      const deezerId = parseDeezerTrackId(line);
+      entries.push({
+        ...pending,
+        deezerId,
+        title: pending.title ?? titleFromLocation(line),
+      });
+      pending = {};
+    }
+  }
+
+  return { title, entries };
+}
+
+function parseXspf(content: string): PlaylistFile {
+  const xml = new DOMParser().parseFromString(content, "application/xml");
+  if (xml.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("The file isn't valid XML");
+  }
+
+  // Direct child text, ignoring the namespace some files leave out
+  const childText = (parent: Element, name: string) =>
+    Array.from(parent.children)
+      .find((child) => child.localName === name)
+      ?.textContent?.trim();
+
+  const root = xml.documentElement;
+  const entries = Array.from(root.getElementsByTagNameNS("*", "track")).map(
+    (track): PlaylistFileEntry => {
+      const urls = Array.from(track.children)
+        .filter(
+          (child) =>
+            child.localName === "location" || child.localName === "identifier",
+        )
+        .map((child) => child.textContent?.trim() ?? "");
+      const duration = Number(childText(track, "duration"));
+      return {
+        deezerId: urls.map(parseDeezerTrackId).find((id) => id !== undefined),
+        title: childText(track, "title") ?? "",
+        artist: childText(track, "creator"),
+        album: childText(track, "album"),
+        duration: duration > 0 ? Math.round(duration / 1000) : undefined,
+      };
+    },
+  );
+
+  return { title: childText(root, "title") ?? null, entries };
+}
+
+function parseJspf(content: string): PlaylistFile {
+  const data = JSON.parse(content) as {
+    playlist?: {
+      title?: string;
+      track?: Array<{
+        location?: string | string[];
+        identifier?: string | string[];
+        title?: string;
+        creator?: string;
+        album?: string;
+        duration?: number;
+      }>;
+    };
+  };
+  if (!data.playlist) {
+    throw new Error("The file isn't a JSPF playlist");
+  }
+
+  const entries = (data.playlist.track ?? []).map(
+    (track): PlaylistFileEntry => {
+      const urls = [track.location ?? [], track.identifier ?? []].flat();
+      return {
+        deezerId: urls.map(parseDeezerTrackId).find((id) => id !== undefined),
+        title: track.title ?? "",
+        artist: track.creator,
+        album: track.album,
+        duration:
+          typeof track.duration === "number" && track.duration > 0
+            ? Math.round(track.duration / 1000)
+            : undefined,
+      };
+    },
+  );
+
+  return { title: data.playlist.title ?? null, entries };
+}
+
+/**
+ * Read an M3U/M3U8, XSPF or JSPF playlist, telling them apart by content
+ */
+export function parsePlaylistFile(content: string): PlaylistFile {
+  const text = content.replace(/^\uFEFF/, "").trim();
+  const file = text.startsWith("<")
+    ? parseXspf(text)
+    : text.startsWith("{")
+      ? parseJspf(text)
+      : parseM3u8(text);
+
+  // Entries with nothing to search for can't be matched
+  return {
+    ...file,
+    entries: file.entries.filter(
+      (entry) => entry.deezerId !== undefined || entry.title.trim(),
+    ),
+  };
+}
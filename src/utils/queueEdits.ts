@@ -0,0 +1,234 @@
+// File: src/utils/queueEdits.ts
+
+import { MAX_QUEUE_EDITS } from "@/config/player";
+import type {
+  QueuedTrack,
+  QueueEdit,
+  QueueEditLog,
+  QueueEditRemoval,
+  QueueEditType,
+  Track,
+} from "@/types";
+
+/**
+ * Undo/redo log for queue edits
+ *
+ * Edits record which entries they took out or moved and the entry each one
+ * followed, rather than a copy of the whole queue. Undoing puts entries back
+ * next to the same neighbours, so tracks added or played since the edit are
+ * kept.
+ */
+
+export const EMPTY_QUEUE_EDIT_LOG: QueueEditLog = { undo: [], redo: [] };
+
+interface QueueSnapshot {
+  queuedTracks: QueuedTrack[];
+  history: Track[];
+}
+
+const createEditId = () =>
+  `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+const findEntry = (queue: QueuedTrack[], queueId: string) =>
+  queue.findIndex((qt) => qt.queueId === queueId);
+
+/**
+ * Remove the entries `keep` rejects, and describe it as an edit (null when
+ * nothing was removed)
+ */
+export function removeFromQueueWithEdit(
+  queue: QueuedTrack[],
+  keep: (queuedTrack: QueuedTrack, index: number) => boolean,
+  type: QueueEditType,
+  label: (removed: QueueEditRemoval[]) => string,
+): { queuedTracks: QueuedTrack[]; edit: QueueEdit | null } {
+  const removed: QueueEditRemoval[] = [];
+  const queuedTracks = queue.filter((queuedTrack, index) => {
+    if (keep(queuedTrack, index)) return true;
+    removed.push({
+      queuedTrack,
+      index,
+      afterQueueId: index > 0 ? queue[index - 1]!.queueId : null,
+    });
+    return false;
+  });
+
+  if (removed.length === 0) return { queuedTracks: queue, edit: null };
+  return {
+    queuedTracks,
+    edit: {
+      id: createEditId(),
+      type,
+      label: label(removed),
+      removed,
+      createdAt: Date.now(),
+    },
+  };
+}
+
+/**
+ * Move an entry within the queue, and describe it as an edit
+ */
+export function moveInQueueWithEdit(
+  queue: QueuedTrack[],
+  oldIndex: number,
+  newIndex: number,
+): { queuedTracks: QueuedTrack[]; edit: QueueEdit | null } {
+  const moved = queue[oldIndex];
+  if (!moved || oldIndex === newIndex) {
+    return { queuedTracks: queue, edit: null };
+  }
+
+  const queuedTracks = [...queue];
+  queuedTracks.splice(oldIndex, 1);
+  queuedTracks.splice(newIndex, 0, moved);
+
+  return {
+    queuedTracks,
+    edit: {
+      id: createEditId(),
+      type: "reorder",
+      label: `Moved "${moved.track.title}"`,
+      removed: [],
+      move: {
+        queueId: moved.queueId,
+        fromAfterQueueId: oldIndex > 0 ? queue[oldIndex - 1]!.queueId : null,
+        toAfterQueueId:
+          newIndex > 0 ? queuedTracks[newIndex - 1]!.queueId : null,
+      },
+      createdAt: Date.now(),
+    },
+  };
+}
+
+/**
+ * Add an edit to the log, dropping the oldest past the limit. A new edit
+ * makes the undone ones unreachable, so the redo stack is cleared.
+ */
+export function pushQueueEdit(
+  log: QueueEditLog,
+  edit: QueueEdit,
+): QueueEditLog {
+  return { undo: [...log.undo, edit].slice(-MAX_QUEUE_EDITS), redo: [] };
+}
+
+// Put an entry back after the one it followed; when that one is gone (e.g.
+// played since), right after the current track. `index` is where it goes
+// when it used to be first or nothing is left to follow.
+function insertAfter(
+  queue: QueuedTrack[],
+  queuedTrack: QueuedTrack,
+  afterQueueId: string | null,
+  index: number,
+): void {
+  const anchor = afterQueueId === null ? -1 : findEntry(queue, afterQueueId);
+  let position: number;
+  if (anchor !== -1) {
+    position = anchor + 1;
+  } else if (afterQueueId !== null) {
+    position = Math.min(1, queue.length);
+  } else {
+    position = Math.min(index, queue.length);
+  }
+  queue.splice(position, 0, queuedTrack);
+}
+
+/**
+ * Queue and history with an edit reverted
+ */
+export function revertQueueEdit(
+  state: QueueSnapshot,
+  edit: QueueEdit,
+): QueueSnapshot {
+  const queuedTracks = [...state.queuedTracks];
+
+  if (edit.move) {
+    const index = findEntry(queuedTracks, edit.move.queueId);
+    // Never move what's playing now
+    if (index > 0) {
+      const [entry] = queuedTracks.splice(index, 1);
+      insertAfter(queuedTracks, entry!, edit.move.fromAfterQueueId, 1);
+    }
+  }
+
+  // In queue order, so entries that followed each other are restored in turn
+  for (const removal of [...edit.removed].sort((a, b) => a.index - b.index)) {
+    if (findEntry(queuedTracks, removal.queuedTrack.queueId) !== -1) continue;
+    if (removal.index === 0 && queuedTracks.length > 0) {
+      // Something else plays now; the track that was playing comes up next
+      queuedTracks.splice(1, 0, removal.queuedTrack);
+    } else {
+      insertAfter(
+        queuedTracks,
+        removal.queuedTrack,
+        removal.afterQueueId,
+        removal.index,
+      );
+    }
+  }
+
+  return {
+    queuedTracks,
+    history: edit.history ? [...edit.history, ...state.history] : state.history,
+  };
+}
+
+/**
+ * Queue with an undone edit applied again. The playing track is kept, so
+ * clearing everything is redone by clearing again instead.
+ */
+export function reapplyQueueEdit(
+  queue: QueuedTrack[],
+  edit: QueueEdit,
+): QueuedTrack[] {
+  let queuedTracks = [...queue];
+
+  if (edit.move) {
+    const index = findEntry(queuedTracks, edit.move.queueId);
+    if (index > 0) {
+      const [entry] = queuedTracks.splice(index, 1);
+      insertAfter(queuedTracks, entry!, edit.move.toAfterQueueId, 1);
+    }
+  }
+
+  if (edit.removed.length > 0) {
+    const removedIds = new Set(edit.removed.map((r) => r.queuedTrack.queueId));
+    queuedTracks = queuedTracks.filter(
+      (qt, index) => index === 0 || !removedIds.has(qt.queueId),
+    );
+  }
+
+  return queuedTracks;
+}
+
+/**
+ * Read a log back from storage, where dates became strings
+ */
+export function reviveQueueEditLog(stored: unknown): QueueEditLog {
+  if (
+    typeof stored !== "object" ||
+    stored === null ||
+    !("undo" in stored) ||
+    !("redo" in stored) ||
+    !Array.isArray(stored.undo) ||
+    !Array.isArray(stored.redo)
+  ) {
+    return EMPTY_QUEUE_EDIT_LOG;
+  }
+
+  const reviveEdit = (edit: QueueEdit): QueueEdit => ({
+    ...edit,
+    removed: edit.removed.map((removal) => ({
+      ...removal,
+      queuedTrack: {
+        ...removal.queuedTrack,
+        addedAt: new Date(removal.queuedTrack.addedAt),
+      },
+    })),
+  });
+
+  return {
+    undo: (stored.undo as QueueEdit[]).slice(-MAX_QUEUE_EDITS).map(reviveEdit),
+    redo: (stored.redo as QueueEdit[]).slice(-MAX_QUEUE_EDITS).map(reviveEdit),
+  };
+}
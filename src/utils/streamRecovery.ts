@@ -0,0 +1,149 @@
+// File: src/utils/streamRecovery.ts
+
+import type {
+  PlayerError,
+  PlayerErrorCode,
+  StreamRecoveryStep,
+  Track,
+} from "@/types";
+import { searchTracks } from "@/utils/api";
+
+/**
+ * Helpers for recovering from a failed stream: probing whether a stream
+ * URL works, finding another release of the same recording, and describing
+ * each step as a PlayerError.
+ */
+
+// Alternates are looked for among this many search results, and at most
+// this many are probed before falling back to the preview
+const ALTERNATE_SEARCH_LIMIT = 25;
+const MAX_ALTERNATE_CANDIDATES = 3;
+const PROBE_TIMEOUT_MS = 15_000;
+
+/**
+ * A stream request answered with an error status
+ */
+export class StreamRequestError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "StreamRequestError";
+  }
+}
+
+/**
+ * Check that a stream URL serves audio by fetching its first bytes. Throws a
+ * StreamRequestError for error responses, other errors when unreachable.
+ */
+export async function probeStream(url: string): Promise<void> {
+  const res = await fetch(url, {
+    headers: { Range: "bytes=0-1" },
+    signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+  });
+  await res.body?.cancel().catch(() => undefined);
+
+  if (!res.ok) {
+    throw new StreamRequestError(
+      res.status,
+      `Stream request failed (${res.status})`,
+    );
+  }
+}
+
+/**
+ * PlayerErrorCode for a media element error, a failed stream request or
+ * anything else thrown while loading
+ */
+export function getPlayerErrorCode(error: unknown): PlayerErrorCode {
+  if (error instanceof StreamRequestError) {
+    if (error.status === 401 || error.status === 403) {
+      return "PERMISSION_DENIED";
+    }
+    if (error.status === 404 || error.status === 410) {
+      return "STREAM_NOT_FOUND";
+    }
+    return "NETWORK_ERROR";
+  }
+
+  if (typeof MediaError !== "undefined" && error instanceof MediaError) {
+    switch (error.code) {
+      case MediaError.MEDIA_ERR_ABORTED:
+        return "ABORTED";
+      case MediaError.MEDIA_ERR_NETWORK:
+        return "NETWORK_ERROR";
+      case MediaError.MEDIA_ERR_DECODE:
+        return "DECODE_ERROR";
+      case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED:
+        return "SRC_NOT_SUPPORTED";
+    }
+  }
+
+  if (error instanceof TypeError) return "NETWORK_ERROR";
+  return "UNKNOWN";
+}
+
+export function createPlayerError(
+  error: unknown,
+  {
+    trackId,
+    recovery,
+  }: { trackId?: number; recovery?: StreamRecoveryStep } = {},
+): PlayerError {
+  const message =
+    error instanceof Error || error instanceof MediaError
+      ? error.message
+      : String(error);
+
+  return {
+    code: getPlayerErrorCode(error),
+    message: message || "Playback failed",
+    timestamp: new Date(),
+    trackId,
+    recoverable: recovery !== undefined,
+    recovery,
+  };
+}
+
+// Compare titles without version suffixes ("(Remastered 2011)", "- Live"),
+// punctuation or case
+const normalizeTitle = (title: string): string =>
+  title
+    .toLowerCase()
+    .replace(/\s*[([].*?[)\]]/g, "")
+    .replace(/\s+-\s+.*$/, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+const normalizeArtist = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+/**
+ * Other releases of the same title by the same artist (album versions,
+ * compilations, singles), most popular first
+ */
+export async function findAlternateVersions(
+  track: Track,
+  exclude: ReadonlySet<number>,
+): Promise<Track[]> {
+  const response = await searchTracks(`${track.artist.name} ${track.title}`);
+  const title = normalizeTitle(track.title_short || track.title);
+  const artist = normalizeArtist(track.artist.name);
+
+  return response.data
+    .slice(0, ALTERNATE_SEARCH_LIMIT)
+    .filter(
+      (candidate) =>
+        candidate.id !== track.id &&
+        !exclude.has(candidate.id) &&
+        candidate.readable !== false &&
+        normalizeArtist(candidate.artist.name) === artist &&
+        normalizeTitle(candidate.title_short || candidate.title) === title,
+    )
+    .sort((a, b) => b.rank - a.rank)
+    .slice(0, MAX_ALTERNATE_CANDIDATES);
+}
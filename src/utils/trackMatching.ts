@@ -0,0 +1,224 @@
+// File: src/utils/trackMatching.ts
+
+import {
+  TRACK_MATCH_CONFIDENT_SCORE,
+  TRACK_MATCH_MAX_CANDIDATES,
+  TRACK_MATCH_MIN_MARGIN,
+  TRACK_MATCH_MIN_SCORE,
+} from "@/config/playlists";
+import type { Track } from "@/types";
+import { getTrackById, searchTracks } from "@/utils/api";
+
+/**
+ * Track described by an imported file, to be found in the catalogue
+ */
+export interface TrackQuery {
+  deezerId?: number;
+  title: string;
+  version?: string; // e.g. "Radio Edit", when kept apart from the title
+  artist?: string;
+  album?: string;
+  duration?: number; // seconds
+}
+
+export type TrackMatchStatus = "matched" | "ambiguous" | "unmatched";
+
+export interface TrackMatchCandidate {
+  track: Track;
+  score: number; // 0-1
+}
+
+export interface TrackMatch {
+  status: TrackMatchStatus;
+  candidates: TrackMatchCandidate[]; // Best first
+}
+
+// Lowercase, no accents, punctuation or "feat." credits
+export function normalizeMatchText(value: string) {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\((?:feat|ft)\.?[^)]*\)|\b(?:feat|ft)\.?\s.*$/g, "")
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function bigrams(value: string) {
+  const compact = value.replace(/\s+/g, "");
+  const pairs = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const pair = compact.slice(i, i + 2);
+    pairs.set(pair, (pairs.get(pair) ?? 0) + 1);
+  }
+  return pairs;
+}
+
+/**
+ * Similarity of two strings (0-1) from their shared letter pairs
+ */
+export function textSimilarity(a: string, b: string) {
+  const left = normalizeMatchText(a);
+  const right = normalizeMatchText(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+  let leftTotal = 0;
+  let rightTotal = 0;
+  let shared = 0;
+  for (const [pair, amount] of leftPairs) {
+    leftTotal += amount;
+    shared += Math.min(amount, rightPairs.get(pair) ?? 0);
+  }
+  for (const amount of rightPairs.values()) rightTotal += amount;
+
+  return leftTotal + rightTotal === 0
+    ? 0
+    : (2 * shared) / (leftTotal + rightTotal);
+}
+
+/**
+ * How well a catalogue track fits a query (0-1). Title weighs most, then
+ * artist, then duration; parts the query doesn't have are left out.
+ */
+export function scoreTrackMatch(query: TrackQuery, track: Track) {
+  const titles = [track.title, track.title_short];
+  if (track.title_version) {
+    titles.push(`${track.title_short} ${track.title_version}`);
+  }
+  const queryTitle = query.version
+    ? `${query.title} ${query.version}`
+    : query.title;
+  const parts: Array<{ weight: number; score: number }> = [
+    {
+      weight: 0.5,
+      score: Math.max(
+        ...titles.map((title) => textSimilarity(queryTitle, title)),
+      ),
+    },
+  ];
+
+  if (query.artist) {
+    // Lists of artists ("A, B & C") are compared by their first one too
+    const [firstArtist = query.artist] = query.artist.split(/\s*[,;&/]\s*/);
+    parts.push({
+      weight: 0.35,
+      score: Math.max(
+        textSimilarity(query.artist, track.artist.name),
+        textSimilarity(firstArtist, track.artist.name),
+      ),
+    });
+  }
+
+  if (query.duration) {
+    // Full marks within 3 seconds, none from 30 seconds apart
+    const difference = Math.abs(query.duration - track.duration);
+    parts.push({
+      weight: 0.15,
+      score: Math.max(0, Math.min(1, 1 - (difference - 3) / 27)),
+    });
+  }
+
+  const totalWeight = parts.reduce((sum, part) => sum + part.weight, 0);
+  return (
+    parts.reduce((sum, part) => sum + part.weight * part.score, 0) / totalWeight
+  );
+}
+
+/**
+ * Rank search results against a query and decide whether the best one can
+ * be used without asking.
+ */
+export function rankTrackMatches(
+  query: TrackQuery,
+  tracks: Track[],
+): TrackMatch {
+  const candidates = tracks
+    .map((track) => ({ track, score: scoreTrackMatch(query, track) }))
+    .filter((candidate) => candidate.score >= TRACK_MATCH_MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, TRACK_MATCH_MAX_CANDIDATES);
+
+  const [best] = candidates;
+  if (!best) return { status: "unmatched", candidates };
+
+  // The same recording on another release isn't a competing match
+  const songKey = (track: Track) =>
+    `${normalizeMatchText(track.artist.name)}|${normalizeMatchText(track.title)}`;
+  const runnerUp = candidates.find(
+    (candidate) => songKey(candidate.track) !== songKey(best.track),
+  );
+  const isConfident =
+    best.score >= TRACK_MATCH_CONFIDENT_SCORE &&
+    (!runnerUp || best.score - runnerUp.score >= TRACK_MATCH_MIN_MARGIN);
+  return { status: isConfident ? "matched" : "ambiguous", candidates };
+}
+
+/**
+ * Find the catalogue track for a query: by its Deezer ID when it has one,
+ * otherwise by searching for its artist and title.
+ */
+export async function resolveTrackQuery(
+  query: TrackQuery,
+): Promise<TrackMatch> {
+  if (query.deezerId !== undefined) {
+    const track = await getTrackById(query.deezerId).catch(() => null);
+    if (track) return { status: "matched", candidates: [{ track, score: 1 }] };
+  }
+
+  const searchText = [query.artist, query.title].filter(Boolean).join(" ");
+  if (!searchText.trim()) return { status: "unmatched", candidates: [] };
+
+  const results = await searchTracks(searchText);
+  return rankTrackMatches(query, results.data);
+}
+
+/**
+ * Search results for a search typed in by hand, ranked against the query
+ * they're meant to correct. Nothing is filtered out, since the listener
+ * knows what they're looking for.
+ */
+export async function searchTrackCandidates(
+  searchText: string,
+  query: TrackQuery,
+): Promise<TrackMatchCandidate[]> {
+  const results = await searchTracks(searchText);
+  return results.data
+    .map((track) => ({ track, score: scoreTrackMatch(query, track) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, TRACK_MATCH_MAX_CANDIDATES);
+}
+
+/**
+ * Resolve a list of queries a few at a time, in their original order. A
+ * query whose search fails is reported as unmatched rather than failing the
+ * whole list.
+ */
+export async function resolveTrackQueries(
+  queries: TrackQuery[],
+  onProgress?: (resolved: number) => void,
+  concurrency = 3,
+): Promise<TrackMatch[]> {
+  const matches: TrackMatch[] = new Array<TrackMatch>(queries.length);
+  let nextIndex = 0;
+  let resolved = 0;
+
+  const worker = async () => {
+    while (nextIndex < queries.length) {
+      const index = nextIndex++;
+      matches[index] = await resolveTrackQuery(queries[index]!).catch(
+        (error: unknown): TrackMatch => {
+          console.warn("[trackMatching] Failed to resolve track:", error);
+          return { status: "unmatched", candidates: [] };
+        },
+      );
+      onProgress?.(++resolved);
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, worker));
+  return matches;
+}
@@ -0,0 +1,254 @@
+// File: src/utils/tracklists.ts
+
+import type { TrackQuery } from "@/utils/trackMatching";
+
+/**
+ * Parts of a track a CSV column can hold
+ */
+export type TracklistColumn =
+  | "title"
+  | "artist"
+  | "version"
+  | "album"
+  | "duration";
+
+export type TracklistColumnMapping = Record<TracklistColumn, number | null>;
+
+export interface TracklistCsv {
+  headers: string[];
+  rows: string[][];
+}
+
+export const TRACKLIST_COLUMN_LABELS: Record<TracklistColumn, string> = {
+  title: "Title",
+  artist: "Artist",
+  version: "Version",
+  album: "Album",
+  duration: "Duration",
+};
+
+// Header names each column is recognised by, checked in this order so
+// "Artist Name" and "Album Name" aren't taken for the title. Link and ID
+// columns ("Track URI", "Artist ID") are never guessed.
+const IGNORED_HEADER = /\b(?:uri|url|id|isrc|link|number|no)\b|#/i;
+const COLUMN_HEADER_PATTERNS: Array<[TracklistColumn, RegExp]> = [
+  ["artist", /artist|creator|performer|band/i],
+  ["album", /album|release/i],
+  ["version", /version|mix|remix/i],
+  ["duration", /duration|length|time/i],
+  ["title", /title|track|song|name/i],
+];
+
+const TIMESTAMP = String.raw`\d{1,2}:\d{2}(?::\d{2})?`;
+const LEADING_NUMBER =
+  /^(?:#\d{1,3}|\d{1,3}\s*[.)\]]|\d{1,3}\s+-\s+(?=.+\s[-–—]\s))\s*/;
+const LEADING_TIMESTAMP = new RegExp(
+  String.raw`^[\[(]?${TIMESTAMP}[\])]?\s*(?:[-–—|]\s*)?`,
+);
+const TRAILING_DURATION = new RegExp(
+  String.raw`\s*(?:[\[(](${TIMESTAMP})[\])]|\s(${TIMESTAMP}))$`,
+);
+const ARTIST_TITLE_SEPARATOR = /\s+[-–—]\s+|\t+/;
+
+/**
+ * Seconds in "3:45", "1:02:03" or a plain number. Numbers too large to be
+ * seconds are taken as milliseconds, as streaming services export them.
+ */
+export function parseDurationValue(value: string): number | undefined {
+  const text = value.trim();
+  if (!text) return undefined;
+
+  if (text.includes(":")) {
+    const parts = text.split(":").map(Number);
+    if (parts.some((part) => Number.isNaN(part))) return undefined;
+    return parts.reduce((total, part) => total * 60 + part, 0) || undefined;
+  }
+
+  const amount = Number(text);
+  if (!Number.isFinite(amount) || amount <= 0) return undefined;
+  return Math.round(amount > 10000 ? amount / 1000 : amount);
+}
+
+function stripQuotes(value: string) {
+  return value.replace(/^["'“‘](.*)["'”’]$/, "$1").trim();
+}
+
+/**
+ * One line of a pasted tracklist: "Artist - Title", optionally numbered,
+ * timestamped or followed by the track's length
+ */
+export function parseTracklistLine(line: string): TrackQuery | null {
+  let text = line.trim();
+
+  // Numbers and timestamps can come in either order, e.g. "01. [00:03:12]"
+  for (let i = 0; i < 2; i++) {
+    text = text.replace(LEADING_NUMBER, "").replace(LEADING_TIMESTAMP, "");
+  }
+
+  let duration: number | undefined;
+  const durationMatch = TRAILING_DURATION.exec(text);
+  if (durationMatch) {
+    duration = parseDurationValue(durationMatch[1] ?? durationMatch[2] ?? "");
+    text = text.slice(0, durationMatch.index);
+  }
+
+  text = text.trim();
+  if (!text) return null;
+
+  const separator = ARTIST_TITLE_SEPARATOR.exec(text);
+  if (separator) {
+    const artist = stripQuotes(text.slice(0, separator.index));
+    const title = stripQuotes(
+      text.slice(separator.index + separator[0].length),
+    );
+    if (artist && title) return { artist, title, duration };
+  }
+
+  // "Title by Artist"
+  const by = /^(.+?)\s+by\s+(.+)$/i.exec(text);
+  if (by?.[1] && by[2]) {
+    return { title: stripQuotes(by[1]), artist: stripQuotes(by[2]), duration };
+  }
+
+  return { title: stripQuotes(text), duration };
+}
+
+/**
+ * Every track in a pasted tracklist, skipping blank lines and headings
+ * like "Tracklist:"
+ */
+export function parseTracklistText(text: string): TrackQuery[] {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() && !/^[^-–—]*:\s*$/.test(line.trim()))
+    .map(parseTracklistLine)
+    .filter((query): query is TrackQuery => query !== null);
+}
+
+function detectDelimiter(line: string) {
+  const counts = [",", ";", "\t"].map((delimiter) => ({
+    delimiter,
+    count: line.replace(/"[^"]*"/g, "").split(delimiter).length - 1,
+  }));
+  return counts.reduce((best, next) => (next.count > best.count ? next : best))
+    .delimiter;
+}
+
+/**
+ * Rows of a CSV (or semicolon/tab separated) file, with quoted fields. The
+ * first row is taken as the header.
+ */
+export function parseCsv(text: string): TracklistCsv {
+  const content = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0] ?? "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [headers = [], ...body] = rows.filter((r) =>
+    r.some((value) => value.trim()),
+  );
+  return { headers: headers.map((header) => header.trim()), rows: body };
+}
+
+/**
+ * Whether pasted text looks like a CSV export rather than a tracklist
+ */
+export function looksLikeCsv(text: string) {
+  const [header = "", second = ""] = text.trim().split(/\r?\n/);
+  const delimiter = detectDelimiter(header);
+  const columns = header.split(delimiter).length;
+  return (
+    columns >= 2 &&
+    second.split(delimiter).length >= columns - 1 &&
+    COLUMN_HEADER_PATTERNS.some(([, pattern]) => pattern.test(header))
+  );
+}
+
+/**
+ * Best guess at which column holds what, from the header names
+ */
+export function guessColumnMapping(headers: string[]): TracklistColumnMapping {
+  const mapping: TracklistColumnMapping = {
+    title: null,
+    artist: null,
+    version: null,
+    album: null,
+    duration: null,
+  };
+  const taken = new Set<number>();
+
+  for (const [column, pattern] of COLUMN_HEADER_PATTERNS) {
+    const index = headers.findIndex(
+      (header, i) =>
+        !taken.has(i) && !IGNORED_HEADER.test(header) && pattern.test(header),
+    );
+    if (index !== -1) {
+      mapping[column] = index;
+      taken.add(index);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Tracks in CSV rows, read through a column mapping. Rows without a title
+ * are left out.
+ */
+export function csvRowsToQueries(
+  rows: string[][],
+  mapping: TracklistColumnMapping,
+): TrackQuery[] {
+  const read = (row: string[], column: TracklistColumn) => {
+    const index = mapping[column];
+    const value = index === null ? undefined : row[index]?.trim();
+    return value === "" ? undefined : value;
+  };
+
+  return rows.flatMap((row): TrackQuery[] => {
+    const title = read(row, "title");
+    if (!title) return [];
+    const duration = read(row, "duration");
+    return [
+      {
+        title,
+        artist: read(row, "artist"),
+        version: read(row, "version"),
+        album: read(row, "album"),
+        duration: duration ? parseDurationValue(duration) : undefined,
+      },
+    ];
+  });
+}
@@ -0,0 +1,21 @@
+// File: src/workers/audioFeatures.worker.ts
+
+import { extractAudioFeatures } from "@/utils/audioFeatures";
+
+export interface AudioFeaturesRequest {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+// Analysis takes a few hundred milliseconds per track, so it runs off the
+// main thread to keep playback and the UI smooth
+self.onmessage = (event: MessageEvent<AudioFeaturesRequest>) => {
+  const { samples, sampleRate } = event.data;
+  try {
+    self.postMessage({ features: extractAudioFeatures(samples, sampleRate) });
+  } catch (error) {
+    self.postMessage({
+      error: error instanceof Error ? error.message : "Analysis failed",
+    });
+  }
+};